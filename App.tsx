@@ -18,6 +18,7 @@ import {
   addNetworkListener,
   refreshNetworkState,
 } from './src/utils/networkStateManager';
+import { initializeOrderActionQueue } from './src/services/merchant/orderActionQueue';
 import { notifyForegroundResume, notifyNetworkRestored } from './src/utils/appLifecycleEvents';
 import { logCrashEvent } from './src/utils/crashlyticsLogger';
 
@@ -145,6 +146,8 @@ export default function App() {
     // Initialize network state manager first - this is critical for proper foreground/background handling
     initializeNetworkStateManager();
     console.log('[App] Network state manager initialized');
+    // Replays merchant order actions taken while offline once the network is back
+    const cleanupOrderActionQueue = initializeOrderActionQueue();
     logCrashEvent('App init');
     
     const configureGoogleSignIn = async () => {
@@ -181,6 +184,7 @@ export default function App() {
     
     // Cleanup network state manager on unmount
     return () => {
+      cleanupOrderActionQueue();
       cleanupNetworkStateManager();
     };
   }, []);
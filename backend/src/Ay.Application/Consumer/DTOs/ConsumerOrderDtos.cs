@@ -1,15 +1,41 @@
 namespace Ay.Application.Consumer.DTOs;
 
-public record OrderItemRequest(Guid MerchantItemId, int Quantity);
-public record PlaceOrderRequest(Guid ShopId, Guid ConsumerAddressId, OrderItemRequest[] Items, string PaymentMethod = "cash", string? SpecialInstructions = null);
-public record CalculateOrderRequest(Guid ShopId, Guid ConsumerAddressId, OrderItemRequest[] Items);
+public record OrderItemRequest(Guid MerchantItemId, decimal Quantity, Guid? VariantId = null);
+public record PlaceOrderRequest(Guid ShopId, Guid ConsumerAddressId, OrderItemRequest[] Items, string PaymentMethod = "cash", string? SpecialInstructions = null, FeeQuoteDto? Quote = null);
+/// <summary>The destination is a saved address or, before one is saved, the coordinates it will be saved with.</summary>
+public record CalculateOrderRequest(Guid ShopId, Guid? ConsumerAddressId, OrderItemRequest[] Items, decimal? Latitude = null, decimal? Longitude = null);
 
-public record OrderCalculationDto(int SubtotalCents, int DeliveryFeeCents, int SurchargeCents, int TotalCents, double DistanceMeters, bool FreeDeliveryApplied);
+/// <summary>
+/// Signed delivery fee quote. <c>DeliveryFeeCents</c> is <c>BaseFeeCents</c> less <c>FreeDeliveryDiscountCents</c>
+/// plus <c>PeakFeeCents</c>; placing an order with the quote charges exactly <c>TotalCents</c> while it is unexpired
+/// and still matches.
+/// </summary>
+public record FeeQuoteDto(
+    Guid ShopId,
+    int SubtotalCents,
+    int BaseFeeCents,
+    int SurchargeCents,
+    int FreeDeliveryDiscountCents,
+    bool FreeDeliveryApplied,
+    int PeakFeeCents,
+    string? PeakLabel,
+    bool BusyModeApplied,
+    int DeliveryFeeCents,
+    int TotalCents,
+    double DistanceMeters,
+    string RuleVersion,
+    DateTimeOffset ExpiresAt,
+    string Signature);
+
+public record OrderCalculationDto(int SubtotalCents, int DeliveryFeeCents, int SurchargeCents, int TotalCents, double DistanceMeters, bool FreeDeliveryApplied, FeeQuoteDto Quote, int? EtaMinutes = null);
 
 public record ShopSummaryDto(Guid Id, string Name, string? ImageUrl);
-public record ConsumerOrderItemDto(Guid Id, string ItemName, string? ItemDescription, string? ItemImageUrl, int ItemPriceCents, int Quantity, int SubtotalCents);
+public record OrderItemSubstitutionDto(Guid? MerchantItemId, string ItemName, int ItemPriceCents, decimal Quantity, string? Unit, int SubtotalCents, string Status);
+public record ConsumerOrderItemDto(Guid Id, string ItemName, string? ItemDescription, string? ItemImageUrl, int ItemPriceCents, decimal Quantity, int SubtotalCents, Guid? VariantId = null, string? VariantName = null, string? Unit = null, decimal? WeighedQuantity = null, string? PackingStatus = null, decimal? PackedQuantity = null, OrderItemSubstitutionDto? Substitution = null);
 public record DeliveryAddressSnapshotDto(string? Title, string? StreetAddress, string? City, string? Region, decimal? Latitude, decimal? Longitude, string? Landmark, string? FormattedAddress);
 public record RunnerSummaryDto(Guid Id, string Name, string PhoneNumber);
-public record ConsumerOrderDto(Guid Id, string OrderNumber, string Status, int SubtotalCents, int DeliveryFeeCents, int SurchargeCents, int TotalCents, string PaymentMethod, string? SpecialInstructions, DateTimeOffset PlacedAt, DateTimeOffset? ConfirmedAt, DateTimeOffset? OutForDeliveryAt, DateTimeOffset? DeliveredAt, DateTimeOffset? CancelledAt, string? CancellationReason, object? DeliveryAddress, ShopSummaryDto? Shop, ConsumerOrderItemDto[] Items, RunnerSummaryDto? DeliveryRunner, bool HasReview);
+public record ConsumerOrderDto(Guid Id, string OrderNumber, string Status, int SubtotalCents, int DeliveryFeeCents, int SurchargeCents, int TotalCents, string PaymentMethod, string? SpecialInstructions, DateTimeOffset PlacedAt, DateTimeOffset? ConfirmedAt, DateTimeOffset? OutForDeliveryAt, DateTimeOffset? DeliveredAt, DateTimeOffset? CancelledAt, string? CancellationReason, object? DeliveryAddress, ShopSummaryDto? Shop, ConsumerOrderItemDto[] Items, RunnerSummaryDto? DeliveryRunner, bool HasReview, string? CancellationReasonCode = null, string? CancelledBy = null);
+public record ConsumerOrderListResponseDto(IReadOnlyList<ConsumerOrderDto> Orders, string? NextCursor);
 
-public record ConsumerCancelOrderRequest(string? Reason);
+public record ConsumerCancelOrderRequest(string? ReasonCode = null, string? Note = null);
+public record AnswerSubstitutionRequest(bool Accept);
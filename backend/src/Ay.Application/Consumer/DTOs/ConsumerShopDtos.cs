@@ -2,13 +2,26 @@ using System.Text.Json.Serialization;
 
 namespace Ay.Application.Consumer.DTOs;
 
-public record ConsumerShopDto(Guid Id, string Name, string Description, string ShopType, string Address, double Latitude, double Longitude, string? ImageUrl, string[] Tags, bool IsOpen, double DistanceMeters, decimal DeliveryFee, decimal? MinimumOrderValue, decimal? Rating, int ReviewCount, DateTimeOffset CreatedAt);
+public record ConsumerShopDto(Guid Id, string Name, string Description, string ShopType, string Address, double Latitude, double Longitude, string? ImageUrl, string[] Tags, bool IsOpen, double DistanceMeters, decimal DeliveryFee, decimal? MinimumOrderValue, decimal? Rating, int ReviewCount, DateTimeOffset CreatedAt, int? DeliveryEtaMinutes = null, decimal? LeastOrderValue = null);
 
 /// <summary>Distance tiers use snake_case so consumer clients match existing fee-calculation types.</summary>
 public record ConsumerDistanceTierDto(
     [property: JsonPropertyName("max_distance")] decimal MaxDistance,
     [property: JsonPropertyName("fee")] decimal Fee);
 
+public record ConsumerPeakWindowDto(string? Label, int[] Days, string Start, string End, decimal Fee);
+
+public record ConsumerCoordinateDto(double Longitude, double Latitude);
+
+/// <summary>A delivery area with the fee, minimum order and ETA that apply to addresses inside it.</summary>
+public record ConsumerDeliveryZoneDto(
+    Guid Id,
+    string? Label,
+    ConsumerCoordinateDto[] Coordinates,
+    decimal? DeliveryFee,
+    decimal? MinimumOrderValue,
+    int? EtaMinutes);
+
 public record ConsumerDeliveryLogicDto(
     Guid Id,
     Guid ShopId,
@@ -22,6 +35,10 @@ public record ConsumerDeliveryLogicDto(
     decimal BeyondTierDistanceUnit,
     decimal FreeDeliveryThreshold,
     decimal FreeDeliveryRadius,
+    ConsumerPeakWindowDto[] PeakWindows,
+    bool BusyModeEnabled,
+    decimal BusyModeMultiplier,
+    ConsumerDeliveryZoneDto[] Zones,
     DateTimeOffset CreatedAt,
     DateTimeOffset UpdatedAt);
 
@@ -43,7 +60,15 @@ public record ShopDetailDto(
     int ReviewCount,
     ConsumerCategoryDto[] Categories,
     DateTimeOffset CreatedAt,
-    ConsumerDeliveryLogicDto? DeliveryLogic);
+    ConsumerDeliveryLogicDto? DeliveryLogic,
+    int? DeliveryEtaMinutes = null,
+    decimal? LeastOrderValue = null);
 
 public record ConsumerCategoryDto(Guid Id, string Name, ConsumerItemDto[] Items);
-public record ConsumerItemDto(Guid Id, string? Name, string? Description, int PriceCents, string Currency, string? ImageUrl, bool IsActive, int TimesSold);
+public record ConsumerItemDto(Guid Id, string? Name, string? Description, int PriceCents, string Currency, string? ImageUrl, bool IsActive, int TimesSold, decimal? StockQuantity = null, ConsumerItemVariantDto[]? Variants = null, string? Unit = null, decimal QuantityStep = 1m);
+public record ConsumerItemVariantDto(Guid Id, string? OptionGroup, string Name, int PriceCents);
+
+public record StockCheckRequest(OrderItemRequest[] Items);
+
+/// <summary>Per-item availability. <c>Reason</c> is one of not_found, inactive, out_of_stock or insufficient_quantity.</summary>
+public record ItemStockStatusDto(Guid ItemId, string? ItemName, bool IsValid, bool IsActive, decimal? AvailableQuantity, string? Reason);
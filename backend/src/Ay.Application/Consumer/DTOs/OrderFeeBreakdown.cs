@@ -1,3 +1,20 @@
 namespace Ay.Application.Consumer.DTOs;
 
-public record OrderFeeBreakdown(int DeliveryFeeCents, int SurchargeCents, bool FreeDeliveryApplied, double DistanceMeters);
+/// <summary>
+/// Itemised delivery fees for one order. <c>BaseFeeCents</c> is the distance fee before the free-delivery discount,
+/// which is the whole base fee when free delivery applies; the surcharge is never discounted. <c>PeakFeeCents</c> is
+/// the peak hour window fee plus the busy mode uplift, is not discounted either, and is part of the delivery fee.
+/// <c>PeakLabel</c> is the merchant's name for the peak window in effect, if any.
+/// </summary>
+public record OrderFeeBreakdown(
+    int BaseFeeCents,
+    int SurchargeCents,
+    int FreeDeliveryDiscountCents,
+    bool FreeDeliveryApplied,
+    double DistanceMeters,
+    int PeakFeeCents = 0,
+    string? PeakLabel = null,
+    bool BusyModeApplied = false)
+{
+    public int DeliveryFeeCents => BaseFeeCents - FreeDeliveryDiscountCents + PeakFeeCents;
+}
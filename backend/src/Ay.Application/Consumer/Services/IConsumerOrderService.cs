@@ -1,5 +1,6 @@
 using Ay.Application.Consumer.DTOs;
 using Ay.Domain.Common;
+using Ay.Domain.Interfaces;
 
 namespace Ay.Application.Consumer.Services;
 
@@ -7,8 +8,9 @@ public interface IConsumerOrderService
 {
     Task<Result<OrderCalculationDto>> CalculateAsync(Guid userId, CalculateOrderRequest request);
     Task<Result<ConsumerOrderDto>> PlaceOrderAsync(Guid userId, PlaceOrderRequest request);
-    Task<Result<List<ConsumerOrderDto>>> GetUserOrdersAsync(Guid userId);
+    Task<Result<ConsumerOrderListResponseDto>> GetUserOrdersAsync(Guid userId, OrderListQuery filter, string? cursor = null, int limit = 50);
     Task<Result<ConsumerOrderDto>> GetOrderByIdAsync(Guid orderId, Guid userId);
     Task<Result<ConsumerOrderDto?>> GetActiveOrderAsync(Guid userId);
-    Task<Result> CancelOrderAsync(Guid orderId, Guid userId, string? reason);
+    Task<Result> CancelOrderAsync(Guid orderId, Guid userId, string? reasonCode, string? note);
+    Task<Result> AnswerSubstitutionAsync(Guid orderId, Guid orderItemId, Guid userId, bool accept);
 }
@@ -0,0 +1,12 @@
+using Ay.Domain.Entities;
+
+namespace Ay.Application.Consumer.Services;
+
+public interface IDeliveryDistanceService
+{
+    /// <summary>
+    /// The distance a delivery to the point is priced on: the road distance when the shop's distance mode is
+    /// <c>road</c> and a route is found, otherwise the straight-line distance.
+    /// </summary>
+    Task<double> GetDeliveryDistanceAsync(Shop shop, ShopDeliveryLogic? logic, double latitude, double longitude);
+}
@@ -6,5 +6,16 @@ namespace Ay.Application.Consumer.Services;
 public interface IDeliveryFeeCalculatorService
 {
     double CalculateDistance(double lat1, double lon1, double lat2, double lon2);
-    OrderFeeBreakdown CalculateFee(decimal subtotalPkr, double distanceMeters, ShopDeliveryLogic logic);
+
+    /// <summary>
+    /// Fees for an order. A <paramref name="zone"/> with its own delivery fee replaces the distance tiers; the other
+    /// rules apply as usual.
+    /// </summary>
+    OrderFeeBreakdown CalculateFee(decimal subtotalPkr, double distanceMeters, ShopDeliveryLogic logic, ShopDeliveryArea? zone = null);
+
+    /// <summary>The smallest order accepted: the zone's minimum when it sets one, otherwise the least order value.</summary>
+    decimal GetLeastOrderValue(ShopDeliveryLogic logic, ShopDeliveryArea? zone);
+
+    /// <summary>The fee rules version plus the shop's delivery settings stamp; changes whenever either does.</summary>
+    string GetRuleVersion(ShopDeliveryLogic? logic);
 }
@@ -0,0 +1,12 @@
+using Ay.Application.Consumer.DTOs;
+using Ay.Domain.Common;
+
+namespace Ay.Application.Consumer.Services;
+
+public interface IFeeQuoteService
+{
+    FeeQuoteDto Issue(Guid shopId, int subtotalCents, OrderFeeBreakdown breakdown, string ruleVersion);
+
+    /// <summary>Checks the signature and expiry only; the caller checks the quote still matches the order.</summary>
+    Result Verify(FeeQuoteDto quote);
+}
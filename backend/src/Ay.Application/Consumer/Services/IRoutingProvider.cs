@@ -0,0 +1,10 @@
+namespace Ay.Application.Consumer.Services;
+
+/// <summary>
+/// Road distances for delivery pricing. Returns null when there is no route or the provider is unavailable, so the
+/// caller can fall back to the straight-line distance.
+/// </summary>
+public interface IRoutingProvider
+{
+    Task<double?> GetRoadDistanceAsync(double fromLat, double fromLon, double toLat, double toLon, CancellationToken ct = default);
+}
@@ -1,4 +1,5 @@
 using Ay.Application.Consumer.DTOs;
+using Ay.Domain.Enums;
 using FluentValidation;
 
 namespace Ay.Application.Consumer.Validators;
@@ -24,9 +25,10 @@ public class PlaceOrderRequestValidator : AbstractValidator<PlaceOrderRequest>
         RuleForEach(x => x.Items).ChildRules(item =>
         {
             item.RuleFor(i => i.MerchantItemId).NotEmpty();
-            item.RuleFor(i => i.Quantity).GreaterThanOrEqualTo(1);
+            item.RuleFor(i => i.Quantity).GreaterThan(0);
         });
         RuleFor(x => x.PaymentMethod).NotEmpty().Must(p => p is "cash" or "card" or "online");
+        RuleFor(x => x.Quote!.Signature).NotEmpty().When(x => x.Quote is not null);
     }
 }
 
@@ -35,11 +37,28 @@ public class CalculateOrderRequestValidator : AbstractValidator<CalculateOrderRe
     public CalculateOrderRequestValidator()
     {
         RuleFor(x => x.ShopId).NotEmpty();
-        RuleFor(x => x.ConsumerAddressId).NotEmpty();
+        RuleFor(x => x.ConsumerAddressId).NotEmpty()
+            .When(x => x.Latitude is null || x.Longitude is null)
+            .WithMessage("An address or coordinates are required.");
+        RuleFor(x => x.Latitude).InclusiveBetween(-90, 90).When(x => x.Latitude.HasValue);
+        RuleFor(x => x.Longitude).InclusiveBetween(-180, 180).When(x => x.Longitude.HasValue);
         RuleFor(x => x.Items).NotEmpty();
     }
 }
 
+public class StockCheckRequestValidator : AbstractValidator<StockCheckRequest>
+{
+    public StockCheckRequestValidator()
+    {
+        RuleFor(x => x.Items).NotEmpty().WithMessage("At least one item is required.");
+        RuleForEach(x => x.Items).ChildRules(item =>
+        {
+            item.RuleFor(i => i.MerchantItemId).NotEmpty();
+            item.RuleFor(i => i.Quantity).GreaterThan(0);
+        });
+    }
+}
+
 public class CreateReviewRequestValidator : AbstractValidator<CreateReviewRequest>
 {
     public CreateReviewRequestValidator()
@@ -57,3 +76,18 @@ public class UpdateConsumerProfileRequestValidator : AbstractValidator<UpdateCon
         RuleFor(x => x.Name).MaximumLength(100);
     }
 }
+
+public class ConsumerCancelOrderRequestValidator : AbstractValidator<ConsumerCancelOrderRequest>
+{
+    public ConsumerCancelOrderRequestValidator()
+    {
+        RuleFor(x => x.ReasonCode)
+            .Must(c => c is null || CancellationReasons.Customer.Contains(c))
+            .WithMessage("Reason must be one of: " + string.Join(", ", CancellationReasons.Customer) + ".");
+        RuleFor(x => x.Note).MaximumLength(500);
+        When(x => x.ReasonCode == CancellationReasons.Other, () =>
+        {
+            RuleFor(x => x.Note).NotEmpty().WithMessage("Add a note when the reason is other.");
+        });
+    }
+}
@@ -0,0 +1,17 @@
+namespace Ay.Application.Merchant.DTOs;
+
+/// <summary>
+/// One auto-accept rule. Every condition that is switched on must hold for the rule to fire; a null
+/// <c>MaxTotalCents</c> puts no limit on the order total. A rule without an <c>Id</c> is new and gets one on save.
+/// </summary>
+public record AutoAcceptRuleRequest(Guid? Id, string Name, bool IsEnabled, bool DuringOpeningHours, int? MaxTotalCents, bool AllItemsInStock, bool RunnerAvailable);
+
+/// <summary><c>IsEnabled</c> is the shop's kill switch; rules are tried in the order given.</summary>
+public record UpdateAutoAcceptSettingsRequest(bool IsEnabled, AutoAcceptRuleRequest[] Rules);
+
+public record AutoAcceptRuleDto(Guid Id, string Name, bool IsEnabled, bool DuringOpeningHours, int? MaxTotalCents, bool AllItemsInStock, bool RunnerAvailable);
+
+public record AutoAcceptSettingsDto(Guid ShopId, bool IsEnabled, AutoAcceptRuleDto[] Rules);
+
+/// <summary><c>Rule</c> names the rule that confirmed the order; null when the order was left for the merchant.</summary>
+public record AutoAcceptResultDto(bool Confirmed, string? Rule);
@@ -0,0 +1,28 @@
+namespace Ay.Application.Merchant.DTOs;
+
+public record ImportCreateRowDto(int Row, string Name, string? Sku, string? Barcode, int PriceCents, Guid CategoryId, string CategoryName);
+public record ImportFieldChangeDto(string Field, string? From, string? To);
+public record ImportUpdateRowDto(int Row, Guid ItemId, string? ItemName, ImportFieldChangeDto[] Changes);
+public record ImportRejectRowDto(int Row, string[] Errors);
+
+public record InventoryImportPreviewDto(
+    Guid JobId,
+    string FileName,
+    string Status,
+    ImportCreateRowDto[] Creates,
+    ImportUpdateRowDto[] Updates,
+    ImportRejectRowDto[] Rejects,
+    int UnchangedCount,
+    DateTimeOffset CreatedAt);
+
+public record InventoryImportJobDto(
+    Guid Id,
+    Guid ShopId,
+    string Status,
+    string FileName,
+    int CreateCount,
+    int UpdateCount,
+    int RejectCount,
+    string? Error,
+    DateTimeOffset CreatedAt,
+    DateTimeOffset? CompletedAt);
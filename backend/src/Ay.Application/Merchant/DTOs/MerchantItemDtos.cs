@@ -2,9 +2,12 @@ using System.Text.Json;
 
 namespace Ay.Application.Merchant.DTOs;
 
-public record CreateItemRequest(string Name, string? Description = null, int PriceCents = 0, Guid? TemplateId = null, Guid[]? CategoryIds = null, string? Barcode = null, string? Sku = null, string? ImageUrl = null, bool IsActive = true);
-public record UpdateItemRequest(string? Name = null, string? Description = null, int? PriceCents = null, Guid[]? CategoryIds = null, string? Barcode = null, string? Sku = null, string? ImageUrl = null, bool? IsActive = null);
-public record MerchantItemDto(Guid Id, Guid ShopId, string? Name, string? Description, int PriceCents, string Currency, string? ImageUrl, string? Barcode, string? Sku, bool IsActive, bool IsCustom, int TimesSold, long TotalRevenueCents, CategorySummaryDto[] Categories, Guid? TemplateId, DateTimeOffset CreatedAt, DateTimeOffset UpdatedAt);
+public record ItemVariantRequest(Guid? Id, string Name, int PriceCents, string? OptionGroup = null, string? Sku = null, string? Barcode = null, bool IsActive = true);
+public record CreateItemRequest(string Name, string? Description = null, int PriceCents = 0, Guid? TemplateId = null, Guid[]? CategoryIds = null, string? Barcode = null, string? Sku = null, string? ImageUrl = null, bool IsActive = true, bool TrackStock = false, decimal StockQuantity = 0, decimal? ReorderThreshold = null, ItemVariantRequest[]? Variants = null, string? Unit = null, decimal QuantityStep = 1m);
+public record UpdateItemRequest(string? Name = null, string? Description = null, int? PriceCents = null, Guid[]? CategoryIds = null, string? Barcode = null, string? Sku = null, string? ImageUrl = null, bool? IsActive = null, bool? TrackStock = null, decimal? StockQuantity = null, decimal? ReorderThreshold = null, ItemVariantRequest[]? Variants = null, string? Unit = null, decimal? QuantityStep = null, Guid? RevertOfAuditLogId = null, decimal? StockAdjustment = null);
+public record MerchantItemDto(Guid Id, Guid ShopId, string? Name, string? Description, int PriceCents, string Currency, string? Unit, decimal QuantityStep, string? ImageUrl, string? Barcode, string? Sku, bool IsActive, bool IsCustom, int TimesSold, long TotalRevenueCents, bool TrackStock, decimal StockQuantity, decimal? ReorderThreshold, MerchantItemVariantDto[] Variants, CategorySummaryDto[] Categories, Guid? TemplateId, DateTimeOffset CreatedAt, DateTimeOffset UpdatedAt);
+public record MerchantItemListResponseDto(IReadOnlyList<MerchantItemDto> Items, string? NextCursor);
+public record MerchantItemVariantDto(Guid Id, string? OptionGroup, string Name, int PriceCents, string? Sku, string? Barcode, bool IsActive, int SortOrder);
 public record ItemTemplateDto(Guid Id, string Name, string? Barcode, string? Description, string? ImageUrl, string? DefaultUnit);
 
 public record MerchantItemAuditLogEntryDto(
@@ -1,9 +1,15 @@
 namespace Ay.Application.Merchant.DTOs;
 
 public record DispatchOrderRequest(Guid RunnerId);
-public record CancelOrderRequest(string Reason);
+public record CancelOrderRequest(string ReasonCode, string? Note = null);
+public record RecordWeighedQuantityRequest(decimal WeighedQuantity);
+public record UpdateOrderItemPackingRequest(string? Status, decimal? PackedQuantity = null);
+public record ProposeSubstitutionRequest(Guid MerchantItemId, decimal Quantity);
 public record DeliveryAddressDto(string? Id, string? Title, string? StreetAddress, string? City, string? Region, decimal? Latitude, decimal? Longitude, string? Landmark, string? FormattedAddress);
-public record OrderItemDto(Guid Id, string ItemName, string? ItemDescription, string? ItemImageUrl, int ItemPriceCents, int Quantity, int SubtotalCents);
+public record OrderItemSubstitutionDto(Guid? MerchantItemId, string ItemName, int ItemPriceCents, decimal Quantity, string? Unit, int SubtotalCents, string Status);
+public record OrderItemDto(Guid Id, string ItemName, string? ItemDescription, string? ItemImageUrl, int ItemPriceCents, decimal Quantity, int SubtotalCents, Guid? VariantId = null, string? VariantName = null, string? Unit = null, decimal? WeighedQuantity = null, string? PackingStatus = null, decimal? PackedQuantity = null, OrderItemSubstitutionDto? Substitution = null);
 public record RunnerSummaryDto(Guid Id, string Name, string PhoneNumber);
-public record MerchantOrderDto(Guid Id, string OrderNumber, string Status, int SubtotalCents, int DeliveryFeeCents, int SurchargeCents, int TotalCents, string PaymentMethod, string? SpecialInstructions, DateTimeOffset PlacedAt, DateTimeOffset? ConfirmedAt, DateTimeOffset? OutForDeliveryAt, DateTimeOffset? DeliveredAt, DateTimeOffset? CancelledAt, string? CancellationReason, string? CustomerName, string? CustomerEmail, object? DeliveryAddress, OrderItemDto[] Items, RunnerSummaryDto? DeliveryRunner);
-public record OrderAnalyticsDto(int TotalOrders, long TotalRevenueCents, long AverageOrderValueCents, int? AverageConfirmationTimeSeconds, int? AveragePreparationTimeSeconds, int? AverageDeliveryTimeSeconds, Dictionary<string, int> StatusBreakdown);
+public record MerchantOrderDto(Guid Id, string OrderNumber, string Status, int SubtotalCents, int DeliveryFeeCents, int SurchargeCents, int TotalCents, string PaymentMethod, string? SpecialInstructions, DateTimeOffset PlacedAt, DateTimeOffset? ConfirmedAt, DateTimeOffset? OutForDeliveryAt, DateTimeOffset? DeliveredAt, DateTimeOffset? CancelledAt, string? CancellationReason, string? CustomerName, string? CustomerEmail, object? DeliveryAddress, OrderItemDto[] Items, RunnerSummaryDto? DeliveryRunner, string? AutoAcceptedRule = null, string? CancelledBy = null, string? CancellationReasonCode = null);
+public record MerchantOrderListResponseDto(IReadOnlyList<MerchantOrderDto> Orders, string? NextCursor);
+public record CancellationBreakdownDto(string ReasonCode, string? CancelledBy, int Count);
+public record OrderAnalyticsDto(int TotalOrders, long TotalRevenueCents, long AverageOrderValueCents, int? AverageConfirmationTimeSeconds, int? AveragePreparationTimeSeconds, int? AverageDeliveryTimeSeconds, Dictionary<string, int> StatusBreakdown, Dictionary<string, int>? SlaBreaches = null, IReadOnlyList<CancellationBreakdownDto>? CancellationBreakdown = null);
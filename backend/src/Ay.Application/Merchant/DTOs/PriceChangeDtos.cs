@@ -0,0 +1,17 @@
+namespace Ay.Application.Merchant.DTOs;
+
+/// <summary>Mode "percent" takes Amount as a percentage (10 = 10% up); "fixed" takes it as a price delta in cents.</summary>
+public record CategoryPriceChangeRequest(string Mode, decimal Amount, DateTimeOffset? EffectiveAt = null);
+
+public record ScheduledPriceChangeDto(
+    Guid Id,
+    Guid CategoryId,
+    string? CategoryName,
+    string Mode,
+    decimal Amount,
+    DateTimeOffset EffectiveAt,
+    string Status,
+    int AppliedItemCount,
+    string? Error,
+    DateTimeOffset CreatedAt,
+    DateTimeOffset? AppliedAt);
@@ -8,12 +8,19 @@ public record CoordinateDto(double Longitude, double Latitude);
 public record CreateDeliveryAreaRequest(
     string? Label,
     /// <summary>Ordered ring of coordinates. First == last to close the polygon.</summary>
-    CoordinateDto[] Coordinates);
+    CoordinateDto[] Coordinates,
+    /// <summary>Flat fee in PKR for addresses in this zone; null uses the distance tiers.</summary>
+    decimal? DeliveryFee = null,
+    decimal? MinimumOrderValue = null,
+    int? EtaMinutes = null);
 
 public record DeliveryAreaDto(
     Guid Id,
     Guid ShopId,
     string? Label,
     CoordinateDto[] Coordinates,
+    decimal? DeliveryFee,
+    decimal? MinimumOrderValue,
+    int? EtaMinutes,
     DateTimeOffset CreatedAt,
     DateTimeOffset UpdatedAt);
@@ -0,0 +1,6 @@
+namespace Ay.Application.Merchant.DTOs;
+
+/// <summary>SLA targets in minutes per order stage; null turns the stage's target off.</summary>
+public record UpdateShopSlaRequest(int? ConfirmationMinutes, int? PreparationMinutes, int? DeliveryMinutes);
+
+public record ShopSlaDto(Guid ShopId, int? ConfirmationMinutes, int? PreparationMinutes, int? DeliveryMinutes);
@@ -0,0 +1,12 @@
+namespace Ay.Application.Merchant.DTOs;
+
+/// <summary>
+/// One counted item. Existing items are addressed by <c>ItemId</c>; a barcode that only matched the shared catalog is
+/// added as a new item from <c>TemplateId</c> (which then needs a price). <c>StockQuantity</c> is the counted total,
+/// not a delta.
+/// </summary>
+public record StockTakeLineRequest(Guid? ItemId = null, Guid? TemplateId = null, decimal? StockQuantity = null, int? PriceCents = null, Guid? CategoryId = null);
+
+public record StockTakeRequest(StockTakeLineRequest[] Lines);
+
+public record StockTakeResultDto(int UpdatedCount, int CreatedCount, int UnchangedCount);
@@ -0,0 +1,20 @@
+using Ay.Application.Merchant.DTOs;
+using Ay.Domain.Common;
+
+namespace Ay.Application.Merchant.Services;
+
+/// <summary>
+/// Per-shop rules that confirm new orders without the merchant. The server evaluates each order right after it is
+/// placed, so rules fire whether or not a merchant device is online; the first enabled rule whose conditions all hold
+/// confirms the order and is recorded on it. Nothing fires while the shop's kill switch is off.
+/// </summary>
+public interface IAutoAcceptService
+{
+    Task<Result<AutoAcceptSettingsDto>> GetSettingsAsync(Guid shopId, Guid userId);
+    Task<Result<AutoAcceptSettingsDto>> UpdateSettingsAsync(Guid shopId, Guid userId, UpdateAutoAcceptSettingsRequest request);
+    /// <summary>
+    /// Runs the shop's rules against a just-placed order. Leaves the order pending when no rule matches, or when the
+    /// customer cancelled it first.
+    /// </summary>
+    Task<AutoAcceptResultDto> EvaluateNewOrderAsync(Guid orderId);
+}
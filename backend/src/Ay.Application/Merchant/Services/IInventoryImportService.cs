@@ -0,0 +1,15 @@
+using Ay.Application.Merchant.DTOs;
+using Ay.Domain.Common;
+
+namespace Ay.Application.Merchant.Services;
+
+/// <summary>
+/// Bulk inventory import from a CSV file. A preview parses the file and stores the plan as a job without touching
+/// items; applying the job re-checks each row against current inventory and writes the changes in one transaction.
+/// </summary>
+public interface IInventoryImportService
+{
+    Task<Result<InventoryImportPreviewDto>> PreviewAsync(Guid shopId, Guid userId, string fileName, Stream content);
+    Task<Result<InventoryImportJobDto>> ApplyAsync(Guid shopId, Guid jobId, Guid userId);
+    Task<Result<InventoryImportJobDto>> GetJobAsync(Guid shopId, Guid jobId, Guid userId);
+}
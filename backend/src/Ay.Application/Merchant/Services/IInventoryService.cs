@@ -1,5 +1,6 @@
 using Ay.Application.Merchant.DTOs;
 using Ay.Domain.Common;
+using Ay.Domain.Interfaces;
 
 namespace Ay.Application.Merchant.Services;
 
@@ -11,17 +12,24 @@ public interface IInventoryService
     Task<Result> DeleteCategoryAsync(Guid shopId, Guid categoryId, Guid userId);
     Task<Result<List<CategoryTemplateDto>>> GetCategoryTemplatesAsync();
 
-    Task<Result<List<MerchantItemDto>>> GetItemsAsync(Guid shopId, Guid userId);
+    Task<Result<MerchantItemListResponseDto>> GetItemsAsync(
+        Guid shopId,
+        Guid userId,
+        ItemListQuery? filter = null,
+        string? cursor = null,
+        int limit = 50);
+    Task<Result<int>> GetLowStockCountAsync(Guid shopId, Guid userId);
     Task<Result<MerchantItemDto>> GetItemByIdAsync(Guid shopId, Guid itemId, Guid userId);
     Task<Result<MerchantItemDto>> CreateItemAsync(Guid shopId, Guid userId, CreateItemRequest request);
     Task<Result<MerchantItemDto>> UpdateItemAsync(Guid shopId, Guid itemId, Guid userId, UpdateItemRequest request);
     Task<Result> UpdateItemImageAsync(Guid shopId, Guid itemId, Guid userId, string imageUrl);
     Task<Result> DeleteItemAsync(Guid shopId, Guid itemId, Guid userId);
-    Task<Result<List<ItemTemplateDto>>> SearchItemTemplatesAsync(string? search);
+    Task<Result<List<ItemTemplateDto>>> SearchItemTemplatesAsync(string? search, string? barcode = null);
 
     Task<Result<MerchantItemAuditLogResponseDto>> GetItemAuditLogAsync(
         Guid shopId,
         Guid userId,
         int limit = 50,
-        Guid? merchantItemId = null);
+        AuditLogQuery? filter = null,
+        string? cursor = null);
 }
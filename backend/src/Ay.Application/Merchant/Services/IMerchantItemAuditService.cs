@@ -1,4 +1,5 @@
 using Ay.Application.Merchant.DTOs;
+using Ay.Domain.Interfaces;
 
 namespace Ay.Application.Merchant.Services;
 
@@ -7,13 +8,16 @@ namespace Ay.Application.Merchant.Services;
 /// </summary>
 public interface IMerchantItemAuditService
 {
-    Task LogItemCreatedAsync(Guid shopId, Guid itemId, Guid userId, string name, int priceCents);
+    Task LogItemCreatedAsync(Guid shopId, Guid itemId, Guid userId, string name, int priceCents, string source = "manual");
 
-    Task LogItemFieldChangesAsync(Guid shopId, Guid itemId, Guid userId, IReadOnlyDictionary<string, object?> changes);
+    Task LogItemFieldChangesAsync(Guid shopId, Guid itemId, Guid userId, IReadOnlyDictionary<string, object?> changes, string source = "manual");
 
     Task LogItemImageUpdatedAsync(Guid shopId, Guid itemId, Guid userId, string? previousUrl, string newUrl);
 
     Task LogItemDeletedAsync(Guid shopId, Guid itemId, Guid userId, string name, int priceCents);
 
-    Task<IReadOnlyList<MerchantItemAuditLogEntryDto>> ListEntriesForShopAsync(Guid shopId, int limit, Guid? merchantItemId = null);
+    Task<IReadOnlyList<MerchantItemAuditLogEntryDto>> ListEntriesForShopAsync(Guid shopId, int limit, AuditLogQuery? filter = null);
+
+    /// <summary>True when <paramref name="auditLogId"/> is an entry recorded for this shop's item.</summary>
+    Task<bool> IsItemEntryAsync(Guid shopId, Guid itemId, Guid auditLogId);
 }
@@ -1,15 +1,21 @@
 using Ay.Application.Merchant.DTOs;
 using Ay.Domain.Common;
+using Ay.Domain.Interfaces;
 
 namespace Ay.Application.Merchant.Services;
 
 public interface IMerchantOrderService
 {
-    Task<Result<List<MerchantOrderDto>>> GetShopOrdersAsync(Guid shopId, Guid userId, string? statusFilter = null);
+    Task<Result<MerchantOrderListResponseDto>> GetShopOrdersAsync(Guid shopId, Guid userId, OrderListQuery filter, string? cursor = null, int limit = 50);
     Task<Result<MerchantOrderDto>> GetOrderByIdAsync(Guid shopId, Guid orderId, Guid userId);
-    Task<Result> ConfirmOrderAsync(Guid shopId, Guid orderId, Guid userId);
-    Task<Result> DispatchOrderAsync(Guid shopId, Guid orderId, Guid userId, Guid runnerId);
-    Task<Result> MarkDeliveredAsync(Guid shopId, Guid orderId, Guid userId);
-    Task<Result> CancelOrderAsync(Guid shopId, Guid orderId, Guid userId, string reason);
+    Task<Result<Guid>> GetOrderShopIdAsync(Guid orderId, Guid userId);
+    Task<Result> ConfirmOrderAsync(Guid shopId, Guid orderId, Guid userId, string? idempotencyKey = null, string? autoAcceptedRule = null);
+    Task<Result> DispatchOrderAsync(Guid shopId, Guid orderId, Guid userId, Guid runnerId, string? idempotencyKey = null);
+    Task<Result> MarkDeliveredAsync(Guid shopId, Guid orderId, Guid userId, string? idempotencyKey = null);
+    Task<Result> CancelOrderAsync(Guid shopId, Guid orderId, Guid userId, string reasonCode, string? note, string? idempotencyKey = null);
+    Task<Result> RecordWeighedQuantityAsync(Guid shopId, Guid orderId, Guid orderItemId, Guid userId, decimal weighedQuantity);
+    Task<Result> UpdatePackingAsync(Guid shopId, Guid orderId, Guid orderItemId, Guid userId, string? status, decimal? packedQuantity);
+    Task<Result> ProposeSubstitutionAsync(Guid shopId, Guid orderId, Guid orderItemId, Guid userId, Guid merchantItemId, decimal quantity);
+    Task<Result> WithdrawSubstitutionAsync(Guid shopId, Guid orderId, Guid orderItemId, Guid userId);
     Task<Result<OrderAnalyticsDto>> GetAnalyticsAsync(Guid shopId, Guid userId);
 }
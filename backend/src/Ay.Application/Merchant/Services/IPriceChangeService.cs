@@ -0,0 +1,17 @@
+using Ay.Application.Merchant.DTOs;
+using Ay.Domain.Common;
+
+namespace Ay.Application.Merchant.Services;
+
+/// <summary>
+/// Category-wide price adjustments. A change without an effective time (or one in the past) is applied straight away;
+/// later ones are stored and picked up by <see cref="ApplyDueChangesAsync"/>. Every item price it moves is logged as a
+/// <c>price_updated</c> audit entry.
+/// </summary>
+public interface IPriceChangeService
+{
+    Task<Result<ScheduledPriceChangeDto>> CreateCategoryPriceChangeAsync(Guid shopId, Guid categoryId, Guid userId, CategoryPriceChangeRequest request);
+    Task<Result<List<ScheduledPriceChangeDto>>> GetPriceChangesAsync(Guid shopId, Guid userId);
+    Task<Result> CancelPriceChangeAsync(Guid shopId, Guid changeId, Guid userId);
+    Task<int> ApplyDueChangesAsync(CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,14 @@
+using Ay.Application.Merchant.DTOs;
+using Ay.Domain.Common;
+
+namespace Ay.Application.Merchant.Services;
+
+/// <summary>
+/// Per-shop SLA targets for confirming, preparing and delivering orders. The merchant app alerts on orders that run
+/// past a target; breaches are recorded by the order transitions for analytics.
+/// </summary>
+public interface IShopSlaService
+{
+    Task<Result<ShopSlaDto>> GetAsync(Guid shopId, Guid userId);
+    Task<Result<ShopSlaDto>> UpdateAsync(Guid shopId, Guid userId, UpdateShopSlaRequest request);
+}
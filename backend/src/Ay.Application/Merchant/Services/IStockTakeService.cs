@@ -0,0 +1,14 @@
+using Ay.Application.Merchant.DTOs;
+using Ay.Domain.Common;
+
+namespace Ay.Application.Merchant.Services;
+
+/// <summary>
+/// Commits a barcode stock-take session as one batch: counted quantities and price corrections for existing items,
+/// plus catalog items the merchant added while scanning. Everything is written in one transaction and logged with
+/// <c>Source = "stock_take"</c>.
+/// </summary>
+public interface IStockTakeService
+{
+    Task<Result<StockTakeResultDto>> CommitAsync(Guid shopId, Guid userId, StockTakeRequest request);
+}
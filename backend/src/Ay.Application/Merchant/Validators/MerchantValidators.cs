@@ -1,4 +1,5 @@
 using Ay.Application.Merchant.DTOs;
+using Ay.Domain.Enums;
 using FluentValidation;
 
 namespace Ay.Application.Merchant.Validators;
@@ -67,6 +68,81 @@ public class CreateItemRequestValidator : AbstractValidator<CreateItemRequest>
     {
         RuleFor(x => x.Name).NotEmpty().MaximumLength(200);
         RuleFor(x => x.PriceCents).GreaterThanOrEqualTo(0);
+        RuleFor(x => x.StockQuantity).GreaterThanOrEqualTo(0);
+        RuleFor(x => x.StockQuantity).Must(q => q % 1 == 0).When(x => string.IsNullOrEmpty(x.Unit))
+            .WithMessage("Items sold per piece need a whole stock quantity.");
+        RuleFor(x => x.ReorderThreshold).GreaterThanOrEqualTo(0).When(x => x.ReorderThreshold.HasValue);
+        RuleFor(x => x.Variants).Must(v => HaveUniqueVariantNames(v!)).WithMessage("Variant names must be unique within an option group.")
+            .When(x => x.Variants is { Length: > 0 });
+        RuleForEach(x => x.Variants).SetValidator(new ItemVariantRequestValidator());
+        RuleFor(x => x.Unit).Must(BeKnownUnit).WithMessage("Unit must be one of: kg, g, dozen, litre.");
+        RuleFor(x => x.QuantityStep).GreaterThan(0).LessThanOrEqualTo(1000);
+    }
+
+    /// <summary>Null or empty means the item is sold per piece.</summary>
+    internal static bool BeKnownUnit(string? unit) =>
+        string.IsNullOrWhiteSpace(unit) || unit.Trim() is "kg" or "g" or "dozen" or "litre";
+
+    internal static bool HaveUniqueVariantNames(ItemVariantRequest[] variants) =>
+        variants
+            .Select(v => $"{v.OptionGroup?.Trim().ToLowerInvariant()}|{v.Name?.Trim().ToLowerInvariant()}")
+            .Distinct()
+            .Count() == variants.Length;
+}
+
+public class UpdateItemRequestValidator : AbstractValidator<UpdateItemRequest>
+{
+    public UpdateItemRequestValidator()
+    {
+        RuleFor(x => x.Variants).Must(v => CreateItemRequestValidator.HaveUniqueVariantNames(v!)).WithMessage("Variant names must be unique within an option group.")
+            .When(x => x.Variants is { Length: > 0 });
+        RuleForEach(x => x.Variants).SetValidator(new ItemVariantRequestValidator());
+        RuleFor(x => x.Unit).Must(CreateItemRequestValidator.BeKnownUnit).WithMessage("Unit must be one of: kg, g, dozen, litre.");
+        RuleFor(x => x.QuantityStep).GreaterThan(0).LessThanOrEqualTo(1000).When(x => x.QuantityStep.HasValue);
+        RuleFor(x => x.StockAdjustment).Null().When(x => x.StockQuantity.HasValue)
+            .WithMessage("Set either a stock quantity or a stock adjustment, not both.");
+    }
+}
+
+public class RecordWeighedQuantityRequestValidator : AbstractValidator<RecordWeighedQuantityRequest>
+{
+    public RecordWeighedQuantityRequestValidator()
+    {
+        RuleFor(x => x.WeighedQuantity).GreaterThan(0);
+    }
+}
+
+public class UpdateOrderItemPackingRequestValidator : AbstractValidator<UpdateOrderItemPackingRequest>
+{
+    public UpdateOrderItemPackingRequestValidator()
+    {
+        RuleFor(x => x.Status)
+            .Must(s => s is null or "packed" or "short" or "unavailable")
+            .WithMessage("Status must be packed, short or unavailable.");
+
+        When(x => x.Status == "short", () =>
+        {
+            RuleFor(x => x.PackedQuantity).NotNull().GreaterThan(0);
+        });
+    }
+}
+
+public class ProposeSubstitutionRequestValidator : AbstractValidator<ProposeSubstitutionRequest>
+{
+    public ProposeSubstitutionRequestValidator()
+    {
+        RuleFor(x => x.MerchantItemId).NotEmpty();
+        RuleFor(x => x.Quantity).GreaterThan(0);
+    }
+}
+
+public class ItemVariantRequestValidator : AbstractValidator<ItemVariantRequest>
+{
+    public ItemVariantRequestValidator()
+    {
+        RuleFor(x => x.Name).NotEmpty().MaximumLength(100);
+        RuleFor(x => x.OptionGroup).MaximumLength(50);
+        RuleFor(x => x.PriceCents).GreaterThanOrEqualTo(0);
     }
 }
 
@@ -77,6 +153,36 @@ public class UpdateDeliveryLogicRequestValidator : AbstractValidator<UpdateDeliv
         RuleFor(x => x.MinimumOrderValue).GreaterThan(0);
         RuleFor(x => x.SmallOrderSurcharge).GreaterThanOrEqualTo(0);
         RuleFor(x => x.LeastOrderValue).GreaterThan(0);
+        RuleFor(x => x.DistanceMode).Must(m => m is "auto" or "custom" or "road")
+            .When(x => x.DistanceMode is not null)
+            .WithMessage("Distance mode must be auto, custom or road.");
+        RuleFor(x => x.PeakWindows).Must(w => w!.Length <= 10)
+            .When(x => x.PeakWindows is not null)
+            .WithMessage("At most 10 peak hour windows are allowed.");
+        RuleForEach(x => x.PeakWindows).ChildRules(window =>
+        {
+            window.RuleFor(w => w.Label).MaximumLength(40);
+            window.RuleFor(w => w.Days).NotEmpty().WithMessage("Pick at least one day.");
+            window.RuleForEach(w => w.Days).InclusiveBetween(0, 6);
+            window.RuleFor(w => w.Start).NotEmpty().Matches(TimeOfDayPattern).WithMessage("Start must be a time as HH:mm.");
+            window.RuleFor(w => w.End).NotEmpty().Matches(TimeOfDayPattern).WithMessage("End must be a time as HH:mm.");
+            window.RuleFor(w => w.End).NotEqual(w => w.Start).WithMessage("A peak window must end at a different time than it starts.");
+            window.RuleFor(w => w.Fee).GreaterThan(0);
+        });
+        RuleFor(x => x.BusyModeMultiplier).InclusiveBetween(1, 3).When(x => x.BusyModeMultiplier.HasValue);
+    }
+
+    private const string TimeOfDayPattern = @"^([01][0-9]|2[0-3]):[0-5][0-9]$";
+}
+
+public class CreateDeliveryAreaRequestValidator : AbstractValidator<CreateDeliveryAreaRequest>
+{
+    public CreateDeliveryAreaRequestValidator()
+    {
+        RuleFor(x => x.Label).MaximumLength(200);
+        RuleFor(x => x.DeliveryFee).GreaterThanOrEqualTo(0).When(x => x.DeliveryFee.HasValue);
+        RuleFor(x => x.MinimumOrderValue).GreaterThan(0).When(x => x.MinimumOrderValue.HasValue);
+        RuleFor(x => x.EtaMinutes).InclusiveBetween(1, 240).When(x => x.EtaMinutes.HasValue);
     }
 }
 
@@ -101,6 +207,101 @@ public class CancelOrderRequestValidator : AbstractValidator<CancelOrderRequest>
 {
     public CancelOrderRequestValidator()
     {
-        RuleFor(x => x.Reason).NotEmpty().MaximumLength(500);
+        RuleFor(x => x.ReasonCode)
+            .NotEmpty()
+            .Must(c => CancellationReasons.Merchant.Contains(c))
+            .WithMessage("Reason must be one of: " + string.Join(", ", CancellationReasons.Merchant) + ".");
+        RuleFor(x => x.Note).MaximumLength(500);
+        When(x => x.ReasonCode == CancellationReasons.Other, () =>
+        {
+            RuleFor(x => x.Note).NotEmpty().WithMessage("Add a note when the reason is other.");
+        });
+    }
+}
+
+public class CategoryPriceChangeRequestValidator : AbstractValidator<CategoryPriceChangeRequest>
+{
+    public CategoryPriceChangeRequestValidator()
+    {
+        RuleFor(x => x.Mode).NotEmpty().Must(m => m is "percent" or "fixed").WithMessage("Mode must be percent or fixed.");
+        RuleFor(x => x.Amount).NotEqual(0).WithMessage("Amount must not be zero.");
+
+        When(x => x.Mode == "percent", () =>
+        {
+            RuleFor(x => x.Amount).InclusiveBetween(-90, 500).WithMessage("Percentage must be between -90 and 500.");
+        });
+
+        When(x => x.Mode == "fixed", () =>
+        {
+            RuleFor(x => x.Amount)
+                .Must(a => a == decimal.Truncate(a))
+                .WithMessage("Fixed amount must be a whole number of cents.");
+        });
+
+        When(x => x.EffectiveAt is not null, () =>
+        {
+            RuleFor(x => x.EffectiveAt!.Value)
+                .Must(d => d <= DateTimeOffset.UtcNow.AddYears(1))
+                .WithMessage("Price changes can be scheduled at most a year ahead.");
+        });
+    }
+}
+
+public class StockTakeRequestValidator : AbstractValidator<StockTakeRequest>
+{
+    public StockTakeRequestValidator()
+    {
+        RuleFor(x => x.Lines).NotEmpty().WithMessage("Count at least one item.")
+            .Must(l => l.Length <= 500).WithMessage("A stock take can commit at most 500 items.")
+            .Must(l => l.Where(x => x.ItemId is not null).Select(x => x.ItemId).Distinct().Count() == l.Count(x => x.ItemId is not null))
+            .WithMessage("Each item can appear only once.")
+            .Must(l => l.Where(x => x.TemplateId is not null).Select(x => x.TemplateId).Distinct().Count() == l.Count(x => x.TemplateId is not null))
+            .WithMessage("Each catalog item can appear only once.");
+        RuleForEach(x => x.Lines).SetValidator(new StockTakeLineRequestValidator());
+    }
+}
+
+public class StockTakeLineRequestValidator : AbstractValidator<StockTakeLineRequest>
+{
+    public StockTakeLineRequestValidator()
+    {
+        RuleFor(x => x).Must(x => (x.ItemId is null) != (x.TemplateId is null)).WithMessage("Set either ItemId or TemplateId.");
+        RuleFor(x => x.StockQuantity).GreaterThanOrEqualTo(0).When(x => x.StockQuantity is not null);
+        RuleFor(x => x.PriceCents).GreaterThanOrEqualTo(0).When(x => x.PriceCents is not null);
+        RuleFor(x => x).Must(x => x.StockQuantity is not null || x.PriceCents is not null)
+            .When(x => x.ItemId is not null)
+            .WithMessage("Set a counted quantity or a price.");
+        RuleFor(x => x.PriceCents).NotNull().When(x => x.TemplateId is not null).WithMessage("New items need a price.");
+    }
+}
+
+public class UpdateAutoAcceptSettingsRequestValidator : AbstractValidator<UpdateAutoAcceptSettingsRequest>
+{
+    public UpdateAutoAcceptSettingsRequestValidator()
+    {
+        RuleFor(x => x.Rules).NotNull()
+            .Must(r => r.Length <= 10).WithMessage("A shop can have at most 10 auto-accept rules.");
+        RuleForEach(x => x.Rules).SetValidator(new AutoAcceptRuleRequestValidator());
+    }
+}
+
+public class AutoAcceptRuleRequestValidator : AbstractValidator<AutoAcceptRuleRequest>
+{
+    public AutoAcceptRuleRequestValidator()
+    {
+        RuleFor(x => x.Name).NotEmpty().MaximumLength(60);
+        RuleFor(x => x.MaxTotalCents).GreaterThan(0).When(x => x.MaxTotalCents is not null);
+        RuleFor(x => x).Must(x => x.DuringOpeningHours || x.MaxTotalCents is not null || x.AllItemsInStock || x.RunnerAvailable)
+            .WithMessage("Turn on at least one condition for the rule.");
+    }
+}
+
+public class UpdateShopSlaRequestValidator : AbstractValidator<UpdateShopSlaRequest>
+{
+    public UpdateShopSlaRequestValidator()
+    {
+        RuleFor(x => x.ConfirmationMinutes).InclusiveBetween(1, 240).When(x => x.ConfirmationMinutes is not null);
+        RuleFor(x => x.PreparationMinutes).InclusiveBetween(1, 240).When(x => x.PreparationMinutes is not null);
+        RuleFor(x => x.DeliveryMinutes).InclusiveBetween(1, 240).When(x => x.DeliveryMinutes is not null);
     }
 }
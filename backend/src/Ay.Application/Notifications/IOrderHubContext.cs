@@ -11,4 +11,7 @@ public interface IOrderHubContext
 
     /// <summary>Broadcast a "new order" event to the merchant group watching their shop's order queue.</summary>
     Task NotifyShopNewOrderAsync(Guid shopId, Guid orderId, string orderNumber, CancellationToken ct = default);
+
+    /// <summary>Broadcast an "order updated" event to the merchant group watching their shop's order queue.</summary>
+    Task NotifyShopOrderUpdatedAsync(Guid shopId, Guid orderId, string status, CancellationToken ct = default);
 }
@@ -5,6 +5,8 @@ public class Result
     public bool IsSuccess { get; }
     public string? Error { get; }
     public bool IsFailure => !IsSuccess;
+    /// <summary>The request lost a race: the data it was based on changed underneath it. Maps to 409.</summary>
+    public bool IsConflict { get; protected init; }
 
     protected Result(bool isSuccess, string? error)
     {
@@ -16,6 +18,8 @@ public class Result
     public static Result Failure(string error) => new(false, error);
     public static Result<T> Success<T>(T value) => new(value, true, null);
     public static Result<T> Failure<T>(string error) => new(default, false, error);
+    public static Result Conflict(string error) => new(false, error) { IsConflict = true };
+    public static Result<T> Conflict<T>(string error) => new(default, false, error) { IsConflict = true };
 }
 
 public class Result<T> : Result
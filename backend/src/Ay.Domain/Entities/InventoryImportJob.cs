@@ -0,0 +1,19 @@
+using System.Text.Json;
+
+namespace Ay.Domain.Entities;
+
+public class InventoryImportJob
+{
+    public Guid Id { get; set; }
+    public Guid ShopId { get; set; }
+    public Guid CreatedBy { get; set; }
+    public string Status { get; set; } = "previewed"; // previewed | completed | failed
+    public string FileName { get; set; } = string.Empty;
+    public JsonDocument Plan { get; set; } = null!;
+    public int CreateCount { get; set; }
+    public int UpdateCount { get; set; }
+    public int RejectCount { get; set; }
+    public string? Error { get; set; }
+    public DateTimeOffset CreatedAt { get; set; } = DateTimeOffset.UtcNow;
+    public DateTimeOffset? CompletedAt { get; set; }
+}
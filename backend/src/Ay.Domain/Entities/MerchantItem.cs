@@ -13,9 +13,14 @@ public class MerchantItem
     public string? ImageUrl { get; set; }
     public string? Sku { get; set; }
     public int PriceCents { get; set; }
+    public string? Unit { get; set; } // null = sold per piece; otherwise PriceCents is per "kg", "g", "dozen" or "litre"
+    public decimal QuantityStep { get; set; } = 1m;
     public string Currency { get; set; } = "PKR";
     public bool IsActive { get; set; } = true;
     public bool IsCustom { get; set; } = true;
+    public bool TrackStock { get; set; }
+    public decimal StockQuantity { get; set; } // in the item's Unit, so weighed items hold fractional stock
+    public decimal? ReorderThreshold { get; set; }
     public Guid? CreatedBy { get; set; }
     public JsonDocument? LastUpdatedBy { get; set; }
     public int TimesSold { get; set; }
@@ -25,4 +30,5 @@ public class MerchantItem
     public Shop? Shop { get; set; }
     public ItemTemplate? Template { get; set; }
     public List<MerchantItemCategory> ItemCategories { get; set; } = [];
+    public List<MerchantItemVariant> Variants { get; set; } = [];
 }
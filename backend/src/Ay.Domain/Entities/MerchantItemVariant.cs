@@ -0,0 +1,17 @@
+namespace Ay.Domain.Entities;
+
+public class MerchantItemVariant
+{
+    public Guid Id { get; set; }
+    public Guid MerchantItemId { get; set; }
+    public string? OptionGroup { get; set; } // e.g. "Size", "Weight", "Pack"
+    public string Name { get; set; } = string.Empty;
+    public int PriceCents { get; set; }
+    public string? Sku { get; set; }
+    public string? Barcode { get; set; }
+    public bool IsActive { get; set; } = true;
+    public int SortOrder { get; set; }
+    public DateTimeOffset CreatedAt { get; set; } = DateTimeOffset.UtcNow;
+    public DateTimeOffset UpdatedAt { get; set; } = DateTimeOffset.UtcNow;
+    public MerchantItem? MerchantItem { get; set; }
+}
@@ -14,7 +14,11 @@ public class Order
     public int SubtotalCents { get; set; }
     public int DeliveryFeeCents { get; set; }
     public int SurchargeCents { get; set; }
+    /// <summary>Peak hour and busy mode fees, already included in <c>DeliveryFeeCents</c>.</summary>
+    public int PeakFeeCents { get; set; }
     public int TotalCents { get; set; }
+    /// <summary>Fee rules version the delivery fee and surcharge were charged under (see <c>FeeQuoteDto.RuleVersion</c>).</summary>
+    public string? FeeRuleVersion { get; set; }
     public string PaymentMethod { get; set; } = "cash";
     public string? SpecialInstructions { get; set; }
     public DateTimeOffset PlacedAt { get; set; } = DateTimeOffset.UtcNow;
@@ -25,8 +29,15 @@ public class Order
     public int? ConfirmationTimeSeconds { get; set; }
     public int? PreparationTimeSeconds { get; set; }
     public int? DeliveryTimeSeconds { get; set; }
+    /// <summary>Optional free-text note from whoever cancelled; the reason itself is <c>CancellationReasonCode</c>.</summary>
     public string? CancellationReason { get; set; }
+    /// <summary>One of <c>CancellationReasons</c>; null for orders cancelled before reason codes existed.</summary>
+    public string? CancellationReasonCode { get; set; }
     public Guid? CancelledBy { get; set; }
+    /// <summary>"customer" or "merchant" (<c>CancellationActors</c>), set with <c>CancelledBy</c>.</summary>
+    public string? CancelledByRole { get; set; }
+    /// <summary>Name of the auto-accept rule that confirmed the order; null when the merchant confirmed it.</summary>
+    public string? AutoAcceptedRule { get; set; }
     public JsonDocument DeliveryAddress { get; set; } = null!;
     public string? CustomerName { get; set; }
     public string? CustomerEmail { get; set; }
@@ -0,0 +1,15 @@
+namespace Ay.Domain.Entities;
+
+/// <summary>
+/// Records a merchant order action applied under an idempotency key, so a replayed request is acknowledged without
+/// being applied twice.
+/// </summary>
+public class OrderActionReceipt
+{
+    public Guid Id { get; set; }
+    public string IdempotencyKey { get; set; } = string.Empty;
+    public Guid OrderId { get; set; }
+    public Guid UserId { get; set; }
+    public string Action { get; set; } = string.Empty; // confirm | dispatch | deliver | cancel
+    public DateTimeOffset CreatedAt { get; set; } = DateTimeOffset.UtcNow;
+}
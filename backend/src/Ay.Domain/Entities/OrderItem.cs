@@ -5,11 +5,25 @@ public class OrderItem
     public Guid Id { get; set; }
     public Guid OrderId { get; set; }
     public Guid? MerchantItemId { get; set; }
+    public Guid? VariantId { get; set; }
     public string ItemName { get; set; } = string.Empty;
+    public string? VariantName { get; set; }
     public string? ItemDescription { get; set; }
     public string? ItemImageUrl { get; set; }
     public int ItemPriceCents { get; set; }
-    public int Quantity { get; set; }
+    public decimal Quantity { get; set; }
+    public string? Unit { get; set; }
+    public decimal? ReservedQuantity { get; set; } // Stock this line still holds; null when none was taken
+    public decimal? WeighedQuantity { get; set; } // Actual amount entered by the merchant before dispatch
+    public string? PackingStatus { get; set; } // packed | short | unavailable; null until the line is checked
+    public decimal? PackedQuantity { get; set; } // Amount found when the line is short
+    public Guid? SubstituteMerchantItemId { get; set; }
+    public string? SubstituteItemName { get; set; }
+    public int? SubstituteItemPriceCents { get; set; }
+    public decimal? SubstituteQuantity { get; set; }
+    public string? SubstituteUnit { get; set; }
+    public decimal? SubstituteReservedQuantity { get; set; } // Substitute stock taken when the customer accepted
+    public string? SubstitutionStatus { get; set; } // proposed | accepted | rejected
     public int SubtotalCents { get; set; }
     public DateTimeOffset CreatedAt { get; set; } = DateTimeOffset.UtcNow;
     public Order? Order { get; set; }
@@ -0,0 +1,16 @@
+namespace Ay.Domain.Entities;
+
+/// <summary>
+/// An order that stayed in a stage longer than its shop's SLA target. Recorded once per stage, when the order leaves
+/// the stage, so breach counts survive later changes to the targets.
+/// </summary>
+public class OrderSlaBreach
+{
+    public Guid Id { get; set; }
+    public Guid OrderId { get; set; }
+    public Guid ShopId { get; set; }
+    public string Stage { get; set; } = string.Empty; // confirmation | preparation | delivery
+    public int TargetSeconds { get; set; }
+    public int ActualSeconds { get; set; }
+    public DateTimeOffset CreatedAt { get; set; } = DateTimeOffset.UtcNow;
+}
@@ -0,0 +1,20 @@
+namespace Ay.Domain.Entities;
+
+/// <summary>
+/// A percentage or fixed price adjustment for every item in a merchant category, applied at <see cref="EffectiveAt"/>.
+/// </summary>
+public class ScheduledPriceChange
+{
+    public Guid Id { get; set; }
+    public Guid ShopId { get; set; }
+    public Guid MerchantCategoryId { get; set; }
+    public Guid CreatedBy { get; set; }
+    public string Mode { get; set; } = "percent"; // percent | fixed
+    public decimal Amount { get; set; } // percent: +10 = 10% up; fixed: price delta in cents
+    public DateTimeOffset EffectiveAt { get; set; }
+    public string Status { get; set; } = "scheduled"; // scheduled | applying | applied | cancelled | failed
+    public int AppliedItemCount { get; set; }
+    public string? Error { get; set; }
+    public DateTimeOffset CreatedAt { get; set; } = DateTimeOffset.UtcNow;
+    public DateTimeOffset? AppliedAt { get; set; }
+}
@@ -18,6 +18,13 @@ public class Shop
     public JsonDocument? OpeningHours { get; set; }
     public JsonDocument? Holidays { get; set; }
     public string OpenStatusMode { get; set; } = "auto";
+    /// <summary>Kill switch for <see cref="AutoAcceptRules"/>; while off, new orders always wait for the merchant.</summary>
+    public bool AutoAcceptEnabled { get; set; }
+    public JsonDocument? AutoAcceptRules { get; set; }
+    /// <summary>SLA targets in minutes for each order stage; null means the stage has no target.</summary>
+    public int? SlaConfirmationMinutes { get; set; }
+    public int? SlaPreparationMinutes { get; set; }
+    public int? SlaDeliveryMinutes { get; set; }
     public DateTimeOffset CreatedAt { get; set; } = DateTimeOffset.UtcNow;
     public DateTimeOffset UpdatedAt { get; set; } = DateTimeOffset.UtcNow;
     public MerchantAccount? MerchantAccount { get; set; }
@@ -18,6 +18,18 @@ public class ShopDeliveryArea
     /// </summary>
     public Geometry Geom { get; set; } = null!;
 
+    /// <summary>
+    /// Delivery fee in PKR for addresses inside this zone, used instead of the shop's distance tiers.
+    /// Null falls back to the distance tiers.
+    /// </summary>
+    public decimal? DeliveryFee { get; set; }
+
+    /// <summary>Smallest order in PKR accepted for this zone; replaces the shop's least order value.</summary>
+    public decimal? MinimumOrderValue { get; set; }
+
+    /// <summary>Delivery time promised to customers in this zone, in minutes.</summary>
+    public int? EtaMinutes { get; set; }
+
     public DateTimeOffset CreatedAt { get; set; } = DateTimeOffset.UtcNow;
     public DateTimeOffset UpdatedAt { get; set; } = DateTimeOffset.UtcNow;
 
@@ -16,6 +16,13 @@ public class ShopDeliveryLogic
     public decimal BeyondTierDistanceUnit { get; set; } = 250;
     public decimal FreeDeliveryThreshold { get; set; } = 800;
     public decimal FreeDeliveryRadius { get; set; } = 1000;
+    /// <summary>
+    /// Peak hour windows as <c>[{ label, days, start, end, fee }]</c>: <c>days</c> are the weekdays the window starts
+    /// on (0 = Sunday), <c>start</c>/<c>end</c> are <c>HH:mm</c> shop-local times and may cross midnight.
+    /// </summary>
+    public JsonDocument? PeakWindows { get; set; }
+    public bool BusyModeEnabled { get; set; }
+    public decimal BusyModeMultiplier { get; set; } = 1.5m;
     public DateTimeOffset CreatedAt { get; set; } = DateTimeOffset.UtcNow;
     public DateTimeOffset UpdatedAt { get; set; } = DateTimeOffset.UtcNow;
     public Shop? Shop { get; set; }
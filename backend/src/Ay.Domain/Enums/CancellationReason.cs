@@ -0,0 +1,25 @@
+namespace Ay.Domain.Enums;
+
+/// <summary>
+/// Cancellation reason codes stored on <c>Order.CancellationReasonCode</c>, and the ones each side may pick.
+/// <c>Other</c> needs a note; any note is kept in <c>Order.CancellationReason</c>.
+/// </summary>
+public static class CancellationReasons
+{
+    public const string OutOfStock = "out_of_stock";
+    public const string ShopClosing = "shop_closing";
+    public const string NoRunner = "no_runner";
+    public const string CustomerChangedMind = "customer_changed_mind";
+    public const string AddressUnreachable = "address_unreachable";
+    public const string Other = "other";
+
+    public static readonly string[] Merchant = [OutOfStock, ShopClosing, NoRunner, AddressUnreachable, CustomerChangedMind, Other];
+    public static readonly string[] Customer = [CustomerChangedMind, AddressUnreachable, Other];
+}
+
+/// <summary>Who cancelled an order, stored on <c>Order.CancelledByRole</c>.</summary>
+public static class CancellationActors
+{
+    public const string Customer = "customer";
+    public const string Merchant = "merchant";
+}
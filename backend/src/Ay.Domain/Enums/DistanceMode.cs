@@ -1,3 +1,3 @@
 namespace Ay.Domain.Enums;
 
-public enum DistanceMode { Auto, Custom }
+public enum DistanceMode { Auto, Custom, Road }
@@ -2,9 +2,26 @@ using Ay.Domain.Entities;
 
 namespace Ay.Domain.Interfaces;
 
+/// <summary>
+/// Optional filters for listing audit entries. <c>Field</c> matches a top-level key of <c>ChangedFields</c>.
+/// <c>AfterCreatedAt</c>/<c>AfterId</c> are the keyset position of the previous page.
+/// </summary>
+public record AuditLogQuery(
+    Guid? MerchantItemId = null,
+    string[]? ActionTypes = null,
+    string[]? ActorIds = null,
+    string? Field = null,
+    string? Source = null,
+    DateTimeOffset? From = null,
+    DateTimeOffset? To = null,
+    DateTimeOffset? AfterCreatedAt = null,
+    Guid? AfterId = null);
+
 public interface IAuditLogRepository
 {
     Task LogAsync(AuditLog log);
 
-    Task<List<AuditLog>> ListByShopAsync(Guid shopId, int take, Guid? merchantItemId = null);
+    Task<AuditLog?> GetByIdAsync(Guid id);
+
+    Task<List<AuditLog>> ListByShopAsync(Guid shopId, int take, AuditLogQuery? filter = null);
 }
@@ -2,14 +2,39 @@ using Ay.Domain.Entities;
 
 namespace Ay.Domain.Interfaces;
 
+/// <summary>
+/// Optional filters for listing a shop's items. <c>Search</c> matches name, SKU or barcode; <c>Barcode</c> is an exact
+/// match on the item or one of its variants; <c>IsCustom</c> false keeps template-based items only.
+/// <c>AfterCreatedAt</c>/<c>AfterId</c> are the keyset position of the previous page.
+/// </summary>
+public record ItemListQuery(
+    string? Search = null,
+    Guid[]? CategoryIds = null,
+    bool? IsActive = null,
+    bool? IsCustom = null,
+    bool LowStock = false,
+    string? Barcode = null,
+    DateTimeOffset? AfterCreatedAt = null,
+    Guid? AfterId = null);
+
 public interface IItemRepository
 {
-    Task<List<MerchantItem>> GetByShopIdAsync(Guid shopId);
+    Task<List<MerchantItem>> ListByShopAsync(Guid shopId, int take, ItemListQuery? filter = null);
+    /// <summary>Number of the shop's tracked items at or below their reorder threshold.</summary>
+    Task<int> CountLowStockAsync(Guid shopId);
     Task<MerchantItem?> GetByIdAsync(Guid id);
     Task<MerchantItem?> GetByIdWithCategoriesAsync(Guid id);
     Task<MerchantItem> CreateAsync(MerchantItem item);
     Task<MerchantItem> UpdateAsync(MerchantItem item);
+    /// <summary>Adds <paramref name="delta"/> to the stored stock (never below zero) and refreshes <paramref name="item"/>.</summary>
+    Task AdjustStockAsync(MerchantItem item, decimal delta);
+    /// <summary>
+    /// Sets stock to <paramref name="value"/> only if it still equals <paramref name="expected"/>, then refreshes
+    /// <paramref name="item"/>. Returns false when an order or another edit moved it first.
+    /// </summary>
+    Task<bool> TrySetStockAsync(MerchantItem item, decimal expected, decimal value);
     Task DeleteAsync(MerchantItem item);
-    Task<List<ItemTemplate>> SearchTemplatesAsync(string? search);
+    Task<List<ItemTemplate>> SearchTemplatesAsync(string? search, string? barcode = null);
     Task SetItemCategoriesAsync(Guid itemId, Guid[] categoryIds);
+    Task SetItemVariantsAsync(Guid itemId, IReadOnlyList<MerchantItemVariant> variants);
 }
@@ -2,9 +2,45 @@ using Ay.Domain.Entities;
 
 namespace Ay.Domain.Interfaces;
 
+/// <summary>
+/// Filters for a page of order history. <c>Statuses</c> keeps orders in any of the given statuses; <c>From</c> is
+/// inclusive and <c>To</c> exclusive on <c>PlacedAt</c>, or on <c>DeliveredAt</c> when <c>DateField</c> is
+/// <c>delivered</c> (orders not yet delivered are then left out). <c>Search</c> matches the order number and, for a shop, the
+/// customer's name or phone, or for a customer, the shop name. <c>AfterSortValue</c>/<c>AfterId</c> are the keyset
+/// position of the previous page in <c>Sort</c> order: placed-at ticks for the date sorts, total cents otherwise.
+/// </summary>
+public record OrderListQuery(
+    string[]? Statuses = null,
+    DateTimeOffset? From = null,
+    DateTimeOffset? To = null,
+    string? Search = null,
+    string Sort = OrderListSorts.Newest,
+    long? AfterSortValue = null,
+    Guid? AfterId = null,
+    string DateField = OrderListDateFields.Placed);
+
+public static class OrderListDateFields
+{
+    public const string Placed = "placed";
+    public const string Delivered = "delivered";
+
+    public static readonly string[] All = [Placed, Delivered];
+}
+
+public static class OrderListSorts
+{
+    public const string Newest = "newest";
+    public const string Oldest = "oldest";
+    public const string TotalHigh = "total_desc";
+    public const string TotalLow = "total_asc";
+
+    public static readonly string[] All = [Newest, Oldest, TotalHigh, TotalLow];
+}
+
 public interface IOrderRepository
 {
-    Task<List<Order>> GetByShopIdAsync(Guid shopId, string? statusFilter = null, DateTimeOffset? from = null, DateTimeOffset? to = null);
+    Task<List<Order>> ListByShopAsync(Guid shopId, int take, OrderListQuery? filter = null);
+    Task<List<Order>> ListByUserAsync(Guid userId, int take, OrderListQuery? filter = null);
     Task<Order?> GetByIdAsync(Guid id);
     Task<Order?> GetByIdWithDetailsAsync(Guid id);
     Task<Order> UpdateAsync(Order order);
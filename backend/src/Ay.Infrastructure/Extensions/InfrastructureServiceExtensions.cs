@@ -95,9 +95,14 @@ public static class InfrastructureServiceExtensions
         services.AddScoped<IMerchantVerificationAdminService, MerchantVerificationAdminService>();
         services.AddScoped<IShopService, ShopService>();
         services.AddScoped<IInventoryService, InventoryService>();
+        services.AddScoped<IInventoryImportService, InventoryImportService>();
+        services.AddScoped<IPriceChangeService, PriceChangeService>();
+        services.AddScoped<IStockTakeService, StockTakeService>();
         services.AddScoped<IDeliveryLogicService, DeliveryLogicService>();
         services.AddScoped<IDeliveryRunnerService, DeliveryRunnerService>();
         services.AddScoped<IMerchantOrderService, MerchantOrderService>();
+        services.AddScoped<IAutoAcceptService, AutoAcceptService>();
+        services.AddScoped<IShopSlaService, ShopSlaService>();
         services.AddScoped<IDeliveryAreaService, DeliveryAreaService>();
 
         // Phase 3 — Consumer repositories
@@ -127,6 +132,10 @@ public static class InfrastructureServiceExtensions
         services.AddScoped<IConsumerShopService, ConsumerShopService>();
         services.AddScoped<IConsumerOrderService, ConsumerOrderService>();
         services.AddScoped<IDeliveryFeeCalculatorService, DeliveryFeeCalculatorService>();
+        services.AddMemoryCache();
+        services.AddHttpClient<IRoutingProvider, OsrmRoutingProvider>(client => client.Timeout = TimeSpan.FromSeconds(3));
+        services.AddScoped<IDeliveryDistanceService, DeliveryDistanceService>();
+        services.AddSingleton<IFeeQuoteService, FeeQuoteService>();
         services.AddScoped<IReviewService, ReviewService>();
         services.AddScoped<INotificationPreferenceService, NotificationPreferenceService>();
 
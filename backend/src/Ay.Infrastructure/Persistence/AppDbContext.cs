@@ -18,13 +18,18 @@ public class AppDbContext(DbContextOptions<AppDbContext> options)
     public DbSet<ItemTemplate> ItemTemplates => Set<ItemTemplate>();
     public DbSet<MerchantItem> MerchantItems => Set<MerchantItem>();
     public DbSet<MerchantItemCategory> MerchantItemCategories => Set<MerchantItemCategory>();
+    public DbSet<MerchantItemVariant> MerchantItemVariants => Set<MerchantItemVariant>();
     public DbSet<ShopDeliveryLogic> ShopDeliveryLogics => Set<ShopDeliveryLogic>();
     public DbSet<DeliveryRunner> DeliveryRunners => Set<DeliveryRunner>();
     public DbSet<ConsumerAddress> ConsumerAddresses => Set<ConsumerAddress>();
     public DbSet<Order> Orders => Set<Order>();
     public DbSet<OrderItem> OrderItems => Set<OrderItem>();
+    public DbSet<OrderActionReceipt> OrderActionReceipts => Set<OrderActionReceipt>();
+    public DbSet<OrderSlaBreach> OrderSlaBreaches => Set<OrderSlaBreach>();
     public DbSet<Review> Reviews => Set<Review>();
     public DbSet<AuditLog> AuditLogs => Set<AuditLog>();
+    public DbSet<InventoryImportJob> InventoryImportJobs => Set<InventoryImportJob>();
+    public DbSet<ScheduledPriceChange> ScheduledPriceChanges => Set<ScheduledPriceChange>();
     public DbSet<NotificationPreference> NotificationPreferences => Set<NotificationPreference>();
     public DbSet<ShopDeliveryArea> ShopDeliveryAreas => Set<ShopDeliveryArea>();
 
@@ -96,6 +101,7 @@ public class AppDbContext(DbContextOptions<AppDbContext> options)
             e.Property(s => s.OpenStatusMode).HasMaxLength(20).HasDefaultValue("auto");
             e.Property(s => s.OpeningHours).HasColumnType("jsonb");
             e.Property(s => s.Holidays).HasColumnType("jsonb");
+            e.Property(s => s.AutoAcceptRules).HasColumnType("jsonb");
             e.Property(s => s.Tags).HasColumnType("text[]");
             e.Property(s => s.CreatedAt).HasDefaultValueSql("NOW() AT TIME ZONE 'utc'");
             e.Property(s => s.UpdatedAt).HasDefaultValueSql("NOW() AT TIME ZONE 'utc'");
@@ -151,9 +157,13 @@ public class AppDbContext(DbContextOptions<AppDbContext> options)
             e.HasIndex(i => new { i.ShopId, i.IsActive });
             e.Property(i => i.Name).HasMaxLength(200);
             e.Property(i => i.PriceCents).HasDefaultValue(0);
+            e.Property(i => i.Unit).HasMaxLength(20);
+            e.Property(i => i.QuantityStep).HasColumnType("numeric").HasDefaultValue(1m);
             e.Property(i => i.Currency).HasMaxLength(5).HasDefaultValue("PKR");
             e.Property(i => i.IsActive).HasDefaultValue(true);
             e.Property(i => i.IsCustom).HasDefaultValue(true);
+            e.Property(i => i.StockQuantity).HasColumnType("numeric").HasDefaultValue(0m);
+            e.Property(i => i.ReorderThreshold).HasColumnType("numeric");
             e.Property(i => i.TimesSold).HasDefaultValue(0);
             e.Property(i => i.TotalRevenueCents).HasDefaultValue(0L);
             e.Property(i => i.LastUpdatedBy).HasColumnType("jsonb");
@@ -188,6 +198,24 @@ public class AppDbContext(DbContextOptions<AppDbContext> options)
                 .OnDelete(DeleteBehavior.Cascade);
         });
 
+        builder.Entity<MerchantItemVariant>(e =>
+        {
+            e.ToTable("merchant_item_variants");
+            e.HasKey(v => v.Id);
+            e.HasIndex(v => v.MerchantItemId);
+            e.Property(v => v.OptionGroup).HasMaxLength(50);
+            e.Property(v => v.Name).HasMaxLength(100);
+            e.Property(v => v.PriceCents).HasDefaultValue(0);
+            e.Property(v => v.IsActive).HasDefaultValue(true);
+            e.Property(v => v.SortOrder).HasDefaultValue(0);
+            e.Property(v => v.CreatedAt).HasDefaultValueSql("NOW() AT TIME ZONE 'utc'");
+            e.Property(v => v.UpdatedAt).HasDefaultValueSql("NOW() AT TIME ZONE 'utc'");
+            e.HasOne(v => v.MerchantItem)
+                .WithMany(i => i.Variants)
+                .HasForeignKey(v => v.MerchantItemId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
+
         builder.Entity<ShopDeliveryLogic>(e =>
         {
             e.ToTable("shop_delivery_logic");
@@ -203,6 +231,9 @@ public class AppDbContext(DbContextOptions<AppDbContext> options)
             e.Property(d => d.BeyondTierDistanceUnit).HasColumnType("numeric").HasDefaultValue(250m);
             e.Property(d => d.FreeDeliveryThreshold).HasColumnType("numeric").HasDefaultValue(800m);
             e.Property(d => d.FreeDeliveryRadius).HasColumnType("numeric").HasDefaultValue(1000m);
+            e.Property(d => d.PeakWindows).HasColumnType("jsonb");
+            e.Property(d => d.BusyModeEnabled).HasDefaultValue(false);
+            e.Property(d => d.BusyModeMultiplier).HasColumnType("numeric").HasDefaultValue(1.5m);
             e.Property(d => d.CreatedAt).HasDefaultValueSql("NOW() AT TIME ZONE 'utc'");
             e.Property(d => d.UpdatedAt).HasDefaultValueSql("NOW() AT TIME ZONE 'utc'");
             e.HasOne(d => d.Shop)
@@ -253,6 +284,11 @@ public class AppDbContext(DbContextOptions<AppDbContext> options)
             e.Property(o => o.Status).HasMaxLength(20).HasDefaultValue("pending");
             e.Property(o => o.PaymentMethod).HasMaxLength(10).HasDefaultValue("cash");
             e.Property(o => o.DeliveryAddress).HasColumnType("jsonb");
+            e.Property(o => o.AutoAcceptedRule).HasMaxLength(60);
+            e.Property(o => o.CancellationReasonCode).HasMaxLength(40);
+            e.Property(o => o.CancelledByRole).HasMaxLength(20);
+            e.Property(o => o.FeeRuleVersion).HasMaxLength(40);
+            e.Property(o => o.PeakFeeCents).HasDefaultValue(0);
             e.Property(o => o.PlacedAt).HasDefaultValueSql("NOW() AT TIME ZONE 'utc'");
             e.Property(o => o.CreatedAt).HasDefaultValueSql("NOW() AT TIME ZONE 'utc'");
             e.Property(o => o.UpdatedAt).HasDefaultValueSql("NOW() AT TIME ZONE 'utc'");
@@ -270,11 +306,55 @@ public class AppDbContext(DbContextOptions<AppDbContext> options)
                 .OnDelete(DeleteBehavior.SetNull);
         });
 
+        builder.Entity<OrderActionReceipt>(e =>
+        {
+            e.ToTable("order_action_receipts");
+            e.HasKey(r => r.Id);
+            e.HasIndex(r => new { r.OrderId, r.IdempotencyKey }).IsUnique();
+            e.Property(r => r.IdempotencyKey).HasMaxLength(64);
+            e.Property(r => r.Action).HasMaxLength(20);
+            e.Property(r => r.CreatedAt).HasDefaultValueSql("NOW() AT TIME ZONE 'utc'");
+            e.HasOne<Order>()
+                .WithMany()
+                .HasForeignKey(r => r.OrderId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
+
+        builder.Entity<OrderSlaBreach>(e =>
+        {
+            e.ToTable("order_sla_breaches");
+            e.HasKey(b => b.Id);
+            e.HasIndex(b => new { b.OrderId, b.Stage }).IsUnique();
+            e.HasIndex(b => new { b.ShopId, b.CreatedAt });
+            e.Property(b => b.Stage).HasMaxLength(20);
+            e.Property(b => b.CreatedAt).HasDefaultValueSql("NOW() AT TIME ZONE 'utc'");
+            e.HasOne<Order>()
+                .WithMany()
+                .HasForeignKey(b => b.OrderId)
+                .OnDelete(DeleteBehavior.Cascade);
+            e.HasOne<Shop>()
+                .WithMany()
+                .HasForeignKey(b => b.ShopId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
+
         builder.Entity<OrderItem>(e =>
         {
             e.ToTable("order_items");
             e.HasKey(oi => oi.Id);
             e.Property(oi => oi.ItemName).HasMaxLength(200);
+            e.Property(oi => oi.VariantName).HasMaxLength(100);
+            e.Property(oi => oi.Quantity).HasColumnType("numeric");
+            e.Property(oi => oi.Unit).HasMaxLength(20);
+            e.Property(oi => oi.WeighedQuantity).HasColumnType("numeric");
+            e.Property(oi => oi.PackingStatus).HasMaxLength(20);
+            e.Property(oi => oi.PackedQuantity).HasColumnType("numeric");
+            e.Property(oi => oi.ReservedQuantity).HasColumnType("numeric");
+            e.Property(oi => oi.SubstituteItemName).HasMaxLength(200);
+            e.Property(oi => oi.SubstituteQuantity).HasColumnType("numeric");
+            e.Property(oi => oi.SubstituteReservedQuantity).HasColumnType("numeric");
+            e.Property(oi => oi.SubstituteUnit).HasMaxLength(20);
+            e.Property(oi => oi.SubstitutionStatus).HasMaxLength(20);
             e.Property(oi => oi.CreatedAt).HasDefaultValueSql("NOW() AT TIME ZONE 'utc'");
             e.HasOne(oi => oi.Order)
                 .WithMany(o => o.OrderItems)
@@ -321,6 +401,41 @@ public class AppDbContext(DbContextOptions<AppDbContext> options)
                 .OnDelete(DeleteBehavior.SetNull);
         });
 
+        builder.Entity<InventoryImportJob>(e =>
+        {
+            e.ToTable("inventory_import_jobs");
+            e.HasKey(j => j.Id);
+            e.HasIndex(j => j.ShopId);
+            e.Property(j => j.Status).HasMaxLength(20);
+            e.Property(j => j.FileName).HasMaxLength(255);
+            e.Property(j => j.Plan).HasColumnType("jsonb");
+            e.Property(j => j.CreatedAt).HasDefaultValueSql("NOW() AT TIME ZONE 'utc'");
+            e.HasOne<Shop>()
+                .WithMany()
+                .HasForeignKey(j => j.ShopId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
+
+        builder.Entity<ScheduledPriceChange>(e =>
+        {
+            e.ToTable("scheduled_price_changes");
+            e.HasKey(c => c.Id);
+            e.HasIndex(c => c.ShopId);
+            e.HasIndex(c => new { c.Status, c.EffectiveAt });
+            e.Property(c => c.Mode).HasMaxLength(20);
+            e.Property(c => c.Amount).HasColumnType("numeric");
+            e.Property(c => c.Status).HasMaxLength(20);
+            e.Property(c => c.CreatedAt).HasDefaultValueSql("NOW() AT TIME ZONE 'utc'");
+            e.HasOne<Shop>()
+                .WithMany()
+                .HasForeignKey(c => c.ShopId)
+                .OnDelete(DeleteBehavior.Cascade);
+            e.HasOne<MerchantCategory>()
+                .WithMany()
+                .HasForeignKey(c => c.MerchantCategoryId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
+
         builder.Entity<NotificationPreference>(e =>
         {
             e.ToTable("notification_preferences");
@@ -342,6 +457,8 @@ public class AppDbContext(DbContextOptions<AppDbContext> options)
             e.HasKey(a => a.Id);
             e.Property(a => a.Label).HasMaxLength(200);
             e.Property(a => a.Geom).HasColumnType("geometry").IsRequired();
+            e.Property(a => a.DeliveryFee).HasColumnType("numeric");
+            e.Property(a => a.MinimumOrderValue).HasColumnType("numeric");
             e.Property(a => a.CreatedAt).HasDefaultValueSql("NOW() AT TIME ZONE 'utc'");
             e.Property(a => a.UpdatedAt).HasDefaultValueSql("NOW() AT TIME ZONE 'utc'");
             e.HasOne(a => a.Shop)
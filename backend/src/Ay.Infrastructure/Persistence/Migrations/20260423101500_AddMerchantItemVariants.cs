@@ -0,0 +1,75 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ay.Infrastructure.Persistence.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddMerchantItemVariants : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<Guid>(
+                name: "VariantId",
+                table: "order_items",
+                type: "uuid",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "VariantName",
+                table: "order_items",
+                type: "character varying(100)",
+                maxLength: 100,
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "merchant_item_variants",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false),
+                    MerchantItemId = table.Column<Guid>(type: "uuid", nullable: false),
+                    OptionGroup = table.Column<string>(type: "character varying(50)", maxLength: 50, nullable: true),
+                    Name = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    PriceCents = table.Column<int>(type: "integer", nullable: false, defaultValue: 0),
+                    Sku = table.Column<string>(type: "text", nullable: true),
+                    Barcode = table.Column<string>(type: "text", nullable: true),
+                    IsActive = table.Column<bool>(type: "boolean", nullable: false, defaultValue: true),
+                    SortOrder = table.Column<int>(type: "integer", nullable: false, defaultValue: 0),
+                    CreatedAt = table.Column<DateTimeOffset>(type: "timestamp with time zone", nullable: false, defaultValueSql: "NOW() AT TIME ZONE 'utc'"),
+                    UpdatedAt = table.Column<DateTimeOffset>(type: "timestamp with time zone", nullable: false, defaultValueSql: "NOW() AT TIME ZONE 'utc'")
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_merchant_item_variants", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_merchant_item_variants_merchant_items_MerchantItemId",
+                        column: x => x.MerchantItemId,
+                        principalTable: "merchant_items",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_merchant_item_variants_MerchantItemId",
+                table: "merchant_item_variants",
+                column: "MerchantItemId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "merchant_item_variants");
+
+            migrationBuilder.DropColumn(
+                name: "VariantId",
+                table: "order_items");
+
+            migrationBuilder.DropColumn(
+                name: "VariantName",
+                table: "order_items");
+        }
+    }
+}
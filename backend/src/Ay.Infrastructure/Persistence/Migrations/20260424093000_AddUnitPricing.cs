@@ -0,0 +1,77 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ay.Infrastructure.Persistence.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddUnitPricing : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<decimal>(
+                name: "QuantityStep",
+                table: "merchant_items",
+                type: "numeric",
+                nullable: false,
+                defaultValue: 1m);
+
+            migrationBuilder.AddColumn<string>(
+                name: "Unit",
+                table: "merchant_items",
+                type: "character varying(20)",
+                maxLength: 20,
+                nullable: true);
+
+            migrationBuilder.AlterColumn<decimal>(
+                name: "Quantity",
+                table: "order_items",
+                type: "numeric",
+                nullable: false,
+                oldClrType: typeof(int),
+                oldType: "integer");
+
+            migrationBuilder.AddColumn<string>(
+                name: "Unit",
+                table: "order_items",
+                type: "character varying(20)",
+                maxLength: 20,
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "WeighedQuantity",
+                table: "order_items",
+                type: "numeric",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "QuantityStep",
+                table: "merchant_items");
+
+            migrationBuilder.DropColumn(
+                name: "Unit",
+                table: "merchant_items");
+
+            migrationBuilder.DropColumn(
+                name: "Unit",
+                table: "order_items");
+
+            migrationBuilder.DropColumn(
+                name: "WeighedQuantity",
+                table: "order_items");
+
+            migrationBuilder.AlterColumn<int>(
+                name: "Quantity",
+                table: "order_items",
+                type: "integer",
+                nullable: false,
+                oldClrType: typeof(decimal),
+                oldType: "numeric");
+        }
+    }
+}
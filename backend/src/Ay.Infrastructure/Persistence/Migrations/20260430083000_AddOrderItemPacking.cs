@@ -0,0 +1,103 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ay.Infrastructure.Persistence.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddOrderItemPacking : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<decimal>(
+                name: "PackedQuantity",
+                table: "order_items",
+                type: "numeric",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "PackingStatus",
+                table: "order_items",
+                type: "character varying(20)",
+                maxLength: 20,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "SubstituteItemName",
+                table: "order_items",
+                type: "character varying(200)",
+                maxLength: 200,
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "SubstituteItemPriceCents",
+                table: "order_items",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.AddColumn<Guid>(
+                name: "SubstituteMerchantItemId",
+                table: "order_items",
+                type: "uuid",
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "SubstituteQuantity",
+                table: "order_items",
+                type: "numeric",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "SubstituteUnit",
+                table: "order_items",
+                type: "character varying(20)",
+                maxLength: 20,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "SubstitutionStatus",
+                table: "order_items",
+                type: "character varying(20)",
+                maxLength: 20,
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "PackedQuantity",
+                table: "order_items");
+
+            migrationBuilder.DropColumn(
+                name: "PackingStatus",
+                table: "order_items");
+
+            migrationBuilder.DropColumn(
+                name: "SubstituteItemName",
+                table: "order_items");
+
+            migrationBuilder.DropColumn(
+                name: "SubstituteItemPriceCents",
+                table: "order_items");
+
+            migrationBuilder.DropColumn(
+                name: "SubstituteMerchantItemId",
+                table: "order_items");
+
+            migrationBuilder.DropColumn(
+                name: "SubstituteQuantity",
+                table: "order_items");
+
+            migrationBuilder.DropColumn(
+                name: "SubstituteUnit",
+                table: "order_items");
+
+            migrationBuilder.DropColumn(
+                name: "SubstitutionStatus",
+                table: "order_items");
+        }
+    }
+}
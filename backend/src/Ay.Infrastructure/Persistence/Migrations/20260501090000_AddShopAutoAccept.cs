@@ -0,0 +1,51 @@
+﻿using System.Text.Json;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ay.Infrastructure.Persistence.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddShopAutoAccept : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<bool>(
+                name: "AutoAcceptEnabled",
+                table: "shops",
+                type: "boolean",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<JsonDocument>(
+                name: "AutoAcceptRules",
+                table: "shops",
+                type: "jsonb",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "AutoAcceptedRule",
+                table: "orders",
+                type: "character varying(60)",
+                maxLength: 60,
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "AutoAcceptEnabled",
+                table: "shops");
+
+            migrationBuilder.DropColumn(
+                name: "AutoAcceptRules",
+                table: "shops");
+
+            migrationBuilder.DropColumn(
+                name: "AutoAcceptedRule",
+                table: "orders");
+        }
+    }
+}
@@ -0,0 +1,92 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ay.Infrastructure.Persistence.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddOrderSla : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "SlaConfirmationMinutes",
+                table: "shops",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "SlaDeliveryMinutes",
+                table: "shops",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "SlaPreparationMinutes",
+                table: "shops",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "order_sla_breaches",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false),
+                    OrderId = table.Column<Guid>(type: "uuid", nullable: false),
+                    ShopId = table.Column<Guid>(type: "uuid", nullable: false),
+                    Stage = table.Column<string>(type: "character varying(20)", maxLength: 20, nullable: false),
+                    TargetSeconds = table.Column<int>(type: "integer", nullable: false),
+                    ActualSeconds = table.Column<int>(type: "integer", nullable: false),
+                    CreatedAt = table.Column<DateTimeOffset>(type: "timestamp with time zone", nullable: false, defaultValueSql: "NOW() AT TIME ZONE 'utc'")
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_order_sla_breaches", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_order_sla_breaches_orders_OrderId",
+                        column: x => x.OrderId,
+                        principalTable: "orders",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_order_sla_breaches_shops_ShopId",
+                        column: x => x.ShopId,
+                        principalTable: "shops",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_order_sla_breaches_OrderId_Stage",
+                table: "order_sla_breaches",
+                columns: new[] { "OrderId", "Stage" },
+                unique: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_order_sla_breaches_ShopId_CreatedAt",
+                table: "order_sla_breaches",
+                columns: new[] { "ShopId", "CreatedAt" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "order_sla_breaches");
+
+            migrationBuilder.DropColumn(
+                name: "SlaConfirmationMinutes",
+                table: "shops");
+
+            migrationBuilder.DropColumn(
+                name: "SlaDeliveryMinutes",
+                table: "shops");
+
+            migrationBuilder.DropColumn(
+                name: "SlaPreparationMinutes",
+                table: "shops");
+        }
+    }
+}
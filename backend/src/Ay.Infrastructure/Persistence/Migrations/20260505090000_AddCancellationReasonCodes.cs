@@ -0,0 +1,48 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ay.Infrastructure.Persistence.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddCancellationReasonCodes : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "CancellationReasonCode",
+                table: "orders",
+                type: "character varying(40)",
+                maxLength: 40,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "CancelledByRole",
+                table: "orders",
+                type: "character varying(20)",
+                maxLength: 20,
+                nullable: true);
+
+            // Existing cancellations keep their free-text reason as the note and get their role from CancelledBy.
+            migrationBuilder.Sql(
+                """
+                UPDATE orders
+                SET "CancelledByRole" = CASE WHEN "CancelledBy" = "UserId" THEN 'customer' ELSE 'merchant' END
+                WHERE "CancelledBy" IS NOT NULL;
+                """);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "CancellationReasonCode",
+                table: "orders");
+
+            migrationBuilder.DropColumn(
+                name: "CancelledByRole",
+                table: "orders");
+        }
+    }
+}
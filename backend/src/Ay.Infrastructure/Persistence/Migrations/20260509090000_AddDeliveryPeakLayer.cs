@@ -0,0 +1,62 @@
+﻿using System.Text.Json;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ay.Infrastructure.Persistence.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddDeliveryPeakLayer : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<JsonDocument>(
+                name: "PeakWindows",
+                table: "shop_delivery_logic",
+                type: "jsonb",
+                nullable: true);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "BusyModeEnabled",
+                table: "shop_delivery_logic",
+                type: "boolean",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "BusyModeMultiplier",
+                table: "shop_delivery_logic",
+                type: "numeric",
+                nullable: false,
+                defaultValue: 1.5m);
+
+            migrationBuilder.AddColumn<int>(
+                name: "PeakFeeCents",
+                table: "orders",
+                type: "integer",
+                nullable: false,
+                defaultValue: 0);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "PeakWindows",
+                table: "shop_delivery_logic");
+
+            migrationBuilder.DropColumn(
+                name: "BusyModeEnabled",
+                table: "shop_delivery_logic");
+
+            migrationBuilder.DropColumn(
+                name: "BusyModeMultiplier",
+                table: "shop_delivery_logic");
+
+            migrationBuilder.DropColumn(
+                name: "PeakFeeCents",
+                table: "orders");
+        }
+    }
+}
@@ -0,0 +1,48 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ay.Infrastructure.Persistence.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddDeliveryZoneOverrides : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<decimal>(
+                name: "DeliveryFee",
+                table: "shop_delivery_areas",
+                type: "numeric",
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "MinimumOrderValue",
+                table: "shop_delivery_areas",
+                type: "numeric",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "EtaMinutes",
+                table: "shop_delivery_areas",
+                type: "integer",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "DeliveryFee",
+                table: "shop_delivery_areas");
+
+            migrationBuilder.DropColumn(
+                name: "MinimumOrderValue",
+                table: "shop_delivery_areas");
+
+            migrationBuilder.DropColumn(
+                name: "EtaMinutes",
+                table: "shop_delivery_areas");
+        }
+    }
+}
@@ -0,0 +1,56 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ay.Infrastructure.Persistence.Migrations
+{
+    /// <inheritdoc />
+    public partial class MakeStockQuantityDecimal : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AlterColumn<decimal>(
+                name: "StockQuantity",
+                table: "merchant_items",
+                type: "numeric",
+                nullable: false,
+                defaultValue: 0m,
+                oldClrType: typeof(int),
+                oldType: "integer",
+                oldDefaultValue: 0);
+
+            migrationBuilder.AlterColumn<decimal>(
+                name: "ReorderThreshold",
+                table: "merchant_items",
+                type: "numeric",
+                nullable: true,
+                oldClrType: typeof(int),
+                oldType: "integer",
+                oldNullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AlterColumn<int>(
+                name: "StockQuantity",
+                table: "merchant_items",
+                type: "integer",
+                nullable: false,
+                defaultValue: 0,
+                oldClrType: typeof(decimal),
+                oldType: "numeric",
+                oldDefaultValue: 0m);
+
+            migrationBuilder.AlterColumn<int>(
+                name: "ReorderThreshold",
+                table: "merchant_items",
+                type: "integer",
+                nullable: true,
+                oldClrType: typeof(decimal),
+                oldType: "numeric",
+                oldNullable: true);
+        }
+    }
+}
@@ -12,12 +12,35 @@ public class AuditLogRepository(AppDbContext context) : IAuditLogRepository
         await context.SaveChangesAsync();
     }
 
-    public async Task<List<AuditLog>> ListByShopAsync(Guid shopId, int take, Guid? merchantItemId = null)
+    public async Task<AuditLog?> GetByIdAsync(Guid id) =>
+        await context.AuditLogs.AsNoTracking().FirstOrDefaultAsync(a => a.Id == id);
+
+    public async Task<List<AuditLog>> ListByShopAsync(Guid shopId, int take, AuditLogQuery? filter = null)
     {
         take = Math.Clamp(take, 1, 200);
         var query = context.AuditLogs.AsNoTracking().Where(a => a.ShopId == shopId);
-        if (merchantItemId is Guid itemId)
+        if (filter?.MerchantItemId is Guid itemId)
             query = query.Where(a => a.MerchantItemId == itemId);
+        if (filter?.ActionTypes is { Length: > 0 } actionTypes)
+            query = query.Where(a => actionTypes.Contains(a.ActionType));
+        if (filter?.ActorIds is { Length: > 0 } actorIds)
+            query = query.Where(a => actorIds.Contains(a.Actor.RootElement.GetProperty("id").GetString()));
+        if (!string.IsNullOrEmpty(filter?.Field))
+        {
+            var field = filter.Field;
+            query = query.Where(a => EF.Functions.JsonExists(a.ChangedFields, field));
+        }
+        if (!string.IsNullOrEmpty(filter?.Source))
+        {
+            var source = filter.Source;
+            query = query.Where(a => a.Source == source);
+        }
+        if (filter?.From is DateTimeOffset from)
+            query = query.Where(a => a.CreatedAt >= from);
+        if (filter?.To is DateTimeOffset to)
+            query = query.Where(a => a.CreatedAt <= to);
+        if (filter?.AfterCreatedAt is DateTimeOffset afterCreatedAt && filter.AfterId is Guid afterId)
+            query = query.Where(a => a.CreatedAt < afterCreatedAt || (a.CreatedAt == afterCreatedAt && a.Id.CompareTo(afterId) < 0));
 
         return await query
             .OrderByDescending(a => a.CreatedAt)
@@ -1,3 +1,4 @@
+using System.Linq.Expressions;
 using Ay.Domain.Entities;
 using Ay.Domain.Interfaces;
 using Microsoft.EntityFrameworkCore;
@@ -6,12 +7,47 @@ namespace Ay.Infrastructure.Persistence.Repositories;
 
 public class ItemRepository(AppDbContext context) : IItemRepository
 {
-    public async Task<List<MerchantItem>> GetByShopIdAsync(Guid shopId)
-        => await context.MerchantItems
-            .Where(i => i.ShopId == shopId)
+    private static readonly Expression<Func<MerchantItem, bool>> IsLowStock =
+        i => i.TrackStock && i.ReorderThreshold != null && i.StockQuantity <= i.ReorderThreshold;
+
+    public async Task<List<MerchantItem>> ListByShopAsync(Guid shopId, int take, ItemListQuery? filter = null)
+    {
+        var query = context.MerchantItems.AsNoTracking().Where(i => i.ShopId == shopId);
+        if (!string.IsNullOrWhiteSpace(filter?.Search))
+        {
+            var search = filter.Search.Trim().ToLower();
+            query = query.Where(i =>
+                (i.Name != null && i.Name.ToLower().Contains(search)) ||
+                (i.Sku != null && i.Sku.ToLower().Contains(search)) ||
+                (i.Barcode != null && i.Barcode.ToLower().Contains(search)));
+        }
+        if (filter?.CategoryIds is { Length: > 0 } categoryIds)
+            query = query.Where(i => i.ItemCategories.Any(ic => categoryIds.Contains(ic.MerchantCategoryId)));
+        if (filter?.IsActive is bool isActive)
+            query = query.Where(i => i.IsActive == isActive);
+        if (filter?.IsCustom is bool isCustom)
+            query = query.Where(i => i.IsCustom == isCustom);
+        if (filter?.LowStock == true)
+            query = query.Where(IsLowStock);
+        if (!string.IsNullOrWhiteSpace(filter?.Barcode))
+        {
+            var barcode = filter.Barcode.Trim();
+            query = query.Where(i => i.Barcode == barcode || i.Variants.Any(v => v.Barcode == barcode));
+        }
+        if (filter?.AfterCreatedAt is DateTimeOffset afterCreatedAt && filter.AfterId is Guid afterId)
+            query = query.Where(i => i.CreatedAt < afterCreatedAt || (i.CreatedAt == afterCreatedAt && i.Id.CompareTo(afterId) < 0));
+
+        return await query
             .Include(i => i.ItemCategories).ThenInclude(ic => ic.MerchantCategory)
+            .Include(i => i.Variants)
             .OrderByDescending(i => i.CreatedAt)
+            .ThenByDescending(i => i.Id)
+            .Take(take)
             .ToListAsync();
+    }
+
+    public async Task<int> CountLowStockAsync(Guid shopId)
+        => await context.MerchantItems.Where(i => i.ShopId == shopId).CountAsync(IsLowStock);
 
     public async Task<MerchantItem?> GetByIdAsync(Guid id)
         => await context.MerchantItems.FindAsync(id);
@@ -19,6 +55,7 @@ public class ItemRepository(AppDbContext context) : IItemRepository
     public async Task<MerchantItem?> GetByIdWithCategoriesAsync(Guid id)
         => await context.MerchantItems
             .Include(i => i.ItemCategories).ThenInclude(ic => ic.MerchantCategory)
+            .Include(i => i.Variants)
             .FirstOrDefaultAsync(i => i.Id == id);
 
     public async Task<MerchantItem> CreateAsync(MerchantItem item)
@@ -31,21 +68,48 @@ public class ItemRepository(AppDbContext context) : IItemRepository
     public async Task<MerchantItem> UpdateAsync(MerchantItem item)
     {
         context.MerchantItems.Update(item);
+        // Stock only moves through conditional updates, so saving other fields never writes back a stale count.
+        context.Entry(item).Property(i => i.StockQuantity).IsModified = false;
         await context.SaveChangesAsync();
         return item;
     }
 
+    public async Task AdjustStockAsync(MerchantItem item, decimal delta)
+    {
+        var now = DateTimeOffset.UtcNow;
+        await context.MerchantItems
+            .Where(i => i.Id == item.Id)
+            .ExecuteUpdateAsync(s => s
+                .SetProperty(i => i.StockQuantity, i => i.StockQuantity + delta < 0 ? 0 : i.StockQuantity + delta)
+                .SetProperty(i => i.UpdatedAt, now));
+        await context.Entry(item).ReloadAsync();
+    }
+
+    public async Task<bool> TrySetStockAsync(MerchantItem item, decimal expected, decimal value)
+    {
+        var now = DateTimeOffset.UtcNow;
+        var updated = await context.MerchantItems
+            .Where(i => i.Id == item.Id && i.StockQuantity == expected)
+            .ExecuteUpdateAsync(s => s
+                .SetProperty(i => i.StockQuantity, value)
+                .SetProperty(i => i.UpdatedAt, now));
+        await context.Entry(item).ReloadAsync();
+        return updated == 1;
+    }
+
     public async Task DeleteAsync(MerchantItem item)
     {
         context.MerchantItems.Remove(item);
         await context.SaveChangesAsync();
     }
 
-    public async Task<List<ItemTemplate>> SearchTemplatesAsync(string? search)
+    public async Task<List<ItemTemplate>> SearchTemplatesAsync(string? search, string? barcode = null)
     {
         var query = context.ItemTemplates.AsQueryable();
         if (!string.IsNullOrWhiteSpace(search))
             query = query.Where(t => t.NameNormalized != null && t.NameNormalized.Contains(search.Trim().ToLower()));
+        if (!string.IsNullOrWhiteSpace(barcode))
+            query = query.Where(t => t.Barcode == barcode.Trim());
         return await query.OrderBy(t => t.Name).ToListAsync();
     }
 
@@ -63,4 +127,44 @@ public class ItemRepository(AppDbContext context) : IItemRepository
         context.MerchantItemCategories.AddRange(newLinks);
         await context.SaveChangesAsync();
     }
+
+    public async Task SetItemVariantsAsync(Guid itemId, IReadOnlyList<MerchantItemVariant> variants)
+    {
+        var existing = await context.MerchantItemVariants.Where(v => v.MerchantItemId == itemId).ToListAsync();
+        var keptIds = variants.Select(v => v.Id).ToHashSet();
+        context.MerchantItemVariants.RemoveRange(existing.Where(v => !keptIds.Contains(v.Id)));
+
+        // Existing variants are updated in place so order item snapshots keep pointing at the same variant id.
+        for (var idx = 0; idx < variants.Count; idx++)
+        {
+            var incoming = variants[idx];
+            var current = existing.FirstOrDefault(v => v.Id == incoming.Id);
+            if (current is null)
+            {
+                context.MerchantItemVariants.Add(new MerchantItemVariant
+                {
+                    Id = Guid.NewGuid(),
+                    MerchantItemId = itemId,
+                    OptionGroup = incoming.OptionGroup,
+                    Name = incoming.Name,
+                    PriceCents = incoming.PriceCents,
+                    Sku = incoming.Sku,
+                    Barcode = incoming.Barcode,
+                    IsActive = incoming.IsActive,
+                    SortOrder = idx
+                });
+                continue;
+            }
+
+            current.OptionGroup = incoming.OptionGroup;
+            current.Name = incoming.Name;
+            current.PriceCents = incoming.PriceCents;
+            current.Sku = incoming.Sku;
+            current.Barcode = incoming.Barcode;
+            current.IsActive = incoming.IsActive;
+            current.SortOrder = idx;
+            current.UpdatedAt = DateTimeOffset.UtcNow;
+        }
+        await context.SaveChangesAsync();
+    }
 }
@@ -6,22 +6,101 @@ namespace Ay.Infrastructure.Persistence.Repositories;
 
 public class OrderRepository(AppDbContext context) : IOrderRepository
 {
-    public async Task<List<Order>> GetByShopIdAsync(Guid shopId, string? statusFilter = null, DateTimeOffset? from = null, DateTimeOffset? to = null)
+    public async Task<List<Order>> ListByShopAsync(Guid shopId, int take, OrderListQuery? filter = null)
     {
-        var query = context.Orders
-            .Where(o => o.ShopId == shopId)
+        filter ??= new OrderListQuery();
+        var query = context.Orders.AsNoTracking().Where(o => o.ShopId == shopId);
+        if (!string.IsNullOrWhiteSpace(filter.Search))
+        {
+            var search = filter.Search.Trim().ToLower();
+            query = query.Where(o =>
+                o.OrderNumber.ToLower().Contains(search) ||
+                (o.CustomerName != null && o.CustomerName.ToLower().Contains(search)) ||
+                (o.CustomerPhone != null && o.CustomerPhone.Contains(search)));
+        }
+
+        return await ApplyListQuery(query, filter)
+            .Include(o => o.OrderItems)
+            .Include(o => o.DeliveryRunner)
+            .Take(take)
+            .ToListAsync();
+    }
+
+    public async Task<List<Order>> ListByUserAsync(Guid userId, int take, OrderListQuery? filter = null)
+    {
+        filter ??= new OrderListQuery();
+        var query = context.Orders.AsNoTracking().Where(o => o.UserId == userId);
+        if (!string.IsNullOrWhiteSpace(filter.Search))
+        {
+            var search = filter.Search.Trim().ToLower();
+            query = query.Where(o =>
+                o.OrderNumber.ToLower().Contains(search) ||
+                (o.Shop != null && o.Shop.Name.ToLower().Contains(search)));
+        }
+
+        return await ApplyListQuery(query, filter)
             .Include(o => o.OrderItems)
+            .Include(o => o.Shop)
             .Include(o => o.DeliveryRunner)
-            .AsQueryable();
+            .Take(take)
+            .ToListAsync();
+    }
+
+    /// <summary>Status and date filters, the keyset position and the ordering shared by both history lists.</summary>
+    private static IQueryable<Order> ApplyListQuery(IQueryable<Order> query, OrderListQuery filter)
+    {
+        if (filter.Statuses is { Length: > 0 } statuses)
+            query = query.Where(o => statuses.Contains(o.Status));
+        if (filter.DateField == OrderListDateFields.Delivered)
+        {
+            if (filter.From is DateTimeOffset from)
+                query = query.Where(o => o.DeliveredAt >= from);
+            if (filter.To is DateTimeOffset to)
+                query = query.Where(o => o.DeliveredAt < to);
+        }
+        else
+        {
+            if (filter.From is DateTimeOffset from)
+                query = query.Where(o => o.PlacedAt >= from);
+            if (filter.To is DateTimeOffset to)
+                query = query.Where(o => o.PlacedAt < to);
+        }
 
-        if (!string.IsNullOrWhiteSpace(statusFilter))
-            query = query.Where(o => o.Status == statusFilter);
-        if (from.HasValue)
-            query = query.Where(o => o.PlacedAt >= from.Value);
-        if (to.HasValue)
-            query = query.Where(o => o.PlacedAt <= to.Value);
+        var hasCursor = filter.AfterSortValue.HasValue && filter.AfterId.HasValue;
+        var afterValue = filter.AfterSortValue ?? 0;
+        var afterId = filter.AfterId ?? Guid.Empty;
 
-        return await query.OrderByDescending(o => o.PlacedAt).ToListAsync();
+        switch (filter.Sort)
+        {
+            case OrderListSorts.Oldest:
+            {
+                var afterPlacedAt = new DateTimeOffset(afterValue, TimeSpan.Zero);
+                if (hasCursor)
+                    query = query.Where(o => o.PlacedAt > afterPlacedAt || (o.PlacedAt == afterPlacedAt && o.Id.CompareTo(afterId) > 0));
+                return query.OrderBy(o => o.PlacedAt).ThenBy(o => o.Id);
+            }
+            case OrderListSorts.TotalHigh:
+            {
+                var afterTotal = (int)afterValue;
+                if (hasCursor)
+                    query = query.Where(o => o.TotalCents < afterTotal || (o.TotalCents == afterTotal && o.Id.CompareTo(afterId) < 0));
+                return query.OrderByDescending(o => o.TotalCents).ThenByDescending(o => o.Id);
+            }
+            case OrderListSorts.TotalLow:
+            {
+                var afterTotal = (int)afterValue;
+                if (hasCursor)
+                    query = query.Where(o => o.TotalCents > afterTotal || (o.TotalCents == afterTotal && o.Id.CompareTo(afterId) > 0));
+                return query.OrderBy(o => o.TotalCents).ThenBy(o => o.Id);
+            }
+            default:
+            {
+                var afterPlacedAt = new DateTimeOffset(afterValue, TimeSpan.Zero);
+                if (hasCursor)
+                    query = query.Where(o => o.PlacedAt < afterPlacedAt || (o.PlacedAt == afterPlacedAt && o.Id.CompareTo(afterId) < 0));
+                return query.OrderByDescending(o => o.PlacedAt).ThenByDescending(o => o.Id);
+            }
+        }
     }
 
     public async Task<Order?> GetByIdAsync(Guid id)
@@ -0,0 +1,156 @@
+using System.Text.Json;
+using Ay.Application.Merchant.DTOs;
+using Ay.Application.Merchant.Services;
+using Ay.Application.Notifications;
+using Ay.Domain.Common;
+using Ay.Domain.Entities;
+using Ay.Domain.Interfaces;
+using Ay.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+
+namespace Ay.Infrastructure.Services;
+
+public class AutoAcceptService(
+    AppDbContext context,
+    IMerchantAccountRepository merchantRepo,
+    IShopRepository shopRepo,
+    IMerchantOrderService orderService,
+    IOrderHubContext orderHub,
+    ILogger<AutoAcceptService> logger) : IAutoAcceptService
+{
+    public async Task<Result<AutoAcceptSettingsDto>> GetSettingsAsync(Guid shopId, Guid userId)
+    {
+        var ownership = await VerifyOwnershipAsync(shopId, userId);
+        if (!ownership.IsSuccess) return Result.Failure<AutoAcceptSettingsDto>(ownership.Error!);
+
+        return Result.Success(ToDto(ownership.Value!));
+    }
+
+    public async Task<Result<AutoAcceptSettingsDto>> UpdateSettingsAsync(Guid shopId, Guid userId, UpdateAutoAcceptSettingsRequest request)
+    {
+        var ownership = await VerifyOwnershipAsync(shopId, userId);
+        if (!ownership.IsSuccess) return Result.Failure<AutoAcceptSettingsDto>(ownership.Error!);
+
+        var shop = ownership.Value!;
+        var rules = request.Rules.Select(r => new
+        {
+            id = r.Id ?? Guid.NewGuid(),
+            name = r.Name.Trim(),
+            is_enabled = r.IsEnabled,
+            during_opening_hours = r.DuringOpeningHours,
+            max_total_cents = r.MaxTotalCents,
+            all_items_in_stock = r.AllItemsInStock,
+            runner_available = r.RunnerAvailable,
+        });
+        shop.AutoAcceptEnabled = request.IsEnabled;
+        shop.AutoAcceptRules = JsonSerializer.SerializeToDocument(rules);
+        shop.UpdatedAt = DateTimeOffset.UtcNow;
+
+        await shopRepo.UpdateAsync(shop);
+        logger.LogInformation("Shop {ShopId} auto-accept {State} with {RuleCount} rules", shopId, request.IsEnabled ? "on" : "off", request.Rules.Length);
+        return Result.Success(ToDto(shop));
+    }
+
+    public async Task<AutoAcceptResultDto> EvaluateNewOrderAsync(Guid orderId)
+    {
+        var notConfirmed = new AutoAcceptResultDto(false, null);
+        var order = await context.Orders.AsNoTracking()
+            .Include(o => o.OrderItems)
+            .FirstOrDefaultAsync(o => o.Id == orderId);
+        if (order?.ShopId is not Guid shopId || order.Status != "pending") return notConfirmed;
+
+        var shop = await shopRepo.GetByIdAsync(shopId);
+        if (shop is null || !shop.AutoAcceptEnabled) return notConfirmed;
+
+        var rules = ReadRules(shop.AutoAcceptRules).Where(r => r.IsEnabled).ToList();
+        if (rules.Count == 0) return notConfirmed;
+
+        var isOpen = ShopOpenStatusHelper.IsOpenNow(shop);
+        var allItemsInStock = await AreAllItemsInStockAsync(order);
+        var runnerAvailable = await IsRunnerAvailableAsync(shopId);
+
+        var rule = rules.FirstOrDefault(r =>
+            (!r.DuringOpeningHours || isOpen)
+            && (r.MaxTotalCents is not { } maxTotal || order.TotalCents <= maxTotal)
+            && (!r.AllItemsInStock || allItemsInStock)
+            && (!r.RunnerAvailable || runnerAvailable));
+        if (rule is null) return notConfirmed;
+
+        // Confirmed as the shop owner. The confirm claims the order with a conditional update, so a customer cancel
+        // or a manual confirm that lands first makes this a no-op instead of overwriting it.
+        var merchantUserId = await context.MerchantAccounts
+            .Where(m => m.Id == shop.MerchantId)
+            .Select(m => m.UserId)
+            .FirstOrDefaultAsync();
+        if (merchantUserId == Guid.Empty) return notConfirmed;
+
+        var confirm = await orderService.ConfirmOrderAsync(shopId, orderId, merchantUserId, autoAcceptedRule: rule.Name);
+        if (!confirm.IsSuccess)
+        {
+            logger.LogInformation("Order {OrderId} matched auto-accept rule {RuleId} but was not confirmed: {Error}", orderId, rule.Id, confirm.Error);
+            return notConfirmed;
+        }
+
+        await orderHub.NotifyShopOrderUpdatedAsync(shopId, orderId, "confirmed");
+        logger.LogInformation("Order {OrderId} auto-accepted by rule {RuleId}", orderId, rule.Id);
+        return new AutoAcceptResultDto(true, rule.Name);
+    }
+
+    /// <summary>
+    /// Tracked stock was already reserved at checkout, so a line only fails this when its item has since been deleted
+    /// or switched off.
+    /// </summary>
+    private async Task<bool> AreAllItemsInStockAsync(Order order)
+    {
+        if (order.OrderItems.Any(oi => oi.MerchantItemId is null)) return false;
+
+        var itemIds = order.OrderItems.Select(oi => oi.MerchantItemId!.Value).Distinct().ToList();
+        var activeCount = await context.MerchantItems.CountAsync(i => itemIds.Contains(i.Id) && i.IsActive);
+        return activeCount == itemIds.Count;
+    }
+
+    private async Task<bool> IsRunnerAvailableAsync(Guid shopId)
+    {
+        var activeStatuses = new[] { "confirmed", "out_for_delivery" };
+        var busyRunnerIds = context.Orders
+            .Where(o => o.ShopId == shopId && activeStatuses.Contains(o.Status) && o.DeliveryRunnerId != null)
+            .Select(o => o.DeliveryRunnerId!.Value);
+        return await context.DeliveryRunners.AnyAsync(r => r.ShopId == shopId && !busyRunnerIds.Contains(r.Id));
+    }
+
+    private async Task<Result<Shop>> VerifyOwnershipAsync(Guid shopId, Guid userId)
+    {
+        var merchant = await merchantRepo.GetByUserIdAsync(userId);
+        if (merchant is null) return Result.Failure<Shop>("Merchant account not found.");
+        var shop = await shopRepo.GetByIdAsync(shopId);
+        if (shop is null) return Result.Failure<Shop>("Shop not found.");
+        if (shop.MerchantId != merchant.Id) return Result.Failure<Shop>("Access denied.");
+        return Result.Success(shop);
+    }
+
+    private static AutoAcceptSettingsDto ToDto(Shop shop) =>
+        new(shop.Id, shop.AutoAcceptEnabled, ReadRules(shop.AutoAcceptRules));
+
+    private static AutoAcceptRuleDto[] ReadRules(JsonDocument? rules)
+    {
+        if (rules is null) return [];
+        try
+        {
+            return rules.RootElement.EnumerateArray()
+                .Select(e => new AutoAcceptRuleDto(
+                    e.GetProperty("id").GetGuid(),
+                    e.GetProperty("name").GetString() ?? "",
+                    e.GetProperty("is_enabled").GetBoolean(),
+                    e.GetProperty("during_opening_hours").GetBoolean(),
+                    e.GetProperty("max_total_cents").ValueKind == JsonValueKind.Number ? e.GetProperty("max_total_cents").GetInt32() : null,
+                    e.GetProperty("all_items_in_stock").GetBoolean(),
+                    e.GetProperty("runner_available").GetBoolean()))
+                .ToArray();
+        }
+        catch
+        {
+            return [];
+        }
+    }
+}
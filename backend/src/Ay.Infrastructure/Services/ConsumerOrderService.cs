@@ -1,9 +1,11 @@
 using System.Text.Json;
 using Ay.Application.Consumer.DTOs;
 using Ay.Application.Consumer.Services;
+using Ay.Application.Merchant.Services;
 using Ay.Application.Notifications;
 using Ay.Domain.Common;
 using Ay.Domain.Entities;
+using Ay.Domain.Enums;
 using Ay.Domain.Interfaces;
 using Ay.Infrastructure.Persistence;
 using Microsoft.EntityFrameworkCore;
@@ -18,6 +20,9 @@ public class ConsumerOrderService(
     IConsumerAddressRepository addressRepo,
     IUserProfileRepository profileRepo,
     IDeliveryFeeCalculatorService feeCalc,
+    IDeliveryDistanceService deliveryDistance,
+    IFeeQuoteService feeQuotes,
+    IAutoAcceptService autoAccept,
     IOrderHubContext orderHub,
     INotificationService notifications,
     ILogger<ConsumerOrderService> logger) : IConsumerOrderService
@@ -26,8 +31,21 @@ public class ConsumerOrderService(
 
     public async Task<Result<OrderCalculationDto>> CalculateAsync(Guid userId, CalculateOrderRequest request)
     {
-        var addr = await addressRepo.GetByIdAsync(request.ConsumerAddressId);
-        if (addr is null || addr.UserId != userId) return Result.Failure<OrderCalculationDto>("Address not found.");
+        double latitude, longitude;
+        if (request.ConsumerAddressId is Guid addressId)
+        {
+            var addr = await addressRepo.GetByIdAsync(addressId);
+            if (addr is null || addr.UserId != userId) return Result.Failure<OrderCalculationDto>("Address not found.");
+            (latitude, longitude) = ((double)addr.Latitude, (double)addr.Longitude);
+        }
+        else if (request.Latitude is decimal lat && request.Longitude is decimal lon)
+        {
+            (latitude, longitude) = ((double)lat, (double)lon);
+        }
+        else
+        {
+            return Result.Failure<OrderCalculationDto>("An address or coordinates are required.");
+        }
 
         var shop = await context.Shops
             .Include(s => s.MerchantAccount)
@@ -36,35 +54,44 @@ public class ConsumerOrderService(
         if (shop is null) return Result.Failure<OrderCalculationDto>("Shop not found.");
         if (shop.MerchantAccount is null || shop.MerchantAccount.Status != "verified")
             return Result.Failure<OrderCalculationDto>("Shop is not available.");
-        if (!await IsWithinDeliveryAreaAsync(shop.Id, (double)addr.Latitude, (double)addr.Longitude))
+        var zone = await FindDeliveryZoneAsync(shop.Id, latitude, longitude);
+        if (zone is null)
             return Result.Failure<OrderCalculationDto>("Shop does not deliver to this address.");
         if (!ShopOpenStatusHelper.IsOpenNow(shop))
             return Result.Failure<OrderCalculationDto>("Shop is closed.");
 
         var itemIds = request.Items.Select(i => i.MerchantItemId).ToList();
-        var items = await context.MerchantItems.Where(i => itemIds.Contains(i.Id) && i.ShopId == shop.Id).ToListAsync();
+        var items = await context.MerchantItems.Include(i => i.Variants).Where(i => itemIds.Contains(i.Id) && i.ShopId == shop.Id).ToListAsync();
+        var requestedQuantities = SumQuantitiesByItem(request.Items);
 
         int subtotalCents = 0;
         foreach (var ri in request.Items)
         {
             var item = items.FirstOrDefault(i => i.Id == ri.MerchantItemId);
             if (item is null || !item.IsActive) return Result.Failure<OrderCalculationDto>($"Item not available.");
-            subtotalCents += item.PriceCents * ri.Quantity;
+            var quantityError = UnitPricingHelper.ValidateQuantity(item, ri.Quantity);
+            if (quantityError is not null) return Result.Failure<OrderCalculationDto>(quantityError);
+            var shortfall = InventoryStockHelper.GetShortfallReason(item, requestedQuantities[item.Id]);
+            if (shortfall is not null) return Result.Failure<OrderCalculationDto>(InventoryStockHelper.DescribeShortfall(item, shortfall));
+            var variantError = ResolveVariant(item, ri.VariantId, out var variant);
+            if (variantError is not null) return Result.Failure<OrderCalculationDto>(variantError);
+            subtotalCents += UnitPricingHelper.LineTotalCents(variant?.PriceCents ?? item.PriceCents, ri.Quantity);
         }
 
-        var dist = feeCalc.CalculateDistance((double)addr.Latitude, (double)addr.Longitude, shop.Latitude, shop.Longitude);
+        var dist = await deliveryDistance.GetDeliveryDistanceAsync(shop, shop.DeliveryLogic, latitude, longitude);
         var subtotalPkr = subtotalCents / 100m;
 
-        if (shop.DeliveryLogic is not null && subtotalPkr < shop.DeliveryLogic.LeastOrderValue)
-            return Result.Failure<OrderCalculationDto>($"Minimum order is PKR {shop.DeliveryLogic.LeastOrderValue}.");
+        var leastOrderValue = shop.DeliveryLogic is not null ? feeCalc.GetLeastOrderValue(shop.DeliveryLogic, zone) : 0;
+        if (subtotalPkr < leastOrderValue)
+            return Result.Failure<OrderCalculationDto>($"Minimum order is PKR {leastOrderValue}.");
 
         var breakdown = shop.DeliveryLogic is not null
-            ? feeCalc.CalculateFee(subtotalPkr, dist, shop.DeliveryLogic)
-            : new OrderFeeBreakdown(0, 0, false, dist);
+            ? feeCalc.CalculateFee(subtotalPkr, dist, shop.DeliveryLogic, zone)
+            : new OrderFeeBreakdown(0, 0, 0, false, dist);
 
-        var totalCents = subtotalCents + breakdown.DeliveryFeeCents + breakdown.SurchargeCents;
+        var quote = feeQuotes.Issue(shop.Id, subtotalCents, breakdown, feeCalc.GetRuleVersion(shop.DeliveryLogic));
 
-        return Result.Success(new OrderCalculationDto(subtotalCents, breakdown.DeliveryFeeCents, breakdown.SurchargeCents, totalCents, Math.Round(dist, 1), breakdown.FreeDeliveryApplied));
+        return Result.Success(new OrderCalculationDto(subtotalCents, breakdown.DeliveryFeeCents, breakdown.SurchargeCents, quote.TotalCents, quote.DistanceMeters, breakdown.FreeDeliveryApplied, quote, zone.EtaMinutes));
     }
 
     public async Task<Result<ConsumerOrderDto>> PlaceOrderAsync(Guid userId, PlaceOrderRequest request)
@@ -79,13 +106,15 @@ public class ConsumerOrderService(
         if (shop is null) return Result.Failure<ConsumerOrderDto>("Shop not found.");
         if (shop.MerchantAccount is null || shop.MerchantAccount.Status != "verified")
             return Result.Failure<ConsumerOrderDto>("Shop is not available.");
-        if (!await IsWithinDeliveryAreaAsync(shop.Id, (double)addr.Latitude, (double)addr.Longitude))
+        var zone = await FindDeliveryZoneAsync(shop.Id, (double)addr.Latitude, (double)addr.Longitude);
+        if (zone is null)
             return Result.Failure<ConsumerOrderDto>("Shop does not deliver to this address.");
         if (!ShopOpenStatusHelper.IsOpenNow(shop))
             return Result.Failure<ConsumerOrderDto>("Shop is closed.");
 
         var itemIds = request.Items.Select(i => i.MerchantItemId).ToList();
-        var merchantItems = await context.MerchantItems.Where(i => itemIds.Contains(i.Id) && i.ShopId == shop.Id).ToListAsync();
+        var merchantItems = await context.MerchantItems.Include(i => i.Variants).Where(i => itemIds.Contains(i.Id) && i.ShopId == shop.Id).ToListAsync();
+        var requestedQuantities = SumQuantitiesByItem(request.Items);
 
         int subtotalCents = 0;
         var orderItems = new List<OrderItem>();
@@ -93,29 +122,48 @@ public class ConsumerOrderService(
         {
             var mi = merchantItems.FirstOrDefault(i => i.Id == ri.MerchantItemId);
             if (mi is null || !mi.IsActive) return Result.Failure<ConsumerOrderDto>($"Item '{mi?.Name ?? "unknown"}' is not available.");
-            var lineTotal = mi.PriceCents * ri.Quantity;
+            var quantityError = UnitPricingHelper.ValidateQuantity(mi, ri.Quantity);
+            if (quantityError is not null) return Result.Failure<ConsumerOrderDto>(quantityError);
+            var shortfall = InventoryStockHelper.GetShortfallReason(mi, requestedQuantities[mi.Id]);
+            if (shortfall is not null) return Result.Failure<ConsumerOrderDto>(InventoryStockHelper.DescribeShortfall(mi, shortfall));
+            var variantError = ResolveVariant(mi, ri.VariantId, out var variant);
+            if (variantError is not null) return Result.Failure<ConsumerOrderDto>(variantError);
+            var unitPrice = variant?.PriceCents ?? mi.PriceCents;
+            var lineTotal = UnitPricingHelper.LineTotalCents(unitPrice, ri.Quantity);
             subtotalCents += lineTotal;
             orderItems.Add(new OrderItem
             {
                 Id = Guid.NewGuid(),
                 MerchantItemId = mi.Id,
+                VariantId = variant?.Id,
+                VariantName = variant is null ? null : FormatVariantName(variant),
                 ItemName = mi.Name ?? "",
                 ItemDescription = mi.Description,
                 ItemImageUrl = mi.ImageUrl,
-                ItemPriceCents = mi.PriceCents,
+                ItemPriceCents = unitPrice,
                 Quantity = ri.Quantity,
+                Unit = mi.Unit,
                 SubtotalCents = lineTotal,
             });
         }
 
         var subtotalPkr = subtotalCents / 100m;
-        if (shop.DeliveryLogic is not null && subtotalPkr < shop.DeliveryLogic.LeastOrderValue)
-            return Result.Failure<ConsumerOrderDto>($"Minimum order is PKR {shop.DeliveryLogic.LeastOrderValue}.");
+        var leastOrderValue = shop.DeliveryLogic is not null ? feeCalc.GetLeastOrderValue(shop.DeliveryLogic, zone) : 0;
+        if (subtotalPkr < leastOrderValue)
+            return Result.Failure<ConsumerOrderDto>($"Minimum order is PKR {leastOrderValue}.");
 
-        var dist = feeCalc.CalculateDistance((double)addr.Latitude, (double)addr.Longitude, shop.Latitude, shop.Longitude);
+        var dist = await deliveryDistance.GetDeliveryDistanceAsync(shop, shop.DeliveryLogic, (double)addr.Latitude, (double)addr.Longitude);
         var breakdown = shop.DeliveryLogic is not null
-            ? feeCalc.CalculateFee(subtotalPkr, dist, shop.DeliveryLogic)
-            : new OrderFeeBreakdown(0, 0, false, dist);
+            ? feeCalc.CalculateFee(subtotalPkr, dist, shop.DeliveryLogic, zone)
+            : new OrderFeeBreakdown(0, 0, 0, false, dist);
+        var ruleVersion = feeCalc.GetRuleVersion(shop.DeliveryLogic);
+
+        // Older app builds place orders without a quote and are charged the fees computed here.
+        if (request.Quote is not null)
+        {
+            var quoteCheck = CheckQuote(request.Quote, shop.Id, subtotalCents, breakdown, ruleVersion);
+            if (quoteCheck.IsFailure) return Result.Failure<ConsumerOrderDto>(quoteCheck.Error!);
+        }
 
         var profile = await profileRepo.GetByUserIdAsync(userId);
 
@@ -145,7 +193,9 @@ public class ConsumerOrderService(
             SubtotalCents = subtotalCents,
             DeliveryFeeCents = breakdown.DeliveryFeeCents,
             SurchargeCents = breakdown.SurchargeCents,
+            PeakFeeCents = breakdown.PeakFeeCents,
             TotalCents = subtotalCents + breakdown.DeliveryFeeCents + breakdown.SurchargeCents,
+            FeeRuleVersion = ruleVersion,
             PaymentMethod = request.PaymentMethod,
             SpecialInstructions = request.SpecialInstructions,
             DeliveryAddress = addrSnapshot,
@@ -154,11 +204,37 @@ public class ConsumerOrderService(
             OrderItems = orderItems,
         };
 
-        context.Orders.Add(order);
-        await context.SaveChangesAsync();
+        // Stock is taken and the order saved in one transaction so a failed reservation leaves nothing behind.
+        await using (var transaction = await context.Database.BeginTransactionAsync())
+        {
+            foreach (var mi in merchantItems.Where(i => i.TrackStock))
+            {
+                if (!await InventoryStockHelper.TryReserveAsync(context, mi, requestedQuantities[mi.Id]))
+                    return Result.Failure<ConsumerOrderDto>($"Item '{mi.Name}' no longer has enough stock.");
+                foreach (var line in orderItems.Where(l => l.MerchantItemId == mi.Id))
+                    line.ReservedQuantity = line.Quantity;
+            }
+
+            context.Orders.Add(order);
+            await context.SaveChangesAsync();
+            await transaction.CommitAsync();
+        }
+
+        var lowStockItems = await InventoryStockHelper.GetNewlyLowStockAsync(context, merchantItems, requestedQuantities);
 
         logger.LogInformation("Order {OrderNumber} placed by user {UserId}", orderNumber, userId);
 
+        // Runs here rather than on a merchant device so rules fire while the merchant app is closed. The order is
+        // already placed; a failure only leaves it pending for a manual confirm.
+        try
+        {
+            await autoAccept.EvaluateNewOrderAsync(order.Id);
+        }
+        catch (Exception ex)
+        {
+            logger.LogError(ex, "Auto-accept failed for order {OrderId}", order.Id);
+        }
+
         var created = await context.Orders
             .Include(o => o.OrderItems)
             .Include(o => o.Shop)
@@ -200,6 +276,9 @@ public class ConsumerOrderService(
                     else
                         logger.LogInformation("Merchant new-order push completed for user {MerchantUserId}", merchantUserId);
                 }, TaskScheduler.Default);
+
+            foreach (var (item, remaining) in lowStockItems)
+                NotifyLowStock(merchantUserId, shop, item, remaining);
         }
         else
         {
@@ -210,23 +289,29 @@ public class ConsumerOrderService(
         return Result.Success(ToDto(created!, false));
     }
 
-    public async Task<Result<List<ConsumerOrderDto>>> GetUserOrdersAsync(Guid userId)
+    public async Task<Result<ConsumerOrderListResponseDto>> GetUserOrdersAsync(
+        Guid userId,
+        OrderListQuery filter,
+        string? cursor = null,
+        int limit = 50)
     {
-        var orders = await context.Orders
-            .Where(o => o.UserId == userId)
-            .Include(o => o.OrderItems)
-            .Include(o => o.Shop)
-            .Include(o => o.DeliveryRunner)
-            .OrderByDescending(o => o.PlacedAt)
-            .ToListAsync();
+        if (!OrderListCursor.TryApply(filter, cursor, out filter))
+            return Result.Failure<ConsumerOrderListResponseDto>("Invalid sort or cursor.");
 
-        var orderIds = orders.Select(o => o.Id).ToList();
+        limit = Math.Clamp(limit, 1, OrderListCursor.MaxPageSize);
+        var orders = await orderRepo.ListByUserAsync(userId, limit + 1, filter);
+        var page = orders.Take(limit).ToList();
+        var nextCursor = orders.Count > limit ? OrderListCursor.Encode(page[^1], filter.Sort) : null;
+
+        var orderIds = page.Select(o => o.Id).ToList();
         var reviewedOrderIds = await context.Reviews
             .Where(r => r.UserId == userId && r.OrderId != null && orderIds.Contains(r.OrderId.Value))
             .Select(r => r.OrderId!.Value)
             .ToListAsync();
 
-        return Result.Success(orders.Select(o => ToDto(o, reviewedOrderIds.Contains(o.Id))).ToList());
+        return Result.Success(new ConsumerOrderListResponseDto(
+            page.Select(o => ToDto(o, reviewedOrderIds.Contains(o.Id))).ToList(),
+            nextCursor));
     }
 
     public async Task<Result<ConsumerOrderDto>> GetOrderByIdAsync(Guid orderId, Guid userId)
@@ -251,19 +336,30 @@ public class ConsumerOrderService(
         return Result.Success<ConsumerOrderDto?>(ToDto(order, false));
     }
 
-    public async Task<Result> CancelOrderAsync(Guid orderId, Guid userId, string? reason)
+    public async Task<Result> CancelOrderAsync(Guid orderId, Guid userId, string? reasonCode, string? note)
     {
         var order = await context.Orders
             .Include(o => o.Shop)
             .FirstOrDefaultAsync(o => o.Id == orderId && o.UserId == userId);
         if (order is null) return Result.Failure("Order not found.");
         if (order.Status != "pending") return Result.Failure("Order cannot be cancelled at this stage.");
+
+        // The merchant may be cancelling the same order right now; only one cancellation wins.
+        await using var transaction = await context.Database.BeginTransactionAsync();
+        if (!await OrderCancellationHelper.TryCancelPendingAsync(context, orderId))
+            return Result.Failure("Order cannot be cancelled at this stage.");
         order.Status = "cancelled";
         order.CancelledAt = DateTimeOffset.UtcNow;
-        order.CancellationReason = reason ?? "Cancelled by customer";
+        order.CancellationReasonCode = reasonCode ?? CancellationReasons.CustomerChangedMind;
+        order.CancellationReason = string.IsNullOrWhiteSpace(note) ? null : note.Trim();
         order.CancelledBy = userId;
+        order.CancelledByRole = CancellationActors.Customer;
         order.UpdatedAt = DateTimeOffset.UtcNow;
+        if (order.Shop is not null)
+            OrderSlaHelper.RecordIfBreached(context, order, order.Shop, OrderSlaHelper.Confirmation,
+                (int)(order.CancelledAt.Value - order.PlacedAt).TotalSeconds);
         await context.SaveChangesAsync();
+        await transaction.CommitAsync();
 
         await orderHub.NotifyOrderUpdatedAsync(orderId, "cancelled");
 
@@ -304,6 +400,138 @@ public class ConsumerOrderService(
         return Result.Success();
     }
 
+    public async Task<Result> AnswerSubstitutionAsync(Guid orderId, Guid orderItemId, Guid userId, bool accept)
+    {
+        var order = await context.Orders
+            .Include(o => o.OrderItems)
+            .Include(o => o.Shop)
+            .FirstOrDefaultAsync(o => o.Id == orderId && o.UserId == userId);
+        if (order is null) return Result.Failure("Order not found.");
+        if (order.Status is not ("pending" or "confirmed"))
+            return Result.Failure("Substitutions can only be answered before the order is dispatched.");
+
+        var line = order.OrderItems.FirstOrDefault(oi => oi.Id == orderItemId);
+        if (line is null) return Result.Failure("Order item not found.");
+        if (line.SubstitutionStatus != OrderPackingHelper.SubstitutionProposed)
+            return Result.Failure("There is no substitution to answer for this item.");
+
+        var answer = accept ? OrderPackingHelper.SubstitutionAccepted : OrderPackingHelper.SubstitutionRejected;
+        await using var transaction = await context.Database.BeginTransactionAsync();
+        // Claim the proposal so a repeated tap cannot take the substitute's stock twice.
+        var claimed = await context.OrderItems
+            .Where(oi => oi.Id == orderItemId && oi.SubstitutionStatus == OrderPackingHelper.SubstitutionProposed)
+            .ExecuteUpdateAsync(s => s.SetProperty(oi => oi.SubstitutionStatus, answer));
+        if (claimed == 0) return Result.Failure("There is no substitution to answer for this item.");
+
+        if (accept && line.SubstituteMerchantItemId is Guid substituteId)
+        {
+            var substitute = await context.MerchantItems.AsNoTracking().FirstOrDefaultAsync(i => i.Id == substituteId);
+            if (substitute is null || !substitute.IsActive)
+                return Result.Failure($"'{line.SubstituteItemName}' is no longer available.");
+            if (!await InventoryStockHelper.TryReserveAsync(context, substitute, line.SubstituteQuantity!.Value))
+                return Result.Failure($"'{substitute.Name}' no longer has enough stock.");
+            line.SubstituteReservedQuantity = substitute.TrackStock ? line.SubstituteQuantity : null;
+        }
+
+        line.SubstitutionStatus = answer;
+        OrderPackingHelper.RecalculateLine(line);
+        OrderPackingHelper.RecalculateTotals(order);
+        await context.SaveChangesAsync();
+        await transaction.CommitAsync();
+        logger.LogInformation("Order {OrderId} item {OrderItemId} substitution {Answer} by customer", orderId, orderItemId, line.SubstitutionStatus);
+
+        await orderHub.NotifyOrderUpdatedAsync(orderId, order.Status);
+        if (order.Shop is not null)
+        {
+            await orderHub.NotifyShopOrderUpdatedAsync(order.Shop.Id, orderId, order.Status);
+
+            var merchantUserId = await context.MerchantAccounts
+                .Where(m => m.Id == order.Shop.MerchantId)
+                .Select(m => m.UserId)
+                .FirstOrDefaultAsync();
+            if (merchantUserId != Guid.Empty)
+            {
+                var answerTitle = accept ? "Substitute Accepted" : "Substitute Declined";
+                var answerBody = accept
+                    ? $"Order #{order.OrderNumber}: the customer accepted {line.SubstituteItemName} for {line.ItemName}."
+                    : $"Order #{order.OrderNumber}: the customer declined {line.SubstituteItemName} for {line.ItemName}.";
+                _ = notifications.SendAsync(
+                    merchantUserId,
+                    answerTitle,
+                    answerBody,
+                    new Dictionary<string, string>
+                    {
+                        ["type"] = "substitution_answered",
+                        ["orderId"] = orderId.ToString(),
+                        ["shopId"] = order.Shop.Id.ToString(),
+                        ["status"] = order.Status,
+                        ["role"] = "merchant",
+                        ["notificationRole"] = "merchant",
+                        ["title"] = answerTitle,
+                        ["body"] = answerBody,
+                    },
+                    role: "merchant").ContinueWith(t =>
+                    {
+                        if (t.IsFaulted)
+                            logger.LogError(t.Exception, "Merchant substitution push FAILED for user {MerchantUserId}", merchantUserId);
+                    }, TaskScheduler.Default);
+            }
+        }
+
+        return Result.Success();
+    }
+
+    private void NotifyLowStock(Guid merchantUserId, Shop shop, MerchantItem item, decimal remaining)
+    {
+        var title = "Low stock";
+        var body = remaining > 0
+            ? $"{item.Name} is down to {remaining:0.###}{(item.Unit is null ? "" : " " + item.Unit)} at {shop.Name}."
+            : $"{item.Name} is out of stock at {shop.Name}.";
+        _ = notifications.SendAsync(
+            merchantUserId,
+            title,
+            body,
+            new Dictionary<string, string>
+            {
+                ["type"] = "low_stock",
+                ["shopId"] = shop.Id.ToString(),
+                ["itemId"] = item.Id.ToString(),
+                ["stockQuantity"] = remaining.ToString(),
+                ["role"] = "merchant",
+                ["notificationRole"] = "merchant",
+                ["title"] = title,
+                ["body"] = body,
+            },
+            role: "merchant").ContinueWith(t =>
+            {
+                if (t.IsFaulted)
+                    logger.LogError(t.Exception, "Low-stock push FAILED for item {ItemId}", item.Id);
+            }, TaskScheduler.Default);
+    }
+
+    private static Dictionary<Guid, decimal> SumQuantitiesByItem(IEnumerable<OrderItemRequest> items) =>
+        items.GroupBy(i => i.MerchantItemId).ToDictionary(g => g.Key, g => g.Sum(i => i.Quantity));
+
+    /// <summary>
+    /// Items with active variants must be ordered as one of them; items without variants ignore the id.
+    /// Returns an error message, or null with <paramref name="variant"/> set when the line is valid.
+    /// </summary>
+    private static string? ResolveVariant(MerchantItem item, Guid? variantId, out MerchantItemVariant? variant)
+    {
+        variant = null;
+        var activeVariants = item.Variants.Where(v => v.IsActive).ToList();
+        if (activeVariants.Count == 0)
+            return variantId.HasValue ? $"Option for '{item.Name}' is no longer available." : null;
+        if (!variantId.HasValue)
+            return $"Choose an option for '{item.Name}'.";
+
+        variant = activeVariants.FirstOrDefault(v => v.Id == variantId.Value);
+        return variant is null ? $"Option for '{item.Name}' is no longer available." : null;
+    }
+
+    private static string FormatVariantName(MerchantItemVariant variant) =>
+        variant.OptionGroup is null ? variant.Name : $"{variant.OptionGroup}: {variant.Name}";
+
     private static ConsumerOrderDto ToDto(Order o, bool hasReview)
     {
         object? deliveryAddr = null;
@@ -320,17 +548,46 @@ public class ConsumerOrderService(
             deliveryAddr, shopDto,
             o.OrderItems.Select(oi => new ConsumerOrderItemDto(
                 oi.Id, oi.ItemName, oi.ItemDescription, oi.ItemImageUrl,
-                oi.ItemPriceCents, oi.Quantity, oi.SubtotalCents)).ToArray(),
+                oi.ItemPriceCents, oi.Quantity, oi.SubtotalCents, oi.VariantId, oi.VariantName, oi.Unit, oi.WeighedQuantity,
+                oi.PackingStatus, oi.PackedQuantity, ToSubstitutionDto(oi))).ToArray(),
             o.DeliveryRunner is not null ? new RunnerSummaryDto(o.DeliveryRunner.Id, o.DeliveryRunner.Name, o.DeliveryRunner.PhoneNumber) : null,
-            hasReview);
+            hasReview,
+            o.CancellationReasonCode,
+            o.CancelledByRole);
+    }
+
+    private static OrderItemSubstitutionDto? ToSubstitutionDto(OrderItem oi) =>
+        oi.SubstitutionStatus is null
+            ? null
+            : new OrderItemSubstitutionDto(
+                oi.SubstituteMerchantItemId, oi.SubstituteItemName ?? "", oi.SubstituteItemPriceCents ?? 0,
+                oi.SubstituteQuantity ?? 0, oi.SubstituteUnit, OrderPackingHelper.SubstituteTotalCents(oi), oi.SubstitutionStatus);
+
+    /// <summary>
+    /// A quote is honoured only if it is genuine, unexpired and has the same fees the order would be charged now, so
+    /// the total the customer saw is the total charged; anything else sends them back to review the new total.
+    /// </summary>
+    private Result CheckQuote(FeeQuoteDto quote, Guid shopId, int subtotalCents, OrderFeeBreakdown breakdown, string ruleVersion)
+    {
+        var verified = feeQuotes.Verify(quote);
+        if (verified.IsFailure) return verified;
+
+        if (quote.ShopId != shopId || quote.SubtotalCents != subtotalCents || quote.RuleVersion != ruleVersion
+            || quote.DeliveryFeeCents != breakdown.DeliveryFeeCents || quote.SurchargeCents != breakdown.SurchargeCents)
+            return Result.Failure("Delivery fee has changed. Please review your order again.");
+
+        return Result.Success();
     }
 
-    private async Task<bool> IsWithinDeliveryAreaAsync(Guid shopId, double latitude, double longitude)
+    /// <summary>The shop's delivery zone containing the point, or null when the shop does not deliver there.</summary>
+    private async Task<ShopDeliveryArea?> FindDeliveryZoneAsync(Guid shopId, double latitude, double longitude)
     {
         var consumerPoint = GeomFactory.CreatePoint(new Coordinate(longitude, latitude));
         consumerPoint.SRID = 4326;
 
         return await context.ShopDeliveryAreas
-            .AnyAsync(a => a.ShopId == shopId && a.Geom.Contains(consumerPoint));
+            .Where(a => a.ShopId == shopId && a.Geom.Contains(consumerPoint))
+            .OrderBy(a => a.CreatedAt)
+            .FirstOrDefaultAsync();
     }
 }
@@ -13,6 +13,7 @@ namespace Ay.Infrastructure.Services;
 public class ConsumerShopService(
     AppDbContext context,
     IDeliveryFeeCalculatorService feeCalc,
+    IDeliveryDistanceService deliveryDistance,
     IReviewRepository reviewRepo) : IConsumerShopService
 {
     private static readonly GeometryFactory GeomFactory = new(new PrecisionModel(), 4326);
@@ -37,6 +38,14 @@ public class ConsumerShopService(
 
         var allShops = await query.ToListAsync();
 
+        var shopIds = allShops.Select(s => s.Id).ToList();
+        var zonesByShop = (await context.ShopDeliveryAreas
+                .Where(a => shopIds.Contains(a.ShopId) && a.Geom.Contains(consumerPoint))
+                .OrderBy(a => a.CreatedAt)
+                .ToListAsync())
+            .GroupBy(a => a.ShopId)
+            .ToDictionary(g => g.Key, g => g.First());
+
         var enriched = new List<ConsumerShopDto>();
         foreach (var s in allShops)
         {
@@ -46,13 +55,17 @@ public class ConsumerShopService(
             var dist = feeCalc.CalculateDistance(latitude, longitude, s.Latitude, s.Longitude);
             if (dist > radiusMeters) continue;
 
+            var zone = zonesByShop.GetValueOrDefault(s.Id);
             decimal deliveryFee = 0;
             decimal? minOrder = null;
+            decimal? leastOrder = zone?.MinimumOrderValue;
             if (s.DeliveryLogic is not null)
             {
-                var breakdown = feeCalc.CalculateFee(0, dist, s.DeliveryLogic);
+                var deliveryDist = await deliveryDistance.GetDeliveryDistanceAsync(s, s.DeliveryLogic, latitude, longitude);
+                var breakdown = feeCalc.CalculateFee(0, deliveryDist, s.DeliveryLogic, zone);
                 deliveryFee = breakdown.DeliveryFeeCents / 100m;
                 minOrder = s.DeliveryLogic.MinimumOrderValue;
+                leastOrder ??= s.DeliveryLogic.LeastOrderValue;
             }
 
             var isOpen = ShopOpenStatusHelper.IsOpenNow(s);
@@ -62,7 +75,7 @@ public class ConsumerShopService(
                 s.Id, s.Name, s.Description, s.ShopType, s.Address,
                 s.Latitude, s.Longitude, s.ImageUrl, s.Tags,
                 isOpen, Math.Round(dist, 1), deliveryFee, minOrder,
-                count > 0 ? Math.Round(rating, 1) : null, count, s.CreatedAt));
+                count > 0 ? Math.Round(rating, 1) : null, count, s.CreatedAt, zone?.EtaMinutes, leastOrder));
         }
 
         var result = enriched.OrderBy(s => s.DistanceMeters).Skip((page - 1) * pageSize).Take(pageSize).ToList();
@@ -77,6 +90,7 @@ public class ConsumerShopService(
             .Include(s => s.Categories.Where(c => c.IsActive))
                 .ThenInclude(c => c.ItemCategories)
                     .ThenInclude(ic => ic.MerchantItem)
+                        .ThenInclude(i => i!.Variants)
             .FirstOrDefaultAsync(s => s.Id == shopId);
 
         if (shop is null) return Result.Failure<ShopDetailDto>("Shop not found.");
@@ -87,22 +101,32 @@ public class ConsumerShopService(
         if (!ShopOpenStatusHelper.IsOpenNow(shop))
             return Result.Failure<ShopDetailDto>("Shop not found.");
 
+        var zones = await context.ShopDeliveryAreas
+            .Where(a => a.ShopId == shop.Id)
+            .OrderBy(a => a.CreatedAt)
+            .ToListAsync();
+
+        ShopDeliveryArea? zone = null;
         if (consumerLat.HasValue && consumerLon.HasValue)
         {
-            var isInDeliveryArea = await IsWithinDeliveryAreaAsync(shop.Id, consumerLat.Value, consumerLon.Value);
-            if (!isInDeliveryArea) return Result.Failure<ShopDetailDto>("Shop not found.");
+            var consumerPoint = CreateConsumerPoint(consumerLat.Value, consumerLon.Value);
+            zone = zones.FirstOrDefault(a => a.Geom.Contains(consumerPoint));
+            if (zone is null) return Result.Failure<ShopDetailDto>("Shop not found.");
         }
 
         double dist = 0;
         decimal deliveryFee = 0;
+        // The small-order surcharge threshold, and the smallest order accepted (the zone's minimum when it sets one)
         decimal? minOrder = shop.DeliveryLogic?.MinimumOrderValue;
+        decimal? leastOrder = zone?.MinimumOrderValue ?? shop.DeliveryLogic?.LeastOrderValue;
 
         if (consumerLat.HasValue && consumerLon.HasValue)
         {
             dist = feeCalc.CalculateDistance(consumerLat.Value, consumerLon.Value, shop.Latitude, shop.Longitude);
             if (shop.DeliveryLogic is not null)
             {
-                var breakdown = feeCalc.CalculateFee(0, dist, shop.DeliveryLogic);
+                var deliveryDist = await deliveryDistance.GetDeliveryDistanceAsync(shop, shop.DeliveryLogic, consumerLat.Value, consumerLon.Value);
+                var breakdown = feeCalc.CalculateFee(0, deliveryDist, shop.DeliveryLogic, zone);
                 deliveryFee = breakdown.DeliveryFeeCents / 100m;
             }
         }
@@ -118,7 +142,14 @@ public class ConsumerShopService(
                 .Select(ic => new ConsumerItemDto(
                     ic.MerchantItem!.Id, ic.MerchantItem.Name, ic.MerchantItem.Description,
                     ic.MerchantItem.PriceCents, ic.MerchantItem.Currency,
-                    ic.MerchantItem.ImageUrl, ic.MerchantItem.IsActive, ic.MerchantItem.TimesSold))
+                    ic.MerchantItem.ImageUrl, ic.MerchantItem.IsActive, ic.MerchantItem.TimesSold,
+                    ic.MerchantItem.TrackStock ? ic.MerchantItem.StockQuantity : null,
+                    ic.MerchantItem.Variants
+                        .Where(v => v.IsActive)
+                        .OrderBy(v => v.SortOrder)
+                        .Select(v => new ConsumerItemVariantDto(v.Id, v.OptionGroup, v.Name, v.PriceCents))
+                        .ToArray(),
+                    ic.MerchantItem.Unit, ic.MerchantItem.QuantityStep))
                 .ToArray()
         )).ToArray();
 
@@ -127,10 +158,39 @@ public class ConsumerShopService(
             shop.Latitude, shop.Longitude, shop.ImageUrl, shop.Tags,
             isOpen, Math.Round(dist, 1), deliveryFee, minOrder,
             count > 0 ? Math.Round(rating, 1) : null, count, categories, shop.CreatedAt,
-            MapConsumerDeliveryLogic(shop.DeliveryLogic)));
+            MapConsumerDeliveryLogic(shop.DeliveryLogic, zones),
+            zone?.EtaMinutes,
+            leastOrder));
     }
 
-    private static ConsumerDeliveryLogicDto? MapConsumerDeliveryLogic(ShopDeliveryLogic? d)
+    public async Task<Result<List<ItemStockStatusDto>>> CheckStockAsync(StockCheckRequest request)
+    {
+        var requested = request.Items
+            .GroupBy(i => i.MerchantItemId)
+            .Select(g => (ItemId: g.Key, Quantity: g.Sum(i => i.Quantity)))
+            .ToList();
+        var itemIds = requested.Select(r => r.ItemId).ToList();
+        var items = await context.MerchantItems.AsNoTracking()
+            .Where(i => itemIds.Contains(i.Id))
+            .ToDictionaryAsync(i => i.Id);
+
+        var statuses = requested.Select(r =>
+        {
+            items.TryGetValue(r.ItemId, out var item);
+            var reason = InventoryStockHelper.GetShortfallReason(item, r.Quantity);
+            return new ItemStockStatusDto(
+                r.ItemId,
+                item?.Name,
+                reason is null,
+                item?.IsActive ?? false,
+                item is { TrackStock: true } ? item.StockQuantity : null,
+                reason);
+        }).ToList();
+
+        return Result.Success(statuses);
+    }
+
+    private static ConsumerDeliveryLogicDto? MapConsumerDeliveryLogic(ShopDeliveryLogic? d, List<ShopDeliveryArea> zones)
     {
         if (d is null) return null;
 
@@ -164,15 +224,22 @@ public class ConsumerShopService(
             d.BeyondTierDistanceUnit,
             d.FreeDeliveryThreshold,
             d.FreeDeliveryRadius,
+            PeakWindowSchedule.Parse(d.PeakWindows)
+                .Select(w => new ConsumerPeakWindowDto(w.Label, w.Days, w.Start.ToString("HH:mm"), w.End.ToString("HH:mm"), w.Fee))
+                .ToArray(),
+            d.BusyModeEnabled,
+            d.BusyModeMultiplier,
+            zones.Select(MapConsumerDeliveryZone).ToArray(),
             d.CreatedAt,
             d.UpdatedAt);
     }
 
-    private async Task<bool> IsWithinDeliveryAreaAsync(Guid shopId, double latitude, double longitude)
+    private static ConsumerDeliveryZoneDto MapConsumerDeliveryZone(ShopDeliveryArea a)
     {
-        var consumerPoint = CreateConsumerPoint(latitude, longitude);
-        return await context.ShopDeliveryAreas
-            .AnyAsync(a => a.ShopId == shopId && a.Geom.Contains(consumerPoint));
+        var coords = a.Geom is Polygon p
+            ? p.ExteriorRing.Coordinates.Select(c => new ConsumerCoordinateDto(c.X, c.Y)).ToArray()
+            : Array.Empty<ConsumerCoordinateDto>();
+        return new ConsumerDeliveryZoneDto(a.Id, a.Label, coords, a.DeliveryFee, a.MinimumOrderValue, a.EtaMinutes);
     }
 
     private static Point CreateConsumerPoint(double latitude, double longitude)
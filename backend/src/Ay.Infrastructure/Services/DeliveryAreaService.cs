@@ -23,6 +23,7 @@ public class DeliveryAreaService(
 
         var areas = await context.ShopDeliveryAreas
             .Where(a => a.ShopId == shopId)
+            .OrderBy(a => a.CreatedAt)
             .ToListAsync();
 
         return Result.Success(areas.Select(ToDto).ToList());
@@ -53,6 +54,19 @@ public class DeliveryAreaService(
         {
             return Result.Failure<DeliveryAreaDto>($"Invalid polygon geometry: {ex.Message}");
         }
+        if (!polygon.IsValid)
+            return Result.Failure<DeliveryAreaDto>("Invalid polygon geometry: the outline crosses itself.");
+
+        // An address must fall in at most one zone, or its fee and minimum would depend on which zone is picked.
+        // Zones may share a border.
+        var overlapping = await context.ShopDeliveryAreas
+            .Where(a => a.ShopId == shopId && a.Geom.Intersects(polygon) && !a.Geom.Touches(polygon))
+            .Select(a => new { a.Label })
+            .FirstOrDefaultAsync();
+        if (overlapping is not null)
+            return Result.Failure<DeliveryAreaDto>(string.IsNullOrEmpty(overlapping.Label)
+                ? "The area overlaps another delivery zone."
+                : $"The area overlaps the delivery zone '{overlapping.Label}'.");
 
         var area = new ShopDeliveryArea
         {
@@ -60,6 +74,9 @@ public class DeliveryAreaService(
             ShopId = shopId,
             Label = request.Label,
             Geom = polygon,
+            DeliveryFee = request.DeliveryFee,
+            MinimumOrderValue = request.MinimumOrderValue,
+            EtaMinutes = request.EtaMinutes,
         };
 
         context.ShopDeliveryAreas.Add(area);
@@ -101,6 +118,7 @@ public class DeliveryAreaService(
                 .Select(c => new CoordinateDto(c.X, c.Y))
                 .ToArray();
         }
-        return new DeliveryAreaDto(a.Id, a.ShopId, a.Label, coords, a.CreatedAt, a.UpdatedAt);
+        return new DeliveryAreaDto(
+            a.Id, a.ShopId, a.Label, coords, a.DeliveryFee, a.MinimumOrderValue, a.EtaMinutes, a.CreatedAt, a.UpdatedAt);
     }
 }
@@ -0,0 +1,45 @@
+using System.Globalization;
+using Ay.Application.Consumer.Services;
+using Ay.Domain.Entities;
+using Microsoft.Extensions.Caching.Memory;
+
+namespace Ay.Infrastructure.Services;
+
+/// <summary>
+/// Prices road-mode shops on road distance. Routes run from the shop to the centre of the address's grid cell and are
+/// cached per shop and cell, so every address in a cell gets the same distance and the routing server sees one request
+/// per cell a day. The app's <c>src/services/routingDistance.ts</c> snaps to the same grid. When the provider finds no
+/// route the straight-line distance is used, and not cached.
+/// </summary>
+public class DeliveryDistanceService(
+    IRoutingProvider routing,
+    IDeliveryFeeCalculatorService feeCalc,
+    IMemoryCache cache) : IDeliveryDistanceService
+{
+    /// <summary>About 110 m north to south.</summary>
+    public const double GridCellDegrees = 0.001;
+
+    private static readonly TimeSpan CacheLifetime = TimeSpan.FromDays(1);
+
+    public async Task<double> GetDeliveryDistanceAsync(Shop shop, ShopDeliveryLogic? logic, double latitude, double longitude)
+    {
+        var straightLine = feeCalc.CalculateDistance(latitude, longitude, shop.Latitude, shop.Longitude);
+        if (!string.Equals(logic?.DistanceMode, "road", StringComparison.OrdinalIgnoreCase))
+            return straightLine;
+
+        var cellLat = SnapToGrid(latitude);
+        var cellLon = SnapToGrid(longitude);
+        var key = string.Create(CultureInfo.InvariantCulture, $"road-distance:{shop.Id:N}:{cellLat:F4}:{cellLon:F4}");
+        if (cache.TryGetValue(key, out double cached))
+            return cached;
+
+        var road = await routing.GetRoadDistanceAsync(shop.Latitude, shop.Longitude, cellLat, cellLon);
+        if (road is null)
+            return straightLine;
+
+        cache.Set(key, road.Value, CacheLifetime);
+        return road.Value;
+    }
+
+    private static double SnapToGrid(double degrees) => (Math.Floor(degrees / GridCellDegrees) + 0.5) * GridCellDegrees;
+}
@@ -5,8 +5,24 @@ using Ay.Domain.Entities;
 
 namespace Ay.Infrastructure.Services;
 
+/// <summary>
+/// The delivery fee rules. The app's estimates in <c>src/services/feeQuote.ts</c> implement the same rules; bump
+/// <see cref="RulesVersion"/> on both sides together so outstanding quotes are re-issued.
+/// </summary>
 public class DeliveryFeeCalculatorService : IDeliveryFeeCalculatorService
 {
+    public const int RulesVersion = 4;
+
+    /// <summary>Used when a shop has no distance tiers configured.</summary>
+    private static readonly (decimal maxDist, decimal fee)[] DefaultDistanceTiers =
+    [
+        (200, 20),
+        (400, 30),
+        (600, 40),
+        (800, 50),
+        (1000, 60),
+    ];
+
     public double CalculateDistance(double lat1, double lon1, double lat2, double lon2)
     {
         const double R = 6371000;
@@ -18,14 +34,31 @@ public class DeliveryFeeCalculatorService : IDeliveryFeeCalculatorService
         return R * 2 * Math.Atan2(Math.Sqrt(a), Math.Sqrt(1 - a));
     }
 
-    public OrderFeeBreakdown CalculateFee(decimal subtotalPkr, double distanceMeters, ShopDeliveryLogic logic)
+    public OrderFeeBreakdown CalculateFee(decimal subtotalPkr, double distanceMeters, ShopDeliveryLogic logic, ShopDeliveryArea? zone = null)
     {
-        if (subtotalPkr >= logic.FreeDeliveryThreshold && (decimal)distanceMeters <= logic.FreeDeliveryRadius)
-        {
-            var surchargeForFree = subtotalPkr < logic.MinimumOrderValue ? (int)(logic.SmallOrderSurcharge * 100) : 0;
-            return new OrderFeeBreakdown(0, surchargeForFree, true, distanceMeters);
-        }
+        var baseFee = zone?.DeliveryFee ?? DistanceFee(distanceMeters, logic);
+        var baseFeeCents = ToCents(baseFee);
+        var surchargeCents = subtotalPkr < logic.MinimumOrderValue ? ToCents(logic.SmallOrderSurcharge) : 0;
+        var freeDelivery = subtotalPkr >= logic.FreeDeliveryThreshold && (decimal)distanceMeters <= logic.FreeDeliveryRadius;
+
+        var peakWindow = PeakWindowSchedule.FindActive(PeakWindowSchedule.Parse(logic.PeakWindows), ShopOpenStatusHelper.ToBusinessLocalNow());
+        var busyUplift = logic.BusyModeEnabled ? BusyUplift(baseFee, logic) : 0;
+        var peakFeeCents = ToCents((peakWindow?.Fee ?? 0) + busyUplift);
+
+        return new OrderFeeBreakdown(
+            baseFeeCents, surchargeCents, freeDelivery ? baseFeeCents : 0, freeDelivery, distanceMeters,
+            peakFeeCents, peakWindow?.Label, busyUplift > 0);
+    }
+
+    public decimal GetLeastOrderValue(ShopDeliveryLogic logic, ShopDeliveryArea? zone) =>
+        zone?.MinimumOrderValue ?? logic.LeastOrderValue;
 
+    /// <summary>
+    /// The first tier covering the distance, or the last tier plus the per-unit fee beyond it, capped at the maximum
+    /// delivery fee.
+    /// </summary>
+    private static decimal DistanceFee(double distanceMeters, ShopDeliveryLogic logic)
+    {
         var tiers = new List<(decimal maxDist, decimal fee)>();
         if (logic.DistanceTiers is not null)
         {
@@ -33,34 +66,30 @@ public class DeliveryFeeCalculatorService : IDeliveryFeeCalculatorService
             {
                 tiers.Add((el.GetProperty("max_distance").GetDecimal(), el.GetProperty("fee").GetDecimal()));
             }
-            tiers.Sort((a, b) => a.maxDist.CompareTo(b.maxDist));
         }
+        if (tiers.Count == 0) tiers.AddRange(DefaultDistanceTiers);
+        tiers.Sort((a, b) => a.maxDist.CompareTo(b.maxDist));
 
-        decimal baseFee = 0;
-        bool matched = false;
         foreach (var tier in tiers)
         {
             if ((decimal)distanceMeters <= tier.maxDist)
-            {
-                baseFee = Math.Min(tier.fee, logic.MaxDeliveryFee);
-                matched = true;
-                break;
-            }
+                return Math.Min(tier.fee, logic.MaxDeliveryFee);
         }
 
-        if (!matched && tiers.Count > 0)
-        {
-            var last = tiers[^1];
-            var extra = (decimal)distanceMeters - last.maxDist;
-            var units = Math.Ceiling(extra / logic.BeyondTierDistanceUnit);
-            baseFee = Math.Min(last.fee + units * logic.BeyondTierFeePerUnit, logic.MaxDeliveryFee);
-        }
+        var last = tiers[^1];
+        var extra = (decimal)distanceMeters - last.maxDist;
+        var units = Math.Ceiling(extra / logic.BeyondTierDistanceUnit);
+        return Math.Min(last.fee + units * logic.BeyondTierFeePerUnit, logic.MaxDeliveryFee);
+    }
 
-        int deliveryFeeCents = (int)(baseFee * 100);
-        int surchargeCents = subtotalPkr < logic.MinimumOrderValue ? (int)(logic.SmallOrderSurcharge * 100) : 0;
+    /// <summary>Busy mode multiplies the distance fee, but never past the maximum delivery fee.</summary>
+    private static decimal BusyUplift(decimal baseFee, ShopDeliveryLogic logic) =>
+        Math.Max(0, Math.Min(baseFee * logic.BusyModeMultiplier, logic.MaxDeliveryFee) - baseFee);
 
-        return new OrderFeeBreakdown(deliveryFeeCents, surchargeCents, false, distanceMeters);
-    }
+    public string GetRuleVersion(ShopDeliveryLogic? logic) =>
+        $"{RulesVersion}.{logic?.UpdatedAt.ToUnixTimeSeconds() ?? 0}";
+
+    private static int ToCents(decimal pkr) => (int)Math.Round(pkr * 100, MidpointRounding.AwayFromZero);
 
     private static double ToRad(double deg) => deg * Math.PI / 180;
 }
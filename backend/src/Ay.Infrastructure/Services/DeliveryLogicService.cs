@@ -47,6 +47,20 @@ public class DeliveryLogicService(
         if (request.BeyondTierDistanceUnit.HasValue) logic.BeyondTierDistanceUnit = request.BeyondTierDistanceUnit.Value;
         if (request.FreeDeliveryThreshold.HasValue) logic.FreeDeliveryThreshold = request.FreeDeliveryThreshold.Value;
         if (request.FreeDeliveryRadius.HasValue) logic.FreeDeliveryRadius = request.FreeDeliveryRadius.Value;
+        if (request.PeakWindows is not null)
+        {
+            var windows = request.PeakWindows.Select(w => new
+            {
+                label = string.IsNullOrWhiteSpace(w.Label) ? null : w.Label.Trim(),
+                days = w.Days.Distinct().Order().ToArray(),
+                start = w.Start,
+                end = w.End,
+                fee = w.Fee,
+            });
+            logic.PeakWindows = JsonSerializer.SerializeToDocument(windows);
+        }
+        if (request.BusyModeEnabled.HasValue) logic.BusyModeEnabled = request.BusyModeEnabled.Value;
+        if (request.BusyModeMultiplier.HasValue) logic.BusyModeMultiplier = request.BusyModeMultiplier.Value;
         logic.UpdatedAt = DateTimeOffset.UtcNow;
 
         await deliveryLogicRepo.UpdateAsync(logic);
@@ -79,11 +93,16 @@ public class DeliveryLogicService(
             catch { }
         }
 
+        var peakWindows = PeakWindowSchedule.Parse(d.PeakWindows)
+            .Select(w => new PeakWindowDto(w.Label, w.Days, w.Start.ToString("HH:mm"), w.End.ToString("HH:mm"), w.Fee))
+            .ToArray();
+
         return new DeliveryLogicDto(
             d.Id, d.ShopId, d.MinimumOrderValue, d.SmallOrderSurcharge, d.LeastOrderValue,
             d.DistanceMode, d.MaxDeliveryFee, tiers,
             d.BeyondTierFeePerUnit, d.BeyondTierDistanceUnit,
             d.FreeDeliveryThreshold, d.FreeDeliveryRadius,
+            peakWindows, d.BusyModeEnabled, d.BusyModeMultiplier,
             d.CreatedAt, d.UpdatedAt);
     }
 }
@@ -0,0 +1,75 @@
+using System.Globalization;
+using System.Security.Cryptography;
+using System.Text;
+using Ay.Application.Consumer.DTOs;
+using Ay.Application.Consumer.Services;
+using Ay.Domain.Common;
+using Microsoft.Extensions.Configuration;
+
+namespace Ay.Infrastructure.Services;
+
+/// <summary>
+/// Signs fee quotes with HMAC-SHA256 so the app can hand a quote back at checkout without the server trusting its
+/// numbers. The key is <c>FeeQuote:Secret</c>, falling back to <c>Jwt:Secret</c>.
+/// </summary>
+public class FeeQuoteService(IConfiguration config) : IFeeQuoteService
+{
+    public static readonly TimeSpan Lifetime = TimeSpan.FromMinutes(10);
+
+    public FeeQuoteDto Issue(Guid shopId, int subtotalCents, OrderFeeBreakdown breakdown, string ruleVersion)
+    {
+        // Whole seconds and one decimal of distance survive the JSON round trip unchanged.
+        var expiresAt = DateTimeOffset.FromUnixTimeSeconds(DateTimeOffset.UtcNow.Add(Lifetime).ToUnixTimeSeconds());
+        var quote = new FeeQuoteDto(
+            shopId,
+            subtotalCents,
+            breakdown.BaseFeeCents,
+            breakdown.SurchargeCents,
+            breakdown.FreeDeliveryDiscountCents,
+            breakdown.FreeDeliveryApplied,
+            breakdown.PeakFeeCents,
+            breakdown.PeakLabel,
+            breakdown.BusyModeApplied,
+            breakdown.DeliveryFeeCents,
+            subtotalCents + breakdown.DeliveryFeeCents + breakdown.SurchargeCents,
+            Math.Round(breakdown.DistanceMeters, 1),
+            ruleVersion,
+            expiresAt,
+            "");
+        return quote with { Signature = Sign(quote) };
+    }
+
+    public Result Verify(FeeQuoteDto quote)
+    {
+        var expected = Encoding.ASCII.GetBytes(Sign(quote));
+        var actual = Encoding.ASCII.GetBytes(quote.Signature ?? "");
+        if (!CryptographicOperations.FixedTimeEquals(expected, actual))
+            return Result.Failure("Delivery quote is invalid.");
+        if (quote.ExpiresAt <= DateTimeOffset.UtcNow)
+            return Result.Failure("Delivery quote has expired. Please review your order again.");
+        return Result.Success();
+    }
+
+    private string Sign(FeeQuoteDto quote)
+    {
+        var secret = config["FeeQuote:Secret"] ?? config["Jwt:Secret"]
+            ?? throw new InvalidOperationException("FeeQuote:Secret is not configured.");
+        var payload = string.Join('|',
+            quote.ShopId.ToString("N"),
+            quote.SubtotalCents,
+            quote.BaseFeeCents,
+            quote.SurchargeCents,
+            quote.FreeDeliveryDiscountCents,
+            quote.FreeDeliveryApplied ? 1 : 0,
+            quote.PeakFeeCents,
+            quote.PeakLabel ?? "",
+            quote.BusyModeApplied ? 1 : 0,
+            quote.DeliveryFeeCents,
+            quote.TotalCents,
+            quote.DistanceMeters.ToString("F1", CultureInfo.InvariantCulture),
+            quote.RuleVersion,
+            quote.ExpiresAt.ToUnixTimeSeconds());
+        var hash = HMACSHA256.HashData(Encoding.UTF8.GetBytes(secret), Encoding.UTF8.GetBytes(payload));
+        return Convert.ToBase64String(hash);
+    }
+}
@@ -0,0 +1,81 @@
+using System.Text;
+
+namespace Ay.Infrastructure.Services;
+
+/// <summary>
+/// Minimal RFC 4180 reader for inventory imports: comma-separated fields, double-quoted fields that may contain
+/// commas, line breaks and escaped quotes (<c>""</c>), and LF or CRLF record endings.
+/// </summary>
+public static class InventoryCsvParser
+{
+    public static List<string[]> Parse(string text)
+    {
+        var records = new List<string[]>();
+        var fields = new List<string>();
+        var field = new StringBuilder();
+        var inQuotes = false;
+        var i = 0;
+
+        if (text.Length > 0 && text[0] == '\uFEFF') i = 1;
+
+        void EndField()
+        {
+            fields.Add(field.ToString());
+            field.Clear();
+        }
+
+        void EndRecord()
+        {
+            EndField();
+            records.Add([.. fields]);
+            fields.Clear();
+        }
+
+        for (; i < text.Length; i++)
+        {
+            var c = text[i];
+            if (inQuotes)
+            {
+                if (c != '"')
+                {
+                    field.Append(c);
+                }
+                else if (i + 1 < text.Length && text[i + 1] == '"')
+                {
+                    field.Append('"');
+                    i++;
+                }
+                else
+                {
+                    inQuotes = false;
+                }
+                continue;
+            }
+
+            switch (c)
+            {
+                case '"' when field.Length == 0:
+                    inQuotes = true;
+                    break;
+                case ',':
+                    EndField();
+                    break;
+                case '\r':
+                    if (i + 1 < text.Length && text[i + 1] == '\n') i++;
+                    EndRecord();
+                    break;
+                case '\n':
+                    EndRecord();
+                    break;
+                default:
+                    field.Append(c);
+                    break;
+            }
+        }
+
+        if (field.Length > 0 || fields.Count > 0 || inQuotes)
+            EndRecord();
+
+        return records;
+    }
+}
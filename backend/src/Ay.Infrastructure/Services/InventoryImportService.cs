@@ -0,0 +1,396 @@
+using System.Globalization;
+using System.Text.Json;
+using Ay.Application.Merchant.DTOs;
+using Ay.Application.Merchant.Services;
+using Ay.Domain.Common;
+using Ay.Domain.Entities;
+using Ay.Domain.Interfaces;
+using Ay.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+
+namespace Ay.Infrastructure.Services;
+
+public class InventoryImportService(
+    AppDbContext context,
+    IMerchantAccountRepository merchantRepo,
+    IShopRepository shopRepo,
+    IMerchantItemAuditService itemAuditService,
+    ILogger<InventoryImportService> logger) : IInventoryImportService
+{
+    private const int MaxRows = 5000;
+    private const int MaxNameLength = 200;
+    private const string AuditSource = "bulk_import";
+
+    /// <summary>One data row of the uploaded file, trimmed but otherwise unvalidated. Stored as the job plan.</summary>
+    private sealed record ImportRow(int Row, string Name, string Sku, string Barcode, string Price, string Category);
+
+    private sealed record PlannedCreate(int Row, string Name, string? Sku, string? Barcode, int PriceCents, MerchantCategory Category);
+
+    /// <summary>Only the fields that differ from the current item are set.</summary>
+    private sealed record PlannedUpdate(int Row, MerchantItem Item, string? Name, string? Sku, string? Barcode, int? PriceCents, MerchantCategory? Category);
+
+    private sealed class ImportPlan
+    {
+        public List<PlannedCreate> Creates { get; } = [];
+        public List<PlannedUpdate> Updates { get; } = [];
+        public List<ImportRejectRowDto> Rejects { get; } = [];
+        public int Unchanged { get; set; }
+    }
+
+    public async Task<Result<InventoryImportPreviewDto>> PreviewAsync(Guid shopId, Guid userId, string fileName, Stream content)
+    {
+        var ownership = await VerifyOwnershipAsync(shopId, userId);
+        if (!ownership.IsSuccess) return Result.Failure<InventoryImportPreviewDto>(ownership.Error!);
+
+        string text;
+        using (var reader = new StreamReader(content))
+            text = await reader.ReadToEndAsync();
+
+        var parsed = ParseRows(text);
+        if (!parsed.IsSuccess) return Result.Failure<InventoryImportPreviewDto>(parsed.Error!);
+
+        var rows = parsed.Value!;
+        var plan = await BuildPlanAsync(shopId, rows);
+
+        var job = new InventoryImportJob
+        {
+            Id = Guid.NewGuid(),
+            ShopId = shopId,
+            CreatedBy = userId,
+            Status = "previewed",
+            FileName = Path.GetFileName(fileName),
+            Plan = JsonSerializer.SerializeToDocument(rows),
+            CreateCount = plan.Creates.Count,
+            UpdateCount = plan.Updates.Count,
+            RejectCount = plan.Rejects.Count,
+        };
+        context.InventoryImportJobs.Add(job);
+        await context.SaveChangesAsync();
+
+        return Result.Success(new InventoryImportPreviewDto(
+            job.Id,
+            job.FileName,
+            job.Status,
+            plan.Creates.Select(c => new ImportCreateRowDto(c.Row, c.Name, c.Sku, c.Barcode, c.PriceCents, c.Category.Id, c.Category.Name)).ToArray(),
+            plan.Updates.Select(ToUpdateRowDto).ToArray(),
+            [.. plan.Rejects],
+            plan.Unchanged,
+            job.CreatedAt));
+    }
+
+    public async Task<Result<InventoryImportJobDto>> ApplyAsync(Guid shopId, Guid jobId, Guid userId)
+    {
+        var ownership = await VerifyOwnershipAsync(shopId, userId);
+        if (!ownership.IsSuccess) return Result.Failure<InventoryImportJobDto>(ownership.Error!);
+
+        var job = await context.InventoryImportJobs.FirstOrDefaultAsync(j => j.Id == jobId && j.ShopId == shopId);
+        if (job is null) return Result.Failure<InventoryImportJobDto>("Import job not found.");
+        if (job.Status != "previewed")
+            return Result.Failure<InventoryImportJobDto>("This import has already been applied.");
+
+        // Re-plan against current inventory so edits made since the preview are not overwritten with stale values.
+        var rows = job.Plan.Deserialize<List<ImportRow>>() ?? [];
+        var plan = await BuildPlanAsync(shopId, rows);
+        var actor = JsonSerializer.SerializeToDocument(new { id = userId.ToString(), role = "merchant" });
+
+        try
+        {
+            await using var transaction = await context.Database.BeginTransactionAsync();
+
+            foreach (var create in plan.Creates)
+            {
+                var item = new MerchantItem
+                {
+                    Id = Guid.NewGuid(),
+                    ShopId = shopId,
+                    Name = create.Name,
+                    PriceCents = create.PriceCents,
+                    Sku = create.Sku,
+                    Barcode = create.Barcode,
+                    IsCustom = true,
+                    CreatedBy = userId,
+                };
+                item.ItemCategories.Add(new MerchantItemCategory { MerchantItemId = item.Id, MerchantCategoryId = create.Category.Id, SortOrder = 0 });
+                context.MerchantItems.Add(item);
+                await context.SaveChangesAsync();
+
+                await itemAuditService.LogItemCreatedAsync(shopId, item.Id, userId, create.Name, create.PriceCents, AuditSource);
+            }
+
+            foreach (var update in plan.Updates)
+            {
+                var item = update.Item;
+                var changes = new Dictionary<string, object?>();
+                if (update.Name is not null)
+                {
+                    changes["name"] = new { from = item.Name, to = update.Name };
+                    item.Name = update.Name;
+                }
+                if (update.Sku is not null)
+                {
+                    changes["sku"] = new { from = item.Sku, to = update.Sku };
+                    item.Sku = update.Sku;
+                }
+                if (update.Barcode is not null)
+                {
+                    changes["barcode"] = new { from = item.Barcode, to = update.Barcode };
+                    item.Barcode = update.Barcode;
+                }
+                if (update.PriceCents.HasValue)
+                {
+                    changes["price_cents"] = new { from = item.PriceCents, to = update.PriceCents.Value };
+                    item.PriceCents = update.PriceCents.Value;
+                }
+                if (update.Category is not null)
+                {
+                    var previousCategoryIds = item.ItemCategories
+                        .OrderBy(ic => ic.SortOrder)
+                        .Select(ic => ic.MerchantCategoryId)
+                        .ToArray();
+                    item.ItemCategories.Add(new MerchantItemCategory
+                    {
+                        MerchantItemId = item.Id,
+                        MerchantCategoryId = update.Category.Id,
+                        SortOrder = item.ItemCategories.Count == 0 ? 0 : item.ItemCategories.Max(ic => ic.SortOrder) + 1,
+                    });
+                    changes["category_ids"] = new { from = previousCategoryIds, to = previousCategoryIds.Append(update.Category.Id).ToArray() };
+                }
+
+                item.LastUpdatedBy = actor;
+                item.UpdatedAt = DateTimeOffset.UtcNow;
+                await context.SaveChangesAsync();
+
+                await itemAuditService.LogItemFieldChangesAsync(shopId, item.Id, userId, changes, AuditSource);
+            }
+
+            job.Status = "completed";
+            job.CreateCount = plan.Creates.Count;
+            job.UpdateCount = plan.Updates.Count;
+            job.RejectCount = plan.Rejects.Count;
+            job.CompletedAt = DateTimeOffset.UtcNow;
+            await context.SaveChangesAsync();
+
+            await transaction.CommitAsync();
+        }
+        catch (DbUpdateException ex)
+        {
+            logger.LogError(ex, "Inventory import {JobId} for shop {ShopId} failed", job.Id, shopId);
+            context.ChangeTracker.Clear();
+
+            const string error = "The import could not be saved. No items were changed.";
+            var failed = await context.InventoryImportJobs.FirstAsync(j => j.Id == jobId);
+            failed.Status = "failed";
+            failed.Error = error;
+            failed.CompletedAt = DateTimeOffset.UtcNow;
+            await context.SaveChangesAsync();
+            return Result.Failure<InventoryImportJobDto>(error);
+        }
+
+        logger.LogInformation(
+            "Inventory import {JobId} for shop {ShopId}: {Created} created, {Updated} updated, {Rejected} rejected",
+            job.Id, shopId, job.CreateCount, job.UpdateCount, job.RejectCount);
+        return Result.Success(ToJobDto(job));
+    }
+
+    public async Task<Result<InventoryImportJobDto>> GetJobAsync(Guid shopId, Guid jobId, Guid userId)
+    {
+        var ownership = await VerifyOwnershipAsync(shopId, userId);
+        if (!ownership.IsSuccess) return Result.Failure<InventoryImportJobDto>(ownership.Error!);
+
+        var job = await context.InventoryImportJobs.AsNoTracking().FirstOrDefaultAsync(j => j.Id == jobId && j.ShopId == shopId);
+        return job is null
+            ? Result.Failure<InventoryImportJobDto>("Import job not found.")
+            : Result.Success(ToJobDto(job));
+    }
+
+    private static Result<List<ImportRow>> ParseRows(string text)
+    {
+        var records = InventoryCsvParser.Parse(text);
+        if (records.Count == 0)
+            return Result.Failure<List<ImportRow>>("The file is empty.");
+
+        var header = records[0].Select(h => h.Trim().ToLowerInvariant()).ToArray();
+        int Column(string column) => Array.IndexOf(header, column);
+        int name = Column("name"), sku = Column("sku"), barcode = Column("barcode"), price = Column("price"), category = Column("category");
+
+        if (name < 0 && sku < 0 && barcode < 0)
+            return Result.Failure<List<ImportRow>>("The header row must include a name, sku or barcode column.");
+        if (records.Count - 1 > MaxRows)
+            return Result.Failure<List<ImportRow>>($"The file has more than {MaxRows} rows. Split it into smaller files.");
+
+        // Exports put an apostrophe before cells a spreadsheet would read as a formula; drop it on the way back in.
+        static string Cell(string[] record, int index)
+        {
+            var value = index >= 0 && index < record.Length ? record[index].Trim() : "";
+            return value.Length > 1 && value[0] == '\'' && value[1] is '=' or '+' or '-' or '@' ? value[1..] : value;
+        }
+
+        var rows = new List<ImportRow>();
+        for (var i = 1; i < records.Count; i++)
+        {
+            var record = records[i];
+            if (record.All(string.IsNullOrWhiteSpace)) continue;
+            // Row numbers match what a spreadsheet shows, with the header on row 1.
+            rows.Add(new ImportRow(i + 1, Cell(record, name), Cell(record, sku), Cell(record, barcode), Cell(record, price), Cell(record, category)));
+        }
+
+        if (rows.Count == 0)
+            return Result.Failure<List<ImportRow>>("The file has no data rows.");
+        return Result.Success(rows);
+    }
+
+    private async Task<ImportPlan> BuildPlanAsync(Guid shopId, List<ImportRow> rows)
+    {
+        var items = await context.MerchantItems
+            .Include(i => i.ItemCategories)
+            .Where(i => i.ShopId == shopId)
+            .ToListAsync();
+        var categories = await context.MerchantCategories
+            .Where(c => c.ShopId == shopId)
+            .ToListAsync();
+
+        var bySku = items.Where(i => i.Sku is not null)
+            .GroupBy(i => i.Sku!, StringComparer.OrdinalIgnoreCase)
+            .ToDictionary(g => g.Key, g => g.First(), StringComparer.OrdinalIgnoreCase);
+        var byBarcode = items.Where(i => i.Barcode is not null)
+            .GroupBy(i => i.Barcode!, StringComparer.OrdinalIgnoreCase)
+            .ToDictionary(g => g.Key, g => g.First(), StringComparer.OrdinalIgnoreCase);
+        var byName = items.Where(i => !string.IsNullOrWhiteSpace(i.Name))
+            .GroupBy(i => i.Name!.Trim(), StringComparer.OrdinalIgnoreCase)
+            .ToDictionary(g => g.Key, g => g.ToList(), StringComparer.OrdinalIgnoreCase);
+
+        // First row that claimed an existing item, a new name, or a SKU/barcode value within this file.
+        var claimedItems = new Dictionary<Guid, int>();
+        var claimedNames = new Dictionary<string, int>(StringComparer.OrdinalIgnoreCase);
+        var claimedSkus = new Dictionary<string, int>(StringComparer.OrdinalIgnoreCase);
+        var claimedBarcodes = new Dictionary<string, int>(StringComparer.OrdinalIgnoreCase);
+
+        var plan = new ImportPlan();
+        foreach (var row in rows)
+        {
+            var errors = new List<string>();
+
+            int? priceCents = null;
+            if (row.Price.Length > 0)
+            {
+                if (TryParsePriceCents(row.Price, out var cents)) priceCents = cents;
+                else errors.Add($"Price \"{row.Price}\" must be a non-negative amount with at most two decimals.");
+            }
+
+            MerchantCategory? category = null;
+            if (row.Category.Length > 0)
+            {
+                category = categories.FirstOrDefault(c => string.Equals(c.Name.Trim(), row.Category, StringComparison.OrdinalIgnoreCase));
+                if (category is null) errors.Add($"Category \"{row.Category}\" does not exist in this shop.");
+            }
+
+            if (row.Name.Length > MaxNameLength)
+                errors.Add($"Name must be {MaxNameLength} characters or fewer.");
+
+            MerchantItem? match = null;
+            if (row.Sku.Length > 0 && bySku.TryGetValue(row.Sku, out var skuMatch)) match = skuMatch;
+            else if (row.Barcode.Length > 0 && byBarcode.TryGetValue(row.Barcode, out var barcodeMatch)) match = barcodeMatch;
+            else if (row.Name.Length > 0 && byName.TryGetValue(row.Name, out var nameMatches))
+            {
+                if (nameMatches.Count == 1) match = nameMatches[0];
+                else errors.Add("Name matches more than one item. Add a SKU or barcode to pick one.");
+            }
+
+            if (match is not null && claimedItems.TryGetValue(match.Id, out var firstRow))
+                errors.Add($"Matches the same item as row {firstRow}.");
+
+            string? newSku = row.Sku.Length > 0 && !string.Equals(row.Sku, match?.Sku, StringComparison.Ordinal) ? row.Sku : null;
+            string? newBarcode = row.Barcode.Length > 0 && !string.Equals(row.Barcode, match?.Barcode, StringComparison.Ordinal) ? row.Barcode : null;
+            if (newSku is not null && bySku.TryGetValue(newSku, out var skuOwner) && skuOwner.Id != match?.Id)
+                errors.Add($"SKU \"{newSku}\" is already used by {skuOwner.Name ?? "another item"}.");
+            else if (newSku is not null && claimedSkus.TryGetValue(newSku, out var skuRow))
+                errors.Add($"SKU \"{newSku}\" is also used on row {skuRow}.");
+            if (newBarcode is not null && byBarcode.TryGetValue(newBarcode, out var barcodeOwner) && barcodeOwner.Id != match?.Id)
+                errors.Add($"Barcode \"{newBarcode}\" is already used by {barcodeOwner.Name ?? "another item"}.");
+            else if (newBarcode is not null && claimedBarcodes.TryGetValue(newBarcode, out var barcodeRow))
+                errors.Add($"Barcode \"{newBarcode}\" is also used on row {barcodeRow}.");
+
+            if (match is null)
+            {
+                if (row.Name.Length == 0) errors.Add("Name is required for new items.");
+                else if (claimedNames.TryGetValue(row.Name, out var nameRow)) errors.Add($"Duplicates the new item on row {nameRow}.");
+                if (row.Price.Length == 0) errors.Add("Price is required for new items.");
+                if (row.Category.Length == 0) errors.Add("Category is required for new items.");
+            }
+
+            if (errors.Count > 0)
+            {
+                plan.Rejects.Add(new ImportRejectRowDto(row.Row, [.. errors]));
+                continue;
+            }
+
+            if (newSku is not null) claimedSkus[newSku] = row.Row;
+            if (newBarcode is not null) claimedBarcodes[newBarcode] = row.Row;
+
+            if (match is null)
+            {
+                claimedNames[row.Name] = row.Row;
+                plan.Creates.Add(new PlannedCreate(row.Row, row.Name, newSku, newBarcode, priceCents!.Value, category!));
+                continue;
+            }
+
+            claimedItems[match.Id] = row.Row;
+            var update = new PlannedUpdate(
+                row.Row,
+                match,
+                row.Name.Length > 0 && row.Name != match.Name ? row.Name : null,
+                newSku,
+                newBarcode,
+                priceCents.HasValue && priceCents.Value != match.PriceCents ? priceCents : null,
+                category is not null && match.ItemCategories.All(ic => ic.MerchantCategoryId != category.Id) ? category : null);
+
+            if (update is { Name: null, Sku: null, Barcode: null, PriceCents: null, Category: null })
+                plan.Unchanged++;
+            else
+                plan.Updates.Add(update);
+        }
+
+        return plan;
+    }
+
+    private static bool TryParsePriceCents(string value, out int cents)
+    {
+        cents = 0;
+        if (!decimal.TryParse(value, NumberStyles.AllowDecimalPoint, CultureInfo.InvariantCulture, out var amount))
+            return false;
+        if (decimal.Round(amount, 2) != amount || amount > int.MaxValue / 100m)
+            return false;
+        cents = (int)(amount * 100);
+        return true;
+    }
+
+    private static ImportUpdateRowDto ToUpdateRowDto(PlannedUpdate update)
+    {
+        var item = update.Item;
+        var changes = new List<ImportFieldChangeDto>();
+        if (update.Name is not null) changes.Add(new ImportFieldChangeDto("name", item.Name, update.Name));
+        if (update.Sku is not null) changes.Add(new ImportFieldChangeDto("sku", item.Sku, update.Sku));
+        if (update.Barcode is not null) changes.Add(new ImportFieldChangeDto("barcode", item.Barcode, update.Barcode));
+        if (update.PriceCents.HasValue)
+            changes.Add(new ImportFieldChangeDto(
+                "price_cents",
+                item.PriceCents.ToString(CultureInfo.InvariantCulture),
+                update.PriceCents.Value.ToString(CultureInfo.InvariantCulture)));
+        if (update.Category is not null) changes.Add(new ImportFieldChangeDto("category", null, update.Category.Name));
+        return new ImportUpdateRowDto(update.Row, item.Id, item.Name, [.. changes]);
+    }
+
+    private static InventoryImportJobDto ToJobDto(InventoryImportJob j) => new(
+        j.Id, j.ShopId, j.Status, j.FileName, j.CreateCount, j.UpdateCount, j.RejectCount, j.Error, j.CreatedAt, j.CompletedAt);
+
+    private async Task<Result<Shop>> VerifyOwnershipAsync(Guid shopId, Guid userId)
+    {
+        var merchant = await merchantRepo.GetByUserIdAsync(userId);
+        if (merchant is null) return Result.Failure<Shop>("Merchant account not found.");
+        var shop = await shopRepo.GetByIdAsync(shopId);
+        if (shop is null) return Result.Failure<Shop>("Shop not found.");
+        if (shop.MerchantId != merchant.Id) return Result.Failure<Shop>("Access denied.");
+        return Result.Success(shop);
+    }
+}
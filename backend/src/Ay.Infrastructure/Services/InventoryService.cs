@@ -1,3 +1,4 @@
+using System.Text;
 using System.Text.Json;
 using Ay.Application.Merchant.DTOs;
 using Ay.Application.Merchant.Services;
@@ -19,6 +20,53 @@ public class InventoryService(
         return string.IsNullOrWhiteSpace(value) ? null : value.Trim();
     }
 
+    private static List<MerchantItemVariant> ToVariants(ItemVariantRequest[] variants) =>
+        variants.Select((v, idx) => new MerchantItemVariant
+        {
+            Id = v.Id ?? Guid.Empty,
+            OptionGroup = NormalizeOptionalText(v.OptionGroup),
+            Name = v.Name.Trim(),
+            PriceCents = v.PriceCents,
+            Sku = NormalizeOptionalText(v.Sku),
+            Barcode = NormalizeOptionalText(v.Barcode),
+            IsActive = v.IsActive,
+            SortOrder = idx,
+        }).ToList();
+
+    private const int MaxItemPageSize = 200;
+    private const int MaxAuditPageSize = 100;
+
+    /// <summary>Item list cursors are the (CreatedAt, Id) of the last item on the page, matching the list order.</summary>
+    private static string EncodeCursor(DateTimeOffset createdAt, Guid id) =>
+        Convert.ToBase64String(Encoding.UTF8.GetBytes($"{createdAt.UtcTicks}:{id:N}"));
+
+    private static bool TryDecodeCursor(string cursor, out DateTimeOffset createdAt, out Guid id)
+    {
+        createdAt = default;
+        id = default;
+        try
+        {
+            var parts = Encoding.UTF8.GetString(Convert.FromBase64String(cursor)).Split(':');
+            if (parts.Length != 2 || !long.TryParse(parts[0], out var ticks) || !Guid.TryParse(parts[1], out id))
+                return false;
+            createdAt = new DateTimeOffset(ticks, TimeSpan.Zero);
+            return true;
+        }
+        catch (FormatException)
+        {
+            return false;
+        }
+    }
+
+    private static string ToSnakeCase(string value) =>
+        string.Concat(value.Select((c, i) => char.IsUpper(c) ? (i > 0 ? "_" : "") + char.ToLowerInvariant(c) : c.ToString()));
+
+    internal static string[] DescribeVariants(IEnumerable<MerchantItemVariant> variants) =>
+        variants
+            .OrderBy(v => v.SortOrder)
+            .Select(v => $"{(v.OptionGroup is null ? "" : v.OptionGroup + ": ")}{v.Name} ({v.PriceCents}){(v.IsActive ? "" : " [inactive]")}")
+            .ToArray();
+
     public async Task<Result<List<CategoryDto>>> GetCategoriesAsync(Guid shopId, Guid userId)
     {
         var ownership = await VerifyOwnershipAsync(shopId, userId);
@@ -84,13 +132,38 @@ public class InventoryService(
         return Result.Success(templates.Select(t => new CategoryTemplateDto(t.Id, t.Name, t.Description)).ToList());
     }
 
-    public async Task<Result<List<MerchantItemDto>>> GetItemsAsync(Guid shopId, Guid userId)
+    public async Task<Result<MerchantItemListResponseDto>> GetItemsAsync(
+        Guid shopId,
+        Guid userId,
+        ItemListQuery? filter = null,
+        string? cursor = null,
+        int limit = 50)
     {
         var ownership = await VerifyOwnershipAsync(shopId, userId);
-        if (!ownership.IsSuccess) return Result.Failure<List<MerchantItemDto>>(ownership.Error!);
+        if (!ownership.IsSuccess) return Result.Failure<MerchantItemListResponseDto>(ownership.Error!);
 
-        var items = await itemRepo.GetByShopIdAsync(shopId);
-        return Result.Success(items.Select(ToItemDto).ToList());
+        filter ??= new ItemListQuery();
+        if (!string.IsNullOrEmpty(cursor))
+        {
+            if (!TryDecodeCursor(cursor, out var afterCreatedAt, out var afterId))
+                return Result.Failure<MerchantItemListResponseDto>("Invalid cursor.");
+            filter = filter with { AfterCreatedAt = afterCreatedAt, AfterId = afterId };
+        }
+
+        // Read one extra row to learn whether another page exists without a separate count query.
+        limit = Math.Clamp(limit, 1, MaxItemPageSize);
+        var items = await itemRepo.ListByShopAsync(shopId, limit + 1, filter);
+        var page = items.Take(limit).ToList();
+        var nextCursor = items.Count > limit ? EncodeCursor(page[^1].CreatedAt, page[^1].Id) : null;
+        return Result.Success(new MerchantItemListResponseDto(page.Select(ToItemDto).ToList(), nextCursor));
+    }
+
+    public async Task<Result<int>> GetLowStockCountAsync(Guid shopId, Guid userId)
+    {
+        var ownership = await VerifyOwnershipAsync(shopId, userId);
+        if (!ownership.IsSuccess) return Result.Failure<int>(ownership.Error!);
+
+        return Result.Success(await itemRepo.CountLowStockAsync(shopId));
     }
 
     public async Task<Result<MerchantItemDto>> GetItemByIdAsync(Guid shopId, Guid itemId, Guid userId)
@@ -117,12 +190,17 @@ public class InventoryService(
             Name = request.Name,
             Description = request.Description,
             PriceCents = request.PriceCents,
+            Unit = NormalizeOptionalText(request.Unit),
+            QuantityStep = NormalizeOptionalText(request.Unit) is null ? 1m : request.QuantityStep,
             TemplateId = request.TemplateId,
             Barcode = NormalizeOptionalText(request.Barcode),
             Sku = NormalizeOptionalText(request.Sku),
             ImageUrl = NormalizeOptionalText(request.ImageUrl),
             IsActive = request.IsActive,
             IsCustom = request.TemplateId is null,
+            TrackStock = request.TrackStock,
+            StockQuantity = request.TrackStock ? request.StockQuantity : 0,
+            ReorderThreshold = request.ReorderThreshold,
             CreatedBy = userId,
         };
 
@@ -131,6 +209,9 @@ public class InventoryService(
         if (request.CategoryIds is { Length: > 0 })
             await itemRepo.SetItemCategoriesAsync(item.Id, request.CategoryIds);
 
+        if (request.Variants is { Length: > 0 })
+            await itemRepo.SetItemVariantsAsync(item.Id, ToVariants(request.Variants));
+
         await itemAuditService.LogItemCreatedAsync(shopId, item.Id, userId, item.Name ?? "", item.PriceCents);
 
         var created = await itemRepo.GetByIdWithCategoriesAsync(item.Id);
@@ -145,6 +226,17 @@ public class InventoryService(
         var item = await itemRepo.GetByIdWithCategoriesAsync(itemId);
         if (item is null || item.ShopId != shopId)
             return Result.Failure<MerchantItemDto>("Item not found.");
+        if (request.StockQuantity is < 0)
+            return Result.Failure<MerchantItemDto>("Stock quantity cannot be negative.");
+
+        // A revert replays an earlier entry's "from" values; it is logged like any edit but tagged with its own source.
+        var auditSource = "manual";
+        if (request.RevertOfAuditLogId is Guid revertedId)
+        {
+            if (!await itemAuditService.IsItemEntryAsync(shopId, itemId, revertedId))
+                return Result.Failure<MerchantItemDto>("Audit entry to revert not found.");
+            auditSource = "revert";
+        }
 
         var changes = new Dictionary<string, object?>();
 
@@ -163,6 +255,22 @@ public class InventoryService(
             changes["price_cents"] = new { from = item.PriceCents, to = request.PriceCents.Value };
             item.PriceCents = request.PriceCents.Value;
         }
+        if (request.Unit is not null)
+        {
+            var newUnit = NormalizeOptionalText(request.Unit);
+            if (newUnit != item.Unit)
+            {
+                changes["unit"] = new { from = item.Unit, to = newUnit };
+                item.Unit = newUnit;
+            }
+        }
+        // Per-piece items always step by one; the step only applies to unit-priced items.
+        var newStep = item.Unit is null ? 1m : request.QuantityStep ?? item.QuantityStep;
+        if (newStep != item.QuantityStep)
+        {
+            changes["quantity_step"] = new { from = item.QuantityStep, to = newStep };
+            item.QuantityStep = newStep;
+        }
         if (request.Barcode is not null)
         {
             var newBarcode = NormalizeOptionalText(request.Barcode);
@@ -195,6 +303,21 @@ public class InventoryService(
             changes["is_active"] = new { from = item.IsActive, to = request.IsActive.Value };
             item.IsActive = request.IsActive.Value;
         }
+        if (request.TrackStock.HasValue && request.TrackStock.Value != item.TrackStock)
+        {
+            changes["track_stock"] = new { from = item.TrackStock, to = request.TrackStock.Value };
+            item.TrackStock = request.TrackStock.Value;
+        }
+        if (request.ReorderThreshold.HasValue)
+        {
+            // A negative threshold clears it, mirroring how empty strings clear optional text fields.
+            decimal? newThreshold = request.ReorderThreshold.Value < 0 ? null : request.ReorderThreshold.Value;
+            if (newThreshold != item.ReorderThreshold)
+            {
+                changes["reorder_threshold"] = new { from = item.ReorderThreshold, to = newThreshold };
+                item.ReorderThreshold = newThreshold;
+            }
+        }
 
         if (request.CategoryIds is not null)
         {
@@ -206,14 +329,45 @@ public class InventoryService(
                 changes["category_ids"] = new { from = previousCategoryIds, to = request.CategoryIds };
         }
 
+        List<MerchantItemVariant>? newVariants = null;
+        if (request.Variants is not null)
+        {
+            newVariants = ToVariants(request.Variants);
+            var previousVariants = DescribeVariants(item.Variants);
+            var nextVariants = DescribeVariants(newVariants);
+            if (!previousVariants.SequenceEqual(nextVariants))
+                changes["variants"] = new { from = previousVariants, to = nextVariants };
+        }
+
         item.LastUpdatedBy = JsonSerializer.SerializeToDocument(new { id = userId.ToString(), role = "merchant" });
         item.UpdatedAt = DateTimeOffset.UtcNow;
+        var stockBeforeSave = item.StockQuantity;
         await itemRepo.UpdateAsync(item);
 
+        // An absolute count only lands if stock has not moved since this request read it; otherwise an order's
+        // reservation would be undone. The app sends edits as StockAdjustment, which cannot conflict.
+        if (request.StockQuantity is decimal stockQuantity && stockQuantity != stockBeforeSave)
+        {
+            if (!await itemRepo.TrySetStockAsync(item, stockBeforeSave, stockQuantity))
+                return Result.Conflict<MerchantItemDto>("Stock changed while the item was being edited. Reload it and try again.");
+            changes["stock_quantity"] = new { from = stockBeforeSave, to = stockQuantity };
+        }
+
+        // Stock edits and reverts are applied as a change in SQL, so sales made since the form loaded are kept.
+        if (request.StockAdjustment is decimal adjustment && adjustment != 0)
+        {
+            var stockBefore = item.StockQuantity;
+            await itemRepo.AdjustStockAsync(item, adjustment);
+            changes["stock_quantity"] = new { from = stockBefore, to = item.StockQuantity };
+        }
+
         if (request.CategoryIds is not null)
             await itemRepo.SetItemCategoriesAsync(itemId, request.CategoryIds);
 
-        await itemAuditService.LogItemFieldChangesAsync(shopId, itemId, userId, changes);
+        if (newVariants is not null)
+            await itemRepo.SetItemVariantsAsync(itemId, newVariants);
+
+        await itemAuditService.LogItemFieldChangesAsync(shopId, itemId, userId, changes, auditSource);
 
         var updated = await itemRepo.GetByIdWithCategoriesAsync(itemId);
         return Result.Success(ToItemDto(updated!));
@@ -250,9 +404,9 @@ public class InventoryService(
         return Result.Success();
     }
 
-    public async Task<Result<List<ItemTemplateDto>>> SearchItemTemplatesAsync(string? search)
+    public async Task<Result<List<ItemTemplateDto>>> SearchItemTemplatesAsync(string? search, string? barcode = null)
     {
-        var templates = await itemRepo.SearchTemplatesAsync(search);
+        var templates = await itemRepo.SearchTemplatesAsync(search, barcode);
         return Result.Success(templates.Select(t => new ItemTemplateDto(t.Id, t.Name, t.Barcode, t.Description, t.ImageUrl, t.DefaultUnit)).ToList());
     }
 
@@ -260,13 +414,29 @@ public class InventoryService(
         Guid shopId,
         Guid userId,
         int limit = 50,
-        Guid? merchantItemId = null)
+        AuditLogQuery? filter = null,
+        string? cursor = null)
     {
         var ownership = await VerifyOwnershipAsync(shopId, userId);
         if (!ownership.IsSuccess) return Result.Failure<MerchantItemAuditLogResponseDto>(ownership.Error!);
 
-        var entries = await itemAuditService.ListEntriesForShopAsync(shopId, limit, merchantItemId);
-        return Result.Success(new MerchantItemAuditLogResponseDto(entries, null));
+        filter ??= new AuditLogQuery();
+        // Audit keys are stored snake_case; accept the camelCase names the app uses for fields too.
+        if (filter.Field is { Length: > 0 } field)
+            filter = filter with { Field = ToSnakeCase(field) };
+        if (!string.IsNullOrEmpty(cursor))
+        {
+            if (!TryDecodeCursor(cursor, out var afterCreatedAt, out var afterId))
+                return Result.Failure<MerchantItemAuditLogResponseDto>("Invalid cursor.");
+            filter = filter with { AfterCreatedAt = afterCreatedAt, AfterId = afterId };
+        }
+
+        // Read one extra entry to learn whether another page exists, as the item list does.
+        limit = Math.Clamp(limit, 1, MaxAuditPageSize);
+        var entries = await itemAuditService.ListEntriesForShopAsync(shopId, limit + 1, filter);
+        var page = entries.Take(limit).ToList();
+        var nextCursor = entries.Count > limit ? EncodeCursor(page[^1].CreatedAt, page[^1].Id) : null;
+        return Result.Success(new MerchantItemAuditLogResponseDto(page, nextCursor));
     }
 
     private async Task<Result<Shop>> VerifyOwnershipAsync(Guid shopId, Guid userId)
@@ -280,9 +450,12 @@ public class InventoryService(
     }
 
     private static MerchantItemDto ToItemDto(MerchantItem i) => new(
-        i.Id, i.ShopId, i.Name, i.Description, i.PriceCents, i.Currency,
+        i.Id, i.ShopId, i.Name, i.Description, i.PriceCents, i.Currency, i.Unit, i.QuantityStep,
         i.ImageUrl, i.Barcode, i.Sku, i.IsActive, i.IsCustom,
-        i.TimesSold, i.TotalRevenueCents,
+        i.TimesSold, i.TotalRevenueCents, i.TrackStock, i.StockQuantity, i.ReorderThreshold,
+        i.Variants.OrderBy(v => v.SortOrder)
+            .Select(v => new MerchantItemVariantDto(v.Id, v.OptionGroup, v.Name, v.PriceCents, v.Sku, v.Barcode, v.IsActive, v.SortOrder))
+            .ToArray(),
         i.ItemCategories.Select(ic => new CategorySummaryDto(ic.MerchantCategoryId, ic.MerchantCategory?.Name ?? "")).ToArray(),
         i.TemplateId, i.CreatedAt, i.UpdatedAt);
 }
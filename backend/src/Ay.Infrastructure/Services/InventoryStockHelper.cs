@@ -0,0 +1,146 @@
+using Ay.Domain.Entities;
+using Ay.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore;
+
+namespace Ay.Infrastructure.Services;
+
+/// <summary>
+/// Stock checks and reservations for merchant items with <see cref="MerchantItem.TrackStock"/> enabled.
+/// Placing an order takes stock with a conditional update so two checkouts cannot oversell the
+/// same units and records it on each line as <see cref="OrderItem.ReservedQuantity"/>; cancelling the
+/// order gives exactly that back. Untracked items are always treated as available.
+/// </summary>
+public static class InventoryStockHelper
+{
+    public const string NotFound = "not_found";
+    public const string Inactive = "inactive";
+    public const string OutOfStock = "out_of_stock";
+    public const string InsufficientQuantity = "insufficient_quantity";
+
+    /// <summary>Returns a reason code when <paramref name="quantity"/> cannot be sold, otherwise null.</summary>
+    public static string? GetShortfallReason(MerchantItem? item, decimal quantity)
+    {
+        if (item is null) return NotFound;
+        if (!item.IsActive) return Inactive;
+        if (!item.TrackStock) return null;
+        if (item.StockQuantity <= 0) return OutOfStock;
+        if (item.StockQuantity < quantity) return InsufficientQuantity;
+        return null;
+    }
+
+    public static string DescribeShortfall(MerchantItem? item, string reason)
+    {
+        var name = item?.Name ?? "unknown";
+        return reason switch
+        {
+            OutOfStock => $"Item '{name}' is out of stock.",
+            InsufficientQuantity => $"Only {item!.StockQuantity:0.###} of '{name}' left in stock.",
+            _ => $"Item '{name}' is not available.",
+        };
+    }
+
+    /// <summary>
+    /// Decrements stock for a tracked item only if enough is left. Returns false when another
+    /// order took the remaining units first. Untracked items are a no-op and return true.
+    /// </summary>
+    public static async Task<bool> TryReserveAsync(AppDbContext context, MerchantItem item, decimal quantity)
+    {
+        if (!item.TrackStock) return true;
+
+        var now = DateTimeOffset.UtcNow;
+        var updated = await context.MerchantItems
+            .Where(i => i.Id == item.Id && i.TrackStock && i.StockQuantity >= quantity)
+            .ExecuteUpdateAsync(s => s
+                .SetProperty(i => i.StockQuantity, i => i.StockQuantity - quantity)
+                .SetProperty(i => i.UpdatedAt, now));
+        return updated == 1;
+    }
+
+    /// <summary>
+    /// Moves the stock a line holds for an item from <paramref name="held"/> to <paramref name="target"/>.
+    /// Stock no longer needed goes back; more is taken with the same conditional update as checkout, so
+    /// this returns false when too little is left. A deleted item has nothing to adjust.
+    /// </summary>
+    public static async Task<bool> TryAdjustAsync(AppDbContext context, Guid merchantItemId, decimal held, decimal target)
+    {
+        if (target < held)
+        {
+            await ReturnAsync(context, merchantItemId, held - target);
+            return true;
+        }
+        if (target == held) return true;
+
+        var item = await context.MerchantItems.AsNoTracking().FirstOrDefaultAsync(i => i.Id == merchantItemId);
+        return item is null || await TryReserveAsync(context, item, target - held);
+    }
+
+    /// <summary>Returns the stock held for a line's accepted substitute, if it holds any.</summary>
+    public static async Task ReleaseSubstituteAsync(AppDbContext context, OrderItem line)
+    {
+        if (line.SubstituteMerchantItemId is Guid itemId && line.SubstituteReservedQuantity is decimal held)
+            await ReturnAsync(context, itemId, held);
+        line.SubstituteReservedQuantity = null;
+    }
+
+    /// <summary>True when a tracked item is at or below its reorder threshold.</summary>
+    public static bool IsLowStock(MerchantItem item) =>
+        item.TrackStock && item.ReorderThreshold is { } threshold && item.StockQuantity <= threshold;
+
+    /// <summary>
+    /// After a reservation, returns the items whose stock just went from above their reorder
+    /// threshold to at or below it, with the quantity left. Items already low before the order
+    /// are skipped so merchants get one alert per crossing rather than one per order.
+    /// </summary>
+    public static async Task<List<(MerchantItem Item, decimal Remaining)>> GetNewlyLowStockAsync(
+        AppDbContext context,
+        IEnumerable<MerchantItem> reservedItems,
+        IReadOnlyDictionary<Guid, decimal> reservedQuantities)
+    {
+        var candidates = reservedItems.Where(i => i.TrackStock && i.ReorderThreshold.HasValue).ToList();
+        if (candidates.Count == 0) return [];
+
+        var ids = candidates.Select(i => i.Id).ToList();
+        var remaining = await context.MerchantItems.AsNoTracking()
+            .Where(i => ids.Contains(i.Id))
+            .ToDictionaryAsync(i => i.Id, i => i.StockQuantity);
+
+        return candidates
+            .Where(i => remaining.ContainsKey(i.Id))
+            .Select(i => (Item: i, Remaining: remaining[i.Id]))
+            .Where(x => x.Remaining <= x.Item.ReorderThreshold!.Value
+                && x.Remaining + reservedQuantities[x.Item.Id] > x.Item.ReorderThreshold.Value)
+            .ToList();
+    }
+
+    /// <summary>
+    /// Returns the stock an order's lines still hold to their items and clears the reservations. Lines
+    /// placed before stock tracking, or for untracked items, hold nothing and are left alone.
+    /// </summary>
+    public static async Task ReleaseAsync(AppDbContext context, Guid orderId)
+    {
+        var lines = await context.OrderItems
+            .Where(oi => oi.OrderId == orderId && oi.MerchantItemId != null && oi.ReservedQuantity != null)
+            .GroupBy(oi => oi.MerchantItemId!.Value)
+            .Select(g => new { MerchantItemId = g.Key, Quantity = g.Sum(oi => oi.ReservedQuantity!.Value) })
+            .ToListAsync();
+
+        foreach (var line in lines)
+            await ReturnAsync(context, line.MerchantItemId, line.Quantity);
+
+        await context.OrderItems
+            .Where(oi => oi.OrderId == orderId && oi.ReservedQuantity != null)
+            .ExecuteUpdateAsync(s => s.SetProperty(oi => oi.ReservedQuantity, (decimal?)null));
+    }
+
+    private static async Task ReturnAsync(AppDbContext context, Guid merchantItemId, decimal quantity)
+    {
+        if (quantity <= 0) return;
+
+        var now = DateTimeOffset.UtcNow;
+        await context.MerchantItems
+            .Where(i => i.Id == merchantItemId && i.TrackStock)
+            .ExecuteUpdateAsync(s => s
+                .SetProperty(i => i.StockQuantity, i => i.StockQuantity + quantity)
+                .SetProperty(i => i.UpdatedAt, now));
+    }
+}
@@ -15,10 +15,12 @@ public class MerchantItemAuditService(IAuditLogRepository auditLogRepository) :
     {
         if (changes.ContainsKey("price_cents")) return "price_updated";
         if (changes.ContainsKey("is_active")) return "item_deactivated";
+        if (changes.ContainsKey("stock_quantity") || changes.ContainsKey("track_stock") || changes.ContainsKey("reorder_threshold"))
+            return "stock_updated";
         return "name_updated";
     }
 
-    public Task LogItemCreatedAsync(Guid shopId, Guid itemId, Guid userId, string name, int priceCents)
+    public Task LogItemCreatedAsync(Guid shopId, Guid itemId, Guid userId, string name, int priceCents, string source = "manual")
     {
         var log = new AuditLog
         {
@@ -28,12 +30,12 @@ public class MerchantItemAuditService(IAuditLogRepository auditLogRepository) :
             Actor = ActorDocument(userId),
             ActionType = "item_created",
             ChangedFields = JsonSerializer.SerializeToDocument(new { name, price_cents = priceCents }),
-            Source = "manual",
+            Source = source,
         };
         return auditLogRepository.LogAsync(log);
     }
 
-    public Task LogItemFieldChangesAsync(Guid shopId, Guid itemId, Guid userId, IReadOnlyDictionary<string, object?> changes)
+    public Task LogItemFieldChangesAsync(Guid shopId, Guid itemId, Guid userId, IReadOnlyDictionary<string, object?> changes, string source = "manual")
     {
         if (changes.Count == 0)
             return Task.CompletedTask;
@@ -47,7 +49,7 @@ public class MerchantItemAuditService(IAuditLogRepository auditLogRepository) :
             Actor = ActorDocument(userId),
             ActionType = ResolveUpdateActionType(changes),
             ChangedFields = JsonSerializer.SerializeToDocument(dict),
-            Source = "manual",
+            Source = source,
         };
         return auditLogRepository.LogAsync(log);
     }
@@ -82,9 +84,9 @@ public class MerchantItemAuditService(IAuditLogRepository auditLogRepository) :
         return auditLogRepository.LogAsync(log);
     }
 
-    public async Task<IReadOnlyList<MerchantItemAuditLogEntryDto>> ListEntriesForShopAsync(Guid shopId, int limit, Guid? merchantItemId = null)
+    public async Task<IReadOnlyList<MerchantItemAuditLogEntryDto>> ListEntriesForShopAsync(Guid shopId, int limit, AuditLogQuery? filter = null)
     {
-        var rows = await auditLogRepository.ListByShopAsync(shopId, limit, merchantItemId);
+        var rows = await auditLogRepository.ListByShopAsync(shopId, limit, filter);
         return rows.ConvertAll(log => new MerchantItemAuditLogEntryDto(
             log.Id,
             log.ShopId,
@@ -95,4 +97,10 @@ public class MerchantItemAuditService(IAuditLogRepository auditLogRepository) :
             log.Source,
             log.CreatedAt));
     }
+
+    public async Task<bool> IsItemEntryAsync(Guid shopId, Guid itemId, Guid auditLogId)
+    {
+        var log = await auditLogRepository.GetByIdAsync(auditLogId);
+        return log is not null && log.ShopId == shopId && log.MerchantItemId == itemId;
+    }
 }
@@ -4,10 +4,12 @@ using Ay.Application.Merchant.Services;
 using Ay.Application.Notifications;
 using Ay.Domain.Common;
 using Ay.Domain.Entities;
+using Ay.Domain.Enums;
 using Ay.Domain.Interfaces;
 using Ay.Infrastructure.Persistence;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
+using Npgsql;
 
 namespace Ay.Infrastructure.Services;
 
@@ -28,13 +30,26 @@ public class MerchantOrderService(
         ["out_for_delivery"] = ["delivered"],
     };
 
-    public async Task<Result<List<MerchantOrderDto>>> GetShopOrdersAsync(Guid shopId, Guid userId, string? statusFilter = null)
+    private const int MaxIdempotencyKeyLength = 64;
+
+    public async Task<Result<MerchantOrderListResponseDto>> GetShopOrdersAsync(
+        Guid shopId,
+        Guid userId,
+        OrderListQuery filter,
+        string? cursor = null,
+        int limit = 50)
     {
         var ownership = await VerifyOwnershipAsync(shopId, userId);
-        if (!ownership.IsSuccess) return Result.Failure<List<MerchantOrderDto>>(ownership.Error!);
-
-        var orders = await orderRepo.GetByShopIdAsync(shopId, statusFilter);
-        return Result.Success(orders.Select(ToDto).ToList());
+        if (!ownership.IsSuccess) return Result.Failure<MerchantOrderListResponseDto>(ownership.Error!);
+        if (!OrderListCursor.TryApply(filter, cursor, out filter))
+            return Result.Failure<MerchantOrderListResponseDto>("Invalid sort, date field or cursor.");
+
+        // Read one extra row to learn whether another page exists without a separate count query.
+        limit = Math.Clamp(limit, 1, OrderListCursor.MaxPageSize);
+        var orders = await orderRepo.ListByShopAsync(shopId, limit + 1, filter);
+        var page = orders.Take(limit).ToList();
+        var nextCursor = orders.Count > limit ? OrderListCursor.Encode(page[^1], filter.Sort) : null;
+        return Result.Success(new MerchantOrderListResponseDto(page.Select(ToDto).ToList(), nextCursor));
     }
 
     public async Task<Result<MerchantOrderDto>> GetOrderByIdAsync(Guid shopId, Guid orderId, Guid userId)
@@ -49,7 +64,27 @@ public class MerchantOrderService(
         return Result.Success(ToDto(order));
     }
 
-    public async Task<Result> ConfirmOrderAsync(Guid shopId, Guid orderId, Guid userId)
+    /// <summary>
+    /// Finds the shop an order belongs to, for the order-id-only routes. Orders in another merchant's shop are
+    /// reported as not found so their ids cannot be probed.
+    /// </summary>
+    public async Task<Result<Guid>> GetOrderShopIdAsync(Guid orderId, Guid userId)
+    {
+        var merchant = await merchantRepo.GetByUserIdAsync(userId);
+        if (merchant is null) return Result.Failure<Guid>("Merchant account not found.");
+
+        var order = await orderRepo.GetByIdAsync(orderId);
+        if (order?.ShopId is not Guid shopId)
+            return Result.Failure<Guid>("Order not found.");
+
+        var shop = await shopRepo.GetByIdAsync(shopId);
+        if (shop is null || shop.MerchantId != merchant.Id)
+            return Result.Failure<Guid>("Order not found.");
+
+        return Result.Success(shopId);
+    }
+
+    public async Task<Result> ConfirmOrderAsync(Guid shopId, Guid orderId, Guid userId, string? idempotencyKey = null, string? autoAcceptedRule = null)
     {
         var ownership = await VerifyOwnershipAsync(shopId, userId);
         if (!ownership.IsSuccess) return Result.Failure(ownership.Error!);
@@ -58,15 +93,30 @@ public class MerchantOrderService(
         if (order is null || order.ShopId != shopId)
             return Result.Failure("Order not found.");
 
+        if (idempotencyKey is { Length: > MaxIdempotencyKeyLength })
+            return Result.Failure("Idempotency key is too long.");
+        if (await IsReplayAsync(orderId, idempotencyKey))
+            return Result.Success();
+
         if (!IsValidTransition(order.Status, "confirmed"))
             return Result.Failure($"Cannot transition from '{order.Status}' to 'confirmed'.");
 
+        // The customer may be cancelling right now; confirming only wins if the order is still pending.
+        await using var transaction = await context.Database.BeginTransactionAsync();
+        if (!await OrderTransitionHelper.TryTransitionAsync(context, orderId, order.Status, "confirmed"))
+            return await IsReplayAsync(orderId, idempotencyKey)
+                ? Result.Success()
+                : Result.Conflict("The order changed before it could be confirmed. Reload it and try again.");
         order.Status = "confirmed";
         order.ConfirmedAt = DateTimeOffset.UtcNow;
         order.ConfirmationTimeSeconds = (int)(order.ConfirmedAt.Value - order.PlacedAt).TotalSeconds;
+        order.AutoAcceptedRule = autoAcceptedRule;
         order.UpdatedAt = DateTimeOffset.UtcNow;
+        OrderSlaHelper.RecordIfBreached(context, order, ownership.Value!, OrderSlaHelper.Confirmation, order.ConfirmationTimeSeconds);
 
-        await orderRepo.UpdateAsync(order);
+        AddReceipt(orderId, userId, "confirm", idempotencyKey);
+        if (!await TrySaveActionAsync(order)) return Result.Success();
+        await transaction.CommitAsync();
         logger.LogInformation("Order {OrderId} confirmed", orderId);
 
         await orderHub.NotifyOrderUpdatedAsync(orderId, "confirmed");
@@ -91,7 +141,7 @@ public class MerchantOrderService(
         return Result.Success();
     }
 
-    public async Task<Result> DispatchOrderAsync(Guid shopId, Guid orderId, Guid userId, Guid runnerId)
+    public async Task<Result> DispatchOrderAsync(Guid shopId, Guid orderId, Guid userId, Guid runnerId, string? idempotencyKey = null)
     {
         var ownership = await VerifyOwnershipAsync(shopId, userId);
         if (!ownership.IsSuccess) return Result.Failure(ownership.Error!);
@@ -100,21 +150,36 @@ public class MerchantOrderService(
         if (order is null || order.ShopId != shopId)
             return Result.Failure("Order not found.");
 
+        if (idempotencyKey is { Length: > MaxIdempotencyKeyLength })
+            return Result.Failure("Idempotency key is too long.");
+        if (await IsReplayAsync(orderId, idempotencyKey))
+            return Result.Success();
+
         if (!IsValidTransition(order.Status, "out_for_delivery"))
             return Result.Failure($"Cannot transition from '{order.Status}' to 'out_for_delivery'.");
+        if (await context.OrderItems.AnyAsync(oi => oi.OrderId == orderId && oi.SubstitutionStatus == OrderPackingHelper.SubstitutionProposed))
+            return Result.Failure("The customer has not answered a substitution yet.");
 
         var runner = await runnerRepo.GetByIdAsync(runnerId);
         if (runner is null || runner.ShopId != shopId)
             return Result.Failure("Runner not found or does not belong to this shop.");
 
+        await using var transaction = await context.Database.BeginTransactionAsync();
+        if (!await OrderTransitionHelper.TryTransitionAsync(context, orderId, order.Status, "out_for_delivery"))
+            return await IsReplayAsync(orderId, idempotencyKey)
+                ? Result.Success()
+                : Result.Conflict("The order changed before it could be dispatched. Reload it and try again.");
         order.Status = "out_for_delivery";
         order.OutForDeliveryAt = DateTimeOffset.UtcNow;
         order.DeliveryRunnerId = runnerId;
         if (order.ConfirmedAt.HasValue)
             order.PreparationTimeSeconds = (int)(order.OutForDeliveryAt.Value - order.ConfirmedAt.Value).TotalSeconds;
         order.UpdatedAt = DateTimeOffset.UtcNow;
+        OrderSlaHelper.RecordIfBreached(context, order, ownership.Value!, OrderSlaHelper.Preparation, order.PreparationTimeSeconds);
 
-        await orderRepo.UpdateAsync(order);
+        AddReceipt(orderId, userId, "dispatch", idempotencyKey);
+        if (!await TrySaveActionAsync(order)) return Result.Success();
+        await transaction.CommitAsync();
         logger.LogInformation("Order {OrderId} dispatched with runner {RunnerId}", orderId, runnerId);
 
         await orderHub.NotifyOrderUpdatedAsync(orderId, "out_for_delivery");
@@ -139,7 +204,7 @@ public class MerchantOrderService(
         return Result.Success();
     }
 
-    public async Task<Result> MarkDeliveredAsync(Guid shopId, Guid orderId, Guid userId)
+    public async Task<Result> MarkDeliveredAsync(Guid shopId, Guid orderId, Guid userId, string? idempotencyKey = null)
     {
         var ownership = await VerifyOwnershipAsync(shopId, userId);
         if (!ownership.IsSuccess) return Result.Failure(ownership.Error!);
@@ -148,14 +213,25 @@ public class MerchantOrderService(
         if (order is null || order.ShopId != shopId)
             return Result.Failure("Order not found.");
 
+        if (idempotencyKey is { Length: > MaxIdempotencyKeyLength })
+            return Result.Failure("Idempotency key is too long.");
+        if (await IsReplayAsync(orderId, idempotencyKey))
+            return Result.Success();
+
         if (!IsValidTransition(order.Status, "delivered"))
             return Result.Failure($"Cannot transition from '{order.Status}' to 'delivered'.");
 
+        await using var transaction = await context.Database.BeginTransactionAsync();
+        if (!await OrderTransitionHelper.TryTransitionAsync(context, orderId, order.Status, "delivered"))
+            return await IsReplayAsync(orderId, idempotencyKey)
+                ? Result.Success()
+                : Result.Conflict("The order changed before it could be marked delivered. Reload it and try again.");
         order.Status = "delivered";
         order.DeliveredAt = DateTimeOffset.UtcNow;
         if (order.OutForDeliveryAt.HasValue)
             order.DeliveryTimeSeconds = (int)(order.DeliveredAt.Value - order.OutForDeliveryAt.Value).TotalSeconds;
         order.UpdatedAt = DateTimeOffset.UtcNow;
+        OrderSlaHelper.RecordIfBreached(context, order, ownership.Value!, OrderSlaHelper.Delivery, order.DeliveryTimeSeconds);
 
         foreach (var oi in order.OrderItems)
         {
@@ -164,14 +240,16 @@ public class MerchantOrderService(
                 var item = await context.MerchantItems.FindAsync(oi.MerchantItemId.Value);
                 if (item is not null)
                 {
-                    item.TimesSold += oi.Quantity;
+                    // Weighed lines count as one sale; TimesSold is a whole-number popularity counter.
+                    item.TimesSold += oi.Unit is null ? (int)oi.Quantity : 1;
                     item.TotalRevenueCents += oi.SubtotalCents;
                 }
             }
         }
 
-        await orderRepo.UpdateAsync(order);
-        await context.SaveChangesAsync();
+        AddReceipt(orderId, userId, "deliver", idempotencyKey);
+        if (!await TrySaveActionAsync(order)) return Result.Success();
+        await transaction.CommitAsync();
         logger.LogInformation("Order {OrderId} delivered", orderId);
 
         await orderHub.NotifyOrderUpdatedAsync(orderId, "delivered");
@@ -196,7 +274,7 @@ public class MerchantOrderService(
         return Result.Success();
     }
 
-    public async Task<Result> CancelOrderAsync(Guid shopId, Guid orderId, Guid userId, string reason)
+    public async Task<Result> CancelOrderAsync(Guid shopId, Guid orderId, Guid userId, string reasonCode, string? note, string? idempotencyKey = null)
     {
         var ownership = await VerifyOwnershipAsync(shopId, userId);
         if (!ownership.IsSuccess) return Result.Failure(ownership.Error!);
@@ -205,16 +283,34 @@ public class MerchantOrderService(
         if (order is null || order.ShopId != shopId)
             return Result.Failure("Order not found.");
 
+        if (idempotencyKey is { Length: > MaxIdempotencyKeyLength })
+            return Result.Failure("Idempotency key is too long.");
+        if (await IsReplayAsync(orderId, idempotencyKey))
+            return Result.Success();
+
         if (!IsValidTransition(order.Status, "cancelled"))
             return Result.Failure($"Cannot transition from '{order.Status}' to 'cancelled'.");
 
+        // The customer may be cancelling the same order right now; only one cancellation wins.
+        await using var transaction = await context.Database.BeginTransactionAsync();
+        if (!await OrderCancellationHelper.TryCancelPendingAsync(context, orderId))
+            return await IsReplayAsync(orderId, idempotencyKey)
+                ? Result.Success()
+                : Result.Conflict("Order is no longer pending.");
         order.Status = "cancelled";
         order.CancelledAt = DateTimeOffset.UtcNow;
-        order.CancellationReason = reason;
+        order.CancellationReasonCode = reasonCode;
+        order.CancellationReason = string.IsNullOrWhiteSpace(note) ? null : note.Trim();
         order.CancelledBy = userId;
+        order.CancelledByRole = CancellationActors.Merchant;
         order.UpdatedAt = DateTimeOffset.UtcNow;
+        // Only pending orders can be cancelled, so a late cancel counts against the confirmation target.
+        OrderSlaHelper.RecordIfBreached(context, order, ownership.Value!, OrderSlaHelper.Confirmation,
+            (int)(order.CancelledAt.Value - order.PlacedAt).TotalSeconds);
 
-        await orderRepo.UpdateAsync(order);
+        AddReceipt(orderId, userId, "cancel", idempotencyKey);
+        if (!await TrySaveActionAsync(order)) return Result.Success();
+        await transaction.CommitAsync();
         logger.LogInformation("Order {OrderId} cancelled by merchant", orderId);
 
         await orderHub.NotifyOrderUpdatedAsync(orderId, "cancelled");
@@ -239,6 +335,162 @@ public class MerchantOrderService(
         return Result.Success();
     }
 
+    public async Task<Result> RecordWeighedQuantityAsync(Guid shopId, Guid orderId, Guid orderItemId, Guid userId, decimal weighedQuantity)
+    {
+        var ownership = await VerifyOwnershipAsync(shopId, userId);
+        if (!ownership.IsSuccess) return Result.Failure(ownership.Error!);
+
+        var order = await orderRepo.GetByIdWithDetailsAsync(orderId);
+        if (order is null || order.ShopId != shopId)
+            return Result.Failure("Order not found.");
+        if (order.Status is not ("pending" or "confirmed"))
+            return Result.Failure("Weights can only be entered before the order is dispatched.");
+
+        var line = order.OrderItems.FirstOrDefault(oi => oi.Id == orderItemId);
+        if (line is null) return Result.Failure("Order item not found.");
+        if (line.Unit is null) return Result.Failure("Only items sold by weight or measure can be weighed.");
+
+        line.WeighedQuantity = weighedQuantity;
+
+        // The line holds stock for what was weighed: an over-weight takes the extra, an under-weight gives it back.
+        await using var transaction = await context.Database.BeginTransactionAsync();
+        var stockError = await HoldSoldQuantityAsync(line);
+        if (stockError is not null) return Result.Conflict(stockError);
+
+        OrderPackingHelper.RecalculateLine(line);
+        OrderPackingHelper.RecalculateTotals(order);
+
+        await orderRepo.UpdateAsync(order);
+        await context.SaveChangesAsync();
+        await transaction.CommitAsync();
+        logger.LogInformation("Order {OrderId} item {OrderItemId} weighed at {Quantity} {Unit}", orderId, orderItemId, weighedQuantity, line.Unit);
+
+        await orderHub.NotifyOrderUpdatedAsync(orderId, order.Status);
+        return Result.Success();
+    }
+
+    public async Task<Result> UpdatePackingAsync(Guid shopId, Guid orderId, Guid orderItemId, Guid userId, string? status, decimal? packedQuantity)
+    {
+        var (order, line, error) = await GetPackingLineAsync(shopId, orderId, orderItemId, userId);
+        if (error is not null) return Result.Failure(error);
+
+        if (!OrderPackingHelper.IsValidPackingStatus(status))
+            return Result.Failure("Status must be packed, short or unavailable.");
+        if (status == OrderPackingHelper.Short)
+        {
+            if (line!.Unit is not null)
+                return Result.Failure("Enter the weighed amount for items sold by weight or measure.");
+            if (packedQuantity is not decimal found || found <= 0 || found >= line.Quantity)
+                return Result.Failure("A short item needs a packed quantity below the ordered quantity.");
+            if (found != decimal.Truncate(found))
+                return Result.Failure($"'{line.ItemName}' is sold per piece; enter a whole number.");
+        }
+
+        await using var transaction = await context.Database.BeginTransactionAsync();
+        line!.PackingStatus = status;
+        line.PackedQuantity = status == OrderPackingHelper.Short ? packedQuantity : null;
+        // The line keeps only the stock it sells; packing it in full again takes back what was released.
+        var stockError = await HoldSoldQuantityAsync(line);
+        if (stockError is not null) return Result.Conflict(stockError);
+        // A line packed in full no longer needs the substitute it was offered.
+        if (status is null or OrderPackingHelper.Packed)
+        {
+            await InventoryStockHelper.ReleaseSubstituteAsync(context, line);
+            OrderPackingHelper.ClearSubstitution(line);
+        }
+
+        OrderPackingHelper.RecalculateLine(line);
+        OrderPackingHelper.RecalculateTotals(order!);
+
+        await orderRepo.UpdateAsync(order!);
+        await transaction.CommitAsync();
+        logger.LogInformation("Order {OrderId} item {OrderItemId} packing set to {Status}", orderId, orderItemId, status ?? "unchecked");
+
+        await orderHub.NotifyOrderUpdatedAsync(orderId, order!.Status);
+        await orderHub.NotifyShopOrderUpdatedAsync(shopId, orderId, order.Status);
+        return Result.Success();
+    }
+
+    public async Task<Result> ProposeSubstitutionAsync(Guid shopId, Guid orderId, Guid orderItemId, Guid userId, Guid merchantItemId, decimal quantity)
+    {
+        var (order, line, error) = await GetPackingLineAsync(shopId, orderId, orderItemId, userId);
+        if (error is not null) return Result.Failure(error);
+
+        if (line!.PackingStatus is not (OrderPackingHelper.Short or OrderPackingHelper.Unavailable))
+            return Result.Failure("Mark the item short or unavailable before offering a substitute.");
+
+        var item = await context.MerchantItems.Include(i => i.Variants)
+            .FirstOrDefaultAsync(i => i.Id == merchantItemId && i.ShopId == shopId);
+        if (item is null || !item.IsActive) return Result.Failure("Substitute item not found.");
+        if (item.Id == line.MerchantItemId) return Result.Failure("Choose a different item as the substitute.");
+        if (item.Variants.Any(v => v.IsActive)) return Result.Failure("Items with options cannot be offered as substitutes.");
+
+        var quantityError = UnitPricingHelper.ValidateQuantity(item, quantity);
+        if (quantityError is not null) return Result.Failure(quantityError);
+        var shortfall = InventoryStockHelper.GetShortfallReason(item, quantity);
+        if (shortfall is not null) return Result.Failure(InventoryStockHelper.DescribeShortfall(item, shortfall));
+
+        // Stock is taken for the substitute only once the customer accepts; a replaced offer gives its back.
+        await using var transaction = await context.Database.BeginTransactionAsync();
+        await InventoryStockHelper.ReleaseSubstituteAsync(context, line);
+        line.SubstituteMerchantItemId = item.Id;
+        line.SubstituteItemName = item.Name;
+        line.SubstituteItemPriceCents = item.PriceCents;
+        line.SubstituteQuantity = quantity;
+        line.SubstituteUnit = item.Unit;
+        line.SubstitutionStatus = OrderPackingHelper.SubstitutionProposed;
+
+        OrderPackingHelper.RecalculateLine(line);
+        OrderPackingHelper.RecalculateTotals(order!);
+
+        await orderRepo.UpdateAsync(order!);
+        await transaction.CommitAsync();
+        logger.LogInformation("Order {OrderId} item {OrderItemId} substitute {MerchantItemId} proposed", orderId, orderItemId, item.Id);
+
+        await orderHub.NotifyOrderUpdatedAsync(orderId, order!.Status);
+        await orderHub.NotifyShopOrderUpdatedAsync(shopId, orderId, order.Status);
+        var substitutionTitle = "Substitute Suggested";
+        var substitutionBody = $"{line.ItemName} is not fully available for order #{order.OrderNumber}. Would you like {item.Name} instead?";
+        _ = notifications.SendAsync(
+            order.UserId,
+            substitutionTitle,
+            substitutionBody,
+            new Dictionary<string, string>
+            {
+                ["type"] = "order_substitution",
+                ["orderId"] = orderId.ToString(),
+                ["status"] = order.Status,
+                ["role"] = "consumer",
+                ["notificationRole"] = "consumer",
+                ["title"] = substitutionTitle,
+                ["body"] = substitutionBody,
+            },
+            role: "consumer");
+
+        return Result.Success();
+    }
+
+    public async Task<Result> WithdrawSubstitutionAsync(Guid shopId, Guid orderId, Guid orderItemId, Guid userId)
+    {
+        var (order, line, error) = await GetPackingLineAsync(shopId, orderId, orderItemId, userId);
+        if (error is not null) return Result.Failure(error);
+        if (line!.SubstitutionStatus is null) return Result.Failure("This item has no substitute.");
+
+        await using var transaction = await context.Database.BeginTransactionAsync();
+        await InventoryStockHelper.ReleaseSubstituteAsync(context, line);
+        OrderPackingHelper.ClearSubstitution(line);
+        OrderPackingHelper.RecalculateLine(line);
+        OrderPackingHelper.RecalculateTotals(order!);
+
+        await orderRepo.UpdateAsync(order!);
+        await transaction.CommitAsync();
+        logger.LogInformation("Order {OrderId} item {OrderItemId} substitute withdrawn", orderId, orderItemId);
+
+        await orderHub.NotifyOrderUpdatedAsync(orderId, order!.Status);
+        await orderHub.NotifyShopOrderUpdatedAsync(shopId, orderId, order.Status);
+        return Result.Success();
+    }
+
     public async Task<Result<OrderAnalyticsDto>> GetAnalyticsAsync(Guid shopId, Guid userId)
     {
         var ownership = await VerifyOwnershipAsync(shopId, userId);
@@ -261,10 +513,54 @@ public class MerchantOrderService(
         var statusBreakdown = orders.GroupBy(o => o.Status)
             .ToDictionary(g => g.Key, g => g.Count());
 
+        // Cancellations from before reason codes existed are counted as "other".
+        var cancellationBreakdown = orders.Where(o => o.Status == "cancelled")
+            .GroupBy(o => (Code: o.CancellationReasonCode ?? CancellationReasons.Other, o.CancelledByRole))
+            .Select(g => new CancellationBreakdownDto(g.Key.Code, g.Key.CancelledByRole, g.Count()))
+            .OrderByDescending(b => b.Count)
+            .ToList();
+
+        var slaBreaches = await context.OrderSlaBreaches.Where(b => b.ShopId == shopId)
+            .GroupBy(b => b.Stage)
+            .Select(g => new { Stage = g.Key, Count = g.Count() })
+            .ToDictionaryAsync(g => g.Stage, g => g.Count);
+
         return Result.Success(new OrderAnalyticsDto(
             totalOrders, totalRevenue, avgOrder,
             (int?)avgConfirmation, (int?)avgPreparation, (int?)avgDelivery,
-            statusBreakdown));
+            statusBreakdown, slaBreaches, cancellationBreakdown));
+    }
+
+    /// <summary>
+    /// Loads a line of a confirmed order for packing. Packing starts once the order is confirmed and ends at dispatch.
+    /// </summary>
+    private async Task<(Order? Order, OrderItem? Line, string? Error)> GetPackingLineAsync(Guid shopId, Guid orderId, Guid orderItemId, Guid userId)
+    {
+        var ownership = await VerifyOwnershipAsync(shopId, userId);
+        if (!ownership.IsSuccess) return (null, null, ownership.Error);
+
+        var order = await orderRepo.GetByIdWithDetailsAsync(orderId);
+        if (order is null || order.ShopId != shopId) return (null, null, "Order not found.");
+        if (order.Status != "confirmed") return (null, null, "Items can only be packed once the order is confirmed.");
+
+        var line = order.OrderItems.FirstOrDefault(oi => oi.Id == orderItemId);
+        if (line is null) return (null, null, "Order item not found.");
+        return (order, line, null);
+    }
+
+    /// <summary>
+    /// Moves the stock a line holds to <see cref="OrderPackingHelper.SoldQuantity"/>. Returns an error when more is
+    /// needed than is left; lines that never reserved stock (untracked items) are left alone.
+    /// </summary>
+    private async Task<string?> HoldSoldQuantityAsync(OrderItem line)
+    {
+        if (line.MerchantItemId is not Guid itemId || line.ReservedQuantity is not decimal held) return null;
+
+        var target = OrderPackingHelper.SoldQuantity(line);
+        if (!await InventoryStockHelper.TryAdjustAsync(context, itemId, held, target))
+            return $"'{line.ItemName}' does not have enough stock left for {target:0.###} {line.Unit ?? "pcs"}.";
+        line.ReservedQuantity = target;
+        return null;
     }
 
     private static bool IsValidTransition(string from, string to)
@@ -272,6 +568,53 @@ public class MerchantOrderService(
         return ValidTransitions.TryGetValue(from, out var allowed) && allowed.Contains(to);
     }
 
+    /// <summary>
+    /// True when an action with this key was already applied to the order; the replay is acknowledged as a success
+    /// so an offline client can safely resend anything it is unsure reached the server. Also checked when the order
+    /// moved under a request, since a concurrent copy of the same request may be what moved it.
+    /// </summary>
+    private async Task<bool> IsReplayAsync(Guid orderId, string? idempotencyKey)
+    {
+        if (string.IsNullOrEmpty(idempotencyKey)) return false;
+        return await context.OrderActionReceipts.AnyAsync(r => r.OrderId == orderId && r.IdempotencyKey == idempotencyKey);
+    }
+
+    /// <summary>
+    /// Saves the action together with its receipt. Returns false when a request with the same key got there first and
+    /// the receipt's unique index refused this copy; that request's result stands and this one is its replay.
+    /// </summary>
+    private async Task<bool> TrySaveActionAsync(Order order)
+    {
+        try
+        {
+            await orderRepo.UpdateAsync(order);
+            return true;
+        }
+        catch (DbUpdateException ex) when (ex.InnerException is PostgresException
+        {
+            SqlState: PostgresErrorCodes.UniqueViolation,
+            ConstraintName: "IX_order_action_receipts_OrderId_IdempotencyKey",
+        })
+        {
+            logger.LogInformation("Order {OrderId} action was already applied by a concurrent request", order.Id);
+            return false;
+        }
+    }
+
+    // Tracked on the shared context, so it is saved together with the status change.
+    private void AddReceipt(Guid orderId, Guid userId, string action, string? idempotencyKey)
+    {
+        if (string.IsNullOrEmpty(idempotencyKey)) return;
+        context.OrderActionReceipts.Add(new OrderActionReceipt
+        {
+            Id = Guid.NewGuid(),
+            IdempotencyKey = idempotencyKey,
+            OrderId = orderId,
+            UserId = userId,
+            Action = action,
+        });
+    }
+
     private async Task<Result<Shop>> VerifyOwnershipAsync(Guid shopId, Guid userId)
     {
         var merchant = await merchantRepo.GetByUserIdAsync(userId);
@@ -297,9 +640,20 @@ public class MerchantOrderService(
             deliveryAddr,
             o.OrderItems.Select(oi => new OrderItemDto(
                 oi.Id, oi.ItemName, oi.ItemDescription, oi.ItemImageUrl,
-                oi.ItemPriceCents, oi.Quantity, oi.SubtotalCents)).ToArray(),
+                oi.ItemPriceCents, oi.Quantity, oi.SubtotalCents, oi.VariantId, oi.VariantName, oi.Unit, oi.WeighedQuantity,
+                oi.PackingStatus, oi.PackedQuantity, ToSubstitutionDto(oi))).ToArray(),
             o.DeliveryRunner is not null
                 ? new RunnerSummaryDto(o.DeliveryRunner.Id, o.DeliveryRunner.Name, o.DeliveryRunner.PhoneNumber)
-                : null);
+                : null,
+            o.AutoAcceptedRule,
+            o.CancelledByRole,
+            o.CancellationReasonCode);
     }
+
+    private static OrderItemSubstitutionDto? ToSubstitutionDto(OrderItem oi) =>
+        oi.SubstitutionStatus is null
+            ? null
+            : new OrderItemSubstitutionDto(
+                oi.SubstituteMerchantItemId, oi.SubstituteItemName ?? "", oi.SubstituteItemPriceCents ?? 0,
+                oi.SubstituteQuantity ?? 0, oi.SubstituteUnit, OrderPackingHelper.SubstituteTotalCents(oi), oi.SubstitutionStatus);
 }
@@ -0,0 +1,21 @@
+using Ay.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore;
+
+namespace Ay.Infrastructure.Services;
+
+/// <summary>
+/// Moves a pending order to <c>cancelled</c>. The status flips with a conditional update, so when the merchant and
+/// the customer cancel at the same time only one of them wins and the order's stock is returned once. Call it inside
+/// the transaction that saves the rest of the cancellation.
+/// </summary>
+public static class OrderCancellationHelper
+{
+    /// <summary>Returns false when the order already left <c>pending</c>; nothing is changed in that case.</summary>
+    public static async Task<bool> TryCancelPendingAsync(AppDbContext context, Guid orderId)
+    {
+        if (!await OrderTransitionHelper.TryTransitionAsync(context, orderId, "pending", "cancelled")) return false;
+
+        await InventoryStockHelper.ReleaseAsync(context, orderId);
+        return true;
+    }
+}
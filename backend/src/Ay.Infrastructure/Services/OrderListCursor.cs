@@ -0,0 +1,42 @@
+using System.Text;
+using Ay.Domain.Entities;
+using Ay.Domain.Interfaces;
+
+namespace Ay.Infrastructure.Services;
+
+/// <summary>
+/// Order history cursors are the sort, the sort value and the Id of the last order on the page. The sort is part of
+/// the cursor so a cursor from one sort is rejected when the list is re-sorted.
+/// </summary>
+public static class OrderListCursor
+{
+    public const int MaxPageSize = 100;
+
+    public static string Encode(Order order, string sort)
+    {
+        var value = sort is OrderListSorts.TotalHigh or OrderListSorts.TotalLow ? order.TotalCents : order.PlacedAt.UtcTicks;
+        return Convert.ToBase64String(Encoding.UTF8.GetBytes($"{sort}:{value}:{order.Id:N}"));
+    }
+
+    /// <summary>Checks the sort and date field and, when a cursor is given, positions the filter after it.</summary>
+    public static bool TryApply(OrderListQuery filter, string? cursor, out OrderListQuery result)
+    {
+        result = filter;
+        if (!OrderListSorts.All.Contains(filter.Sort) || !OrderListDateFields.All.Contains(filter.DateField)) return false;
+        if (string.IsNullOrEmpty(cursor)) return true;
+
+        try
+        {
+            var parts = Encoding.UTF8.GetString(Convert.FromBase64String(cursor)).Split(':');
+            if (parts.Length != 3 || parts[0] != filter.Sort
+                || !long.TryParse(parts[1], out var value) || !Guid.TryParse(parts[2], out var id))
+                return false;
+            result = filter with { AfterSortValue = value, AfterId = id };
+            return true;
+        }
+        catch (FormatException)
+        {
+            return false;
+        }
+    }
+}
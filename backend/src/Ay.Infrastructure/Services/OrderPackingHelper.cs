@@ -0,0 +1,62 @@
+using Ay.Domain.Entities;
+
+namespace Ay.Infrastructure.Services;
+
+/// <summary>
+/// Packing outcomes and substitutions for order lines. A line charges for what was actually packed
+/// (nothing when unavailable, the found amount when short) plus its substitute once the customer has
+/// accepted it; a proposed or rejected substitute is never charged.
+/// </summary>
+public static class OrderPackingHelper
+{
+    public const string Packed = "packed";
+    public const string Short = "short";
+    public const string Unavailable = "unavailable";
+
+    public const string SubstitutionProposed = "proposed";
+    public const string SubstitutionAccepted = "accepted";
+    public const string SubstitutionRejected = "rejected";
+
+    public static bool IsValidPackingStatus(string? status) => status is null or Packed or Short or Unavailable;
+
+    /// <summary>
+    /// What the line actually sells: nothing when unavailable, the found amount when short, otherwise the weighed
+    /// amount if one was entered. Both the charge and the stock the line holds follow it.
+    /// </summary>
+    public static decimal SoldQuantity(OrderItem line) => line.PackingStatus switch
+    {
+        Unavailable => 0m,
+        Short => line.PackedQuantity ?? 0m,
+        _ => line.WeighedQuantity ?? line.Quantity,
+    };
+
+    public static void RecalculateLine(OrderItem line)
+    {
+        line.SubtotalCents = UnitPricingHelper.LineTotalCents(line.ItemPriceCents, SoldQuantity(line))
+            + (line.SubstitutionStatus == SubstitutionAccepted ? SubstituteTotalCents(line) : 0);
+    }
+
+    /// <summary>Fees stay as quoted at checkout; only the item subtotal moves with packing.</summary>
+    public static void RecalculateTotals(Order order)
+    {
+        order.SubtotalCents = order.OrderItems.Sum(oi => oi.SubtotalCents);
+        order.TotalCents = order.SubtotalCents + order.DeliveryFeeCents + order.SurchargeCents;
+        order.UpdatedAt = DateTimeOffset.UtcNow;
+    }
+
+    public static int SubstituteTotalCents(OrderItem line) =>
+        line.SubstituteItemPriceCents is int price && line.SubstituteQuantity is decimal quantity
+            ? UnitPricingHelper.LineTotalCents(price, quantity)
+            : 0;
+
+    public static void ClearSubstitution(OrderItem line)
+    {
+        line.SubstituteMerchantItemId = null;
+        line.SubstituteItemName = null;
+        line.SubstituteItemPriceCents = null;
+        line.SubstituteQuantity = null;
+        line.SubstituteUnit = null;
+        line.SubstitutionStatus = null;
+        line.SubstituteReservedQuantity = null;
+    }
+}
@@ -0,0 +1,48 @@
+using Ay.Domain.Entities;
+using Ay.Infrastructure.Persistence;
+
+namespace Ay.Infrastructure.Services;
+
+/// <summary>
+/// Per-shop SLA targets for the order stages. A stage is measured the same way as the order's
+/// <c>*TimeSeconds</c> fields: confirmation from placed to confirmed, preparation from confirmed to dispatched and
+/// delivery from dispatched to delivered.
+/// </summary>
+public static class OrderSlaHelper
+{
+    public const string Confirmation = "confirmation";
+    public const string Preparation = "preparation";
+    public const string Delivery = "delivery";
+
+    public static int? GetTargetSeconds(Shop shop, string stage)
+    {
+        var minutes = stage switch
+        {
+            Confirmation => shop.SlaConfirmationMinutes,
+            Preparation => shop.SlaPreparationMinutes,
+            Delivery => shop.SlaDeliveryMinutes,
+            _ => null,
+        };
+        return minutes * 60;
+    }
+
+    /// <summary>
+    /// Adds a breach for the stage the order is leaving when it took longer than the shop's target. Tracked on the
+    /// shared context, so it is saved together with the status change.
+    /// </summary>
+    public static void RecordIfBreached(AppDbContext context, Order order, Shop shop, string stage, int? actualSeconds)
+    {
+        if (actualSeconds is not { } actual) return;
+        if (GetTargetSeconds(shop, stage) is not { } target || actual <= target) return;
+
+        context.OrderSlaBreaches.Add(new OrderSlaBreach
+        {
+            Id = Guid.NewGuid(),
+            OrderId = order.Id,
+            ShopId = shop.Id,
+            Stage = stage,
+            TargetSeconds = target,
+            ActualSeconds = actual,
+        });
+    }
+}
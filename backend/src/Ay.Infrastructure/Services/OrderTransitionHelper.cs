@@ -0,0 +1,25 @@
+using Ay.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore;
+
+namespace Ay.Infrastructure.Services;
+
+/// <summary>
+/// Moves an order between statuses with a conditional update, so two actions racing on the same order (a merchant
+/// confirm and a customer cancel, say) cannot both apply: the second finds the status already moved and changes
+/// nothing. Call it inside the transaction that saves the rest of the transition; the updated row stays locked
+/// until that transaction commits.
+/// </summary>
+public static class OrderTransitionHelper
+{
+    /// <summary>Returns false when the order is no longer in <paramref name="from"/>.</summary>
+    public static async Task<bool> TryTransitionAsync(AppDbContext context, Guid orderId, string from, string to)
+    {
+        var now = DateTimeOffset.UtcNow;
+        var updated = await context.Orders
+            .Where(o => o.Id == orderId && o.Status == from)
+            .ExecuteUpdateAsync(s => s
+                .SetProperty(o => o.Status, to)
+                .SetProperty(o => o.UpdatedAt, now));
+        return updated == 1;
+    }
+}
@@ -0,0 +1,48 @@
+using System.Globalization;
+using System.Text.Json;
+using Ay.Application.Consumer.Services;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+
+namespace Ay.Infrastructure.Services;
+
+/// <summary>
+/// Driving distances from a self-hosted OSRM-compatible server at <c>Routing:OsrmUrl</c>, using its <c>route</c>
+/// service. Returns null when no server is configured, it finds no route, or it does not answer in time.
+/// </summary>
+public class OsrmRoutingProvider(
+    HttpClient http,
+    IConfiguration config,
+    ILogger<OsrmRoutingProvider> logger) : IRoutingProvider
+{
+    public async Task<double?> GetRoadDistanceAsync(double fromLat, double fromLon, double toLat, double toLon, CancellationToken ct = default)
+    {
+        var baseUrl = config["Routing:OsrmUrl"];
+        if (string.IsNullOrWhiteSpace(baseUrl)) return null;
+
+        var coordinates = string.Create(CultureInfo.InvariantCulture, $"{fromLon:F6},{fromLat:F6};{toLon:F6},{toLat:F6}");
+        var url = $"{baseUrl.TrimEnd('/')}/route/v1/driving/{coordinates}?overview=false&alternatives=false&steps=false";
+
+        try
+        {
+            using var response = await http.GetAsync(url, ct);
+            if (!response.IsSuccessStatusCode)
+            {
+                logger.LogWarning("OSRM route request returned {StatusCode}", (int)response.StatusCode);
+                return null;
+            }
+
+            await using var body = await response.Content.ReadAsStreamAsync(ct);
+            using var doc = await JsonDocument.ParseAsync(body, cancellationToken: ct);
+            var root = doc.RootElement;
+            if (!root.TryGetProperty("code", out var code) || code.GetString() != "Ok") return null;
+            if (!root.TryGetProperty("routes", out var routes) || routes.GetArrayLength() == 0) return null;
+            return routes[0].GetProperty("distance").GetDouble();
+        }
+        catch (Exception ex) when (ex is HttpRequestException or TaskCanceledException or JsonException or KeyNotFoundException or InvalidOperationException)
+        {
+            logger.LogWarning(ex, "OSRM route request failed");
+            return null;
+        }
+    }
+}
@@ -0,0 +1,55 @@
+using System.Globalization;
+using System.Text.Json;
+
+namespace Ay.Infrastructure.Services;
+
+public record PeakWindow(string? Label, int[] Days, TimeOnly Start, TimeOnly End, decimal Fee);
+
+/// <summary>
+/// Reads a shop's peak hour windows (<c>ShopDeliveryLogic.PeakWindows</c>) and finds the one in effect. A window
+/// whose end is before its start runs past midnight, so it is also in effect early the next day.
+/// </summary>
+public static class PeakWindowSchedule
+{
+    public static List<PeakWindow> Parse(JsonDocument? document)
+    {
+        var windows = new List<PeakWindow>();
+        if (document is null || document.RootElement.ValueKind != JsonValueKind.Array)
+            return windows;
+
+        foreach (var el in document.RootElement.EnumerateArray())
+        {
+            try
+            {
+                var label = el.TryGetProperty("label", out var l) && l.ValueKind == JsonValueKind.String ? l.GetString() : null;
+                var days = el.GetProperty("days").EnumerateArray().Select(d => d.GetInt32()).ToArray();
+                var start = TimeOnly.ParseExact(el.GetProperty("start").GetString()!, "HH:mm", CultureInfo.InvariantCulture);
+                var end = TimeOnly.ParseExact(el.GetProperty("end").GetString()!, "HH:mm", CultureInfo.InvariantCulture);
+                windows.Add(new PeakWindow(label, days, start, end, el.GetProperty("fee").GetDecimal()));
+            }
+            catch (Exception ex) when (ex is KeyNotFoundException or InvalidOperationException
+                                           or FormatException or ArgumentNullException)
+            {
+                // Skip a malformed window rather than fail every fee for the shop.
+            }
+        }
+
+        return windows;
+    }
+
+    /// <summary>The window in effect at <paramref name="localNow"/>; when several overlap, the one with the highest fee.</summary>
+    public static PeakWindow? FindActive(IEnumerable<PeakWindow> windows, DateTime localNow) =>
+        windows.Where(w => IsActive(w, localNow)).MaxBy(w => w.Fee);
+
+    private static bool IsActive(PeakWindow window, DateTime localNow)
+    {
+        var time = TimeOnly.FromDateTime(localNow);
+        var today = (int)localNow.DayOfWeek;
+        if (window.Start < window.End)
+            return window.Days.Contains(today) && time >= window.Start && time < window.End;
+
+        var yesterday = (today + 6) % 7;
+        return (window.Days.Contains(today) && time >= window.Start)
+            || (window.Days.Contains(yesterday) && time < window.End);
+    }
+}
@@ -0,0 +1,222 @@
+using System.Text.Json;
+using Ay.Application.Merchant.DTOs;
+using Ay.Application.Merchant.Services;
+using Ay.Domain.Common;
+using Ay.Domain.Entities;
+using Ay.Domain.Interfaces;
+using Ay.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+
+namespace Ay.Infrastructure.Services;
+
+public class PriceChangeService(
+    AppDbContext context,
+    IMerchantAccountRepository merchantRepo,
+    IShopRepository shopRepo,
+    IMerchantItemAuditService itemAuditService,
+    ILogger<PriceChangeService> logger) : IPriceChangeService
+{
+    private const string AuditSource = "bulk_price_change";
+    private const int MaxChangesPerRun = 50;
+
+    public async Task<Result<ScheduledPriceChangeDto>> CreateCategoryPriceChangeAsync(Guid shopId, Guid categoryId, Guid userId, CategoryPriceChangeRequest request)
+    {
+        var ownership = await VerifyOwnershipAsync(shopId, userId);
+        if (!ownership.IsSuccess) return Result.Failure<ScheduledPriceChangeDto>(ownership.Error!);
+
+        var category = await context.MerchantCategories.FirstOrDefaultAsync(c => c.Id == categoryId && c.ShopId == shopId);
+        if (category is null) return Result.Failure<ScheduledPriceChangeDto>("Category not found.");
+
+        var now = DateTimeOffset.UtcNow;
+        var immediate = request.EffectiveAt is not { } requestedAt || requestedAt <= now;
+        var change = new ScheduledPriceChange
+        {
+            Id = Guid.NewGuid(),
+            ShopId = shopId,
+            MerchantCategoryId = categoryId,
+            CreatedBy = userId,
+            Mode = request.Mode,
+            Amount = request.Amount,
+            EffectiveAt = immediate ? now : request.EffectiveAt!.Value,
+            // An immediate change is applied below; it never sits as "scheduled" where the poller could pick it up too.
+            Status = immediate ? "applying" : "scheduled",
+        };
+        context.ScheduledPriceChanges.Add(change);
+        await context.SaveChangesAsync();
+
+        if (immediate)
+        {
+            await ApplyAsync(change);
+            if (change.Status == "failed")
+                return Result.Failure<ScheduledPriceChangeDto>(change.Error!);
+        }
+
+        return Result.Success(ToDto(change, category.Name));
+    }
+
+    public async Task<Result<List<ScheduledPriceChangeDto>>> GetPriceChangesAsync(Guid shopId, Guid userId)
+    {
+        var ownership = await VerifyOwnershipAsync(shopId, userId);
+        if (!ownership.IsSuccess) return Result.Failure<List<ScheduledPriceChangeDto>>(ownership.Error!);
+
+        var changes = await context.ScheduledPriceChanges
+            .Where(c => c.ShopId == shopId)
+            .OrderByDescending(c => c.EffectiveAt)
+            .Take(100)
+            .ToListAsync();
+        var categoryIds = changes.Select(c => c.MerchantCategoryId).Distinct().ToList();
+        var categoryNames = await context.MerchantCategories
+            .Where(c => categoryIds.Contains(c.Id))
+            .ToDictionaryAsync(c => c.Id, c => c.Name);
+
+        return Result.Success(changes.Select(c => ToDto(c, categoryNames.GetValueOrDefault(c.MerchantCategoryId))).ToList());
+    }
+
+    public async Task<Result> CancelPriceChangeAsync(Guid shopId, Guid changeId, Guid userId)
+    {
+        var ownership = await VerifyOwnershipAsync(shopId, userId);
+        if (!ownership.IsSuccess) return Result.Failure(ownership.Error!);
+
+        var change = await context.ScheduledPriceChanges.FirstOrDefaultAsync(c => c.Id == changeId && c.ShopId == shopId);
+        if (change is null) return Result.Failure("Price change not found.");
+        if (change.Status != "scheduled") return Result.Failure("Only scheduled price changes can be cancelled.");
+
+        var cancelled = await context.ScheduledPriceChanges
+            .Where(c => c.Id == changeId && c.Status == "scheduled")
+            .ExecuteUpdateAsync(s => s.SetProperty(c => c.Status, "cancelled"));
+        if (cancelled == 0) return Result.Failure("Only scheduled price changes can be cancelled.");
+        return Result.Success();
+    }
+
+    public async Task<int> ApplyDueChangesAsync(CancellationToken cancellationToken = default)
+    {
+        var now = DateTimeOffset.UtcNow;
+        var due = await context.ScheduledPriceChanges
+            .Where(c => c.Status == "scheduled" && c.EffectiveAt <= now)
+            .OrderBy(c => c.EffectiveAt)
+            .Take(MaxChangesPerRun)
+            .ToListAsync(cancellationToken);
+
+        var applied = 0;
+        foreach (var change in due)
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+            // Claim the change first so a second poller, or a cancel racing this one, cannot apply it again.
+            var claimed = await context.ScheduledPriceChanges
+                .Where(c => c.Id == change.Id && c.Status == "scheduled")
+                .ExecuteUpdateAsync(s => s.SetProperty(c => c.Status, "applying"), cancellationToken);
+            if (claimed == 0) continue;
+
+            change.Status = "applying";
+            // A failed change clears the change tracker; re-attach so this change's outcome is still saved.
+            if (context.Entry(change).State == EntityState.Detached)
+                context.ScheduledPriceChanges.Attach(change);
+            await ApplyAsync(change);
+            applied++;
+        }
+        return applied;
+    }
+
+    /// <summary>
+    /// Moves every item (and variant) price in the change's category inside one transaction and writes a
+    /// <c>price_updated</c> audit entry per item, attributed to the merchant who created the change.
+    /// </summary>
+    private async Task ApplyAsync(ScheduledPriceChange change)
+    {
+        var items = await context.MerchantItems
+            .Include(i => i.Variants)
+            .Where(i => i.ShopId == change.ShopId && i.ItemCategories.Any(ic => ic.MerchantCategoryId == change.MerchantCategoryId))
+            .ToListAsync();
+        var actor = JsonSerializer.SerializeToDocument(new { id = change.CreatedBy.ToString(), role = "merchant" });
+        var applied = 0;
+
+        try
+        {
+            await using var transaction = await context.Database.BeginTransactionAsync();
+
+            foreach (var item in items)
+            {
+                var changes = new Dictionary<string, object?>();
+                var newPrice = AdjustPrice(item.PriceCents, change);
+                if (newPrice != item.PriceCents)
+                {
+                    changes["price_cents"] = new { from = item.PriceCents, to = newPrice };
+                    item.PriceCents = newPrice;
+                }
+
+                if (item.Variants.Count > 0)
+                {
+                    var previousVariants = InventoryService.DescribeVariants(item.Variants);
+                    foreach (var variant in item.Variants)
+                    {
+                        variant.PriceCents = AdjustPrice(variant.PriceCents, change);
+                        variant.UpdatedAt = DateTimeOffset.UtcNow;
+                    }
+                    var nextVariants = InventoryService.DescribeVariants(item.Variants);
+                    if (!previousVariants.SequenceEqual(nextVariants))
+                        changes["variants"] = new { from = previousVariants, to = nextVariants };
+                }
+
+                if (changes.Count == 0) continue;
+
+                item.LastUpdatedBy = actor;
+                item.UpdatedAt = DateTimeOffset.UtcNow;
+                await context.SaveChangesAsync();
+
+                await itemAuditService.LogItemFieldChangesAsync(change.ShopId, item.Id, change.CreatedBy, changes, AuditSource);
+                applied++;
+            }
+
+            change.Status = "applied";
+            change.AppliedItemCount = applied;
+            change.AppliedAt = DateTimeOffset.UtcNow;
+            await context.SaveChangesAsync();
+
+            await transaction.CommitAsync();
+        }
+        catch (DbUpdateException ex)
+        {
+            logger.LogError(ex, "Price change {ChangeId} for shop {ShopId} failed", change.Id, change.ShopId);
+            context.ChangeTracker.Clear();
+
+            const string error = "The price change could not be saved. No prices were changed.";
+            var failed = await context.ScheduledPriceChanges.FirstAsync(c => c.Id == change.Id);
+            failed.Status = "failed";
+            failed.Error = error;
+            failed.AppliedAt = DateTimeOffset.UtcNow;
+            await context.SaveChangesAsync();
+
+            change.Status = failed.Status;
+            change.Error = failed.Error;
+            change.AppliedAt = failed.AppliedAt;
+            return;
+        }
+
+        logger.LogInformation(
+            "Price change {ChangeId} for shop {ShopId}: {Mode} {Amount} applied to {Count} items",
+            change.Id, change.ShopId, change.Mode, change.Amount, applied);
+    }
+
+    /// <summary>Percent changes round to the nearest cent; prices never go below zero.</summary>
+    private static int AdjustPrice(int priceCents, ScheduledPriceChange change)
+    {
+        var adjusted = change.Mode == "percent"
+            ? Math.Round(priceCents * (1 + change.Amount / 100m), MidpointRounding.AwayFromZero)
+            : priceCents + change.Amount;
+        return (int)Math.Max(0, adjusted);
+    }
+
+    private static ScheduledPriceChangeDto ToDto(ScheduledPriceChange c, string? categoryName) => new(
+        c.Id, c.MerchantCategoryId, categoryName, c.Mode, c.Amount, c.EffectiveAt, c.Status, c.AppliedItemCount, c.Error, c.CreatedAt, c.AppliedAt);
+
+    private async Task<Result<Shop>> VerifyOwnershipAsync(Guid shopId, Guid userId)
+    {
+        var merchant = await merchantRepo.GetByUserIdAsync(userId);
+        if (merchant is null) return Result.Failure<Shop>("Merchant account not found.");
+        var shop = await shopRepo.GetByIdAsync(shopId);
+        if (shop is null) return Result.Failure<Shop>("Shop not found.");
+        if (shop.MerchantId != merchant.Id) return Result.Failure<Shop>("Access denied.");
+        return Result.Success(shop);
+    }
+}
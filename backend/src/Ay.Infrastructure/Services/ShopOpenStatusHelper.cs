@@ -26,7 +26,7 @@ public static class ShopOpenStatusHelper
         };
     }
 
-    private static DateTime ToBusinessLocalNow()
+    internal static DateTime ToBusinessLocalNow()
     {
         var utc = DateTime.UtcNow;
         foreach (var id in new[] { "Asia/Karachi", "Pakistan Standard Time" })
@@ -0,0 +1,52 @@
+using Ay.Application.Merchant.DTOs;
+using Ay.Application.Merchant.Services;
+using Ay.Domain.Common;
+using Ay.Domain.Entities;
+using Ay.Domain.Interfaces;
+using Microsoft.Extensions.Logging;
+
+namespace Ay.Infrastructure.Services;
+
+public class ShopSlaService(
+    IMerchantAccountRepository merchantRepo,
+    IShopRepository shopRepo,
+    ILogger<ShopSlaService> logger) : IShopSlaService
+{
+    public async Task<Result<ShopSlaDto>> GetAsync(Guid shopId, Guid userId)
+    {
+        var ownership = await VerifyOwnershipAsync(shopId, userId);
+        if (!ownership.IsSuccess) return Result.Failure<ShopSlaDto>(ownership.Error!);
+
+        return Result.Success(ToDto(ownership.Value!));
+    }
+
+    public async Task<Result<ShopSlaDto>> UpdateAsync(Guid shopId, Guid userId, UpdateShopSlaRequest request)
+    {
+        var ownership = await VerifyOwnershipAsync(shopId, userId);
+        if (!ownership.IsSuccess) return Result.Failure<ShopSlaDto>(ownership.Error!);
+
+        var shop = ownership.Value!;
+        shop.SlaConfirmationMinutes = request.ConfirmationMinutes;
+        shop.SlaPreparationMinutes = request.PreparationMinutes;
+        shop.SlaDeliveryMinutes = request.DeliveryMinutes;
+        shop.UpdatedAt = DateTimeOffset.UtcNow;
+
+        await shopRepo.UpdateAsync(shop);
+        logger.LogInformation("Shop {ShopId} SLA targets set to {Confirmation}/{Preparation}/{Delivery} minutes",
+            shopId, request.ConfirmationMinutes, request.PreparationMinutes, request.DeliveryMinutes);
+        return Result.Success(ToDto(shop));
+    }
+
+    private async Task<Result<Shop>> VerifyOwnershipAsync(Guid shopId, Guid userId)
+    {
+        var merchant = await merchantRepo.GetByUserIdAsync(userId);
+        if (merchant is null) return Result.Failure<Shop>("Merchant account not found.");
+        var shop = await shopRepo.GetByIdAsync(shopId);
+        if (shop is null) return Result.Failure<Shop>("Shop not found.");
+        if (shop.MerchantId != merchant.Id) return Result.Failure<Shop>("Access denied.");
+        return Result.Success(shop);
+    }
+
+    private static ShopSlaDto ToDto(Shop shop) =>
+        new(shop.Id, shop.SlaConfirmationMinutes, shop.SlaPreparationMinutes, shop.SlaDeliveryMinutes);
+}
@@ -0,0 +1,158 @@
+using System.Text.Json;
+using Ay.Application.Merchant.DTOs;
+using Ay.Application.Merchant.Services;
+using Ay.Domain.Common;
+using Ay.Domain.Entities;
+using Ay.Domain.Interfaces;
+using Ay.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+
+namespace Ay.Infrastructure.Services;
+
+public class StockTakeService(
+    AppDbContext context,
+    IMerchantAccountRepository merchantRepo,
+    IShopRepository shopRepo,
+    IMerchantItemAuditService itemAuditService,
+    ILogger<StockTakeService> logger) : IStockTakeService
+{
+    private const string AuditSource = "stock_take";
+
+    public async Task<Result<StockTakeResultDto>> CommitAsync(Guid shopId, Guid userId, StockTakeRequest request)
+    {
+        var ownership = await VerifyOwnershipAsync(shopId, userId);
+        if (!ownership.IsSuccess) return Result.Failure<StockTakeResultDto>(ownership.Error!);
+
+        var itemIds = request.Lines.Where(l => l.ItemId is not null).Select(l => l.ItemId!.Value).ToList();
+        var items = await context.MerchantItems
+            .Where(i => i.ShopId == shopId && itemIds.Contains(i.Id))
+            .ToDictionaryAsync(i => i.Id);
+        if (items.Count != itemIds.Count)
+            return Result.Failure<StockTakeResultDto>("Some counted items no longer exist. Refresh and try again.");
+        var fractional = request.Lines
+            .FirstOrDefault(l => l.ItemId is Guid id && items[id].Unit is null && l.StockQuantity % 1 != 0);
+        if (fractional is not null)
+            return Result.Failure<StockTakeResultDto>($"{items[fractional.ItemId!.Value].Name} is sold per piece; count it in whole units.");
+
+        var templateIds = request.Lines.Where(l => l.TemplateId is not null).Select(l => l.TemplateId!.Value).ToList();
+        var templates = await context.ItemTemplates
+            .Where(t => templateIds.Contains(t.Id))
+            .ToDictionaryAsync(t => t.Id);
+        if (templates.Count != templateIds.Count)
+            return Result.Failure<StockTakeResultDto>("Catalog item not found.");
+
+        // A catalog item added from another device since it was scanned must be counted as the existing item instead.
+        var adopted = await context.MerchantItems
+            .Where(i => i.ShopId == shopId && i.TemplateId != null && templateIds.Contains(i.TemplateId.Value))
+            .Select(i => i.TemplateId!.Value)
+            .FirstOrDefaultAsync();
+        if (adopted != Guid.Empty)
+            return Result.Failure<StockTakeResultDto>($"{templates[adopted].Name} is already in your inventory. Scan it again to count it.");
+
+        var categoryIds = request.Lines.Where(l => l.CategoryId is not null).Select(l => l.CategoryId!.Value).Distinct().ToList();
+        var categoryCount = await context.MerchantCategories.CountAsync(c => c.ShopId == shopId && categoryIds.Contains(c.Id));
+        if (categoryCount != categoryIds.Count)
+            return Result.Failure<StockTakeResultDto>("Category not found.");
+
+        var actor = JsonSerializer.SerializeToDocument(new { id = userId.ToString(), role = "merchant" });
+        int updated = 0, created = 0, unchanged = 0;
+
+        try
+        {
+            await using var transaction = await context.Database.BeginTransactionAsync();
+
+            foreach (var line in request.Lines)
+            {
+                if (line.ItemId is Guid itemId)
+                {
+                    var item = items[itemId];
+                    var changes = new Dictionary<string, object?>();
+                    if (line.StockQuantity is decimal counted)
+                    {
+                        // Counting an item starts tracking it; otherwise the count would be stored but never used.
+                        if (!item.TrackStock)
+                        {
+                            changes["track_stock"] = new { from = false, to = true };
+                            item.TrackStock = true;
+                        }
+                        if (counted != item.StockQuantity)
+                        {
+                            changes["stock_quantity"] = new { from = item.StockQuantity, to = counted };
+                            item.StockQuantity = counted;
+                        }
+                    }
+                    if (line.PriceCents is int priceCents && priceCents != item.PriceCents)
+                    {
+                        changes["price_cents"] = new { from = item.PriceCents, to = priceCents };
+                        item.PriceCents = priceCents;
+                    }
+
+                    if (changes.Count == 0)
+                    {
+                        unchanged++;
+                        continue;
+                    }
+
+                    item.LastUpdatedBy = actor;
+                    item.UpdatedAt = DateTimeOffset.UtcNow;
+                    await context.SaveChangesAsync();
+
+                    await itemAuditService.LogItemFieldChangesAsync(shopId, item.Id, userId, changes, AuditSource);
+                    updated++;
+                }
+                else
+                {
+                    var template = templates[line.TemplateId!.Value];
+                    // Catalog units are free text; only the ones items can be priced by carry over.
+                    var unit = template.DefaultUnit is "kg" or "g" or "dozen" or "litre" ? template.DefaultUnit : null;
+                    var item = new MerchantItem
+                    {
+                        Id = Guid.NewGuid(),
+                        ShopId = shopId,
+                        TemplateId = template.Id,
+                        Name = template.Name,
+                        Description = template.Description,
+                        Barcode = template.Barcode,
+                        ImageUrl = template.ImageUrl,
+                        Unit = unit,
+                        PriceCents = line.PriceCents!.Value,
+                        IsCustom = false,
+                        TrackStock = line.StockQuantity is not null,
+                        StockQuantity = line.StockQuantity ?? 0,
+                        CreatedBy = userId,
+                    };
+                    if (line.CategoryId is Guid categoryId)
+                        item.ItemCategories.Add(new MerchantItemCategory { MerchantItemId = item.Id, MerchantCategoryId = categoryId, SortOrder = 0 });
+                    context.MerchantItems.Add(item);
+                    await context.SaveChangesAsync();
+
+                    await itemAuditService.LogItemCreatedAsync(shopId, item.Id, userId, template.Name, item.PriceCents, AuditSource);
+                    created++;
+                }
+            }
+
+            await transaction.CommitAsync();
+        }
+        catch (DbUpdateException ex)
+        {
+            logger.LogError(ex, "Stock take for shop {ShopId} failed", shopId);
+            return Result.Failure<StockTakeResultDto>("The stock take could not be saved. No items were changed.");
+        }
+
+        logger.LogInformation(
+            "Stock take for shop {ShopId}: {Updated} updated, {Created} created, {Unchanged} unchanged",
+            shopId, updated, created, unchanged);
+        return Result.Success(new StockTakeResultDto(updated, created, unchanged));
+    }
+
+    private async Task<Result<Shop>> VerifyOwnershipAsync(Guid shopId, Guid userId)
+    {
+        var merchant = await merchantRepo.GetByUserIdAsync(userId);
+        if (merchant is null) return Result.Failure<Shop>("Merchant account not found.");
+        var shop = await shopRepo.GetByIdAsync(shopId);
+        if (shop is null) return Result.Failure<Shop>("Shop not found.");
+        if (shop.MerchantId != merchant.Id) return Result.Failure<Shop>("Access denied.");
+        return Result.Success(shop);
+    }
+}
@@ -0,0 +1,25 @@
+using Ay.Domain.Entities;
+
+namespace Ay.Infrastructure.Services;
+
+/// <summary>
+/// Quantity and price rules for items sold by weight or measure (<see cref="MerchantItem.Unit"/> set).
+/// Those items take fractional quantities in multiples of <see cref="MerchantItem.QuantityStep"/> and
+/// are priced per unit; items sold per piece only take whole quantities.
+/// </summary>
+public static class UnitPricingHelper
+{
+    /// <summary>Returns an error message when <paramref name="quantity"/> cannot be ordered for the item, otherwise null.</summary>
+    public static string? ValidateQuantity(MerchantItem item, decimal quantity)
+    {
+        if (quantity <= 0) return $"Quantity for '{item.Name}' must be greater than zero.";
+        if (item.Unit is null)
+            return quantity == decimal.Truncate(quantity) ? null : $"'{item.Name}' is sold per piece; order a whole number.";
+
+        var step = item.QuantityStep > 0 ? item.QuantityStep : 1m;
+        return quantity % step == 0 ? null : $"'{item.Name}' is sold in steps of {step:0.###} {item.Unit}.";
+    }
+
+    public static int LineTotalCents(int unitPriceCents, decimal quantity) =>
+        (int)Math.Round(unitPriceCents * quantity, MidpointRounding.AwayFromZero);
+}
@@ -1,5 +1,6 @@
 using Ay.Application.Consumer.DTOs;
 using Ay.Application.Consumer.Services;
+using Ay.Domain.Interfaces;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 
@@ -25,10 +26,22 @@ public class ConsumerOrdersController(IConsumerOrderService orderService) : Cont
     }
 
     [HttpGet]
-    public async Task<IActionResult> GetOrders()
+    public async Task<IActionResult> GetOrders(
+        [FromQuery] string[]? status = null,
+        [FromQuery] DateTimeOffset? from = null,
+        [FromQuery] DateTimeOffset? to = null,
+        [FromQuery] string? search = null,
+        [FromQuery] string sort = OrderListSorts.Newest,
+        [FromQuery] string? cursor = null,
+        [FromQuery] int limit = 20)
     {
-        var result = await orderService.GetUserOrdersAsync(ConsumerHttp.GetUserId(User));
-        return result.IsSuccess ? Ok(result.Value) : NotFound(ConsumerHttp.ToProblem(result.Error!, 404));
+        var filter = new OrderListQuery(status, from, to, search, sort);
+        var result = await orderService.GetUserOrdersAsync(ConsumerHttp.GetUserId(User), filter, cursor, limit);
+        if (!result.IsSuccess)
+            return NotFound(ConsumerHttp.ToProblem(result.Error!, 404));
+
+        var page = result.Value!;
+        return Ok(new { orders = page.Orders, nextCursor = page.NextCursor });
     }
 
     [HttpGet("active")]
@@ -48,7 +61,14 @@ public class ConsumerOrdersController(IConsumerOrderService orderService) : Cont
     [HttpPost("{orderId:guid}/cancel")]
     public async Task<IActionResult> CancelOrder(Guid orderId, ConsumerCancelOrderRequest? request)
     {
-        var result = await orderService.CancelOrderAsync(orderId, ConsumerHttp.GetUserId(User), request?.Reason);
+        var result = await orderService.CancelOrderAsync(orderId, ConsumerHttp.GetUserId(User), request?.ReasonCode, request?.Note);
+        return result.IsSuccess ? NoContent() : UnprocessableEntity(ConsumerHttp.ToProblem(result.Error!, 422));
+    }
+
+    [HttpPost("{orderId:guid}/items/{orderItemId:guid}/substitution")]
+    public async Task<IActionResult> AnswerSubstitution(Guid orderId, Guid orderItemId, AnswerSubstitutionRequest request)
+    {
+        var result = await orderService.AnswerSubstitutionAsync(orderId, orderItemId, ConsumerHttp.GetUserId(User), request.Accept);
         return result.IsSuccess ? NoContent() : UnprocessableEntity(ConsumerHttp.ToProblem(result.Error!, 422));
     }
 }
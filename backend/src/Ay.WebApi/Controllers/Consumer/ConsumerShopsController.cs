@@ -1,3 +1,4 @@
+using Ay.Application.Consumer.DTOs;
 using Ay.Application.Consumer.Services;
 using Microsoft.AspNetCore.Mvc;
 
@@ -25,6 +26,13 @@ public class ConsumerShopsController(IConsumerShopService shopService, IReviewSe
         return result.IsSuccess ? Ok(result.Value) : NotFound(ConsumerHttp.ToProblem(result.Error!, 404));
     }
 
+    [HttpPost("stock-check")]
+    public async Task<IActionResult> CheckStock(StockCheckRequest request)
+    {
+        var result = await shopService.CheckStockAsync(request);
+        return result.IsSuccess ? Ok(result.Value) : UnprocessableEntity(ConsumerHttp.ToProblem(result.Error!, 422));
+    }
+
     [HttpGet("{shopId:guid}/reviews")]
     public async Task<IActionResult> GetShopReviews(Guid shopId, [FromQuery] int page = 1, [FromQuery] int pageSize = 20)
     {
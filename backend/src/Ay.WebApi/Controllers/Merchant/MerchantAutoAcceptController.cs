@@ -0,0 +1,31 @@
+using Ay.Application.Merchant.DTOs;
+using Ay.Application.Merchant.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+
+namespace Ay.WebApi.Controllers.Merchant;
+
+/// <summary>
+/// Auto-accept rules for a shop. The rules are evaluated on the server when an order is placed.
+/// </summary>
+[ApiController]
+[Route("api/v1/merchant")]
+[Authorize(Roles = "merchant")]
+public class MerchantAutoAcceptController(IAutoAcceptService autoAcceptService) : ControllerBase
+{
+    // GET api/v1/merchant/shops/{shopId}/auto-accept
+    [HttpGet("shops/{shopId:guid}/auto-accept")]
+    public async Task<IActionResult> GetSettings(Guid shopId)
+    {
+        var result = await autoAcceptService.GetSettingsAsync(shopId, MerchantHttp.GetUserId(User));
+        return result.IsSuccess ? Ok(result.Value) : NotFound(MerchantHttp.ToProblem(result.Error!, 404));
+    }
+
+    // PUT api/v1/merchant/shops/{shopId}/auto-accept
+    [HttpPut("shops/{shopId:guid}/auto-accept")]
+    public async Task<IActionResult> UpdateSettings(Guid shopId, UpdateAutoAcceptSettingsRequest request)
+    {
+        var result = await autoAcceptService.UpdateSettingsAsync(shopId, MerchantHttp.GetUserId(User), request);
+        return result.IsSuccess ? Ok(result.Value) : NotFound(MerchantHttp.ToProblem(result.Error!, 404));
+    }
+}
@@ -1,4 +1,5 @@
 using System.Security.Claims;
+using Ay.Domain.Common;
 using Microsoft.AspNetCore.Mvc;
 
 namespace Ay.WebApi.Controllers.Merchant;
@@ -17,6 +18,7 @@ internal static class MerchantHttp
             401 => "Authentication failed.",
             403 => "Access denied.",
             404 => "Resource not found.",
+            409 => "The resource changed; reload and try again.",
             422 => "Validation or business rule failed.",
             _ => "An error occurred."
         },
@@ -25,6 +27,12 @@ internal static class MerchantHttp
         Type = "https://tools.ietf.org/html/rfc7807"
     };
 
+    /// <summary>409 when the request lost a race (<see cref="Result.IsConflict"/>), otherwise 422.</summary>
+    public static IActionResult ToFailure(Result result) =>
+        result.IsConflict
+            ? new ConflictObjectResult(ToProblem(result.Error!, 409))
+            : new UnprocessableEntityObjectResult(ToProblem(result.Error!, 422));
+
     public static ProblemDetails AccountToProblem(string detail, int status) => new()
     {
         Title = status switch
@@ -0,0 +1,52 @@
+using Ay.Application.Merchant.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+
+namespace Ay.WebApi.Controllers.Merchant;
+
+/// <summary>
+/// Bulk inventory import from CSV. Uploading a file returns a dry-run preview and a job id; nothing is written to the
+/// shop's items until the job is applied.
+/// </summary>
+[ApiController]
+[Route("api/v1/merchant")]
+[Authorize(Roles = "merchant")]
+public class MerchantInventoryImportController(IInventoryImportService importService) : ControllerBase
+{
+    private const long MaxFileSizeBytes = 1 * 1024 * 1024; // 1 MB
+
+    // POST api/v1/merchant/shops/{shopId}/items/import
+    [HttpPost("shops/{shopId:guid}/items/import")]
+    [RequestSizeLimit(MaxFileSizeBytes + 64 * 1024)]
+    public async Task<IActionResult> PreviewImport(Guid shopId, IFormFile file)
+    {
+        if (file is null || file.Length == 0)
+            return BadRequest(MerchantHttp.ToProblem("No file provided.", 400));
+
+        if (file.Length > MaxFileSizeBytes)
+            return BadRequest(MerchantHttp.ToProblem("File exceeds the 1 MB limit.", 400));
+
+        if (!file.FileName.EndsWith(".csv", StringComparison.OrdinalIgnoreCase))
+            return BadRequest(MerchantHttp.ToProblem("Only .csv files are supported. Export spreadsheets as CSV first.", 400));
+
+        await using var stream = file.OpenReadStream();
+        var result = await importService.PreviewAsync(shopId, MerchantHttp.GetUserId(User), file.FileName, stream);
+        return result.IsSuccess ? Ok(result.Value) : UnprocessableEntity(MerchantHttp.ToProblem(result.Error!, 422));
+    }
+
+    // POST api/v1/merchant/shops/{shopId}/items/import/{jobId}/apply
+    [HttpPost("shops/{shopId:guid}/items/import/{jobId:guid}/apply")]
+    public async Task<IActionResult> ApplyImport(Guid shopId, Guid jobId)
+    {
+        var result = await importService.ApplyAsync(shopId, jobId, MerchantHttp.GetUserId(User));
+        return result.IsSuccess ? Ok(result.Value) : UnprocessableEntity(MerchantHttp.ToProblem(result.Error!, 422));
+    }
+
+    // GET api/v1/merchant/shops/{shopId}/items/import/{jobId}
+    [HttpGet("shops/{shopId:guid}/items/import/{jobId:guid}")]
+    public async Task<IActionResult> GetImportJob(Guid shopId, Guid jobId)
+    {
+        var result = await importService.GetJobAsync(shopId, jobId, MerchantHttp.GetUserId(User));
+        return result.IsSuccess ? Ok(result.Value) : NotFound(MerchantHttp.ToProblem(result.Error!, 404));
+    }
+}
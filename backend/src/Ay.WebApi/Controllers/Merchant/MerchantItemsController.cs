@@ -1,5 +1,6 @@
 using Ay.Application.Merchant.DTOs;
 using Ay.Application.Merchant.Services;
+using Ay.Domain.Interfaces;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 
@@ -11,10 +12,38 @@ namespace Ay.WebApi.Controllers.Merchant;
 public class MerchantItemsController(IInventoryService inventoryService) : ControllerBase
 {
     [HttpGet("shops/{shopId:guid}/items")]
-    public async Task<IActionResult> GetItems(Guid shopId)
+    public async Task<IActionResult> GetItems(
+        Guid shopId,
+        [FromQuery] string? search = null,
+        [FromQuery] Guid[]? categoryIds = null,
+        [FromQuery] bool? active = null,
+        [FromQuery] string? templateFilter = null,
+        [FromQuery] bool lowStock = false,
+        [FromQuery] string? barcode = null,
+        [FromQuery] string? cursor = null,
+        [FromQuery] int limit = 50)
     {
-        var result = await inventoryService.GetItemsAsync(shopId, MerchantHttp.GetUserId(User));
-        return result.IsSuccess ? Ok(result.Value) : NotFound(MerchantHttp.ToProblem(result.Error!, 404));
+        bool? isCustom = templateFilter switch
+        {
+            "template" => false,
+            "custom" => true,
+            _ => null,
+        };
+        var filter = new ItemListQuery(search, categoryIds, active, isCustom, lowStock, barcode);
+        var result = await inventoryService.GetItemsAsync(shopId, MerchantHttp.GetUserId(User), filter, cursor, limit);
+        if (!result.IsSuccess)
+            return NotFound(MerchantHttp.ToProblem(result.Error!, 404));
+
+        var page = result.Value!;
+        return Ok(new { items = page.Items, nextCursor = page.NextCursor });
+    }
+
+    /// <summary>Total low-stock items for the tab badge; the list itself is paged.</summary>
+    [HttpGet("shops/{shopId:guid}/items/low-stock-count")]
+    public async Task<IActionResult> GetLowStockCount(Guid shopId)
+    {
+        var result = await inventoryService.GetLowStockCountAsync(shopId, MerchantHttp.GetUserId(User));
+        return result.IsSuccess ? Ok(new { count = result.Value }) : NotFound(MerchantHttp.ToProblem(result.Error!, 404));
     }
 
     [HttpGet("shops/{shopId:guid}/items/{itemId:guid}")]
@@ -28,9 +57,17 @@ public class MerchantItemsController(IInventoryService inventoryService) : Contr
     public async Task<IActionResult> GetItemAuditLog(
         Guid shopId,
         [FromQuery] int limit = 50,
-        [FromQuery] Guid? merchantItemId = null)
+        [FromQuery] Guid? merchantItemId = null,
+        [FromQuery] string[]? actionTypes = null,
+        [FromQuery] string[]? actorIds = null,
+        [FromQuery] string? field = null,
+        [FromQuery] string? source = null,
+        [FromQuery] DateTimeOffset? dateFrom = null,
+        [FromQuery] DateTimeOffset? dateTo = null,
+        [FromQuery] string? cursor = null)
     {
-        var result = await inventoryService.GetItemAuditLogAsync(shopId, MerchantHttp.GetUserId(User), limit, merchantItemId);
+        var filter = new AuditLogQuery(merchantItemId, actionTypes, actorIds, field, source, dateFrom, dateTo);
+        var result = await inventoryService.GetItemAuditLogAsync(shopId, MerchantHttp.GetUserId(User), limit, filter, cursor);
         if (!result.IsSuccess)
             return NotFound(MerchantHttp.ToProblem(result.Error!, 404));
 
@@ -49,6 +86,7 @@ public class MerchantItemsController(IInventoryService inventoryService) : Contr
     public async Task<IActionResult> UpdateItem(Guid shopId, Guid itemId, UpdateItemRequest request)
     {
         var result = await inventoryService.UpdateItemAsync(shopId, itemId, MerchantHttp.GetUserId(User), request);
+        if (result.IsConflict) return Conflict(MerchantHttp.ToProblem(result.Error!, 409));
         return result.IsSuccess ? Ok(result.Value) : NotFound(MerchantHttp.ToProblem(result.Error!, 404));
     }
 
@@ -60,9 +98,9 @@ public class MerchantItemsController(IInventoryService inventoryService) : Contr
     }
 
     [HttpGet("templates/items")]
-    public async Task<IActionResult> SearchItemTemplates([FromQuery] string? search)
+    public async Task<IActionResult> SearchItemTemplates([FromQuery] string? search, [FromQuery] string? barcode = null)
     {
-        var result = await inventoryService.SearchItemTemplatesAsync(search);
+        var result = await inventoryService.SearchItemTemplatesAsync(search, barcode);
         return result.IsSuccess ? Ok(result.Value) : StatusCode(500);
     }
 }
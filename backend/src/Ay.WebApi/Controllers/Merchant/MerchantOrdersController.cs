@@ -1,5 +1,6 @@
 using Ay.Application.Merchant.DTOs;
 using Ay.Application.Merchant.Services;
+using Ay.Domain.Interfaces;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 
@@ -11,10 +12,24 @@ namespace Ay.WebApi.Controllers.Merchant;
 public class MerchantOrdersController(IMerchantOrderService orderService) : ControllerBase
 {
     [HttpGet("shops/{shopId:guid}/orders")]
-    public async Task<IActionResult> GetOrders(Guid shopId, [FromQuery] string? status)
+    public async Task<IActionResult> GetOrders(
+        Guid shopId,
+        [FromQuery] string[]? status = null,
+        [FromQuery] DateTimeOffset? from = null,
+        [FromQuery] DateTimeOffset? to = null,
+        [FromQuery] string? search = null,
+        [FromQuery] string sort = OrderListSorts.Newest,
+        [FromQuery] string? cursor = null,
+        [FromQuery] int limit = 50,
+        [FromQuery] string dateField = OrderListDateFields.Placed)
     {
-        var result = await orderService.GetShopOrdersAsync(shopId, MerchantHttp.GetUserId(User), status);
-        return result.IsSuccess ? Ok(result.Value) : NotFound(MerchantHttp.ToProblem(result.Error!, 404));
+        var filter = new OrderListQuery(status, from, to, search, sort, DateField: dateField);
+        var result = await orderService.GetShopOrdersAsync(shopId, MerchantHttp.GetUserId(User), filter, cursor, limit);
+        if (!result.IsSuccess)
+            return NotFound(MerchantHttp.ToProblem(result.Error!, 404));
+
+        var page = result.Value!;
+        return Ok(new { orders = page.Orders, nextCursor = page.NextCursor });
     }
 
     [HttpGet("shops/{shopId:guid}/orders/{orderId:guid}")]
@@ -25,30 +40,150 @@ public class MerchantOrdersController(IMerchantOrderService orderService) : Cont
     }
 
     [HttpPost("shops/{shopId:guid}/orders/{orderId:guid}/confirm")]
-    public async Task<IActionResult> ConfirmOrder(Guid shopId, Guid orderId)
+    public async Task<IActionResult> ConfirmOrder(Guid shopId, Guid orderId, [FromHeader(Name = "Idempotency-Key")] string? idempotencyKey)
     {
-        var result = await orderService.ConfirmOrderAsync(shopId, orderId, MerchantHttp.GetUserId(User));
-        return result.IsSuccess ? NoContent() : UnprocessableEntity(MerchantHttp.ToProblem(result.Error!, 422));
+        var result = await orderService.ConfirmOrderAsync(shopId, orderId, MerchantHttp.GetUserId(User), idempotencyKey);
+        return result.IsSuccess ? NoContent() : MerchantHttp.ToFailure(result);
     }
 
     [HttpPost("shops/{shopId:guid}/orders/{orderId:guid}/dispatch")]
-    public async Task<IActionResult> DispatchOrder(Guid shopId, Guid orderId, DispatchOrderRequest request)
+    public async Task<IActionResult> DispatchOrder(Guid shopId, Guid orderId, DispatchOrderRequest request, [FromHeader(Name = "Idempotency-Key")] string? idempotencyKey)
     {
-        var result = await orderService.DispatchOrderAsync(shopId, orderId, MerchantHttp.GetUserId(User), request.RunnerId);
-        return result.IsSuccess ? NoContent() : UnprocessableEntity(MerchantHttp.ToProblem(result.Error!, 422));
+        var result = await orderService.DispatchOrderAsync(shopId, orderId, MerchantHttp.GetUserId(User), request.RunnerId, idempotencyKey);
+        return result.IsSuccess ? NoContent() : MerchantHttp.ToFailure(result);
     }
 
     [HttpPost("shops/{shopId:guid}/orders/{orderId:guid}/deliver")]
-    public async Task<IActionResult> DeliverOrder(Guid shopId, Guid orderId)
+    public async Task<IActionResult> DeliverOrder(Guid shopId, Guid orderId, [FromHeader(Name = "Idempotency-Key")] string? idempotencyKey)
     {
-        var result = await orderService.MarkDeliveredAsync(shopId, orderId, MerchantHttp.GetUserId(User));
-        return result.IsSuccess ? NoContent() : UnprocessableEntity(MerchantHttp.ToProblem(result.Error!, 422));
+        var result = await orderService.MarkDeliveredAsync(shopId, orderId, MerchantHttp.GetUserId(User), idempotencyKey);
+        return result.IsSuccess ? NoContent() : MerchantHttp.ToFailure(result);
     }
 
     [HttpPost("shops/{shopId:guid}/orders/{orderId:guid}/cancel")]
-    public async Task<IActionResult> CancelOrder(Guid shopId, Guid orderId, CancelOrderRequest request)
+    public async Task<IActionResult> CancelOrder(Guid shopId, Guid orderId, CancelOrderRequest request, [FromHeader(Name = "Idempotency-Key")] string? idempotencyKey)
+    {
+        var result = await orderService.CancelOrderAsync(shopId, orderId, MerchantHttp.GetUserId(User), request.ReasonCode, request.Note, idempotencyKey);
+        return result.IsSuccess ? NoContent() : MerchantHttp.ToFailure(result);
+    }
+
+    [HttpPut("shops/{shopId:guid}/orders/{orderId:guid}/items/{orderItemId:guid}/weight")]
+    public async Task<IActionResult> RecordWeighedQuantity(Guid shopId, Guid orderId, Guid orderItemId, RecordWeighedQuantityRequest request)
+    {
+        var result = await orderService.RecordWeighedQuantityAsync(shopId, orderId, orderItemId, MerchantHttp.GetUserId(User), request.WeighedQuantity);
+        return result.IsSuccess ? NoContent() : MerchantHttp.ToFailure(result);
+    }
+
+    [HttpPut("shops/{shopId:guid}/orders/{orderId:guid}/items/{orderItemId:guid}/packing")]
+    public async Task<IActionResult> UpdatePacking(Guid shopId, Guid orderId, Guid orderItemId, UpdateOrderItemPackingRequest request)
+    {
+        var result = await orderService.UpdatePackingAsync(shopId, orderId, orderItemId, MerchantHttp.GetUserId(User), request.Status, request.PackedQuantity);
+        return result.IsSuccess ? NoContent() : MerchantHttp.ToFailure(result);
+    }
+
+    [HttpPut("shops/{shopId:guid}/orders/{orderId:guid}/items/{orderItemId:guid}/substitution")]
+    public async Task<IActionResult> ProposeSubstitution(Guid shopId, Guid orderId, Guid orderItemId, ProposeSubstitutionRequest request)
+    {
+        var result = await orderService.ProposeSubstitutionAsync(shopId, orderId, orderItemId, MerchantHttp.GetUserId(User), request.MerchantItemId, request.Quantity);
+        return result.IsSuccess ? NoContent() : UnprocessableEntity(MerchantHttp.ToProblem(result.Error!, 422));
+    }
+
+    [HttpDelete("shops/{shopId:guid}/orders/{orderId:guid}/items/{orderItemId:guid}/substitution")]
+    public async Task<IActionResult> WithdrawSubstitution(Guid shopId, Guid orderId, Guid orderItemId)
+    {
+        var result = await orderService.WithdrawSubstitutionAsync(shopId, orderId, orderItemId, MerchantHttp.GetUserId(User));
+        return result.IsSuccess ? NoContent() : UnprocessableEntity(MerchantHttp.ToProblem(result.Error!, 422));
+    }
+
+    // Order-id-only routes: the app acts on an order without knowing which of the merchant's shops it belongs to.
+
+    [HttpGet("orders/{orderId:guid}")]
+    public async Task<IActionResult> GetOrderById(Guid orderId)
+    {
+        var userId = MerchantHttp.GetUserId(User);
+        var shop = await orderService.GetOrderShopIdAsync(orderId, userId);
+        if (!shop.IsSuccess) return NotFound(MerchantHttp.ToProblem(shop.Error!, 404));
+        var result = await orderService.GetOrderByIdAsync(shop.Value, orderId, userId);
+        return result.IsSuccess ? Ok(result.Value) : NotFound(MerchantHttp.ToProblem(result.Error!, 404));
+    }
+
+    [HttpPost("orders/{orderId:guid}/confirm")]
+    public async Task<IActionResult> ConfirmOrderById(Guid orderId, [FromHeader(Name = "Idempotency-Key")] string? idempotencyKey)
+    {
+        var userId = MerchantHttp.GetUserId(User);
+        var shop = await orderService.GetOrderShopIdAsync(orderId, userId);
+        if (!shop.IsSuccess) return NotFound(MerchantHttp.ToProblem(shop.Error!, 404));
+        var result = await orderService.ConfirmOrderAsync(shop.Value, orderId, userId, idempotencyKey);
+        return result.IsSuccess ? NoContent() : MerchantHttp.ToFailure(result);
+    }
+
+    [HttpPost("orders/{orderId:guid}/dispatch")]
+    public async Task<IActionResult> DispatchOrderById(Guid orderId, DispatchOrderRequest request, [FromHeader(Name = "Idempotency-Key")] string? idempotencyKey)
+    {
+        var userId = MerchantHttp.GetUserId(User);
+        var shop = await orderService.GetOrderShopIdAsync(orderId, userId);
+        if (!shop.IsSuccess) return NotFound(MerchantHttp.ToProblem(shop.Error!, 404));
+        var result = await orderService.DispatchOrderAsync(shop.Value, orderId, userId, request.RunnerId, idempotencyKey);
+        return result.IsSuccess ? NoContent() : MerchantHttp.ToFailure(result);
+    }
+
+    [HttpPost("orders/{orderId:guid}/deliver")]
+    public async Task<IActionResult> DeliverOrderById(Guid orderId, [FromHeader(Name = "Idempotency-Key")] string? idempotencyKey)
+    {
+        var userId = MerchantHttp.GetUserId(User);
+        var shop = await orderService.GetOrderShopIdAsync(orderId, userId);
+        if (!shop.IsSuccess) return NotFound(MerchantHttp.ToProblem(shop.Error!, 404));
+        var result = await orderService.MarkDeliveredAsync(shop.Value, orderId, userId, idempotencyKey);
+        return result.IsSuccess ? NoContent() : MerchantHttp.ToFailure(result);
+    }
+
+    [HttpPost("orders/{orderId:guid}/cancel")]
+    public async Task<IActionResult> CancelOrderById(Guid orderId, CancelOrderRequest request, [FromHeader(Name = "Idempotency-Key")] string? idempotencyKey)
+    {
+        var userId = MerchantHttp.GetUserId(User);
+        var shop = await orderService.GetOrderShopIdAsync(orderId, userId);
+        if (!shop.IsSuccess) return NotFound(MerchantHttp.ToProblem(shop.Error!, 404));
+        var result = await orderService.CancelOrderAsync(shop.Value, orderId, userId, request.ReasonCode, request.Note, idempotencyKey);
+        return result.IsSuccess ? NoContent() : MerchantHttp.ToFailure(result);
+    }
+
+    [HttpPut("orders/{orderId:guid}/items/{orderItemId:guid}/weight")]
+    public async Task<IActionResult> RecordWeighedQuantityById(Guid orderId, Guid orderItemId, RecordWeighedQuantityRequest request)
+    {
+        var userId = MerchantHttp.GetUserId(User);
+        var shop = await orderService.GetOrderShopIdAsync(orderId, userId);
+        if (!shop.IsSuccess) return NotFound(MerchantHttp.ToProblem(shop.Error!, 404));
+        var result = await orderService.RecordWeighedQuantityAsync(shop.Value, orderId, orderItemId, userId, request.WeighedQuantity);
+        return result.IsSuccess ? NoContent() : MerchantHttp.ToFailure(result);
+    }
+
+    [HttpPut("orders/{orderId:guid}/items/{orderItemId:guid}/packing")]
+    public async Task<IActionResult> UpdatePackingById(Guid orderId, Guid orderItemId, UpdateOrderItemPackingRequest request)
+    {
+        var userId = MerchantHttp.GetUserId(User);
+        var shop = await orderService.GetOrderShopIdAsync(orderId, userId);
+        if (!shop.IsSuccess) return NotFound(MerchantHttp.ToProblem(shop.Error!, 404));
+        var result = await orderService.UpdatePackingAsync(shop.Value, orderId, orderItemId, userId, request.Status, request.PackedQuantity);
+        return result.IsSuccess ? NoContent() : MerchantHttp.ToFailure(result);
+    }
+
+    [HttpPut("orders/{orderId:guid}/items/{orderItemId:guid}/substitution")]
+    public async Task<IActionResult> ProposeSubstitutionById(Guid orderId, Guid orderItemId, ProposeSubstitutionRequest request)
+    {
+        var userId = MerchantHttp.GetUserId(User);
+        var shop = await orderService.GetOrderShopIdAsync(orderId, userId);
+        if (!shop.IsSuccess) return NotFound(MerchantHttp.ToProblem(shop.Error!, 404));
+        var result = await orderService.ProposeSubstitutionAsync(shop.Value, orderId, orderItemId, userId, request.MerchantItemId, request.Quantity);
+        return result.IsSuccess ? NoContent() : UnprocessableEntity(MerchantHttp.ToProblem(result.Error!, 422));
+    }
+
+    [HttpDelete("orders/{orderId:guid}/items/{orderItemId:guid}/substitution")]
+    public async Task<IActionResult> WithdrawSubstitutionById(Guid orderId, Guid orderItemId)
     {
-        var result = await orderService.CancelOrderAsync(shopId, orderId, MerchantHttp.GetUserId(User), request.Reason);
+        var userId = MerchantHttp.GetUserId(User);
+        var shop = await orderService.GetOrderShopIdAsync(orderId, userId);
+        if (!shop.IsSuccess) return NotFound(MerchantHttp.ToProblem(shop.Error!, 404));
+        var result = await orderService.WithdrawSubstitutionAsync(shop.Value, orderId, orderItemId, userId);
         return result.IsSuccess ? NoContent() : UnprocessableEntity(MerchantHttp.ToProblem(result.Error!, 422));
     }
 
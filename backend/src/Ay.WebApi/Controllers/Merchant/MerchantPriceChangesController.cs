@@ -0,0 +1,40 @@
+using Ay.Application.Merchant.DTOs;
+using Ay.Application.Merchant.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+
+namespace Ay.WebApi.Controllers.Merchant;
+
+/// <summary>
+/// Category-wide price changes, applied immediately or at a scheduled time. Each item price moved is recorded in the
+/// inventory audit log.
+/// </summary>
+[ApiController]
+[Route("api/v1/merchant")]
+[Authorize(Roles = "merchant")]
+public class MerchantPriceChangesController(IPriceChangeService priceChangeService) : ControllerBase
+{
+    // POST api/v1/merchant/shops/{shopId}/categories/{categoryId}/price-changes
+    [HttpPost("shops/{shopId:guid}/categories/{categoryId:guid}/price-changes")]
+    public async Task<IActionResult> CreateCategoryPriceChange(Guid shopId, Guid categoryId, CategoryPriceChangeRequest request)
+    {
+        var result = await priceChangeService.CreateCategoryPriceChangeAsync(shopId, categoryId, MerchantHttp.GetUserId(User), request);
+        return result.IsSuccess ? Ok(result.Value) : UnprocessableEntity(MerchantHttp.ToProblem(result.Error!, 422));
+    }
+
+    // GET api/v1/merchant/shops/{shopId}/price-changes
+    [HttpGet("shops/{shopId:guid}/price-changes")]
+    public async Task<IActionResult> GetPriceChanges(Guid shopId)
+    {
+        var result = await priceChangeService.GetPriceChangesAsync(shopId, MerchantHttp.GetUserId(User));
+        return result.IsSuccess ? Ok(result.Value) : NotFound(MerchantHttp.ToProblem(result.Error!, 404));
+    }
+
+    // POST api/v1/merchant/shops/{shopId}/price-changes/{changeId}/cancel
+    [HttpPost("shops/{shopId:guid}/price-changes/{changeId:guid}/cancel")]
+    public async Task<IActionResult> CancelPriceChange(Guid shopId, Guid changeId)
+    {
+        var result = await priceChangeService.CancelPriceChangeAsync(shopId, changeId, MerchantHttp.GetUserId(User));
+        return result.IsSuccess ? NoContent() : UnprocessableEntity(MerchantHttp.ToProblem(result.Error!, 422));
+    }
+}
@@ -0,0 +1,26 @@
+using Ay.Application.Merchant.DTOs;
+using Ay.Application.Merchant.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+
+namespace Ay.WebApi.Controllers.Merchant;
+
+[ApiController]
+[Route("api/v1/merchant")]
+[Authorize(Roles = "merchant")]
+public class MerchantShopSlaController(IShopSlaService slaService) : ControllerBase
+{
+    [HttpGet("shops/{shopId:guid}/sla")]
+    public async Task<IActionResult> GetSla(Guid shopId)
+    {
+        var result = await slaService.GetAsync(shopId, MerchantHttp.GetUserId(User));
+        return result.IsSuccess ? Ok(result.Value) : NotFound(MerchantHttp.ToProblem(result.Error!, 404));
+    }
+
+    [HttpPut("shops/{shopId:guid}/sla")]
+    public async Task<IActionResult> UpdateSla(Guid shopId, UpdateShopSlaRequest request)
+    {
+        var result = await slaService.UpdateAsync(shopId, MerchantHttp.GetUserId(User), request);
+        return result.IsSuccess ? Ok(result.Value) : NotFound(MerchantHttp.ToProblem(result.Error!, 404));
+    }
+}
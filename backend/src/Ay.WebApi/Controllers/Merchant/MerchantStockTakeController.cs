@@ -0,0 +1,24 @@
+using Ay.Application.Merchant.DTOs;
+using Ay.Application.Merchant.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+
+namespace Ay.WebApi.Controllers.Merchant;
+
+/// <summary>
+/// Barcode stock takes. The app collects counts and price corrections while scanning and commits the whole session
+/// here in one request.
+/// </summary>
+[ApiController]
+[Route("api/v1/merchant")]
+[Authorize(Roles = "merchant")]
+public class MerchantStockTakeController(IStockTakeService stockTakeService) : ControllerBase
+{
+    // POST api/v1/merchant/shops/{shopId}/items/stock-take
+    [HttpPost("shops/{shopId:guid}/items/stock-take")]
+    public async Task<IActionResult> CommitStockTake(Guid shopId, StockTakeRequest request)
+    {
+        var result = await stockTakeService.CommitAsync(shopId, MerchantHttp.GetUserId(User), request);
+        return result.IsSuccess ? Ok(result.Value) : UnprocessableEntity(MerchantHttp.ToProblem(result.Error!, 422));
+    }
+}
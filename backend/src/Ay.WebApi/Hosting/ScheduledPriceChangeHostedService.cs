@@ -0,0 +1,41 @@
+using Ay.Application.Merchant.Services;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+
+namespace Ay.WebApi.Hosting;
+
+/// <summary>
+/// Applies scheduled category price changes once their effective time has passed. Polls every minute.
+/// </summary>
+public sealed class ScheduledPriceChangeHostedService(
+    IServiceScopeFactory scopeFactory,
+    ILogger<ScheduledPriceChangeHostedService> logger) : BackgroundService
+{
+    private static readonly TimeSpan PollInterval = TimeSpan.FromMinutes(1);
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        using var timer = new PeriodicTimer(PollInterval);
+        do
+        {
+            try
+            {
+                await using var scope = scopeFactory.CreateAsyncScope();
+                var priceChanges = scope.ServiceProvider.GetRequiredService<IPriceChangeService>();
+                var applied = await priceChanges.ApplyDueChangesAsync(stoppingToken);
+                if (applied > 0)
+                    logger.LogInformation("Applied {Count} scheduled price changes.", applied);
+            }
+            catch (OperationCanceledException) when (stoppingToken.IsCancellationRequested)
+            {
+                break;
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Applying scheduled price changes failed.");
+            }
+        }
+        while (await timer.WaitForNextTickAsync(stoppingToken));
+    }
+}
@@ -12,4 +12,8 @@ public class SignalROrderHubContext(IHubContext<OrderHub> hub) : IOrderHubContex
     public Task NotifyShopNewOrderAsync(Guid shopId, Guid orderId, string orderNumber, CancellationToken ct = default)
         => hub.Clients.Group($"shop-orders:{shopId}")
                .SendAsync("NewOrder", new { shopId, orderId, orderNumber }, ct);
+
+    public Task NotifyShopOrderUpdatedAsync(Guid shopId, Guid orderId, string status, CancellationToken ct = default)
+        => hub.Clients.Group($"shop-orders:{shopId}")
+               .SendAsync("OrderUpdated", new { shopId, orderId, status }, ct);
 }
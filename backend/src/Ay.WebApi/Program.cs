@@ -39,6 +39,7 @@ builder.Services.AddInfrastructureServices(builder.Configuration);
 builder.Services.AddScoped<IOrderHubContext, SignalROrderHubContext>();
 builder.Services.AddHostedService<DatabaseMigrationHostedService>();
 builder.Services.AddHostedService<TemplateSeedHostedService>();
+builder.Services.AddHostedService<ScheduledPriceChangeHostedService>();
 builder.Services.AddSingleton<DeploymentVersionState>();
 builder.Services.AddHostedService<DeploymentVersionInitializer>();
 
@@ -0,0 +1,85 @@
+using Ay.Infrastructure.Services;
+using Microsoft.EntityFrameworkCore;
+
+namespace Ay.Infrastructure.Tests;
+
+[Collection(PostgresCollection.Name)]
+public class OrderTransitionConcurrencyTests(PostgresFixture db)
+{
+    [Fact]
+    public async Task ConfirmCannotOverwriteACancel()
+    {
+        var item = await db.SeedItemAsync(3m);
+        var order = await db.SeedPendingOrderAsync(item, 2m);
+
+        await using var customer = db.CreateContext();
+        await using var merchant = db.CreateContext();
+        await using var cancelTx = await customer.Database.BeginTransactionAsync();
+        Assert.True(await OrderCancellationHelper.TryCancelPendingAsync(customer, order.Id));
+
+        var confirm = Task.Run(async () =>
+        {
+            await using var confirmTx = await merchant.Database.BeginTransactionAsync();
+            var moved = await OrderTransitionHelper.TryTransitionAsync(merchant, order.Id, "pending", "confirmed");
+            await confirmTx.CommitAsync();
+            return moved;
+        });
+        await Task.Delay(200);
+        await cancelTx.CommitAsync();
+
+        Assert.False(await confirm);
+        await using var check = db.CreateContext();
+        var saved = await check.Orders.Include(o => o.OrderItems).SingleAsync(o => o.Id == order.Id);
+        Assert.Equal("cancelled", saved.Status);
+        Assert.Null(saved.OrderItems.Single().ReservedQuantity);
+        Assert.Equal(5m, await db.GetStockAsync(item.Id));
+    }
+
+    [Fact]
+    public async Task CancelAfterAConfirmKeepsTheStockReserved()
+    {
+        var item = await db.SeedItemAsync(3m);
+        var order = await db.SeedPendingOrderAsync(item, 2m);
+
+        await using var merchant = db.CreateContext();
+        await using var customer = db.CreateContext();
+        await using var confirmTx = await merchant.Database.BeginTransactionAsync();
+        Assert.True(await OrderTransitionHelper.TryTransitionAsync(merchant, order.Id, "pending", "confirmed"));
+
+        var cancel = Task.Run(async () =>
+        {
+            await using var cancelTx = await customer.Database.BeginTransactionAsync();
+            var cancelled = await OrderCancellationHelper.TryCancelPendingAsync(customer, order.Id);
+            await cancelTx.CommitAsync();
+            return cancelled;
+        });
+        await Task.Delay(200);
+        await confirmTx.CommitAsync();
+
+        Assert.False(await cancel);
+        await using var check = db.CreateContext();
+        var saved = await check.Orders.Include(o => o.OrderItems).SingleAsync(o => o.Id == order.Id);
+        Assert.Equal("confirmed", saved.Status);
+        Assert.Equal(2m, saved.OrderItems.Single().ReservedQuantity);
+        Assert.Equal(3m, await db.GetStockAsync(item.Id));
+    }
+
+    [Fact]
+    public async Task TwoCancelsReturnTheStockOnce()
+    {
+        var item = await db.SeedItemAsync(3m);
+        var order = await db.SeedPendingOrderAsync(item, 2m);
+
+        var results = await Task.WhenAll(Enumerable.Range(0, 2).Select(_ => Task.Run(async () =>
+        {
+            await using var context = db.CreateContext();
+            await using var tx = await context.Database.BeginTransactionAsync();
+            var cancelled = await OrderCancellationHelper.TryCancelPendingAsync(context, order.Id);
+            await tx.CommitAsync();
+            return cancelled;
+        })));
+
+        Assert.Single(results, cancelled => cancelled);
+        Assert.Equal(5m, await db.GetStockAsync(item.Id));
+    }
+}
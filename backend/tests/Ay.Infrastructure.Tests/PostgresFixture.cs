@@ -0,0 +1,102 @@
+using System.Text.Json;
+using Ay.Domain.Entities;
+using Ay.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore;
+using Testcontainers.PostgreSql;
+
+namespace Ay.Infrastructure.Tests;
+
+/// <summary>
+/// One PostGIS container per test run with the app's migrations applied. The concurrency tests need real row locks
+/// and conditional updates, which the in-memory provider does not have. Needs Docker.
+/// </summary>
+public sealed class PostgresFixture : IAsyncLifetime
+{
+    private readonly PostgreSqlContainer container = new PostgreSqlBuilder()
+        .WithImage("postgis/postgis:16-3.4")
+        .Build();
+
+    public async Task InitializeAsync()
+    {
+        await container.StartAsync();
+        await using var context = CreateContext();
+        await context.Database.MigrateAsync();
+    }
+
+    public Task DisposeAsync() => container.DisposeAsync().AsTask();
+
+    /// <summary>A new context on its own connection, like a separate request.</summary>
+    public AppDbContext CreateContext() =>
+        new(new DbContextOptionsBuilder<AppDbContext>()
+            .UseNpgsql(container.GetConnectionString(), npgsql => npgsql.UseNetTopologySuite())
+            .Options);
+
+    public async Task<MerchantItem> SeedItemAsync(decimal stockQuantity)
+    {
+        var item = new MerchantItem
+        {
+            Id = Guid.NewGuid(),
+            ShopId = Guid.NewGuid(),
+            Name = "Basmati rice",
+            PriceCents = 25000,
+            TrackStock = true,
+            StockQuantity = stockQuantity,
+        };
+        await SeedAsync(context => context.MerchantItems.Add(item));
+        return item;
+    }
+
+    /// <summary>A pending order with one line holding <paramref name="reserved"/> of the item's stock.</summary>
+    public async Task<Order> SeedPendingOrderAsync(MerchantItem item, decimal reserved)
+    {
+        var order = new Order
+        {
+            Id = Guid.NewGuid(),
+            OrderNumber = $"T-{Random.Shared.Next(100000, 999999)}",
+            ShopId = item.ShopId,
+            UserId = Guid.NewGuid(),
+            ConsumerAddressId = Guid.NewGuid(),
+            SubtotalCents = item.PriceCents,
+            TotalCents = item.PriceCents,
+            DeliveryAddress = JsonDocument.Parse("{}"),
+            OrderItems =
+            [
+                new OrderItem
+                {
+                    Id = Guid.NewGuid(),
+                    MerchantItemId = item.Id,
+                    ItemName = item.Name!,
+                    ItemPriceCents = item.PriceCents,
+                    Quantity = reserved,
+                    ReservedQuantity = reserved,
+                    SubtotalCents = item.PriceCents,
+                },
+            ],
+        };
+        await SeedAsync(context => context.Orders.Add(order));
+        return order;
+    }
+
+    public async Task<decimal> GetStockAsync(Guid itemId)
+    {
+        await using var context = CreateContext();
+        return await context.MerchantItems.Where(i => i.Id == itemId).Select(i => i.StockQuantity).SingleAsync();
+    }
+
+    // Rows are seeded without their shop, customer and address; replica mode skips the foreign key checks for this
+    // connection only.
+    private async Task SeedAsync(Action<AppDbContext> add)
+    {
+        await using var context = CreateContext();
+        await context.Database.OpenConnectionAsync();
+        await context.Database.ExecuteSqlRawAsync("SET session_replication_role = replica");
+        add(context);
+        await context.SaveChangesAsync();
+    }
+}
+
+[CollectionDefinition(Name)]
+public class PostgresCollection : ICollectionFixture<PostgresFixture>
+{
+    public const string Name = "Postgres";
+}
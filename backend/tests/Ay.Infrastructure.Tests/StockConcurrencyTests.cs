@@ -0,0 +1,67 @@
+using Ay.Infrastructure.Persistence.Repositories;
+using Ay.Infrastructure.Services;
+using Microsoft.EntityFrameworkCore;
+
+namespace Ay.Infrastructure.Tests;
+
+[Collection(PostgresCollection.Name)]
+public class StockConcurrencyTests(PostgresFixture db)
+{
+    [Fact]
+    public async Task TwoCheckoutsCannotBothTakeTheLastUnit()
+    {
+        var item = await db.SeedItemAsync(1m);
+
+        await using var first = db.CreateContext();
+        await using var second = db.CreateContext();
+        await using var firstTx = await first.Database.BeginTransactionAsync();
+        Assert.True(await InventoryStockHelper.TryReserveAsync(first, item, 1m));
+
+        // The second checkout waits on the first one's row lock, then sees the stock it left.
+        var secondReserve = Task.Run(async () =>
+        {
+            await using var secondTx = await second.Database.BeginTransactionAsync();
+            var reserved = await InventoryStockHelper.TryReserveAsync(second, item, 1m);
+            await secondTx.CommitAsync();
+            return reserved;
+        });
+        await Task.Delay(200);
+        await firstTx.CommitAsync();
+
+        Assert.False(await secondReserve);
+        Assert.Equal(0m, await db.GetStockAsync(item.Id));
+    }
+
+    [Fact]
+    public async Task SavingAnItemKeepsStockTakenSinceItWasRead()
+    {
+        var seeded = await db.SeedItemAsync(5m);
+
+        await using var editor = db.CreateContext();
+        var item = await editor.MerchantItems.SingleAsync(i => i.Id == seeded.Id);
+
+        await using (var checkout = db.CreateContext())
+            Assert.True(await InventoryStockHelper.TryReserveAsync(checkout, seeded, 2m));
+
+        item.Name = "Sella rice";
+        await new ItemRepository(editor).UpdateAsync(item);
+
+        Assert.Equal(3m, await db.GetStockAsync(item.Id));
+    }
+
+    [Fact]
+    public async Task AbsoluteStockCountIsRefusedOnceStockMoved()
+    {
+        var seeded = await db.SeedItemAsync(5m);
+
+        await using var editor = db.CreateContext();
+        var item = await editor.MerchantItems.SingleAsync(i => i.Id == seeded.Id);
+
+        await using (var checkout = db.CreateContext())
+            Assert.True(await InventoryStockHelper.TryReserveAsync(checkout, seeded, 1m));
+
+        Assert.False(await new ItemRepository(editor).TrySetStockAsync(item, 5m, 10m));
+        Assert.Equal(4m, item.StockQuantity);
+        Assert.Equal(4m, await db.GetStockAsync(item.Id));
+    }
+}
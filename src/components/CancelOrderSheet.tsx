@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  TouchableWithoutFeedback,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import {
+  CancellationActor,
+  CancellationReasonCode,
+  CUSTOMER_CANCELLATION_REASONS,
+  MERCHANT_CANCELLATION_REASONS,
+} from '../types/orders';
+
+interface CancelOrderSheetProps {
+  visible: boolean;
+  /** Picks the reasons offered: the shop's list or the customer's. */
+  actor: CancellationActor;
+  isSubmitting?: boolean;
+  onClose: () => void;
+  onSubmit: (reasonCode: CancellationReasonCode, note?: string) => void;
+}
+
+/**
+ * Reason picker for cancelling an order, shared by the merchant and customer order screens. A reason is required
+ * and `other` also needs a note.
+ */
+export default function CancelOrderSheet({ visible, actor, isSubmitting, onClose, onSubmit }: CancelOrderSheetProps) {
+  const { t } = useTranslation();
+  const [reasonCode, setReasonCode] = useState<CancellationReasonCode | null>(null);
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setReasonCode(null);
+      setNote('');
+    }
+  }, [visible]);
+
+  const reasons = actor === 'merchant' ? MERCHANT_CANCELLATION_REASONS : CUSTOMER_CANCELLATION_REASONS;
+  const needsNote = reasonCode === 'other' && note.trim().length === 0;
+  const canSubmit = reasonCode !== null && !needsNote && !isSubmitting;
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View className="flex-1 bg-black/50 justify-end">
+          <TouchableWithoutFeedback onPress={() => {}}>
+            <View className="bg-white rounded-t-3xl p-6 pb-10 max-h-[90%]">
+              <Text className="text-xl font-bold text-gray-900 mb-1">{t('orders.cancelSheet.title')}</Text>
+              <Text className="text-sm text-gray-500 mb-4">{t('orders.cancelSheet.subtitle')}</Text>
+
+              <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+                {reasons.map((code) => {
+                  const isSelected = reasonCode === code;
+                  return (
+                    <TouchableOpacity
+                      key={code}
+                      onPress={() => setReasonCode(code)}
+                      activeOpacity={0.7}
+                      className={`flex-row items-center justify-between p-4 mb-2 rounded-xl border ${
+                        isSelected ? 'border-red-500 bg-red-50' : 'border-gray-200 bg-white'
+                      }`}
+                    >
+                      <Text className={`text-base font-semibold ${isSelected ? 'text-red-700' : 'text-gray-900'}`}>
+                        {t(`orders.cancellationReasons.${code}`)}
+                      </Text>
+                      {isSelected && (
+                        <View className="w-5 h-5 rounded-full bg-red-600 items-center justify-center">
+                          <View className="w-2 h-2 rounded-full bg-white" />
+                        </View>
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
+
+                <Text className="text-sm font-semibold text-gray-700 mt-2 mb-2">
+                  {reasonCode === 'other' ? t('orders.cancelSheet.noteRequired') : t('orders.cancelSheet.noteOptional')}
+                </Text>
+                <TextInput
+                  value={note}
+                  onChangeText={setNote}
+                  placeholder={t('orders.cancelSheet.notePlaceholder')}
+                  maxLength={500}
+                  multiline
+                  className="bg-gray-50 border border-gray-200 rounded-xl px-4 py-3 text-base text-gray-900 min-h-[80px]"
+                  textAlignVertical="top"
+                />
+              </ScrollView>
+
+              <TouchableOpacity
+                onPress={() => reasonCode && onSubmit(reasonCode, note.trim() || undefined)}
+                disabled={!canSubmit}
+                className={`mt-6 h-12 rounded-xl items-center justify-center ${canSubmit ? 'bg-red-600' : 'bg-red-300'}`}
+              >
+                {isSubmitting ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text className="text-white text-base font-semibold">{t('orders.cancelSheet.submit')}</Text>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity onPress={onClose} className="mt-3 bg-gray-100 p-4 rounded-xl items-center">
+                <Text className="text-gray-900 font-semibold">{t('orders.cancelSheet.keepOrder')}</Text>
+              </TouchableOpacity>
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+}
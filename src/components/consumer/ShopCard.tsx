@@ -156,11 +156,20 @@ export default function ShopCard({ shop, onPress }: ShopCardProps) {
             {shop.delivery_fee > 0 ? t('shopCard.deliveryFee', { amount: Math.round(shop.delivery_fee) }) : t('shopCard.freeDelivery')}
           </Text>
 
-          {shop.minimumOrderValue !== undefined && shop.minimumOrderValue > 0 && (
+          {shop.leastOrderValue !== undefined && shop.leastOrderValue > 0 && (
             <>
               <Text className="text-gray-300 mx-1.5">•</Text>
               <Text className="text-gray-500 text-sm">
-                {t('shopCard.minOrder', { amount: Math.round(shop.minimumOrderValue) })}
+                {t('shopCard.minOrder', { amount: Math.round(shop.leastOrderValue) })}
+              </Text>
+            </>
+          )}
+
+          {shop.minimumOrderValue !== undefined && shop.minimumOrderValue > (shop.leastOrderValue ?? 0) && (
+            <>
+              <Text className="text-gray-300 mx-1.5">•</Text>
+              <Text className="text-gray-500 text-sm">
+                {t('shopCard.smallOrderFeeBelow', { amount: Math.round(shop.minimumOrderValue) })}
               </Text>
             </>
           )}
@@ -0,0 +1,81 @@
+import React, { useMemo } from 'react';
+import { Modal, View, Text, TouchableOpacity, Pressable, ScrollView } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import type { ShopItem, ShopItemVariant } from '../../services/consumer/shopService';
+
+interface VariantPickerBottomSheetProps {
+  item: ShopItem | null;
+  onClose: () => void;
+  onSelect: (variant: ShopItemVariant) => void;
+}
+
+/**
+ * Lets the shopper pick a size/weight/pack option before an item with variants goes into the cart.
+ * Variants are listed under their option group in the order the merchant set them.
+ */
+export default function VariantPickerBottomSheet({ item, onClose, onSelect }: VariantPickerBottomSheetProps) {
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+
+  const groups = useMemo(() => {
+    const grouped: { name: string | null; variants: ShopItemVariant[] }[] = [];
+    (item?.variants ?? []).forEach((variant) => {
+      const group = grouped.find((g) => g.name === variant.option_group);
+      if (group) {
+        group.variants.push(variant);
+      } else {
+        grouped.push({ name: variant.option_group, variants: [variant] });
+      }
+    });
+    return grouped;
+  }, [item]);
+
+  return (
+    <Modal visible={item !== null} animationType="slide" transparent onRequestClose={onClose}>
+      <Pressable className="flex-1 justify-end bg-black/40" onPress={onClose}>
+        <Pressable
+          className="bg-white rounded-t-3xl"
+          style={{
+            maxHeight: '70%',
+            paddingBottom: Math.max(insets.bottom, 16),
+          }}
+          onPress={(e) => e.stopPropagation()}
+        >
+          <View className="px-5 pt-4 pb-2">
+            {/* Grabber */}
+            <View className="items-center mb-4">
+              <View className="w-12 h-1.5 bg-gray-300 rounded-full" />
+            </View>
+
+            <Text className="text-xl font-bold text-gray-900 mb-1">{item?.name}</Text>
+            <Text className="text-sm text-gray-600 mb-4">{t('shop.chooseOption')}</Text>
+          </View>
+
+          <ScrollView className="px-5" contentContainerStyle={{ paddingBottom: 8 }}>
+            {groups.map((group) => (
+              <View key={group.name ?? 'default'} className="mb-4">
+                {group.name ? (
+                  <Text className="text-xs font-semibold text-gray-500 uppercase mb-2">{group.name}</Text>
+                ) : null}
+                {group.variants.map((variant) => (
+                  <TouchableOpacity
+                    key={variant.id}
+                    onPress={() => onSelect(variant)}
+                    className="flex-row items-center justify-between border border-gray-200 rounded-xl px-4 py-3 mb-2"
+                    activeOpacity={0.7}
+                  >
+                    <Text className="text-base text-gray-900">{variant.name}</Text>
+                    <Text className="text-base font-semibold text-gray-900">
+                      Rs {(variant.price_cents / 100).toFixed(0)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ))}
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
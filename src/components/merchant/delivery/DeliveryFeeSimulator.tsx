@@ -0,0 +1,304 @@
+import React, { useMemo, useState } from 'react';
+import { ActivityIndicator, Text, TouchableOpacity, View, type LayoutChangeEvent } from 'react-native';
+import Svg, { Line, Polyline } from 'react-native-svg';
+import MapView, { Marker as MapMarker, Polygon as MapPolygon, PROVIDER_GOOGLE, type LatLng, type MapPressEvent } from 'react-native-maps';
+import { useQuery } from 'react-query';
+import { useTranslation } from 'react-i18next';
+import type { DeliveryArea, DeliveryZone } from '../../../types/delivery';
+import type { MerchantShop } from '../../../services/merchant/shopService';
+import { calculateDistance, type DeliveryLogic } from '../../../services/merchant/deliveryLogicService';
+import { estimateFees, findDeliveryZone } from '../../../services/feeQuote';
+import { getRoadDistance } from '../../../services/routingDistance';
+
+type DeliveryFeeSimulatorProps = {
+  shop: MerchantShop;
+  areas?: DeliveryArea[];
+  liveLogic: DeliveryLogic;
+  /** Unsaved settings from the delivery forms; null when there are none. */
+  draftLogic: DeliveryLogic | null;
+  saving?: boolean;
+  onSaveDraft: () => void;
+  onDiscardDraft: () => void;
+};
+
+const CHART_HEIGHT = 140;
+const CHART_VERTICAL_PADDING = 8;
+const CHART_HORIZONTAL_PADDING = 4;
+const CONTAINER_PADDING = 24; // p-3 on both sides
+const SAMPLE_COUNT = 100;
+const MAP_HEIGHT = 180;
+const SERIES_COLORS = ['#f59e0b', '#2563eb', '#16a34a'];
+
+/**
+ * Order values worth comparing: just over the least order value (small order surcharge), the minimum order value and
+ * the free delivery threshold.
+ */
+function sampleOrderValues(logic: DeliveryLogic): number[] {
+  return Array.from(new Set([logic.leastOrderValue, logic.minimumOrderValue, logic.freeDeliveryThreshold]))
+    .filter((value) => value > 0)
+    .sort((a, b) => a - b);
+}
+
+/** Far enough past the last tier and the free delivery radius to show where the fee levels off at the cap. */
+function chartMaxDistance(logics: DeliveryLogic[]): number {
+  const furthest = Math.max(
+    1000,
+    ...logics.flatMap((logic) => [
+      ...logic.distanceTiers.map((tier) => tier.max_distance * 2),
+      logic.freeDeliveryRadius * 1.5,
+    ])
+  );
+  return Math.min(10000, Math.ceil(furthest / 500) * 500);
+}
+
+// What the customer pays on top of the items: delivery fee (after any discount, with any peak fee) plus surcharge
+function chargesCents(orderValue: number, distance: number, logic: DeliveryLogic, at: Date, zone: DeliveryZone | null = null): number {
+  const fees = estimateFees(Math.round(orderValue * 100), distance, logic, at, zone);
+  return fees.delivery_fee_cents + fees.surcharge_cents;
+}
+
+function formatRupees(cents: number): string {
+  return `Rs ${(cents / 100).toFixed(0)}`;
+}
+
+function formatDistance(meters: number): string {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+}
+
+/**
+ * Plots what customers pay for delivery against distance for a few order values, using the same fee rules as
+ * checkout at the current time. With a draft, the saved settings are drawn dashed underneath so the two can be
+ * compared before saving. Tapping the map drops a test pin and quotes that exact spot, including its zone's fee.
+ */
+export function DeliveryFeeSimulator({
+  shop,
+  areas,
+  liveLogic,
+  draftLogic,
+  saving,
+  onSaveDraft,
+  onDiscardDraft,
+}: DeliveryFeeSimulatorProps) {
+  const { t } = useTranslation();
+  const [width, setWidth] = useState(0);
+  const [pin, setPin] = useState<LatLng | null>(null);
+  // Fixed for the life of the panel so the chart does not shift while it is open
+  const [at] = useState(() => new Date());
+
+  const logic = draftLogic ?? liveLogic;
+  const orderValues = useMemo(() => sampleOrderValues(logic), [logic]);
+  const pinStraightDistance = pin ? calculateDistance(shop.latitude, shop.longitude, pin.latitude, pin.longitude) : null;
+  const pinZone = pin ? findDeliveryZone(areas ?? [], pin) : null;
+  const usesRoadDistance = liveLogic.distanceMode === 'road' || draftLogic?.distanceMode === 'road';
+  const { data: pinRoadDistance } = useQuery(
+    ['roadDistance', shop.id, pin?.latitude, pin?.longitude],
+    () => getRoadDistance(shop, pin!),
+    { enabled: !!pin && usesRoadDistance, staleTime: Infinity }
+  );
+  // Each side of the comparison is priced on its own distance mode
+  const pinDistanceFor = (source: DeliveryLogic, straightDistance: number) =>
+    source.distanceMode === 'road' ? pinRoadDistance ?? straightDistance : straightDistance;
+  const pinDistance = pinStraightDistance !== null ? pinDistanceFor(logic, pinStraightDistance) : null;
+
+  const chart = useMemo(() => {
+    if (width === 0) {
+      return null;
+    }
+    const logics = draftLogic ? [liveLogic, draftLogic] : [liveLogic];
+    const maxDistance = chartMaxDistance(logics);
+    const distances = Array.from({ length: SAMPLE_COUNT + 1 }, (_, i) => (maxDistance * i) / SAMPLE_COUNT);
+    const seriesFor = (source: DeliveryLogic) =>
+      orderValues.map((orderValue) => distances.map((distance) => chargesCents(orderValue, distance, source, at)));
+    const draftSeries = draftLogic ? seriesFor(draftLogic) : null;
+    const liveSeries = seriesFor(liveLogic);
+    const maxCents = Math.max(100, ...liveSeries.flat(), ...(draftSeries?.flat() ?? []));
+    const plotWidth = width - CHART_HORIZONTAL_PADDING * 2;
+
+    const toX = (distance: number) => CHART_HORIZONTAL_PADDING + (distance / maxDistance) * plotWidth;
+    const toY = (cents: number) => CHART_VERTICAL_PADDING + (1 - cents / maxCents) * CHART_HEIGHT;
+    const toPoints = (series: number[]) =>
+      series.map((cents, i) => `${toX(distances[i])},${toY(cents)}`).join(' ');
+
+    return {
+      maxDistance,
+      maxCents,
+      live: liveSeries.map(toPoints),
+      draft: draftSeries?.map(toPoints) ?? null,
+      pinX: pinDistance !== null && pinDistance <= maxDistance ? toX(pinDistance) : null,
+    };
+  }, [width, liveLogic, draftLogic, orderValues, at, pinDistance]);
+
+  const onLayout = (event: LayoutChangeEvent) =>
+    setWidth(Math.max(0, event.nativeEvent.layout.width - CONTAINER_PADDING));
+
+  const handleMapPress = (event: MapPressEvent) => setPin(event.nativeEvent.coordinate);
+
+  return (
+    <View>
+      {draftLogic ? (
+        <View className="bg-amber-50 border border-amber-100 rounded-xl p-3 mb-3">
+          <Text className="text-xs font-semibold text-amber-900">{t('merchant.delivery.simulator.draftTitle')}</Text>
+          <Text className="text-xs text-amber-700 mt-1">{t('merchant.delivery.simulator.draftDesc')}</Text>
+          <View className="flex-row space-x-3 mt-3">
+            <TouchableOpacity
+              className="flex-1 h-10 rounded-xl border border-amber-200 bg-white items-center justify-center"
+              onPress={onDiscardDraft}
+              disabled={saving}
+            >
+              <Text className="text-sm font-semibold text-amber-900">{t('merchant.delivery.simulator.discardDraft')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              className="flex-1 h-10 rounded-xl bg-blue-600 items-center justify-center"
+              onPress={onSaveDraft}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Text className="text-sm font-semibold text-white">{t('merchant.delivery.simulator.saveDraft')}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : null}
+
+      {/* Legend */}
+      <View className="flex-row flex-wrap mb-2">
+        {orderValues.map((orderValue, index) => (
+          <View key={orderValue} className="flex-row items-center mr-3 mb-1">
+            <View className="w-3 h-3 rounded-full mr-1" style={{ backgroundColor: SERIES_COLORS[index] }} />
+            <Text className="text-xs text-gray-600">
+              {t('merchant.delivery.simulator.orderOf', { amount: orderValue.toFixed(0) })}
+            </Text>
+          </View>
+        ))}
+        {draftLogic ? (
+          <Text className="text-xs text-gray-500 mb-1">{t('merchant.delivery.simulator.dashedIsLive')}</Text>
+        ) : null}
+      </View>
+
+      {/* Chart */}
+      <View className="bg-gray-50 border border-gray-200 rounded-xl p-3" onLayout={onLayout}>
+        {chart ? (
+          <>
+            <Text className="text-xs text-gray-500 mb-1">{formatRupees(chart.maxCents)}</Text>
+            <Svg width={width} height={CHART_HEIGHT + CHART_VERTICAL_PADDING * 2}>
+              {[0, 0.5, 1].map((fraction) => {
+                const y = CHART_VERTICAL_PADDING + fraction * CHART_HEIGHT;
+                return <Polyline key={fraction} points={`0,${y} ${width},${y}`} stroke="#e5e7eb" strokeWidth={1} />;
+              })}
+              {chart.live.map((points, index) => (
+                <Polyline
+                  key={`live-${index}`}
+                  points={points}
+                  stroke={SERIES_COLORS[index]}
+                  strokeWidth={chart.draft ? 1.5 : 2}
+                  strokeDasharray={chart.draft ? '4,4' : undefined}
+                  strokeOpacity={chart.draft ? 0.6 : 1}
+                  fill="none"
+                />
+              ))}
+              {chart.draft?.map((points, index) => (
+                <Polyline key={`draft-${index}`} points={points} stroke={SERIES_COLORS[index]} strokeWidth={2} fill="none" />
+              ))}
+              {chart.pinX !== null ? (
+                <Line
+                  x1={chart.pinX}
+                  y1={CHART_VERTICAL_PADDING}
+                  x2={chart.pinX}
+                  y2={CHART_VERTICAL_PADDING + CHART_HEIGHT}
+                  stroke="#dc2626"
+                  strokeWidth={1}
+                />
+              ) : null}
+            </Svg>
+            <View className="flex-row justify-between mt-1">
+              <Text className="text-xs text-gray-500">0 m</Text>
+              <Text className="text-xs text-gray-500">{formatDistance(chart.maxDistance)}</Text>
+            </View>
+          </>
+        ) : (
+          <View style={{ height: CHART_HEIGHT }} />
+        )}
+      </View>
+
+      {/* Test Pin */}
+      <Text className="text-xs font-semibold text-gray-700 mt-4 mb-2">{t('merchant.delivery.simulator.testPinTitle')}</Text>
+      <View className="rounded-xl overflow-hidden border border-gray-200" style={{ height: MAP_HEIGHT }}>
+        <MapView
+          style={{ flex: 1 }}
+          provider={PROVIDER_GOOGLE}
+          initialRegion={{
+            latitude: shop.latitude,
+            longitude: shop.longitude,
+            latitudeDelta: 0.03,
+            longitudeDelta: 0.03,
+          }}
+          onPress={handleMapPress}
+          rotateEnabled={false}
+          pitchEnabled={false}
+          showsUserLocation={false}
+          showsMyLocationButton={false}
+        >
+          <MapMarker coordinate={{ latitude: shop.latitude, longitude: shop.longitude }} pinColor="#16a34a" title={shop.name} />
+          {(areas ?? []).map((area) => (
+            <MapPolygon
+              key={area.id}
+              coordinates={area.coordinates}
+              strokeColor="#16a34a"
+              fillColor="#16a34a20"
+              strokeWidth={1}
+            />
+          ))}
+          {pin ? <MapMarker coordinate={pin} pinColor="#dc2626" /> : null}
+        </MapView>
+      </View>
+
+      {pin && pinStraightDistance !== null ? (
+        <View className="bg-gray-50 border border-gray-100 rounded-xl p-3 mt-2">
+          <Text className="text-xs text-gray-600 mb-2">
+            {t('merchant.delivery.simulator.pinDistance', { distance: formatDistance(pinStraightDistance) })}
+          </Text>
+          {usesRoadDistance && pinRoadDistance != null ? (
+            <Text className="text-xs text-gray-600 mb-2">
+              {t('merchant.delivery.simulator.pinRoadDistance', { distance: formatDistance(pinRoadDistance) })}
+            </Text>
+          ) : null}
+          {pinZone?.deliveryFee != null ? (
+            <Text className="text-xs text-gray-600 mb-2">
+              {t('merchant.delivery.simulator.pinZoneFee', { zone: pinZone.label, amount: pinZone.deliveryFee.toFixed(0) })}
+            </Text>
+          ) : null}
+          <View className="flex-row mb-1">
+            <Text className="flex-1 text-xs font-semibold text-gray-600">{t('merchant.delivery.simulator.order')}</Text>
+            <Text className="flex-1 text-xs font-semibold text-gray-600 text-right">{t('merchant.delivery.simulator.live')}</Text>
+            {draftLogic ? (
+              <Text className="flex-1 text-xs font-semibold text-gray-600 text-right">{t('merchant.delivery.simulator.draft')}</Text>
+            ) : null}
+          </View>
+          {orderValues.map((orderValue) => {
+            const live = chargesCents(orderValue, pinDistanceFor(liveLogic, pinStraightDistance), liveLogic, at, pinZone);
+            const draft = draftLogic ? chargesCents(orderValue, pinDistanceFor(draftLogic, pinStraightDistance), draftLogic, at, pinZone) : null;
+            return (
+              <View key={orderValue} className="flex-row py-1 border-t border-gray-100">
+                <Text className="flex-1 text-xs text-gray-900">Rs {orderValue.toFixed(0)}</Text>
+                <Text className="flex-1 text-xs text-gray-900 text-right">{formatRupees(live)}</Text>
+                {draft !== null ? (
+                  <Text
+                    className={`flex-1 text-xs font-semibold text-right ${
+                      draft > live ? 'text-red-600' : draft < live ? 'text-emerald-600' : 'text-gray-900'
+                    }`}
+                  >
+                    {formatRupees(draft)}
+                  </Text>
+                ) : null}
+              </View>
+            );
+          })}
+        </View>
+      ) : (
+        <Text className="text-xs text-gray-500 mt-2">{t('merchant.delivery.simulator.testPinHint')}</Text>
+      )}
+    </View>
+  );
+}
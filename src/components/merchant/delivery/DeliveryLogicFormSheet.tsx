@@ -49,18 +49,22 @@ const schema = z.object({
 
 type DeliveryLogicFormState = z.infer<typeof schema>;
 
+type DeliveryLogicFormValues = {
+  minimumOrderValue: number;
+  smallOrderSurcharge: number;
+  leastOrderValue: number;
+  freeDeliveryThreshold: number;
+  freeDeliveryRadius: number;
+};
+
 type DeliveryLogicFormSheetProps = {
   visible: boolean;
   defaultLogic?: DeliveryLogic | null;
   loading?: boolean;
   onClose: () => void;
-  onSubmit: (values: {
-    minimumOrderValue: number;
-    smallOrderSurcharge: number;
-    leastOrderValue: number;
-    freeDeliveryThreshold: number;
-    freeDeliveryRadius: number;
-  }) => void;
+  onSubmit: (values: DeliveryLogicFormValues) => void;
+  /** Hands the values to the fee simulator as a draft instead of saving them. */
+  onPreview?: (values: DeliveryLogicFormValues) => void;
 };
 
 export function DeliveryLogicFormSheet({
@@ -69,6 +73,7 @@ export function DeliveryLogicFormSheet({
   loading,
   onClose,
   onSubmit,
+  onPreview,
 }: DeliveryLogicFormSheetProps) {
   const { t } = useTranslation();
   const defaultValues = useMemo(() => {
@@ -98,6 +103,17 @@ export function DeliveryLogicFormSheet({
 
   const watchedValues = watch();
 
+  const submitWith = (handler: (values: DeliveryLogicFormValues) => void) =>
+    handleSubmit((values) => {
+      handler({
+        minimumOrderValue: parseFloat(values.minimumOrderValue),
+        smallOrderSurcharge: parseFloat(values.smallOrderSurcharge),
+        leastOrderValue: parseFloat(values.leastOrderValue),
+        freeDeliveryThreshold: parseFloat(values.freeDeliveryThreshold),
+        freeDeliveryRadius: parseFloat(values.freeDeliveryRadius),
+      });
+    });
+
   useEffect(() => {
     if (visible) {
       reset(defaultValues);
@@ -306,6 +322,15 @@ export function DeliveryLogicFormSheet({
           </ScrollView>
 
           <View className="px-6 py-4 border-t border-gray-100">
+            {onPreview ? (
+              <TouchableOpacity
+                className="h-10 mb-3 rounded-xl bg-blue-50 items-center justify-center"
+                onPress={submitWith(onPreview)}
+                disabled={loading}
+              >
+                <Text className="text-sm font-semibold text-blue-600">{t('merchant.delivery.simulator.previewDraft')}</Text>
+              </TouchableOpacity>
+            ) : null}
             <View className="flex-row space-x-3">
               <TouchableOpacity
                 className="flex-1 h-12 rounded-xl border border-gray-200 items-center justify-center"
@@ -316,15 +341,7 @@ export function DeliveryLogicFormSheet({
               </TouchableOpacity>
               <TouchableOpacity
                 className="flex-1 h-12 rounded-xl bg-blue-600 items-center justify-center"
-                onPress={handleSubmit((values) => {
-                  onSubmit({
-                    minimumOrderValue: parseFloat(values.minimumOrderValue),
-                    smallOrderSurcharge: parseFloat(values.smallOrderSurcharge),
-                    leastOrderValue: parseFloat(values.leastOrderValue),
-                    freeDeliveryThreshold: parseFloat(values.freeDeliveryThreshold),
-                    freeDeliveryRadius: parseFloat(values.freeDeliveryRadius),
-                  });
-                })}
+                onPress={submitWith(onSubmit)}
                 disabled={loading}
               >
                 {loading ? (
@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo } from 'react';
+import { Modal, View, Text, TouchableOpacity, TextInput, ScrollView, Pressable, Dimensions } from 'react-native';
+import { Controller, useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useTranslation } from 'react-i18next';
+import type { DeliveryZone } from '../../../types/delivery';
+
+const SCREEN_HEIGHT = Dimensions.get('window').height;
+const SHEET_HEIGHT = Math.round(SCREEN_HEIGHT * 0.7); // 70% of screen height
+
+const optionalAmount = z
+  .string()
+  .regex(/^(\d+(\.\d+)?)?$/, 'Enter a valid amount');
+
+const schema = z.object({
+  label: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(200, 'Name must be under 200 characters'),
+  deliveryFee: optionalAmount,
+  minimumOrderValue: optionalAmount.refine((value) => value === '' || Number(value) > 0, 'Must be greater than 0'),
+  etaMinutes: z
+    .string()
+    .regex(/^\d*$/, 'Enter whole minutes')
+    .refine((value) => value === '' || (Number(value) >= 1 && Number(value) <= 240), 'Between 1 and 240 minutes'),
+});
+
+type DeliveryZoneFormState = z.infer<typeof schema>;
+
+type DeliveryZoneFormValues = Pick<DeliveryZone, 'label' | 'deliveryFee' | 'minimumOrderValue' | 'etaMinutes'>;
+
+type DeliveryZoneFormSheetProps = {
+  visible: boolean;
+  defaultZone?: DeliveryZoneFormValues | null;
+  onClose: () => void;
+  onSubmit: (values: DeliveryZoneFormValues) => void;
+  onDelete?: () => void;
+};
+
+function toField(value: number | null | undefined): string {
+  return value == null ? '' : String(value);
+}
+
+function toNullableNumber(value: string): number | null {
+  return value === '' ? null : Number(value);
+}
+
+/**
+ * Name and overrides for one delivery area. Blank overrides fall back to the shop's delivery settings.
+ */
+export function DeliveryZoneFormSheet({ visible, defaultZone, onClose, onSubmit, onDelete }: DeliveryZoneFormSheetProps) {
+  const { t } = useTranslation();
+  const defaultValues = useMemo(
+    () => ({
+      label: defaultZone?.label ?? '',
+      deliveryFee: toField(defaultZone?.deliveryFee),
+      minimumOrderValue: toField(defaultZone?.minimumOrderValue),
+      etaMinutes: toField(defaultZone?.etaMinutes),
+    }),
+    [defaultZone]
+  );
+
+  const { control, handleSubmit, reset } = useForm<DeliveryZoneFormState>({
+    resolver: zodResolver(schema),
+    defaultValues,
+    mode: 'onChange',
+  });
+
+  useEffect(() => {
+    if (visible) {
+      reset(defaultValues);
+    }
+  }, [visible, reset, defaultValues]);
+
+  const submit = handleSubmit((values) =>
+    onSubmit({
+      label: values.label.trim(),
+      deliveryFee: toNullableNumber(values.deliveryFee),
+      minimumOrderValue: toNullableNumber(values.minimumOrderValue),
+      etaMinutes: toNullableNumber(values.etaMinutes),
+    })
+  );
+
+  const numberField = (
+    name: 'deliveryFee' | 'minimumOrderValue' | 'etaMinutes',
+    label: string,
+    hint: string,
+    placeholder: string
+  ) => (
+    <Controller
+      control={control}
+      name={name}
+      render={({ field: { value, onChange }, fieldState }) => (
+        <View className="mt-5">
+          <Text className="text-sm font-semibold text-gray-700">{label}</Text>
+          <Text className="text-xs text-gray-500 mt-1">{hint}</Text>
+          <TextInput
+            value={value}
+            onChangeText={onChange}
+            keyboardType={name === 'etaMinutes' ? 'number-pad' : 'decimal-pad'}
+            className="mt-2 border border-gray-200 rounded-xl px-4 py-3 text-base text-gray-900 bg-white"
+            placeholder={placeholder}
+          />
+          {fieldState.error ? (
+            <Text className="text-xs text-red-500 mt-1">{fieldState.error.message}</Text>
+          ) : null}
+        </View>
+      )}
+    />
+  );
+
+  return (
+    <Modal visible={visible} onRequestClose={onClose} animationType="slide" transparent>
+      <View className="flex-1 justify-end bg-black/40">
+        <Pressable className="flex-1" onPress={onClose} />
+        <View className="bg-white rounded-t-3xl" style={{ height: SHEET_HEIGHT }}>
+          {/* Grabber Handle */}
+          <View className="items-center pt-3 pb-2">
+            <View className="w-12 h-1.5 bg-gray-300 rounded-full" />
+          </View>
+
+          <View className="px-6 pb-3 border-b border-gray-100">
+            <Text className="text-xl font-semibold text-gray-900">{t('merchant.delivery.zoneForm.title')}</Text>
+            <Text className="text-xs text-gray-500 mt-2">{t('merchant.delivery.zoneForm.description')}</Text>
+          </View>
+          <ScrollView
+            className="flex-1 px-6"
+            contentContainerStyle={{ paddingBottom: 24 }}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          >
+            <Controller
+              control={control}
+              name="label"
+              render={({ field: { value, onChange }, fieldState }) => (
+                <View className="mt-6">
+                  <Text className="text-sm font-semibold text-gray-700">{t('merchant.delivery.zoneForm.name')}</Text>
+                  <TextInput
+                    value={value}
+                    onChangeText={onChange}
+                    className="mt-2 border border-gray-200 rounded-xl px-4 py-3 text-base text-gray-900 bg-white"
+                    placeholder={t('merchant.delivery.zoneForm.namePlaceholder')}
+                  />
+                  {fieldState.error ? (
+                    <Text className="text-xs text-red-500 mt-1">{fieldState.error.message}</Text>
+                  ) : null}
+                </View>
+              )}
+            />
+
+            {numberField(
+              'deliveryFee',
+              t('merchant.delivery.zoneForm.deliveryFee'),
+              t('merchant.delivery.zoneForm.deliveryFeeDesc'),
+              t('merchant.delivery.zoneForm.useDistanceTiers')
+            )}
+            {numberField(
+              'minimumOrderValue',
+              t('merchant.delivery.zoneForm.minimumOrder'),
+              t('merchant.delivery.zoneForm.minimumOrderDesc'),
+              t('merchant.delivery.zoneForm.useShopSetting')
+            )}
+            {numberField(
+              'etaMinutes',
+              t('merchant.delivery.zoneForm.eta'),
+              t('merchant.delivery.zoneForm.etaDesc'),
+              t('merchant.delivery.zoneForm.notSet')
+            )}
+          </ScrollView>
+
+          <View className="px-6 py-4 border-t border-gray-100 space-y-3">
+            <View className="flex-row space-x-3">
+              <TouchableOpacity
+                className="flex-1 h-12 rounded-xl border border-gray-200 items-center justify-center"
+                onPress={onClose}
+              >
+                <Text className="text-sm font-semibold text-gray-600">{t('merchant.delivery.zoneForm.cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity className="flex-1 h-12 rounded-xl bg-blue-600 items-center justify-center" onPress={submit}>
+                <Text className="text-sm font-semibold text-white">{t('merchant.delivery.zoneForm.apply')}</Text>
+              </TouchableOpacity>
+            </View>
+            {onDelete ? (
+              <TouchableOpacity
+                className="h-12 rounded-xl border border-red-200 items-center justify-center"
+                onPress={onDelete}
+              >
+                <Text className="text-sm font-semibold text-red-600">{t('merchant.delivery.zoneForm.removeZone')}</Text>
+              </TouchableOpacity>
+            ) : null}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
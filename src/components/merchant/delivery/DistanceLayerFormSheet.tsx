@@ -1,10 +1,10 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { ActivityIndicator, Modal, View, Text, TouchableOpacity, TextInput, ScrollView, Pressable, Dimensions, Switch } from 'react-native';
+import { ActivityIndicator, Modal, View, Text, TouchableOpacity, TextInput, ScrollView, Pressable, Dimensions } from 'react-native';
 import { Controller, useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useTranslation } from 'react-i18next';
-import type { DeliveryLogic, DistanceTier } from '../../../services/merchant/deliveryLogicService';
+import type { DeliveryLogic, DistanceMode, DistanceTier } from '../../../services/merchant/deliveryLogicService';
 
 const SCREEN_HEIGHT = Dimensions.get('window').height;
 const SHEET_HEIGHT = Math.round(SCREEN_HEIGHT * 0.8); // 80% for more content
@@ -35,18 +35,22 @@ const schema = z.object({
 
 type DistanceLayerFormState = z.infer<typeof schema>;
 
+type DistanceLayerFormValues = {
+  distanceMode: DistanceMode;
+  maxDeliveryFee: number;
+  distanceTiers?: DistanceTier[];
+  beyondTierFeePerUnit: number;
+  beyondTierDistanceUnit: number;
+};
+
 type DistanceLayerFormSheetProps = {
   visible: boolean;
   defaultLogic?: DeliveryLogic | null;
   loading?: boolean;
   onClose: () => void;
-  onSubmit: (values: {
-    distanceMode: 'auto' | 'custom';
-    maxDeliveryFee: number;
-    distanceTiers?: DistanceTier[];
-    beyondTierFeePerUnit: number;
-    beyondTierDistanceUnit: number;
-  }) => void;
+  onSubmit: (values: DistanceLayerFormValues) => void;
+  /** Hands the values to the fee simulator as a draft instead of saving them. */
+  onPreview?: (values: DistanceLayerFormValues) => void;
 };
 
 const DEFAULT_TIERS: DistanceTier[] = [
@@ -63,9 +67,12 @@ export function DistanceLayerFormSheet({
   loading,
   onClose,
   onSubmit,
+  onPreview,
 }: DistanceLayerFormSheetProps) {
   const { t } = useTranslation();
-  const [distanceMode, setDistanceMode] = useState<'auto' | 'custom'>('auto');
+  const [distanceMode, setDistanceMode] = useState<DistanceMode>('auto');
+  // Custom and road modes both price on the shop's own tiers
+  const usesCustomTiers = distanceMode !== 'auto';
   const [customTiers, setCustomTiers] = useState<DistanceTier[]>(DEFAULT_TIERS);
   const [tierInputs, setTierInputs] = useState<{ distance: string; fee: string }[]>(
     DEFAULT_TIERS.map(t => ({ distance: t.max_distance.toString(), fee: t.fee.toString() }))
@@ -111,7 +118,7 @@ export function DistanceLayerFormSheet({
       // Validate tiers with the max delivery fee after a short delay to ensure form is reset
       setTimeout(() => {
         const maxFee = defaultLogic?.maxDeliveryFee || parseFloat(defaultValues.maxDeliveryFee);
-        if (defaultLogic?.distanceMode === 'custom' || !defaultLogic) {
+        if (!defaultLogic || defaultLogic.distanceMode !== 'auto') {
           validateTiers(tiersToSet, maxFee);
         } else {
           setValidationErrors({});
@@ -227,17 +234,34 @@ export function DistanceLayerFormSheet({
 
   // Re-validate tiers when maxDeliveryFee changes
   useEffect(() => {
-    if (distanceMode === 'custom' && watchedValues.maxDeliveryFee) {
+    if (usesCustomTiers && watchedValues.maxDeliveryFee) {
       const maxFee = parseFloat(watchedValues.maxDeliveryFee);
       if (!isNaN(maxFee)) {
         validateTiers(customTiers, maxFee);
       }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [watchedValues.maxDeliveryFee, distanceMode]);
+  }, [watchedValues.maxDeliveryFee, usesCustomTiers]);
 
   const hasValidationErrors = Object.keys(validationErrors).length > 0;
 
+  const submitWith = (handler: (values: DistanceLayerFormValues) => void) =>
+    handleSubmit((values) => {
+      // Validate custom tiers before submitting
+      const maxFee = parseFloat(values.maxDeliveryFee);
+      if (usesCustomTiers && !validateTiers(customTiers, maxFee)) {
+        return;
+      }
+
+      handler({
+        distanceMode,
+        maxDeliveryFee: maxFee,
+        distanceTiers: usesCustomTiers ? customTiers : undefined,
+        beyondTierFeePerUnit: parseFloat(values.beyondTierFeePerUnit),
+        beyondTierDistanceUnit: parseFloat(values.beyondTierDistanceUnit),
+      });
+    });
+
   return (
     <Modal visible={visible} onRequestClose={onClose} animationType="slide" transparent>
       <View className="flex-1 justify-end bg-black/40">
@@ -263,23 +287,24 @@ export function DistanceLayerFormSheet({
           >
             {/* Distance Mode Toggle */}
             <View className="mt-6">
-              <View className="flex-row justify-between items-center mb-3">
-                <View className="flex-1">
-                  <Text className="text-sm font-semibold text-gray-700">{t('merchant.delivery.distanceForm.distancePricingMode')}</Text>
-                  <Text className="text-xs text-gray-500 mt-1">
-                    {distanceMode === 'auto' 
-                      ? t('merchant.delivery.distanceForm.autoModeDesc')
-                      : t('merchant.delivery.distanceForm.customModeDesc')}
-                  </Text>
-                </View>
-                <View className="flex-row items-center space-x-2">
-                  <Text className="text-xs text-gray-600">{t('merchant.delivery.distanceForm.auto')}</Text>
-                  <Switch 
-                    value={distanceMode === 'custom'} 
-                    onValueChange={(val) => setDistanceMode(val ? 'custom' : 'auto')}
-                  />
-                  <Text className="text-xs text-gray-600">{t('merchant.delivery.distanceForm.custom')}</Text>
+              <View className="mb-3">
+                <Text className="text-sm font-semibold text-gray-700">{t('merchant.delivery.distanceForm.distancePricingMode')}</Text>
+                <View className="flex-row mt-2 space-x-2">
+                  {(['auto', 'custom', 'road'] as const).map((mode) => (
+                    <TouchableOpacity
+                      key={mode}
+                      className={`flex-1 h-10 rounded-xl items-center justify-center border ${distanceMode === mode ? 'bg-blue-600 border-blue-600' : 'bg-white border-gray-200'}`}
+                      onPress={() => setDistanceMode(mode)}
+                    >
+                      <Text className={`text-sm font-semibold ${distanceMode === mode ? 'text-white' : 'text-gray-700'}`}>
+                        {t(`merchant.delivery.distanceForm.${mode}`)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
                 </View>
+                <Text className="text-xs text-gray-500 mt-2">
+                  {t(`merchant.delivery.distanceForm.${distanceMode}ModeDesc`)}
+                </Text>
               </View>
 
               {distanceMode === 'auto' ? (
@@ -519,6 +544,15 @@ export function DistanceLayerFormSheet({
           </ScrollView>
 
           <View className="px-6 py-4 border-t border-gray-100">
+            {onPreview ? (
+              <TouchableOpacity
+                className="h-10 mb-3 rounded-xl bg-blue-50 items-center justify-center"
+                onPress={submitWith(onPreview)}
+                disabled={loading || (usesCustomTiers && hasValidationErrors)}
+              >
+                <Text className="text-sm font-semibold text-blue-600">{t('merchant.delivery.simulator.previewDraft')}</Text>
+              </TouchableOpacity>
+            ) : null}
             <View className="flex-row space-x-3">
               <TouchableOpacity
                 className="flex-1 h-12 rounded-xl border border-gray-200 items-center justify-center"
@@ -529,22 +563,8 @@ export function DistanceLayerFormSheet({
               </TouchableOpacity>
               <TouchableOpacity
                 className="flex-1 h-12 rounded-xl bg-blue-600 items-center justify-center"
-                onPress={handleSubmit((values) => {
-                  // Validate custom tiers before submitting
-                  const maxFee = parseFloat(values.maxDeliveryFee);
-                  if (distanceMode === 'custom' && !validateTiers(customTiers, maxFee)) {
-                    return;
-                  }
-
-                  onSubmit({
-                    distanceMode,
-                    maxDeliveryFee: maxFee,
-                    distanceTiers: distanceMode === 'custom' ? customTiers : undefined,
-                    beyondTierFeePerUnit: parseFloat(values.beyondTierFeePerUnit),
-                    beyondTierDistanceUnit: parseFloat(values.beyondTierDistanceUnit),
-                  });
-                })}
-                disabled={loading || (distanceMode === 'custom' && hasValidationErrors)}
+                onPress={submitWith(onSubmit)}
+                disabled={loading || (usesCustomTiers && hasValidationErrors)}
               >
                 {loading ? (
                   <ActivityIndicator size="small" color="#FFFFFF" />
@@ -0,0 +1,344 @@
+import React, { useEffect, useMemo } from 'react';
+import { ActivityIndicator, Modal, View, Text, TouchableOpacity, TextInput, ScrollView, Pressable, Dimensions } from 'react-native';
+import { Controller, useFieldArray, useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useTranslation } from 'react-i18next';
+import type { DeliveryLogic, PeakWindow } from '../../../services/merchant/deliveryLogicService';
+
+const SCREEN_HEIGHT = Dimensions.get('window').height;
+const SHEET_HEIGHT = Math.round(SCREEN_HEIGHT * 0.8); // 80% for more content
+
+const MAX_WINDOWS = 10;
+
+const priceRegex = /^\d+(\.\d{0,2})?$/;
+const timeRegex = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Monday first, as in the opening hours editor; values are JS weekdays (0 = Sunday)
+const DAY_OPTIONS = [
+  { value: 1, key: 'mon' },
+  { value: 2, key: 'tue' },
+  { value: 3, key: 'wed' },
+  { value: 4, key: 'thu' },
+  { value: 5, key: 'fri' },
+  { value: 6, key: 'sat' },
+  { value: 0, key: 'sun' },
+];
+
+const windowSchema = z
+  .object({
+    label: z.string().max(40, 'Keep the name under 40 characters'),
+    days: z.array(z.number()).min(1, 'Pick at least one day'),
+    start: z.string().regex(timeRegex, 'Use 24-hour time, e.g. 22:00'),
+    end: z.string().regex(timeRegex, 'Use 24-hour time, e.g. 02:00'),
+    fee: z
+      .string()
+      .min(1, 'Fee is required')
+      .regex(priceRegex, 'Enter a valid amount')
+      .refine((val) => parseFloat(val) > 0, { message: 'Fee must be more than 0' }),
+  })
+  .refine((window) => window.start !== window.end, {
+    message: 'End time must differ from start time',
+    path: ['end'],
+  });
+
+const schema = z.object({
+  windows: z.array(windowSchema).max(MAX_WINDOWS),
+  busyModeMultiplier: z
+    .string()
+    .min(1, 'Multiplier is required')
+    .regex(priceRegex, 'Enter a valid multiplier')
+    .refine(
+      (val) => {
+        const num = parseFloat(val);
+        return num >= 1 && num <= 3;
+      },
+      { message: 'Multiplier must be between 1 and 3' }
+    ),
+});
+
+type PeakLayerFormState = z.infer<typeof schema>;
+
+type PeakLayerFormValues = { peakWindows: PeakWindow[]; busyModeMultiplier: number };
+
+type PeakLayerFormSheetProps = {
+  visible: boolean;
+  defaultLogic?: DeliveryLogic | null;
+  loading?: boolean;
+  onClose: () => void;
+  onSubmit: (values: PeakLayerFormValues) => void;
+  /** Hands the values to the fee simulator as a draft instead of saving them. */
+  onPreview?: (values: PeakLayerFormValues) => void;
+};
+
+const NEW_WINDOW = { label: '', days: [0, 1, 2, 3, 4, 5, 6], start: '22:00', end: '02:00', fee: '30' };
+
+export function PeakLayerFormSheet({
+  visible,
+  defaultLogic,
+  loading,
+  onClose,
+  onSubmit,
+  onPreview,
+}: PeakLayerFormSheetProps) {
+  const { t } = useTranslation();
+
+  const defaultValues = useMemo<PeakLayerFormState>(
+    () => ({
+      windows: (defaultLogic?.peakWindows ?? []).map((window) => ({
+        label: window.label ?? '',
+        days: window.days,
+        start: window.start,
+        end: window.end,
+        fee: window.fee.toFixed(0),
+      })),
+      busyModeMultiplier: (defaultLogic?.busyModeMultiplier ?? 1.5).toFixed(2),
+    }),
+    [defaultLogic]
+  );
+
+  const { control, handleSubmit, reset, watch } = useForm<PeakLayerFormState>({
+    resolver: zodResolver(schema),
+    defaultValues,
+    mode: 'onChange',
+  });
+  const windowFields = useFieldArray({ control, name: 'windows' });
+  const watchedWindows = watch('windows');
+
+  useEffect(() => {
+    if (visible) {
+      reset(defaultValues);
+    }
+  }, [visible, reset, defaultValues]);
+
+  const maxDeliveryFee = defaultLogic?.maxDeliveryFee ?? 130;
+
+  const submitWith = (handler: (values: PeakLayerFormValues) => void) =>
+    handleSubmit((values) => {
+      handler({
+        peakWindows: values.windows.map((window) => ({
+          label: window.label.trim() || null,
+          days: window.days,
+          start: window.start,
+          end: window.end,
+          fee: parseFloat(window.fee),
+        })),
+        busyModeMultiplier: parseFloat(values.busyModeMultiplier),
+      });
+    });
+
+  return (
+    <Modal visible={visible} onRequestClose={onClose} animationType="slide" transparent>
+      <View className="flex-1 justify-end bg-black/40">
+        <Pressable className="flex-1" onPress={onClose} />
+        <View className="bg-white rounded-t-3xl" style={{ height: SHEET_HEIGHT }}>
+          {/* Grabber Handle */}
+          <View className="items-center pt-3 pb-2">
+            <View className="w-12 h-1.5 bg-gray-300 rounded-full" />
+          </View>
+
+          <View className="px-6 pb-3 border-b border-gray-100">
+            <Text className="text-xl font-semibold text-gray-900">{t('merchant.delivery.peakForm.title')}</Text>
+            <Text className="text-xs text-gray-500 mt-2">{t('merchant.delivery.peakForm.description')}</Text>
+          </View>
+
+          <ScrollView
+            className="flex-1 px-6"
+            contentContainerStyle={{ paddingBottom: 24 }}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          >
+            {/* Peak Windows */}
+            <View className="mt-6">
+              <Text className="text-sm font-semibold text-gray-700">{t('merchant.delivery.peakForm.windowsTitle')}</Text>
+              <Text className="text-xs text-gray-500 mt-1">{t('merchant.delivery.peakForm.windowsDesc')}</Text>
+
+              {windowFields.fields.length === 0 ? (
+                <View className="mt-3 bg-blue-50 border border-blue-100 rounded-xl px-4 py-3">
+                  <Text className="text-xs text-blue-600">{t('merchant.delivery.peakForm.noWindows')}</Text>
+                </View>
+              ) : null}
+
+              {windowFields.fields.map((field, index) => {
+                const current = watchedWindows?.[index];
+                const overnight = current && timeRegex.test(current.start) && timeRegex.test(current.end) && current.end < current.start;
+                return (
+                  <View key={field.id} className="mt-3 bg-gray-50 border border-gray-200 rounded-xl p-3">
+                    <View className="flex-row items-center">
+                      <Controller
+                        control={control}
+                        name={`windows.${index}.label`}
+                        render={({ field: { value, onChange } }) => (
+                          <TextInput
+                            value={value}
+                            onChangeText={onChange}
+                            maxLength={40}
+                            className="flex-1 border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-900 bg-white"
+                            placeholder={t('merchant.delivery.peakForm.labelPlaceholder')}
+                          />
+                        )}
+                      />
+                      <TouchableOpacity
+                        onPress={() => windowFields.remove(index)}
+                        className="p-2"
+                        style={{ width: 32, alignItems: 'center' }}
+                        accessibilityRole="button"
+                      >
+                        <Text className="text-red-600 text-xl font-bold">×</Text>
+                      </TouchableOpacity>
+                    </View>
+
+                    <Controller
+                      control={control}
+                      name={`windows.${index}.days`}
+                      render={({ field: { value, onChange }, fieldState }) => (
+                        <>
+                          <View className="flex-row flex-wrap mt-3">
+                            {DAY_OPTIONS.map((day) => {
+                              const selected = value.includes(day.value);
+                              return (
+                                <TouchableOpacity
+                                  key={day.value}
+                                  onPress={() =>
+                                    onChange(selected ? value.filter((d) => d !== day.value) : [...value, day.value])
+                                  }
+                                  className={`rounded-full px-3 py-1 mr-2 mb-2 border ${
+                                    selected ? 'bg-blue-600 border-blue-600' : 'bg-white border-gray-200'
+                                  }`}
+                                  accessibilityRole="button"
+                                >
+                                  <Text className={`text-xs font-semibold ${selected ? 'text-white' : 'text-gray-600'}`}>
+                                    {t(`merchant.delivery.peakForm.dayShort.${day.key}`)}
+                                  </Text>
+                                </TouchableOpacity>
+                              );
+                            })}
+                          </View>
+                          {fieldState.error ? (
+                            <Text className="text-xs text-red-500">{fieldState.error.message}</Text>
+                          ) : null}
+                        </>
+                      )}
+                    />
+
+                    <View className="flex-row space-x-2 mt-2">
+                      {(['start', 'end', 'fee'] as const).map((key) => (
+                        <View key={key} className="flex-1">
+                          <Text className="text-xs text-gray-600 mb-1">{t(`merchant.delivery.peakForm.${key}`)}</Text>
+                          <Controller
+                            control={control}
+                            name={`windows.${index}.${key}`}
+                            render={({ field: { value, onChange }, fieldState }) => (
+                              <>
+                                <TextInput
+                                  value={value}
+                                  onChangeText={(text) => {
+                                    if (key !== 'fee' || text === '' || priceRegex.test(text)) {
+                                      onChange(text);
+                                    }
+                                  }}
+                                  keyboardType={key === 'fee' ? 'decimal-pad' : 'numbers-and-punctuation'}
+                                  maxLength={key === 'fee' ? undefined : 5}
+                                  className={`border rounded-lg px-3 py-2 text-sm text-gray-900 ${
+                                    fieldState.error ? 'border-red-300 bg-red-50' : 'border-gray-200 bg-white'
+                                  }`}
+                                  placeholder={key === 'fee' ? '0' : 'HH:mm'}
+                                />
+                                {fieldState.error ? (
+                                  <Text className="text-xs text-red-500 mt-1">{fieldState.error.message}</Text>
+                                ) : null}
+                              </>
+                            )}
+                          />
+                        </View>
+                      ))}
+                    </View>
+
+                    {overnight ? (
+                      <Text className="text-xs text-gray-500 mt-2">{t('merchant.delivery.peakForm.overnight')}</Text>
+                    ) : null}
+                  </View>
+                );
+              })}
+
+              {windowFields.fields.length < MAX_WINDOWS ? (
+                <TouchableOpacity
+                  onPress={() => windowFields.append({ ...NEW_WINDOW })}
+                  className="border border-dashed border-blue-300 rounded-lg py-2 items-center mt-3"
+                >
+                  <Text className="text-sm font-semibold text-blue-600">{t('merchant.delivery.peakForm.addWindow')}</Text>
+                </TouchableOpacity>
+              ) : null}
+
+              <View className="mt-3 bg-blue-50 border border-blue-100 rounded-lg px-3 py-2">
+                <Text className="text-xs text-blue-900">{t('merchant.delivery.peakForm.overlapNote')}</Text>
+              </View>
+            </View>
+
+            {/* Busy Mode Multiplier */}
+            <View className="mt-5">
+              <Text className="text-sm font-semibold text-gray-700">{t('merchant.delivery.peakForm.busyMultiplier')}</Text>
+              <Text className="text-xs text-gray-500 mt-1">
+                {t('merchant.delivery.peakForm.busyMultiplierDesc', { amount: maxDeliveryFee.toFixed(0) })}
+              </Text>
+              <Controller
+                control={control}
+                name="busyModeMultiplier"
+                render={({ field: { value, onChange }, fieldState }) => (
+                  <>
+                    <TextInput
+                      value={value}
+                      onChangeText={(text) => {
+                        if (text === '' || priceRegex.test(text)) {
+                          onChange(text);
+                        }
+                      }}
+                      keyboardType="decimal-pad"
+                      className="mt-2 border border-gray-200 rounded-xl px-4 py-3 text-base text-gray-900 bg-white"
+                      placeholder="1.50"
+                    />
+                    {fieldState.error ? (
+                      <Text className="text-xs text-red-500 mt-1">{fieldState.error.message}</Text>
+                    ) : null}
+                  </>
+                )}
+              />
+            </View>
+          </ScrollView>
+
+          <View className="px-6 py-4 border-t border-gray-100">
+            {onPreview ? (
+              <TouchableOpacity
+                className="h-10 mb-3 rounded-xl bg-blue-50 items-center justify-center"
+                onPress={submitWith(onPreview)}
+                disabled={loading}
+              >
+                <Text className="text-sm font-semibold text-blue-600">{t('merchant.delivery.simulator.previewDraft')}</Text>
+              </TouchableOpacity>
+            ) : null}
+            <View className="flex-row space-x-3">
+              <TouchableOpacity
+                className="flex-1 h-12 rounded-xl border border-gray-200 items-center justify-center"
+                onPress={onClose}
+                disabled={loading}
+              >
+                <Text className="text-sm font-semibold text-gray-600">{t('merchant.delivery.peakForm.cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                className="flex-1 h-12 rounded-xl bg-blue-600 items-center justify-center"
+                onPress={submitWith(onSubmit)}
+                disabled={loading}
+              >
+                {loading ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text className="text-sm font-semibold text-white">{t('merchant.delivery.peakForm.saveSettings')}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,326 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, Platform, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import DateTimePicker, { type DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { useTranslation } from 'react-i18next';
+import type { InventoryCategory, PriceChangeMode, ScheduledPriceChange } from '../../../types/inventory';
+import { formatPrice } from '../../../hooks/merchant/useInventoryItems';
+import {
+  useCancelScheduledPriceChange,
+  useScheduleCategoryPriceChange,
+  useScheduledPriceChanges,
+} from '../../../hooks/merchant/usePriceChanges';
+
+type CategoryPriceChangeSheetProps = {
+  category: InventoryCategory | null;
+  shopId: string;
+  onClose: () => void;
+};
+
+type Direction = 'increase' | 'decrease';
+type Timing = 'now' | 'schedule';
+
+function defaultScheduleDate(): Date {
+  // Next full hour, at least 30 minutes out.
+  const date = new Date(Date.now() + 30 * 60 * 1000);
+  date.setMinutes(0, 0, 0);
+  date.setHours(date.getHours() + 1);
+  return date;
+}
+
+function formatDateTime(value: string | Date): string {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function describeAmount(change: Pick<ScheduledPriceChange, 'mode' | 'amount'>): string {
+  const sign = change.amount > 0 ? '+' : '−';
+  const magnitude = Math.abs(change.amount);
+  return change.mode === 'percent' ? `${sign}${magnitude}%` : `${sign}${formatPrice(magnitude)}`;
+}
+
+/**
+ * Raises or lowers every price in one category by a percentage or a fixed amount, either now or at a scheduled time.
+ * Pending scheduled changes for the category are listed underneath and can be cancelled until they run.
+ */
+export function CategoryPriceChangeSheet({ category, shopId, onClose }: CategoryPriceChangeSheetProps) {
+  const { t } = useTranslation();
+  const [mode, setMode] = useState<PriceChangeMode>('percent');
+  const [direction, setDirection] = useState<Direction>('increase');
+  const [amountText, setAmountText] = useState('');
+  const [timing, setTiming] = useState<Timing>('now');
+  const [effectiveAt, setEffectiveAt] = useState<Date>(defaultScheduleDate);
+  const [androidPickerMode, setAndroidPickerMode] = useState<'date' | 'time' | null>(null);
+
+  const { data: priceChanges = [], isLoading: changesLoading } = useScheduledPriceChanges(shopId, category !== null);
+  const scheduleMutation = useScheduleCategoryPriceChange(shopId);
+  const cancelMutation = useCancelScheduledPriceChange(shopId);
+
+  useEffect(() => {
+    if (category) {
+      setMode('percent');
+      setDirection('increase');
+      setAmountText('');
+      setTiming('now');
+      setEffectiveAt(defaultScheduleDate());
+    }
+  }, [category]);
+
+  const pendingChanges = useMemo(
+    () =>
+      priceChanges
+        .filter((change) => change.categoryId === category?.id && change.status === 'scheduled')
+        .sort((a, b) => a.effectiveAt.localeCompare(b.effectiveAt)),
+    [priceChanges, category]
+  );
+
+  const parsedAmount = Number(amountText.replace(',', '.'));
+  // Mirrors the server limits: a percentage can raise prices by up to 500% and cut them by up to 90%.
+  const maxPercent = direction === 'increase' ? 500 : 90;
+  const amountValid =
+    amountText.trim() !== '' &&
+    Number.isFinite(parsedAmount) &&
+    parsedAmount > 0 &&
+    (mode === 'fixed' || parsedAmount <= maxPercent);
+  const scheduleValid = timing === 'now' || effectiveAt.getTime() > Date.now();
+
+  const signedAmount = useMemo(() => {
+    if (!amountValid) {
+      return 0;
+    }
+    const magnitude = mode === 'percent' ? Math.round(parsedAmount * 100) / 100 : Math.round(parsedAmount * 100);
+    return direction === 'increase' ? magnitude : -magnitude;
+  }, [amountValid, mode, parsedAmount, direction]);
+
+  const onAndroidPickerChange = useCallback(
+    (event: DateTimePickerEvent, date?: Date) => {
+      const pickerMode = androidPickerMode;
+      setAndroidPickerMode(null);
+      if (event.type === 'dismissed' || !date) {
+        return;
+      }
+      setEffectiveAt(date);
+      if (pickerMode === 'date') {
+        setAndroidPickerMode('time');
+      }
+    },
+    [androidPickerMode]
+  );
+
+  const handleSubmit = useCallback(async () => {
+    if (!category || signedAmount === 0) {
+      return;
+    }
+    try {
+      const change = await scheduleMutation.mutateAsync({
+        categoryId: category.id,
+        mode,
+        amount: signedAmount,
+        effectiveAt: timing === 'schedule' ? effectiveAt.toISOString() : null,
+      });
+      if (change?.status === 'applied') {
+        Alert.alert(
+          t('merchant.inventory.priceChange.appliedTitle'),
+          t('merchant.inventory.priceChange.appliedDesc', { count: change.appliedItemCount, category: category.name })
+        );
+        onClose();
+      } else if (change) {
+        Alert.alert(
+          t('merchant.inventory.priceChange.scheduledTitle'),
+          t('merchant.inventory.priceChange.scheduledDesc', { date: formatDateTime(change.effectiveAt), category: category.name })
+        );
+        setAmountText('');
+      }
+    } catch (error: any) {
+      Alert.alert(t('merchant.inventory.priceChange.error'), error?.message ?? '');
+    }
+  }, [category, signedAmount, scheduleMutation, mode, timing, effectiveAt, onClose, t]);
+
+  const confirmCancel = useCallback(
+    (change: ScheduledPriceChange) => {
+      Alert.alert(t('merchant.inventory.priceChange.cancelTitle'), t('merchant.inventory.priceChange.cancelDesc'), [
+        { text: t('merchant.inventory.common.cancel'), style: 'cancel' },
+        {
+          text: t('merchant.inventory.priceChange.cancelConfirm'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await cancelMutation.mutateAsync(change.id);
+            } catch (error: any) {
+              Alert.alert(t('merchant.inventory.priceChange.error'), error?.message ?? '');
+            }
+          },
+        },
+      ]);
+    },
+    [cancelMutation, t]
+  );
+
+  const busy = scheduleMutation.isLoading;
+  const canSubmit = amountValid && scheduleValid && !busy;
+
+  return (
+    <Modal visible={category !== null} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View className="flex-1 bg-white">
+        <View className="px-6 pt-6 pb-3 border-b border-gray-100">
+          <Text className="text-xl font-semibold text-gray-900">{t('merchant.inventory.priceChange.title')}</Text>
+          <Text className="text-xs text-gray-500 mt-1" numberOfLines={1}>
+            {t('merchant.inventory.priceChange.subtitle', { category: category?.name ?? '', count: category?.itemCount ?? 0 })}
+          </Text>
+        </View>
+
+        <ScrollView className="flex-1 px-6" contentContainerStyle={{ paddingBottom: 32 }} keyboardShouldPersistTaps="handled">
+          <View className="mt-6">
+            <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.priceChange.direction')}</Text>
+            <View className="flex-row mt-2 space-x-2">
+              {(['increase', 'decrease'] as const).map((value) => (
+                <TouchableOpacity
+                  key={value}
+                  className={`flex-1 h-10 rounded-xl items-center justify-center border ${direction === value ? 'bg-blue-600 border-blue-600' : 'bg-white border-gray-200'}`}
+                  onPress={() => setDirection(value)}
+                >
+                  <Text className={`text-sm font-semibold ${direction === value ? 'text-white' : 'text-gray-700'}`}>
+                    {t(`merchant.inventory.priceChange.${value}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View className="mt-5">
+            <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.priceChange.mode')}</Text>
+            <View className="flex-row mt-2 space-x-2">
+              {(['percent', 'fixed'] as const).map((value) => (
+                <TouchableOpacity
+                  key={value}
+                  className={`flex-1 h-10 rounded-xl items-center justify-center border ${mode === value ? 'bg-blue-600 border-blue-600' : 'bg-white border-gray-200'}`}
+                  onPress={() => setMode(value)}
+                >
+                  <Text className={`text-sm font-semibold ${mode === value ? 'text-white' : 'text-gray-700'}`}>
+                    {t(`merchant.inventory.priceChange.modes.${value}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View className="mt-5">
+            <Text className="text-sm font-semibold text-gray-700">
+              {mode === 'percent' ? t('merchant.inventory.priceChange.percentAmount') : t('merchant.inventory.priceChange.fixedAmount')}
+            </Text>
+            <TextInput
+              className="mt-2 border border-gray-200 rounded-xl px-4 py-3 text-base text-gray-900"
+              value={amountText}
+              onChangeText={setAmountText}
+              keyboardType="decimal-pad"
+              placeholder={mode === 'percent' ? '10' : '50'}
+            />
+            {amountText.trim() !== '' && !amountValid ? (
+              <Text className="text-xs text-red-500 mt-1">{t('merchant.inventory.priceChange.invalidAmount')}</Text>
+            ) : (
+              <Text className="text-xs text-gray-500 mt-1">{t('merchant.inventory.priceChange.amountHint')}</Text>
+            )}
+          </View>
+
+          <View className="mt-5">
+            <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.priceChange.when')}</Text>
+            <View className="flex-row mt-2 space-x-2">
+              {(['now', 'schedule'] as const).map((value) => (
+                <TouchableOpacity
+                  key={value}
+                  className={`flex-1 h-10 rounded-xl items-center justify-center border ${timing === value ? 'bg-blue-600 border-blue-600' : 'bg-white border-gray-200'}`}
+                  onPress={() => setTiming(value)}
+                >
+                  <Text className={`text-sm font-semibold ${timing === value ? 'text-white' : 'text-gray-700'}`}>
+                    {t(`merchant.inventory.priceChange.${value === 'now' ? 'applyNow' : 'scheduleLater'}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {timing === 'schedule' ? (
+              Platform.OS === 'ios' ? (
+                <DateTimePicker
+                  value={effectiveAt}
+                  mode="datetime"
+                  display="spinner"
+                  minimumDate={new Date()}
+                  onChange={(_, date) => {
+                    if (date) setEffectiveAt(date);
+                  }}
+                  style={{ height: 180 }}
+                />
+              ) : (
+                <TouchableOpacity
+                  className="mt-3 border border-gray-200 rounded-xl px-4 py-3"
+                  onPress={() => setAndroidPickerMode('date')}
+                >
+                  <Text className="text-base text-gray-900">{formatDateTime(effectiveAt)}</Text>
+                </TouchableOpacity>
+              )
+            ) : null}
+            {timing === 'schedule' && !scheduleValid ? (
+              <Text className="text-xs text-red-500 mt-1">{t('merchant.inventory.priceChange.pastTime')}</Text>
+            ) : null}
+            {Platform.OS === 'android' && androidPickerMode ? (
+              <DateTimePicker
+                value={effectiveAt}
+                mode={androidPickerMode}
+                display="default"
+                minimumDate={new Date()}
+                onChange={onAndroidPickerChange}
+              />
+            ) : null}
+          </View>
+
+          <View className="mt-6">
+            <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.priceChange.pendingTitle')}</Text>
+            {changesLoading ? (
+              <ActivityIndicator className="mt-3" />
+            ) : pendingChanges.length === 0 ? (
+              <Text className="text-xs text-gray-500 mt-2">{t('merchant.inventory.priceChange.noPending')}</Text>
+            ) : (
+              pendingChanges.map((change) => (
+                <View
+                  key={change.id}
+                  className="mt-2 flex-row items-center justify-between bg-gray-50 border border-gray-200 rounded-xl px-4 py-3"
+                >
+                  <View className="flex-1 pr-3">
+                    <Text className="text-sm font-semibold text-gray-900">{describeAmount(change)}</Text>
+                    <Text className="text-xs text-gray-500 mt-1">{formatDateTime(change.effectiveAt)}</Text>
+                  </View>
+                  <TouchableOpacity onPress={() => confirmCancel(change)} disabled={cancelMutation.isLoading}>
+                    <Text className="text-xs font-semibold text-red-600">{t('merchant.inventory.priceChange.cancelConfirm')}</Text>
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+          </View>
+        </ScrollView>
+
+        <View className="px-6 py-4 border-t border-gray-100 flex-row space-x-3">
+          <TouchableOpacity
+            className="flex-1 h-12 rounded-xl border border-gray-200 items-center justify-center"
+            onPress={onClose}
+            disabled={busy}
+          >
+            <Text className="text-sm font-semibold text-gray-600">{t('merchant.inventory.common.cancel')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            className={`flex-1 h-12 rounded-xl items-center justify-center ${canSubmit ? 'bg-blue-600' : 'bg-gray-300'}`}
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+          >
+            {busy ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text className="text-sm font-semibold text-white">
+                {timing === 'now'
+                  ? t('merchant.inventory.priceChange.submitNow', { amount: describeAmount({ mode, amount: signedAmount }) })
+                  : t('merchant.inventory.priceChange.submitSchedule')}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,259 @@
+import React, { useCallback, useMemo } from 'react';
+import { ActivityIndicator, Alert, Modal, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import type { InventoryAuditLogEntry, InventoryCategory, InventoryItem } from '../../../types/inventory';
+import type { updateInventoryItem } from '../../../services/merchant/inventoryService';
+import { formatPrice } from '../../../hooks/merchant/useInventoryItems';
+
+type InventoryItemUpdates = Parameters<typeof updateInventoryItem>[1];
+
+type InventoryAuditEntrySheetProps = {
+  entry: InventoryAuditLogEntry | null;
+  item: InventoryItem | null;
+  categories: InventoryCategory[];
+  reverting: boolean;
+  onClose: () => void;
+  onRevert: (entry: InventoryAuditLogEntry, updates: InventoryItemUpdates) => Promise<void>;
+};
+
+type DiffRow = {
+  field: string;
+  from: unknown;
+  to: unknown;
+  current: unknown;
+  revertable: boolean;
+};
+
+/** Entries that describe an edit to an existing item; creations, deletions and image uploads cannot be replayed. */
+const NON_REVERTABLE_ACTIONS = new Set(['item_created', 'item_deleted', 'image_updated', 'CREATE', 'DELETE']);
+
+function toCamelCase(field: string) {
+  return field.replace(/_([a-z])/g, (_, char: string) => char.toUpperCase());
+}
+
+function currentValue(item: InventoryItem | null, field: string): unknown {
+  if (!item) {
+    return undefined;
+  }
+  if (field === 'categoryIds') {
+    return item.categories.map((category) => category.id);
+  }
+  if (field === 'variants') {
+    return undefined;
+  }
+  return (item as unknown as Record<string, unknown>)[field];
+}
+
+/**
+ * Maps one audited field's previous value onto an `updateInventoryItem` payload. Returns false for fields the update
+ * endpoint cannot set back (variant lists are logged as display strings, not ids). Stock is undone as a delta rather
+ * than set back, so sales made since the edit are not erased.
+ */
+function applyPreviousValue(updates: InventoryItemUpdates, field: string, from: unknown, to: unknown): boolean {
+  switch (field) {
+    case 'name':
+      if (typeof from !== 'string') return false;
+      updates.name = from;
+      return true;
+    case 'description':
+    case 'sku':
+    case 'barcode':
+    case 'imageUrl':
+      // An empty string clears the field; null means "leave unchanged" to the API.
+      updates[field] = typeof from === 'string' ? from : '';
+      return true;
+    case 'stockQuantity':
+      if (typeof from !== 'number' || typeof to !== 'number') return false;
+      updates.stockAdjustment = Math.round((from - to) * 1000) / 1000;
+      return true;
+    case 'priceCents':
+    case 'quantityStep':
+      if (typeof from !== 'number') return false;
+      updates[field] = from;
+      return true;
+    case 'reorderThreshold':
+      updates.reorderThreshold = typeof from === 'number' ? from : null;
+      return true;
+    case 'unit':
+      updates.unit = typeof from === 'string' ? (from as InventoryItem['unit']) : null;
+      return true;
+    case 'isActive':
+    case 'trackStock':
+      if (typeof from !== 'boolean') return false;
+      updates[field] = from;
+      return true;
+    case 'categoryIds':
+      if (!Array.isArray(from)) return false;
+      updates.categoryIds = from.map(String);
+      return true;
+    default:
+      return false;
+  }
+}
+
+export function buildRevertUpdates(entry: InventoryAuditLogEntry) {
+  const updates: InventoryItemUpdates = { revertOfAuditLogId: entry.id };
+  const fields: string[] = [];
+  if (NON_REVERTABLE_ACTIONS.has(entry.actionType)) {
+    return { updates, fields };
+  }
+  Object.entries(entry.changedFields ?? {}).forEach(([rawField, diff]) => {
+    const field = toCamelCase(rawField);
+    if (diff && applyPreviousValue(updates, field, diff.from, diff.to)) {
+      fields.push(field);
+    }
+  });
+  return { updates, fields };
+}
+
+export function InventoryAuditEntrySheet({
+  entry,
+  item,
+  categories,
+  reverting,
+  onClose,
+  onRevert,
+}: InventoryAuditEntrySheetProps) {
+  const { t } = useTranslation();
+
+  const categoryNames = useMemo(() => {
+    const map = new Map<string, string>();
+    categories.forEach((category) => map.set(category.id, category.name));
+    return map;
+  }, [categories]);
+
+  const revert = useMemo(() => (entry ? buildRevertUpdates(entry) : null), [entry]);
+
+  const rows: DiffRow[] = useMemo(() => {
+    if (!entry) {
+      return [];
+    }
+    return Object.entries(entry.changedFields ?? {})
+      .filter(([field]) => field !== 'noop')
+      .map(([rawField, diff]) => {
+        const field = toCamelCase(rawField);
+        return {
+          field,
+          from: diff?.from,
+          to: diff?.to,
+          current: currentValue(item, field),
+          revertable: revert?.fields.includes(field) ?? false,
+        };
+      });
+  }, [entry, item, revert]);
+
+  const formatValue = useCallback(
+    (field: string, value: unknown) => {
+      if (value === null || value === undefined || value === '') {
+        return '—';
+      }
+      if (field === 'priceCents' && typeof value === 'number') {
+        return formatPrice(value, item?.currency);
+      }
+      if (field === 'categoryIds' && Array.isArray(value)) {
+        return value.length > 0 ? value.map((id) => categoryNames.get(String(id)) ?? String(id)).join(', ') : '—';
+      }
+      if (typeof value === 'boolean') {
+        return value ? t('merchant.inventory.audit.diff.yes') : t('merchant.inventory.audit.diff.no');
+      }
+      if (Array.isArray(value)) {
+        return value.length > 0 ? value.join(', ') : '—';
+      }
+      return String(value);
+    },
+    [categoryNames, item?.currency, t]
+  );
+
+  const canRevert = Boolean(item) && (revert?.fields.length ?? 0) > 0;
+
+  const confirmRevert = useCallback(() => {
+    if (!entry || !revert || !canRevert) {
+      return;
+    }
+    Alert.alert(
+      t('merchant.inventory.audit.diff.revertTitle'),
+      t('merchant.inventory.audit.diff.revertDesc', { name: item?.name ?? '' }),
+      [
+        { text: t('merchant.inventory.common.cancel'), style: 'cancel' },
+        {
+          text: t('merchant.inventory.audit.diff.revert'),
+          style: 'destructive',
+          onPress: () => {
+            onRevert(entry, revert.updates).catch((error: any) => {
+              Alert.alert(t('merchant.inventory.audit.diff.revertError'), error?.message ?? '');
+            });
+          },
+        },
+      ]
+    );
+  }, [entry, revert, canRevert, item, onRevert, t]);
+
+  return (
+    <Modal visible={entry !== null} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View className="flex-1 bg-white">
+        <View className="px-6 pt-6 pb-3 border-b border-gray-100">
+          <Text className="text-xl font-semibold text-gray-900">{item?.name ?? t('merchant.inventory.audit.diff.unknownItem')}</Text>
+          {entry ? (
+            <Text className="text-xs text-gray-500 mt-1">
+              {t(`merchant.inventory.audit.actions.${entry.actionType}`, { defaultValue: entry.actionType })} ·{' '}
+              {new Date(entry.createdAt).toLocaleString()}
+            </Text>
+          ) : null}
+        </View>
+
+        <ScrollView className="flex-1 px-6" contentContainerStyle={{ paddingBottom: 32 }}>
+          <View className="mt-4 flex-row px-1">
+            <Text className="flex-1 text-[11px] font-semibold text-gray-500 uppercase">{t('merchant.inventory.audit.diff.field')}</Text>
+            <Text className="flex-1 text-[11px] font-semibold text-gray-500 uppercase">{t('merchant.inventory.audit.diff.before')}</Text>
+            <Text className="flex-1 text-[11px] font-semibold text-gray-500 uppercase">{t('merchant.inventory.audit.diff.after')}</Text>
+            <Text className="flex-1 text-[11px] font-semibold text-gray-500 uppercase">{t('merchant.inventory.audit.diff.current')}</Text>
+          </View>
+          {rows.map((row) => {
+            const changedSince = item !== null && row.current !== undefined && formatValue(row.field, row.current) !== formatValue(row.field, row.to);
+            return (
+              <View key={row.field} className="mt-2 flex-row bg-gray-50 border border-gray-100 rounded-xl px-3 py-3">
+                <Text className="flex-1 text-xs font-semibold text-gray-800 pr-2">
+                  {t(`merchant.inventory.audit.fields.${row.field}`, { defaultValue: row.field })}
+                </Text>
+                <Text className="flex-1 text-xs text-red-600 pr-2">{formatValue(row.field, row.from)}</Text>
+                <Text className="flex-1 text-xs text-green-700 pr-2">{formatValue(row.field, row.to)}</Text>
+                <Text className={`flex-1 text-xs ${changedSince ? 'text-amber-600' : 'text-gray-600'}`}>
+                  {row.current === undefined ? '—' : formatValue(row.field, row.current)}
+                </Text>
+              </View>
+            );
+          })}
+
+          {!item ? (
+            <Text className="text-xs text-gray-500 mt-4">{t('merchant.inventory.audit.diff.itemMissing')}</Text>
+          ) : !canRevert ? (
+            <Text className="text-xs text-gray-500 mt-4">{t('merchant.inventory.audit.diff.notRevertable')}</Text>
+          ) : rows.some((row) => !row.revertable) ? (
+            <Text className="text-xs text-gray-500 mt-4">{t('merchant.inventory.audit.diff.partialRevert')}</Text>
+          ) : null}
+        </ScrollView>
+
+        <View className="px-6 py-4 border-t border-gray-100 flex-row space-x-3">
+          <TouchableOpacity
+            className="flex-1 h-12 rounded-xl border border-gray-200 items-center justify-center"
+            onPress={onClose}
+            disabled={reverting}
+          >
+            <Text className="text-sm font-semibold text-gray-600">{t('merchant.inventory.common.close')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            className={`flex-1 h-12 rounded-xl items-center justify-center ${canRevert ? 'bg-red-600' : 'bg-gray-300'}`}
+            onPress={confirmRevert}
+            disabled={!canRevert || reverting}
+          >
+            {reverting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text className="text-sm font-semibold text-white">{t('merchant.inventory.audit.diff.revert')}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
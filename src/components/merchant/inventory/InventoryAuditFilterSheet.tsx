@@ -0,0 +1,206 @@
+import React, { useMemo } from 'react';
+import { Modal, View, Text, TouchableOpacity, ScrollView } from 'react-native';
+import type { InventoryActionType, InventoryAuditActor, InventoryAuditLogFilters } from '../../../types/inventory';
+import { useTranslation } from 'react-i18next';
+
+export type InventoryAuditFilterValues = Pick<InventoryAuditLogFilters, 'actionTypes' | 'actorIds' | 'field' | 'dateFrom' | 'dateTo'>;
+
+type DateRangePreset = 'all' | 'today' | 'week' | 'month';
+
+type InventoryAuditFilterSheetProps = {
+  visible: boolean;
+  onClose: () => void;
+  onApply: (filters: InventoryAuditFilterValues) => void;
+  selectedFilters: InventoryAuditFilterValues;
+  actors: InventoryAuditActor[];
+};
+
+const ACTION_TYPES: InventoryActionType[] = [
+  'item_created',
+  'price_updated',
+  'name_updated',
+  'item_deactivated',
+  'stock_updated',
+  'image_updated',
+  'item_deleted',
+];
+
+/** Field keys as stored in `changedFields`; the API also accepts camelCase. */
+const FIELDS = [
+  'price_cents',
+  'name',
+  'description',
+  'sku',
+  'barcode',
+  'is_active',
+  'stock_quantity',
+  'reorder_threshold',
+  'category_ids',
+  'variants',
+  'unit',
+] as const;
+
+function presetStart(preset: DateRangePreset): string | undefined {
+  if (preset === 'all') {
+    return undefined;
+  }
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  if (preset === 'week') {
+    start.setDate(start.getDate() - 6);
+  } else if (preset === 'month') {
+    start.setDate(start.getDate() - 29);
+  }
+  return start.toISOString();
+}
+
+function detectPreset(dateFrom?: string): DateRangePreset {
+  if (!dateFrom) {
+    return 'all';
+  }
+  const presets: DateRangePreset[] = ['today', 'week', 'month'];
+  return presets.find((preset) => presetStart(preset)?.slice(0, 10) === dateFrom.slice(0, 10)) ?? 'all';
+}
+
+function toggle<T>(values: T[] | undefined, value: T): T[] {
+  const current = values ?? [];
+  return current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+}
+
+export function InventoryAuditFilterSheet({
+  visible,
+  onClose,
+  onApply,
+  selectedFilters,
+  actors,
+}: InventoryAuditFilterSheetProps) {
+  const { t } = useTranslation();
+  const [draftFilters, setDraftFilters] = React.useState<InventoryAuditFilterValues>(selectedFilters);
+  const [preset, setPreset] = React.useState<DateRangePreset>(detectPreset(selectedFilters.dateFrom));
+
+  const presetOptions: Array<{ label: string; value: DateRangePreset }> = useMemo(() => [
+    { label: t('merchant.inventory.filter.all'), value: 'all' },
+    { label: t('merchant.inventory.audit.filter.today'), value: 'today' },
+    { label: t('merchant.inventory.audit.filter.last7Days'), value: 'week' },
+    { label: t('merchant.inventory.audit.filter.last30Days'), value: 'month' },
+  ], [t]);
+
+  React.useEffect(() => {
+    if (visible) {
+      setDraftFilters(selectedFilters);
+      setPreset(detectPreset(selectedFilters.dateFrom));
+    }
+  }, [visible, selectedFilters]);
+
+  const chipClass = (selected: boolean) =>
+    `px-3 py-2 rounded-xl mr-2 mb-2 border ${selected ? 'bg-blue-50 border-blue-200' : 'bg-white border-gray-200'}`;
+  const chipTextClass = (selected: boolean) => `text-xs font-semibold ${selected ? 'text-blue-600' : 'text-gray-600'}`;
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View className="flex-1 bg-white">
+        <View className="px-6 pt-6 pb-3 border-b border-gray-100">
+          <Text className="text-xl font-semibold text-gray-900">{t('merchant.inventory.audit.filter.title')}</Text>
+        </View>
+        <ScrollView className="flex-1 px-6" contentContainerStyle={{ paddingBottom: 32 }}>
+          <View className="mt-6">
+            <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.audit.filter.dateRange')}</Text>
+            <View className="flex-row flex-wrap mt-3">
+              {presetOptions.map((option) => {
+                const selected = preset === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    onPress={() => {
+                      setPreset(option.value);
+                      setDraftFilters((prev) => ({ ...prev, dateFrom: presetStart(option.value), dateTo: undefined }));
+                    }}
+                    className={chipClass(selected)}
+                  >
+                    <Text className={chipTextClass(selected)}>{option.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <View className="mt-6">
+            <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.audit.filter.actions')}</Text>
+            <View className="flex-row flex-wrap mt-3">
+              {ACTION_TYPES.map((actionType) => {
+                const selected = draftFilters.actionTypes?.includes(actionType) ?? false;
+                return (
+                  <TouchableOpacity
+                    key={actionType}
+                    onPress={() => setDraftFilters((prev) => ({ ...prev, actionTypes: toggle(prev.actionTypes, actionType) }))}
+                    className={chipClass(selected)}
+                  >
+                    <Text className={chipTextClass(selected)}>{t(`merchant.inventory.audit.actions.${actionType}`)}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <View className="mt-6">
+            <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.audit.filter.field')}</Text>
+            <View className="flex-row flex-wrap mt-3">
+              {FIELDS.map((field) => {
+                const selected = draftFilters.field === field;
+                const label = field.replace(/_([a-z])/g, (_, char: string) => char.toUpperCase());
+                return (
+                  <TouchableOpacity
+                    key={field}
+                    onPress={() => setDraftFilters((prev) => ({ ...prev, field: selected ? undefined : field }))}
+                    className={chipClass(selected)}
+                  >
+                    <Text className={chipTextClass(selected)}>{t(`merchant.inventory.audit.fields.${label}`)}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          {actors.length > 0 ? (
+            <View className="mt-6">
+              <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.audit.filter.actors')}</Text>
+              <View className="flex-row flex-wrap mt-3">
+                {actors.map((actor) => {
+                  const selected = draftFilters.actorIds?.includes(actor.id) ?? false;
+                  return (
+                    <TouchableOpacity
+                      key={actor.id}
+                      onPress={() => setDraftFilters((prev) => ({ ...prev, actorIds: toggle(prev.actorIds, actor.id) }))}
+                      className={chipClass(selected)}
+                    >
+                      <Text className={chipTextClass(selected)}>
+                        {actor.name || actor.email || (actor.id === 'system' ? t('merchant.inventory.audit.filter.system') : actor.id.slice(0, 8))}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          ) : null}
+        </ScrollView>
+        <View className="px-6 py-4 border-t border-gray-100 flex-row space-x-3">
+          <TouchableOpacity
+            className="flex-1 h-12 rounded-xl border border-gray-200 items-center justify-center"
+            onPress={() => {
+              setPreset('all');
+              setDraftFilters({});
+            }}
+          >
+            <Text className="text-sm font-semibold text-gray-600">{t('merchant.inventory.filter.reset')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            className="flex-1 h-12 rounded-xl bg-blue-600 items-center justify-center"
+            onPress={() => onApply(draftFilters)}
+          >
+            <Text className="text-sm font-semibold text-white">{t('merchant.inventory.filter.apply')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
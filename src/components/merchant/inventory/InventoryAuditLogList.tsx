@@ -1,12 +1,15 @@
 import React, { useMemo } from 'react';
 import { FlashList } from '@shopify/flash-list';
-import { View, Text } from 'react-native';
+import { ActivityIndicator, View, Text, TouchableOpacity } from 'react-native';
 import type { InventoryAuditLogEntry, InventoryItem } from '../../../types/inventory';
 import { useTranslation } from 'react-i18next';
 
 type InventoryAuditLogListProps = {
   entries: InventoryAuditLogEntry[];
   items: InventoryItem[];
+  onSelectEntry?: (entry: InventoryAuditLogEntry) => void;
+  onEndReached?: () => void;
+  loadingMore?: boolean;
   contentContainerStyle?: any;
 };
 
@@ -46,7 +49,14 @@ function formatDiffValue(value: unknown) {
   return String(value);
 }
 
-export function InventoryAuditLogList({ entries, items, contentContainerStyle }: InventoryAuditLogListProps) {
+export function InventoryAuditLogList({
+  entries,
+  items,
+  onSelectEntry,
+  onEndReached,
+  loadingMore = false,
+  contentContainerStyle,
+}: InventoryAuditLogListProps) {
   const { t } = useTranslation();
 
   const itemLookup = useMemo(() => {
@@ -106,9 +116,17 @@ export function InventoryAuditLogList({ entries, items, contentContainerStyle }:
       keyExtractor={(entry) => entry.id}
       estimatedItemSize={80}
       ItemSeparatorComponent={() => <View className="h-3" />}
+      onEndReached={onEndReached}
+      onEndReachedThreshold={0.5}
+      ListFooterComponent={loadingMore ? <ActivityIndicator className="py-4" /> : null}
       contentContainerStyle={contentContainerStyle ?? { paddingVertical: 4 }}
       renderItem={({ item }) => (
-        <View className="bg-white border border-gray-100 rounded-3xl p-4">
+        <TouchableOpacity
+          className="bg-white border border-gray-100 rounded-3xl p-4"
+          onPress={onSelectEntry ? () => onSelectEntry(item) : undefined}
+          disabled={!onSelectEntry}
+          activeOpacity={0.7}
+        >
           <View className="flex-row justify-between items-start">
             <View className="flex-1 pr-4">
               <Text className="text-sm font-semibold text-gray-900">
@@ -116,6 +134,9 @@ export function InventoryAuditLogList({ entries, items, contentContainerStyle }:
               </Text>
               <Text className="text-xs text-gray-500 mt-1">
                 {t(`merchant.inventory.audit.actions.${item.actionType}`, { defaultValue: item.actionType })} · {formatActor(item)}
+                {item.source && item.source !== 'manual'
+                  ? ` · ${t(`merchant.inventory.audit.sources.${item.source}`, { defaultValue: item.source })}`
+                  : ''}
               </Text>
               <View className="mt-2">
                 {buildChangeSummary(item, itemLookup.get(item.merchantItemId)?.currency).map((summary, index) => (
@@ -135,7 +156,7 @@ export function InventoryAuditLogList({ entries, items, contentContainerStyle }:
               })}
             </Text>
           </View>
-        </View>
+        </TouchableOpacity>
       )}
     />
   );
@@ -7,10 +7,16 @@ import { useTranslation } from 'react-i18next';
 type InventoryCategoryListProps = {
   categories: InventoryCategory[];
   onEditCategory: (category: InventoryCategory) => void;
+  onAdjustPrices?: (category: InventoryCategory) => void;
   contentContainerStyle?: any;
 };
 
-export function InventoryCategoryList({ categories, onEditCategory, contentContainerStyle }: InventoryCategoryListProps) {
+export function InventoryCategoryList({
+  categories,
+  onEditCategory,
+  onAdjustPrices,
+  contentContainerStyle,
+}: InventoryCategoryListProps) {
   const { t } = useTranslation();
   return (
     <View className="flex-1">
@@ -41,6 +47,15 @@ export function InventoryCategoryList({ categories, onEditCategory, contentConta
                 </View>
               </View>
             </View>
+            {onAdjustPrices && item.itemCount > 0 ? (
+              <TouchableOpacity
+                className="self-start mt-3 px-3 py-1.5 rounded-lg bg-blue-50"
+                onPress={() => onAdjustPrices(item)}
+                hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+              >
+                <Text className="text-xs font-semibold text-blue-700">{t('merchant.inventory.priceChange.adjustPrices')}</Text>
+              </TouchableOpacity>
+            ) : null}
           </TouchableOpacity>
         )}
       />
@@ -0,0 +1,210 @@
+import React, { useCallback, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { errorCodes, isErrorWithCode, pick, types, type DocumentPickerResponse } from '@react-native-documents/picker';
+import { useTranslation } from 'react-i18next';
+import type { InventoryImportFieldChange, InventoryImportPreview } from '../../../types/inventory';
+import { formatPrice } from '../../../hooks/merchant/useInventoryItems';
+import { useApplyInventoryImport, usePreviewInventoryImport } from '../../../hooks/merchant/useInventoryImport';
+
+type InventoryImportSheetProps = {
+  visible: boolean;
+  shopId: string;
+  onClose: () => void;
+};
+
+function formatChangeValue(change: InventoryImportFieldChange, value: string | null) {
+  if (value === null || value === '') {
+    return '—';
+  }
+  if (change.field === 'price_cents') {
+    return formatPrice(Number(value));
+  }
+  return value;
+}
+
+export function InventoryImportSheet({ visible, shopId, onClose }: InventoryImportSheetProps) {
+  const { t } = useTranslation();
+  const [preview, setPreview] = useState<InventoryImportPreview | null>(null);
+  const previewMutation = usePreviewInventoryImport(shopId);
+  const applyMutation = useApplyInventoryImport(shopId);
+
+  const handleClose = useCallback(() => {
+    setPreview(null);
+    onClose();
+  }, [onClose]);
+
+  const handlePickFile = useCallback(async () => {
+    let picked: DocumentPickerResponse;
+    try {
+      [picked] = await pick({ type: [types.csv, types.plainText], mode: 'import' });
+    } catch (error) {
+      if (isErrorWithCode(error) && error.code === errorCodes.OPERATION_CANCELED) {
+        return;
+      }
+      Alert.alert(t('merchant.inventory.import.pickError'), (error as Error)?.message ?? '');
+      return;
+    }
+
+    const fileName = picked.name ?? 'inventory.csv';
+    if (!fileName.toLowerCase().endsWith('.csv')) {
+      Alert.alert(t('merchant.inventory.import.csvOnly'), t('merchant.inventory.import.csvOnlyDesc'));
+      return;
+    }
+
+    try {
+      const result = await previewMutation.mutateAsync({ uri: picked.uri, name: fileName, type: picked.type });
+      setPreview(result);
+    } catch (error: any) {
+      Alert.alert(t('merchant.inventory.import.previewError'), error?.message ?? '');
+    }
+  }, [previewMutation, t]);
+
+  const handleApply = useCallback(async () => {
+    if (!preview) {
+      return;
+    }
+    try {
+      const job = await applyMutation.mutateAsync(preview.jobId);
+      Alert.alert(
+        t('merchant.inventory.import.appliedTitle'),
+        t('merchant.inventory.import.appliedDesc', {
+          created: job?.createCount ?? 0,
+          updated: job?.updateCount ?? 0,
+          rejected: job?.rejectCount ?? 0,
+        })
+      );
+      handleClose();
+    } catch (error: any) {
+      Alert.alert(t('merchant.inventory.import.applyError'), error?.message ?? '');
+    }
+  }, [applyMutation, preview, handleClose, t]);
+
+  const busy = previewMutation.isLoading || applyMutation.isLoading;
+  const changeCount = preview ? preview.creates.length + preview.updates.length : 0;
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={handleClose}>
+      <View className="flex-1 bg-white">
+        <View className="px-6 pt-6 pb-3 border-b border-gray-100">
+          <Text className="text-xl font-semibold text-gray-900">{t('merchant.inventory.import.title')}</Text>
+          {preview ? (
+            <Text className="text-xs text-gray-500 mt-1" numberOfLines={1}>{preview.fileName}</Text>
+          ) : null}
+        </View>
+
+        <ScrollView className="flex-1 px-6" contentContainerStyle={{ paddingBottom: 32 }}>
+          {!preview ? (
+            <View className="mt-6 space-y-3">
+              <Text className="text-sm text-gray-600">{t('merchant.inventory.import.description')}</Text>
+              <View className="bg-gray-50 border border-gray-200 rounded-xl px-4 py-3">
+                <Text className="text-xs font-semibold text-gray-700">{t('merchant.inventory.import.columnsTitle')}</Text>
+                <Text className="text-xs text-gray-500 mt-1">name, sku, barcode, price, category</Text>
+              </View>
+              <Text className="text-xs text-gray-500">{t('merchant.inventory.import.matchingHelp')}</Text>
+              <Text className="text-xs text-gray-500">{t('merchant.inventory.import.spreadsheetHelp')}</Text>
+            </View>
+          ) : (
+            <View className="mt-6">
+              <View className="flex-row flex-wrap">
+                <View className="px-3 py-2 rounded-xl mr-2 mb-2 bg-green-50 border border-green-200">
+                  <Text className="text-xs font-semibold text-green-700">
+                    {t('merchant.inventory.import.createCount', { count: preview.creates.length })}
+                  </Text>
+                </View>
+                <View className="px-3 py-2 rounded-xl mr-2 mb-2 bg-blue-50 border border-blue-200">
+                  <Text className="text-xs font-semibold text-blue-700">
+                    {t('merchant.inventory.import.updateCount', { count: preview.updates.length })}
+                  </Text>
+                </View>
+                <View className="px-3 py-2 rounded-xl mr-2 mb-2 bg-red-50 border border-red-200">
+                  <Text className="text-xs font-semibold text-red-700">
+                    {t('merchant.inventory.import.rejectCount', { count: preview.rejects.length })}
+                  </Text>
+                </View>
+                {preview.unchangedCount > 0 ? (
+                  <View className="px-3 py-2 rounded-xl mr-2 mb-2 bg-white border border-gray-200">
+                    <Text className="text-xs font-semibold text-gray-600">
+                      {t('merchant.inventory.import.unchangedCount', { count: preview.unchangedCount })}
+                    </Text>
+                  </View>
+                ) : null}
+              </View>
+
+              {preview.rejects.length > 0 ? (
+                <View className="mt-4">
+                  <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.import.rejectsTitle')}</Text>
+                  {preview.rejects.map((reject) => (
+                    <View key={`reject-${reject.row}`} className="mt-2 bg-red-50 border border-red-100 rounded-xl px-4 py-3">
+                      <Text className="text-xs font-semibold text-red-700">{t('merchant.inventory.import.row', { row: reject.row })}</Text>
+                      {reject.errors.map((message) => (
+                        <Text key={message} className="text-xs text-red-600 mt-1">{message}</Text>
+                      ))}
+                    </View>
+                  ))}
+                </View>
+              ) : null}
+
+              {preview.creates.length > 0 ? (
+                <View className="mt-4">
+                  <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.import.createsTitle')}</Text>
+                  {preview.creates.map((create) => (
+                    <View key={`create-${create.row}`} className="mt-2 bg-white border border-gray-100 rounded-xl px-4 py-3">
+                      <Text className="text-sm font-semibold text-gray-900">{create.name}</Text>
+                      <Text className="text-xs text-gray-500 mt-1">
+                        {t('merchant.inventory.import.row', { row: create.row })} · {formatPrice(create.priceCents)} · {create.categoryName}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              ) : null}
+
+              {preview.updates.length > 0 ? (
+                <View className="mt-4">
+                  <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.import.updatesTitle')}</Text>
+                  {preview.updates.map((update) => (
+                    <View key={`update-${update.row}`} className="mt-2 bg-white border border-gray-100 rounded-xl px-4 py-3">
+                      <Text className="text-sm font-semibold text-gray-900">{update.itemName ?? '—'}</Text>
+                      <Text className="text-xs text-gray-500 mt-1">{t('merchant.inventory.import.row', { row: update.row })}</Text>
+                      {update.changes.map((change) => (
+                        <Text key={change.field} className="text-xs text-gray-700 mt-1">
+                          {t(`merchant.inventory.import.fields.${change.field}`)}: {formatChangeValue(change, change.from)} → {formatChangeValue(change, change.to)}
+                        </Text>
+                      ))}
+                    </View>
+                  ))}
+                </View>
+              ) : null}
+            </View>
+          )}
+        </ScrollView>
+
+        <View className="px-6 py-4 border-t border-gray-100 flex-row space-x-3">
+          <TouchableOpacity
+            className="flex-1 h-12 rounded-xl border border-gray-200 items-center justify-center"
+            onPress={preview ? handlePickFile : handleClose}
+            disabled={busy}
+          >
+            <Text className="text-sm font-semibold text-gray-600">
+              {preview ? t('merchant.inventory.import.chooseAnother') : t('merchant.inventory.common.cancel')}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            className={`flex-1 h-12 rounded-xl items-center justify-center ${preview && changeCount === 0 ? 'bg-gray-300' : 'bg-blue-600'}`}
+            onPress={preview ? handleApply : handlePickFile}
+            disabled={busy || (preview !== null && changeCount === 0)}
+          >
+            {busy ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text className="text-sm font-semibold text-white">
+                {preview
+                  ? t('merchant.inventory.import.apply', { count: changeCount })
+                  : t('merchant.inventory.import.chooseFile')}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -1,6 +1,6 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, Image, Switch } from 'react-native';
-import type { InventoryItem } from '../../../types/inventory';
+import { isLowStock, type InventoryItem } from '../../../types/inventory';
 import { formatPrice } from '../../../hooks/merchant/useInventoryItems';
 import { useTranslation } from 'react-i18next';
 
@@ -13,6 +13,7 @@ type InventoryItemCardProps = {
 
 export function InventoryItemCard({ item, onToggleActive, onEdit, onViewAudit }: InventoryItemCardProps) {
   const { t } = useTranslation();
+  const lowStock = isLowStock(item);
   return (
     <View className="bg-white border border-gray-100 rounded-3xl p-4 flex-row items-start">
       <TouchableOpacity
@@ -48,6 +49,19 @@ export function InventoryItemCard({ item, onToggleActive, onEdit, onViewAudit }:
                 )}
               </View>
             ) : null}
+            {item.trackStock ? (
+              <Text
+                className={`text-xs font-semibold mt-2 ${
+                  item.stockQuantity <= 0 ? 'text-red-500' : lowStock ? 'text-amber-600' : 'text-gray-500'
+                }`}
+              >
+                {item.stockQuantity <= 0
+                  ? t('merchant.inventory.items.outOfStock')
+                  : lowStock
+                    ? t('merchant.inventory.items.lowStock', { count: item.stockQuantity })
+                    : t('merchant.inventory.items.inStock', { count: item.stockQuantity })}
+              </Text>
+            ) : null}
           </View>
 
           <TouchableOpacity
@@ -63,7 +77,12 @@ export function InventoryItemCard({ item, onToggleActive, onEdit, onViewAudit }:
 
       <View className="items-end pl-1" style={{ minWidth: 56 }}>
         <TouchableOpacity onPress={() => onEdit(item)} activeOpacity={0.7} accessibilityRole="button">
-          <Text className="text-lg font-semibold text-gray-900">{formatPrice(item.priceCents, item.currency)}</Text>
+          <Text className="text-lg font-semibold text-gray-900">{formatPrice(item.priceCents, item.currency)}{item.unit ? ` / ${item.unit}` : ''}</Text>
+          {item.variants.length > 0 ? (
+            <Text className="text-xs text-gray-500 text-right">
+              {t('merchant.inventory.items.variantCount', { count: item.variants.length })}
+            </Text>
+          ) : null}
         </TouchableOpacity>
         <Switch
           style={{ marginTop: 8 }}
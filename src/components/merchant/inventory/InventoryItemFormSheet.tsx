@@ -12,17 +12,21 @@ import {
   Alert,
   StyleSheet,
 } from 'react-native';
-import { Controller, useForm } from 'react-hook-form';
+import { Controller, useFieldArray, useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
-import type { InventoryItem, InventoryTemplateItem } from '../../../types/inventory';
+import type { InventoryItem, InventoryItemVariant, InventoryTemplateItem, ItemUnit } from '../../../types/inventory';
+import { ITEM_UNITS, toItemUnit } from '../../../types/inventory';
 import { useTranslation } from 'react-i18next';
 import { uploadItemImage } from '../../../services/merchant/shopService';
 import { useAuth } from '../../../context/AuthContext';
 import { Camera, useCameraDevice, useCodeScanner } from 'react-native-vision-camera';
 import Svg, { Path, Rect } from 'react-native-svg';
+import { InventoryPriceHistoryChart } from './InventoryPriceHistoryChart';
 
 const centsRegex = /^\d+(\.\d{0,2})?$/;
+const wholeNumberRegex = /^\d*$/;
+const stepRegex = /^\d*(\.\d{0,3})?$/;
 
 type InventoryItemFormState = {
   templateId?: string | null;
@@ -30,11 +34,55 @@ type InventoryItemFormState = {
   description?: string | null;
   barcode?: string | null;
   priceDisplay: string;
+  unit: ItemUnit | null;
+  stepDisplay: string;
+  trackStock: boolean;
+  stockDisplay: string;
+  reorderDisplay: string;
   isActive: boolean;
   categoryIds: string[];
+  variantRows: VariantFormRow[];
 };
 
-export type InventoryItemFormValues = InventoryItemFormState & { priceCents: number; imageUrl?: string | null };
+type VariantFormRow = {
+  id?: string;
+  optionGroup: string;
+  name: string;
+  priceDisplay: string;
+  sku: string;
+  isActive: boolean;
+};
+
+export type InventoryItemFormValues = InventoryItemFormState & {
+  priceCents: number;
+  quantityStep: number;
+  stockQuantity: number;
+  reorderThreshold: number | null;
+  variants: InventoryItemVariant[];
+  imageUrl?: string | null;
+};
+
+function toVariantRow(variant: InventoryItemVariant): VariantFormRow {
+  return {
+    id: variant.id,
+    optionGroup: variant.optionGroup ?? '',
+    name: variant.name,
+    priceDisplay: (variant.priceCents / 100).toFixed(2),
+    sku: variant.sku ?? '',
+    isActive: variant.isActive,
+  };
+}
+
+function toVariant(row: VariantFormRow): InventoryItemVariant {
+  return {
+    id: row.id,
+    optionGroup: row.optionGroup.trim() || null,
+    name: row.name.trim(),
+    priceCents: Math.round(parseFloat(row.priceDisplay) * 100),
+    sku: row.sku.trim() || null,
+    isActive: row.isActive,
+  };
+}
 
 type CategoryOption = {
   id: string;
@@ -87,9 +135,34 @@ export function InventoryItemFormSheet({
       .string()
       .min(1, t('merchant.inventory.form.required'))
       .regex(centsRegex, 'Enter a valid price'),
+    unit: z.enum(ITEM_UNITS).nullable(),
+    stepDisplay: z
+      .string()
+      .regex(stepRegex, t('merchant.inventory.form.invalidStep'))
+      .refine((value) => value === '' || parseFloat(value) > 0, t('merchant.inventory.form.invalidStep')),
+    trackStock: z.boolean(),
+    stockDisplay: z.string().regex(stepRegex, t('merchant.inventory.form.invalidStock')),
+    reorderDisplay: z.string().regex(stepRegex, t('merchant.inventory.form.invalidStock')),
     isActive: z.boolean(),
     categoryIds: z.array(z.string()).min(1, t('merchant.inventory.form.required')),
-  }), [t]);
+    variantRows: z.array(
+      z.object({
+        id: z.string().optional(),
+        optionGroup: z.string().max(50),
+        name: z.string().trim().min(1, t('merchant.inventory.form.required')).max(100),
+        priceDisplay: z
+          .string()
+          .min(1, t('merchant.inventory.form.required'))
+          .regex(centsRegex, 'Enter a valid price'),
+        sku: z.string(),
+        isActive: z.boolean(),
+      })
+    ),
+  }).refine(
+    // Weighed items keep fractional stock (2.5 kg); items sold per piece stay whole.
+    (values) => values.unit !== null || wholeNumberRegex.test(values.stockDisplay),
+    { path: ['stockDisplay'], message: t('merchant.inventory.form.invalidStock') }
+  ), [t]);
 
   const defaultValues = useMemo(() => {
     if (defaultItem) {
@@ -99,8 +172,14 @@ export function InventoryItemFormSheet({
         description: defaultItem.description ?? '',
         barcode: defaultItem.barcode ?? '',
         priceDisplay: (defaultItem.priceCents / 100).toFixed(2),
+        unit: defaultItem.unit ?? null,
+        stepDisplay: defaultItem.unit ? String(defaultItem.quantityStep) : '',
+        trackStock: defaultItem.trackStock,
+        stockDisplay: String(defaultItem.stockQuantity),
+        reorderDisplay: defaultItem.reorderThreshold != null ? String(defaultItem.reorderThreshold) : '',
         isActive: defaultItem.isActive,
         categoryIds: defaultItem.categories.map((c) => c.id),
+        variantRows: defaultItem.variants.map(toVariantRow),
       };
     }
     if (template) {
@@ -110,8 +189,14 @@ export function InventoryItemFormSheet({
         description: template.description ?? '',
         barcode: template.barcode ?? '',
         priceDisplay: '',
+        unit: toItemUnit(template.defaultUnit),
+        stepDisplay: '',
+        trackStock: false,
+        stockDisplay: '',
+        reorderDisplay: '',
         isActive: true,
         categoryIds: [],
+        variantRows: [],
       };
     }
     return {
@@ -120,8 +205,14 @@ export function InventoryItemFormSheet({
       description: '',
       barcode: '',
       priceDisplay: '',
+      unit: null as ItemUnit | null,
+      stepDisplay: '',
+      trackStock: false,
+      stockDisplay: '',
+      reorderDisplay: '',
       isActive: true,
       categoryIds: [] as string[],
+      variantRows: [] as VariantFormRow[],
     };
   }, [defaultItem, template]);
 
@@ -130,6 +221,8 @@ export function InventoryItemFormSheet({
     defaultValues,
     mode: 'onChange',
   });
+  const variantFields = useFieldArray({ control, name: 'variantRows' });
+  const stockInputRegex = watch('unit') ? stepRegex : wholeNumberRegex;
 
   useEffect(() => {
     if (visible) {
@@ -417,6 +510,222 @@ export function InventoryItemFormSheet({
             )}
           />
 
+          <View className="mt-5">
+            <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.form.unit')}</Text>
+            <Text className="text-xs text-gray-500 mt-1">{t('merchant.inventory.form.unitHint')}</Text>
+            <View className="flex-row flex-wrap mt-2">
+              {[null, ...ITEM_UNITS].map((unit) => {
+                const selected = watch('unit') === unit;
+                return (
+                  <TouchableOpacity
+                    key={unit ?? 'piece'}
+                    onPress={() => setValue('unit', unit, { shouldDirty: true, shouldValidate: true })}
+                    className={`px-3 py-2 rounded-xl mr-2 mb-2 border ${selected ? 'bg-blue-50 border-blue-200' : 'bg-white border-gray-200'}`}
+                  >
+                    <Text className={`text-xs font-semibold ${selected ? 'text-blue-600' : 'text-gray-600'}`}>
+                      {t(`merchant.inventory.units.${unit ?? 'piece'}`)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          {watch('unit') ? (
+            <Controller
+              control={control}
+              name="stepDisplay"
+              render={({ field: { value, onChange }, fieldState }) => (
+                <View className="mt-5">
+                  <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.form.quantityStep')}</Text>
+                  <Text className="text-xs text-gray-500 mt-1">{t('merchant.inventory.form.quantityStepHint')}</Text>
+                  <TextInput
+                    value={value}
+                    onChangeText={(text) => {
+                      if (stepRegex.test(text)) {
+                        onChange(text);
+                      }
+                    }}
+                    keyboardType="decimal-pad"
+                    className="mt-2 border border-gray-200 rounded-xl px-4 py-3 text-base text-gray-900"
+                    placeholder="1"
+                  />
+                  {fieldState.error ? (
+                    <Text className="text-xs text-red-500 mt-1">{fieldState.error.message}</Text>
+                  ) : null}
+                </View>
+              )}
+            />
+          ) : null}
+
+          <View className="mt-5">
+            <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.form.variants')}</Text>
+            <Text className="text-xs text-gray-500 mt-1">{t('merchant.inventory.form.variantsHint')}</Text>
+            {variantFields.fields.map((field, index) => (
+              <View key={field.id} className="mt-3 border border-gray-200 rounded-xl px-3 py-3 bg-gray-50">
+                <View className="flex-row space-x-2">
+                  <Controller
+                    control={control}
+                    name={`variantRows.${index}.optionGroup`}
+                    render={({ field: { value, onChange } }) => (
+                      <TextInput
+                        value={value}
+                        onChangeText={onChange}
+                        className="flex-1 border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-900 bg-white"
+                        placeholder={t('merchant.inventory.form.variantGroup')}
+                      />
+                    )}
+                  />
+                  <Controller
+                    control={control}
+                    name={`variantRows.${index}.name`}
+                    render={({ field: { value, onChange } }) => (
+                      <TextInput
+                        value={value}
+                        onChangeText={onChange}
+                        className="flex-1 border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-900 bg-white"
+                        placeholder={t('merchant.inventory.form.variantName')}
+                      />
+                    )}
+                  />
+                </View>
+                <View className="flex-row space-x-2 mt-2">
+                  <Controller
+                    control={control}
+                    name={`variantRows.${index}.priceDisplay`}
+                    render={({ field: { value, onChange } }) => (
+                      <TextInput
+                        value={value}
+                        onChangeText={(text) => {
+                          if (text === '' || centsRegex.test(text)) {
+                            onChange(text);
+                          }
+                        }}
+                        keyboardType="decimal-pad"
+                        className="flex-1 border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-900 bg-white"
+                        placeholder={t('merchant.inventory.form.price')}
+                      />
+                    )}
+                  />
+                  <Controller
+                    control={control}
+                    name={`variantRows.${index}.sku`}
+                    render={({ field: { value, onChange } }) => (
+                      <TextInput
+                        value={value}
+                        onChangeText={onChange}
+                        className="flex-1 border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-900 bg-white"
+                        placeholder={t('merchant.inventory.form.variantSku')}
+                      />
+                    )}
+                  />
+                </View>
+                <View className="flex-row justify-between items-center mt-2">
+                  <Controller
+                    control={control}
+                    name={`variantRows.${index}.isActive`}
+                    render={({ field: { value, onChange } }) => (
+                      <View className="flex-row items-center">
+                        <Switch value={value} onValueChange={onChange} />
+                        <Text className="text-xs text-gray-600 ml-2">{t('merchant.inventory.form.active')}</Text>
+                      </View>
+                    )}
+                  />
+                  <TouchableOpacity onPress={() => variantFields.remove(index)}>
+                    <Text className="text-xs font-semibold text-red-600">{t('merchant.inventory.form.removeVariant')}</Text>
+                  </TouchableOpacity>
+                </View>
+                {formState.errors.variantRows?.[index] ? (
+                  <Text className="text-xs text-red-500 mt-1">
+                    {formState.errors.variantRows[index]?.name?.message ??
+                      formState.errors.variantRows[index]?.priceDisplay?.message}
+                  </Text>
+                ) : null}
+              </View>
+            ))}
+            <TouchableOpacity
+              className="mt-3 h-10 rounded-xl border border-dashed border-blue-300 items-center justify-center"
+              onPress={() =>
+                variantFields.append({
+                  optionGroup: variantFields.fields[variantFields.fields.length - 1]?.optionGroup ?? '',
+                  name: '',
+                  priceDisplay: watch('priceDisplay') ?? '',
+                  sku: '',
+                  isActive: true,
+                })
+              }
+            >
+              <Text className="text-sm font-semibold text-blue-600">{t('merchant.inventory.form.addVariant')}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Controller
+            control={control}
+            name="trackStock"
+            render={({ field: { value, onChange } }) => (
+              <View className="mt-5 flex-row justify-between items-center">
+                <View className="flex-1 pr-4">
+                  <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.form.trackStock')}</Text>
+                  <Text className="text-xs text-gray-500 mt-1">{t('merchant.inventory.form.trackStockHint')}</Text>
+                </View>
+                <Switch value={value} onValueChange={onChange} />
+              </View>
+            )}
+          />
+
+          {watch('trackStock') ? (
+            <Controller
+              control={control}
+              name="stockDisplay"
+              render={({ field: { value, onChange }, fieldState }) => (
+                <View className="mt-5">
+                  <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.form.stockQuantity')}</Text>
+                  <TextInput
+                    value={value}
+                    onChangeText={(text) => {
+                      if (stockInputRegex.test(text)) {
+                        onChange(text);
+                      }
+                    }}
+                    keyboardType={watch('unit') ? 'decimal-pad' : 'number-pad'}
+                    className="mt-2 border border-gray-200 rounded-xl px-4 py-3 text-base text-gray-900"
+                    placeholder="0"
+                  />
+                  {fieldState.error ? (
+                    <Text className="text-xs text-red-500 mt-1">{fieldState.error.message}</Text>
+                  ) : null}
+                </View>
+              )}
+            />
+          ) : null}
+
+          {watch('trackStock') ? (
+            <Controller
+              control={control}
+              name="reorderDisplay"
+              render={({ field: { value, onChange }, fieldState }) => (
+                <View className="mt-5">
+                  <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.form.reorderThreshold')}</Text>
+                  <Text className="text-xs text-gray-500 mt-1">{t('merchant.inventory.form.reorderThresholdHint')}</Text>
+                  <TextInput
+                    value={value}
+                    onChangeText={(text) => {
+                      if (stockInputRegex.test(text)) {
+                        onChange(text);
+                      }
+                    }}
+                    keyboardType={watch('unit') ? 'decimal-pad' : 'number-pad'}
+                    className="mt-2 border border-gray-200 rounded-xl px-4 py-3 text-base text-gray-900"
+                    placeholder={t('merchant.inventory.form.optional')}
+                  />
+                  {fieldState.error ? (
+                    <Text className="text-xs text-red-500 mt-1">{fieldState.error.message}</Text>
+                  ) : null}
+                </View>
+              )}
+            />
+          ) : null}
+
           <Controller
             control={control}
             name="description"
@@ -491,6 +800,15 @@ export function InventoryItemFormSheet({
               </View>
             )}
           />
+
+          {mode === 'edit' && defaultItem ? (
+            <InventoryPriceHistoryChart
+              shopId={defaultItem.shopId}
+              itemId={defaultItem.id}
+              currentPriceCents={defaultItem.priceCents}
+              currency={defaultItem.currency}
+            />
+          ) : null}
         </ScrollView>
 
         <View className="px-6 py-4 border-t border-gray-100 space-y-3">
@@ -563,6 +881,10 @@ export function InventoryItemFormSheet({
                 onSubmit({ 
                   ...values, 
                   priceCents: Math.round(parseFloat(values.priceDisplay) * 100),
+                  quantityStep: values.unit && values.stepDisplay ? parseFloat(values.stepDisplay) : 1,
+                  stockQuantity: values.trackStock ? parseFloat(values.stockDisplay || '0') : 0,
+                  reorderThreshold: values.trackStock && values.reorderDisplay ? parseFloat(values.reorderDisplay) : null,
+                  variants: values.variantRows.map(toVariant),
                   imageUrl: finalImageUrl,
                 });
               })}
@@ -1,6 +1,6 @@
 import React from 'react';
 import { FlashList, ListRenderItem } from '@shopify/flash-list';
-import { View } from 'react-native';
+import { ActivityIndicator, View } from 'react-native';
 import type { InventoryItem } from '../../../types/inventory';
 import { InventoryItemCard } from './InventoryItemCard';
 
@@ -10,6 +10,9 @@ type InventoryListProps = {
   onToggleActive: (itemId: string, nextActive: boolean) => void;
   onEditItem: (item: InventoryItem) => void;
   onViewAudit: (item: InventoryItem) => void;
+  /** Called near the bottom of the list to fetch the next server page. */
+  onEndReached?: () => void;
+  loadingMore?: boolean;
   contentContainerStyle?: any;
 };
 
@@ -19,6 +22,8 @@ export function InventoryList({
   onToggleActive,
   onEditItem,
   onViewAudit,
+  onEndReached,
+  loadingMore = false,
   contentContainerStyle,
 }: InventoryListProps) {
   const renderItem: ListRenderItem<InventoryItem> = ({ item }) => (
@@ -38,6 +43,9 @@ export function InventoryList({
       estimatedItemSize={estimatedItemSize}
       ItemSeparatorComponent={() => <View className="h-4" />}
       showsVerticalScrollIndicator={false}
+      onEndReached={onEndReached}
+      onEndReachedThreshold={0.5}
+      ListFooterComponent={loadingMore ? <ActivityIndicator className="py-4" /> : null}
       contentContainerStyle={contentContainerStyle ?? { paddingVertical: 4 }}
     />
   );
@@ -0,0 +1,159 @@
+import React, { useMemo, useState } from 'react';
+import { ActivityIndicator, Text, View, type LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, Path, Polyline } from 'react-native-svg';
+import { useTranslation } from 'react-i18next';
+import type { InventoryAuditLogEntry } from '../../../types/inventory';
+import { formatPrice } from '../../../hooks/merchant/useInventoryItems';
+import { useInventoryAuditLog } from '../../../hooks/merchant/useInventoryAuditLog';
+
+type InventoryPriceHistoryChartProps = {
+  shopId: string;
+  itemId: string;
+  currentPriceCents: number;
+  currency?: string;
+};
+
+type PricePoint = {
+  at: number;
+  priceCents: number;
+};
+
+const CHART_HEIGHT = 120;
+const CHART_VERTICAL_PADDING = 10;
+const CHART_HORIZONTAL_PADDING = 6;
+const HISTORY_LIMIT = 100;
+const CONTAINER_PADDING = 24; // p-3 on both sides
+
+function readPriceCents(entry: InventoryAuditLogEntry) {
+  const field = Object.keys(entry.changedFields ?? {}).find(
+    (key) => key.replace(/_([a-z])/g, (_, char: string) => char.toUpperCase()) === 'priceCents'
+  );
+  if (!field) {
+    return null;
+  }
+  const diff = entry.changedFields[field];
+  const from = typeof diff.from === 'number' ? diff.from : null;
+  const to = typeof diff.to === 'number' ? diff.to : null;
+  return to === null ? null : { from, to };
+}
+
+/**
+ * Builds the price timeline from the item's audit log (creation plus every price_cents change), ending at the
+ * current price so the line always reaches "now".
+ */
+function buildPricePoints(entries: InventoryAuditLogEntry[], currentPriceCents: number): PricePoint[] {
+  const changes = entries
+    .map((entry) => ({ at: new Date(entry.createdAt).getTime(), price: readPriceCents(entry) }))
+    .filter((change): change is { at: number; price: { from: number | null; to: number } } => change.price !== null)
+    .sort((a, b) => a.at - b.at);
+
+  const points: PricePoint[] = [];
+  changes.forEach((change, index) => {
+    if (index === 0 && change.price.from !== null) {
+      points.push({ at: change.at, priceCents: change.price.from });
+    }
+    points.push({ at: change.at, priceCents: change.price.to });
+  });
+  points.push({ at: Date.now(), priceCents: currentPriceCents });
+  return points;
+}
+
+function formatShortDate(at: number) {
+  return new Date(at).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+/** Step chart of an item's price over time, shown in the item edit sheet. */
+export function InventoryPriceHistoryChart({ shopId, itemId, currentPriceCents, currency }: InventoryPriceHistoryChartProps) {
+  const { t } = useTranslation();
+  const [width, setWidth] = useState(0);
+  const { data, isLoading } = useInventoryAuditLog(shopId, {
+    merchantItemId: itemId,
+    field: 'price_cents',
+    limit: HISTORY_LIMIT,
+  });
+
+  const points = useMemo(
+    () => buildPricePoints(data?.entries ?? [], currentPriceCents),
+    [data, currentPriceCents]
+  );
+  const changeCount = points.length - 1;
+
+  const chart = useMemo(() => {
+    if (width === 0 || points.length < 2) {
+      return null;
+    }
+    const minAt = points[0].at;
+    const spanAt = Math.max(1, points[points.length - 1].at - minAt);
+    const prices = points.map((point) => point.priceCents);
+    const minPrice = Math.min(...prices);
+    const maxPrice = Math.max(...prices);
+    const spanPrice = Math.max(1, maxPrice - minPrice);
+    const plotWidth = width - CHART_HORIZONTAL_PADDING * 2;
+
+    const coords = points.map((point) => ({
+      x: CHART_HORIZONTAL_PADDING + ((point.at - minAt) / spanAt) * plotWidth,
+      y:
+        maxPrice === minPrice
+          ? CHART_VERTICAL_PADDING + CHART_HEIGHT / 2
+          : CHART_VERTICAL_PADDING + (1 - (point.priceCents - minPrice) / spanPrice) * CHART_HEIGHT,
+    }));
+
+    // Prices hold until the next change, so draw horizontal-then-vertical steps.
+    let d = `M${coords[0].x},${coords[0].y}`;
+    for (let i = 1; i < coords.length; i += 1) {
+      d += ` H${coords[i].x} V${coords[i].y}`;
+    }
+    return { path: d, coords, minPrice, maxPrice };
+  }, [points, width]);
+
+  const onLayout = (event: LayoutChangeEvent) =>
+    setWidth(Math.max(0, event.nativeEvent.layout.width - CONTAINER_PADDING));
+
+  return (
+    <View className="mt-6">
+      <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.priceHistory.title')}</Text>
+      <View className="mt-2 bg-gray-50 border border-gray-200 rounded-xl p-3" onLayout={onLayout}>
+        {isLoading ? (
+          <ActivityIndicator />
+        ) : changeCount === 0 || !chart ? (
+          <Text className="text-xs text-gray-500">{t('merchant.inventory.priceHistory.empty')}</Text>
+        ) : (
+          <>
+            <View className="flex-row justify-between mb-1">
+              <Text className="text-xs text-gray-500">
+                {t('merchant.inventory.priceHistory.range', {
+                  min: formatPrice(chart.minPrice, currency),
+                  max: formatPrice(chart.maxPrice, currency),
+                })}
+              </Text>
+              <Text className="text-xs text-gray-500">
+                {t('merchant.inventory.priceHistory.changes', { count: changeCount })}
+              </Text>
+            </View>
+            <Svg width={width} height={CHART_HEIGHT + CHART_VERTICAL_PADDING * 2}>
+              {[0, 0.5, 1].map((fraction) => {
+                const y = CHART_VERTICAL_PADDING + fraction * CHART_HEIGHT;
+                return (
+                  <Polyline
+                    key={fraction}
+                    points={`0,${y} ${width},${y}`}
+                    stroke="#e5e7eb"
+                    strokeWidth={1}
+                  />
+                );
+              })}
+              <Path d={chart.path} stroke="#1d4ed8" strokeWidth={2} fill="none" />
+              {chart.coords.slice(0, -1).map((coord, index) => (
+                <Circle key={`pt-${index}`} cx={coord.x} cy={coord.y} r={3} fill="#1d4ed8" />
+              ))}
+            </Svg>
+            <View className="flex-row justify-between mt-1">
+              <Text className="text-xs text-gray-500">{formatShortDate(points[0].at)}</Text>
+              <Text className="text-xs text-gray-500">{t('merchant.inventory.priceHistory.now')}</Text>
+            </View>
+          </>
+        )}
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,566 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Camera, useCameraDevice, useCodeScanner } from 'react-native-vision-camera';
+import { useTranslation } from 'react-i18next';
+import type { InventoryCategory, InventoryItem, InventoryTemplateItem, StockTakeLine } from '../../../types/inventory';
+import { lookupInventoryBarcode } from '../../../services/merchant/inventoryService';
+import { formatPrice } from '../../../hooks/merchant/useInventoryItems';
+import { useCommitStockTake } from '../../../hooks/merchant/useStockTake';
+
+type InventoryStockTakeSheetProps = {
+  visible: boolean;
+  shopId: string;
+  categories: InventoryCategory[];
+  onClose: () => void;
+};
+
+/** One scanned product in the session. Exactly one of `item` / `template` is set. */
+type StockTakeEntry = {
+  barcode: string;
+  item: InventoryItem | null;
+  template: InventoryTemplateItem | null;
+  countedQuantity: number | null;
+  priceCents: number | null;
+  categoryId: string | null;
+};
+
+const centsRegex = /^\d+(\.\d{0,2})?$/;
+const quantityRegex = /^\d+$/;
+const weighedQuantityRegex = /^\d+(\.\d{0,3})?$/;
+/** The scanner reports the same code on consecutive frames; ignore repeats inside this window. */
+const RESCAN_INTERVAL_MS = 2000;
+
+function entryKey(entry: Pick<StockTakeEntry, 'item' | 'template'>) {
+  return entry.item ? `item-${entry.item.id}` : `template-${entry.template?.id}`;
+}
+
+function quantityChanged(entry: StockTakeEntry) {
+  return (
+    entry.item !== null &&
+    entry.countedQuantity !== null &&
+    (!entry.item.trackStock || entry.countedQuantity !== entry.item.stockQuantity)
+  );
+}
+
+function priceChanged(entry: StockTakeEntry) {
+  return entry.item !== null && entry.priceCents !== null && entry.priceCents !== entry.item.priceCents;
+}
+
+function hasChanges(entry: StockTakeEntry) {
+  return entry.template !== null || quantityChanged(entry) || priceChanged(entry);
+}
+
+function toLine(entry: StockTakeEntry): StockTakeLine {
+  if (entry.template) {
+    return {
+      templateId: entry.template.id,
+      stockQuantity: entry.countedQuantity,
+      priceCents: entry.priceCents,
+      categoryId: entry.categoryId,
+    };
+  }
+  return {
+    itemId: entry.item?.id,
+    stockQuantity: entry.countedQuantity,
+    priceCents: priceChanged(entry) ? entry.priceCents : null,
+  };
+}
+
+export function InventoryStockTakeSheet({ visible, shopId, categories, onClose }: InventoryStockTakeSheetProps) {
+  const { t } = useTranslation();
+  const commitMutation = useCommitStockTake(shopId);
+  const cameraDevice = useCameraDevice('back');
+  const [cameraPermissionGranted, setCameraPermissionGranted] = useState(false);
+  const [step, setStep] = useState<'scan' | 'review'>('scan');
+  const [entries, setEntries] = useState<StockTakeEntry[]>([]);
+  const [current, setCurrent] = useState<StockTakeEntry | null>(null);
+  const [quantityText, setQuantityText] = useState('');
+  const [priceText, setPriceText] = useState('');
+  const [manualBarcode, setManualBarcode] = useState('');
+  const [notFoundBarcode, setNotFoundBarcode] = useState<string | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const lastScanRef = useRef<{ value: string; at: number } | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    (async () => {
+      try {
+        const status = await Camera.getCameraPermissionStatus();
+        if (status === 'granted') {
+          setCameraPermissionGranted(true);
+          return;
+        }
+        const next = await Camera.requestCameraPermission();
+        setCameraPermissionGranted(next === 'granted');
+      } catch {
+        setCameraPermissionGranted(false);
+      }
+    })();
+  }, [visible]);
+
+  const resetSession = useCallback(() => {
+    setStep('scan');
+    setEntries([]);
+    setCurrent(null);
+    setQuantityText('');
+    setPriceText('');
+    setManualBarcode('');
+    setNotFoundBarcode(null);
+    lastScanRef.current = null;
+  }, []);
+
+  const openEntry = useCallback((entry: StockTakeEntry) => {
+    setNotFoundBarcode(null);
+    setCurrent(entry);
+    const quantity = entry.countedQuantity ?? (entry.item?.trackStock ? entry.item.stockQuantity : null);
+    setQuantityText(quantity === null ? '' : String(quantity));
+    const priceCents = entry.priceCents ?? entry.item?.priceCents ?? null;
+    setPriceText(priceCents === null ? '' : (priceCents / 100).toFixed(2));
+  }, []);
+
+  const handleBarcode = useCallback(
+    async (rawBarcode: string) => {
+      const barcode = rawBarcode.trim();
+      if (!barcode || isLookingUp) {
+        return;
+      }
+      const existing = entries.find(
+        (entry) =>
+          entry.barcode === barcode ||
+          entry.item?.barcode === barcode ||
+          entry.item?.variants.some((variant) => variant.barcode === barcode)
+      );
+      if (existing) {
+        openEntry(existing);
+        return;
+      }
+
+      setIsLookingUp(true);
+      try {
+        const { data, error } = await lookupInventoryBarcode(shopId, barcode);
+        if (error) {
+          throw error;
+        }
+        if (!data?.item && !data?.template) {
+          setNotFoundBarcode(barcode);
+          return;
+        }
+        // A variant barcode resolves to an item that may already be counted under another code.
+        const sameItem = data.item ? entries.find((entry) => entry.item?.id === data.item?.id) : undefined;
+        openEntry(
+          sameItem ?? {
+            barcode,
+            item: data.item,
+            template: data.template,
+            countedQuantity: null,
+            priceCents: null,
+            categoryId: data.template ? categories[0]?.id ?? null : null,
+          }
+        );
+      } catch (error: any) {
+        Alert.alert(t('merchant.inventory.stockTake.lookupError'), error?.message ?? '');
+      } finally {
+        setIsLookingUp(false);
+      }
+    },
+    [categories, entries, isLookingUp, openEntry, shopId, t]
+  );
+
+  const scanning = visible && step === 'scan' && current === null && !isLookingUp;
+
+  const codeScanner = useCodeScanner({
+    codeTypes: ['ean-13', 'ean-8', 'upc-a', 'upc-e', 'code-128', 'code-39', 'qr'],
+    onCodeScanned: (codes) => {
+      if (!scanning) {
+        return;
+      }
+      const value = codes[0]?.value?.trim();
+      if (!value) {
+        return;
+      }
+      const now = Date.now();
+      const last = lastScanRef.current;
+      if (last && last.value === value && now - last.at < RESCAN_INTERVAL_MS) {
+        return;
+      }
+      lastScanRef.current = { value, at: now };
+      handleBarcode(value);
+    },
+  });
+
+  const handleSaveCurrent = useCallback(() => {
+    if (!current) {
+      return;
+    }
+    const quantityInput = quantityText.trim();
+    const priceInput = priceText.trim();
+    // Weighed items are counted in their unit (2.5 kg); items sold per piece stay whole.
+    const allowedQuantity = current.item?.unit ? weighedQuantityRegex : quantityRegex;
+    if (quantityInput !== '' && !allowedQuantity.test(quantityInput)) {
+      Alert.alert(t('merchant.inventory.stockTake.invalidQuantity'));
+      return;
+    }
+    if (priceInput !== '' && !centsRegex.test(priceInput)) {
+      Alert.alert(t('merchant.inventory.stockTake.invalidPrice'));
+      return;
+    }
+    if (current.template && priceInput === '') {
+      Alert.alert(t('merchant.inventory.stockTake.priceRequired'));
+      return;
+    }
+
+    const next: StockTakeEntry = {
+      ...current,
+      countedQuantity: quantityInput === '' ? null : parseFloat(quantityInput),
+      priceCents: priceInput === '' ? null : Math.round(parseFloat(priceInput) * 100),
+    };
+    const key = entryKey(next);
+    setEntries((prev) => {
+      const index = prev.findIndex((entry) => entryKey(entry) === key);
+      if (index === -1) {
+        return [next, ...prev];
+      }
+      const copy = [...prev];
+      copy[index] = next;
+      return copy;
+    });
+    setCurrent(null);
+  }, [current, priceText, quantityText, t]);
+
+  const handleRemoveEntry = useCallback((entry: StockTakeEntry) => {
+    const key = entryKey(entry);
+    setEntries((prev) => prev.filter((candidate) => entryKey(candidate) !== key));
+  }, []);
+
+  const changedEntries = useMemo(() => entries.filter(hasChanges), [entries]);
+  const unchangedCount = entries.length - changedEntries.length;
+
+  const handleClose = useCallback(() => {
+    if (entries.length === 0 || commitMutation.isLoading) {
+      resetSession();
+      onClose();
+      return;
+    }
+    Alert.alert(t('merchant.inventory.stockTake.discardTitle'), t('merchant.inventory.stockTake.discardDesc'), [
+      { text: t('merchant.inventory.common.cancel'), style: 'cancel' },
+      {
+        text: t('merchant.inventory.stockTake.discard'),
+        style: 'destructive',
+        onPress: () => {
+          resetSession();
+          onClose();
+        },
+      },
+    ]);
+  }, [commitMutation.isLoading, entries.length, onClose, resetSession, t]);
+
+  const handleCommit = useCallback(async () => {
+    if (changedEntries.length === 0) {
+      return;
+    }
+    try {
+      const result = await commitMutation.mutateAsync(changedEntries.map(toLine));
+      Alert.alert(
+        t('merchant.inventory.stockTake.committedTitle'),
+        t('merchant.inventory.stockTake.committedDesc', {
+          updated: result?.updatedCount ?? 0,
+          created: result?.createdCount ?? 0,
+          unchanged: (result?.unchangedCount ?? 0) + unchangedCount,
+        })
+      );
+      resetSession();
+      onClose();
+    } catch (error: any) {
+      Alert.alert(t('merchant.inventory.stockTake.commitError'), error?.message ?? '');
+    }
+  }, [changedEntries, commitMutation, onClose, resetSession, t, unchangedCount]);
+
+  const entryName = (entry: StockTakeEntry) => entry.item?.name ?? entry.template?.name ?? entry.barcode;
+
+  const renderCurrent = (entry: StockTakeEntry) => (
+    <View className="mt-4 bg-blue-50 border border-blue-200 rounded-2xl p-4">
+      <Text className="text-base font-semibold text-gray-900">{entryName(entry)}</Text>
+      <Text className="text-xs text-gray-500 mt-1">{entry.barcode}</Text>
+      {entry.template ? (
+        <Text className="text-xs font-semibold text-blue-700 mt-1">{t('merchant.inventory.stockTake.newFromCatalog')}</Text>
+      ) : entry.item?.trackStock ? (
+        <Text className="text-xs text-gray-600 mt-1">
+          {t('merchant.inventory.stockTake.currentStock', { count: entry.item.stockQuantity })} ·{' '}
+          {formatPrice(entry.item.priceCents, entry.item.currency)}
+        </Text>
+      ) : (
+        <Text className="text-xs text-gray-600 mt-1">
+          {t('merchant.inventory.stockTake.notTracked')} · {formatPrice(entry.item?.priceCents ?? 0, entry.item?.currency)}
+        </Text>
+      )}
+
+      <View className="flex-row space-x-3 mt-4">
+        <View className="flex-1">
+          <Text className="text-xs font-semibold text-gray-700">{t('merchant.inventory.stockTake.countedQuantity')}</Text>
+          <View className="flex-row items-center mt-2">
+            <TouchableOpacity
+              className="h-11 w-11 rounded-xl bg-white border border-gray-200 items-center justify-center"
+              onPress={() => setQuantityText((prev) => String(Math.max(0, (parseFloat(prev) || 0) - 1)))}
+            >
+              <Text className="text-lg font-semibold text-gray-700">−</Text>
+            </TouchableOpacity>
+            <TextInput
+              className="flex-1 mx-2 h-11 bg-white border border-gray-200 rounded-xl px-3 text-base text-gray-900 text-center"
+              value={quantityText}
+              onChangeText={setQuantityText}
+              keyboardType={entry.item?.unit ? 'decimal-pad' : 'number-pad'}
+              placeholder="0"
+            />
+            <TouchableOpacity
+              className="h-11 w-11 rounded-xl bg-white border border-gray-200 items-center justify-center"
+              onPress={() => setQuantityText((prev) => String((parseFloat(prev) || 0) + 1))}
+            >
+              <Text className="text-lg font-semibold text-gray-700">+</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+        <View className="flex-1">
+          <Text className="text-xs font-semibold text-gray-700">{t('merchant.inventory.stockTake.price')}</Text>
+          <TextInput
+            className="mt-2 h-11 bg-white border border-gray-200 rounded-xl px-3 text-base text-gray-900"
+            value={priceText}
+            onChangeText={setPriceText}
+            keyboardType="decimal-pad"
+            placeholder="0.00"
+          />
+        </View>
+      </View>
+
+      {entry.template && categories.length > 0 ? (
+        <View className="mt-4">
+          <Text className="text-xs font-semibold text-gray-700">{t('merchant.inventory.stockTake.category')}</Text>
+          <View className="flex-row flex-wrap mt-2">
+            {categories.map((category) => {
+              const selected = current?.categoryId === category.id;
+              return (
+                <TouchableOpacity
+                  key={category.id}
+                  onPress={() => setCurrent((prev) => (prev ? { ...prev, categoryId: category.id } : prev))}
+                  className={`px-3 py-2 rounded-xl mr-2 mb-2 border ${selected ? 'bg-blue-600 border-blue-600' : 'bg-white border-gray-200'}`}
+                >
+                  <Text className={`text-xs font-semibold ${selected ? 'text-white' : 'text-gray-600'}`}>{category.name}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      ) : null}
+
+      <View className="flex-row space-x-3 mt-4">
+        <TouchableOpacity
+          className="flex-1 h-11 rounded-xl border border-gray-200 bg-white items-center justify-center"
+          onPress={() => setCurrent(null)}
+        >
+          <Text className="text-sm font-semibold text-gray-600">{t('merchant.inventory.stockTake.skip')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity className="flex-1 h-11 rounded-xl bg-blue-600 items-center justify-center" onPress={handleSaveCurrent}>
+          <Text className="text-sm font-semibold text-white">{t('merchant.inventory.stockTake.saveCount')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderChanges = (entry: StockTakeEntry) => {
+    if (entry.template) {
+      return (
+        <Text className="text-xs text-green-700 mt-1">
+          {t('merchant.inventory.stockTake.newItem')} · {formatPrice(entry.priceCents ?? 0)}
+          {entry.countedQuantity !== null ? ` · ${t('merchant.inventory.stockTake.currentStock', { count: entry.countedQuantity })}` : ''}
+        </Text>
+      );
+    }
+    const item = entry.item!;
+    const lines: string[] = [];
+    if (quantityChanged(entry)) {
+      lines.push(
+        t('merchant.inventory.stockTake.quantityChange', {
+          from: item.trackStock ? item.stockQuantity : '—',
+          to: entry.countedQuantity,
+        })
+      );
+    }
+    if (priceChanged(entry)) {
+      lines.push(
+        t('merchant.inventory.stockTake.priceChange', {
+          from: formatPrice(item.priceCents, item.currency),
+          to: formatPrice(entry.priceCents ?? 0, item.currency),
+        })
+      );
+    }
+    if (lines.length === 0) {
+      return <Text className="text-xs text-gray-500 mt-1">{t('merchant.inventory.stockTake.noChanges')}</Text>;
+    }
+    return lines.map((line) => (
+      <Text key={line} className="text-xs text-gray-700 mt-1">
+        {line}
+      </Text>
+    ));
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={handleClose}>
+      <View className="flex-1 bg-white">
+        <View className="px-6 pt-6 pb-3 border-b border-gray-100">
+          <Text className="text-xl font-semibold text-gray-900">
+            {step === 'scan' ? t('merchant.inventory.stockTake.title') : t('merchant.inventory.stockTake.reviewTitle')}
+          </Text>
+          <Text className="text-xs text-gray-500 mt-1">
+            {step === 'scan' ? t('merchant.inventory.stockTake.scanHint') : t('merchant.inventory.stockTake.reviewDesc')}
+          </Text>
+        </View>
+
+        <ScrollView className="flex-1 px-6" contentContainerStyle={{ paddingBottom: 32 }} keyboardShouldPersistTaps="handled">
+          {step === 'scan' ? (
+            <>
+              <View className="mt-4 h-48 rounded-2xl overflow-hidden bg-black items-center justify-center">
+                {cameraPermissionGranted && cameraDevice ? (
+                  <Camera style={StyleSheet.absoluteFill} device={cameraDevice} isActive={scanning} codeScanner={codeScanner} />
+                ) : (
+                  <Text className="text-xs text-gray-300 px-6 text-center">{t('merchant.inventory.stockTake.cameraUnavailable')}</Text>
+                )}
+                {isLookingUp ? (
+                  <View className="absolute top-0 bottom-0 left-0 right-0 items-center justify-center bg-black/40">
+                    <ActivityIndicator color="#fff" />
+                  </View>
+                ) : null}
+              </View>
+
+              <View className="flex-row items-center mt-3">
+                <TextInput
+                  className="flex-1 h-11 border border-gray-200 rounded-xl px-3 text-base text-gray-900"
+                  value={manualBarcode}
+                  onChangeText={setManualBarcode}
+                  placeholder={t('merchant.inventory.stockTake.manualPlaceholder')}
+                  keyboardType="number-pad"
+                  returnKeyType="search"
+                  onSubmitEditing={() => {
+                    handleBarcode(manualBarcode);
+                    setManualBarcode('');
+                  }}
+                />
+                <TouchableOpacity
+                  className="ml-2 h-11 px-4 rounded-xl bg-white border border-gray-200 items-center justify-center"
+                  onPress={() => {
+                    handleBarcode(manualBarcode);
+                    setManualBarcode('');
+                  }}
+                  disabled={isLookingUp || manualBarcode.trim() === ''}
+                >
+                  <Text className="text-sm font-semibold text-gray-700">{t('merchant.inventory.stockTake.lookup')}</Text>
+                </TouchableOpacity>
+              </View>
+
+              {notFoundBarcode ? (
+                <View className="mt-4 bg-amber-50 border border-amber-200 rounded-xl px-4 py-3">
+                  <Text className="text-xs text-amber-800">
+                    {t('merchant.inventory.stockTake.notFound', { barcode: notFoundBarcode })}
+                  </Text>
+                </View>
+              ) : null}
+
+              {current ? renderCurrent(current) : null}
+
+              <View className="mt-6">
+                <Text className="text-sm font-semibold text-gray-700">
+                  {t('merchant.inventory.stockTake.sessionTitle', { count: entries.length })}
+                </Text>
+                {entries.length === 0 ? (
+                  <Text className="text-xs text-gray-500 mt-2">{t('merchant.inventory.stockTake.sessionEmpty')}</Text>
+                ) : (
+                  entries.map((entry) => (
+                    <TouchableOpacity
+                      key={entryKey(entry)}
+                      className="mt-2 flex-row items-center bg-white border border-gray-100 rounded-xl px-4 py-3"
+                      onPress={() => openEntry(entry)}
+                    >
+                      <View className="flex-1 pr-2">
+                        <Text className="text-sm font-semibold text-gray-900" numberOfLines={1}>
+                          {entryName(entry)}
+                        </Text>
+                        {renderChanges(entry)}
+                      </View>
+                      <TouchableOpacity
+                        onPress={() => handleRemoveEntry(entry)}
+                        className="h-8 w-8 rounded-full items-center justify-center bg-gray-100"
+                        accessibilityRole="button"
+                        accessibilityLabel={t('merchant.inventory.stockTake.remove')}
+                        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                      >
+                        <Text className="text-base font-semibold text-gray-600 leading-none">×</Text>
+                      </TouchableOpacity>
+                    </TouchableOpacity>
+                  ))
+                )}
+              </View>
+            </>
+          ) : (
+            <View className="mt-4">
+              {unchangedCount > 0 ? (
+                <Text className="text-xs text-gray-500">
+                  {t('merchant.inventory.stockTake.unchangedCount', { count: unchangedCount })}
+                </Text>
+              ) : null}
+              {changedEntries.map((entry) => (
+                <View key={entryKey(entry)} className="mt-2 bg-white border border-gray-100 rounded-xl px-4 py-3">
+                  <Text className="text-sm font-semibold text-gray-900">{entryName(entry)}</Text>
+                  {renderChanges(entry)}
+                </View>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+
+        <View className="px-6 py-4 border-t border-gray-100 flex-row space-x-3">
+          <TouchableOpacity
+            className="flex-1 h-12 rounded-xl border border-gray-200 items-center justify-center"
+            onPress={step === 'scan' ? handleClose : () => setStep('scan')}
+            disabled={commitMutation.isLoading}
+          >
+            <Text className="text-sm font-semibold text-gray-600">
+              {step === 'scan' ? t('merchant.inventory.common.close') : t('merchant.inventory.stockTake.back')}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            className={`flex-1 h-12 rounded-xl items-center justify-center ${changedEntries.length === 0 ? 'bg-gray-300' : 'bg-blue-600'}`}
+            onPress={
+              step === 'scan'
+                ? () => {
+                    setCurrent(null);
+                    setStep('review');
+                  }
+                : handleCommit
+            }
+            disabled={changedEntries.length === 0 || commitMutation.isLoading}
+          >
+            {commitMutation.isLoading ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text className="text-sm font-semibold text-white">
+                {step === 'scan'
+                  ? t('merchant.inventory.stockTake.review', { count: changedEntries.length })
+                  : t('merchant.inventory.stockTake.commit', { count: changedEntries.length })}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -1,10 +1,11 @@
 import React from 'react';
 import { View, TouchableOpacity, Text } from 'react-native';
 
-export type InventoryTab = 'items' | 'categories' | 'audit';
+export type InventoryTab = 'items' | 'low_stock' | 'categories' | 'audit';
 
 const TAB_LABELS: Record<InventoryTab, string> = {
   items: 'All Items',
+  low_stock: 'Low Stock',
   categories: 'Categories',
   audit: 'Audit Log',
 };
@@ -12,13 +13,15 @@ const TAB_LABELS: Record<InventoryTab, string> = {
 type InventoryTabBarProps = {
   activeTab: InventoryTab;
   onTabChange: (tab: InventoryTab) => void;
+  badges?: Partial<Record<InventoryTab, number>>;
 };
 
-export function InventoryTabBar({ activeTab, onTabChange }: InventoryTabBarProps) {
+export function InventoryTabBar({ activeTab, onTabChange, badges }: InventoryTabBarProps) {
   return (
     <View className="flex-row bg-white rounded-2xl p-1 shadow-sm border border-gray-100">
       {(Object.keys(TAB_LABELS) as InventoryTab[]).map((tab) => {
         const isActive = tab === activeTab;
+        const badge = badges?.[tab] ?? 0;
         return (
           <TouchableOpacity
             key={tab}
@@ -27,12 +30,17 @@ export function InventoryTabBar({ activeTab, onTabChange }: InventoryTabBarProps
             accessibilityRole="button"
             accessibilityState={{ selected: isActive }}
           >
-            <Text className={`text-sm font-medium ${isActive ? 'text-white' : 'text-gray-600'}`}>{TAB_LABELS[tab]}</Text>
+            <View className="flex-row items-center">
+              <Text className={`text-sm font-medium ${isActive ? 'text-white' : 'text-gray-600'}`}>{TAB_LABELS[tab]}</Text>
+              {badge > 0 ? (
+                <View className={`ml-1 px-1.5 rounded-full ${isActive ? 'bg-white' : 'bg-amber-500'}`}>
+                  <Text className={`text-[10px] font-bold ${isActive ? 'text-blue-600' : 'text-white'}`}>{badge}</Text>
+                </View>
+              ) : null}
+            </View>
           </TouchableOpacity>
         );
       })}
     </View>
   );
 }
-
-
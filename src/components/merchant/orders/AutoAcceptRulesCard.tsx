@@ -0,0 +1,291 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Switch,
+  Modal,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useAutoAcceptSettings, useSaveAutoAcceptSettings } from '../../../hooks/merchant/useAutoAccept';
+import type { AutoAcceptRule } from '../../../services/merchant/autoAcceptService';
+import { formatPrice } from '../../../types/orders';
+
+type AutoAcceptRulesCardProps = {
+  shopId: string;
+};
+
+const MAX_RULES = 10;
+
+const EMPTY_RULE: AutoAcceptRule = {
+  name: '',
+  isEnabled: true,
+  duringOpeningHours: true,
+  maxTotalCents: null,
+  allItemsInStock: true,
+  runnerAvailable: false,
+};
+
+/**
+ * Per-shop auto-accept rules with a kill switch. Rules are tried top to bottom and the
+ * first one whose conditions all hold confirms the new order.
+ */
+export function AutoAcceptRulesCard({ shopId }: AutoAcceptRulesCardProps) {
+  const { t, i18n } = useTranslation();
+  const isRTL = i18n.language === 'ur';
+  const { data: settings, isLoading } = useAutoAcceptSettings(shopId);
+  const saveMutation = useSaveAutoAcceptSettings(shopId);
+
+  // Index of the rule being edited; -1 adds a new one.
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+
+  const rules = settings?.rules ?? [];
+  const isEnabled = settings?.isEnabled ?? false;
+
+  const save = async (next: { isEnabled: boolean; rules: AutoAcceptRule[] }) => {
+    try {
+      await saveMutation.mutateAsync(next);
+      return true;
+    } catch (error: any) {
+      Alert.alert(t('merchant.settings.error'), error?.message || t('merchant.settings.autoAccept.saveError'));
+      return false;
+    }
+  };
+
+  const handleToggleKillSwitch = (value: boolean) => {
+    save({ isEnabled: value, rules });
+  };
+
+  const handleToggleRule = (index: number, value: boolean) => {
+    save({ isEnabled, rules: rules.map((rule, i) => (i === index ? { ...rule, isEnabled: value } : rule)) });
+  };
+
+  const handleSaveRule = async (rule: AutoAcceptRule) => {
+    const nextRules =
+      editingIndex === -1 ? [...rules, rule] : rules.map((current, i) => (i === editingIndex ? rule : current));
+    if (await save({ isEnabled, rules: nextRules })) {
+      setEditingIndex(null);
+    }
+  };
+
+  const handleDeleteRule = (index: number) => {
+    Alert.alert(
+      t('merchant.settings.autoAccept.deleteRuleTitle'),
+      t('merchant.settings.autoAccept.deleteRuleMessage', { name: rules[index]?.name }),
+      [
+        { text: t('merchant.settings.cancel'), style: 'cancel' },
+        {
+          text: t('merchant.settings.delete'),
+          style: 'destructive',
+          onPress: () => save({ isEnabled, rules: rules.filter((_, i) => i !== index) }),
+        },
+      ]
+    );
+  };
+
+  const describeRule = (rule: AutoAcceptRule) => {
+    const conditions: string[] = [];
+    if (rule.duringOpeningHours) conditions.push(t('merchant.settings.autoAccept.conditions.openingHours'));
+    if (rule.maxTotalCents != null) {
+      conditions.push(t('merchant.settings.autoAccept.conditions.maxTotal', { amount: formatPrice(rule.maxTotalCents) }));
+    }
+    if (rule.allItemsInStock) conditions.push(t('merchant.settings.autoAccept.conditions.inStock'));
+    if (rule.runnerAvailable) conditions.push(t('merchant.settings.autoAccept.conditions.runnerAvailable'));
+    return conditions.join(' · ');
+  };
+
+  return (
+    <View className="bg-white border border-gray-100 rounded-3xl p-6 shadow-sm">
+      <View className={`flex-row items-center justify-between mb-2 ${isRTL ? 'flex-row-reverse' : ''}`}>
+        <Text className={`text-xl font-semibold text-gray-900 flex-1 ${isRTL ? 'text-right' : 'text-left'}`}>
+          {t('merchant.settings.autoAccept.title')}
+        </Text>
+        {isLoading || saveMutation.isLoading ? (
+          <ActivityIndicator size="small" color="#3B82F6" />
+        ) : (
+          <Switch
+            value={isEnabled}
+            onValueChange={handleToggleKillSwitch}
+            trackColor={{ true: '#93c5fd', false: '#d1d5db' }}
+          />
+        )}
+      </View>
+      <Text className={`text-sm text-gray-600 mb-4 ${isRTL ? 'text-right' : 'text-left'}`}>
+        {isEnabled ? t('merchant.settings.autoAccept.enabledHint') : t('merchant.settings.autoAccept.disabledHint')}
+      </Text>
+
+      {rules.length === 0 ? (
+        <Text className={`text-sm text-gray-400 mb-4 ${isRTL ? 'text-right' : 'text-left'}`}>
+          {t('merchant.settings.autoAccept.noRules')}
+        </Text>
+      ) : (
+        rules.map((rule, index) => (
+          <View
+            key={rule.id ?? `new-${index}`}
+            className={`py-3 ${index < rules.length - 1 ? 'border-b border-gray-100' : ''}`}
+          >
+            <View className={`flex-row items-center ${isRTL ? 'flex-row-reverse' : ''}`}>
+              <View className="flex-1">
+                <Text className={`text-base font-semibold ${rule.isEnabled ? 'text-gray-900' : 'text-gray-400'}`}>
+                  {index + 1}. {rule.name}
+                </Text>
+                <Text className="text-xs text-gray-500 mt-0.5">{describeRule(rule)}</Text>
+              </View>
+              <Switch
+                value={rule.isEnabled}
+                onValueChange={(value) => handleToggleRule(index, value)}
+                disabled={saveMutation.isLoading}
+                trackColor={{ true: '#93c5fd', false: '#d1d5db' }}
+              />
+            </View>
+            <View className={`flex-row mt-2 ${isRTL ? 'flex-row-reverse' : ''}`}>
+              <TouchableOpacity onPress={() => setEditingIndex(index)} className="mr-4">
+                <Text className="text-blue-600 text-sm font-semibold">{t('merchant.settings.edit')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleDeleteRule(index)} disabled={saveMutation.isLoading}>
+                <Text className="text-red-600 text-sm font-semibold">{t('merchant.settings.delete')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))
+      )}
+
+      {rules.length < MAX_RULES && (
+        <TouchableOpacity
+          onPress={() => setEditingIndex(-1)}
+          disabled={isLoading}
+          className="mt-2 border border-blue-600 rounded-xl py-3 items-center"
+        >
+          <Text className="text-blue-600 font-semibold">{t('merchant.settings.autoAccept.addRule')}</Text>
+        </TouchableOpacity>
+      )}
+
+      <AutoAcceptRuleModal
+        rule={editingIndex === null ? null : editingIndex === -1 ? EMPTY_RULE : rules[editingIndex] ?? null}
+        onClose={() => setEditingIndex(null)}
+        onSubmit={handleSaveRule}
+        isSaving={saveMutation.isLoading}
+      />
+    </View>
+  );
+}
+
+interface AutoAcceptRuleModalProps {
+  rule: AutoAcceptRule | null;
+  onClose: () => void;
+  onSubmit: (rule: AutoAcceptRule) => void;
+  isSaving: boolean;
+}
+
+function AutoAcceptRuleModal({ rule, onClose, onSubmit, isSaving }: AutoAcceptRuleModalProps) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<AutoAcceptRule>(EMPTY_RULE);
+  const [maxTotalText, setMaxTotalText] = useState('');
+
+  const handleShow = () => {
+    const initial = rule ?? EMPTY_RULE;
+    setDraft(initial);
+    setMaxTotalText(initial.maxTotalCents != null ? String(initial.maxTotalCents / 100) : '');
+  };
+
+  const maxTotal = parseFloat(maxTotalText);
+  const maxTotalCents = maxTotalText.trim() === '' ? null : Number.isFinite(maxTotal) ? Math.round(maxTotal * 100) : NaN;
+  const hasCondition =
+    draft.duringOpeningHours || maxTotalCents !== null || draft.allItemsInStock || draft.runnerAvailable;
+  const isValid =
+    draft.name.trim().length > 0 && hasCondition && (maxTotalCents === null || maxTotalCents > 0);
+
+  const conditionRow = (
+    key: 'duringOpeningHours' | 'allItemsInStock' | 'runnerAvailable',
+    label: string
+  ) => (
+    <View className="flex-row items-center justify-between py-3 border-b border-gray-100">
+      <Text className="text-gray-900 text-base flex-1 mr-3">{label}</Text>
+      <Switch
+        value={draft[key]}
+        onValueChange={(value) => setDraft((prev) => ({ ...prev, [key]: value }))}
+        trackColor={{ true: '#93c5fd', false: '#d1d5db' }}
+      />
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={rule !== null}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+      onShow={handleShow}
+    >
+      <View className="flex-1 bg-gray-50">
+        <View className="bg-white border-b border-gray-200 px-4 py-4">
+          <View className="flex-row items-center justify-between">
+            <Text className="text-gray-900 text-lg font-bold">
+              {rule?.id ? t('merchant.settings.autoAccept.editRule') : t('merchant.settings.autoAccept.addRule')}
+            </Text>
+            <TouchableOpacity
+              onPress={onClose}
+              className="w-8 h-8 rounded-full bg-gray-100 items-center justify-center"
+            >
+              <Text className="text-gray-600 text-lg">✕</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <ScrollView className="flex-1" contentContainerStyle={{ padding: 16 }} keyboardShouldPersistTaps="handled">
+          <Text className="text-gray-700 text-sm font-semibold mb-2">{t('merchant.settings.autoAccept.ruleName')}</Text>
+          <TextInput
+            value={draft.name}
+            onChangeText={(name) => setDraft((prev) => ({ ...prev, name }))}
+            maxLength={60}
+            placeholder={t('merchant.settings.autoAccept.ruleNamePlaceholder')}
+            className="bg-white border border-gray-200 rounded-xl px-4 py-3 text-base text-gray-900"
+          />
+
+          <Text className="text-gray-700 text-sm font-semibold mt-6 mb-1">
+            {t('merchant.settings.autoAccept.conditionsTitle')}
+          </Text>
+          <View className="bg-white rounded-xl px-4">
+            {conditionRow('duringOpeningHours', t('merchant.settings.autoAccept.conditions.openingHours'))}
+            {conditionRow('allItemsInStock', t('merchant.settings.autoAccept.conditions.inStock'))}
+            {conditionRow('runnerAvailable', t('merchant.settings.autoAccept.conditions.runnerAvailable'))}
+            <View className="py-3">
+              <Text className="text-gray-900 text-base">{t('merchant.settings.autoAccept.maxTotalLabel')}</Text>
+              <TextInput
+                value={maxTotalText}
+                onChangeText={(text) => {
+                  if (/^\d*(\.\d{0,2})?$/.test(text)) {
+                    setMaxTotalText(text);
+                  }
+                }}
+                keyboardType="decimal-pad"
+                placeholder={t('merchant.settings.autoAccept.noLimit')}
+                className="mt-2 bg-gray-50 border border-gray-200 rounded-xl px-4 py-3 text-base text-gray-900"
+              />
+            </View>
+          </View>
+
+          {!hasCondition && (
+            <Text className="text-amber-700 text-sm mt-3">{t('merchant.settings.autoAccept.needsCondition')}</Text>
+          )}
+
+          <TouchableOpacity
+            className={`mt-6 h-12 rounded-xl items-center justify-center ${isValid ? 'bg-blue-600' : 'bg-gray-300'}`}
+            onPress={() => onSubmit({ ...draft, name: draft.name.trim(), maxTotalCents })}
+            disabled={!isValid || isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text className="text-white text-base font-semibold">{t('merchant.settings.autoAccept.saveRule')}</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
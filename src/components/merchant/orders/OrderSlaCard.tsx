@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useSaveShopSla, useShopSla } from '../../../hooks/merchant/useOrderSla';
+import type { OrderSlaTargets } from '../../../utils/orderSla';
+
+type OrderSlaCardProps = {
+  shopId: string;
+};
+
+const MAX_TARGET_MINUTES = 240;
+
+const FIELDS: Array<{ key: keyof OrderSlaTargets; label: string }> = [
+  { key: 'confirmationMinutes', label: 'merchant.settings.sla.confirmation' },
+  { key: 'preparationMinutes', label: 'merchant.settings.sla.preparation' },
+  { key: 'deliveryMinutes', label: 'merchant.settings.sla.delivery' },
+];
+
+type DraftTargets = Record<keyof OrderSlaTargets, string>;
+
+function toDraft(targets: OrderSlaTargets | null | undefined): DraftTargets {
+  return {
+    confirmationMinutes: targets?.confirmationMinutes != null ? String(targets.confirmationMinutes) : '',
+    preparationMinutes: targets?.preparationMinutes != null ? String(targets.preparationMinutes) : '',
+    deliveryMinutes: targets?.deliveryMinutes != null ? String(targets.deliveryMinutes) : '',
+  };
+}
+
+/** Empty means no target; anything else must be a whole number of minutes in range. */
+function parseMinutes(text: string): number | null | undefined {
+  if (text.trim() === '') return null;
+  const minutes = parseInt(text, 10);
+  return minutes >= 1 && minutes <= MAX_TARGET_MINUTES ? minutes : undefined;
+}
+
+/**
+ * Per-stage SLA targets. Orders that run past a target get a red badge in the Orders section and a loud alert;
+ * the breach is recorded for analytics when the order moves on.
+ */
+export function OrderSlaCard({ shopId }: OrderSlaCardProps) {
+  const { t, i18n } = useTranslation();
+  const isRTL = i18n.language === 'ur';
+  const { data: targets, isLoading } = useShopSla(shopId);
+  const saveMutation = useSaveShopSla(shopId);
+  const [draft, setDraft] = useState<DraftTargets>(() => toDraft(targets));
+
+  useEffect(() => {
+    setDraft(toDraft(targets));
+  }, [targets]);
+
+  const parsed = {
+    confirmationMinutes: parseMinutes(draft.confirmationMinutes),
+    preparationMinutes: parseMinutes(draft.preparationMinutes),
+    deliveryMinutes: parseMinutes(draft.deliveryMinutes),
+  };
+  const isValid = Object.values(parsed).every((value) => value !== undefined);
+  const isDirty = FIELDS.some(({ key }) => draft[key] !== toDraft(targets)[key]);
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    try {
+      await saveMutation.mutateAsync(parsed as OrderSlaTargets);
+      Alert.alert(t('merchant.settings.success'), t('merchant.settings.sla.saved'));
+    } catch (error: any) {
+      Alert.alert(t('merchant.settings.error'), error?.message || t('merchant.settings.sla.saveError'));
+    }
+  };
+
+  return (
+    <View className="bg-white border border-gray-100 rounded-3xl p-6 shadow-sm">
+      <Text className={`text-xl font-semibold text-gray-900 mb-2 ${isRTL ? 'text-right' : 'text-left'}`}>
+        {t('merchant.settings.sla.title')}
+      </Text>
+      <Text className={`text-sm text-gray-600 mb-4 ${isRTL ? 'text-right' : 'text-left'}`}>
+        {t('merchant.settings.sla.description')}
+      </Text>
+
+      {isLoading ? (
+        <ActivityIndicator size="small" color="#3B82F6" />
+      ) : (
+        <>
+          {FIELDS.map(({ key, label }) => (
+            <View key={key} className={`flex-row items-center mb-3 ${isRTL ? 'flex-row-reverse' : ''}`}>
+              <Text className={`flex-1 text-base text-gray-900 ${isRTL ? 'text-right' : 'text-left'}`}>{t(label)}</Text>
+              <TextInput
+                value={draft[key]}
+                onChangeText={(text) => {
+                  if (/^\d{0,3}$/.test(text)) {
+                    setDraft((prev) => ({ ...prev, [key]: text }));
+                  }
+                }}
+                keyboardType="number-pad"
+                placeholder={t('merchant.settings.sla.off')}
+                className={`w-20 bg-gray-50 border rounded-xl px-3 py-2 text-base text-gray-900 text-center ${
+                  parsed[key] === undefined ? 'border-red-400' : 'border-gray-200'
+                }`}
+              />
+              <Text className="text-sm text-gray-500 mx-2">{t('merchant.settings.sla.minutes')}</Text>
+            </View>
+          ))}
+
+          {!isValid && (
+            <Text className={`text-red-600 text-sm mb-3 ${isRTL ? 'text-right' : 'text-left'}`}>
+              {t('merchant.settings.sla.invalid', { max: MAX_TARGET_MINUTES })}
+            </Text>
+          )}
+
+          <TouchableOpacity
+            onPress={handleSave}
+            disabled={!isValid || !isDirty || saveMutation.isLoading}
+            className={`mt-2 rounded-xl py-3 items-center ${isValid && isDirty ? 'bg-blue-600' : 'bg-gray-300'}`}
+          >
+            {saveMutation.isLoading ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text className="text-white font-semibold">{t('merchant.settings.sla.save')}</Text>
+            )}
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
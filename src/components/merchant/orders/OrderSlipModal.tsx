@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator, Modal, Switch, Alert } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import type { OrderWithAll } from '../../../types/orders';
+import {
+  OrderSlipFormat,
+  OrderSlipKind,
+  buildOrderSlip,
+  shareOrderSlip,
+} from '../../../services/merchant/orderReceiptService';
+import { useSlipTextRasterizer } from './SlipTextRasterizer';
+
+interface OrderSlipModalProps {
+  order: OrderWithAll | null;
+  visible: boolean;
+  onClose: () => void;
+}
+
+const PAPER_COLUMNS = { '58mm': 32, '80mm': 48 } as const;
+
+type PaperWidth = keyof typeof PAPER_COLUMNS;
+
+/**
+ * Print or share an order as a receipt or packing slip. Thermal printers receive raw ESC/POS through a printer
+ * app, with Urdu lines drawn here and sent as images; the HTML page can be printed or saved as PDF.
+ */
+export function OrderSlipModal({ order, visible, onClose }: OrderSlipModalProps) {
+  const { t, i18n } = useTranslation();
+  const isRTL = i18n.language === 'ur';
+  const [kind, setKind] = useState<OrderSlipKind>('receipt');
+  const [paperWidth, setPaperWidth] = useState<PaperWidth>('58mm');
+  const [isUnicodePrinter, setIsUnicodePrinter] = useState(true);
+  const [busyFormat, setBusyFormat] = useState<OrderSlipFormat | null>(null);
+  const rasterizer = useSlipTextRasterizer();
+
+  const handleShare = async (format: OrderSlipFormat) => {
+    if (!order || busyFormat) return;
+    setBusyFormat(format);
+    try {
+      const { data, error } = await buildOrderSlip(order, {
+        kind,
+        format,
+        t,
+        isRTL,
+        columns: PAPER_COLUMNS[paperWidth],
+        encoding: isUnicodePrinter ? 'utf8' : 'ascii',
+        rasterizeText: rasterizer.rasterize,
+      });
+      if (error || !data) {
+        Alert.alert(t('merchant.orders.error'), error?.message ?? t('merchant.orders.receipt.error'));
+        return;
+      }
+      if (await shareOrderSlip(data)) {
+        onClose();
+      }
+    } catch (error: any) {
+      Alert.alert(t('merchant.orders.error'), error?.message ?? t('merchant.orders.receipt.error'));
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  const segment = <T extends string>(options: T[], value: T, onChange: (next: T) => void, label: (option: T) => string) => (
+    <View className="flex-row bg-gray-100 rounded-full p-1 self-start">
+      {options.map((option) => (
+        <TouchableOpacity
+          key={option}
+          onPress={() => onChange(option)}
+          className={`px-4 py-1.5 rounded-full ${value === option ? 'bg-white' : ''}`}
+        >
+          <Text className={`text-sm font-semibold ${value === option ? 'text-gray-900' : 'text-gray-500'}`}>
+            {label(option)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      {rasterizer.element}
+      <View className="flex-1 bg-gray-50">
+        <View className="bg-white border-b border-gray-200 px-4 py-4">
+          <View className="flex-row items-center justify-between">
+            <Text className="text-gray-900 text-lg font-bold">{t('merchant.orders.receipt.title')}</Text>
+            <TouchableOpacity
+              onPress={onClose}
+              className="w-8 h-8 rounded-full bg-gray-100 items-center justify-center"
+            >
+              <Text className="text-gray-600 text-lg">✕</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <ScrollView className="flex-1" contentContainerStyle={{ padding: 16 }}>
+          <Text className="text-gray-700 text-sm font-semibold mb-2">{t('merchant.orders.receipt.kindLabel')}</Text>
+          {segment<OrderSlipKind>(['receipt', 'packing_slip'], kind, setKind, (option) =>
+            option === 'receipt' ? t('merchant.orders.receipt.receiptTitle') : t('merchant.orders.receipt.packingSlipTitle')
+          )}
+
+          <View className="bg-white rounded-xl p-4 mt-6">
+            <Text className="text-gray-900 text-base font-semibold">{t('merchant.orders.receipt.thermalTitle')}</Text>
+            <Text className="text-gray-500 text-sm mt-1 mb-3">{t('merchant.orders.receipt.thermalHint')}</Text>
+            <Text className="text-gray-700 text-sm font-semibold mb-2">{t('merchant.orders.receipt.paperWidth')}</Text>
+            {segment<PaperWidth>(['58mm', '80mm'], paperWidth, setPaperWidth, (option) => option)}
+            <View className="flex-row items-center justify-between mt-4">
+              <Text className="text-gray-900 text-base flex-1 mr-3">{t('merchant.orders.receipt.unicodePrinter')}</Text>
+              <Switch
+                value={isUnicodePrinter}
+                onValueChange={setIsUnicodePrinter}
+                trackColor={{ true: '#93c5fd', false: '#d1d5db' }}
+              />
+            </View>
+            {!isUnicodePrinter && (
+              <Text className="text-amber-700 text-xs mt-2">{t('merchant.orders.receipt.asciiWarning')}</Text>
+            )}
+            <TouchableOpacity
+              onPress={() => handleShare('escpos')}
+              disabled={busyFormat !== null}
+              className="mt-4 h-12 rounded-xl bg-blue-600 items-center justify-center"
+            >
+              {busyFormat === 'escpos' ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text className="text-white text-base font-semibold">{t('merchant.orders.receipt.sendToPrinter')}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <View className="bg-white rounded-xl p-4 mt-4">
+            <Text className="text-gray-900 text-base font-semibold">{t('merchant.orders.receipt.documentTitle')}</Text>
+            <Text className="text-gray-500 text-sm mt-1">{t('merchant.orders.receipt.documentHint')}</Text>
+            <TouchableOpacity
+              onPress={() => handleShare('html')}
+              disabled={busyFormat !== null}
+              className="mt-4 h-12 rounded-xl border border-blue-600 items-center justify-center"
+            >
+              {busyFormat === 'html' ? (
+                <ActivityIndicator color="#2563eb" />
+              ) : (
+                <Text className="text-blue-600 text-base font-semibold">{t('merchant.orders.receipt.shareDocument')}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,359 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  useWindowDimensions,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import {
+  useConfirmOrder,
+  useAssignRunnerAndDispatch,
+  useMarkOrderDelivered,
+  useUpdateOrderItemPacking,
+} from '../../../hooks/merchant/useOrders';
+import {
+  OrderItem,
+  OrderStatus,
+  OrderWithAll,
+  canTransitionTo,
+  formatDuration,
+  formatOrderItemQuantity,
+  getStatusElapsedSeconds,
+  hasProposedSubstitution,
+} from '../../../types/orders';
+import { RunnerSelectionModal } from './RunnerSelectionModal';
+
+type OrdersBoardProps = {
+  shopId: string;
+  orders: OrderWithAll[];
+  isFetching: boolean;
+  onRefresh: () => void;
+  onOpenOrder: (order: OrderWithAll) => void;
+};
+
+type BoardStatus = Extract<OrderStatus, 'pending' | 'confirmed' | 'out_for_delivery'>;
+
+type ActionResult = { success: boolean; message?: string; queued?: boolean };
+
+const COLUMNS: Array<{ status: BoardStatus; next: OrderStatus; accent: string }> = [
+  { status: 'pending', next: 'confirmed', accent: '#F59E0B' },
+  { status: 'confirmed', next: 'out_for_delivery', accent: '#3B82F6' },
+  { status: 'out_for_delivery', next: 'delivered', accent: '#8B5CF6' },
+];
+
+// Cards turn amber, then red, the longer an order sits in one column.
+const AGE_WARNING_SECONDS = 10 * 60;
+const AGE_LATE_SECONDS = 20 * 60;
+
+const COLUMN_MAX_WIDTH = 320;
+
+function ageTone(seconds: number) {
+  if (seconds >= AGE_LATE_SECONDS) return { container: 'bg-red-100', text: 'text-red-700' };
+  if (seconds >= AGE_WARNING_SECONDS) return { container: 'bg-amber-100', text: 'text-amber-800' };
+  return { container: 'bg-gray-100', text: 'text-gray-700' };
+}
+
+/**
+ * Kitchen / packing board: active orders in one column per status, oldest first,
+ * with a tap to move each card on to the next status.
+ */
+export function OrdersBoard({ shopId, orders, isFetching, onRefresh, onOpenOrder }: OrdersBoardProps) {
+  const { t } = useTranslation();
+  const { width: screenWidth } = useWindowDimensions();
+  const columnWidth = Math.min(COLUMN_MAX_WIDTH, Math.round(screenWidth * 0.8));
+
+  const confirmMutation = useConfirmOrder();
+  const dispatchMutation = useAssignRunnerAndDispatch();
+  const deliveredMutation = useMarkOrderDelivered();
+  const packingMutation = useUpdateOrderItemPacking();
+
+  // One ticker drives every card's age timer.
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const [packingItemId, setPackingItemId] = useState<string | null>(null);
+  const [dispatchingOrder, setDispatchingOrder] = useState<OrderWithAll | null>(null);
+  const [movingOrderId, setMovingOrderId] = useState<string | null>(null);
+  const isMovingRef = useRef(false);
+
+  const columns = useMemo(
+    () =>
+      COLUMNS.map((column) => ({
+        ...column,
+        orders: orders
+          .filter((order) => order.status === column.status)
+          .sort((a, b) => new Date(a.placed_at).getTime() - new Date(b.placed_at).getTime()),
+      })),
+    [orders]
+  );
+
+  // Ticks are saved on the order line, so the board, the order screen and other devices agree.
+  // Short and unavailable lines are handled on the order screen; the board only toggles packed.
+  const togglePacked = useCallback(
+    async (order: OrderWithAll, item: OrderItem) => {
+      if (packingItemId) return;
+      setPackingItemId(item.id);
+      try {
+        const result = await packingMutation.mutateAsync({
+          orderId: order.id,
+          orderItemId: item.id,
+          status: item.packing_status === 'packed' ? null : 'packed',
+        });
+        if (!result?.success) {
+          Alert.alert(t('merchant.orders.error'), result?.message || t('merchant.orders.packing.error'));
+        }
+      } catch (error: any) {
+        console.error('Error updating packing on board:', error);
+        Alert.alert(t('merchant.orders.error'), error?.message || t('merchant.orders.packing.error'));
+      } finally {
+        setPackingItemId(null);
+      }
+    },
+    [packingItemId, packingMutation, t]
+  );
+
+  const runMove = useCallback(
+    async (order: OrderWithAll, action: () => Promise<ActionResult>) => {
+      if (isMovingRef.current) return;
+      isMovingRef.current = true;
+      setMovingOrderId(order.id);
+      try {
+        const result = await action();
+        if (result?.queued) {
+          Alert.alert(t('merchant.orders.offlineQueuedTitle'), t('merchant.orders.offlineQueuedMessage'));
+        } else if (!result?.success) {
+          Alert.alert(t('merchant.orders.error'), result?.message || t('merchant.orders.board.moveError'));
+        }
+      } catch (error: any) {
+        console.error('Error moving order on board:', error);
+        Alert.alert(t('merchant.orders.error'), error?.message || t('merchant.orders.board.moveError'));
+      } finally {
+        isMovingRef.current = false;
+        setMovingOrderId(null);
+      }
+    },
+    [t]
+  );
+
+  const handleMove = useCallback(
+    (order: OrderWithAll, next: OrderStatus) => {
+      if (!canTransitionTo(order.status, next)) {
+        Alert.alert(t('merchant.orders.error'), t('merchant.orders.board.invalidMove'));
+        return;
+      }
+
+      switch (next) {
+        case 'confirmed':
+          runMove(order, () => confirmMutation.mutateAsync(order.id));
+          break;
+        case 'out_for_delivery':
+          if (hasProposedSubstitution(order)) {
+            Alert.alert(t('merchant.orders.error'), t('merchant.orders.packing.waitingForCustomer'));
+            return;
+          }
+          setDispatchingOrder(order);
+          break;
+        case 'delivered':
+          Alert.alert(t('merchant.orders.markDeliveredTitle'), t('merchant.orders.markDeliveredMessage'), [
+            { text: t('merchant.orders.cancel'), style: 'cancel' },
+            {
+              text: t('merchant.orders.yesDelivered'),
+              onPress: () => runMove(order, () => deliveredMutation.mutateAsync(order.id)),
+            },
+          ]);
+          break;
+        default:
+          break;
+      }
+    },
+    [confirmMutation, deliveredMutation, runMove, t]
+  );
+
+  const handleSelectRunner = useCallback(
+    async (runnerId: string) => {
+      const order = dispatchingOrder;
+      if (!order) return;
+      await runMove(order, () => dispatchMutation.mutateAsync({ orderId: order.id, runnerId, shopId }));
+      setDispatchingOrder(null);
+    },
+    [dispatchingOrder, dispatchMutation, runMove, shopId]
+  );
+
+  return (
+    <>
+      <ScrollView
+        horizontal
+        className="flex-1"
+        showsHorizontalScrollIndicator={false}
+        nestedScrollEnabled={true}
+        directionalLockEnabled={true}
+        contentContainerStyle={{ paddingVertical: 16 }}
+      >
+        {columns.map((column) => (
+          <View key={column.status} style={{ width: columnWidth }} className="mr-3 bg-gray-100 rounded-xl">
+            <View className="flex-row items-center justify-between px-3 pt-3 pb-2">
+              <View className="flex-row items-center">
+                <View className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: column.accent }} />
+                <Text className="text-gray-900 text-sm font-bold">
+                  {t(`merchant.orders.board.columns.${column.status}`)}
+                </Text>
+              </View>
+              <Text className="text-gray-500 text-xs font-semibold">{column.orders.length}</Text>
+            </View>
+            <ScrollView
+              nestedScrollEnabled={true}
+              contentContainerStyle={{ paddingHorizontal: 8, paddingBottom: 8 }}
+              refreshControl={<RefreshControl refreshing={isFetching} onRefresh={onRefresh} />}
+            >
+              {column.orders.length === 0 ? (
+                <Text className="text-gray-400 text-xs text-center py-6">{t('merchant.orders.board.empty')}</Text>
+              ) : (
+                column.orders.map((order) => (
+                  <BoardCard
+                    key={order.id}
+                    order={order}
+                    elapsedSeconds={getStatusElapsedSeconds(order, now)}
+                    showChecklist={column.status === 'confirmed'}
+                    packingItemId={packingItemId}
+                    isMoving={movingOrderId === order.id}
+                    nextLabel={t(`merchant.orders.board.moveTo.${column.next}`)}
+                    onTogglePacked={(item) => togglePacked(order, item)}
+                    onMove={() => handleMove(order, column.next)}
+                    onOpen={() => onOpenOrder(order)}
+                  />
+                ))
+              )}
+            </ScrollView>
+          </View>
+        ))}
+      </ScrollView>
+
+      <RunnerSelectionModal
+        visible={dispatchingOrder !== null}
+        shopId={shopId}
+        onClose={() => setDispatchingOrder(null)}
+        onSelect={handleSelectRunner}
+        isAssigning={dispatchMutation.isLoading}
+      />
+    </>
+  );
+}
+
+interface BoardCardProps {
+  order: OrderWithAll;
+  elapsedSeconds: number;
+  showChecklist: boolean;
+  packingItemId: string | null;
+  isMoving: boolean;
+  nextLabel: string;
+  onTogglePacked: (item: OrderItem) => void;
+  onMove: () => void;
+  onOpen: () => void;
+}
+
+function BoardCard({
+  order,
+  elapsedSeconds,
+  showChecklist,
+  packingItemId,
+  isMoving,
+  nextLabel,
+  onTogglePacked,
+  onMove,
+  onOpen,
+}: BoardCardProps) {
+  const { t } = useTranslation();
+  const orderItems = order.order_items ?? [];
+  // Short and unavailable lines are dealt with, so they count towards the packed total.
+  const packedCount = orderItems.filter((item) => item.packing_status != null).length;
+  const tone = ageTone(elapsedSeconds);
+
+  return (
+    <View className="bg-white rounded-xl p-3 mb-2 border border-gray-200">
+      <TouchableOpacity onPress={onOpen} activeOpacity={0.7}>
+        <View className="flex-row items-center justify-between mb-2">
+          <Text className="text-gray-900 text-sm font-bold">{order.order_number}</Text>
+          <View className={`px-2 py-0.5 rounded-full ${tone.container}`}>
+            <Text className={`text-xs font-semibold ${tone.text}`}>
+              ⏱️ {formatDuration(elapsedSeconds)}
+            </Text>
+          </View>
+        </View>
+        {order.customer_name ? (
+          <Text className="text-gray-600 text-xs mb-2">{order.customer_name}</Text>
+        ) : null}
+        {order.status === 'out_for_delivery' && order.delivery_runner?.name ? (
+          <Text className="text-gray-600 text-xs mb-2">🚚 {order.delivery_runner.name}</Text>
+        ) : null}
+      </TouchableOpacity>
+
+      {showChecklist ? (
+        <View className="mb-2">
+          <Text className="text-gray-500 text-xs mb-1">
+            {t('merchant.orders.board.packed', { packed: packedCount, total: orderItems.length })}
+          </Text>
+          {orderItems.map((item) => {
+            const packed = item.packing_status === 'packed';
+            const missing = item.packing_status === 'short' || item.packing_status === 'unavailable';
+            return (
+              <TouchableOpacity
+                key={item.id}
+                onPress={() => onTogglePacked(item)}
+                disabled={missing || packingItemId !== null}
+                className="flex-row items-center py-1"
+                activeOpacity={0.7}
+              >
+                <View
+                  className={`w-4 h-4 rounded border mr-2 items-center justify-center ${
+                    packed ? 'bg-green-600 border-green-600' : 'border-gray-300'
+                  }`}
+                >
+                  {packed ? <Text className="text-white text-[10px] font-bold">✓</Text> : null}
+                </View>
+                <Text className={`text-xs flex-1 ${packed ? 'text-gray-400 line-through' : 'text-gray-700'}`}>
+                  {formatOrderItemQuantity(item)} × {item.item_name}
+                  {item.variant_name ? ` (${item.variant_name})` : ''}
+                </Text>
+                {missing ? (
+                  <Text className="text-amber-700 text-[10px] font-semibold ml-1">
+                    {t(`merchant.orders.packing.${item.packing_status}`)}
+                  </Text>
+                ) : null}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ) : (
+        <View className="mb-2">
+          {orderItems.map((item) => (
+            <Text key={item.id} className="text-gray-500 text-xs">
+              {formatOrderItemQuantity(item)} × {item.item_name}
+              {item.variant_name ? ` (${item.variant_name})` : ''}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      <TouchableOpacity
+        onPress={onMove}
+        disabled={isMoving}
+        className="h-9 rounded-lg bg-blue-600 items-center justify-center"
+        activeOpacity={0.7}
+      >
+        {isMoving ? (
+          <ActivityIndicator size="small" color="#FFFFFF" />
+        ) : (
+          <Text className="text-white text-xs font-semibold">{nextLabel} →</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
@@ -0,0 +1,110 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator, Modal } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useDeliveryRunners } from '../../../hooks/merchant/useOrders';
+
+interface RunnerSelectionModalProps {
+  visible: boolean;
+  shopId: string;
+  onClose: () => void;
+  onSelect: (runnerId: string) => void;
+  isAssigning: boolean;
+}
+
+export function RunnerSelectionModal({
+  visible,
+  shopId,
+  onClose,
+  onSelect,
+  isAssigning,
+}: RunnerSelectionModalProps) {
+  const { t } = useTranslation();
+  const { data: runners, isLoading } = useDeliveryRunners(shopId);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-gray-50">
+        <View className="bg-white border-b border-gray-200 px-4 py-4">
+          <View className="flex-row items-center justify-between">
+            <Text className="text-gray-900 text-lg font-bold">{t('merchant.orders.selectRunner')}</Text>
+            <TouchableOpacity
+              onPress={onClose}
+              className="w-8 h-8 rounded-full bg-gray-100 items-center justify-center"
+            >
+              <Text className="text-gray-600 text-lg">✕</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {isLoading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator size="large" color="#3B82F6" />
+          </View>
+        ) : !runners || runners.length === 0 ? (
+          <View className="flex-1 items-center justify-center p-8">
+            <Text className="text-gray-600 text-center">
+              {t('merchant.orders.noRunners')}
+            </Text>
+          </View>
+        ) : (
+          <ScrollView className="flex-1" contentContainerStyle={{ padding: 16 }}>
+            {runners.map((runner) => (
+              <TouchableOpacity
+                key={runner.id}
+                onPress={() => onSelect(runner.id)}
+                disabled={isAssigning}
+                className="bg-white rounded-xl p-4 mb-3 border border-gray-200"
+                activeOpacity={0.7}
+              >
+                <View className="flex-row items-center justify-between">
+                  <View className="flex-1">
+                    <Text className="text-gray-900 text-base font-semibold">
+                      {runner.name}
+                    </Text>
+                    <Text className="text-gray-600 text-sm mt-0.5">
+                      {runner.phone_number}
+                    </Text>
+                    <View className="mt-2">
+                      {runner.is_available ? (
+                        <View className="px-2 py-1 bg-green-100 rounded-full self-start">
+                          <Text className="text-green-700 text-xs font-semibold">
+                            ✓ {t('merchant.orders.free')}
+                          </Text>
+                        </View>
+                      ) : (
+                        <View className="px-2 py-1 bg-orange-100 rounded-full self-start">
+                          <Text className="text-orange-700 text-xs font-semibold">
+                            🚚 {t('merchant.orders.delivering', { orderNumber: runner.current_order_number })}
+                          </Text>
+                        </View>
+                      )}
+                    </View>
+                  </View>
+                  <View className="w-8 h-8 rounded-full bg-blue-100 items-center justify-center ml-3">
+                    <Text className="text-blue-600 text-lg">→</Text>
+                  </View>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
+        {isAssigning && (
+          <View className="absolute inset-0 bg-black/50 items-center justify-center">
+            <View className="bg-white rounded-xl p-6">
+              <ActivityIndicator size="large" color="#3B82F6" />
+              <Text className="text-gray-900 mt-4 font-semibold">
+                {t('merchant.orders.assigning')}
+              </Text>
+            </View>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,106 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { LayoutChangeEvent, Text, View } from 'react-native';
+import { captureRef } from 'react-native-view-shot';
+import { decode, toRGBA8 } from 'upng-js';
+import Base64 from 'crypto-js/enc-base64';
+import { MonoBitmap, toMonoBitmap } from '../../../utils/escpos';
+import type { SlipTextBlock } from '../../../services/merchant/orderReceiptService';
+
+// Text is laid out at half the printer's resolution and captured at full size, so 12pt text is as tall as the
+// printer's own 24-dot font.
+const DOTS_PER_POINT = 2;
+const FONT_SIZE = 12;
+
+type PendingBlock = {
+  id: number;
+  block: SlipTextBlock;
+  resolve: (bitmap: MonoBitmap) => void;
+  reject: (error: unknown) => void;
+};
+
+function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const words = Base64.parse(base64);
+  const bytes = new Uint8Array(words.sigBytes);
+  for (let i = 0; i < words.sigBytes; i++) {
+    bytes[i] = (words.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff;
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Draws slip lines with the app's own text layout, which joins and orders Urdu, and captures them as printer
+ * bitmaps. Render `element` inside the screen (it sits under the screen's content) and pass `rasterize` to
+ * buildOrderSlip. Lines are drawn one at a time.
+ */
+export function useSlipTextRasterizer() {
+  const [pending, setPending] = useState<PendingBlock | null>(null);
+  const viewRef = useRef<View>(null);
+  const queue = useRef<Promise<unknown>>(Promise.resolve());
+  const nextId = useRef(0);
+
+  const rasterize = useCallback((block: SlipTextBlock) => {
+    const draw = () =>
+      new Promise<MonoBitmap>((resolve, reject) => {
+        nextId.current += 1;
+        setPending({ id: nextId.current, block, resolve, reject });
+      });
+    const result = queue.current.then(draw, draw);
+    queue.current = result.catch(() => undefined);
+    return result;
+  }, []);
+
+  const handleLayout = async (event: LayoutChangeEvent) => {
+    if (!pending) return;
+    const { block, resolve, reject } = pending;
+    try {
+      // Layout runs before the view is drawn; wait a frame so the capture has pixels.
+      await new Promise((done) => requestAnimationFrame(done));
+      const base64 = await captureRef(viewRef, {
+        format: 'png',
+        result: 'base64',
+        width: block.width,
+        height: Math.ceil(event.nativeEvent.layout.height * DOTS_PER_POINT),
+      });
+      const image = decode(base64ToArrayBuffer(base64));
+      resolve(toMonoBitmap(new Uint8Array(toRGBA8(image)[0]), image.width, image.height));
+    } catch (error) {
+      reject(error);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  let element: React.ReactNode = null;
+  if (pending) {
+    const { block } = pending;
+    const textStyle = {
+      fontSize: block.large ? FONT_SIZE * 2 : FONT_SIZE,
+      fontWeight: block.bold ? ('bold' as const) : ('normal' as const),
+      writingDirection: block.rtl ? ('rtl' as const) : ('ltr' as const),
+    };
+    element = (
+      <View className="absolute top-0 left-0" pointerEvents="none">
+        {/* Keyed per line so onLayout fires even when two lines are the same size. */}
+        <View
+          key={pending.id}
+          ref={viewRef}
+          collapsable={false}
+          onLayout={handleLayout}
+          className="bg-white items-start"
+          style={{ width: block.width / DOTS_PER_POINT, flexDirection: block.rtl ? 'row-reverse' : 'row' }}
+        >
+          <Text className="flex-1 text-black" style={[textStyle, { textAlign: block.align }]}>
+            {block.start}
+          </Text>
+          {block.end ? (
+            <Text className="text-black mx-1" style={textStyle}>
+              {block.end}
+            </Text>
+          ) : null}
+        </View>
+      </View>
+    );
+  }
+
+  return { element, rasterize };
+}
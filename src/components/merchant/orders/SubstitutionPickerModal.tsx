@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Modal,
+  TextInput,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useInventoryItems } from '../../../hooks/merchant/useInventoryItems';
+import type { InventoryItem, InventoryListParams } from '../../../types/inventory';
+import { OrderItem, formatPrice } from '../../../types/orders';
+import { formatQuantity, getLineTotalCents, roundQuantity } from '../../../utils/unitQuantity';
+
+interface SubstitutionPickerModalProps {
+  shopId: string;
+  /** The short or unavailable line to offer a substitute for; the modal is open while set. */
+  item: OrderItem | null;
+  onClose: () => void;
+  onSubmit: (merchantItemId: string, quantity: number) => void;
+  isSaving: boolean;
+}
+
+const PAGE_SIZE = 20;
+
+/** The part of the line that could not be packed, which is what the substitute stands in for. */
+function getMissingQuantity(item: OrderItem): number {
+  if (item.packing_status === 'short' && item.packed_quantity != null) {
+    return roundQuantity(item.quantity - item.packed_quantity);
+  }
+  return item.quantity;
+}
+
+export function SubstitutionPickerModal({ shopId, item, onClose, onSubmit, isSaving }: SubstitutionPickerModalProps) {
+  const { t } = useTranslation();
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<InventoryItem | null>(null);
+  const [quantityText, setQuantityText] = useState('');
+
+  const listParams = useMemo<InventoryListParams>(() => ({ search, active: true, limit: PAGE_SIZE }), [search]);
+  const { data, isLoading } = useInventoryItems(shopId, listParams);
+
+  // Items with options cannot be offered as substitutes; neither can the item that is missing.
+  const candidates = useMemo(
+    () =>
+      (data?.pages.flatMap((page) => page.items) ?? []).filter(
+        (candidate) =>
+          candidate.id !== item?.merchant_item_id && !candidate.variants.some((variant) => variant.isActive)
+      ),
+    [data, item?.merchant_item_id]
+  );
+
+  const quantity = parseFloat(quantityText);
+  const isValid = selected !== null && Number.isFinite(quantity) && quantity > 0;
+  const previewCents = selected && isValid ? getLineTotalCents(selected.priceCents, quantity) : null;
+
+  const handleShow = () => {
+    setSearch('');
+    setSelected(null);
+    setQuantityText(item ? String(getMissingQuantity(item)) : '');
+  };
+
+  return (
+    <Modal
+      visible={item !== null}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+      onShow={handleShow}
+    >
+      <View className="flex-1 bg-gray-50">
+        <View className="bg-white border-b border-gray-200 px-4 py-4">
+          <View className="flex-row items-center justify-between">
+            <View className="flex-1">
+              <Text className="text-gray-900 text-lg font-bold">{t('merchant.orders.packing.substituteTitle')}</Text>
+              {item && (
+                <Text className="text-gray-500 text-sm mt-0.5">
+                  {t('merchant.orders.packing.substituteFor', { name: item.item_name })}
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity
+              onPress={onClose}
+              className="w-8 h-8 rounded-full bg-gray-100 items-center justify-center"
+            >
+              <Text className="text-gray-600 text-lg">✕</Text>
+            </TouchableOpacity>
+          </View>
+          <TextInput
+            value={search}
+            onChangeText={setSearch}
+            placeholder={t('merchant.inventory.common.searchPlaceholder')}
+            className="mt-3 bg-gray-50 border border-gray-200 rounded-xl px-4 py-3 text-base text-gray-900"
+          />
+        </View>
+
+        {isLoading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator size="large" color="#3B82F6" />
+          </View>
+        ) : candidates.length === 0 ? (
+          <View className="flex-1 items-center justify-center p-8">
+            <Text className="text-gray-600 text-center">{t('merchant.orders.packing.noSubstitutes')}</Text>
+          </View>
+        ) : (
+          <ScrollView className="flex-1" contentContainerStyle={{ padding: 16 }} keyboardShouldPersistTaps="handled">
+            {candidates.map((candidate) => {
+              const isSelected = selected?.id === candidate.id;
+              return (
+                <TouchableOpacity
+                  key={candidate.id}
+                  onPress={() => setSelected(candidate)}
+                  className={`bg-white rounded-xl p-4 mb-3 border ${isSelected ? 'border-blue-600' : 'border-gray-200'}`}
+                  activeOpacity={0.7}
+                >
+                  <View className="flex-row items-center justify-between">
+                    <View className="flex-1">
+                      <Text className="text-gray-900 text-base font-semibold">{candidate.name}</Text>
+                      <Text className="text-gray-600 text-sm mt-0.5">
+                        {formatPrice(candidate.priceCents)}
+                        {candidate.unit ? ` / ${candidate.unit}` : ''}
+                      </Text>
+                      {candidate.trackStock && (
+                        <Text className="text-gray-500 text-xs mt-0.5">
+                          {t('merchant.orders.packing.inStock', { quantity: candidate.stockQuantity })}
+                        </Text>
+                      )}
+                    </View>
+                    {isSelected && <Text className="text-blue-600 text-lg font-bold ml-3">✓</Text>}
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        )}
+
+        {selected && (
+          <View className="bg-white border-t border-gray-200 px-4 py-4">
+            <View className="flex-row items-center">
+              <Text className="text-gray-700 text-sm font-semibold mr-3">
+                {t('merchant.orders.packing.substituteQuantity')}
+              </Text>
+              <TextInput
+                value={quantityText}
+                onChangeText={(text) => {
+                  if (/^\d*(\.\d{0,3})?$/.test(text)) {
+                    setQuantityText(text);
+                  }
+                }}
+                keyboardType="decimal-pad"
+                className="flex-1 bg-gray-50 border border-gray-200 rounded-xl px-4 py-3 text-base text-gray-900"
+                placeholder="0"
+              />
+              {selected.unit ? (
+                <Text className="text-gray-700 text-base font-semibold ml-3">{selected.unit}</Text>
+              ) : null}
+            </View>
+            {previewCents !== null && (
+              <Text className="text-gray-600 text-sm mt-3">
+                {t('merchant.orders.packing.substitutePreview', {
+                  quantity: formatQuantity(quantity, selected.unit),
+                  name: selected.name,
+                  amount: formatPrice(previewCents),
+                })}
+              </Text>
+            )}
+            <TouchableOpacity
+              className={`mt-4 h-12 rounded-xl items-center justify-center ${isValid ? 'bg-blue-600' : 'bg-gray-300'}`}
+              onPress={() => selected && onSubmit(selected.id, quantity)}
+              disabled={!isValid || isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text className="text-white text-base font-semibold">{t('merchant.orders.packing.offerSubstitute')}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+}
@@ -3,6 +3,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as authService from '../services/authService';
 import type { User, UserRole } from '../services/authService';
 import { logCrashEvent, recordCrashError, setCrashUserId } from '../utils/crashlyticsLogger';
+import { setOrderActionQueueUser } from '../services/merchant/orderActionQueue';
 
 const DEFAULT_ROLE_KEY = 'default_role';
 
@@ -44,6 +45,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  // Queued merchant order actions are stored per account; follow whoever is signed in.
+  useEffect(() => {
+    setOrderActionQueueUser(user?.id ?? null);
+  }, [user?.id]);
+
   const checkSession = async () => {
     try {
       logCrashEvent('Auth check session');
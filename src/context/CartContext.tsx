@@ -1,13 +1,38 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { ShopItem } from '../services/consumer/shopService';
+import { ShopItem, ShopItemVariant } from '../services/consumer/shopService';
+import { getLineTotalCents, getQuantityStep, roundQuantity } from '../utils/unitQuantity';
 
 const CART_STORAGE_KEY = 'aroundyou_carts';
 
-export interface CartItem extends ShopItem {
+/** A shop item as it goes into the cart, optionally pinned to one of its variants. */
+export interface CartLine extends ShopItem {
+  variant_id?: string | null;
+  variant_name?: string | null;
+}
+
+export interface CartItem extends CartLine {
   quantity: number;
 }
 
+/** Items with variants get one cart line per chosen variant, so lines are keyed by item and variant. */
+export function getCartLineKey(line: Pick<CartLine, 'id' | 'variant_id'>): string {
+  return line.variant_id ? `${line.id}:${line.variant_id}` : line.id;
+}
+
+/** Builds the cart line for an item, taking the variant's price and a display name like "Size: Large". */
+export function toCartLine(item: ShopItem, variant?: ShopItemVariant | null): CartLine {
+  if (!variant) {
+    return item;
+  }
+  return {
+    ...item,
+    price_cents: variant.price_cents,
+    variant_id: variant.id,
+    variant_name: variant.option_group ? `${variant.option_group}: ${variant.name}` : variant.name,
+  };
+}
+
 export interface ShopCart {
   shopId: string;
   shopName: string;
@@ -28,10 +53,10 @@ export interface CartsState {
 interface CartContextType {
   carts: CartsState;
   loading: boolean;
-  addItemToCart: (shopId: string, item: ShopItem, shopDetails: { name: string; image_url?: string; address?: string; latitude?: number; longitude?: number; deliveryLogic?: any }) => Promise<void>;
-  addItemToCartWithQuantity: (shopId: string, item: ShopItem, quantity: number, shopDetails: { name: string; image_url?: string; address?: string; latitude?: number; longitude?: number; deliveryLogic?: any }) => Promise<void>;
-  removeItemFromCart: (shopId: string, itemId: string) => Promise<void>;
-  updateItemQuantity: (shopId: string, itemId: string, quantity: number) => Promise<void>;
+  addItemToCart: (shopId: string, item: CartLine, shopDetails: { name: string; image_url?: string; address?: string; latitude?: number; longitude?: number; deliveryLogic?: any }) => Promise<void>;
+  addItemToCartWithQuantity: (shopId: string, item: CartLine, quantity: number, shopDetails: { name: string; image_url?: string; address?: string; latitude?: number; longitude?: number; deliveryLogic?: any }) => Promise<void>;
+  removeItemFromCart: (shopId: string, lineKey: string) => Promise<void>;
+  updateItemQuantity: (shopId: string, lineKey: string, quantity: number) => Promise<void>;
   deleteShopCart: (shopId: string) => Promise<void>;
   getShopCart: (shopId: string) => ShopCart | null;
   getAllCarts: () => ShopCart[];
@@ -72,14 +97,15 @@ export function CartProvider({ children }: { children: ReactNode }) {
   };
 
   const calculateCartTotals = (items: CartItem[]) => {
-    const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
-    const totalPrice = items.reduce((sum, item) => sum + (item.price_cents * item.quantity), 0);
+    // A weighed line counts as one item however many kg it holds.
+    const totalItems = items.reduce((sum, item) => sum + (item.unit ? 1 : item.quantity), 0);
+    const totalPrice = items.reduce((sum, item) => sum + getLineTotalCents(item.price_cents, item.quantity), 0);
     return { totalItems, totalPrice };
   };
 
   const addItemToCart = async (
     shopId: string,
-    item: ShopItem,
+    item: CartLine,
     shopDetails: { name: string; image_url?: string; address?: string; latitude?: number; longitude?: number; deliveryLogic?: any }
   ) => {
     console.log('[CartContext] 🛒 addItemToCart called:', { 
@@ -108,15 +134,16 @@ export function CartProvider({ children }: { children: ReactNode }) {
       };
     }
 
-    const existingItemIndex = newCarts[shopId].items.findIndex(i => i.id === item.id);
+    const existingItemIndex = newCarts[shopId].items.findIndex(i => getCartLineKey(i) === getCartLineKey(item));
     
     if (existingItemIndex >= 0) {
-      // Increment quantity of existing item
-      newCarts[shopId].items[existingItemIndex].quantity += 1;
+      // Increment quantity of existing item by one step (1 for per-piece items)
+      const existing = newCarts[shopId].items[existingItemIndex];
+      existing.quantity = roundQuantity(existing.quantity + getQuantityStep(existing));
       console.log('[CartContext] 📈 Incremented quantity for:', item.name, 'new qty:', newCarts[shopId].items[existingItemIndex].quantity);
     } else {
       // Add new item to cart
-      newCarts[shopId].items.push({ ...item, quantity: 1 });
+      newCarts[shopId].items.push({ ...item, quantity: getQuantityStep(item) });
       console.log('[CartContext] ✅ Added new item to cart:', item.name);
     }
 
@@ -137,7 +164,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
 
   const addItemToCartWithQuantity = async (
     shopId: string,
-    item: ShopItem,
+    item: CartLine,
     quantity: number,
     shopDetails: { name: string; image_url?: string; address?: string; latitude?: number; longitude?: number; deliveryLogic?: any }
   ) => {
@@ -167,7 +194,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
       };
     }
 
-    const existingItemIndex = newCarts[shopId].items.findIndex(i => i.id === item.id);
+    const existingItemIndex = newCarts[shopId].items.findIndex(i => getCartLineKey(i) === getCartLineKey(item));
     
     if (existingItemIndex >= 0) {
       // Update existing item quantity
@@ -192,17 +219,19 @@ export function CartProvider({ children }: { children: ReactNode }) {
     });
   };
 
-  const removeItemFromCart = async (shopId: string, itemId: string) => {
+  const removeItemFromCart = async (shopId: string, lineKey: string) => {
     const newCarts = { ...carts };
     
     if (!newCarts[shopId]) return;
 
-    const itemIndex = newCarts[shopId].items.findIndex(i => i.id === itemId);
+    const itemIndex = newCarts[shopId].items.findIndex(i => getCartLineKey(i) === lineKey);
     
     if (itemIndex >= 0) {
-      if (newCarts[shopId].items[itemIndex].quantity > 1) {
+      const line = newCarts[shopId].items[itemIndex];
+      const step = getQuantityStep(line);
+      if (line.quantity > step) {
         // Decrement quantity
-        newCarts[shopId].items[itemIndex].quantity -= 1;
+        line.quantity = roundQuantity(line.quantity - step);
       } else {
         // Remove item completely
         newCarts[shopId].items.splice(itemIndex, 1);
@@ -222,8 +251,8 @@ export function CartProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const updateItemQuantity = async (shopId: string, itemId: string, quantity: number) => {
-    console.log('[CartContext] 🔢 updateItemQuantity called:', { shopId, itemId, quantity });
+  const updateItemQuantity = async (shopId: string, lineKey: string, quantity: number) => {
+    console.log('[CartContext] 🔢 updateItemQuantity called:', { shopId, lineKey, quantity });
     
     const newCarts = { ...carts };
     
@@ -232,7 +261,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
       return;
     }
 
-    const itemIndex = newCarts[shopId].items.findIndex(i => i.id === itemId);
+    const itemIndex = newCarts[shopId].items.findIndex(i => getCartLineKey(i) === lineKey);
     
     if (itemIndex >= 0) {
       const itemName = newCarts[shopId].items[itemIndex].name;
@@ -263,7 +292,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
       await saveCarts(newCarts);
       console.log('[CartContext] ✅ Cart updated and saved');
     } else {
-      console.log('[CartContext] ⚠️ Item not found in cart:', itemId);
+      console.log('[CartContext] ⚠️ Item not found in cart:', lineKey);
     }
   };
 
@@ -5,7 +5,7 @@
  * including placing orders, tracking status, and real-time updates.
  */
 
-import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from 'react-query';
 import { useEffect, useState } from 'react';
 import {
   getUserOrders,
@@ -13,12 +13,17 @@ import {
   getActiveOrder,
   placeOrder,
   cancelOrder as cancelOrderService,
+  answerSubstitution,
   calculateOrderTotals,
   subscribeToOrder,
   subscribeToUserOrders,
+  type QuoteDestination,
 } from '../../services/consumer/orderService';
 import {
+  CancellationReasonCode,
   OrderWithAll,
+  OrderFilters,
+  OrderPage,
   PlaceOrderRequest,
   PlaceOrderResponse,
   OrderCalculation,
@@ -33,12 +38,21 @@ import {
 export const orderKeys = {
   all: ['orders'] as const,
   lists: () => [...orderKeys.all, 'list'] as const,
-  list: () => [...orderKeys.lists()] as const,
+  list: (filters: OrderFilters = { timeFilter: 'all' }) =>
+    [
+      ...orderKeys.lists(),
+      filters.timeFilter,
+      filters.customStartDate?.toISOString() ?? null,
+      filters.customEndDate?.toISOString() ?? null,
+      filters.statusFilter ?? null,
+      filters.search?.trim() ?? '',
+      filters.sort ?? 'newest',
+    ] as const,
   details: () => [...orderKeys.all, 'detail'] as const,
   detail: (id: string) => [...orderKeys.details(), id] as const,
   active: () => [...orderKeys.all, 'active'] as const,
-  calculation: (shopId: string, addressId: string, items: any[]) =>
-    [...orderKeys.all, 'calculation', shopId, addressId, items] as const,
+  calculation: (shopId: string, destination: QuoteDestination | null, items: any[]) =>
+    [...orderKeys.all, 'calculation', shopId, destination, items] as const,
 };
 
 // ============================================================================
@@ -46,12 +60,18 @@ export const orderKeys = {
 // ============================================================================
 
 /**
- * Get all orders for the current user
+ * Get the current user's order history, one page at a time
  */
-export function useUserOrders() {
-  const query = useQuery<OrderWithAll[]>(orderKeys.list(), getUserOrders, {
-    staleTime: 30000, // 30 seconds
-  });
+export function useUserOrders(filters: OrderFilters = { timeFilter: 'all' }) {
+  const query = useInfiniteQuery<OrderPage, unknown, string>(
+    orderKeys.list(filters),
+    ({ pageParam }) => getUserOrders(filters, pageParam ?? null),
+    {
+      getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+      keepPreviousData: true,
+      staleTime: 30000, // 30 seconds
+    }
+  );
 
   return query;
 }
@@ -99,6 +119,8 @@ export function useOrder(orderId: string | undefined) {
             old.delivery_address,
         };
       });
+      // The payload only carries the status; packing and substitutions change lines and totals, so refetch them.
+      void queryClient.invalidateQueries(orderKeys.detail(orderId));
     });
 
     return unsubscribe;
@@ -123,7 +145,7 @@ export function useActiveOrder() {
     const unsubscribe = subscribeToUserOrders(() => {
       // Refetch active order when any order changes
       queryClient.invalidateQueries(orderKeys.active());
-      queryClient.invalidateQueries(orderKeys.list());
+      queryClient.invalidateQueries(orderKeys.lists());
     });
 
     return unsubscribe;
@@ -133,18 +155,18 @@ export function useActiveOrder() {
 }
 
 /**
- * Calculate order totals
+ * Server fee quote for the cart
  */
 export function useOrderCalculation(
   shopId: string | undefined,
-  addressId: string | undefined,
-  items: Array<{ merchant_item_id: string; quantity: number }>
+  destination: QuoteDestination | null,
+  items: Array<{ merchant_item_id: string; quantity: number; variant_id?: string | null }>
 ) {
   return useQuery<OrderCalculation>(
-    orderKeys.calculation(shopId!, addressId!, items),
-    () => calculateOrderTotals(shopId!, items, addressId!),
+    orderKeys.calculation(shopId!, destination, items),
+    () => calculateOrderTotals(shopId!, items, destination!),
     {
-      enabled: !!shopId && !!addressId && items.length > 0,
+      enabled: !!shopId && !!destination && items.length > 0,
       staleTime: 60000, // 1 minute
     }
   );
@@ -164,7 +186,7 @@ export function usePlaceOrder() {
     (request: PlaceOrderRequest) => placeOrder(request),
     {
       onSuccess: () => {
-        queryClient.invalidateQueries(orderKeys.list());
+        queryClient.invalidateQueries(orderKeys.lists());
         queryClient.invalidateQueries(orderKeys.active());
       },
     }
@@ -174,18 +196,41 @@ export function usePlaceOrder() {
 /**
  * Cancel an order
  */
-type CancelOrderPayload = { orderId: string; reason?: string };
+type CancelOrderPayload = { orderId: string; reasonCode?: CancellationReasonCode; note?: string };
 type CancelOrderResult = { success: boolean; message?: string };
 
 export function useCancelOrder() {
   const queryClient = useQueryClient();
 
   return useMutation(
-    ({ orderId, reason }: CancelOrderPayload) => cancelOrderService(orderId, reason),
+    ({ orderId, reasonCode, note }: CancelOrderPayload) => cancelOrderService(orderId, reasonCode, note),
     {
       onSuccess: (_result, variables) => {
         const payload = variables as CancelOrderPayload | undefined;
-        queryClient.invalidateQueries(orderKeys.list());
+        queryClient.invalidateQueries(orderKeys.lists());
+        if (payload?.orderId) {
+          queryClient.invalidateQueries(orderKeys.detail(payload.orderId));
+        }
+        queryClient.invalidateQueries(orderKeys.active());
+      },
+    }
+  );
+}
+
+/**
+ * Accept or reject a substitute offered for one of the order's lines
+ */
+type AnswerSubstitutionPayload = { orderId: string; orderItemId: string; accept: boolean };
+
+export function useAnswerSubstitution() {
+  const queryClient = useQueryClient();
+
+  return useMutation(
+    ({ orderId, orderItemId, accept }: AnswerSubstitutionPayload) =>
+      answerSubstitution(orderId, orderItemId, accept),
+    {
+      onSuccess: (_result, variables) => {
+        const payload = variables as AnswerSubstitutionPayload | undefined;
         if (payload?.orderId) {
           queryClient.invalidateQueries(orderKeys.detail(payload.orderId));
         }
@@ -265,10 +310,11 @@ export function useOrderTimer(order: OrderWithAll | null | undefined): OrderTime
 // ============================================================================
 
 /**
- * Get orders count by status
+ * Get orders count by status across the pages loaded so far
  */
 export function useOrdersCountByStatus() {
-  const { data: orders } = useUserOrders();
+  const { data } = useUserOrders();
+  const orders = data?.pages.flatMap((page) => page.orders);
 
   const counts: Record<'pending' | 'confirmed' | 'out_for_delivery' | 'delivered' | 'cancelled', number> = {
     pending: 0,
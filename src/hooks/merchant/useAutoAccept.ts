@@ -0,0 +1,43 @@
+import { useMutation, useQuery, useQueryClient } from 'react-query';
+import { loogin } from '../../lib/loogin';
+import type { AutoAcceptSettings } from '../../services/merchant/autoAcceptService';
+import { fetchAutoAcceptSettings, updateAutoAcceptSettings } from '../../services/merchant/autoAcceptService';
+
+const log = loogin.scope('useAutoAccept');
+
+export const autoAcceptKeys = {
+  settings: (shopId: string) => ['auto-accept', shopId] as const,
+};
+
+export function useAutoAcceptSettings(shopId: string | undefined) {
+  return useQuery(
+    autoAcceptKeys.settings(shopId || ''),
+    async () => {
+      const { data, error } = await fetchAutoAcceptSettings(shopId || '');
+      if (error) {
+        throw error;
+      }
+      return data;
+    },
+    { enabled: Boolean(shopId) }
+  );
+}
+
+export function useSaveAutoAcceptSettings(shopId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation(
+    async (settings: Pick<AutoAcceptSettings, 'isEnabled' | 'rules'>) => {
+      const { data, error } = await updateAutoAcceptSettings(shopId, settings);
+      if (error) {
+        throw error;
+      }
+      return data;
+    },
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(autoAcceptKeys.settings(shopId));
+      },
+    }
+  );
+}
@@ -30,6 +30,10 @@ export function useDeliveryLogic(shopId: string) {
         beyondTierDistanceUnit: 250,
         freeDeliveryThreshold: 800,
         freeDeliveryRadius: 1000,
+        peakWindows: [],
+        busyModeEnabled: false,
+        busyModeMultiplier: 1.5,
+        zones: [],
         createdAt: '',
         updatedAt: '',
       } as DeliveryLogic;
@@ -1,5 +1,5 @@
 import { useMemo } from 'react';
-import { useQuery } from 'react-query';
+import { useInfiniteQuery, useQuery } from 'react-query';
 import { loogin } from '../../lib/loogin';
 import type { InventoryAuditLogEntry, InventoryAuditLogFilters } from '../../types/inventory';
 import { fetchInventoryAuditLog } from '../../services/merchant/inventoryService';
@@ -47,4 +47,52 @@ export function useInventoryAuditLog(shopId: string, filters: InventoryAuditLogF
   });
 }
 
+type AuditLogPage = { entries: InventoryAuditLogEntry[]; nextCursor?: string | null };
+
+/** The audit log a page at a time, for the audit tab; `filters.cursor` is ignored. */
+export function useInventoryAuditLogPages(shopId: string, filters: InventoryAuditLogFilters) {
+  const key = useMemo(
+    () => [
+      'inventory',
+      shopId,
+      'audit-log',
+      'pages',
+      filters.limit,
+      filters.merchantItemId,
+      filters.field,
+      filters.dateFrom,
+      filters.dateTo,
+      filters.source,
+      filters.actionTypes?.join(','),
+      filters.actorIds?.join(','),
+    ],
+    [
+      shopId,
+      filters.limit,
+      filters.merchantItemId,
+      filters.field,
+      filters.dateFrom,
+      filters.dateTo,
+      filters.source,
+      filters.actionTypes,
+      filters.actorIds,
+    ]
+  );
+
+  return useInfiniteQuery<AuditLogPage, unknown, string>(
+    key,
+    async ({ pageParam }) => {
+      const { data, error } = await fetchInventoryAuditLog(shopId, { ...filters, cursor: pageParam ?? null });
+      if (error) {
+        log.error('Failed to fetch audit log', error);
+        throw error;
+      }
+      return data ?? { entries: [], nextCursor: null };
+    },
+    {
+      getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    }
+  );
+}
+
 
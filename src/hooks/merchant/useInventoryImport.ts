@@ -0,0 +1,42 @@
+import { useMutation, useQueryClient } from 'react-query';
+import { loogin } from '../../lib/loogin';
+import {
+  applyInventoryImport,
+  previewInventoryImport,
+  type InventoryImportFile,
+} from '../../services/merchant/inventoryService';
+
+const log = loogin.scope('useInventoryImport');
+
+export function usePreviewInventoryImport(shopId: string) {
+  return useMutation(async (file: InventoryImportFile) => {
+    const { data, error } = await previewInventoryImport(shopId, file);
+    if (error) {
+      log.error('Failed to preview import', error);
+      throw error;
+    }
+    return data;
+  });
+}
+
+export function useApplyInventoryImport(shopId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation(
+    async (jobId: string) => {
+      const { data, error } = await applyInventoryImport(shopId, jobId);
+      if (error) {
+        log.error('Failed to apply import', error);
+        throw error;
+      }
+      return data;
+    },
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(['inventory', shopId, 'items']);
+        queryClient.invalidateQueries(['inventory', shopId, 'audit-log']);
+        queryClient.invalidateQueries(['inventory', shopId, 'categories']);
+      },
+    }
+  );
+}
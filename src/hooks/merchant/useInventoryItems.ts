@@ -1,10 +1,11 @@
 import { useMemo } from 'react';
-import { useMutation, useQuery, useQueryClient } from 'react-query';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from 'react-query';
 import { loogin } from '../../lib/loogin';
 import type { InventoryItem, InventoryListParams, InventoryListResponse } from '../../types/inventory';
 import {
   createInventoryItem,
   fetchInventoryItems,
+  fetchLowStockCount,
   toggleInventoryItemActive,
   updateInventoryItem,
   deleteInventoryItem,
@@ -12,6 +13,12 @@ import {
 
 const log = loogin.scope('useInventoryItems');
 
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Infinite query over the server-side item list. Every filter in `params` is part of the key; `params.cursor` is
+ * ignored because pages are chained through each response's `nextCursor`.
+ */
 export function useInventoryItems(shopId: string, params: InventoryListParams) {
   const categoriesKey = useMemo(() => (params.categoryIds ? [...params.categoryIds].sort().join(',') : ''), [
     params.categoryIds,
@@ -26,21 +33,42 @@ export function useInventoryItems(shopId: string, params: InventoryListParams) {
       params.active ?? 'all',
       params.templateFilter ?? 'all',
       categoriesKey,
-      params.cursor ?? '',
-      params.limit ?? 50,
+      params.lowStock ? 'low-stock' : '',
+      params.limit ?? DEFAULT_PAGE_SIZE,
     ],
-    [shopId, params.search, params.active, params.templateFilter, categoriesKey, params.cursor, params.limit]
+    [shopId, params.search, params.active, params.templateFilter, categoriesKey, params.lowStock, params.limit]
+  );
+
+  return useInfiniteQuery<InventoryListResponse, unknown, string>(
+    key,
+    async ({ pageParam }) => {
+      const { data, error } = await fetchInventoryItems(shopId, {
+        ...params,
+        cursor: pageParam ?? null,
+        limit: params.limit ?? DEFAULT_PAGE_SIZE,
+      });
+      if (error) {
+        log.error('Failed to load items', error);
+        throw error;
+      }
+      return data ?? { items: [], nextCursor: null };
+    },
+    {
+      getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+      keepPreviousData: true,
+    }
   );
+}
 
-  return useQuery(key, async (): Promise<InventoryListResponse> => {
-    const { data, error } = await fetchInventoryItems(shopId, params);
+/** Server-side count for the low-stock badge. Keyed under `items` so every item mutation refreshes it. */
+export function useLowStockCount(shopId: string) {
+  return useQuery(['inventory', shopId, 'items', 'low-stock-count'], async () => {
+    const { data, error } = await fetchLowStockCount(shopId);
     if (error) {
-      log.error('Failed to load items', error);
+      log.error('Failed to load low stock count', error);
       throw error;
     }
-    return data ?? { items: [], nextCursor: null };
-  }, {
-    keepPreviousData: true,
+    return data ?? 0;
   });
 }
 
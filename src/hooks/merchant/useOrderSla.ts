@@ -0,0 +1,111 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from 'react-query';
+import { useTranslation } from 'react-i18next';
+import { loogin } from '../../lib/loogin';
+import { fetchShopSla, updateShopSla } from '../../services/merchant/slaService';
+import { displayOrderSlaAlert } from '../../services/notificationService';
+import type { OrderWithAll } from '../../types/orders';
+import { formatDuration } from '../../types/orders';
+import { getOrderSlaBreach, type OrderSlaBreach, type OrderSlaTargets } from '../../utils/orderSla';
+import { useActiveShopOrders } from './useOrders';
+
+const log = loogin.scope('useOrderSla');
+
+// Breaches only need minute precision, so a slow tick is enough to surface them without a refetch.
+const SLA_TICK_MS = 15000;
+
+export const orderSlaKeys = {
+  targets: (shopId: string) => ['order-sla', shopId] as const,
+};
+
+export function useShopSla(shopId: string | undefined) {
+  return useQuery(
+    orderSlaKeys.targets(shopId || ''),
+    async () => {
+      const { data, error } = await fetchShopSla(shopId || '');
+      if (error) {
+        throw error;
+      }
+      return data;
+    },
+    { enabled: Boolean(shopId) }
+  );
+}
+
+export function useSaveShopSla(shopId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation(
+    async (targets: OrderSlaTargets) => {
+      const { data, error } = await updateShopSla(shopId, targets);
+      if (error) {
+        throw error;
+      }
+      return data;
+    },
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(orderSlaKeys.targets(shopId));
+      },
+    }
+  );
+}
+
+/** Orders that are past their current stage's target, keyed by order id. */
+export function useOrderSlaBreaches(
+  shopId: string | undefined,
+  orders: OrderWithAll[] | undefined
+): Map<string, OrderSlaBreach> {
+  const { data: targets } = useShopSla(shopId);
+  const [now, setNow] = useState(() => Date.now());
+
+  const hasTargets = Boolean(
+    targets && (targets.confirmationMinutes || targets.preparationMinutes || targets.deliveryMinutes)
+  );
+
+  useEffect(() => {
+    if (!hasTargets) return;
+    const interval = setInterval(() => setNow(Date.now()), SLA_TICK_MS);
+    return () => clearInterval(interval);
+  }, [hasTargets]);
+
+  return useMemo(() => {
+    const breaches = new Map<string, OrderSlaBreach>();
+    if (!hasTargets || !orders) return breaches;
+    for (const order of orders) {
+      const breach = getOrderSlaBreach(order, targets, now);
+      if (breach) {
+        breaches.set(order.id, breach);
+      }
+    }
+    return breaches;
+  }, [hasTargets, orders, targets, now]);
+}
+
+// Module-level so reopening the portal does not alert again for a stage that already alerted.
+const alertedBreaches = new Set<string>();
+
+/**
+ * Raises one loud local notification per order and stage when an order runs past the shop's SLA target.
+ */
+export function useOrderSlaAlerts(shopId: string) {
+  const { t } = useTranslation();
+  const { data: orders } = useActiveShopOrders(shopId);
+  const breaches = useOrderSlaBreaches(shopId, orders);
+
+  useEffect(() => {
+    breaches.forEach((breach, orderId) => {
+      const key = `${orderId}:${breach.stage}`;
+      if (alertedBreaches.has(key)) return;
+      alertedBreaches.add(key);
+
+      const order = orders?.find((o) => o.id === orderId);
+      log.info('Order SLA breached', { orderId, stage: breach.stage });
+      displayOrderSlaAlert(
+        t('merchant.orders.sla.alertTitle', { orderNumber: order?.order_number ?? '' }),
+        t(`merchant.orders.sla.alertBody.${breach.stage}`, { duration: formatDuration(breach.overdueSeconds) }),
+        { shopId, orderId, stage: breach.stage }
+      );
+    });
+  }, [breaches, orders, shopId, t]);
+}
@@ -5,26 +5,37 @@
  * including order status updates, runner assignment, and analytics.
  */
 
-import { useQuery, useMutation, useQueryClient } from 'react-query';
-import { useEffect } from 'react';
+import { useInfiniteQuery, useQuery, useMutation, useQueryClient } from 'react-query';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import {
+  ORDER_PAGE_SIZE,
   getShopOrders,
-  getFilteredShopOrders,
-  getAllMerchantOrders,
-  confirmOrder,
-  assignRunnerAndDispatch,
-  markOrderDelivered,
-  cancelOrder as cancelOrderService,
+  getActiveShopOrders,
+  getMerchantActiveOrders,
+  getMerchantOrder,
+  recordWeighedQuantity,
+  updateOrderItemPacking,
+  proposeSubstitution,
+  withdrawSubstitution,
   getDeliveryRunnersWithStatus,
   getShopOrderAnalytics,
   getShopOrderTimeSeries,
   subscribeToShopOrders,
 } from '../../services/merchant/orderService';
+import {
+  dismissOrderAction,
+  submitOrderAction,
+  subscribeToOrderActionQueue,
+} from '../../services/merchant/orderActionQueue';
 import {
   OrderWithAll,
   OrderFilters,
+  OrderPage,
   DeliveryRunnerWithStatus,
   OrderAnalytics,
+  OrderItemPackingStatus,
+  QueuedOrderAction,
+  CancellationReasonCode,
 } from '../../types/orders';
 
 // ============================================================================
@@ -34,10 +45,21 @@ import {
 export const merchantOrderKeys = {
   all: ['merchant-orders'] as const,
   lists: () => [...merchantOrderKeys.all, 'list'] as const,
-  list: (shopId: string) => [...merchantOrderKeys.lists(), shopId] as const,
+  shop: (shopId: string) => [...merchantOrderKeys.lists(), shopId] as const,
+  list: (shopId: string, filters: OrderFilters) =>
+    [
+      ...merchantOrderKeys.shop(shopId),
+      'history',
+      filters.timeFilter,
+      filters.statusFilter ?? 'all',
+      filters.customStartDate?.toISOString() ?? '',
+      filters.customEndDate?.toISOString() ?? '',
+      filters.search?.trim() ?? '',
+      filters.sort ?? 'newest',
+    ] as const,
+  active: (shopId: string) => [...merchantOrderKeys.shop(shopId), 'active'] as const,
+  detail: (orderId: string) => [...merchantOrderKeys.all, 'detail', orderId] as const,
   allMerchant: (userId: string) => [...merchantOrderKeys.all, 'all-merchant', userId] as const,
-  filtered: (shopId: string, filters: OrderFilters) =>
-    [...merchantOrderKeys.lists(), shopId, 'filtered', filters] as const,
   runners: (shopId: string) =>
     [...merchantOrderKeys.all, 'runners', shopId] as const,
   analytics: (shopId: string, timeFilter?: string) =>
@@ -48,82 +70,97 @@ export const merchantOrderKeys = {
 // QUERIES
 // ============================================================================
 
-/**
- * Get all orders for a shop with real-time updates
- */
-export function useShopOrders(shopId: string | undefined) {
+/** Refetches everything cached for the shop whenever one of its orders changes. */
+function useShopOrdersRealtime(shopId: string | undefined) {
   const queryClient = useQueryClient();
 
-  const query = useQuery<OrderWithAll[]>(
-    merchantOrderKeys.list(shopId || ''),
-    () => getShopOrders(shopId || ''),
-    {
-      enabled: !!shopId,
-      staleTime: 0,
-    }
-  );
-
-  // Subscribe to real-time updates
   useEffect(() => {
     if (!shopId) return;
 
-    const unsubscribe = subscribeToShopOrders(shopId, (_orders) => {
-      queryClient.invalidateQueries(merchantOrderKeys.list(shopId));
+    const unsubscribe = subscribeToShopOrders(shopId, () => {
+      queryClient.invalidateQueries(merchantOrderKeys.shop(shopId));
+      queryClient.invalidateQueries([...merchantOrderKeys.all, 'detail']);
     });
 
     return unsubscribe;
   }, [shopId, queryClient]);
-
-  return query;
 }
 
 /**
- * Get all orders for all merchant shops
+ * Paged order history for a shop with real-time updates. Every filter is applied by the server; pages are
+ * chained through each response's `nextCursor`.
  */
-export function useAllMerchantOrders(userId: string | undefined) {
-  return useQuery<OrderWithAll[]>(
-    merchantOrderKeys.allMerchant(userId || ''),
-    () => getAllMerchantOrders(userId || ''),
+export function useShopOrders(
+  shopId: string | undefined,
+  filters: OrderFilters = { timeFilter: 'all' }
+) {
+  const query = useInfiniteQuery<OrderPage, unknown, string>(
+    merchantOrderKeys.list(shopId || '', filters),
+    ({ pageParam }) => getShopOrders(shopId || '', filters, pageParam ?? null, ORDER_PAGE_SIZE),
     {
-      enabled: !!userId,
+      enabled: !!shopId,
       staleTime: 0,
+      keepPreviousData: true,
+      getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
     }
   );
+
+  useShopOrdersRealtime(shopId);
+
+  return query;
 }
 
 /**
- * Get filtered orders for a shop
+ * All pending, confirmed and out-for-delivery orders for a shop, however many pages they span, with real-time
+ * updates
  */
-export function useFilteredShopOrders(
-  shopId: string | undefined,
-  filters: OrderFilters
-) {
-  const queryClient = useQueryClient();
-  
+export function useActiveShopOrders(shopId: string | undefined) {
   const query = useQuery<OrderWithAll[]>(
-    merchantOrderKeys.filtered(shopId || '', filters),
-    () => getFilteredShopOrders(shopId || '', filters),
+    merchantOrderKeys.active(shopId || ''),
+    () => getActiveShopOrders(shopId || ''),
     {
       enabled: !!shopId,
       staleTime: 0,
     }
   );
 
-  // Subscribe to real-time updates
-  useEffect(() => {
-    if (!shopId) return;
+  useShopOrdersRealtime(shopId);
 
-    const unsubscribe = subscribeToShopOrders(shopId, () => {
-      // Invalidate filtered queries on any order change
-      queryClient.invalidateQueries(merchantOrderKeys.filtered(shopId, filters));
-    });
+  return query;
+}
 
-    return unsubscribe;
-  }, [shopId, filters, queryClient]);
+/**
+ * Get a single order with real-time updates
+ */
+export function useMerchantOrder(shopId: string | undefined, orderId: string | undefined) {
+  const query = useQuery<OrderWithAll | null>(
+    merchantOrderKeys.detail(orderId || ''),
+    () => getMerchantOrder(orderId || '', shopId),
+    {
+      enabled: !!orderId,
+      staleTime: 0,
+    }
+  );
+
+  useShopOrdersRealtime(shopId);
 
   return query;
 }
 
+/**
+ * Get active orders for all merchant shops
+ */
+export function useMerchantActiveOrders(userId: string | undefined) {
+  return useQuery<OrderWithAll[]>(
+    merchantOrderKeys.allMerchant(userId || ''),
+    () => getMerchantActiveOrders(userId || ''),
+    {
+      enabled: !!userId,
+      staleTime: 0,
+    }
+  );
+}
+
 /**
  * Get delivery runners with their status
  */
@@ -182,12 +219,13 @@ export function useShopOrderTimeSeries(
 
 /**
  * Confirm an order
+ * Goes through the offline action queue; `queued` in the result means it will be sent on reconnect.
  * Note: Real-time subscription will update cache automatically
  */
 export function useConfirmOrder() {
   const queryClient = useQueryClient();
   
-  return useMutation((orderId: string) => confirmOrder(orderId), {
+  return useMutation((orderId: string) => submitOrderAction({ type: 'confirm', orderId }), {
     onSuccess: () => {
       queryClient.invalidateQueries(merchantOrderKeys.all);
     },
@@ -196,6 +234,7 @@ export function useConfirmOrder() {
 
 /**
  * Assign runner and dispatch order
+ * Goes through the offline action queue; `queued` in the result means it will be sent on reconnect.
  * Note: Real-time subscription will update cache automatically
  */
 export function useAssignRunnerAndDispatch() {
@@ -209,7 +248,7 @@ export function useAssignRunnerAndDispatch() {
       orderId: string;
       runnerId: string;
       shopId?: string;
-    }) => assignRunnerAndDispatch(orderId, runnerId), {
+    }) => submitOrderAction({ type: 'dispatch', orderId, runnerId }), {
     onSuccess: (_: unknown, variables: { shopId?: string }) => {
       queryClient.invalidateQueries(merchantOrderKeys.all);
       if (variables.shopId) {
@@ -221,12 +260,13 @@ export function useAssignRunnerAndDispatch() {
 
 /**
  * Mark order as delivered
+ * Goes through the offline action queue; `queued` in the result means it will be sent on reconnect.
  * Note: Real-time subscription will update cache automatically
  */
 export function useMarkOrderDelivered() {
   const queryClient = useQueryClient();
   
-  return useMutation((orderId: string) => markOrderDelivered(orderId), {
+  return useMutation((orderId: string) => submitOrderAction({ type: 'deliver', orderId }), {
     onSuccess: () => {
       queryClient.invalidateQueries(merchantOrderKeys.all);
     },
@@ -235,13 +275,14 @@ export function useMarkOrderDelivered() {
 
 /**
  * Cancel an order (merchant side)
+ * Goes through the offline action queue; `queued` in the result means it will be sent on reconnect.
  * Note: Real-time subscription will update cache automatically
  */
 export function useCancelOrder() {
   const queryClient = useQueryClient();
   
-  return useMutation(({ orderId, reason }: { orderId: string; reason: string }) =>
-      cancelOrderService(orderId, reason),
+  return useMutation(({ orderId, reasonCode, note }: { orderId: string; reasonCode: CancellationReasonCode; note?: string }) =>
+      submitOrderAction({ type: 'cancel', orderId, reasonCode, note }),
     {
     onSuccess: () => {
       queryClient.invalidateQueries(merchantOrderKeys.all);
@@ -249,6 +290,116 @@ export function useCancelOrder() {
   });
 }
 
+/**
+ * Enter the weighed amount for a unit-priced order line (before dispatch)
+ */
+export function useRecordWeighedQuantity() {
+  const queryClient = useQueryClient();
+
+  return useMutation(({
+      orderId,
+      orderItemId,
+      weighedQuantity,
+    }: {
+      orderId: string;
+      orderItemId: string;
+      weighedQuantity: number;
+    }) => recordWeighedQuantity(orderId, orderItemId, weighedQuantity), {
+    onSuccess: () => {
+      queryClient.invalidateQueries(merchantOrderKeys.all);
+    },
+  });
+}
+
+/**
+ * Tick off a line, or mark it short or unavailable, while packing a confirmed order
+ */
+export function useUpdateOrderItemPacking() {
+  const queryClient = useQueryClient();
+
+  return useMutation(({
+      orderId,
+      orderItemId,
+      status,
+      packedQuantity,
+    }: {
+      orderId: string;
+      orderItemId: string;
+      status: OrderItemPackingStatus | null;
+      packedQuantity?: number;
+    }) => updateOrderItemPacking(orderId, orderItemId, status, packedQuantity), {
+    onSuccess: () => {
+      queryClient.invalidateQueries(merchantOrderKeys.all);
+    },
+  });
+}
+
+/**
+ * Offer the customer a substitute for a short or unavailable line
+ */
+export function useProposeSubstitution() {
+  const queryClient = useQueryClient();
+
+  return useMutation(({
+      orderId,
+      orderItemId,
+      merchantItemId,
+      quantity,
+    }: {
+      orderId: string;
+      orderItemId: string;
+      merchantItemId: string;
+      quantity: number;
+    }) => proposeSubstitution(orderId, orderItemId, merchantItemId, quantity), {
+    onSuccess: () => {
+      queryClient.invalidateQueries(merchantOrderKeys.all);
+    },
+  });
+}
+
+/**
+ * Withdraw the substitute offered for a line
+ */
+export function useWithdrawSubstitution() {
+  const queryClient = useQueryClient();
+
+  return useMutation(({ orderId, orderItemId }: { orderId: string; orderItemId: string }) =>
+    withdrawSubstitution(orderId, orderItemId), {
+    onSuccess: () => {
+      queryClient.invalidateQueries(merchantOrderKeys.all);
+    },
+  });
+}
+
+/**
+ * Queued actions for one order, oldest first, so the order screen can show pending / synced / failed state.
+ * Refetches the shop's orders whenever one of them syncs in the background.
+ */
+export function useQueuedOrderActions(orderId: string | undefined) {
+  const queryClient = useQueryClient();
+  const [actions, setActions] = useState<QueuedOrderAction[]>([]);
+  const syncedIdsRef = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    if (!orderId) return;
+
+    return subscribeToOrderActionQueue((queue) => {
+      const orderActions = queue.filter((action) => action.order_id === orderId);
+      const syncedIds = new Set(orderActions.filter((a) => a.status === 'synced').map((a) => a.id));
+      const previous = syncedIdsRef.current;
+      if (previous && [...syncedIds].some((id) => !previous.has(id))) {
+        queryClient.invalidateQueries(merchantOrderKeys.all);
+      }
+      syncedIdsRef.current = syncedIds;
+      setActions(orderActions);
+    });
+  }, [orderId, queryClient]);
+
+  const hasPending = useMemo(() => actions.some((action) => action.status === 'pending'), [actions]);
+
+  return { actions, hasPending, dismiss: dismissOrderAction };
+}
+
 // ============================================================================
 // HELPER HOOKS
 // ============================================================================
@@ -315,23 +466,16 @@ export function useGroupedOrders(orders: OrderWithAll[] | undefined) {
  * Get active orders count (pending, confirmed, out_for_delivery)
  */
 export function useActiveOrdersCount(shopId: string | undefined) {
-  const { data: orders = [] } = useShopOrders(shopId);
-
-  const activeCount = orders.filter(
-    (order) =>
-      order.status === 'pending' ||
-      order.status === 'confirmed' ||
-      order.status === 'out_for_delivery'
-  ).length;
+  const { data: orders = [] } = useActiveShopOrders(shopId);
 
-  return activeCount;
+  return orders.length;
 }
 
 /**
  * Get pending orders that need confirmation
  */
 export function usePendingOrdersCount(shopId: string | undefined) {
-  const { data: orders = [] } = useShopOrders(shopId);
+  const { data: orders = [] } = useActiveShopOrders(shopId);
 
   const pendingCount = orders.filter(
     (order) => order.status === 'pending'
@@ -0,0 +1,70 @@
+import { useMutation, useQuery, useQueryClient } from 'react-query';
+import { loogin } from '../../lib/loogin';
+import type { PriceChangeMode } from '../../types/inventory';
+import {
+  cancelScheduledPriceChange,
+  fetchScheduledPriceChanges,
+  scheduleCategoryPriceChange,
+} from '../../services/merchant/inventoryService';
+
+const log = loogin.scope('usePriceChanges');
+
+export function useScheduledPriceChanges(shopId: string | undefined, enabled = true) {
+  return useQuery(
+    ['inventory', shopId, 'price-changes'],
+    async () => {
+      if (!shopId) {
+        return [];
+      }
+      const { data, error } = await fetchScheduledPriceChanges(shopId);
+      if (error) {
+        log.error('Failed to fetch price changes', error);
+        throw error;
+      }
+      return data ?? [];
+    },
+    { enabled: Boolean(shopId) && enabled }
+  );
+}
+
+export function useScheduleCategoryPriceChange(shopId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation(
+    async (payload: { categoryId: string; mode: PriceChangeMode; amount: number; effectiveAt?: string | null }) => {
+      const { data, error } = await scheduleCategoryPriceChange({ shopId, ...payload });
+      if (error) {
+        log.error('Failed to schedule price change', error);
+        throw error;
+      }
+      return data;
+    },
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(['inventory', shopId, 'price-changes']);
+        queryClient.invalidateQueries(['inventory', shopId, 'items']);
+        queryClient.invalidateQueries(['inventory', shopId, 'audit-log']);
+      },
+    }
+  );
+}
+
+export function useCancelScheduledPriceChange(shopId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation(
+    async (changeId: string) => {
+      const { data, error } = await cancelScheduledPriceChange(shopId, changeId);
+      if (error) {
+        log.error('Failed to cancel price change', error);
+        throw error;
+      }
+      return data;
+    },
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(['inventory', shopId, 'price-changes']);
+      },
+    }
+  );
+}
@@ -0,0 +1,28 @@
+import { useMutation, useQueryClient } from 'react-query';
+import { loogin } from '../../lib/loogin';
+import type { StockTakeLine } from '../../types/inventory';
+import { commitStockTake } from '../../services/merchant/inventoryService';
+
+const log = loogin.scope('useStockTake');
+
+export function useCommitStockTake(shopId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation(
+    async (lines: StockTakeLine[]) => {
+      const { data, error } = await commitStockTake(shopId, lines);
+      if (error) {
+        log.error('Failed to commit stock take', error);
+        throw error;
+      }
+      return data;
+    },
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(['inventory', shopId, 'items']);
+        queryClient.invalidateQueries(['inventory', shopId, 'audit-log']);
+        queryClient.invalidateQueries(['inventory', shopId, 'categories']);
+      },
+    }
+  );
+}
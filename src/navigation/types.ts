@@ -1,6 +1,7 @@
 import type { ConsumerAddress } from '../services/consumer/addressService';
 import type { MerchantShop } from '../services/merchant/shopService';
 import type { ConsumerShop } from '../services/consumer/shopService';
+import type { InventoryTab } from '../components/merchant/inventory/InventoryTabBar';
 
 export type RootStackParamList = {
   Splash: undefined;
@@ -25,7 +26,11 @@ export type RootStackParamList = {
   CreateShop: { address?: string; latitude?: number; longitude?: number };
   EditShop: { shop: MerchantShop; address?: string; latitude?: number; longitude?: number };
   ShopAddressMap: { address?: string; latitude?: number; longitude?: number; returnTo?: 'CreateShop' | 'EditShop'; shop?: MerchantShop };
-  MerchantShopPortal: { shop: MerchantShop };
+  MerchantShopPortal: {
+    shop: MerchantShop;
+    initialTab?: 'dashboard' | 'inventory' | 'orders' | 'delivery' | 'reviews' | 'openingHours' | 'settings';
+    inventoryTab?: InventoryTab;
+  };
   ManageDeliveryAreas: { shop: MerchantShop };
   MerchantOrder: { shopId: string; orderId: string };
   PrivacyPolicy: { accountType: 'consumer' | 'merchant' };
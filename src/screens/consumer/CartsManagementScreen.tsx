@@ -25,6 +25,7 @@ import DeleteIcon from '../../icons/DeleteIcon';
 import LinearGradient from 'react-native-linear-gradient';
 import { getCurrentOpeningStatus } from '../../utils/shopOpeningHours';
 import { useTranslation } from 'react-i18next';
+import { formatQuantity } from '../../utils/unitQuantity';
 
 type Nav = NativeStackNavigationProp<RootStackParamList>;
 
@@ -419,7 +420,7 @@ export default function CartsManagementScreen() {
                   {/* Items List */}
                   <Text className="text-gray-500 text-sm leading-tight" numberOfLines={2}>
                     {cart.items
-                      .map((item) => `${item.name} x ${item.quantity}`)
+                      .map((item) => `${item.name} x ${formatQuantity(item.quantity, item.unit)}`)
                       .join(', ')}
                   </Text>
 
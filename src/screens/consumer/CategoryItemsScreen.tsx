@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -13,8 +13,10 @@ import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../../navigation/types';
 import { useQuery } from 'react-query';
-import { fetchShopItems, fetchShopDetails, ShopItem } from '../../services/consumer/shopService';
-import { useCart } from '../../context/CartContext';
+import { fetchShopItems, fetchShopDetails, getItemDisplayPriceCents, ShopItem, ShopItemVariant } from '../../services/consumer/shopService';
+import { getCartLineKey, toCartLine, useCart } from '../../context/CartContext';
+import { formatQuantity } from '../../utils/unitQuantity';
+import VariantPickerBottomSheet from '../../components/consumer/VariantPickerBottomSheet';
 import ReactNativeHapticFeedback from 'react-native-haptic-feedback';
 import BackIcon from '../../icons/BackIcon';
 import CartIcon from '../../icons/CartIcon';
@@ -32,6 +34,7 @@ export default function CategoryItemsScreen() {
   const { shopId, categoryId, categoryName } = route.params;
   const insets = useSafeAreaInsets();
   const { addItemToCart, removeItemFromCart, getShopCart } = useCart();
+  const [variantPickerItem, setVariantPickerItem] = useState<ShopItem | null>(null);
 
   // Get current cart for this shop
   const currentCart = getShopCart(shopId);
@@ -56,16 +59,21 @@ export default function CategoryItemsScreen() {
     return items.filter((item) => item.is_active === true);
   }, [items]);
 
-  // Helper function to get item quantity from cart
+  // Helper function to get item quantity from cart (summed over every variant of the item)
   const getItemQuantity = (itemId: string): number => {
     if (!currentCart) return 0;
-    const cartItem = currentCart.items.find(item => item.id === itemId);
-    return cartItem?.quantity || 0;
+    return currentCart.items
+      .filter(item => item.id === itemId)
+      .reduce((sum, item) => sum + item.quantity, 0);
   };
 
-  // Handle adding item to cart
+  // Handle adding item to cart; items with variants ask which option first
   const handleAddToCart = async (item: ShopItem) => {
     if (!shopDetails) return;
+    if (item.variants && item.variants.length > 0) {
+      setVariantPickerItem(item);
+      return;
+    }
     ReactNativeHapticFeedback.trigger('impactLight');
     await addItemToCart(shopId, item, {
       name: shopDetails.name,
@@ -77,10 +85,27 @@ export default function CategoryItemsScreen() {
     });
   };
 
-  // Handle removing item from cart
+  const handleSelectVariant = async (variant: ShopItemVariant) => {
+    const item = variantPickerItem;
+    setVariantPickerItem(null);
+    if (!item || !shopDetails) return;
+    ReactNativeHapticFeedback.trigger('impactLight');
+    await addItemToCart(shopId, toCartLine(item, variant), {
+      name: shopDetails.name,
+      image_url: shopDetails.image_url || undefined,
+      address: shopDetails.address || undefined,
+      latitude: shopDetails.latitude,
+      longitude: shopDetails.longitude,
+      deliveryLogic: shopDetails.deliveryLogic,
+    });
+  };
+
+  // Handle removing item from cart; for items with variants this takes from the most recently added option
   const handleRemoveFromCart = async (itemId: string) => {
+    const line = currentCart?.items.filter(item => item.id === itemId).pop();
+    if (!line) return;
     ReactNativeHapticFeedback.trigger('impactLight');
-    await removeItemFromCart(shopId, itemId);
+    await removeItemFromCart(shopId, getCartLineKey(line));
   };
 
   return (
@@ -185,7 +210,7 @@ export default function CategoryItemsScreen() {
                             <Text className="text-white text-lg font-bold">−</Text>
                           </TouchableOpacity>
                           <Text className="text-white text-sm font-bold mx-2 min-w-[24px] text-center">
-                            {quantity}
+                            {formatQuantity(quantity, item.unit)}
                           </Text>
                           <TouchableOpacity
                             onPress={() => handleAddToCart(item)}
@@ -251,7 +276,7 @@ export default function CategoryItemsScreen() {
                             <Text className="text-white text-lg font-bold">−</Text>
                           </TouchableOpacity>
                           <Text className="text-white text-sm font-bold mx-2 min-w-[24px] text-center">
-                            {quantity}
+                            {formatQuantity(quantity, item.unit)}
                           </Text>
                           <TouchableOpacity
                             onPress={() => handleAddToCart(item)}
@@ -281,7 +306,7 @@ export default function CategoryItemsScreen() {
                 {/* Price - Centered */}
                 <View className="mt-1">
                   <Text className="text-base font-bold text-gray-900 text-center">
-                    Rs {(item.price_cents / 100).toFixed(0)}
+                    {item.variants && item.variants.length > 0 ? `${t('shop.priceFrom')} ` : ''}Rs {(getItemDisplayPriceCents(item) / 100).toFixed(0)}{item.unit ? ` / ${item.unit}` : ''}
                   </Text>
                 </View>
               </View>
@@ -343,6 +368,12 @@ export default function CategoryItemsScreen() {
           </TouchableOpacity>
         </View>
       )}
+
+      <VariantPickerBottomSheet
+        item={variantPickerItem}
+        onClose={() => setVariantPickerItem(null)}
+        onSelect={handleSelectVariant}
+      />
     </View>
   );
 }
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -13,12 +13,16 @@ import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import MapView, { Marker } from 'react-native-maps';
 import type { RootStackParamList } from '../../navigation/types';
-import { useCart } from '../../context/CartContext';
+import { getCartLineKey, useCart } from '../../context/CartContext';
 import { useLocationSelection } from '../../context/LocationContext';
-import { calculateDistance, calculateTotalDeliveryFee, fetchDeliveryLogic } from '../../services/merchant/deliveryLogicService';
 import { validateDeliveryAddress } from '../../services/consumer/shopService';
+import { formatQuantity, getLineTotalCents } from '../../utils/unitQuantity';
+import { areAllItemsValid } from '../../services/consumer/stockValidationService';
 import * as addressService from '../../services/consumer/addressService';
-import { usePlaceOrder } from '../../hooks/consumer/useOrders';
+import { calculateOrderTotals, type QuoteDestination } from '../../services/consumer/orderService';
+import { isQuoteExpiring } from '../../services/feeQuote';
+import { toApiError } from '../../services/apiClient';
+import { useOrderCalculation, usePlaceOrder } from '../../hooks/consumer/useOrders';
 import { PaymentMethod } from '../../types/orders';
 import BackIcon from '../../icons/BackIcon';
 import MoneyIcon from '../../icons/MoneyIcon';
@@ -29,14 +33,6 @@ import { useTranslation } from 'react-i18next';
 type Nav = NativeStackNavigationProp<RootStackParamList>;
 type Route = RouteProp<RootStackParamList, 'Checkout'>;
 
-interface CheckoutTotals {
-  subtotal: number; // in cents
-  deliveryFee: number; // in PKR
-  surcharge: number; // in PKR
-  total: number; // in cents
-  freeDeliveryApplied: boolean;
-}
-
 export default function CheckoutScreen() {
   const { t } = useTranslation();
   const navigation = useNavigation<Nav>();
@@ -50,7 +46,6 @@ export default function CheckoutScreen() {
 
   const [showAddressSheet, setShowAddressSheet] = useState(false);
   const [isValidatingAddress, setIsValidatingAddress] = useState(false);
-  const [isCalculatingTotals, setIsCalculatingTotals] = useState(true);
   const [addressId, setAddressId] = useState<string | undefined>(undefined);
   const [addressStreet, setAddressStreet] = useState('');
   const [addressCity, setAddressCity] = useState('');
@@ -58,13 +53,6 @@ export default function CheckoutScreen() {
   const [landmark, setLandmark] = useState<string | undefined>(undefined);
   const [deliveryInstructions, setDeliveryInstructions] = useState('');
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
-  const [totals, setTotals] = useState<CheckoutTotals>({
-    subtotal: 0,
-    deliveryFee: 0,
-    surcharge: 0,
-    total: 0,
-    freeDeliveryApplied: false,
-  });
 
   const placeOrderMutation = usePlaceOrder();
   const [isPlacingOrder, setIsPlacingOrder] = useState(false);
@@ -141,112 +129,33 @@ export default function CheckoutScreen() {
     setInlineAddressSubmitAttempted(false);
   }, [addressStreet, addressCity, addressLandmark, inlineAddressSubmitAttempted]);
 
-  // Calculate totals when address or cart changes
-  // This handles all edge cases including:
-  // - Distance tiering changes (auto or custom)
-  // - Free delivery threshold changes (if user moves outside free delivery radius)
-  // - Small order surcharge changes based on order value
-  const calculateTotals = useCallback(async () => {
-    if (!shopId || !currentCart || !selectedAddress) {
-      setTotals({
-        subtotal: currentCart?.totalPrice || 0,
-        deliveryFee: 0,
-        surcharge: 0,
-        total: currentCart?.totalPrice || 0,
-        freeDeliveryApplied: false,
-      });
-      setIsCalculatingTotals(false);
-      return;
-    }
-
-    setIsCalculatingTotals(true);
-
-    try {
-      // Fetch fresh delivery logic from backend for real-time pricing
-      const { data: deliveryLogic, error: deliveryLogicError } = await fetchDeliveryLogic(shopId);
-
-      if (deliveryLogicError) {
-        console.error('Error fetching delivery logic:', deliveryLogicError);
-      }
-
-      if (!deliveryLogic) {
-        // No delivery logic = no delivery fee
-        setTotals({
-          subtotal: currentCart.totalPrice,
-          deliveryFee: 0,
-          surcharge: 0,
-          total: currentCart.totalPrice,
-          freeDeliveryApplied: false,
-        });
-        setIsCalculatingTotals(false);
-        return;
-      }
-
-      // Calculate precise distance from new address to shop
-      let distanceInMeters = 0;
-      if (
-        selectedAddress.coords &&
-        currentCart.shopLatitude &&
-        currentCart.shopLongitude
-      ) {
-        distanceInMeters = calculateDistance(
-          selectedAddress.coords.latitude,
-          selectedAddress.coords.longitude,
-          currentCart.shopLatitude,
-          currentCart.shopLongitude
-        );
-        console.log('Distance from new address to shop:', distanceInMeters, 'meters');
-      }
-
-      // Calculate delivery fee with all edge cases:
-      // - Distance tiers (auto or custom mode)
-      // - Free delivery (checks if within radius AND above threshold)
-      // - Small order surcharge (applied if below minimum order value)
-      const orderValue = currentCart.totalPrice / 100; // Convert cents to PKR
-      const deliveryCalculation = calculateTotalDeliveryFee(
-        orderValue,
-        distanceInMeters,
-        deliveryLogic
-      );
-
-      console.log('Delivery calculation:', {
-        orderValue,
-        distanceInMeters,
-        baseFee: deliveryCalculation.baseFee,
-        surcharge: deliveryCalculation.surcharge,
-        freeDeliveryApplied: deliveryCalculation.freeDeliveryApplied,
-      });
+  const orderItems = useMemo(
+    () =>
+      (currentCart?.items ?? []).map(item => ({
+        merchant_item_id: item.id,
+        quantity: item.quantity,
+        variant_id: item.variant_id ?? null,
+      })),
+    [currentCart?.items]
+  );
 
-      const subtotal = currentCart.totalPrice;
-      const baseDeliveryFeeInCents = Math.round(deliveryCalculation.baseFee * 100);
-      const surchargeInCents = Math.round(deliveryCalculation.surcharge * 100);
-      const total = subtotal + baseDeliveryFeeInCents + surchargeInCents;
-
-      setTotals({
-        subtotal,
-        deliveryFee: deliveryCalculation.baseFee,
-        surcharge: deliveryCalculation.surcharge,
-        total,
-        freeDeliveryApplied: deliveryCalculation.freeDeliveryApplied,
-      });
-    } catch (error) {
-      console.error('Error calculating totals:', error);
-      // On error, show subtotal only
-      setTotals({
-        subtotal: currentCart.totalPrice,
-        deliveryFee: 0,
-        surcharge: 0,
-        total: currentCart.totalPrice,
-        freeDeliveryApplied: false,
-      });
-    } finally {
-      setIsCalculatingTotals(false);
+  // The summary shows the server's signed fee quote and the order is placed with it, so the total shown is the
+  // total charged. A saved address is quoted by id; a new one by the coordinates it will be saved with.
+  const quoteLatitude = selectedAddress?.coords?.latitude;
+  const quoteLongitude = selectedAddress?.coords?.longitude;
+  const quoteDestination = useMemo<QuoteDestination | null>(() => {
+    if (addressId) return { addressId };
+    if (quoteLatitude != null && quoteLongitude != null) {
+      return { latitude: quoteLatitude, longitude: quoteLongitude };
     }
-  }, [currentCart, selectedAddress, shopId]);
+    return null;
+  }, [addressId, quoteLatitude, quoteLongitude]);
 
-  useEffect(() => {
-    calculateTotals();
-  }, [calculateTotals]);
+  const feeQuoteQuery = useOrderCalculation(shopId, quoteDestination, orderItems);
+  const quote = feeQuoteQuery.data?.quote ?? null;
+  const etaMinutes = feeQuoteQuery.data?.eta_minutes ?? null;
+  const isCalculatingTotals = feeQuoteQuery.isFetching;
+  const quoteError = feeQuoteQuery.error && !isCalculatingTotals ? toApiError(feeQuoteQuery.error).message : null;
 
   // Fetch landmark from database when addressId is available
   useEffect(() => {
@@ -316,11 +225,7 @@ export default function CheckoutScreen() {
       setLandmark(address.landmark || undefined);
       setShowAddressSheet(false);
 
-      // Totals will automatically recalculate via useEffect
-      // This handles edge cases like:
-      // - Moving from free delivery zone to paid delivery zone
-      // - Distance tier changes (different delivery fees based on distance)
-      // - Any changes in delivery logic
+      // The fee quote is re-requested for the new address by useOrderCalculation
     } catch (error) {
       console.error('Error validating address:', error);
       Alert.alert(t('profile.error'), t('checkout.validationMsg'));
@@ -404,10 +309,32 @@ export default function CheckoutScreen() {
         });
       }
 
-      const orderItems = currentCart.items.map(item => ({
-        merchant_item_id: item.id,
-        quantity: item.quantity,
-      }));
+      const stockCheck = await areAllItemsValid(
+        currentCart.items.map(item => ({ itemId: item.id, quantity: item.quantity }))
+      );
+      if (!stockCheck.valid) {
+        const details = stockCheck.invalidItems
+          .map(item => `• ${item.itemName}: ${item.reason ?? t('checkout.stockUnavailableItem')}`)
+          .join('\n');
+        Alert.alert(t('checkout.stockUnavailable'), `${t('checkout.stockUnavailableMsg')}\n\n${details}`);
+        return;
+      }
+
+      let submittedQuote = quote;
+      if (!submittedQuote) {
+        Alert.alert(t('checkout.pleaseWait'), t('checkout.calculatingMsg'));
+        return;
+      }
+      // An expiring quote is renewed first; if the fees moved meanwhile, show the new total instead of charging it
+      if (isQuoteExpiring(submittedQuote)) {
+        const renewed = await calculateOrderTotals(shopId, orderItems, { addressId: resolvedAddressId });
+        if (renewed.quote.total_cents !== submittedQuote.total_cents) {
+          feeQuoteQuery.refetch();
+          Alert.alert(t('checkout.feesChanged'), t('checkout.feesChangedMsg'));
+          return;
+        }
+        submittedQuote = renewed.quote;
+      }
 
       const response = await placeOrderMutation.mutateAsync({
         shop_id: shopId,
@@ -415,6 +342,7 @@ export default function CheckoutScreen() {
         items: orderItems,
         payment_method: paymentMethod,
         special_instructions: deliveryInstructions || undefined,
+        quote: submittedQuote,
       });
 
       if (response.success && response.order) {
@@ -430,6 +358,8 @@ export default function CheckoutScreen() {
           ],
         });
       } else {
+        // The server refuses a stale quote; refresh it so the summary shows what would be charged now
+        feeQuoteQuery.refetch();
         // Check if it's a duplicate order error
         const errorMessage = response.message || 'Could not place your order. Please try again.';
         if (errorMessage.includes('duplicate') || errorMessage.includes('23505')) {
@@ -516,6 +446,8 @@ export default function CheckoutScreen() {
     );
   }
 
+  const subtotalCents = quote?.subtotal_cents ?? currentCart.totalPrice;
+  const totalCents = quote?.total_cents ?? currentCart.totalPrice;
   const requiresInlineAddressDetails = Boolean(selectedAddress?.coords) && !addressId;
   const hasInlineAddressDetails =
     addressStreet.trim().length > 0 &&
@@ -525,6 +457,7 @@ export default function CheckoutScreen() {
     Boolean(selectedAddress) &&
     !isValidatingAddress &&
     !isCalculatingTotals &&
+    Boolean(quote) &&
     !placeOrderMutation.isLoading;
 
   return (
@@ -782,17 +715,18 @@ export default function CheckoutScreen() {
           {/* Items List */}
           {currentCart.items.map((item, index) => (
             <View
-              key={item.id}
+              key={getCartLineKey(item)}
               className={`flex-row justify-between py-2 ${index < currentCart.items.length - 1 ? 'border-b border-gray-100' : ''
                 }`}
             >
               <View className="flex-1">
                 <Text className="text-gray-900 text-base">
-                  {item.quantity} × {item.name}
+                  {formatQuantity(item.quantity, item.unit)} × {item.name}
+                  {item.variant_name ? ` (${item.variant_name})` : ''}
                 </Text>
               </View>
               <Text className="text-gray-900 text-base font-semibold ml-2">
-                Rs {((item.price_cents * item.quantity) / 100).toFixed(0)}
+                Rs {(getLineTotalCents(item.price_cents, item.quantity) / 100).toFixed(0)}
               </Text>
             </View>
           ))}
@@ -802,35 +736,57 @@ export default function CheckoutScreen() {
             <View className="flex-row justify-between mb-2">
               <Text className="text-gray-600 text-base">{t('cart.subtotal')}</Text>
               <Text className="text-gray-900 text-base font-semibold">
-                Rs {(totals.subtotal / 100).toFixed(0)}
+                Rs {(subtotalCents / 100).toFixed(0)}
               </Text>
             </View>
 
-            {totals.surcharge > 0 && (
+            {quote && quote.surcharge_cents > 0 && (
               <View className="flex-row justify-between mb-2">
                 <Text className="text-gray-600 text-base">{t('cart.surcharge')}</Text>
                 <Text className="text-gray-900 text-base font-semibold">
-                  Rs {totals.surcharge.toFixed(0)}
+                  Rs {(quote.surcharge_cents / 100).toFixed(0)}
                 </Text>
               </View>
             )}
 
-            {totals.freeDeliveryApplied ? (
+            {quote?.free_delivery_applied ? (
               <View className="flex-row justify-between mb-2">
                 <Text className="text-green-600 text-base font-semibold">{t('cart.delivery')}</Text>
                 <Text className="text-green-600 text-base font-semibold line-through">
-                  Rs {totals.deliveryFee.toFixed(0)}
+                  Rs {(quote.base_fee_cents / 100).toFixed(0)}
                 </Text>
               </View>
-            ) : totals.deliveryFee > 0 ? (
+            ) : quote && quote.base_fee_cents > 0 ? (
               <View className="flex-row justify-between mb-2">
                 <Text className="text-gray-600 text-base">{t('cart.delivery')}</Text>
                 <Text className="text-gray-900 text-base font-semibold">
-                  Rs {totals.deliveryFee.toFixed(0)}
+                  Rs {(quote.base_fee_cents / 100).toFixed(0)}
                 </Text>
               </View>
             ) : null}
 
+            {quote && etaMinutes ? (
+              <Text className="text-gray-400 text-xs -mt-1 mb-2">{t('checkout.zoneEta', { minutes: etaMinutes })}</Text>
+            ) : null}
+
+            {quote && quote.peak_fee_cents > 0 && (
+              <View className="flex-row justify-between mb-2">
+                <View className="flex-1 mr-2">
+                  <Text className="text-gray-600 text-base">
+                    {quote.peak_label || t(quote.busy_mode_applied ? 'cart.busyFee' : 'cart.peakFee')}
+                  </Text>
+                  {quote.busy_mode_applied ? (
+                    <Text className="text-gray-400 text-xs">{t('checkout.busyModeNote')}</Text>
+                  ) : null}
+                </View>
+                <Text className="text-gray-900 text-base font-semibold">
+                  Rs {(quote.peak_fee_cents / 100).toFixed(0)}
+                </Text>
+              </View>
+            )}
+
+            {quoteError ? <Text className="text-red-600 text-sm mb-2">{quoteError}</Text> : null}
+
             {/* Total in Order Summary */}
             <View className="flex-row justify-between mt-3 pt-3 border-t border-gray-200">
               <Text className="text-gray-900 text-lg font-bold">{t('cart.total')}</Text>
@@ -838,7 +794,7 @@ export default function CheckoutScreen() {
                 <ActivityIndicator size="small" color="#2563eb" />
               ) : (
                 <Text className="text-gray-900 text-lg font-bold">
-                  Rs {(totals.total / 100).toFixed(0)}
+                  Rs {(totalCents / 100).toFixed(0)}
                 </Text>
               )}
             </View>
@@ -881,7 +837,7 @@ export default function CheckoutScreen() {
             {isCalculatingTotals ? (
               <ActivityIndicator size="small" color="#2563eb" />
             ) : (
-              `Rs ${(totals.total / 100).toFixed(0)}`
+              `Rs ${(totalCents / 100).toFixed(0)}`
             )}
           </Text>
         </View>
@@ -19,11 +19,14 @@ import { hasReviewedShop } from '../../services/consumer/reviewService';
 import LinearGradient from 'react-native-linear-gradient';
 import ShopTypeImage from '../../icons/shopTypeRemote';
 import type { ShopType } from '../../services/merchant/shopService';
+import type { OrderFilters } from '../../types/orders';
 import AppLogo from '../../icons/AppLogo';
 import { useTranslation } from 'react-i18next';
 
 type Nav = NativeStackNavigationProp<RootStackParamList>;
 
+// The review prompt only looks at the latest delivered orders.
+const DELIVERED_ORDER_FILTERS: OrderFilters = { timeFilter: 'all', statusFilter: 'delivered' };
 
 export default function HomeScreen() {
   const { t, i18n } = useTranslation();
@@ -32,7 +35,8 @@ export default function HomeScreen() {
   const { addressLine, placeLabel, loading: locationLoading } = useUserLocation();
   const { selectedAddress } = useLocationSelection();
   const { shops, loading: shopsLoading, error: shopsError, refetch } = useShopsByLocation();
-  const { data: orders, refetch: refetchOrders } = useUserOrders();
+  const { data: deliveredPages, refetch: refetchOrders } = useUserOrders(DELIVERED_ORDER_FILTERS);
+  const orders = deliveredPages?.pages[0]?.orders;
   const [sheetVisible, setSheetVisible] = React.useState(false);
   const [reviewSheetVisible, setReviewSheetVisible] = React.useState(false);
   const [reviewSheetShop, setReviewSheetShop] = React.useState<{ id: string; name: string; orderId?: string } | null>(null);
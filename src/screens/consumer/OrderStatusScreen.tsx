@@ -15,8 +15,15 @@ import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../../navigation/types';
 import LinearGradient from 'react-native-linear-gradient';
-import { useOrder, useCancelOrder } from '../../hooks/consumer/useOrders';
-import { getOrderStatusDisplay, formatPrice } from '../../types/orders';
+import { useOrder, useCancelOrder, useAnswerSubstitution } from '../../hooks/consumer/useOrders';
+import {
+  getOrderStatusDisplay,
+  formatPrice,
+  formatOrderItemQuantity,
+  OrderItem,
+  CancellationReasonCode,
+} from '../../types/orders';
+import { formatQuantity } from '../../utils/unitQuantity';
 import BackIcon from '../../icons/BackIcon';
 import DeliveryRunnerIcon from '../../icons/DeliveryRunnerIcon';
 import {
@@ -27,6 +34,7 @@ import {
   OrderCancelledIcon,
 } from '../../icons/OrderStatusIcons';
 import { useTranslation } from 'react-i18next';
+import CancelOrderSheet from '../../components/CancelOrderSheet';
 
 type Nav = NativeStackNavigationProp<RootStackParamList>;
 type Route = RouteProp<RootStackParamList, 'OrderStatus'>;
@@ -40,39 +48,49 @@ export default function OrderStatusScreen() {
 
   const { data: order, isLoading, refetch } = useOrder(orderId);
   const cancelOrderMutation = useCancelOrder();
+  const answerSubstitutionMutation = useAnswerSubstitution();
 
   const pulseAnim = React.useRef(new Animated.Value(1)).current;
+  const [isCancelSheetVisible, setIsCancelSheetVisible] = React.useState(false);
 
   const handleCancelOrder = () => {
-    Alert.alert(
-      t('orders.cancelConfirmationTitle'),
-      t('orders.cancelConfirmationMsg'),
-      [
-        { text: t('orders.no'), style: 'cancel' },
-        {
-          text: t('orders.yesCancel'),
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              const result = await cancelOrderMutation.mutateAsync({
-                orderId,
-                reason: 'Cancelled by customer',
-              });
-              if (result.success) {
-                // Refetch order to get updated status immediately
-                await refetch();
-                Alert.alert(t('orders.cancelledTitle'), t('orders.cancelSuccess'));
-              } else {
-                Alert.alert(t('profile.error'), result.message || t('orders.cancelFailed'));
-              }
-            } catch (error) {
-              console.error('Error cancelling order:', error);
-              Alert.alert(t('profile.error'), t('orders.cancelFailed'));
-            }
-          },
-        },
-      ]
-    );
+    setIsCancelSheetVisible(true);
+  };
+
+  const handleCancelWithReason = async (reasonCode: CancellationReasonCode, note?: string) => {
+    try {
+      const result = await cancelOrderMutation.mutateAsync({ orderId, reasonCode, note });
+      setIsCancelSheetVisible(false);
+      if (result.success) {
+        // Refetch order to get updated status immediately
+        await refetch();
+        Alert.alert(t('orders.cancelledTitle'), t('orders.cancelSuccess'));
+      } else {
+        Alert.alert(t('profile.error'), result.message || t('orders.cancelFailed'));
+      }
+    } catch (error) {
+      console.error('Error cancelling order:', error);
+      Alert.alert(t('profile.error'), t('orders.cancelFailed'));
+    }
+  };
+
+  const handleAnswerSubstitution = async (item: OrderItem, accept: boolean) => {
+    if (answerSubstitutionMutation.isLoading) return;
+    try {
+      const result = await answerSubstitutionMutation.mutateAsync({
+        orderId,
+        orderItemId: item.id,
+        accept,
+      });
+      if (result.success) {
+        await refetch();
+      } else {
+        Alert.alert(t('profile.error'), result.message || t('orders.substitution.answerFailed'));
+      }
+    } catch (error) {
+      console.error('Error answering substitution:', error);
+      Alert.alert(t('profile.error'), t('orders.substitution.answerFailed'));
+    }
   };
 
   const handleCallRunner = (phoneNumber: string) => {
@@ -172,6 +190,7 @@ export default function OrderStatusScreen() {
 
   const orderItems = order.order_items ?? [];
   const statusDisplay = getOrderStatusDisplay(order.status);
+  const canAnswerSubstitutions = order.status === 'pending' || order.status === 'confirmed';
 
   return (
     <View className="flex-1 bg-gray-50">
@@ -315,11 +334,66 @@ export default function OrderStatusScreen() {
             >
               <View className="flex-1">
                 <Text className="text-gray-900 text-base font-medium">
-                  {item.quantity} × {item.item_name}
+                  {formatOrderItemQuantity(item)} × {item.item_name}
+                  {item.variant_name ? ` (${item.variant_name})` : ''}
                 </Text>
+                {item.weighed_quantity != null ? (
+                  <Text className="text-gray-500 text-xs mt-0.5">
+                    {t('orders.weighedNote', { ordered: formatOrderItemQuantity({ ...item, weighed_quantity: null }) })}
+                  </Text>
+                ) : null}
                 {item.item_description && (
                   <Text className="text-gray-500 text-xs mt-0.5">{item.item_description}</Text>
                 )}
+                {item.packing_status === 'short' && item.packed_quantity != null ? (
+                  <Text className="text-amber-700 text-xs mt-0.5">
+                    {t('orders.packing.shortNote', {
+                      packed: formatQuantity(item.packed_quantity, item.unit),
+                      ordered: formatQuantity(item.quantity, item.unit),
+                    })}
+                  </Text>
+                ) : item.packing_status === 'unavailable' ? (
+                  <Text className="text-red-600 text-xs mt-0.5">{t('orders.packing.unavailableNote')}</Text>
+                ) : null}
+                {item.substitution ? (
+                  <View className="mt-2 bg-gray-50 rounded-lg p-3">
+                    <Text className="text-gray-900 text-sm font-medium">
+                      {t('orders.substitution.offer', {
+                        quantity: formatQuantity(item.substitution.quantity, item.substitution.unit),
+                        name: item.substitution.item_name,
+                        amount: formatPrice(item.substitution.subtotal_cents),
+                      })}
+                    </Text>
+                    {item.substitution.status === 'proposed' && canAnswerSubstitutions ? (
+                      <View className="flex-row mt-2">
+                        <TouchableOpacity
+                          onPress={() => handleAnswerSubstitution(item, true)}
+                          disabled={answerSubstitutionMutation.isLoading}
+                          className="flex-1 bg-blue-600 rounded-lg py-2 items-center mr-2"
+                          activeOpacity={0.7}
+                        >
+                          <Text className="text-white text-sm font-semibold">{t('orders.substitution.accept')}</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          onPress={() => handleAnswerSubstitution(item, false)}
+                          disabled={answerSubstitutionMutation.isLoading}
+                          className="flex-1 bg-gray-200 rounded-lg py-2 items-center"
+                          activeOpacity={0.7}
+                        >
+                          <Text className="text-gray-700 text-sm font-semibold">{t('orders.substitution.reject')}</Text>
+                        </TouchableOpacity>
+                      </View>
+                    ) : (
+                      <Text
+                        className={`text-xs font-semibold mt-1 ${
+                          item.substitution.status === 'accepted' ? 'text-green-700' : 'text-gray-500'
+                        }`}
+                      >
+                        {t(`orders.substitution.status.${item.substitution.status}`)}
+                      </Text>
+                    )}
+                  </View>
+                ) : null}
               </View>
               <Text className="text-gray-900 text-base font-semibold ml-2">
                 {formatPrice(item.subtotal_cents)}
@@ -394,14 +468,31 @@ export default function OrderStatusScreen() {
         {order.status === 'cancelled' && (
           <View className="bg-red-50 border border-red-200 rounded-xl p-4 mb-4">
             <Text className="text-red-900 font-semibold mb-1">{t('orders.cancelledTitle')}</Text>
-            {order.cancellation_reason && (
+            {order.cancelled_by && (
+              <Text className="text-red-700 text-sm">{t(`orders.cancelledBy.${order.cancelled_by}`)}</Text>
+            )}
+            {(order.cancellation_reason_code || order.cancellation_reason) && (
               <Text className="text-red-700 text-sm">
-                {t('orders.cancellationReason')}: {order.cancellation_reason}
+                {t('orders.cancellationReason')}:{' '}
+                {order.cancellation_reason_code
+                  ? t(`orders.cancellationReasons.${order.cancellation_reason_code}`)
+                  : order.cancellation_reason}
               </Text>
             )}
+            {order.cancellation_reason_code && order.cancellation_reason && (
+              <Text className="text-red-700 text-sm mt-1">{order.cancellation_reason}</Text>
+            )}
           </View>
         )}
       </ScrollView>
+
+      <CancelOrderSheet
+        visible={isCancelSheetVisible}
+        actor="customer"
+        isSubmitting={cancelOrderMutation.isLoading}
+        onClose={() => setIsCancelSheetVisible(false)}
+        onSubmit={handleCancelWithReason}
+      />
     </View>
   );
 }
@@ -1,9 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
+  TextInput,
   TouchableOpacity,
-  ScrollView,
+  FlatList,
   ActivityIndicator,
   RefreshControl,
 } from 'react-native';
@@ -12,7 +13,7 @@ import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../../navigation/types';
 import { useUserOrders } from '../../hooks/consumer/useOrders';
-import { OrderWithAll, getOrderStatusDisplay, formatPrice, formatDuration } from '../../types/orders';
+import { OrderWithAll, OrderFilters, getOrderStatusDisplay, formatPrice, formatDuration, formatOrderItemQuantity } from '../../types/orders';
 import { getReviewByOrder, getReview } from '../../services/consumer/reviewService';
 import BackIcon from '../../icons/BackIcon';
 import LocationMarkerIcon from '../../icons/LocationMarkerIcon';
@@ -25,7 +26,19 @@ type Nav = NativeStackNavigationProp<RootStackParamList>;
 export default function OrdersListScreen() {
   const { t } = useTranslation();
   const navigation = useNavigation<Nav>();
-  const { data: orders, isLoading, refetch, isFetching } = useUserOrders();
+  const [search, setSearch] = useState('');
+  const filters = useMemo<OrderFilters>(() => ({ timeFilter: 'all', search }), [search]);
+  const {
+    data,
+    isLoading,
+    refetch,
+    isFetching,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useUserOrders(filters);
+  const orders = useMemo(() => data?.pages.flatMap((page) => page.orders) ?? [], [data]);
+  const hasSearch = search.trim().length > 0;
   const [reviewSheetVisible, setReviewSheetVisible] = useState(false);
   const [reviewSheetShop, setReviewSheetShop] = useState<{ id: string; name: string; orderId?: string } | null>(null);
 
@@ -38,7 +51,7 @@ export default function OrdersListScreen() {
     );
   }
 
-  if (!orders || orders.length === 0) {
+  if (orders.length === 0 && !hasSearch) {
     return (
       <SafeAreaView className="flex-1 bg-gray-50">
         {/* Header */}
@@ -89,22 +102,30 @@ export default function OrdersListScreen() {
           </TouchableOpacity>
           <View className="flex-1">
             <Text className="text-gray-900 text-lg font-bold">{t('orders.title')}</Text>
-            <Text className="text-gray-500 text-sm">{orders.length} {t('orders.total')}</Text>
+            <Text className="text-gray-500 text-sm">
+              {orders.length}
+              {hasNextPage ? '+' : ''} {t('orders.total')}
+            </Text>
           </View>
         </View>
+        <View className="px-4 pb-3">
+          <TextInput
+            value={search}
+            onChangeText={setSearch}
+            placeholder={t('orders.searchPlaceholder')}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="search"
+            className="bg-gray-50 border border-gray-200 rounded-xl px-4 py-2 text-base text-gray-900"
+          />
+        </View>
       </SafeAreaView>
 
-      <ScrollView
-        className="flex-1"
-        contentContainerStyle={{ padding: 16 }}
-        showsVerticalScrollIndicator={false}
-        refreshControl={
-          <RefreshControl refreshing={isFetching} onRefresh={refetch} />
-        }
-      >
-        {orders.map((order) => (
+      <FlatList
+        data={orders}
+        keyExtractor={(order) => order.id}
+        renderItem={({ item: order }) => (
           <OrderCard
-            key={order.id}
             order={order}
             navigation={navigation}
             onReviewPress={(shopId, shopName, orderId) => {
@@ -117,8 +138,27 @@ export default function OrdersListScreen() {
               refetch();
             }}
           />
-        ))}
-      </ScrollView>
+        )}
+        className="flex-1"
+        contentContainerStyle={{ padding: 16 }}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl refreshing={isFetching && !isFetchingNextPage} onRefresh={refetch} />
+        }
+        onEndReached={() => {
+          if (hasNextPage && !isFetchingNextPage) {
+            fetchNextPage();
+          }
+        }}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={isFetchingNextPage ? <ActivityIndicator className="py-4" /> : null}
+        ListEmptyComponent={
+          <View className="items-center py-12">
+            <Text className="text-gray-500 text-center">{t('orders.noMatches')}</Text>
+          </View>
+        }
+      />
 
       {/* Review Bottom Sheet */}
       {reviewSheetShop && (
@@ -283,7 +323,8 @@ function OrderCard({ order, navigation, onReviewPress, onReviewSubmitted }: Orde
       <View className="mb-3 space-y-1">
         {itemsPreview.map((item) => (
           <Text key={item.id} className="text-gray-500 text-xs">
-            {item.quantity} × {item.item_name}
+            {formatOrderItemQuantity(item)} × {item.item_name}
+            {item.variant_name ? ` (${item.variant_name})` : ''}
           </Text>
         ))}
         {remainingCount > 0 && (
@@ -18,11 +18,14 @@ import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../../navigation/types';
 import { useQuery } from 'react-query';
-import { fetchShopDetails, fetchShopCategories, fetchShopItems, ShopItem } from '../../services/consumer/shopService';
+import { fetchShopDetails, fetchShopCategories, fetchShopItems, getItemDisplayPriceCents, ShopItem, ShopItemVariant } from '../../services/consumer/shopService';
 import { useUserLocation } from '../../hooks/consumer/useUserLocation';
 import { useLocationSelection } from '../../context/LocationContext';
-import { useCart } from '../../context/CartContext';
-import { calculateDistance, calculateDeliveryFee } from '../../services/merchant/deliveryLogicService';
+import { getCartLineKey, toCartLine, useCart } from '../../context/CartContext';
+import VariantPickerBottomSheet from '../../components/consumer/VariantPickerBottomSheet';
+import { calculateDistance } from '../../services/merchant/deliveryLogicService';
+import { calculateDeliveryFee, findDeliveryZone, getLeastOrderValue } from '../../services/feeQuote';
+import { getRoadDistance } from '../../services/routingDistance';
 import ReactNativeHapticFeedback from 'react-native-haptic-feedback';
 import StarIcon from '../../icons/StarIcon';
 import MoneyIcon from '../../icons/MoneyIcon';
@@ -37,6 +40,7 @@ import CategoryItemsSkeleton from '../../skeleton/CategoryItemsSkeleton';
 import LinearGradient from 'react-native-linear-gradient';
 import { useTranslation } from 'react-i18next';
 import { getCurrentOpeningStatus } from '../../utils/shopOpeningHours';
+import { formatQuantity } from '../../utils/unitQuantity';
 import { getShopReviewStats } from '../../services/consumer/reviewService';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -53,6 +57,7 @@ export default function ShopScreen() {
   const insets = useSafeAreaInsets();
   const { coords } = useUserLocation();
   const { addItemToCart, removeItemFromCart, getShopCart } = useCart();
+  const [variantPickerItem, setVariantPickerItem] = useState<ShopItem | null>(null);
   const userLat = coords?.latitude;
   const userLng = coords?.longitude;
 
@@ -145,6 +150,24 @@ export default function ShopScreen() {
   const { selectedAddress } = useLocationSelection();
   const effectiveCoords = selectedAddress?.coords || coords;
 
+  // Road-mode shops price delivery on the driving distance; the home screen passes it in when it already has it
+  const needsRoadDistance =
+    passedDistance === undefined &&
+    shopDetails?.deliveryLogic?.distanceMode === 'road' &&
+    !!shopDetails.latitude &&
+    !!shopDetails.longitude &&
+    !!effectiveCoords?.latitude &&
+    !!effectiveCoords?.longitude;
+  const { data: roadDistance } = useQuery(
+    ['roadDistance', shopId, effectiveCoords?.latitude, effectiveCoords?.longitude],
+    () =>
+      getRoadDistance(
+        { id: shopId, latitude: shopDetails!.latitude!, longitude: shopDetails!.longitude! },
+        { latitude: effectiveCoords!.latitude, longitude: effectiveCoords!.longitude }
+      ),
+    { enabled: needsRoadDistance, staleTime: Infinity }
+  );
+
   // Calculate distance only if we have valid coordinates and shop details
   const calculateDistanceIfNeeded = () => {
     if (passedDistance !== undefined) {
@@ -189,14 +212,19 @@ export default function ShopScreen() {
       return null;
     }
 
-    return calculatedDistance;
+    return (needsRoadDistance ? roadDistance : null) ?? calculatedDistance;
   };
 
   const distanceInMeters = calculateDistanceIfNeeded();
 
+  // The delivery zone the address falls in, which can override the fee and the least order value
+  const deliveryZone = shopDetails?.deliveryLogic && effectiveCoords?.latitude && effectiveCoords?.longitude
+    ? findDeliveryZone(shopDetails.deliveryLogic.zones, effectiveCoords)
+    : null;
+
   // Use delivery fee from passed shop (already calculated on HomeScreen), or calculate if not provided
   const deliveryFee = passedShop?.delivery_fee ?? (shopDetails?.deliveryLogic && distanceInMeters
-    ? calculateDeliveryFee(distanceInMeters, shopDetails.deliveryLogic)
+    ? calculateDeliveryFee(distanceInMeters, shopDetails.deliveryLogic, deliveryZone)
     : null);
 
   // Free-delivery promo chip only when the user is within the shop's free-delivery radius (distance-qualified)
@@ -236,16 +264,21 @@ export default function ShopScreen() {
     });
   }, [categories, itemsByCategory]);
 
-  // Helper function to get item quantity from cart
+  // Helper function to get item quantity from cart (summed over every variant of the item)
   const getItemQuantity = (itemId: string): number => {
     if (!currentCart) return 0;
-    const cartItem = currentCart.items.find(item => item.id === itemId);
-    return cartItem?.quantity || 0;
+    return currentCart.items
+      .filter(item => item.id === itemId)
+      .reduce((sum, item) => sum + item.quantity, 0);
   };
 
   // Handle adding item to cart
   const handleAddToCart = async (item: ShopItem) => {
     if (!shopDetails) return;
+    if (item.variants && item.variants.length > 0) {
+      setVariantPickerItem(item);
+      return;
+    }
     ReactNativeHapticFeedback.trigger('impactLight');
     await addItemToCart(shopId, item, {
       name: shopDetails.name,
@@ -257,10 +290,27 @@ export default function ShopScreen() {
     });
   };
 
-  // Handle removing item from cart
+  const handleSelectVariant = async (variant: ShopItemVariant) => {
+    const item = variantPickerItem;
+    setVariantPickerItem(null);
+    if (!item || !shopDetails) return;
+    ReactNativeHapticFeedback.trigger('impactLight');
+    await addItemToCart(shopId, toCartLine(item, variant), {
+      name: shopDetails.name,
+      image_url: shopDetails.image_url || undefined,
+      address: shopDetails.address || undefined,
+      latitude: shopDetails.latitude,
+      longitude: shopDetails.longitude,
+      deliveryLogic: shopDetails.deliveryLogic,
+    });
+  };
+
+  // Handle removing item from cart; for items with variants this takes from the most recently added option
   const handleRemoveFromCart = async (itemId: string) => {
+    const line = currentCart?.items.filter(item => item.id === itemId).pop();
+    if (!line) return;
     ReactNativeHapticFeedback.trigger('impactLight');
-    await removeItemFromCart(shopId, itemId);
+    await removeItemFromCart(shopId, getCartLineKey(line));
   };
 
   // Scroll to category and center it in the category bar if it's not fully visible
@@ -543,12 +593,26 @@ export default function ShopScreen() {
               </View>
             )}
 
-            {/* Minimum Order Value */}
+            {/* Least Order Value */}
             {shopDetails.deliveryLogic && (
               <View className="bg-gray-50 rounded-full px-4 py-2 mr-3 border border-gray-200 flex-row items-center">
                 <MoneyIcon size={14} color="#4b5563" />
                 <Text className="text-gray-700 text-sm font-semibold ml-2">
-                  {t('shop.minOrder', { amount: shopDetails.deliveryLogic.minimumOrderValue })}
+                  {t('shop.minOrder', { amount: getLeastOrderValue(shopDetails.deliveryLogic, deliveryZone) })}
+                </Text>
+              </View>
+            )}
+
+            {/* Small Order Surcharge */}
+            {shopDetails.deliveryLogic && shopDetails.deliveryLogic.smallOrderSurcharge > 0 &&
+              shopDetails.deliveryLogic.minimumOrderValue > getLeastOrderValue(shopDetails.deliveryLogic, deliveryZone) && (
+              <View className="bg-gray-50 rounded-full px-4 py-2 mr-3 border border-gray-200 flex-row items-center">
+                <TagIcon size={14} color="#4b5563" />
+                <Text className="text-gray-700 text-sm font-semibold ml-2">
+                  {t('shop.smallOrderFee', {
+                    amount: shopDetails.deliveryLogic.minimumOrderValue,
+                    surcharge: shopDetails.deliveryLogic.smallOrderSurcharge,
+                  })}
                 </Text>
               </View>
             )}
@@ -752,7 +816,7 @@ export default function ShopScreen() {
                                       <Text className="text-white text-lg font-bold">−</Text>
                                     </TouchableOpacity>
                                     <Text className="text-white text-sm font-bold mx-2 min-w-[24px] text-center">
-                                      {quantity}
+                                      {formatQuantity(quantity, item.unit)}
                                     </Text>
                                     <TouchableOpacity
                                       onPress={() => handleAddToCart(item)}
@@ -826,7 +890,7 @@ export default function ShopScreen() {
                                       <Text className="text-white text-lg font-bold">−</Text>
                                     </TouchableOpacity>
                                     <Text className="text-white text-sm font-bold mx-2 min-w-[24px] text-center">
-                                      {quantity}
+                                      {formatQuantity(quantity, item.unit)}
                                     </Text>
                                     <TouchableOpacity
                                       onPress={() => handleAddToCart(item)}
@@ -857,7 +921,7 @@ export default function ShopScreen() {
                           {/* Price - Centered */}
                           <View className="mt-1">
                             <Text className="text-base font-bold text-gray-900 text-center">
-                              Rs {(item.price_cents / 100).toFixed(0)}
+                              {item.variants && item.variants.length > 0 ? `${t('shop.priceFrom')} ` : ''}Rs {(getItemDisplayPriceCents(item) / 100).toFixed(0)}{item.unit ? ` / ${item.unit}` : ''}
                             </Text>
                           </View>
                         </View>
@@ -994,6 +1058,12 @@ export default function ShopScreen() {
           )}
         </SafeAreaView>
       </Modal>
+
+      <VariantPickerBottomSheet
+        item={variantPickerItem}
+        onClose={() => setVariantPickerItem(null)}
+        onSelect={handleSelectVariant}
+      />
     </View>
   );
 }
@@ -1010,6 +1080,7 @@ function SearchResults({
 }) {
   const { t } = useTranslation();
   const { addItemToCart, removeItemFromCart, getShopCart } = useCart();
+  const [variantPickerItem, setVariantPickerItem] = useState<ShopItem | null>(null);
   const currentCart = getShopCart(shopId);
 
   const { data: searchResults, isLoading } = useQuery(
@@ -1058,16 +1129,21 @@ function SearchResults({
     return searchResults.filter((item) => item.is_active === true);
   }, [searchResults]);
 
-  // Helper function to get item quantity from cart
+  // Helper function to get item quantity from cart (summed over every variant of the item)
   const getItemQuantity = (itemId: string): number => {
     if (!currentCart) return 0;
-    const cartItem = currentCart.items.find(item => item.id === itemId);
-    return cartItem?.quantity || 0;
+    return currentCart.items
+      .filter(item => item.id === itemId)
+      .reduce((sum, item) => sum + item.quantity, 0);
   };
 
   // Handle adding item to cart (disabled if shop is closed)
   const handleAddToCart = async (item: ShopItem) => {
     if (!shopDetails || isShopClosed) return;
+    if (item.variants && item.variants.length > 0) {
+      setVariantPickerItem(item);
+      return;
+    }
     ReactNativeHapticFeedback.trigger('impactLight');
     await addItemToCart(shopId, item, {
       name: shopDetails.name,
@@ -1079,10 +1155,27 @@ function SearchResults({
     });
   };
 
-  // Handle removing item from cart
+  const handleSelectVariant = async (variant: ShopItemVariant) => {
+    const item = variantPickerItem;
+    setVariantPickerItem(null);
+    if (!item || !shopDetails) return;
+    ReactNativeHapticFeedback.trigger('impactLight');
+    await addItemToCart(shopId, toCartLine(item, variant), {
+      name: shopDetails.name,
+      image_url: shopDetails.image_url || undefined,
+      address: shopDetails.address || undefined,
+      latitude: shopDetails.latitude,
+      longitude: shopDetails.longitude,
+      deliveryLogic: shopDetails.deliveryLogic,
+    });
+  };
+
+  // Handle removing item from cart; for items with variants this takes from the most recently added option
   const handleRemoveFromCart = async (itemId: string) => {
+    const line = currentCart?.items.filter(item => item.id === itemId).pop();
+    if (!line) return;
     ReactNativeHapticFeedback.trigger('impactLight');
-    await removeItemFromCart(shopId, itemId);
+    await removeItemFromCart(shopId, getCartLineKey(line));
   };
 
   if (isLoading) {
@@ -1156,7 +1249,9 @@ function SearchResults({
               <Text className="text-base text-gray-600 leading-tight" numberOfLines={3}>
                 {item.name}
               </Text>
-              <Text className="text-lg font-bold text-gray-900 mt-1">Rs {(item.price_cents / 100).toFixed(0)}</Text>
+              <Text className="text-lg font-bold text-gray-900 mt-1">
+                {item.variants && item.variants.length > 0 ? `${t('shop.priceFrom')} ` : ''}Rs {(getItemDisplayPriceCents(item) / 100).toFixed(0)}{item.unit ? ` / ${item.unit}` : ''}
+              </Text>
             </View>
 
             {/* Cart Controls - Bottom Right of Card */}
@@ -1203,7 +1298,7 @@ function SearchResults({
                     <Text className="text-white text-base font-bold">−</Text>
                   </TouchableOpacity>
                   <Text className="text-white text-sm font-bold mx-2 min-w-[24px] text-center">
-                    {quantity}
+                    {formatQuantity(quantity, item.unit)}
                   </Text>
                   <TouchableOpacity
                     onPress={() => handleAddToCart(item)}
@@ -1227,6 +1322,12 @@ function SearchResults({
           </View>
         }
       />
+
+      <VariantPickerBottomSheet
+        item={variantPickerItem}
+        onClose={() => setVariantPickerItem(null)}
+        onSelect={handleSelectVariant}
+      />
     </View>
   );
 }
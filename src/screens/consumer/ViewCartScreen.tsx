@@ -12,12 +12,15 @@ import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context'
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../../navigation/types';
-import { useCart } from '../../context/CartContext';
+import { getCartLineKey, useCart } from '../../context/CartContext';
 import { useUserLocation } from '../../hooks/consumer/useUserLocation';
 import { useLocationSelection } from '../../context/LocationContext';
 import { useAuth } from '../../context/AuthContext';
-import { calculateDistance, calculateTotalDeliveryFee, type DeliveryLogic, fetchDeliveryLogic } from '../../services/merchant/deliveryLogicService';
+import { type DeliveryLogic, fetchDeliveryLogic } from '../../services/merchant/deliveryLogicService';
+import { getDeliveryDistance } from '../../services/routingDistance';
+import { estimateFees, findDeliveryZone } from '../../services/feeQuote';
 import { validateCartOrderValue } from '../../services/consumer/shopService';
+import { formatQuantity, getLineTotalCents, getQuantityStep, roundQuantity } from '../../utils/unitQuantity';
 import ReactNativeHapticFeedback from 'react-native-haptic-feedback';
 import BackIcon from '../../icons/BackIcon';
 import CartIcon from '../../icons/CartIcon';
@@ -33,6 +36,9 @@ interface CartTotals {
   subtotal: number; // in cents
   deliveryFee: number; // in PKR
   surcharge: number; // in PKR
+  peakFee: number; // in PKR
+  peakLabel: string | null; // shop's name for the peak window, if any
+  busyModeApplied: boolean;
   total: number; // in cents
   freeDeliveryApplied: boolean;
   isCalculating: boolean;
@@ -59,6 +65,9 @@ export default function ViewCartScreen() {
     subtotal: 0,
     deliveryFee: 0,
     surcharge: 0,
+    peakFee: 0,
+    peakLabel: null,
+    busyModeApplied: false,
     total: 0,
     freeDeliveryApplied: false,
     isCalculating: true,
@@ -76,6 +85,9 @@ export default function ViewCartScreen() {
         subtotal: 0,
         deliveryFee: 0,
         surcharge: 0,
+        peakFee: 0,
+        peakLabel: null,
+        busyModeApplied: false,
         total: 0,
         freeDeliveryApplied: false,
         isCalculating: false,
@@ -95,7 +107,7 @@ export default function ViewCartScreen() {
         console.error('Error fetching delivery logic:', deliveryLogicError);
       }
 
-      // Calculate distance if we have coordinates
+      // Distance the delivery is priced on: by road for shops in road distance mode
       let distanceInMeters: number | null = null;
       if (
         effectiveCoords?.latitude &&
@@ -103,22 +115,24 @@ export default function ViewCartScreen() {
         currentCart.shopLatitude &&
         currentCart.shopLongitude
       ) {
-        distanceInMeters = calculateDistance(
-          effectiveCoords.latitude,
-          effectiveCoords.longitude,
-          currentCart.shopLatitude,
-          currentCart.shopLongitude
+        distanceInMeters = await getDeliveryDistance(
+          { id: shopId, latitude: currentCart.shopLatitude, longitude: currentCart.shopLongitude },
+          effectiveCoords,
+          deliveryLogic
         );
       }
 
       // If no delivery logic exists, just show subtotal and validate
       if (!deliveryLogic) {
-        const validationResult = await validateCartOrderValue(shopId, currentCart.totalPrice);
+        const validationResult = await validateCartOrderValue(shopId, currentCart.totalPrice, effectiveCoords);
 
         setTotals({
           subtotal: currentCart.totalPrice,
           deliveryFee: 0,
           surcharge: 0,
+          peakFee: 0,
+          peakLabel: null,
+          busyModeApplied: false,
           total: currentCart.totalPrice,
           freeDeliveryApplied: false,
           isCalculating: false,
@@ -128,30 +142,23 @@ export default function ViewCartScreen() {
         return;
       }
 
-      // Calculate delivery fee and surcharge using fresh delivery logic from backend
-      // This ensures we use the latest values (surcharge, tiers, etc.) even if merchant changed them
-      const orderValue = currentCart.totalPrice / 100; // Convert cents to PKR
-      const deliveryCalculation = calculateTotalDeliveryFee(
-        orderValue,
-        distanceInMeters || 0,
-        deliveryLogic
-      );
-
-      const subtotal = currentCart.totalPrice; // in cents
-      // Calculate total: subtotal + base delivery fee + surcharge
-      const baseDeliveryFeeInCents = Math.round(deliveryCalculation.baseFee * 100); // Convert PKR to cents
-      const surchargeInCents = Math.round(deliveryCalculation.surcharge * 100); // Convert PKR to cents
-      const total = subtotal + baseDeliveryFeeInCents + surchargeInCents;
+      // Estimate fees with fresh delivery logic from backend so the cart reflects the merchant's latest settings;
+      // checkout shows the server's signed quote
+      const zone = effectiveCoords ? findDeliveryZone(deliveryLogic.zones, effectiveCoords) : null;
+      const estimate = estimateFees(currentCart.totalPrice, distanceInMeters || 0, deliveryLogic, new Date(), zone);
 
       // Validate with backend to get current leastOrderValue (real-time validation)
-      const validationResult = await validateCartOrderValue(shopId, currentCart.totalPrice);
+      const validationResult = await validateCartOrderValue(shopId, currentCart.totalPrice, effectiveCoords);
 
       setTotals({
-        subtotal,
-        deliveryFee: deliveryCalculation.baseFee, // Base delivery fee only (from distance tiering)
-        surcharge: deliveryCalculation.surcharge, // Order value surcharge (separate)
-        total,
-        freeDeliveryApplied: deliveryCalculation.freeDeliveryApplied,
+        subtotal: estimate.subtotal_cents,
+        deliveryFee: (estimate.delivery_fee_cents - estimate.peak_fee_cents) / 100, // Zone or distance fee after any free-delivery discount
+        surcharge: estimate.surcharge_cents / 100, // Order value surcharge (separate)
+        peakFee: estimate.peak_fee_cents / 100, // Peak hours and busy mode (separate)
+        peakLabel: estimate.peak_label,
+        busyModeApplied: estimate.busy_mode_applied,
+        total: estimate.total_cents,
+        freeDeliveryApplied: estimate.free_delivery_applied,
         isCalculating: false,
         meetsMinimumOrder: validationResult.data?.meetsMinimumOrder ?? true,
         minimumOrderValue: validationResult.data?.leastOrderValue ?? null,
@@ -203,27 +210,27 @@ export default function ViewCartScreen() {
   }, []);
 
   // Handle quantity change
-  const handleQuantityChange = async (itemId: string, newQuantity: number) => {
+  const handleQuantityChange = async (lineKey: string, newQuantity: number) => {
     if (newQuantity < 0 || !shopId) return;
-    await updateItemQuantity(shopId, itemId, newQuantity);
+    await updateItemQuantity(shopId, lineKey, newQuantity);
     // Totals will be recalculated via useEffect
   };
 
   // Handle increment
-  const handleIncrement = async (itemId: string) => {
-    const item = currentCart?.items.find((i) => i.id === itemId);
+  const handleIncrement = async (lineKey: string) => {
+    const item = currentCart?.items.find((i) => getCartLineKey(i) === lineKey);
     if (item) {
       ReactNativeHapticFeedback.trigger('impactLight');
-      await handleQuantityChange(itemId, item.quantity + 1);
+      await handleQuantityChange(lineKey, roundQuantity(item.quantity + getQuantityStep(item)));
     }
   };
 
   // Handle decrement
-  const handleDecrement = async (itemId: string) => {
-    const item = currentCart?.items.find((i) => i.id === itemId);
+  const handleDecrement = async (lineKey: string) => {
+    const item = currentCart?.items.find((i) => getCartLineKey(i) === lineKey);
     if (item && item.quantity > 0) {
       ReactNativeHapticFeedback.trigger('impactLight');
-      await handleQuantityChange(itemId, item.quantity - 1);
+      await handleQuantityChange(lineKey, roundQuantity(item.quantity - getQuantityStep(item)));
     }
   };
 
@@ -342,7 +349,7 @@ export default function ViewCartScreen() {
         }}>
           {currentCart.items.map((item, index) => (
             <View
-              key={item.id}
+              key={getCartLineKey(item)}
               className={`flex-row items-center p-4 ${index < currentCart.items.length - 1 ? 'border-b border-gray-100' : ''}`}
             >
               {/* Picture */}
@@ -368,18 +375,21 @@ export default function ViewCartScreen() {
                 <Text className="text-gray-500 text-sm font-normal">
                   {item.name}
                 </Text>
+                {item.variant_name ? (
+                  <Text className="text-gray-500 text-xs mt-0.5">{item.variant_name}</Text>
+                ) : null}
                 <Text className="text-gray-600 text-sm mt-1">
-                  Rs {(item.price_cents / 100).toFixed(0)} {t('cart.each')}
+                  Rs {(item.price_cents / 100).toFixed(0)} {item.unit ? t('cart.perUnit', { unit: item.unit }) : t('cart.each')}
                 </Text>
                 <Text className="text-gray-900 text-base font-semibold mt-1">
-                  Rs {((item.price_cents * item.quantity) / 100).toFixed(0)}
+                  Rs {(getLineTotalCents(item.price_cents, item.quantity) / 100).toFixed(0)}
                 </Text>
               </View>
 
               {/* Quantity Controls */}
               <View className="flex-row items-center bg-gray-100 rounded-full px-2 py-1">
                 <TouchableOpacity
-                  onPress={() => handleDecrement(item.id)}
+                  onPress={() => handleDecrement(getCartLineKey(item))}
                   className="items-center justify-center"
                   style={{ width: 36, height: 36 }}
                   activeOpacity={0.7}
@@ -387,10 +397,10 @@ export default function ViewCartScreen() {
                   <Text className="text-gray-700 text-lg font-bold">−</Text>
                 </TouchableOpacity>
                 <Text className="text-gray-900 text-base font-bold mx-3 min-w-[24px] text-center">
-                  {item.quantity}
+                  {formatQuantity(item.quantity, item.unit)}
                 </Text>
                 <TouchableOpacity
-                  onPress={() => handleIncrement(item.id)}
+                  onPress={() => handleIncrement(getCartLineKey(item))}
                   className="items-center justify-center"
                   style={{ width: 36, height: 36 }}
                   activeOpacity={0.7}
@@ -465,6 +475,15 @@ export default function ViewCartScreen() {
             </View>
           ) : null}
 
+          {totals.peakFee > 0 && (
+            <View className="flex-row justify-between mb-2">
+              <Text className="text-gray-600 text-base">{totals.peakLabel || t(totals.busyModeApplied ? 'cart.busyFee' : 'cart.peakFee')}</Text>
+              <Text className="text-gray-900 text-base font-semibold">
+                Rs {totals.peakFee.toFixed(0)}
+              </Text>
+            </View>
+          )}
+
           {totals.isCalculating && (
             <View className="flex-row items-center justify-center py-2">
               <ActivityIndicator size="small" color="#2563eb" />
@@ -15,13 +15,14 @@ import { useTranslation } from 'react-i18next';
 import LinearGradient from 'react-native-linear-gradient';
 
 import { useAuth } from '../../context/AuthContext';
-import { useAllMerchantOrders } from '../../hooks/merchant/useOrders';
+import { useMerchantActiveOrders } from '../../hooks/merchant/useOrders';
 import type { RootStackParamList } from '../../navigation/types';
 import {
   OrderWithAll,
   getOrderStatusDisplay,
   formatPrice,
   formatDuration,
+  formatOrderItemQuantity,
 } from '../../types/orders';
 import LocationMarkerIcon from '../../icons/LocationMarkerIcon';
 
@@ -38,7 +39,7 @@ export default function MerchantOrdersScreen() {
     isLoading,
     refetch,
     isFetching,
-  } = useAllMerchantOrders(user?.id);
+  } = useMerchantActiveOrders(user?.id);
 
   const [tick, setTick] = useState(0);
 
@@ -372,7 +373,8 @@ function OrderCard({ order, onPress, tick }: OrderCardProps) {
       <View className="mb-3">
         {itemsPreview.map((item: any) => (
           <Text key={item.id} className="text-gray-500 text-xs">
-            {item.quantity} × {item.item_name}
+            {formatOrderItemQuantity(item)} × {item.item_name}
+            {item.variant_name ? ` (${item.variant_name})` : ''}
           </Text>
         ))}
         {remainingCount > 0 && (
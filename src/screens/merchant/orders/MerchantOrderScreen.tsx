@@ -14,6 +14,7 @@ import {
   RefreshControl,
   Linking,
   Modal,
+  TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation, useRoute } from '@react-navigation/native';
@@ -22,20 +23,35 @@ import type { RouteProp } from '@react-navigation/native';
 
 import type { RootStackParamList } from '../../../navigation/types';
 import {
-  useShopOrders,
+  useMerchantOrder,
   useConfirmOrder,
   useAssignRunnerAndDispatch,
   useMarkOrderDelivered,
   useCancelOrder as useMerchantCancelOrder,
-  useDeliveryRunners,
+  useRecordWeighedQuantity,
+  useUpdateOrderItemPacking,
+  useProposeSubstitution,
+  useWithdrawSubstitution,
+  useQueuedOrderActions,
 } from '../../../hooks/merchant/useOrders';
 import {
+  CancellationReasonCode,
+  OrderItem,
+  OrderItemPackingStatus,
   OrderWithAll,
+  QueuedOrderAction,
   getOrderStatusDisplay,
   formatPrice,
+  formatOrderItemQuantity,
+  hasProposedSubstitution,
 } from '../../../types/orders';
+import { formatQuantity } from '../../../utils/unitQuantity';
 import { useTranslation } from 'react-i18next';
 import BackIcon from '../../../icons/BackIcon';
+import { RunnerSelectionModal } from '../../../components/merchant/orders/RunnerSelectionModal';
+import { SubstitutionPickerModal } from '../../../components/merchant/orders/SubstitutionPickerModal';
+import { OrderSlipModal } from '../../../components/merchant/orders/OrderSlipModal';
+import CancelOrderSheet from '../../../components/CancelOrderSheet';
 
 type Nav = NativeStackNavigationProp<RootStackParamList>;
 type Route = RouteProp<RootStackParamList, 'MerchantOrder'>;
@@ -47,23 +63,33 @@ export default function MerchantOrderScreen() {
   const { shopId, orderId } = route.params;
 
   const {
-    data: orders,
+    data: fetchedOrder,
     isLoading,
     refetch,
     isFetching,
-  } = useShopOrders(shopId);
-  const typedOrders = orders as OrderWithAll[] | undefined;
-  const order = useMemo(
-    () => typedOrders?.find((o) => o.id === orderId) || null,
-    [typedOrders, orderId],
-  );
+  } = useMerchantOrder(shopId, orderId);
+  const order: OrderWithAll | null = fetchedOrder ?? null;
 
   const confirmMutation = useConfirmOrder();
   const assignRunnerMutation = useAssignRunnerAndDispatch();
   const deliveredMutation = useMarkOrderDelivered();
   const cancelMutation = useMerchantCancelOrder();
+  const weighMutation = useRecordWeighedQuantity();
+  const packingMutation = useUpdateOrderItemPacking();
+  const proposeSubstitutionMutation = useProposeSubstitution();
+  const withdrawSubstitutionMutation = useWithdrawSubstitution();
+  const {
+    actions: queuedActions,
+    hasPending: hasPendingAction,
+    dismiss: dismissQueuedAction,
+  } = useQueuedOrderActions(orderId);
 
   const [isRunnerModalVisible, setIsRunnerModalVisible] = useState(false);
+  const [weighingItem, setWeighingItem] = useState<OrderItem | null>(null);
+  const [shortItem, setShortItem] = useState<OrderItem | null>(null);
+  const [substitutingItem, setSubstitutingItem] = useState<OrderItem | null>(null);
+  const [isSlipModalVisible, setIsSlipModalVisible] = useState(false);
+  const [isCancelSheetVisible, setIsCancelSheetVisible] = useState(false);
   const isProcessingMutationRef = useRef(false);
 
   const handleRefresh = useCallback(async () => {
@@ -90,6 +116,10 @@ export default function MerchantOrderScreen() {
     isProcessingMutationRef.current = false;
   }, []);
 
+  const showQueuedNotice = useCallback(() => {
+    Alert.alert(t('merchant.orders.offlineQueuedTitle'), t('merchant.orders.offlineQueuedMessage'));
+  }, [t]);
+
   const handleConfirm = useCallback(async () => {
     if (!order) return;
     if (confirmMutation.isLoading || blockIfProcessing()) return;
@@ -97,9 +127,11 @@ export default function MerchantOrderScreen() {
     try {
       const result = await (confirmMutation.mutateAsync as unknown as (
         orderId: string,
-      ) => Promise<{ success: boolean; message?: string }>)(order.id);
+      ) => Promise<{ success: boolean; message?: string; queued?: boolean }>)(order.id);
 
-      if (result?.success) {
+      if (result?.queued) {
+        showQueuedNotice();
+      } else if (result?.success) {
         await refetch();
         Alert.alert(t('merchant.orders.success'), t('merchant.orders.confirmSuccess'));
       } else {
@@ -111,7 +143,7 @@ export default function MerchantOrderScreen() {
     } finally {
       releaseProcessing();
     }
-  }, [order, confirmMutation, blockIfProcessing, releaseProcessing, refetch]);
+  }, [order, confirmMutation, blockIfProcessing, releaseProcessing, refetch, showQueuedNotice]);
 
   const handleMarkDelivered = useCallback(() => {
     if (!order) return;
@@ -129,8 +161,10 @@ export default function MerchantOrderScreen() {
             try {
               const result = await (deliveredMutation.mutateAsync as unknown as (
                 orderId: string,
-              ) => Promise<{ success: boolean; message?: string }>)(order.id);
-              if (result?.success) {
+              ) => Promise<{ success: boolean; message?: string; queued?: boolean }>)(order.id);
+              if (result?.queued) {
+                showQueuedNotice();
+              } else if (result?.success) {
                 await refetch();
                 Alert.alert(t('merchant.orders.success'), t('merchant.orders.deliveredSuccess'));
                 navigation.goBack();
@@ -156,6 +190,7 @@ export default function MerchantOrderScreen() {
     blockIfProcessing,
     releaseProcessing,
     refetch,
+    showQueuedNotice,
     navigation,
     t,
   ]);
@@ -163,18 +198,19 @@ export default function MerchantOrderScreen() {
   const handleCancel = useCallback(() => {
     if (!order) return;
     if (cancelMutation.isLoading || isProcessingMutationRef.current) return;
+    setIsCancelSheetVisible(true);
+  }, [order, cancelMutation]);
 
-    const handleCancelWithReason = async (reason: string) => {
+  const handleCancelWithReason = useCallback(
+    async (reasonCode: CancellationReasonCode, note?: string) => {
+      if (!order) return;
       if (blockIfProcessing()) return;
       try {
-        const result = await (cancelMutation.mutateAsync as unknown as (params: {
-          orderId: string;
-          reason: string;
-        }) => Promise<{ success: boolean; message?: string }>)({
-          orderId: order.id,
-          reason,
-        });
-        if (result?.success) {
+        const result = await cancelMutation.mutateAsync({ orderId: order.id, reasonCode, note });
+        setIsCancelSheetVisible(false);
+        if (result?.queued) {
+          showQueuedNotice();
+        } else if (result?.success) {
           await refetch();
           Alert.alert(t('merchant.orders.success'), t('merchant.orders.cancelSuccess'));
           navigation.goBack();
@@ -187,27 +223,85 @@ export default function MerchantOrderScreen() {
       } finally {
         releaseProcessing();
       }
-    };
-
-    Alert.alert(t('merchant.orders.cancelOrderTitle'), t('merchant.orders.cancelReason'), [
-      { text: t('merchant.orders.dismiss'), style: 'cancel' },
-      {
-        text: t('merchant.orders.outOfStock'),
-        onPress: () => handleCancelWithReason('Items out of stock'),
-      },
-      {
-        text: t('merchant.orders.otherReason'),
-        onPress: () => handleCancelWithReason('Cancelled by shop'),
-      },
-    ]);
-  }, [
-    order,
-    cancelMutation,
-    blockIfProcessing,
-    releaseProcessing,
-    refetch,
-    navigation,
-  ]);
+    },
+    [order, cancelMutation, blockIfProcessing, releaseProcessing, refetch, showQueuedNotice, navigation, t]
+  );
+
+  const handleRecordWeight = useCallback(async (weighedQuantity: number) => {
+    if (!order || !weighingItem) return;
+    if (weighMutation.isLoading || blockIfProcessing()) return;
+
+    try {
+      const result = await weighMutation.mutateAsync({
+        orderId: order.id,
+        orderItemId: weighingItem.id,
+        weighedQuantity,
+      });
+      if (result?.success) {
+        await refetch();
+        setWeighingItem(null);
+      } else {
+        Alert.alert(t('merchant.orders.error'), result?.message || t('merchant.orders.weighError'));
+      }
+    } catch (error: any) {
+      console.error('Error recording weight:', error);
+      Alert.alert(t('merchant.orders.error'), error?.message || t('merchant.orders.weighError'));
+    } finally {
+      releaseProcessing();
+    }
+  }, [order, weighingItem, weighMutation, blockIfProcessing, releaseProcessing, refetch, t]);
+
+  const canWeighItems = order?.status === 'pending' || order?.status === 'confirmed';
+  const canPackItems = order?.status === 'confirmed' && !hasPendingAction;
+  const isAwaitingSubstitution = order ? hasProposedSubstitution(order) : false;
+
+  /** Runs one packing / substitution request; the checklist reflects the server once the orders refetch. */
+  const runPackingUpdate = useCallback(async (
+    update: () => Promise<{ success: boolean; message?: string }>,
+    onDone?: () => void,
+  ) => {
+    if (blockIfProcessing()) return;
+    try {
+      const result = await update();
+      if (result?.success) {
+        await refetch();
+        onDone?.();
+      } else {
+        Alert.alert(t('merchant.orders.error'), result?.message || t('merchant.orders.packing.error'));
+      }
+    } catch (error: any) {
+      console.error('Error updating packing:', error);
+      Alert.alert(t('merchant.orders.error'), error?.message || t('merchant.orders.packing.error'));
+    } finally {
+      releaseProcessing();
+    }
+  }, [blockIfProcessing, releaseProcessing, refetch, t]);
+
+  const handleSetPacking = useCallback((
+    item: OrderItem,
+    status: OrderItemPackingStatus | null,
+    packedQuantity?: number,
+  ) => {
+    if (!order) return;
+    runPackingUpdate(
+      () => packingMutation.mutateAsync({ orderId: order.id, orderItemId: item.id, status, packedQuantity }),
+      () => setShortItem(null),
+    );
+  }, [order, packingMutation, runPackingUpdate]);
+
+  const handleProposeSubstitution = useCallback((merchantItemId: string, quantity: number) => {
+    if (!order || !substitutingItem) return;
+    const orderItemId = substitutingItem.id;
+    runPackingUpdate(
+      () => proposeSubstitutionMutation.mutateAsync({ orderId: order.id, orderItemId, merchantItemId, quantity }),
+      () => setSubstitutingItem(null),
+    );
+  }, [order, substitutingItem, proposeSubstitutionMutation, runPackingUpdate]);
+
+  const handleWithdrawSubstitution = useCallback((item: OrderItem) => {
+    if (!order) return;
+    runPackingUpdate(() => withdrawSubstitutionMutation.mutateAsync({ orderId: order.id, orderItemId: item.id }));
+  }, [order, withdrawSubstitutionMutation, runPackingUpdate]);
 
   const handleAssignRunner = useCallback(() => {
     if (!order) return;
@@ -224,6 +318,17 @@ export default function MerchantOrderScreen() {
   const actionContent = useMemo(() => {
     if (!order) return null;
 
+    // The status shown is the server's; further actions wait until the queued one has synced.
+    if (hasPendingAction) {
+      return (
+        <View className="py-3">
+          <Text className="text-gray-500 text-sm text-center">
+            {t('merchant.orders.waitingForSync')}
+          </Text>
+        </View>
+      );
+    }
+
     switch (order.status) {
       case 'pending':
         return (
@@ -252,22 +357,30 @@ export default function MerchantOrderScreen() {
         );
       case 'confirmed':
         return (
-          <View className="flex-row space-x-2">
-            <TouchableOpacity
-              onPress={handleAssignRunner}
-              className="flex-1 bg-blue-600 rounded-xl py-3 items-center"
-              activeOpacity={0.7}
-            >
-              <Text className="text-white font-bold">{t('merchant.orders.assignRunner')}</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              onPress={handleCancel}
-              disabled={cancelMutation.isLoading}
-              className="bg-red-100 rounded-xl py-3 px-4"
-              activeOpacity={0.7}
-            >
-              <Text className="text-red-600 font-semibold">{t('merchant.orders.cancel')}</Text>
-            </TouchableOpacity>
+          <View>
+            {isAwaitingSubstitution && (
+              <Text className="text-amber-700 text-sm text-center mb-3">
+                {t('merchant.orders.packing.waitingForCustomer')}
+              </Text>
+            )}
+            <View className="flex-row space-x-2">
+              <TouchableOpacity
+                onPress={handleAssignRunner}
+                disabled={isAwaitingSubstitution}
+                className={`flex-1 rounded-xl py-3 items-center ${isAwaitingSubstitution ? 'bg-gray-300' : 'bg-blue-600'}`}
+                activeOpacity={0.7}
+              >
+                <Text className="text-white font-bold">{t('merchant.orders.assignRunner')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleCancel}
+                disabled={cancelMutation.isLoading}
+                className="bg-red-100 rounded-xl py-3 px-4"
+                activeOpacity={0.7}
+              >
+                <Text className="text-red-600 font-semibold">{t('merchant.orders.cancel')}</Text>
+              </TouchableOpacity>
+            </View>
           </View>
         );
       case 'out_for_delivery':
@@ -313,6 +426,8 @@ export default function MerchantOrderScreen() {
     handleAssignRunner,
     handleMarkDelivered,
     deliveredMutation.isLoading,
+    hasPendingAction,
+    isAwaitingSubstitution,
   ]);
 
   return (
@@ -342,11 +457,38 @@ export default function MerchantOrderScreen() {
                 </Text>
               </View>
             )}
+            {order?.auto_accepted_rule ? (
+              <Text className="text-gray-500 text-xs mt-1">
+                {t('merchant.orders.autoAcceptedBy', { rule: order.auto_accepted_rule })}
+              </Text>
+            ) : null}
+            {order?.status === 'cancelled' && (order.cancellation_reason_code || order.cancellation_reason) ? (
+              <Text className="text-red-600 text-xs mt-1">
+                {order.cancelled_by ? `${t(`orders.cancelledBy.${order.cancelled_by}`)} · ` : ''}
+                {order.cancellation_reason_code
+                  ? t(`orders.cancellationReasons.${order.cancellation_reason_code}`)
+                  : order.cancellation_reason}
+                {order.cancellation_reason_code && order.cancellation_reason ? ` – ${order.cancellation_reason}` : ''}
+              </Text>
+            ) : null}
           </View>
-          <View className="w-9 h-9" />
+          {order ? (
+            <TouchableOpacity
+              onPress={() => setIsSlipModalVisible(true)}
+              className="px-3 h-9 rounded-full bg-gray-100 items-center justify-center"
+            >
+              <Text className="text-gray-700 text-sm font-semibold">{t('merchant.orders.receipt.print')}</Text>
+            </TouchableOpacity>
+          ) : (
+            <View className="w-9 h-9" />
+          )}
         </View>
       </View>
 
+      {queuedActions.map((action) => (
+        <QueuedActionBanner key={action.id} action={action} onDismiss={dismissQueuedAction} />
+      ))}
+
       {isLoadingOrder ? (
         <View className="flex-1 items-center justify-center">
           <ActivityIndicator size="large" color="#3B82F6" />
@@ -446,13 +588,38 @@ export default function MerchantOrderScreen() {
                 >
                   <View className="flex-1">
                     <Text className="text-gray-900 text-base font-medium">
-                      {item.quantity} × {item.item_name}
+                      {formatOrderItemQuantity(item)} × {item.item_name}
+                      {item.variant_name ? ` (${item.variant_name})` : ''}
                     </Text>
+                    {item.weighed_quantity != null ? (
+                      <Text className="text-gray-500 text-xs mt-0.5">
+                        {t('merchant.orders.orderedQuantity', {
+                          quantity: formatOrderItemQuantity({ ...item, weighed_quantity: null }),
+                        })}
+                      </Text>
+                    ) : null}
+                    {item.unit && canWeighItems ? (
+                      <TouchableOpacity onPress={() => setWeighingItem(item)} className="mt-1 self-start">
+                        <Text className="text-blue-600 text-xs font-semibold">
+                          {item.weighed_quantity != null
+                            ? t('merchant.orders.changeWeight')
+                            : t('merchant.orders.enterWeight')}
+                        </Text>
+                      </TouchableOpacity>
+                    ) : null}
                     {item.item_description && (
                       <Text className="text-gray-500 text-xs mt-0.5">
                         {item.item_description}
                       </Text>
                     )}
+                    <ItemPackingDetails
+                      item={item}
+                      editable={canPackItems}
+                      onSetPacking={(status) => handleSetPacking(item, status)}
+                      onMarkShort={() => setShortItem(item)}
+                      onOfferSubstitute={() => setSubstitutingItem(item)}
+                      onWithdrawSubstitute={() => handleWithdrawSubstitution(item)}
+                    />
                   </View>
                   <Text className="text-gray-900 text-base font-semibold ml-2">
                     {formatPrice(item.subtotal_cents)}
@@ -539,12 +706,15 @@ export default function MerchantOrderScreen() {
                   runnerId: string;
                   shopId?: string;
                 },
-              ) => Promise<{ success: boolean; message?: string }>)({
+              ) => Promise<{ success: boolean; message?: string; queued?: boolean }>)({
                 orderId: order.id,
                 runnerId,
                 shopId,
               });
-              if (result?.success) {
+              if (result?.queued) {
+                setIsRunnerModalVisible(false);
+                showQueuedNotice();
+              } else if (result?.success) {
                 await refetch();
                 Alert.alert(t('merchant.orders.success'), t('merchant.orders.assignSuccess'));
                 setIsRunnerModalVisible(false);
@@ -565,39 +735,213 @@ export default function MerchantOrderScreen() {
           isAssigning={assignRunnerMutation.isLoading}
         />
       )}
+
+      <WeighItemModal
+        item={weighingItem}
+        onClose={() => setWeighingItem(null)}
+        onSubmit={handleRecordWeight}
+        isSaving={weighMutation.isLoading}
+      />
+
+      <ShortItemModal
+        item={shortItem}
+        onClose={() => setShortItem(null)}
+        onSubmit={(packedQuantity) => shortItem && handleSetPacking(shortItem, 'short', packedQuantity)}
+        isSaving={packingMutation.isLoading}
+      />
+
+      <SubstitutionPickerModal
+        shopId={shopId}
+        item={substitutingItem}
+        onClose={() => setSubstitutingItem(null)}
+        onSubmit={handleProposeSubstitution}
+        isSaving={proposeSubstitutionMutation.isLoading}
+      />
+
+      <OrderSlipModal
+        order={order}
+        visible={isSlipModalVisible}
+        onClose={() => setIsSlipModalVisible(false)}
+      />
+
+      <CancelOrderSheet
+        visible={isCancelSheetVisible}
+        actor="merchant"
+        isSubmitting={cancelMutation.isLoading}
+        onClose={() => setIsCancelSheetVisible(false)}
+        onSubmit={handleCancelWithReason}
+      />
     </SafeAreaView>
   );
 }
 
-interface RunnerSelectionModalProps {
-  visible: boolean;
-  shopId: string;
+interface QueuedActionBannerProps {
+  action: QueuedOrderAction;
+  onDismiss: (id: string) => void;
+}
+
+function QueuedActionBanner({ action, onDismiss }: QueuedActionBannerProps) {
+  const { t } = useTranslation();
+  const label = t(`merchant.orders.queuedActions.${action.type}`);
+
+  const tone =
+    action.status === 'pending'
+      ? { container: 'bg-amber-50 border-amber-200', text: 'text-amber-800' }
+      : action.status === 'synced'
+      ? { container: 'bg-green-50 border-green-200', text: 'text-green-800' }
+      : { container: 'bg-red-50 border-red-200', text: 'text-red-700' };
+
+  const message =
+    action.status === 'pending'
+      ? t('merchant.orders.actionPending', { action: label })
+      : action.status === 'synced'
+      ? t('merchant.orders.actionSynced', { action: label })
+      : t('merchant.orders.actionFailed', { action: label, message: action.error ?? '' });
+
+  return (
+    <View className={`mx-4 mt-3 px-4 py-3 rounded-xl border flex-row items-center ${tone.container}`}>
+      {action.status === 'pending' && <ActivityIndicator size="small" color="#92400E" />}
+      <Text className={`flex-1 text-sm ${tone.text} ${action.status === 'pending' ? 'ml-3' : ''}`}>
+        {message}
+      </Text>
+      {action.status !== 'pending' && (
+        <TouchableOpacity onPress={() => onDismiss(action.id)} className="ml-3">
+          <Text className={`text-sm font-semibold ${tone.text}`}>{t('merchant.orders.dismiss')}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+interface ItemPackingDetailsProps {
+  item: OrderItem;
+  editable: boolean;
+  onSetPacking: (status: OrderItemPackingStatus | null) => void;
+  onMarkShort: () => void;
+  onOfferSubstitute: () => void;
+  onWithdrawSubstitute: () => void;
+}
+
+const PACKING_OPTIONS: OrderItemPackingStatus[] = ['packed', 'short', 'unavailable'];
+
+function ItemPackingDetails({
+  item,
+  editable,
+  onSetPacking,
+  onMarkShort,
+  onOfferSubstitute,
+  onWithdrawSubstitute,
+}: ItemPackingDetailsProps) {
+  const { t } = useTranslation();
+  const substitution = item.substitution;
+  const isMissing = item.packing_status === 'short' || item.packing_status === 'unavailable';
+  // Items sold by weight are weighed rather than marked short.
+  const options = item.unit ? PACKING_OPTIONS.filter((option) => option !== 'short') : PACKING_OPTIONS;
+
+  const substitutionTone =
+    substitution?.status === 'accepted'
+      ? 'text-green-700'
+      : substitution?.status === 'rejected'
+      ? 'text-red-600'
+      : 'text-amber-700';
+
+  return (
+    <View>
+      {item.packing_status === 'short' && item.packed_quantity != null ? (
+        <Text className="text-amber-700 text-xs mt-1">
+          {t('merchant.orders.packing.shortSummary', {
+            packed: formatQuantity(item.packed_quantity, item.unit),
+            ordered: formatQuantity(item.quantity, item.unit),
+          })}
+        </Text>
+      ) : item.packing_status === 'unavailable' ? (
+        <Text className="text-red-600 text-xs mt-1">{t('merchant.orders.packing.unavailableSummary')}</Text>
+      ) : null}
+
+      {substitution ? (
+        <View className="mt-1">
+          <Text className="text-gray-700 text-xs">
+            {t('merchant.orders.packing.substituteLine', {
+              quantity: formatQuantity(substitution.quantity, substitution.unit),
+              name: substitution.item_name,
+              amount: formatPrice(substitution.subtotal_cents),
+            })}
+          </Text>
+          <Text className={`text-xs font-semibold ${substitutionTone}`}>
+            {t(`merchant.orders.packing.substitutionStatus.${substitution.status}`)}
+          </Text>
+        </View>
+      ) : null}
+
+      {editable ? (
+        <View className="flex-row flex-wrap mt-2">
+          {options.map((option) => {
+            const isActive = item.packing_status === option;
+            return (
+              <TouchableOpacity
+                key={option}
+                onPress={() => {
+                  if (isActive) onSetPacking(null);
+                  else if (option === 'short') onMarkShort();
+                  else onSetPacking(option);
+                }}
+                className={`px-3 py-1 rounded-full mr-2 mb-1 border ${
+                  isActive ? 'bg-blue-600 border-blue-600' : 'bg-white border-gray-300'
+                }`}
+                activeOpacity={0.7}
+              >
+                <Text className={`text-xs font-semibold ${isActive ? 'text-white' : 'text-gray-700'}`}>
+                  {option === 'packed' && isActive ? '✓ ' : ''}
+                  {t(`merchant.orders.packing.${option}`)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+          {isMissing ? (
+            <TouchableOpacity
+              onPress={substitution ? onWithdrawSubstitute : onOfferSubstitute}
+              className="px-3 py-1 mb-1 self-center"
+            >
+              <Text className="text-blue-600 text-xs font-semibold">
+                {substitution
+                  ? t('merchant.orders.packing.withdrawSubstitute')
+                  : t('merchant.orders.packing.offerSubstitute')}
+              </Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+interface ShortItemModalProps {
+  item: OrderItem | null;
   onClose: () => void;
-  onSelect: (runnerId: string) => void;
-  isAssigning: boolean;
+  onSubmit: (packedQuantity: number) => void;
+  isSaving: boolean;
 }
 
-function RunnerSelectionModal({
-  visible,
-  shopId,
-  onClose,
-  onSelect,
-  isAssigning,
-}: RunnerSelectionModalProps) {
+function ShortItemModal({ item, onClose, onSubmit, isSaving }: ShortItemModalProps) {
   const { t } = useTranslation();
-  const { data: runners, isLoading } = useDeliveryRunners(shopId);
+  const [value, setValue] = useState('');
+
+  const packedQuantity = parseInt(value, 10);
+  const isValid = item !== null && Number.isInteger(packedQuantity) && packedQuantity > 0 && packedQuantity < item.quantity;
+  const previewCents = item && isValid ? item.item_price_cents * packedQuantity : null;
 
   return (
     <Modal
-      visible={visible}
+      visible={item !== null}
       animationType="slide"
       presentationStyle="pageSheet"
       onRequestClose={onClose}
+      onShow={() => setValue(item?.packed_quantity != null ? String(item.packed_quantity) : '')}
     >
       <View className="flex-1 bg-gray-50">
         <View className="bg-white border-b border-gray-200 px-4 py-4">
           <View className="flex-row items-center justify-between">
-            <Text className="text-gray-900 text-lg font-bold">{t('merchant.orders.selectRunner')}</Text>
+            <Text className="text-gray-900 text-lg font-bold">{t('merchant.orders.packing.shortTitle')}</Text>
             <TouchableOpacity
               onPress={onClose}
               className="w-8 h-8 rounded-full bg-gray-100 items-center justify-center"
@@ -607,71 +951,125 @@ function RunnerSelectionModal({
           </View>
         </View>
 
-        {isLoading ? (
-          <View className="flex-1 items-center justify-center">
-            <ActivityIndicator size="large" color="#3B82F6" />
-          </View>
-        ) : !runners || runners.length === 0 ? (
-          <View className="flex-1 items-center justify-center p-8">
-            <Text className="text-gray-600 text-center">
-              {t('merchant.orders.noRunners')}
+        {item && (
+          <View className="p-4">
+            <Text className="text-gray-900 text-base font-semibold">{item.item_name}</Text>
+            <Text className="text-gray-600 text-sm mt-1">
+              {t('merchant.orders.orderedQuantity', { quantity: formatOrderItemQuantity(item) })}
             </Text>
+            <TextInput
+              value={value}
+              onChangeText={(text) => {
+                if (/^\d*$/.test(text)) {
+                  setValue(text);
+                }
+              }}
+              keyboardType="number-pad"
+              autoFocus
+              className="mt-4 bg-white border border-gray-200 rounded-xl px-4 py-3 text-base text-gray-900"
+              placeholder="0"
+            />
+            {previewCents !== null && (
+              <Text className="text-gray-600 text-sm mt-3">
+                {t('merchant.orders.weighedSubtotal', { amount: formatPrice(previewCents) })}
+              </Text>
+            )}
+            <TouchableOpacity
+              className={`mt-6 h-12 rounded-xl items-center justify-center ${isValid ? 'bg-blue-600' : 'bg-gray-300'}`}
+              onPress={() => onSubmit(packedQuantity)}
+              disabled={!isValid || isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text className="text-white text-base font-semibold">{t('merchant.orders.packing.saveShort')}</Text>
+              )}
+            </TouchableOpacity>
           </View>
-        ) : (
-          <ScrollView className="flex-1" contentContainerStyle={{ padding: 16 }}>
-            {runners.map((runner) => (
-              <TouchableOpacity
-                key={runner.id}
-                onPress={() => onSelect(runner.id)}
-                disabled={isAssigning}
-                className="bg-white rounded-xl p-4 mb-3 border border-gray-200"
-                activeOpacity={0.7}
-              >
-                <View className="flex-row items-center justify-between">
-                  <View className="flex-1">
-                    <Text className="text-gray-900 text-base font-semibold">
-                      {runner.name}
-                    </Text>
-                    <Text className="text-gray-600 text-sm mt-0.5">
-                      {runner.phone_number}
-                    </Text>
-                    <View className="mt-2">
-                      {runner.is_available ? (
-                        <View className="px-2 py-1 bg-green-100 rounded-full self-start">
-                          <Text className="text-green-700 text-xs font-semibold">
-                            ✓ {t('merchant.orders.free')}
-                          </Text>
-                        </View>
-                      ) : (
-                        <View className="px-2 py-1 bg-orange-100 rounded-full self-start">
-                          <Text className="text-orange-700 text-xs font-semibold">
-                            🚚 {t('merchant.orders.delivering', { orderNumber: runner.current_order_number })}
-                          </Text>
-                        </View>
-                      )}
-                    </View>
-                  </View>
-                  <View className="w-8 h-8 rounded-full bg-blue-100 items-center justify-center ml-3">
-                    <Text className="text-blue-600 text-lg">→</Text>
-                  </View>
-                </View>
-              </TouchableOpacity>
-            ))}
-          </ScrollView>
         )}
+      </View>
+    </Modal>
+  );
+}
 
-        {isAssigning && (
-          <View className="absolute inset-0 bg-black/50 items-center justify-center">
-            <View className="bg-white rounded-xl p-6">
-              <ActivityIndicator size="large" color="#3B82F6" />
-              <Text className="text-gray-900 mt-4 font-semibold">
-                {t('merchant.orders.assigning')}
-              </Text>
+interface WeighItemModalProps {
+  item: OrderItem | null;
+  onClose: () => void;
+  onSubmit: (weighedQuantity: number) => void;
+  isSaving: boolean;
+}
+
+function WeighItemModal({ item, onClose, onSubmit, isSaving }: WeighItemModalProps) {
+  const { t } = useTranslation();
+  const [value, setValue] = useState('');
+
+  const weighedQuantity = parseFloat(value);
+  const isValid = Number.isFinite(weighedQuantity) && weighedQuantity > 0;
+  const previewCents = item && isValid ? Math.round(item.item_price_cents * weighedQuantity) : null;
+
+  return (
+    <Modal
+      visible={item !== null}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+      onShow={() => setValue(item ? String(item.weighed_quantity ?? item.quantity) : '')}
+    >
+      <View className="flex-1 bg-gray-50">
+        <View className="bg-white border-b border-gray-200 px-4 py-4">
+          <View className="flex-row items-center justify-between">
+            <Text className="text-gray-900 text-lg font-bold">{t('merchant.orders.enterWeight')}</Text>
+            <TouchableOpacity
+              onPress={onClose}
+              className="w-8 h-8 rounded-full bg-gray-100 items-center justify-center"
+            >
+              <Text className="text-gray-600 text-lg">✕</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {item && (
+          <View className="p-4">
+            <Text className="text-gray-900 text-base font-semibold">{item.item_name}</Text>
+            <Text className="text-gray-600 text-sm mt-1">
+              {t('merchant.orders.orderedQuantity', {
+                quantity: formatOrderItemQuantity({ ...item, weighed_quantity: null }),
+              })}
+            </Text>
+            <View className="flex-row items-center mt-4">
+              <TextInput
+                value={value}
+                onChangeText={(text) => {
+                  if (/^\d*(\.\d{0,3})?$/.test(text)) {
+                    setValue(text);
+                  }
+                }}
+                keyboardType="decimal-pad"
+                autoFocus
+                className="flex-1 bg-white border border-gray-200 rounded-xl px-4 py-3 text-base text-gray-900"
+                placeholder="0"
+              />
+              <Text className="text-gray-700 text-base font-semibold ml-3">{item.unit}</Text>
             </View>
+            {previewCents !== null && (
+              <Text className="text-gray-600 text-sm mt-3">
+                {t('merchant.orders.weighedSubtotal', { amount: formatPrice(previewCents) })}
+              </Text>
+            )}
+            <TouchableOpacity
+              className={`mt-6 h-12 rounded-xl items-center justify-center ${isValid ? 'bg-blue-600' : 'bg-gray-300'}`}
+              onPress={() => onSubmit(weighedQuantity)}
+              disabled={!isValid || isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text className="text-white text-base font-semibold">{t('merchant.orders.saveWeight')}</Text>
+              )}
+            </TouchableOpacity>
           </View>
         )}
       </View>
     </Modal>
   );
 }
-
@@ -28,6 +28,7 @@ import type { MerchantShop } from '../../../services/merchant/shopService';
 import type { DeliveryArea, LatLngLiteral } from '../../../types/delivery';
 import { useDeliveryAreas, useSaveDeliveryAreas } from '../../../hooks/merchant/useDeliveryAreas';
 import { overlapsExisting } from '../../../utils/polygons';
+import { DeliveryZoneFormSheet } from '../../../components/merchant/delivery/DeliveryZoneFormSheet';
 import ShopIcon from '../../../icons/ShopIcon';
 import GeolocateIcon from '../../../icons/GeolocateIcon';
 
@@ -39,6 +40,9 @@ type LocalArea = {
   id?: string;
   label: string;
   coordinates: LatLngLiteral[];
+  deliveryFee: number | null;
+  minimumOrderValue: number | null;
+  etaMinutes: number | null;
 };
 
 const getDefaultLabel = (index: number) => `Zone ${index + 1}`;
@@ -64,6 +68,9 @@ function normalizeAreas(areas: LocalArea[]) {
       latitude: Number(point.latitude.toFixed(6)),
       longitude: Number(point.longitude.toFixed(6)),
     })),
+    deliveryFee: area.deliveryFee,
+    minimumOrderValue: area.minimumOrderValue,
+    etaMinutes: area.etaMinutes,
   }));
 }
 
@@ -83,6 +90,7 @@ export default function ManageDeliveryAreasScreen() {
   const [hasCenteredOnShop, setHasCenteredOnShop] = useState(false);
   const [showShopCallout, setShowShopCallout] = useState(true);
   const [showShopNameLabel, setShowShopNameLabel] = useState(false);
+  const [selectedArea, setSelectedArea] = useState<LocalArea | null>(null);
 
   const mapRef = useRef<MapView | null>(null);
   const touchStartRef = useRef<{ x: number; y: number; timestamp: number } | null>(null);
@@ -130,6 +138,9 @@ export default function ManageDeliveryAreasScreen() {
       id: area.id,
       label: area.label || getDefaultLabel(index),
       coordinates: area.coordinates,
+      deliveryFee: area.deliveryFee,
+      minimumOrderValue: area.minimumOrderValue,
+      etaMinutes: area.etaMinutes,
     }));
 
     const snapshot = JSON.stringify(normalizeAreas(mapped));
@@ -286,6 +297,9 @@ export default function ManageDeliveryAreasScreen() {
           id: undefined,
           label: getDefaultLabel(prev.length),
           coordinates: editingVertices,
+          deliveryFee: null,
+          minimumOrderValue: null,
+          etaMinutes: null,
         },
       ];
       return next;
@@ -305,12 +319,24 @@ export default function ManageDeliveryAreasScreen() {
           style: 'destructive',
           onPress: () => {
             setAreas((prev) => prev.filter((item) => item !== area));
+            setSelectedArea(null);
           },
         },
       ]
     );
   }, [t]);
 
+  const handleZoneSubmit = useCallback(
+    (values: Pick<LocalArea, 'label' | 'deliveryFee' | 'minimumOrderValue' | 'etaMinutes'>) => {
+      if (!selectedArea) {
+        return;
+      }
+      setAreas((prev) => prev.map((item) => (item === selectedArea ? { ...item, ...values } : item)));
+      setSelectedArea(null);
+    },
+    [selectedArea]
+  );
+
   const handleSave = useCallback(async () => {
     if (isEditing) {
       Alert.alert(
@@ -325,6 +351,9 @@ export default function ManageDeliveryAreasScreen() {
         areas.map((area) => ({
           label: area.label,
           coordinates: area.coordinates,
+          deliveryFee: area.deliveryFee,
+          minimumOrderValue: area.minimumOrderValue,
+          etaMinutes: area.etaMinutes,
         }))
       );
 
@@ -332,6 +361,9 @@ export default function ManageDeliveryAreasScreen() {
         id: area.id,
         label: area.label || getDefaultLabel(index),
         coordinates: area.coordinates,
+        deliveryFee: area.deliveryFee,
+        minimumOrderValue: area.minimumOrderValue,
+        etaMinutes: area.etaMinutes,
       }));
 
       setAreas(nextAreas);
@@ -371,11 +403,11 @@ export default function ManageDeliveryAreasScreen() {
           if (isEditing) {
             return;
           }
-          confirmDeleteArea(area);
+          setSelectedArea(area);
         }}
       />
     );
-  }, [confirmDeleteArea, isEditing]);
+  }, [isEditing]);
 
   const handleShopMarkerPress = useCallback(() => {
     setShowShopNameLabel(true);
@@ -537,16 +569,26 @@ export default function ManageDeliveryAreasScreen() {
               {areas.map((area, index) => {
                 const zoneColor = getZoneColor(index);
                 return (
-                  <View
+                  <TouchableOpacity
                     key={area.id ? area.id : `zone-${index}`}
                     style={[styles.zoneChip, { backgroundColor: `${zoneColor}20`, borderColor: zoneColor }]}
+                    onPress={() => setSelectedArea(area)}
+                    disabled={isEditing}
+                    accessibilityRole="button"
                   >
-                    <Text style={[styles.zoneChipText, { color: zoneColor }]}>{area.label}</Text>
-                  </View>
+                    <Text style={[styles.zoneChipText, { color: zoneColor }]}>
+                      {area.deliveryFee != null
+                        ? t('merchant.delivery.manageAreas.zoneChipWithFee', { label: area.label, amount: area.deliveryFee })
+                        : area.label}
+                    </Text>
+                  </TouchableOpacity>
                 );
               })}
             </View>
           )}
+          {areas.length > 0 && !isEditing ? (
+            <Text style={styles.bottomHint}>{t('merchant.delivery.manageAreas.tapZoneToEdit')}</Text>
+          ) : null}
           {isEditing ? (
             <View style={styles.editingHint}>
               <Text style={styles.editingHintTitle}>{t('merchant.delivery.manageAreas.dropPoints')}</Text>
@@ -620,6 +662,14 @@ export default function ManageDeliveryAreasScreen() {
         </View>
       </View>
 
+      <DeliveryZoneFormSheet
+        visible={selectedArea !== null}
+        defaultZone={selectedArea}
+        onClose={() => setSelectedArea(null)}
+        onSubmit={handleZoneSubmit}
+        onDelete={selectedArea ? () => confirmDeleteArea(selectedArea) : undefined}
+      />
+
       {(isLoading || saveMutation.isLoading) && (
         <View style={styles.loadingOverlay}>
           <ActivityIndicator size="large" color="#2563eb" />
@@ -734,6 +784,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6b7280',
   },
+  bottomHint: {
+    marginTop: 8,
+    fontSize: 12,
+    color: '#6b7280',
+  },
   zoneChips: {
     flexDirection: 'row',
     flexWrap: 'wrap',
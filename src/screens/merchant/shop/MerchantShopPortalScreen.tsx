@@ -18,6 +18,7 @@ import { getCurrentOpeningStatus } from '../../../utils/shopOpeningHours';
 import type { MerchantShop } from '../../../services/merchant/shopService';
 import { getMerchantShops } from '../../../services/merchant/shopService';
 import { useAuth } from '../../../context/AuthContext';
+import { useOrderSlaAlerts } from '../../../hooks/merchant/useOrderSla';
 import ReviewsSection from './sections/ReviewsSection';
 import BackIcon from '../../../icons/BackIcon';
 
@@ -42,18 +43,21 @@ export default function MerchantShopPortalScreen() {
   const route = useRoute<Route>();
   const insets = useSafeAreaInsets();
   const { width: screenWidth } = useWindowDimensions();
-  const { shop: initialShop } = route.params;
+  const { shop: initialShop, initialTab, inventoryTab } = route.params;
   const { user } = useAuth();
 
   const [shop, setShop] = useState<MerchantShop>(initialShop);
-  const [activeTab, setActiveTab] = useState<TabKey>('dashboard');
-  const activeIndexRef = useRef(0);
+  const [activeTab, setActiveTab] = useState<TabKey>(initialTab ?? 'dashboard');
+  const activeIndexRef = useRef(Math.max(0, TABS.findIndex((tab) => tab.key === activeTab)));
   const scrollRef = useRef<ScrollView | null>(null);
   const tabScrollRef = useRef<ScrollView | null>(null);
   const tabLayoutsRef = useRef<Partial<Record<TabKey, { x: number; width: number }>>>({});
   const tabViewportWidthRef = useRef(0);
   const isProgrammaticScrollRef = useRef(false);
 
+  // SLA alerts run while the shop portal is open, whichever section is showing.
+  useOrderSlaAlerts(shop.id);
+
   const activeIndex = useMemo(() => TABS.findIndex((tab) => tab.key === activeTab), [activeTab]);
 
   // Refresh shop data periodically to get real-time opening status
@@ -165,7 +169,7 @@ export default function MerchantShopPortalScreen() {
     (tabKey: TabKey) => {
       switch (tabKey) {
         case 'inventory':
-          return <InventorySection shop={shop} />;
+          return <InventorySection shop={shop} initialTab={inventoryTab} />;
         case 'orders':
           return <OrdersSection shop={shop} />;
         case 'delivery':
@@ -194,7 +198,7 @@ export default function MerchantShopPortalScreen() {
           return <DashboardSection shop={shop} onShowOrders={() => setActiveTab('orders')} />;
       }
     },
-    [setActiveTab, shop]
+    [setActiveTab, shop, inventoryTab]
   );
 
   return (
@@ -1,10 +1,13 @@
-import React, { useMemo, useState, useEffect } from 'react';
-import { View, Text, TouchableOpacity, ScrollView, Modal, Platform, ActivityIndicator } from 'react-native';
+import React, { useMemo, useState, useEffect, useCallback } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, Modal, Platform, ActivityIndicator, Alert } from 'react-native';
 import DateTimePicker, { type DateTimePickerEvent } from '@react-native-community/datetimepicker';
 import type { MerchantShop } from '../../../../services/merchant/shopService';
 import OrdersRevenueLineChart from '../../../../components/merchant/charts/OrdersRevenueLineChart';
 import { useShopOrderTimeSeries, useShopOrderAnalytics } from '../../../../hooks/merchant/useOrders';
 import { formatDuration } from '../../../../types/orders';
+import type { TimeSeriesFilter } from '../../../../services/merchant/orderService';
+import { buildOrderExport } from '../../../../services/merchant/orderExportService';
+import { shareExportFile } from '../../../../services/merchant/exportFileService';
 import OrdersTrendIcon from '../../../../icons/OrdersTrendIcon';
 import RevenueFlowIcon from '../../../../icons/RevenueFlowIcon';
 import { getShopReviews, getShopReviewStats, ReviewWithUser } from '../../../../services/consumer/reviewService';
@@ -18,6 +21,16 @@ type DashboardSectionProps = {
 
 type RangeType = 'today' | 'yesterday' | '7_days' | '30_days' | 'all_time' | 'custom';
 
+// Map DashboardSection range to order service timeFilter
+const timeFilterMap: Record<RangeType, TimeSeriesFilter> = {
+  today: 'today',
+  yesterday: 'yesterday',
+  '7_days': '7days',
+  '30_days': '30days',
+  all_time: 'all_time',
+  custom: 'custom',
+};
+
 function normalizeCalendarDate(d: Date): Date {
   return new Date(d.getFullYear(), d.getMonth(), d.getDate(), 12, 0, 0, 0);
 }
@@ -41,6 +54,7 @@ export default function DashboardSection({ shop, onShowOrders }: DashboardSectio
   const [draftEnd, setDraftEnd] = useState<Date>(() => normalizeCalendarDate(new Date()));
   const [androidPickerField, setAndroidPickerField] = useState<'start' | 'end' | null>(null);
   const [dateError, setDateError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
 
   const minSelectableDate = useMemo(
     () => getShopMinSelectableDate(shop.created_at, normalizeCalendarDate(new Date())),
@@ -53,16 +67,6 @@ export default function DashboardSection({ shop, onShowOrders }: DashboardSectio
     }
   }, [showDatePicker]);
 
-  // Map DashboardSection range to order service timeFilter
-  const timeFilterMap: Record<RangeType, 'today' | 'yesterday' | '7days' | '30days' | 'all_time' | 'custom'> = {
-    today: 'today',
-    yesterday: 'yesterday',
-    '7_days': '7days',
-    '30_days': '30days',
-    all_time: 'all_time',
-    custom: 'custom',
-  };
-
   // Fetch real time-series data
   const { data: timeSeriesData, isLoading: isLoadingChart } = useShopOrderTimeSeries(
     shop.id,
@@ -71,6 +75,31 @@ export default function DashboardSection({ shop, onShowOrders }: DashboardSectio
     customEndDate || undefined
   );
 
+  const exportOrders = useCallback(async () => {
+    setIsExporting(true);
+    try {
+      const { data, error } = await buildOrderExport(
+        shop,
+        timeFilterMap[range],
+        customStartDate || undefined,
+        customEndDate || undefined
+      );
+      if (error || !data) {
+        Alert.alert(t('merchant.dashboardSection.export.error'), error?.message ?? t('merchant.dashboardSection.export.errorDesc'));
+        return;
+      }
+      if (data.orderCount === 0) {
+        Alert.alert(t('merchant.dashboardSection.export.title'), t('merchant.dashboardSection.export.empty'));
+        return;
+      }
+      await shareExportFile(data);
+    } catch (error: any) {
+      Alert.alert(t('merchant.dashboardSection.export.error'), error?.message ?? t('merchant.dashboardSection.export.errorDesc'));
+    } finally {
+      setIsExporting(false);
+    }
+  }, [shop, range, customStartDate, customEndDate, t]);
+
   // Fetch ALL-TIME analytics for the metrics cards (always shows all-time data, independent of chart filter)
   const { data: allTimeAnalytics, isLoading: isLoadingAllTime } = useShopOrderAnalytics(
     shop.id,
@@ -402,6 +431,14 @@ export default function DashboardSection({ shop, onShowOrders }: DashboardSectio
   };
 
   const metricCards = useMemo(() => {
+    // Stages that ran past the shop's SLA target, counted by the backend when the order moved on.
+    const timeSubtitle = (stage: 'confirmation' | 'preparation' | 'delivery') => {
+      const breaches = allTimeAnalytics?.sla_breaches?.[stage] ?? 0;
+      return breaches > 0
+        ? t('merchant.dashboardSection.metrics.avgTimeWithBreaches', { quantity: breaches })
+        : t('merchant.dashboardSection.metrics.avgTime');
+    };
+
     return [
       {
         key: 'confirmation',
@@ -415,7 +452,7 @@ export default function DashboardSection({ shop, onShowOrders }: DashboardSectio
             ? formatDuration(timeMetrics.confirmation.change)
             : null,
         changeType: timeMetrics.confirmation.changeType,
-        subtitle: t('merchant.dashboardSection.metrics.avgTime'),
+        subtitle: timeSubtitle('confirmation'),
       },
       {
         key: 'preparation',
@@ -429,7 +466,7 @@ export default function DashboardSection({ shop, onShowOrders }: DashboardSectio
             ? formatDuration(timeMetrics.preparation.change)
             : null,
         changeType: timeMetrics.preparation.changeType,
-        subtitle: t('merchant.dashboardSection.metrics.avgTime'),
+        subtitle: timeSubtitle('preparation'),
       },
       {
         key: 'delivery',
@@ -443,7 +480,7 @@ export default function DashboardSection({ shop, onShowOrders }: DashboardSectio
             ? formatDuration(timeMetrics.delivery.change)
             : null,
         changeType: timeMetrics.delivery.changeType,
-        subtitle: t('merchant.dashboardSection.metrics.avgTime'),
+        subtitle: timeSubtitle('delivery'),
       },
       {
         key: 'totalOrders',
@@ -464,6 +501,18 @@ export default function DashboardSection({ shop, onShowOrders }: DashboardSectio
       <View className="bg-white border border-gray-100 rounded-3xl p-6 shadow-md">
         <View className="flex-row items-center justify-between">
           <Text className="text-2xl font-bold text-gray-900">{t('merchant.dashboardSection.titles.summary')}</Text>
+          <TouchableOpacity
+            onPress={exportOrders}
+            disabled={isExporting}
+            accessibilityRole="button"
+            className="px-4 py-2 rounded-full border border-gray-200 bg-white"
+          >
+            {isExporting ? (
+              <ActivityIndicator size="small" color="#374151" />
+            ) : (
+              <Text className="text-sm font-semibold text-gray-700">{t('merchant.dashboardSection.export.button')}</Text>
+            )}
+          </TouchableOpacity>
         </View>
 
         <View className="mt-5 flex-row flex-wrap">
@@ -593,6 +642,39 @@ export default function DashboardSection({ shop, onShowOrders }: DashboardSectio
         </View>
       </View>
 
+      {/* Cancellations by reason and who cancelled (all time, like the metrics above) */}
+      <View className="bg-white border border-gray-100 rounded-3xl p-6 shadow-md mt-4">
+        <Text className="text-lg font-bold text-gray-900 mb-4">{t('merchant.dashboardSection.cancellations.title')}</Text>
+        {isLoadingAllTime ? (
+          <ActivityIndicator size="small" color="#3B82F6" />
+        ) : allTimeAnalytics?.cancellation_breakdown?.length ? (
+          allTimeAnalytics.cancellation_breakdown.map((entry) => (
+            <View
+              key={`${entry.reason_code}-${entry.cancelled_by ?? 'unknown'}`}
+              className="flex-row items-center justify-between py-2 border-b border-gray-100"
+            >
+              <View className="flex-row items-center flex-1 mr-3">
+                <Text className="text-sm text-gray-900 flex-shrink">
+                  {t(`orders.cancellationReasons.${entry.reason_code}`)}
+                </Text>
+                {entry.cancelled_by ? (
+                  <View className="ml-2 px-2 py-0.5 rounded-full bg-gray-100">
+                    <Text className="text-[11px] font-semibold text-gray-600">
+                      {entry.cancelled_by === 'customer'
+                        ? t('merchant.dashboardSection.cancellations.byCustomer')
+                        : t('merchant.dashboardSection.cancellations.byMerchant')}
+                    </Text>
+                  </View>
+                ) : null}
+              </View>
+              <Text className="text-sm font-semibold text-gray-900">{entry.count.toLocaleString()}</Text>
+            </View>
+          ))
+        ) : (
+          <Text className="text-sm text-gray-400">{t('merchant.dashboardSection.cancellations.empty')}</Text>
+        )}
+      </View>
+
       {/* Date Picker Modal */}
       <Modal
         visible={showDatePicker}
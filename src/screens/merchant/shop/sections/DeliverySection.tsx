@@ -1,5 +1,5 @@
 import React, { useMemo, useState } from 'react';
-import { View, Text, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { View, Text, TouchableOpacity, ActivityIndicator, Alert, Switch } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useTranslation } from 'react-i18next';
@@ -15,12 +15,21 @@ import {
 } from '../../../../hooks/merchant/useDeliveryRunners';
 import { useDeliveryLogic, useSaveDeliveryLogic } from '../../../../hooks/merchant/useDeliveryLogic';
 import type { DeliveryRunner } from '../../../../services/merchant/deliveryRunnerService';
+import type { DeliveryLogic, DeliveryLogicPayload, DistanceMode, PeakWindow } from '../../../../services/merchant/deliveryLogicService';
 import { DeliveryRunnerFormSheet } from '../../../../components/merchant/delivery/DeliveryRunnerFormSheet';
 import { DeliveryLogicFormSheet } from '../../../../components/merchant/delivery/DeliveryLogicFormSheet';
 import { DistanceLayerFormSheet } from '../../../../components/merchant/delivery/DistanceLayerFormSheet';
+import { PeakLayerFormSheet } from '../../../../components/merchant/delivery/PeakLayerFormSheet';
+import { DeliveryFeeSimulator } from '../../../../components/merchant/delivery/DeliveryFeeSimulator';
 import EditIcon from '../../../../icons/EditIcon';
 import DeleteIcon from '../../../../icons/DeleteIcon';
 
+const DISTANCE_MODE_BADGES: Record<DistanceMode, { container: string; text: string; icon: string }> = {
+  auto: { container: 'bg-purple-50', text: 'text-purple-600', icon: '🤖' },
+  custom: { container: 'bg-orange-50', text: 'text-orange-600', icon: '⚙️' },
+  road: { container: 'bg-teal-50', text: 'text-teal-600', icon: '🛣️' },
+};
+
 type DeliverySectionProps = {
   shop: MerchantShop;
 };
@@ -37,12 +46,22 @@ export default function DeliverySection({ shop }: DeliverySectionProps) {
   const [selectedRunner, setSelectedRunner] = useState<DeliveryRunner | null>(null);
   const [isLogicFormOpen, setLogicFormOpen] = useState(false);
   const [isDistanceFormOpen, setDistanceFormOpen] = useState(false);
+  const [isPeakFormOpen, setPeakFormOpen] = useState(false);
+  // Layer values previewed from the forms but not saved yet
+  const [draftValues, setDraftValues] = useState<Partial<DeliveryLogicPayload> | null>(null);
 
   const createMutation = useCreateDeliveryRunner(shop.id);
   const updateMutation = useUpdateDeliveryRunner(shop.id);
   const deleteMutation = useDeleteDeliveryRunner(shop.id);
   const saveLogicMutation = useSaveDeliveryLogic(shop.id);
 
+  const draftLogic = useMemo<DeliveryLogic | null>(
+    () => (deliveryLogic && draftValues ? { ...deliveryLogic, ...draftValues } : null),
+    [deliveryLogic, draftValues]
+  );
+  const distanceMode = deliveryLogic?.distanceMode ?? 'auto';
+  const distanceModeBadge = DISTANCE_MODE_BADGES[distanceMode];
+
   const areaSummary = useMemo(() => {
     if (!areas || areas.length === 0) {
       return {
@@ -137,12 +156,50 @@ export default function DeliverySection({ shop }: DeliverySectionProps) {
   }) => {
     try {
       await saveLogicMutation.mutateAsync(values);
+      clearDraftFields(values);
       setLogicFormOpen(false);
     } catch (error) {
       console.error('Failed to save delivery logic', error);
     }
   };
 
+  // The order value fields are required on every save, so layer forms resend what is saved
+  const getSavedOrderValueLayer = () => ({
+    minimumOrderValue: deliveryLogic?.minimumOrderValue || 200,
+    smallOrderSurcharge: deliveryLogic?.smallOrderSurcharge || 40,
+    leastOrderValue: deliveryLogic?.leastOrderValue || 100,
+    freeDeliveryThreshold: deliveryLogic?.freeDeliveryThreshold || 800,
+    freeDeliveryRadius: deliveryLogic?.freeDeliveryRadius || 1000,
+  });
+
+  // Saving one layer from its form makes that part of the draft live; the rest stays a draft
+  const clearDraftFields = (values: Partial<DeliveryLogicPayload>) => {
+    setDraftValues((prev) => {
+      if (!prev) return prev;
+      const remaining = { ...prev };
+      (Object.keys(values) as (keyof DeliveryLogicPayload)[]).forEach((key) => delete remaining[key]);
+      return Object.keys(remaining).length > 0 ? remaining : null;
+    });
+  };
+
+  const handlePreview = (values: Partial<DeliveryLogicPayload>) => {
+    setDraftValues((prev) => ({ ...prev, ...values }));
+    setLogicFormOpen(false);
+    setDistanceFormOpen(false);
+    setPeakFormOpen(false);
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draftValues) return;
+    try {
+      await saveLogicMutation.mutateAsync({ ...getSavedOrderValueLayer(), ...draftValues });
+      setDraftValues(null);
+    } catch (error) {
+      console.error('Failed to save draft delivery settings', error);
+      Alert.alert(t('merchant.delivery.simulator.saveDraftFailed'));
+    }
+  };
+
   const handleOpenDistanceForm = () => {
     setDistanceFormOpen(true);
   };
@@ -152,7 +209,7 @@ export default function DeliverySection({ shop }: DeliverySectionProps) {
   };
 
   const handleSubmitDistanceForm = async (values: {
-    distanceMode: 'auto' | 'custom';
+    distanceMode: DistanceMode;
     maxDeliveryFee: number;
     distanceTiers?: any[];
     beyondTierFeePerUnit: number;
@@ -160,20 +217,33 @@ export default function DeliverySection({ shop }: DeliverySectionProps) {
   }) => {
     try {
       // Merge with existing logic values
-      await saveLogicMutation.mutateAsync({
-        minimumOrderValue: deliveryLogic?.minimumOrderValue || 200,
-        smallOrderSurcharge: deliveryLogic?.smallOrderSurcharge || 40,
-        leastOrderValue: deliveryLogic?.leastOrderValue || 100,
-        freeDeliveryThreshold: deliveryLogic?.freeDeliveryThreshold || 800,
-        freeDeliveryRadius: deliveryLogic?.freeDeliveryRadius || 1000,
-        ...values,
-      });
+      await saveLogicMutation.mutateAsync({ ...getSavedOrderValueLayer(), ...values });
+      clearDraftFields(values);
       setDistanceFormOpen(false);
     } catch (error) {
       console.error('Failed to save distance layer settings', error);
     }
   };
 
+  const handleSubmitPeakForm = async (values: { peakWindows: PeakWindow[]; busyModeMultiplier: number }) => {
+    try {
+      await saveLogicMutation.mutateAsync({ ...getSavedOrderValueLayer(), ...values });
+      clearDraftFields(values);
+      setPeakFormOpen(false);
+    } catch (error) {
+      console.error('Failed to save peak pricing settings', error);
+    }
+  };
+
+  const handleToggleBusyMode = async (enabled: boolean) => {
+    try {
+      await saveLogicMutation.mutateAsync({ ...getSavedOrderValueLayer(), busyModeEnabled: enabled });
+    } catch (error) {
+      console.error('Failed to toggle busy mode', error);
+      Alert.alert(t('merchant.delivery.peakPricing.busyModeFailed'));
+    }
+  };
+
   return (
     <>
       <View className="bg-white border border-gray-100 rounded-3xl p-4 shadow-sm">
@@ -371,17 +441,9 @@ export default function DeliverySection({ shop }: DeliverySectionProps) {
             <View className="space-y-3">
               {/* Distance Mode Badge */}
               <View className="flex-row items-center mb-2">
-                <View className={`rounded-full px-3 py-1 ${
-                  deliveryLogic?.distanceMode === 'custom' 
-                    ? 'bg-orange-50' 
-                    : 'bg-purple-50'
-                }`}>
-                  <Text className={`text-xs font-semibold ${
-                    deliveryLogic?.distanceMode === 'custom' 
-                      ? 'text-orange-600' 
-                      : 'text-purple-600'
-                  }`}>
-                    {deliveryLogic?.distanceMode === 'custom' ? `⚙️ ${t('merchant.delivery.distanceTiering.customMode')}` : `🤖 ${t('merchant.delivery.distanceTiering.autoMode')}`}
+                <View className={`rounded-full px-3 py-1 ${distanceModeBadge.container}`}>
+                  <Text className={`text-xs font-semibold ${distanceModeBadge.text}`}>
+                    {`${distanceModeBadge.icon} ${t(`merchant.delivery.distanceTiering.${distanceMode}Mode`)}`}
                   </Text>
                 </View>
               </View>
@@ -421,6 +483,108 @@ export default function DeliverySection({ shop }: DeliverySectionProps) {
             </View>
           )}
         </View>
+
+        {/* Peak Pricing Section */}
+        <View className="mt-6 pt-6 border-t border-gray-100">
+          <View className="flex-row items-start justify-between mb-3">
+            <View className="flex-1 mr-3">
+              <Text className="text-base font-semibold text-gray-900">{t('merchant.delivery.peakPricing.title')}</Text>
+              <Text className="text-xs text-gray-500 mt-1">
+                {t('merchant.delivery.peakPricing.description')}
+              </Text>
+            </View>
+            <TouchableOpacity
+              className="rounded-full bg-blue-600 px-4 py-2"
+              onPress={() => setPeakFormOpen(true)}
+              accessibilityRole="button"
+            >
+              <Text className="text-sm font-semibold text-white">{t('merchant.delivery.peakPricing.configure')}</Text>
+            </TouchableOpacity>
+          </View>
+
+          {isLoadingLogic ? (
+            <View className="flex-row items-center">
+              <ActivityIndicator size="small" color="#2563eb" />
+              <Text className="ml-2 text-xs text-gray-500">{t('merchant.delivery.peakPricing.loadingSettings')}</Text>
+            </View>
+          ) : (
+            <View className="space-y-3">
+              {/* Busy Mode */}
+              <View
+                className={`rounded-xl p-3 border ${
+                  deliveryLogic?.busyModeEnabled ? 'bg-orange-50 border-orange-100' : 'bg-gray-50 border-gray-100'
+                }`}
+              >
+                <View className="flex-row justify-between items-center">
+                  <View className="flex-1 mr-3">
+                    <Text className="text-sm font-semibold text-gray-900">{t('merchant.delivery.peakPricing.busyMode')}</Text>
+                    <Text className="text-xs text-gray-500 mt-1">
+                      {t('merchant.delivery.peakPricing.busyModeDesc', {
+                        multiplier: (deliveryLogic?.busyModeMultiplier ?? 1.5).toFixed(2),
+                        amount: deliveryLogic?.maxDeliveryFee.toFixed(0) || '130',
+                      })}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={Boolean(deliveryLogic?.busyModeEnabled)}
+                    onValueChange={handleToggleBusyMode}
+                    disabled={saveLogicMutation.isLoading}
+                  />
+                </View>
+              </View>
+
+              {/* Peak Windows Preview */}
+              <View className="bg-gray-50 rounded-xl p-3 border border-gray-100">
+                <Text className="text-xs font-semibold text-gray-700 mb-2">{t('merchant.delivery.peakPricing.peakWindows')}</Text>
+                {deliveryLogic?.peakWindows?.length ? (
+                  <View className="space-y-1">
+                    {deliveryLogic.peakWindows.map((window, index) => (
+                      <View key={index} className="flex-row justify-between">
+                        <Text className="text-xs text-gray-600 flex-1 mr-2" numberOfLines={1}>
+                          {window.label ? `${window.label} · ` : ''}
+                          {window.start}–{window.end} ·{' '}
+                          {window.days.length === 7
+                            ? t('merchant.delivery.peakPricing.everyDay')
+                            : t('merchant.delivery.peakPricing.dayCount', { quantity: window.days.length })}
+                        </Text>
+                        <Text className="text-xs font-semibold text-gray-900">+Rs {window.fee.toFixed(0)}</Text>
+                      </View>
+                    ))}
+                  </View>
+                ) : (
+                  <Text className="text-xs text-gray-500">{t('merchant.delivery.peakPricing.noWindows')}</Text>
+                )}
+              </View>
+            </View>
+          )}
+        </View>
+
+        {/* Fee Simulator Section */}
+        <View className="mt-6 pt-6 border-t border-gray-100">
+          <View className="mb-3">
+            <Text className="text-base font-semibold text-gray-900">{t('merchant.delivery.simulator.title')}</Text>
+            <Text className="text-xs text-gray-500 mt-1">
+              {t('merchant.delivery.simulator.description')}
+            </Text>
+          </View>
+
+          {isLoadingLogic || !deliveryLogic ? (
+            <View className="flex-row items-center">
+              <ActivityIndicator size="small" color="#2563eb" />
+              <Text className="ml-2 text-xs text-gray-500">{t('merchant.delivery.simulator.loadingSettings')}</Text>
+            </View>
+          ) : (
+            <DeliveryFeeSimulator
+              shop={shop}
+              areas={areas}
+              liveLogic={deliveryLogic}
+              draftLogic={draftLogic}
+              saving={saveLogicMutation.isLoading}
+              onSaveDraft={handleSaveDraft}
+              onDiscardDraft={() => setDraftValues(null)}
+            />
+          )}
+        </View>
       </View>
 
       <DeliveryRunnerFormSheet
@@ -436,18 +600,29 @@ export default function DeliverySection({ shop }: DeliverySectionProps) {
 
       <DeliveryLogicFormSheet
         visible={isLogicFormOpen}
-        defaultLogic={deliveryLogic}
+        defaultLogic={draftLogic ?? deliveryLogic}
         loading={saveLogicMutation.isLoading}
         onClose={handleCloseLogicForm}
         onSubmit={handleSubmitLogicForm}
+        onPreview={handlePreview}
       />
 
       <DistanceLayerFormSheet
         visible={isDistanceFormOpen}
-        defaultLogic={deliveryLogic}
+        defaultLogic={draftLogic ?? deliveryLogic}
         loading={saveLogicMutation.isLoading}
         onClose={handleCloseDistanceForm}
         onSubmit={handleSubmitDistanceForm}
+        onPreview={handlePreview}
+      />
+
+      <PeakLayerFormSheet
+        visible={isPeakFormOpen}
+        defaultLogic={draftLogic ?? deliveryLogic}
+        loading={saveLogicMutation.isLoading}
+        onClose={() => setPeakFormOpen(false)}
+        onSubmit={handleSubmitPeakForm}
+        onPreview={handlePreview}
       />
     </>
   );
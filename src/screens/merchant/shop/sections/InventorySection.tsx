@@ -1,5 +1,5 @@
-import React, { useCallback, useMemo, useState } from 'react';
-import { Alert, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import type { MerchantShop } from '../../../../services/merchant/shopService';
 import { InventoryTabBar, type InventoryTab } from '../../../../components/merchant/inventory/InventoryTabBar';
 import { InventoryEmptyState } from '../../../../components/merchant/inventory/InventoryEmptyState';
@@ -11,12 +11,21 @@ import { InventoryFilterSheet } from '../../../../components/merchant/inventory/
 import { InventoryCategoryFormSheet, type InventoryCategoryFormSubmit } from '../../../../components/merchant/inventory/InventoryCategoryFormSheet';
 import { InventoryTemplatePickerSheet } from '../../../../components/merchant/inventory/InventoryTemplatePickerSheet';
 import { InventoryCategoryTemplatePickerSheet } from '../../../../components/merchant/inventory/InventoryCategoryTemplatePickerSheet';
+import { InventoryImportSheet } from '../../../../components/merchant/inventory/InventoryImportSheet';
+import { CategoryPriceChangeSheet } from '../../../../components/merchant/inventory/CategoryPriceChangeSheet';
+import { InventoryStockTakeSheet } from '../../../../components/merchant/inventory/InventoryStockTakeSheet';
+import {
+  InventoryAuditFilterSheet,
+  type InventoryAuditFilterValues,
+} from '../../../../components/merchant/inventory/InventoryAuditFilterSheet';
+import { InventoryAuditEntrySheet } from '../../../../components/merchant/inventory/InventoryAuditEntrySheet';
 import InventoryItemListSkeleton from '../../../../skeleton/InventoryItemListSkeleton';
 import InventoryCategoryListSkeleton from '../../../../skeleton/InventoryCategoryListSkeleton';
 import InventoryAuditLogSkeleton from '../../../../skeleton/InventoryAuditLogSkeleton';
-import type { InventoryAuditLogEntry } from '../../../../types/inventory';
+import type { InventoryAuditActor, InventoryAuditLogEntry } from '../../../../types/inventory';
 import {
   useInventoryItems,
+  useLowStockCount,
   useCreateInventoryItem,
   useToggleInventoryItem,
   useUpdateInventoryItem,
@@ -28,7 +37,7 @@ import {
   useUpdateInventoryCategory,
   useDeleteInventoryCategory,
 } from '../../../../hooks/merchant/useInventoryCategories';
-import { useInventoryAuditLog } from '../../../../hooks/merchant/useInventoryAuditLog';
+import { useInventoryAuditLogPages } from '../../../../hooks/merchant/useInventoryAuditLog';
 import { useInventoryTemplateCategories } from '../../../../hooks/merchant/useInventoryTemplateCategories';
 import type {
   InventoryCategory,
@@ -37,6 +46,11 @@ import type {
   InventoryTemplateCategory,
   InventoryTemplateItem,
 } from '../../../../types/inventory';
+import {
+  buildInventoryExport,
+  type InventoryExportFormat,
+} from '../../../../services/merchant/inventoryExportService';
+import { shareExportFile } from '../../../../services/merchant/exportFileService';
 import { useTranslation } from 'react-i18next';
 
 type ItemsTabProps = {
@@ -50,6 +64,8 @@ type ItemsTabProps = {
   onAddItem: () => void;
   onBrowseTemplates: () => void;
   onPromptCreateCategory: () => void;
+  onEndReached: () => void;
+  loadingMore: boolean;
   contentContainerStyle?: any;
 };
 
@@ -64,6 +80,8 @@ const ItemsTab = React.memo(function ItemsTab({
   onAddItem,
   onBrowseTemplates,
   onPromptCreateCategory,
+  onEndReached,
+  loadingMore,
   contentContainerStyle,
 }: ItemsTabProps) {
   const { t } = useTranslation();
@@ -104,17 +122,84 @@ const ItemsTab = React.memo(function ItemsTab({
       onToggleActive={onToggleActive}
       onEditItem={onEditItem}
       onViewAudit={onViewAudit}
+      onEndReached={onEndReached}
+      loadingMore={loadingMore}
       contentContainerStyle={contentContainerStyle}
     />
   );
 });
 
+type LowStockTabProps = {
+  loading: boolean;
+  error: unknown;
+  items: InventoryItem[];
+  onToggleActive: (itemId: string, nextActive: boolean) => void;
+  onEditItem: (item: InventoryItem) => void;
+  onViewAudit: (item: InventoryItem) => void;
+  onEndReached: () => void;
+  loadingMore: boolean;
+  contentContainerStyle?: any;
+};
+
+const LowStockTab = React.memo(function LowStockTab({
+  loading,
+  error,
+  items,
+  onToggleActive,
+  onEditItem,
+  onViewAudit,
+  onEndReached,
+  loadingMore,
+  contentContainerStyle,
+}: LowStockTabProps) {
+  const { t } = useTranslation();
+
+  if (loading) {
+    return <InventoryItemListSkeleton />;
+  }
+
+  if (error) {
+    return (
+      <View className="bg-red-50 border border-red-200 rounded-3xl p-5">
+        <Text className="text-sm text-red-600 font-medium">{t('merchant.inventory.common.failedToLoad')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-1">
+      <View className="mb-4">
+        <Text className="text-sm text-gray-500">{t('merchant.inventory.lowStock.description')}</Text>
+      </View>
+      {items.length === 0 ? (
+        <View className="bg-white border border-gray-100 rounded-3xl p-6">
+          <Text className="text-base font-semibold text-gray-900">{t('merchant.inventory.lowStock.emptyTitle')}</Text>
+          <Text className="text-sm text-gray-500 mt-2">{t('merchant.inventory.lowStock.emptyDesc')}</Text>
+        </View>
+      ) : (
+        <View className="flex-1">
+          <InventoryList
+            items={items}
+            onToggleActive={onToggleActive}
+            onEditItem={onEditItem}
+            onViewAudit={onViewAudit}
+            onEndReached={onEndReached}
+            loadingMore={loadingMore}
+            contentContainerStyle={contentContainerStyle}
+          />
+        </View>
+      )}
+    </View>
+  );
+});
+
 type CategoriesTabProps = {
   loading: boolean;
   categories: InventoryCategory[];
   onAddCategory: () => void;
   onBrowseTemplateCategories: () => void;
   onEditCategory: (category: InventoryCategory) => void;
+  onAdjustPrices: (category: InventoryCategory) => void;
   contentContainerStyle?: any;
 };
 
@@ -124,6 +209,7 @@ const CategoriesTab = React.memo(function CategoriesTab({
   onAddCategory,
   onBrowseTemplateCategories,
   onEditCategory,
+  onAdjustPrices,
   contentContainerStyle,
 }: CategoriesTabProps) {
   const { t } = useTranslation();
@@ -159,6 +245,7 @@ const CategoriesTab = React.memo(function CategoriesTab({
         <InventoryCategoryList
           categories={categories}
           onEditCategory={onEditCategory}
+          onAdjustPrices={onAdjustPrices}
           contentContainerStyle={contentContainerStyle}
         />
       </View>
@@ -172,6 +259,11 @@ type AuditTabProps = {
   items: InventoryItem[];
   filteredItem: InventoryItem | null;
   onClearItemFilter: () => void;
+  activeFilterCount: number;
+  onOpenFilters: () => void;
+  onSelectEntry: (entry: InventoryAuditLogEntry) => void;
+  onEndReached: () => void;
+  loadingMore: boolean;
   contentContainerStyle?: any;
 };
 
@@ -181,6 +273,11 @@ const AuditTab = React.memo(function AuditTab({
   items,
   filteredItem,
   onClearItemFilter,
+  activeFilterCount,
+  onOpenFilters,
+  onSelectEntry,
+  onEndReached,
+  loadingMore,
   contentContainerStyle,
 }: AuditTabProps) {
   const { t } = useTranslation();
@@ -204,10 +301,20 @@ const AuditTab = React.memo(function AuditTab({
           </View>
         </View>
       ) : null}
-      <View className="mb-4">
-        <Text className="text-sm text-gray-500">
+      <View className="mb-4 flex-row items-center justify-between">
+        <Text className="flex-1 text-sm text-gray-500 pr-3">
           {t('merchant.inventory.common.transparencyLog')}
         </Text>
+        <TouchableOpacity
+          className={`px-3 py-2 rounded-xl border ${activeFilterCount > 0 ? 'bg-blue-50 border-blue-200' : 'bg-white border-gray-200'}`}
+          onPress={onOpenFilters}
+        >
+          <Text className={`text-xs font-semibold ${activeFilterCount > 0 ? 'text-blue-600' : 'text-gray-600'}`}>
+            {activeFilterCount > 0
+              ? t('merchant.inventory.audit.filter.buttonActive', { count: activeFilterCount })
+              : t('merchant.inventory.audit.filter.button')}
+          </Text>
+        </TouchableOpacity>
       </View>
       <View className="flex-1">
         {loading ? (
@@ -216,6 +323,9 @@ const AuditTab = React.memo(function AuditTab({
           <InventoryAuditLogList
             entries={entries}
             items={items}
+            onSelectEntry={onSelectEntry}
+            onEndReached={onEndReached}
+            loadingMore={loadingMore}
             contentContainerStyle={contentContainerStyle}
           />
         )}
@@ -226,6 +336,7 @@ const AuditTab = React.memo(function AuditTab({
 
 type InventorySectionProps = {
   shop: MerchantShop;
+  initialTab?: InventoryTab;
 };
 
 const initialFilters: InventoryListParams = {
@@ -234,9 +345,11 @@ const initialFilters: InventoryListParams = {
   categoryIds: [],
 };
 
-export default function InventorySection({ shop }: InventorySectionProps) {
+const lowStockParams: InventoryListParams = { lowStock: true };
+
+export default function InventorySection({ shop, initialTab = 'items' }: InventorySectionProps) {
   const { t } = useTranslation();
-  const [activeTab, setActiveTab] = useState<InventoryTab>('items');
+  const [activeTab, setActiveTab] = useState<InventoryTab>(initialTab);
   const [search, setSearch] = useState('');
   const [filters, setFilters] = useState<InventoryListParams>(initialFilters);
   const [isFilterOpen, setFilterOpen] = useState(false);
@@ -249,12 +362,21 @@ export default function InventorySection({ shop }: InventorySectionProps) {
   const [selectedCategory, setSelectedCategory] = useState<InventoryCategory | null>(null);
   const [isTemplatePickerOpen, setTemplatePickerOpen] = useState(false);
   const [isCategoryTemplatePickerOpen, setCategoryTemplatePickerOpen] = useState(false);
+  const [isImportOpen, setImportOpen] = useState(false);
+  const [isStockTakeOpen, setStockTakeOpen] = useState(false);
+  const [priceChangeCategory, setPriceChangeCategory] = useState<InventoryCategory | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
   const [isItemSubmitting, setIsItemSubmitting] = useState(false);
   const [isItemDeleting, setIsItemDeleting] = useState(false);
   const [isCategorySubmitting, setIsCategorySubmitting] = useState(false);
   const [isCategoryDeleting, setIsCategoryDeleting] = useState(false);
   /** When set, audit log API is scoped to this item (from "Audit" on item card). Cleared by chip or when leaving the audit tab. */
   const [auditFilterItem, setAuditFilterItem] = useState<InventoryItem | null>(null);
+  const [auditFilters, setAuditFilters] = useState<InventoryAuditFilterValues>({});
+  const [isAuditFilterOpen, setAuditFilterOpen] = useState(false);
+  const [selectedAuditEntry, setSelectedAuditEntry] = useState<InventoryAuditLogEntry | null>(null);
+  const [isReverting, setIsReverting] = useState(false);
+  const [knownAuditActors, setKnownAuditActors] = useState<InventoryAuditActor[]>([]);
 
   const listParams = useMemo(() => ({ ...filters, search }), [filters, search]);
 
@@ -264,8 +386,38 @@ export default function InventorySection({ shop }: InventorySectionProps) {
   const categories = categoriesData ?? [];
   const canCreateItems = categories.length > 0;
 
-  const { data: itemsResponse, isLoading: itemsLoading, error: itemsError } = useInventoryItems(shop.id, listParams);
-  const items = itemsResponse?.items ?? [];
+  const {
+    data: itemsResponse,
+    isLoading: itemsLoading,
+    error: itemsError,
+    hasNextPage: hasMoreItems,
+    isFetchingNextPage: isFetchingMoreItems,
+    fetchNextPage: fetchMoreItems,
+  } = useInventoryItems(shop.id, listParams);
+  const items = useMemo(() => itemsResponse?.pages.flatMap((page) => page.items) ?? [], [itemsResponse]);
+
+  const {
+    data: lowStockResponse,
+    isLoading: lowStockLoading,
+    error: lowStockError,
+    hasNextPage: hasMoreLowStock,
+    isFetchingNextPage: isFetchingMoreLowStock,
+    fetchNextPage: fetchMoreLowStock,
+  } = useInventoryItems(shop.id, lowStockParams);
+  const lowStockItems = useMemo(() => lowStockResponse?.pages.flatMap((page) => page.items) ?? [], [lowStockResponse]);
+  const { data: lowStockCount } = useLowStockCount(shop.id);
+
+  const handleItemsEndReached = useCallback(() => {
+    if (hasMoreItems && !isFetchingMoreItems) {
+      fetchMoreItems();
+    }
+  }, [hasMoreItems, isFetchingMoreItems, fetchMoreItems]);
+
+  const handleLowStockEndReached = useCallback(() => {
+    if (hasMoreLowStock && !isFetchingMoreLowStock) {
+      fetchMoreLowStock();
+    }
+  }, [hasMoreLowStock, isFetchingMoreLowStock, fetchMoreLowStock]);
 
   const createItemMutation = useCreateInventoryItem(shop.id, listParams);
   const updateItemMutation = useUpdateInventoryItem(shop.id, listParams);
@@ -275,11 +427,49 @@ export default function InventorySection({ shop }: InventorySectionProps) {
   const auditLogFilters = useMemo(
     () => ({
       limit: 50,
+      ...auditFilters,
       ...(auditFilterItem ? { merchantItemId: auditFilterItem.id } : {}),
     }),
-    [auditFilterItem]
+    [auditFilterItem, auditFilters]
+  );
+  const {
+    data: auditLogResponse,
+    isLoading: auditLoading,
+    hasNextPage: hasMoreAudit,
+    isFetchingNextPage: isFetchingMoreAudit,
+    fetchNextPage: fetchMoreAudit,
+  } = useInventoryAuditLogPages(shop.id, auditLogFilters);
+  const auditEntries = useMemo(
+    () => auditLogResponse?.pages.flatMap((page) => page.entries) ?? [],
+    [auditLogResponse]
   );
-  const { data: auditLogData, isLoading: auditLoading } = useInventoryAuditLog(shop.id, auditLogFilters);
+
+  const handleAuditEndReached = useCallback(() => {
+    if (hasMoreAudit && !isFetchingMoreAudit) {
+      fetchMoreAudit();
+    }
+  }, [hasMoreAudit, isFetchingMoreAudit, fetchMoreAudit]);
+  const activeAuditFilterCount =
+    (auditFilters.actionTypes?.length ? 1 : 0) +
+    (auditFilters.actorIds?.length ? 1 : 0) +
+    (auditFilters.field ? 1 : 0) +
+    (auditFilters.dateFrom || auditFilters.dateTo ? 1 : 0);
+
+  // Remember every actor seen so far so the filter sheet still offers them once a filter narrows the list.
+  useEffect(() => {
+    if (auditEntries.length === 0) {
+      return;
+    }
+    setKnownAuditActors((prev) => {
+      const next = [...prev];
+      auditEntries.forEach((entry) => {
+        if (!next.some((actor) => actor.id === entry.actor.id)) {
+          next.push(entry.actor);
+        }
+      });
+      return next.length === prev.length ? prev : next;
+    });
+  }, [auditEntries]);
   const templateCategoriesQuery = useInventoryTemplateCategories();
   const templateCategories = templateCategoriesQuery.data ?? [];
   const templateCategoriesLoading = templateCategoriesQuery.isLoading;
@@ -313,7 +503,13 @@ export default function InventorySection({ shop }: InventorySectionProps) {
           barcode: values.barcode,
           imageUrl: values.imageUrl,
           priceCents: values.priceCents,
+          unit: values.unit,
+          quantityStep: values.quantityStep,
           isActive: values.isActive,
+          trackStock: values.trackStock,
+          stockQuantity: values.stockQuantity,
+          reorderThreshold: values.reorderThreshold,
+          variants: values.variants,
           categoryIds: values.categoryIds ?? [],
         });
         setFormOpen(false);
@@ -328,13 +524,27 @@ export default function InventorySection({ shop }: InventorySectionProps) {
     if (selectedItem) {
       setIsItemSubmitting(true);
       setIsItemDeleting(false);
+      // Orders may have reserved stock since the form opened, so a tracked item's edit is sent as the change the
+      // merchant made rather than the number in the form. Untracked items are not reserved and can be set outright.
+      const stockEdit =
+        values.trackStock && values.stockQuantity !== selectedItem.stockQuantity
+          ? selectedItem.trackStock
+            ? { stockAdjustment: Math.round((values.stockQuantity - selectedItem.stockQuantity) * 1000) / 1000 }
+            : { stockQuantity: values.stockQuantity }
+          : {};
       try {
         await updateItemMutation.mutateAsync({
           itemId: selectedItem.id,
           updates: {
             description: values.description,
             priceCents: values.priceCents,
+            unit: values.unit,
+            quantityStep: values.quantityStep,
             isActive: values.isActive,
+            trackStock: values.trackStock,
+            ...stockEdit,
+            reorderThreshold: values.trackStock ? values.reorderThreshold : undefined,
+            variants: values.variants,
             categoryIds: values.categoryIds,
             imageUrl: values.imageUrl,
           },
@@ -534,6 +744,20 @@ export default function InventorySection({ shop }: InventorySectionProps) {
     setAuditFilterItem(null);
   }, []);
 
+  const handleRevertAuditEntry = useCallback(
+    async (entry: InventoryAuditLogEntry, updates: Parameters<typeof updateItemMutation.mutateAsync>[0]['updates']) => {
+      setIsReverting(true);
+      try {
+        await updateItemMutation.mutateAsync({ itemId: entry.merchantItemId, updates });
+        setSelectedAuditEntry(null);
+        Alert.alert(t('merchant.inventory.audit.diff.revertedTitle'), t('merchant.inventory.audit.diff.revertedDesc'));
+      } finally {
+        setIsReverting(false);
+      }
+    },
+    [updateItemMutation, t]
+  );
+
   const handleInventoryTabChange = useCallback(
     (tab: InventoryTab) => {
       if (activeTab === 'audit' && tab !== 'audit') {
@@ -544,6 +768,33 @@ export default function InventorySection({ shop }: InventorySectionProps) {
     [activeTab]
   );
 
+  const exportInventory = useCallback(
+    async (format: InventoryExportFormat) => {
+      setIsExporting(true);
+      try {
+        const { data, error } = await buildInventoryExport(shop, format);
+        if (error || !data) {
+          Alert.alert(t('merchant.inventory.export.error'), error?.message ?? t('merchant.inventory.export.errorDesc'));
+          return;
+        }
+        await shareExportFile(data);
+      } catch (error: any) {
+        Alert.alert(t('merchant.inventory.export.error'), error?.message ?? t('merchant.inventory.export.errorDesc'));
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [shop, t]
+  );
+
+  const promptExport = useCallback(() => {
+    Alert.alert(t('merchant.inventory.export.title'), t('merchant.inventory.export.chooseFormat'), [
+      { text: t('merchant.inventory.common.cancel'), style: 'cancel' },
+      { text: t('merchant.inventory.export.csv'), onPress: () => exportInventory('csv') },
+      { text: t('merchant.inventory.export.json'), onPress: () => exportInventory('json') },
+    ]);
+  }, [exportInventory, t]);
+
   const openCreateItem = useCallback(() => {
     handleOpenCreate(null);
   }, [handleOpenCreate]);
@@ -553,7 +804,11 @@ export default function InventorySection({ shop }: InventorySectionProps) {
   return (
     <View className="flex-1 space-y-6 px-5 pt-6">
       <View className="space-y-4">
-        <InventoryTabBar activeTab={activeTab} onTabChange={handleInventoryTabChange} />
+        <InventoryTabBar
+          activeTab={activeTab}
+          onTabChange={handleInventoryTabChange}
+          badges={{ low_stock: lowStockCount ?? 0 }}
+        />
 
         {activeTab === 'items' ? (
           <View className="space-y-4 pt-4">
@@ -582,6 +837,33 @@ export default function InventorySection({ shop }: InventorySectionProps) {
                 <Text className="text-gray-700 font-semibold">{t('merchant.inventory.common.chooseTemplate')}</Text>
               </TouchableOpacity>
             </View>
+            <View className="flex-row space-x-3">
+              <TouchableOpacity
+                className="flex-1 bg-white border border-gray-200 h-12 rounded-xl items-center justify-center"
+                onPress={() => setImportOpen(true)}
+                disabled={itemsOrCategoriesLoading || !canCreateItems}
+              >
+                <Text className="text-gray-700 font-semibold">{t('merchant.inventory.import.openButton')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                className="flex-1 bg-white border border-gray-200 h-12 rounded-xl items-center justify-center"
+                onPress={promptExport}
+                disabled={itemsOrCategoriesLoading || isExporting || items.length === 0}
+              >
+                {isExporting ? (
+                  <ActivityIndicator color="#374151" />
+                ) : (
+                  <Text className="text-gray-700 font-semibold">{t('merchant.inventory.export.openButton')}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+            <TouchableOpacity
+              className="bg-white border border-gray-200 h-12 rounded-xl items-center justify-center"
+              onPress={() => setStockTakeOpen(true)}
+              disabled={itemsOrCategoriesLoading}
+            >
+              <Text className="text-gray-700 font-semibold">{t('merchant.inventory.stockTake.openButton')}</Text>
+            </TouchableOpacity>
           </View>
         ) : null}
       </View>
@@ -599,6 +881,22 @@ export default function InventorySection({ shop }: InventorySectionProps) {
             onAddItem={openCreateItem}
             onBrowseTemplates={openTemplatePicker}
             onPromptCreateCategory={promptCreateCategory}
+            onEndReached={handleItemsEndReached}
+            loadingMore={isFetchingMoreItems}
+            contentContainerStyle={{ paddingBottom: 100 }}
+          />
+        ) : null}
+
+        {activeTab === 'low_stock' ? (
+          <LowStockTab
+            loading={lowStockLoading}
+            error={lowStockError}
+            items={lowStockItems}
+            onToggleActive={handleToggleActive}
+            onEditItem={handleEditItem}
+            onViewAudit={handleViewAudit}
+            onEndReached={handleLowStockEndReached}
+            loadingMore={isFetchingMoreLowStock}
             contentContainerStyle={{ paddingBottom: 100 }}
           />
         ) : null}
@@ -610,6 +908,7 @@ export default function InventorySection({ shop }: InventorySectionProps) {
             onAddCategory={openCategoryForm}
             onBrowseTemplateCategories={openCategoryTemplatePicker}
             onEditCategory={editCategory}
+            onAdjustPrices={setPriceChangeCategory}
             contentContainerStyle={{ paddingBottom: 100 }}
           />
         ) : null}
@@ -617,10 +916,15 @@ export default function InventorySection({ shop }: InventorySectionProps) {
         {activeTab === 'audit' ? (
           <AuditTab
             loading={auditLoading}
-            entries={auditLogData?.entries ?? []}
+            entries={auditEntries}
             items={items}
             filteredItem={auditFilterItem}
             onClearItemFilter={handleClearAuditItemFilter}
+            activeFilterCount={activeAuditFilterCount}
+            onOpenFilters={() => setAuditFilterOpen(true)}
+            onSelectEntry={setSelectedAuditEntry}
+            onEndReached={handleAuditEndReached}
+            loadingMore={isFetchingMoreAudit}
             contentContainerStyle={{ paddingBottom: 100 }}
           />
         ) : null}
@@ -689,6 +993,41 @@ export default function InventorySection({ shop }: InventorySectionProps) {
         existingCategoryTemplateIds={existingCategoryTemplateIds}
         loading={templateCategoriesLoading}
       />
+
+      <InventoryImportSheet visible={isImportOpen} shopId={shop.id} onClose={() => setImportOpen(false)} />
+
+      <InventoryStockTakeSheet
+        visible={isStockTakeOpen}
+        shopId={shop.id}
+        categories={categories}
+        onClose={() => setStockTakeOpen(false)}
+      />
+
+      <InventoryAuditFilterSheet
+        visible={isAuditFilterOpen}
+        onClose={() => setAuditFilterOpen(false)}
+        selectedFilters={auditFilters}
+        actors={knownAuditActors}
+        onApply={(next) => {
+          setAuditFilters(next);
+          setAuditFilterOpen(false);
+        }}
+      />
+
+      <InventoryAuditEntrySheet
+        entry={selectedAuditEntry}
+        item={selectedAuditEntry ? items.find((item) => item.id === selectedAuditEntry.merchantItemId) ?? null : null}
+        categories={categories}
+        reverting={isReverting}
+        onClose={() => setSelectedAuditEntry(null)}
+        onRevert={handleRevertAuditEntry}
+      />
+
+      <CategoryPriceChangeSheet
+        category={priceChangeCategory}
+        shopId={shop.id}
+        onClose={() => setPriceChangeCategory(null)}
+      />
     </View>
   );
 }
@@ -2,8 +2,10 @@ import React, { useState, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   Text,
+  TextInput,
   TouchableOpacity,
   ScrollView,
+  FlatList,
   ActivityIndicator,
   RefreshControl,
   useWindowDimensions,
@@ -16,16 +18,24 @@ import type { MerchantShop } from '../../../../services/merchant/shopService';
 import type { RootStackParamList } from '../../../../navigation/types';
 import {
   useShopOrders,
+  useActiveShopOrders,
   useGroupedOrders,
 } from '../../../../hooks/merchant/useOrders';
+import { useOrderSlaBreaches } from '../../../../hooks/merchant/useOrderSla';
+import type { OrderSlaBreach } from '../../../../utils/orderSla';
 import {
   OrderWithAll,
+  OrderFilters,
+  OrderSort,
+  OrderStatus,
   OrderTimeFilter,
   getOrderStatusDisplay,
   formatPrice,
   formatDuration,
+  formatOrderItemQuantity,
 } from '../../../../types/orders';
 import LocationMarkerIcon from '../../../../icons/LocationMarkerIcon';
+import { OrdersBoard } from '../../../../components/merchant/orders/OrdersBoard';
 
 type OrdersSectionProps = {
   shop: MerchantShop;
@@ -33,26 +43,61 @@ type OrdersSectionProps = {
 
 type Nav = NativeStackNavigationProp<RootStackParamList>;
 
+type OrdersViewMode = 'list' | 'board';
+
+const STATUS_FILTERS: OrderStatus[] = ['pending', 'confirmed', 'out_for_delivery', 'delivered', 'cancelled'];
+
+const SORT_ORDER: OrderSort[] = ['newest', 'oldest', 'total_desc', 'total_asc'];
+
 export default function OrdersSection({ shop }: OrdersSectionProps) {
   const { t } = useTranslation();
   const navigation = useNavigation<Nav>();
   const filterScrollRef = useRef<ScrollView>(null);
   const { height: windowHeight } = useWindowDimensions();
 
+  const [selectedTimeFilter, setSelectedTimeFilter] =
+    useState<OrderTimeFilter>('today');
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | undefined>(undefined);
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<OrderSort>('newest');
+  const [viewMode, setViewMode] = useState<OrdersViewMode>('list');
+
+  const filters = useMemo<OrderFilters>(
+    () => ({ timeFilter: selectedTimeFilter, statusFilter, search, sort }),
+    [selectedTimeFilter, statusFilter, search, sort],
+  );
+
   const {
-    data: orders,
+    data: historyPages,
     isLoading,
+    error: historyError,
     refetch,
     isFetching,
-  } = useShopOrders(shop.id);
-  const typedOrders = orders as OrderWithAll[] | undefined;
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useShopOrders(shop.id, filters);
+  const orders = useMemo(
+    () => historyPages?.pages.flatMap((page) => page.orders) ?? [],
+    [historyPages],
+  );
 
-  const [selectedTimeFilter, setSelectedTimeFilter] =
-    useState<OrderTimeFilter>('today');
+  const {
+    data: activeOrders = [],
+    refetch: refetchActive,
+    isFetching: isFetchingActive,
+  } = useActiveShopOrders(shop.id);
+  const slaBreaches = useOrderSlaBreaches(shop.id, activeOrders);
 
   const handleRefresh = useCallback(async () => {
-    await refetch();
-  }, [refetch]);
+    await Promise.all([refetch(), refetchActive()]);
+  }, [refetch, refetchActive]);
+
+  const handleEndReached = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   const handleOpenOrderDetail = useCallback(
     (order: OrderWithAll) => {
@@ -64,39 +109,81 @@ export default function OrdersSection({ shop }: OrdersSectionProps) {
     [navigation, shop.id],
   );
 
-  const filteredOrders = useMemo(() => {
-    if (!typedOrders || !Array.isArray(typedOrders)) return [];
-    return getFilteredOrdersByTime(typedOrders, selectedTimeFilter);
-  }, [typedOrders, selectedTimeFilter]);
+  const handleCycleSort = useCallback(() => {
+    setSort((current) => SORT_ORDER[(SORT_ORDER.indexOf(current) + 1) % SORT_ORDER.length]);
+  }, []);
 
-  const groupedFilteredOrders = useGroupedOrders(filteredOrders);
+  // Today's orders keep the work-queue order (pending first) unless the merchant picked another sort.
+  const groupedOrders = useGroupedOrders(orders);
+  const displayOrders =
+    selectedTimeFilter === 'today' && sort === 'newest' && groupedOrders ? groupedOrders.today : orders;
+  const hasQuery = search.trim().length > 0 || statusFilter !== undefined;
 
-  if (isLoading) {
-    return (
-      <View className="flex-1 items-center justify-center p-8">
-        <ActivityIndicator size="large" color="#3B82F6" />
-        <Text className="text-gray-600 mt-4">{t('merchant.orders.loading')}</Text>
+  const viewModeToggle = (
+    <View className="flex-row items-center justify-between mt-3">
+      {slaBreaches.size > 0 ? (
+        <View className="bg-red-600 rounded-full px-3 py-1">
+          <Text className="text-white text-xs font-bold">
+            {t('merchant.orders.sla.lateCount', { quantity: slaBreaches.size })}
+          </Text>
+        </View>
+      ) : (
+        <View />
+      )}
+      <View className="flex-row bg-gray-100 rounded-full p-1">
+        {(['list', 'board'] as OrdersViewMode[]).map((mode) => (
+          <TouchableOpacity
+            key={mode}
+            onPress={() => setViewMode(mode)}
+            className={`px-4 py-1.5 rounded-full ${viewMode === mode ? 'bg-white' : ''}`}
+          >
+            <Text className={`text-xs font-semibold ${viewMode === mode ? 'text-gray-900' : 'text-gray-500'}`}>
+              {t(`merchant.orders.board.viewMode.${mode}`)}
+            </Text>
+          </TouchableOpacity>
+        ))}
       </View>
-    );
-  }
+    </View>
+  );
 
-  if (!typedOrders || !Array.isArray(typedOrders) || typedOrders.length === 0) {
+  if (viewMode === 'board') {
     return (
-      <View className="flex-1 items-center justify-center px-5 py-8" style={{ minHeight: Math.max(280, windowHeight * 0.45) }}>
-        <Text className="text-6xl mb-4">📦</Text>
-        <Text className="text-gray-900 text-lg font-semibold mb-2 text-center">
-          {t('merchant.orders.noOrders')}
-        </Text>
-        <Text className="text-gray-500 text-center max-w-sm">
-          {t('merchant.orders.noOrdersDesc')}
-        </Text>
+      <View className="flex-1 px-5">
+        {viewModeToggle}
+        <OrdersBoard
+          shopId={shop.id}
+          orders={activeOrders}
+          isFetching={isFetchingActive}
+          onRefresh={handleRefresh}
+          onOpenOrder={handleOpenOrderDetail}
+        />
       </View>
     );
   }
 
   return (
     <View className="flex-1 px-5">
+      {viewModeToggle}
       <View className="bg-white border-b border-gray-200">
+        <View className="flex-row items-center px-4 pt-3">
+          <TextInput
+            value={search}
+            onChangeText={setSearch}
+            placeholder={t('merchant.orders.history.searchPlaceholder')}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="search"
+            className="flex-1 bg-gray-50 border border-gray-200 rounded-xl px-4 py-2 text-base text-gray-900"
+          />
+          <TouchableOpacity
+            onPress={handleCycleSort}
+            className="ml-2 px-3 py-2 rounded-xl bg-gray-100"
+          >
+            <Text className="text-gray-700 text-xs font-semibold">
+              {t(`merchant.orders.history.sort.${sort}`)}
+            </Text>
+          </TouchableOpacity>
+        </View>
         <ScrollView
           ref={filterScrollRef}
           horizontal
@@ -129,60 +216,94 @@ export default function OrdersSection({ shop }: OrdersSectionProps) {
             ),
           )}
         </ScrollView>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 12 }}
+          nestedScrollEnabled={true}
+          directionalLockEnabled={true}
+          alwaysBounceVertical={false}
+        >
+          {[undefined, ...STATUS_FILTERS].map((status) => (
+            <TouchableOpacity
+              key={status ?? 'all'}
+              onPress={() => setStatusFilter(status)}
+              className={`mr-2 px-3 py-1.5 rounded-full border ${
+                statusFilter === status ? 'border-blue-600 bg-blue-50' : 'border-gray-200'
+              }`}
+            >
+              <Text
+                className={`text-xs font-semibold ${
+                  statusFilter === status ? 'text-blue-700' : 'text-gray-600'
+                }`}
+              >
+                {status ? t(`merchant.orders.status.${status}`) : t('merchant.orders.history.allStatuses')}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
       </View>
 
-      <ScrollView
-        className="flex-1"
-        contentContainerStyle={
-          filteredOrders.length === 0
-            ? {
-                flexGrow: 1,
-                justifyContent: 'center',
-                paddingVertical: 24,
-                minHeight: Math.max(320, windowHeight * 0.5),
-              }
-            : { paddingVertical: 16, paddingBottom: 32 }
-        }
-        showsVerticalScrollIndicator={false}
-        refreshControl={
-          <RefreshControl refreshing={isFetching} onRefresh={handleRefresh} />
-        }
-      >
-        {filteredOrders.length === 0 ? (
-          <View className="items-center px-2">
-            <Text className="text-5xl mb-3">📦</Text>
-            <Text className="text-gray-900 text-base font-semibold text-center max-w-sm">
-              {t('merchant.orders.noOrdersForPeriod')}
-            </Text>
-          </View>
-        ) : selectedTimeFilter === 'today' && groupedFilteredOrders ? (
-          groupedFilteredOrders.today.map((order) => (
-            <OrderCard
-              key={order.id}
-              order={order}
-              onPress={() => handleOpenOrderDetail(order)}
-            />
-          ))
-        ) : (
-          filteredOrders.map((order) => (
+      {isLoading ? (
+        <View className="flex-1 items-center justify-center p-8">
+          <ActivityIndicator size="large" color="#3B82F6" />
+          <Text className="text-gray-600 mt-4">{t('merchant.orders.loading')}</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={displayOrders}
+          keyExtractor={(order) => order.id}
+          renderItem={({ item: order }) => (
             <OrderCard
-              key={order.id}
               order={order}
+              slaBreach={slaBreaches.get(order.id) ?? null}
               onPress={() => handleOpenOrderDetail(order)}
             />
-          ))
-        )}
-      </ScrollView>
+          )}
+          className="flex-1"
+          contentContainerStyle={
+            displayOrders.length === 0
+              ? {
+                  flexGrow: 1,
+                  justifyContent: 'center',
+                  paddingVertical: 24,
+                  minHeight: Math.max(320, windowHeight * 0.5),
+                }
+              : { paddingVertical: 16, paddingBottom: 32 }
+          }
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={
+            <RefreshControl refreshing={isFetching && !isFetchingNextPage} onRefresh={handleRefresh} />
+          }
+          onEndReached={handleEndReached}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={isFetchingNextPage ? <ActivityIndicator className="py-4" /> : null}
+          ListEmptyComponent={
+            <View className="items-center px-2">
+              <Text className="text-5xl mb-3">📦</Text>
+              <Text className="text-gray-900 text-base font-semibold text-center max-w-sm">
+                {historyError
+                  ? t('merchant.orders.history.loadError')
+                  : hasQuery
+                    ? t('merchant.orders.history.noMatches')
+                    : t('merchant.orders.noOrdersForPeriod')}
+              </Text>
+            </View>
+          }
+        />
+      )}
     </View>
   );
 }
 
 interface OrderCardProps {
   order: OrderWithAll;
+  slaBreach: OrderSlaBreach | null;
   onPress: () => void;
 }
 
-function OrderCard({ order, onPress }: OrderCardProps) {
+function OrderCard({ order, slaBreach, onPress }: OrderCardProps) {
   const { t } = useTranslation();
   const statusDisplay = useMemo(() => {
     const baseDisplay = getOrderStatusDisplay(order.status);
@@ -238,7 +359,7 @@ function OrderCard({ order, onPress }: OrderCardProps) {
   return (
     <TouchableOpacity
       onPress={onPress}
-      className="bg-white rounded-xl p-4 mb-4 border border-gray-200"
+      className={`bg-white rounded-xl p-4 mb-4 border ${slaBreach ? 'border-red-400' : 'border-gray-200'}`}
       activeOpacity={0.7}
     >
       <View className="flex-row items-start justify-between mb-3">
@@ -261,6 +382,16 @@ function OrderCard({ order, onPress }: OrderCardProps) {
         </View>
       </View>
 
+      {slaBreach && (
+        <View className="self-start bg-red-600 rounded-full px-3 py-1 mb-3">
+          <Text className="text-white text-xs font-bold">
+            {t(`merchant.orders.sla.badge.${slaBreach.stage}`, {
+              duration: formatDuration(slaBreach.overdueSeconds),
+            })}
+          </Text>
+        </View>
+      )}
+
       {elapsedSeconds > 0 && (
         <View className="mb-3">
           <Text className="text-gray-700 text-sm font-semibold">
@@ -300,7 +431,8 @@ function OrderCard({ order, onPress }: OrderCardProps) {
       <View className="mb-3">
         {itemsPreview.map((item) => (
           <Text key={item.id} className="text-gray-500 text-xs">
-            {item.quantity} × {item.item_name}
+            {formatOrderItemQuantity(item)} × {item.item_name}
+            {item.variant_name ? ` (${item.variant_name})` : ''}
           </Text>
         ))}
         {remainingCount > 0 && (
@@ -336,38 +468,3 @@ function getFilterLabel(filter: OrderTimeFilter, t: (key: string) => string): st
       return filter;
   }
 }
-
-function getFilteredOrdersByTime(
-  orders: OrderWithAll[],
-  filter: OrderTimeFilter,
-): OrderWithAll[] {
-  const now = new Date();
-  const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-
-  switch (filter) {
-    case 'today':
-      return orders.filter((o) => new Date(o.placed_at) >= todayStart);
-    case 'yesterday': {
-      const yesterdayStart = new Date(todayStart);
-      yesterdayStart.setDate(yesterdayStart.getDate() - 1);
-      return orders.filter(
-        (o) =>
-          new Date(o.placed_at) >= yesterdayStart &&
-          new Date(o.placed_at) < todayStart,
-      );
-    }
-    case '7days': {
-      const sevenDaysAgo = new Date(todayStart);
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-      return orders.filter((o) => new Date(o.placed_at) >= sevenDaysAgo);
-    }
-    case '30days': {
-      const thirtyDaysAgo = new Date(todayStart);
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-      return orders.filter((o) => new Date(o.placed_at) >= thirtyDaysAgo);
-    }
-    case 'all':
-    default:
-      return orders;
-  }
-}
\ No newline at end of file
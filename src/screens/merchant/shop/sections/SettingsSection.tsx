@@ -7,6 +7,8 @@ import type { MerchantShop } from '../../../../services/merchant/shopService';
 import { deleteShop } from '../../../../services/merchant/shopService';
 import { useAuth } from '../../../../context/AuthContext';
 import { useTranslation } from 'react-i18next';
+import { AutoAcceptRulesCard } from '../../../../components/merchant/orders/AutoAcceptRulesCard';
+import { OrderSlaCard } from '../../../../components/merchant/orders/OrderSlaCard';
 
 type SettingsSectionProps = {
   shop: MerchantShop;
@@ -153,6 +155,12 @@ export default function SettingsSection({ shop, onShopDeleted }: SettingsSection
         </View>
       </View>
 
+      {/* Auto-accept Section */}
+      <AutoAcceptRulesCard shopId={shop.id} />
+
+      {/* Order SLA Section */}
+      <OrderSlaCard shopId={shop.id} />
+
       {/* Delete Shop Section */}
       <View className="bg-white border border-red-200 rounded-3xl p-6 shadow-sm">
         <Text className={`text-lg font-semibold text-red-600 mb-2 ${isRTL ? 'text-right' : 'text-left'}`}>
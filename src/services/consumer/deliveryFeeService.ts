@@ -1,10 +1,8 @@
 import type { ConsumerShop } from './shopService';
 import type { DeliveryLogic } from '../merchant/deliveryLogicService';
-import { 
-  fetchDeliveryLogic, 
-  calculateDistance, 
-  calculateDeliveryFee 
-} from '../merchant/deliveryLogicService';
+import { fetchDeliveryLogic } from '../merchant/deliveryLogicService';
+import { calculateDeliveryFee, findDeliveryZone, getLeastOrderValue } from '../feeQuote';
+import { getDeliveryDistance } from '../routingDistance';
 
 /**
  * Calculate delivery fee for a single shop based on consumer location
@@ -28,18 +26,18 @@ export async function calculateShopDeliveryFee(
     return 0;
   }
 
-  // Calculate distance from consumer to shop
-  const distanceInMeters = calculateDistance(
-    consumerLatitude,
-    consumerLongitude,
-    shop.latitude,
-    shop.longitude
+  // Distance from consumer to shop, by road when the shop prices on road distance
+  const distanceInMeters = await getDeliveryDistance(
+    { id: shop.id, latitude: shop.latitude, longitude: shop.longitude },
+    { latitude: consumerLatitude, longitude: consumerLongitude },
+    deliveryLogic
   );
 
-  // Calculate delivery fee based on distance and delivery logic
+  // Calculate delivery fee based on the consumer's delivery zone, or distance when the zone sets no fee
   // For display purposes, we use orderValue = 0 (base fee only, no surcharge)
   // The actual order value surcharge will be calculated at checkout
-  const baseFee = calculateDeliveryFee(distanceInMeters, deliveryLogic);
+  const zone = findDeliveryZone(deliveryLogic.zones, { latitude: consumerLatitude, longitude: consumerLongitude });
+  const baseFee = calculateDeliveryFee(distanceInMeters, deliveryLogic, zone);
 
   return baseFee;
 }
@@ -78,7 +76,7 @@ export async function calculateShopsDeliveryFees(
   const deliveryLogicResults = await Promise.allSettled(deliveryLogicPromises);
 
   // Calculate fees for each shop
-  return shops.map((shop, index) => {
+  return Promise.all(shops.map(async (shop, index) => {
     const result = deliveryLogicResults[index];
     
     // Handle failed promise
@@ -110,25 +108,26 @@ export async function calculateShopsDeliveryFees(
       return shop;
     }
 
-    // Calculate distance
-    const distanceInMeters = calculateDistance(
-      consumerLatitude,
-      consumerLongitude,
-      shop.latitude,
-      shop.longitude
+    // Calculate distance, by road when the shop prices on road distance
+    const distanceInMeters = await getDeliveryDistance(
+      { id: shop.id, latitude: shop.latitude, longitude: shop.longitude },
+      { latitude: consumerLatitude, longitude: consumerLongitude },
+      deliveryLogic
     );
 
-    // Calculate base delivery fee (without order value surcharge)
-    const baseFee = calculateDeliveryFee(distanceInMeters, deliveryLogic);
-
-   
+    // Calculate base delivery fee (without order value surcharge); the consumer's delivery zone can override
+    // the fee, the least order value and the delivery time
+    const zone = findDeliveryZone(deliveryLogic.zones, { latitude: consumerLatitude, longitude: consumerLongitude });
+    const baseFee = calculateDeliveryFee(distanceInMeters, deliveryLogic, zone);
 
     return {
       ...shop,
       delivery_fee: baseFee,
+      delivery_time: zone?.etaMinutes ? `${zone.etaMinutes} mins` : shop.delivery_time,
       distanceInMeters,
-      minimumOrderValue: deliveryLogic.minimumOrderValue,
+      minimumOrderValue: deliveryLogic.smallOrderSurcharge > 0 ? deliveryLogic.minimumOrderValue : undefined,
+      leastOrderValue: getLeastOrderValue(deliveryLogic, zone),
     };
-  });
+  }));
 }
 
@@ -1,7 +1,10 @@
 import {
+  CancellationReasonCode,
   Order,
   OrderCalculation,
+  OrderFilters,
   OrderItem,
+  OrderPage,
   OrderWithAll,
   OrderWithItems,
   PlaceOrderRequest,
@@ -9,6 +12,7 @@ import {
 } from '../../types/orders';
 import { apiClient, toApiError } from '../apiClient';
 import { subscribeToOrderGroup } from '../orderRealtime';
+import { buildOrderListQuery } from '../orderListQuery';
 
 /** API returns line items as `items`; apiClient snake_case pass-through leaves that key as `items`, not `order_items`. */
 type ConsumerOrderPayload = OrderWithAll & { items?: OrderItem[] };
@@ -31,15 +35,24 @@ function normalizeConsumerOrder(order: ConsumerOrderPayload): OrderWithAll {
   };
 }
 
+/** A saved address, or the coordinates of one that will be saved when the order is placed. */
+export type QuoteDestination = { addressId: string } | { latitude: number; longitude: number };
+
+/**
+ * Server fee quote for the cart. `quote` is signed and is what `placeOrder` should submit, so the total shown at
+ * checkout is the total charged.
+ */
 export async function calculateOrderTotals(
   shopId: string,
-  items: Array<{ merchant_item_id: string; quantity: number }>,
-  addressId: string
+  items: Array<{ merchant_item_id: string; quantity: number; variant_id?: string | null }>,
+  destination: QuoteDestination
 ): Promise<OrderCalculation> {
   return apiClient.post<OrderCalculation>('/api/v1/consumer/orders/calculate', {
     shop_id: shopId,
-    consumer_address_id: addressId,
     items,
+    ...('addressId' in destination
+      ? { consumer_address_id: destination.addressId }
+      : { latitude: destination.latitude, longitude: destination.longitude }),
   });
 }
 
@@ -56,12 +69,25 @@ export async function placeOrder(request: PlaceOrderRequest): Promise<PlaceOrder
   }
 }
 
-export async function getUserOrders(): Promise<OrderWithAll[]> {
+export const USER_ORDER_PAGE_SIZE = 20;
+
+/** One page of the customer's order history, newest first unless `filters.sort` says otherwise. */
+export async function getUserOrders(
+  filters: OrderFilters = { timeFilter: 'all' },
+  cursor: string | null = null,
+  limit = USER_ORDER_PAGE_SIZE
+): Promise<OrderPage> {
   try {
-    const list = await apiClient.get<ConsumerOrderPayload[]>('/api/v1/consumer/orders');
-    return list.map(normalizeConsumerOrder);
+    const query = buildOrderListQuery(filters, cursor, limit);
+    const page = await apiClient.get<{ orders: ConsumerOrderPayload[]; next_cursor?: string | null }>(
+      `/api/v1/consumer/orders?${query}`
+    );
+    return {
+      orders: (page.orders ?? []).map(normalizeConsumerOrder),
+      nextCursor: page.next_cursor ?? null,
+    };
   } catch {
-    return [];
+    return { orders: [], nextCursor: null };
   }
 }
 
@@ -105,18 +131,18 @@ export function subscribeToOrder(orderId: string, callback: (order: Order) => vo
   };
 }
 
-export function subscribeToUserOrders(callback: (orders: Order[]) => void) {
+/** Calls `callback` whenever the customer's orders may have changed; callers refetch what they show. */
+export function subscribeToUserOrders(callback: () => void) {
   let currentOrderCleanup: (() => Promise<void>) | null = null;
   let pollingTimer: ReturnType<typeof setInterval> | null = null;
 
   const refresh = async () => {
-    const orders = await getUserOrders();
-    callback(orders);
+    callback();
 
     const activeOrder = await getActiveOrder();
     if (activeOrder && !currentOrderCleanup) {
-      currentOrderCleanup = await subscribeToOrderGroup(activeOrder.id, async () => {
-        callback(await getUserOrders());
+      currentOrderCleanup = await subscribeToOrderGroup(activeOrder.id, () => {
+        callback();
       });
     }
     if (!activeOrder && currentOrderCleanup) {
@@ -142,11 +168,13 @@ export function subscribeToUserOrders(callback: (orders: Order[]) => void) {
 
 export async function cancelOrder(
   orderId: string,
-  reason?: string
+  reasonCode: CancellationReasonCode = 'customer_changed_mind',
+  note?: string
 ): Promise<{ success: boolean; message?: string }> {
   try {
     await apiClient.post(`/api/v1/consumer/orders/${orderId}/cancel`, {
-      reason: reason || 'Cancelled by customer',
+      reason_code: reasonCode,
+      note: note?.trim() || undefined,
     });
     return { success: true };
   } catch (error) {
@@ -154,3 +182,18 @@ export async function cancelOrder(
   }
 }
 
+/**
+ * Accept or reject the substitute the shop offered for a line. Only an accepted substitute is charged.
+ */
+export async function answerSubstitution(
+  orderId: string,
+  orderItemId: string,
+  accept: boolean
+): Promise<{ success: boolean; message?: string }> {
+  try {
+    await apiClient.post(`/api/v1/consumer/orders/${orderId}/items/${orderItemId}/substitution`, { accept });
+    return { success: true };
+  } catch (error) {
+    return { success: false, message: toApiError(error).message };
+  }
+}
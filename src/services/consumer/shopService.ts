@@ -1,4 +1,6 @@
-import type { DeliveryLogic } from '../merchant/deliveryLogicService';
+import { toDeliveryLogic, type DeliveryLogic } from '../merchant/deliveryLogicService';
+import { findDeliveryZone, getLeastOrderValue } from '../feeQuote';
+import type { LatLngLiteral } from '../../types/delivery';
 import { ApiError, apiClient, toApiError } from '../apiClient';
 import Config from 'react-native-config';
 
@@ -17,7 +19,8 @@ export type ConsumerShop = {
   is_open: boolean;
   created_at: string;
   shop_type?: string;
-  minimumOrderValue?: number;
+  minimumOrderValue?: number; // in PKR, the small-order surcharge applies below it; unset when the shop charges none
+  leastOrderValue?: number; // in PKR, the smallest order accepted at the consumer's address
   opening_hours?: any;
   holidays?: any;
   open_status_mode?: 'auto' | 'manual_open' | 'manual_closed' | null;
@@ -57,10 +60,32 @@ export type ShopItem = {
   currency: string;
   is_active: boolean;
   categories: string[];
+  /** Units left when the merchant tracks stock; null when the item is not stock-tracked. */
+  stock_quantity?: number | null;
+  /** Active size/weight/pack options; when present one must be chosen and its price replaces `price_cents`. */
+  variants?: ShopItemVariant[];
+  /** Set for items sold by weight or measure: `price_cents` is per unit and quantities step by `quantity_step`. */
+  unit?: string | null;
+  quantity_step?: number;
+};
+
+export type ShopItemVariant = {
+  id: string;
+  option_group: string | null;
+  name: string;
+  price_cents: number;
 };
 
 type ServiceResult<T> = { data: T | null; error: ApiError | null };
 
+/** Price to show on an item tile: the cheapest variant when the item has options, otherwise the item price. */
+export function getItemDisplayPriceCents(item: ShopItem): number {
+  if (!item.variants || item.variants.length === 0) {
+    return item.price_cents;
+  }
+  return Math.min(...item.variants.map((variant) => variant.price_cents));
+}
+
 function getBackendBaseUrl(): string {
   return (
     Config.BACKEND_API_URL ||
@@ -110,35 +135,7 @@ export async function fetchShopDetails(shopId: string): Promise<ServiceResult<Sh
   try {
     const detail = await apiClient.get<any>(`/api/v1/consumer/shops/${shopId}`);
     const delivery = detail.delivery_logic || detail.deliveryLogic || null;
-    const rawTiers = delivery
-      ? delivery.distance_tiers || delivery.distanceTiers || []
-      : [];
-    const normalizedTiers = Array.isArray(rawTiers)
-      ? rawTiers.map((t: any) => ({
-          max_distance: Number(t.max_distance ?? t.maxDistance ?? 0),
-          fee: Number(t.fee ?? 0),
-        }))
-      : [];
-    const deliveryLogic: DeliveryLogic | null = delivery
-      ? {
-          id: delivery.id,
-          shopId: delivery.shop_id || delivery.shopId,
-          minimumOrderValue: Number(delivery.minimum_order_value || delivery.minimumOrderValue || 0),
-          smallOrderSurcharge: Number(delivery.small_order_surcharge || delivery.smallOrderSurcharge || 0),
-          leastOrderValue: Number(delivery.least_order_value || delivery.leastOrderValue || 0),
-          distanceMode: delivery.distance_mode || delivery.distanceMode || 'auto',
-          maxDeliveryFee: Number(delivery.max_delivery_fee || delivery.maxDeliveryFee || 130),
-          distanceTiers: normalizedTiers,
-          beyondTierFeePerUnit: Number(delivery.beyond_tier_fee_per_unit || delivery.beyondTierFeePerUnit || 10),
-          beyondTierDistanceUnit: Number(
-            delivery.beyond_tier_distance_unit || delivery.beyondTierDistanceUnit || 250
-          ),
-          freeDeliveryThreshold: Number(delivery.free_delivery_threshold || delivery.freeDeliveryThreshold || 800),
-          freeDeliveryRadius: Number(delivery.free_delivery_radius || delivery.freeDeliveryRadius || 1000),
-          createdAt: delivery.created_at || delivery.createdAt,
-          updatedAt: delivery.updated_at || delivery.updatedAt,
-        }
-      : null;
+    const deliveryLogic: DeliveryLogic | null = delivery ? toDeliveryLogic(delivery, shopId) : null;
 
     return {
       data: {
@@ -205,6 +202,15 @@ export async function fetchShopItems(
           currency: item.currency || 'PKR',
           is_active: item.is_active !== false,
           categories: [category.id],
+          stock_quantity: item.stock_quantity ?? null,
+          variants: (item.variants || []).map((variant: any) => ({
+            id: variant.id,
+            option_group: variant.option_group || null,
+            name: variant.name,
+            price_cents: variant.price_cents,
+          })),
+          unit: item.unit || null,
+          quantity_step: item.quantity_step ?? 1,
         });
       });
     });
@@ -234,18 +240,22 @@ export type CartValidationResult = {
 /**
  * Validate cart against shop's current minimum order requirements
  * This queries the database to get the latest leastOrderValue, ensuring
- * real-time validation even if merchant changes settings
+ * real-time validation even if merchant changes settings. With a delivery
+ * location, the minimum of the delivery zone it falls in applies instead
  */
 export async function validateCartOrderValue(
   shopId: string,
-  orderValueCents: number
+  orderValueCents: number,
+  location?: LatLngLiteral | null
 ): Promise<ServiceResult<CartValidationResult>> {
   try {
     const detail = await fetchShopDetails(shopId);
     if (detail.error || !detail.data) {
       return { data: null, error: detail.error };
     }
-    const leastOrderValue = detail.data.deliveryLogic?.leastOrderValue ?? 0;
+    const deliveryLogic = detail.data.deliveryLogic;
+    const zone = deliveryLogic && location ? findDeliveryZone(deliveryLogic.zones, location) : null;
+    const leastOrderValue = deliveryLogic ? getLeastOrderValue(deliveryLogic, zone) : 0;
     const orderValuePKR = orderValueCents / 100;
     const meetsMinimumOrder = orderValuePKR >= leastOrderValue;
 
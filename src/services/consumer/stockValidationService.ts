@@ -1,72 +1,115 @@
 /**
  * Stock Validation Service
- * 
- * Validates item availability and stock before adding items to cart.
- * Checks if items are active and in stock.
+ *
+ * Validates item availability and stock before adding items to cart or placing an order.
+ * Checks if items are active and, for stock-tracked items, that enough units are left.
  */
 
-import { ApiError } from '../apiClient';
+import { ApiError, apiClient, toApiError } from '../apiClient';
+
+export type StockValidationReason = 'not_found' | 'inactive' | 'out_of_stock' | 'insufficient_quantity';
+
+export interface StockValidationRequest {
+  itemId: string;
+  quantity?: number; // Defaults to 1
+}
 
 export interface StockValidationResult {
   itemId: string;
   itemName: string;
   isValid: boolean;
   isActive: boolean;
+  availableQuantity?: number | null; // null when the merchant does not track stock
+  reasonCode?: StockValidationReason;
   reason?: string; // Error reason if invalid
 }
 
 type ServiceResult<T> = { data: T | null; error: ApiError | null };
 
+type StockCheckRow = {
+  item_id: string;
+  item_name: string | null;
+  is_valid: boolean;
+  is_active: boolean;
+  available_quantity: number | null;
+  reason: StockValidationReason | null;
+};
+
+function describeReason(reason: StockValidationReason, availableQuantity: number | null): string {
+  switch (reason) {
+    case 'out_of_stock':
+      return 'Out of stock';
+    case 'insufficient_quantity':
+      return `Only ${availableQuantity ?? 0} left in stock`;
+    case 'inactive':
+      return 'Item is no longer available';
+    default:
+      return 'Item not found';
+  }
+}
+
+function mapStockCheckRow(row: StockCheckRow): StockValidationResult {
+  const reasonCode = row.reason ?? undefined;
+  return {
+    itemId: row.item_id,
+    itemName: row.item_name ?? 'Unknown',
+    isValid: row.is_valid,
+    isActive: row.is_active,
+    availableQuantity: row.available_quantity,
+    reasonCode,
+    reason: reasonCode ? describeReason(reasonCode, row.available_quantity) : undefined,
+  };
+}
+
 /**
  * Validate if a single item is available for purchase
  */
 export async function validateItemStock(
-  itemId: string
+  itemId: string,
+  quantity = 1
 ): Promise<ServiceResult<StockValidationResult>> {
-  return {
-    data: {
-      itemId,
-      itemName: 'Unknown',
-      isValid: true,
-      isActive: true,
-    },
-    error: null,
-  };
+  const result = await validateItemsStock([{ itemId, quantity }]);
+  if (result.error || !result.data) {
+    return { data: null, error: result.error };
+  }
+  return { data: result.data[0] ?? null, error: null };
 }
 
 /**
  * Validate multiple items at once
  */
 export async function validateItemsStock(
-  itemIds: string[]
+  items: StockValidationRequest[]
 ): Promise<ServiceResult<StockValidationResult[]>> {
-  if (itemIds.length === 0) {
+  if (items.length === 0) {
     return { data: [], error: null };
   }
-  return {
-    data: itemIds.map((itemId) => ({
-      itemId,
-      itemName: 'Unknown',
-      isValid: true,
-      isActive: true,
-    })),
-    error: null,
-  };
+  try {
+    const rows = await apiClient.post<StockCheckRow[]>('/api/v1/consumer/shops/stock-check', {
+      items: items.map((item) => ({
+        merchant_item_id: item.itemId,
+        quantity: item.quantity ?? 1,
+      })),
+    });
+    return { data: (rows ?? []).map(mapStockCheckRow), error: null };
+  } catch (error) {
+    return { data: null, error: toApiError(error) };
+  }
 }
 
 /**
  * Check if all items in a list are valid
  */
 export async function areAllItemsValid(
-  itemIds: string[]
+  items: StockValidationRequest[]
 ): Promise<{ valid: boolean; invalidItems: StockValidationResult[] }> {
-  const validationResult = await validateItemsStock(itemIds);
+  const validationResult = await validateItemsStock(items);
 
   if (validationResult.error || !validationResult.data) {
     return {
       valid: false,
-      invalidItems: itemIds.map((id) => ({
-        itemId: id,
+      invalidItems: items.map((item) => ({
+        itemId: item.itemId,
         itemName: 'Unknown',
         isValid: false,
         isActive: false,
@@ -82,4 +125,3 @@ export async function areAllItemsValid(
     invalidItems,
   };
 }
-
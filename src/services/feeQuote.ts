@@ -0,0 +1,171 @@
+import type { FeeBreakdown, FeeQuote } from '../types/orders';
+import type { DeliveryZone, LatLngLiteral } from '../types/delivery';
+import type { DeliveryLogic, DistanceTier, PeakWindow } from './merchant/deliveryLogicService';
+import { isPointInsidePolygon } from '../utils/polygons';
+
+/**
+ * Delivery fee rules, shared by every screen that shows a fee. They are the same rules as the server's
+ * `DeliveryFeeCalculatorService`, which signs the quote checkout charges; anything computed here is an estimate.
+ * Bump FEE_RULES_VERSION together with the server's `RulesVersion`.
+ */
+export const FEE_RULES_VERSION = 4;
+
+/** Used for any setting a shop has not saved; the same as the server's `ShopDeliveryLogic` defaults. */
+export const DEFAULT_DELIVERY_SETTINGS = {
+  minimumOrderValue: 200,
+  smallOrderSurcharge: 40,
+  leastOrderValue: 100,
+  maxDeliveryFee: 130,
+  beyondTierFeePerUnit: 10,
+  beyondTierDistanceUnit: 250,
+  freeDeliveryThreshold: 800,
+  freeDeliveryRadius: 1000,
+  busyModeMultiplier: 1.5,
+};
+
+/** Used when a shop has no distance tiers. */
+export const DEFAULT_DISTANCE_TIERS: DistanceTier[] = [
+  { max_distance: 200, fee: 20 },
+  { max_distance: 400, fee: 30 },
+  { max_distance: 600, fee: 40 },
+  { max_distance: 800, fee: 50 },
+  { max_distance: 1000, fee: 60 },
+];
+
+function toCents(pkr: number): number {
+  return Math.round(pkr * 100);
+}
+
+// The zone an address falls in. The server refuses a zone that overlaps another, so at most one matches; zones
+// saved before that check are listed oldest first, and the oldest wins as on the server
+export function findDeliveryZone<T extends DeliveryZone>(zones: T[], point: LatLngLiteral): T | null {
+  return zones.find((zone) => isPointInsidePolygon(point, zone.coordinates)) ?? null;
+}
+
+// The smallest order accepted in PKR: the zone's minimum when it sets one, otherwise the least order value
+export function getLeastOrderValue(logic: DeliveryLogic, zone?: DeliveryZone | null): number {
+  return zone?.minimumOrderValue ?? logic.leastOrderValue;
+}
+
+// Delivery fee in PKR before any free-delivery discount. A zone fee replaces the distance tiers; otherwise the first
+// tier covering the distance, or the last tier plus the per-unit fee beyond it, capped at the maximum delivery fee
+export function calculateDeliveryFee(distanceInMeters: number, logic: DeliveryLogic, zone?: DeliveryZone | null): number {
+  if (zone?.deliveryFee != null) {
+    return zone.deliveryFee;
+  }
+
+  const configured = logic.distanceTiers?.length ? logic.distanceTiers : DEFAULT_DISTANCE_TIERS;
+  const tiers = [...configured].sort((a, b) => a.max_distance - b.max_distance);
+
+  for (const tier of tiers) {
+    if (distanceInMeters <= tier.max_distance) {
+      return Math.min(tier.fee, logic.maxDeliveryFee);
+    }
+  }
+
+  const lastTier = tiers[tiers.length - 1];
+  const extraUnits = Math.ceil((distanceInMeters - lastTier.max_distance) / logic.beyondTierDistanceUnit);
+  return Math.min(lastTier.fee + extraUnits * logic.beyondTierFeePerUnit, logic.maxDeliveryFee);
+}
+
+// Small order surcharge in PKR, charged below the minimum order value even when delivery is free
+export function calculateOrderSurcharge(orderValue: number, logic: DeliveryLogic): number {
+  return orderValue < logic.minimumOrderValue ? logic.smallOrderSurcharge : 0;
+}
+
+export function checkFreeDelivery(orderValue: number, distanceInMeters: number, logic: DeliveryLogic): boolean {
+  return orderValue >= logic.freeDeliveryThreshold && distanceInMeters <= logic.freeDeliveryRadius;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function isPeakWindowActive(window: PeakWindow, at: Date): boolean {
+  const now = at.getHours() * 60 + at.getMinutes();
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  const today = at.getDay();
+  if (start < end) {
+    return window.days.includes(today) && now >= start && now < end;
+  }
+  // Runs past midnight, so it is also in effect early the next day
+  const yesterday = (today + 6) % 7;
+  return (window.days.includes(today) && now >= start) || (window.days.includes(yesterday) && now < end);
+}
+
+// The peak window in effect at `at`; when several overlap, the one with the highest fee
+export function findActivePeakWindow(windows: PeakWindow[], at: Date): PeakWindow | null {
+  return windows
+    .filter((window) => isPeakWindowActive(window, at))
+    .reduce<PeakWindow | null>((best, window) => (!best || window.fee > best.fee ? window : best), null);
+}
+
+// Busy mode uplift in PKR: the distance fee times the multiplier, never past the maximum delivery fee
+export function calculateBusyUplift(baseFee: number, logic: DeliveryLogic): number {
+  if (!logic.busyModeEnabled) return 0;
+  return Math.max(0, Math.min(baseFee * logic.busyModeMultiplier, logic.maxDeliveryFee) - baseFee);
+}
+
+/**
+ * Itemised fee estimate for an order placed at `at` to an address in `zone`. Peak windows are matched against the device clock, so an
+ * estimate can differ from the quote around a window's edges. A shop without delivery settings charges nothing, as
+ * on the server.
+ */
+export function estimateFees(
+  subtotalCents: number,
+  distanceInMeters: number,
+  logic: DeliveryLogic | null,
+  at: Date = new Date(),
+  zone: DeliveryZone | null = null
+): FeeBreakdown {
+  const ruleVersion = `${FEE_RULES_VERSION}`;
+  if (!logic) {
+    return {
+      subtotal_cents: subtotalCents,
+      base_fee_cents: 0,
+      surcharge_cents: 0,
+      free_delivery_discount_cents: 0,
+      free_delivery_applied: false,
+      peak_fee_cents: 0,
+      peak_label: null,
+      busy_mode_applied: false,
+      delivery_fee_cents: 0,
+      total_cents: subtotalCents,
+      distance_meters: distanceInMeters,
+      rule_version: ruleVersion,
+    };
+  }
+
+  const orderValue = subtotalCents / 100;
+  const baseFee = calculateDeliveryFee(distanceInMeters, logic, zone);
+  const baseFeeCents = toCents(baseFee);
+  const surchargeCents = toCents(calculateOrderSurcharge(orderValue, logic));
+  const freeDeliveryApplied = checkFreeDelivery(orderValue, distanceInMeters, logic);
+  const discountCents = freeDeliveryApplied ? baseFeeCents : 0;
+  const peakWindow = findActivePeakWindow(logic.peakWindows, at);
+  const busyUplift = calculateBusyUplift(baseFee, logic);
+  const peakFeeCents = toCents((peakWindow?.fee ?? 0) + busyUplift);
+  const deliveryFeeCents = baseFeeCents - discountCents + peakFeeCents;
+
+  return {
+    subtotal_cents: subtotalCents,
+    base_fee_cents: baseFeeCents,
+    surcharge_cents: surchargeCents,
+    free_delivery_discount_cents: discountCents,
+    free_delivery_applied: freeDeliveryApplied,
+    peak_fee_cents: peakFeeCents,
+    peak_label: peakWindow?.label ?? null,
+    busy_mode_applied: busyUplift > 0,
+    delivery_fee_cents: deliveryFeeCents,
+    total_cents: subtotalCents + deliveryFeeCents + surchargeCents,
+    distance_meters: distanceInMeters,
+    rule_version: ruleVersion,
+  };
+}
+
+/** True when the quote has expired or will within `marginMs`, so it should be refreshed before it is submitted. */
+export function isQuoteExpiring(quote: FeeQuote, marginMs = 30000): boolean {
+  return Date.parse(quote.expires_at) - Date.now() <= marginMs;
+}
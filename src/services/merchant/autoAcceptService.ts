@@ -0,0 +1,85 @@
+import { loogin } from '../../lib/loogin';
+import { apiClient, toApiError } from '../apiClient';
+
+const log = loogin.scope('autoAcceptService');
+
+type ServiceResult<T> = { data: T | null; error: any | null };
+
+/**
+ * Every condition that is switched on must hold for the rule to fire.
+ * `maxTotalCents` null means no limit on the order total.
+ */
+export type AutoAcceptRule = {
+  id?: string;
+  name: string;
+  isEnabled: boolean;
+  duringOpeningHours: boolean;
+  maxTotalCents: number | null;
+  allItemsInStock: boolean;
+  runnerAvailable: boolean;
+};
+
+export type AutoAcceptSettings = {
+  shopId: string;
+  /** Kill switch: while off, no rule fires. */
+  isEnabled: boolean;
+  rules: AutoAcceptRule[];
+};
+
+function mapRule(row: any): AutoAcceptRule {
+  return {
+    id: row.id,
+    name: row.name,
+    isEnabled: Boolean(row.is_enabled),
+    duringOpeningHours: Boolean(row.during_opening_hours),
+    maxTotalCents: row.max_total_cents ?? null,
+    allItemsInStock: Boolean(row.all_items_in_stock),
+    runnerAvailable: Boolean(row.runner_available),
+  };
+}
+
+function mapSettings(row: any, shopId: string): AutoAcceptSettings {
+  return {
+    shopId: row.shop_id || shopId,
+    isEnabled: Boolean(row.is_enabled),
+    rules: (row.rules ?? []).map(mapRule),
+  };
+}
+
+export async function fetchAutoAcceptSettings(shopId: string): Promise<ServiceResult<AutoAcceptSettings>> {
+  try {
+    const data = await apiClient.get<any>(`/api/v1/merchant/shops/${shopId}/auto-accept`);
+    return { data: mapSettings(data, shopId), error: null };
+  } catch (error) {
+    const apiError = toApiError(error);
+    log.error('Failed to fetch auto-accept settings', apiError);
+    return { data: null, error: apiError };
+  }
+}
+
+export async function updateAutoAcceptSettings(
+  shopId: string,
+  settings: Pick<AutoAcceptSettings, 'isEnabled' | 'rules'>
+): Promise<ServiceResult<AutoAcceptSettings>> {
+  log.debug('updateAutoAcceptSettings', { shopId, isEnabled: settings.isEnabled, rules: settings.rules.length });
+
+  try {
+    const data = await apiClient.put<any>(`/api/v1/merchant/shops/${shopId}/auto-accept`, {
+      isEnabled: settings.isEnabled,
+      rules: settings.rules.map((rule) => ({
+        id: rule.id ?? null,
+        name: rule.name,
+        isEnabled: rule.isEnabled,
+        duringOpeningHours: rule.duringOpeningHours,
+        maxTotalCents: rule.maxTotalCents,
+        allItemsInStock: rule.allItemsInStock,
+        runnerAvailable: rule.runnerAvailable,
+      })),
+    });
+    return { data: mapSettings(data, shopId), error: null };
+  } catch (error) {
+    const apiError = toApiError(error);
+    log.error('Failed to update auto-accept settings', apiError);
+    return { data: null, error: apiError };
+  }
+}
@@ -1,20 +1,36 @@
 import { loogin } from '../../lib/loogin';
 import { apiClient, toApiError } from '../apiClient';
-import type { DeliveryArea, DeliveryAreaPayload } from '../../types/delivery';
+import type { DeliveryArea, DeliveryAreaPayload, DeliveryZone } from '../../types/delivery';
 
 const log = loogin.scope('deliveryAreaService');
 type ServiceResult<T> = { data: T | null; error: any | null };
 const areaIdToShopId = new Map<string, string>();
 
+function nullableNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/** Zone fields of a delivery area row, from the merchant areas endpoint or a consumer shop's delivery settings. */
+export function toDeliveryZone(row: any): DeliveryZone {
+  return {
+    id: row.id,
+    label: row.label ?? 'Delivery area',
+    coordinates: row.coordinates || row.geom_geojson || row.geom || [],
+    deliveryFee: nullableNumber(row.delivery_fee ?? row.deliveryFee),
+    minimumOrderValue: nullableNumber(row.minimum_order_value ?? row.minimumOrderValue),
+    etaMinutes: nullableNumber(row.eta_minutes ?? row.etaMinutes),
+  };
+}
+
 function mapRow(row: any): DeliveryArea {
   if (row.id && row.shop_id) {
     areaIdToShopId.set(row.id, row.shop_id);
   }
   return {
-    id: row.id,
+    ...toDeliveryZone(row),
     shopId: row.shop_id,
-    label: row.label ?? 'Delivery area',
-    coordinates: row.coordinates || row.geom_geojson || row.geom || [],
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -49,6 +65,9 @@ export async function saveDeliveryAreas(
       await apiClient.post(`/api/v1/merchant/shops/${shopId}/delivery-areas`, {
         label: area.label ?? null,
         coordinates: area.coordinates,
+        deliveryFee: area.deliveryFee ?? null,
+        minimumOrderValue: area.minimumOrderValue ?? null,
+        etaMinutes: area.etaMinutes ?? null,
       });
     }
 
@@ -1,5 +1,8 @@
 import { loogin } from '../../lib/loogin';
 import { apiClient, toApiError } from '../apiClient';
+import { DEFAULT_DELIVERY_SETTINGS, DEFAULT_DISTANCE_TIERS } from '../feeQuote';
+import type { DeliveryZone } from '../../types/delivery';
+import { toDeliveryZone } from './deliveryAreaService';
 
 const log = loogin.scope('deliveryLogicService');
 
@@ -8,11 +11,22 @@ type ServiceResult<T> = { data: T | null; error: any | null };
 const TABLE = 'shop_delivery_logic';
 const logicIdToShopId = new Map<string, string>();
 
+// 'road' prices the distance tiers on the driving distance from the shop instead of the straight-line distance
+export type DistanceMode = 'auto' | 'custom' | 'road';
+
 export type DistanceTier = {
   max_distance: number; // in meters
   fee: number; // in PKR
 };
 
+export type PeakWindow = {
+  label?: string | null;
+  days: number[]; // weekdays the window starts on, 0 = Sunday
+  start: string; // HH:mm, shop-local
+  end: string; // HH:mm; before start when the window runs past midnight
+  fee: number; // in PKR
+};
+
 export type DeliveryLogic = {
   id: string;
   shopId: string;
@@ -21,7 +35,7 @@ export type DeliveryLogic = {
   smallOrderSurcharge: number;
   leastOrderValue: number;
   // Distance Layer
-  distanceMode: 'auto' | 'custom';
+  distanceMode: DistanceMode;
   maxDeliveryFee: number;
   distanceTiers: DistanceTier[];
   beyondTierFeePerUnit: number;
@@ -29,6 +43,12 @@ export type DeliveryLogic = {
   // Free Delivery Discount Layer
   freeDeliveryThreshold: number;
   freeDeliveryRadius: number;
+  // Peak Layer
+  peakWindows: PeakWindow[];
+  busyModeEnabled: boolean;
+  busyModeMultiplier: number;
+  // Zone Layer: only sent with a consumer shop's settings; merchants edit zones as delivery areas
+  zones: DeliveryZone[];
   createdAt: string;
   updatedAt: string;
 };
@@ -37,62 +57,109 @@ export type DeliveryLogicPayload = {
   minimumOrderValue: number;
   smallOrderSurcharge: number;
   leastOrderValue: number;
-  distanceMode?: 'auto' | 'custom';
+  distanceMode?: DistanceMode;
   maxDeliveryFee?: number;
   distanceTiers?: DistanceTier[];
   beyondTierFeePerUnit?: number;
   beyondTierDistanceUnit?: number;
   freeDeliveryThreshold?: number;
   freeDeliveryRadius?: number;
+  peakWindows?: PeakWindow[];
+  busyModeEnabled?: boolean;
+  busyModeMultiplier?: number;
 };
 
-const DEFAULT_DISTANCE_TIERS: DistanceTier[] = [
-  { max_distance: 200, fee: 20 },
-  { max_distance: 400, fee: 30 },
-  { max_distance: 600, fee: 40 },
-  { max_distance: 800, fee: 50 },
-  { max_distance: 1000, fee: 60 },
-];
+function numberOr(value: unknown, fallback: number): number {
+  if (value === null || value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
 
-function mapRow(row: any): DeliveryLogic {
-  if (row.id && row.shop_id) {
-    logicIdToShopId.set(row.id, row.shop_id);
+function parseDistanceTiers(raw: unknown): DistanceTier[] {
+  let tiers = raw;
+  if (typeof tiers === 'string') {
+    try {
+      tiers = JSON.parse(tiers);
+    } catch {
+      tiers = null;
+    }
   }
-  // Ensure distanceTiers is always an array
-  let distanceTiers = DEFAULT_DISTANCE_TIERS;
-  if (row.distance_tiers) {
-    if (Array.isArray(row.distance_tiers)) {
-      distanceTiers = row.distance_tiers;
-    } else {
-      // If it's a string, try to parse it
-      try {
-        distanceTiers = typeof row.distance_tiers === 'string' 
-          ? JSON.parse(row.distance_tiers) 
-          : DEFAULT_DISTANCE_TIERS;
-      } catch {
-        distanceTiers = DEFAULT_DISTANCE_TIERS;
-      }
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    return DEFAULT_DISTANCE_TIERS;
+  }
+  return tiers.map((tier: any) => ({
+    max_distance: Number(tier.max_distance ?? tier.maxDistance ?? 0),
+    fee: Number(tier.fee ?? 0),
+  }));
+}
+
+function parsePeakWindows(raw: unknown): PeakWindow[] {
+  let windows = raw;
+  if (typeof windows === 'string') {
+    try {
+      windows = JSON.parse(windows);
+    } catch {
+      windows = null;
     }
   }
+  if (!Array.isArray(windows)) {
+    return [];
+  }
+  return windows.map((window: any) => ({
+    label: window.label ?? null,
+    days: Array.isArray(window.days) ? window.days.map(Number) : [],
+    start: String(window.start ?? '00:00'),
+    end: String(window.end ?? '00:00'),
+    fee: Number(window.fee ?? 0),
+  }));
+}
 
+/**
+ * Delivery settings from an API payload, snake_case or camelCase. Missing values take the defaults in
+ * `feeQuote.ts`, the same ones the server falls back to, so estimates match what is charged.
+ */
+export function toDeliveryLogic(row: any, fallbackShopId?: string): DeliveryLogic {
   return {
     id: row.id,
-    shopId: row.shop_id,
-    minimumOrderValue: Number(row.minimum_order_value),
-    smallOrderSurcharge: Number(row.small_order_surcharge),
-    leastOrderValue: Number(row.least_order_value),
-    distanceMode: row.distance_mode || 'auto',
-    maxDeliveryFee: Number(row.max_delivery_fee || 130),
-    distanceTiers,
-    beyondTierFeePerUnit: Number(row.beyond_tier_fee_per_unit || 10),
-    beyondTierDistanceUnit: Number(row.beyond_tier_distance_unit || 250),
-    freeDeliveryThreshold: Number(row.free_delivery_threshold || 800),
-    freeDeliveryRadius: Number(row.free_delivery_radius || 1000),
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
+    shopId: row.shop_id || row.shopId || fallbackShopId,
+    minimumOrderValue: numberOr(row.minimum_order_value ?? row.minimumOrderValue, DEFAULT_DELIVERY_SETTINGS.minimumOrderValue),
+    smallOrderSurcharge: numberOr(row.small_order_surcharge ?? row.smallOrderSurcharge, DEFAULT_DELIVERY_SETTINGS.smallOrderSurcharge),
+    leastOrderValue: numberOr(row.least_order_value ?? row.leastOrderValue, DEFAULT_DELIVERY_SETTINGS.leastOrderValue),
+    distanceMode: row.distance_mode || row.distanceMode || 'auto',
+    maxDeliveryFee: numberOr(row.max_delivery_fee ?? row.maxDeliveryFee, DEFAULT_DELIVERY_SETTINGS.maxDeliveryFee),
+    distanceTiers: parseDistanceTiers(row.distance_tiers ?? row.distanceTiers),
+    beyondTierFeePerUnit: numberOr(
+      row.beyond_tier_fee_per_unit ?? row.beyondTierFeePerUnit,
+      DEFAULT_DELIVERY_SETTINGS.beyondTierFeePerUnit
+    ),
+    beyondTierDistanceUnit: numberOr(
+      row.beyond_tier_distance_unit ?? row.beyondTierDistanceUnit,
+      DEFAULT_DELIVERY_SETTINGS.beyondTierDistanceUnit
+    ),
+    freeDeliveryThreshold: numberOr(
+      row.free_delivery_threshold ?? row.freeDeliveryThreshold,
+      DEFAULT_DELIVERY_SETTINGS.freeDeliveryThreshold
+    ),
+    freeDeliveryRadius: numberOr(row.free_delivery_radius ?? row.freeDeliveryRadius, DEFAULT_DELIVERY_SETTINGS.freeDeliveryRadius),
+    peakWindows: parsePeakWindows(row.peak_windows ?? row.peakWindows),
+    busyModeEnabled: Boolean(row.busy_mode_enabled ?? row.busyModeEnabled),
+    busyModeMultiplier: numberOr(
+      row.busy_mode_multiplier ?? row.busyModeMultiplier,
+      DEFAULT_DELIVERY_SETTINGS.busyModeMultiplier
+    ),
+    zones: Array.isArray(row.zones) ? row.zones.map(toDeliveryZone) : [],
+    createdAt: row.created_at || row.createdAt,
+    updatedAt: row.updated_at || row.updatedAt,
   };
 }
 
+function mapRow(row: any): DeliveryLogic {
+  if (row.id && row.shop_id) {
+    logicIdToShopId.set(row.id, row.shop_id);
+  }
+  return toDeliveryLogic(row);
+}
+
 async function fetchDeliveryLogicFromConsumerShop(
   shopId: string
 ): Promise<ServiceResult<DeliveryLogic | null>> {
@@ -187,6 +254,11 @@ export async function createDeliveryLogic(
   if (payload.freeDeliveryThreshold !== undefined) insertData.free_delivery_threshold = payload.freeDeliveryThreshold;
   if (payload.freeDeliveryRadius !== undefined) insertData.free_delivery_radius = payload.freeDeliveryRadius;
 
+  // Peak layer
+  if (payload.peakWindows) insertData.peak_windows = payload.peakWindows;
+  if (payload.busyModeEnabled !== undefined) insertData.busy_mode_enabled = payload.busyModeEnabled;
+  if (payload.busyModeMultiplier !== undefined) insertData.busy_mode_multiplier = payload.busyModeMultiplier;
+
   try {
     const data = await apiClient.put<any>(`/api/v1/merchant/shops/${shopId}/delivery-logic`, insertData);
     return { data: mapRow(data), error: null };
@@ -229,6 +301,11 @@ export async function updateDeliveryLogic(
   if (payload.freeDeliveryThreshold !== undefined) updateData.free_delivery_threshold = payload.freeDeliveryThreshold;
   if (payload.freeDeliveryRadius !== undefined) updateData.free_delivery_radius = payload.freeDeliveryRadius;
 
+  // Peak layer
+  if (payload.peakWindows) updateData.peak_windows = payload.peakWindows;
+  if (payload.busyModeEnabled !== undefined) updateData.busy_mode_enabled = payload.busyModeEnabled;
+  if (payload.busyModeMultiplier !== undefined) updateData.busy_mode_multiplier = payload.busyModeMultiplier;
+
   try {
     const data = await apiClient.put<any>(`/api/v1/merchant/shops/${shopId}/delivery-logic`, updateData);
     return { data: mapRow(data), error: null };
@@ -239,14 +316,6 @@ export async function updateDeliveryLogic(
   }
 }
 
-// Helper function to calculate order surcharge based on order value
-export function calculateOrderSurcharge(orderValue: number, logic: DeliveryLogic): number {
-  if (orderValue < logic.minimumOrderValue) {
-    return logic.smallOrderSurcharge;
-  }
-  return 0;
-}
-
 // Helper function to validate if order meets minimum requirements
 export function validateOrderValue(orderValue: number, logic: DeliveryLogic): {
   valid: boolean;
@@ -281,86 +350,3 @@ export function calculateDistance(
 
   return R * c; // Distance in meters
 }
-
-// Helper function to calculate delivery fee based on distance
-// Uses distance tiering (auto or custom) and falls back to maximum if it exceeds all tiers
-export function calculateDeliveryFee(
-  distanceInMeters: number,
-  logic: DeliveryLogic
-): number {
-  // Ensure we have valid tiers
-  if (!logic.distanceTiers || logic.distanceTiers.length === 0) {
-    // Fallback to maximum delivery fee if no tiers configured
-    return logic.maxDeliveryFee;
-  }
-
-  // Sort tiers by max_distance (ascending) to ensure proper tier matching
-  const tiers = [...logic.distanceTiers].sort((a, b) => a.max_distance - b.max_distance);
-  
-  // Find matching tier - check each tier in order
-  for (const tier of tiers) {
-    if (distanceInMeters <= tier.max_distance) {
-      // Found matching tier - return fee capped at maxDeliveryFee
-      return Math.min(tier.fee, logic.maxDeliveryFee);
-    }
-  }
-
-  // Beyond all tiers - calculate extra fee based on beyond tier rules
-  const lastTier = tiers[tiers.length - 1];
-  const extraDistance = distanceInMeters - lastTier.max_distance;
-  const extraUnits = Math.ceil(extraDistance / logic.beyondTierDistanceUnit);
-  const totalFee = lastTier.fee + (extraUnits * logic.beyondTierFeePerUnit);
-
-  // Cap at maximum delivery fee (fallback to max if exceeds all tier rules)
-  return Math.min(totalFee, logic.maxDeliveryFee);
-}
-
-// Helper function to check if order qualifies for free delivery
-export function checkFreeDelivery(
-  orderValue: number,
-  distanceInMeters: number,
-  logic: DeliveryLogic
-): boolean {
-  return (
-    orderValue >= logic.freeDeliveryThreshold &&
-    distanceInMeters <= logic.freeDeliveryRadius
-  );
-}
-
-// Complete delivery fee calculation with all layers applied
-export function calculateTotalDeliveryFee(
-  orderValue: number,
-  distanceInMeters: number,
-  logic: DeliveryLogic
-): {
-  baseFee: number;
-  surcharge: number;
-  freeDeliveryApplied: boolean;
-  finalFee: number;
-} {
-  // Check free delivery first
-  const freeDeliveryApplied = checkFreeDelivery(orderValue, distanceInMeters, logic);
-  
-  if (freeDeliveryApplied) {
-    return {
-      baseFee: 0,
-      surcharge: 0,
-      freeDeliveryApplied: true,
-      finalFee: 0,
-    };
-  }
-
-  // Calculate base delivery fee from distance
-  const baseFee = calculateDeliveryFee(distanceInMeters, logic);
-
-  // Calculate order value surcharge
-  const surcharge = calculateOrderSurcharge(orderValue, logic);
-
-  return {
-    baseFee,
-    surcharge,
-    freeDeliveryApplied: false,
-    finalFee: baseFee + surcharge,
-  };
-}
-
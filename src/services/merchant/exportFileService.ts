@@ -0,0 +1,72 @@
+/**
+ * Export File Service
+ *
+ * CSV building and OS share-sheet handoff shared by the merchant exports (inventory, orders). Exported files are
+ * meant to be opened in spreadsheet apps, so cells are escaped for RFC 4180 and guarded against formula injection.
+ */
+
+import Share from 'react-native-share';
+import Base64 from 'crypto-js/enc-base64';
+import Utf8 from 'crypto-js/enc-utf8';
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Quotes a cell when it holds a delimiter, quote, line break or edge whitespace. Text a spreadsheet would run as a
+ * formula (starting with `=`, `+`, `-` or `@`, such as a customer name or note) gets a leading apostrophe so it shows
+ * as text instead; plain numbers are left alone. The inventory importer strips the apostrophe again.
+ */
+export function escapeCsvField(value: string): string {
+  const guarded = /^[=+\-@]/.test(value) && !NUMBER_PATTERN.test(value) ? `'${value}` : value;
+  if (/[",\r\n]/.test(guarded) || guarded !== guarded.trim()) {
+    return `"${guarded.replace(/"/g, '""')}"`;
+  }
+  return guarded;
+}
+
+/** A header row plus one line per row, CRLF-terminated, in the column order given. */
+export function buildCsv<TColumn extends string>(
+  columns: readonly TColumn[],
+  rows: Record<TColumn, string>[]
+): string {
+  const lines = [columns.join(',')];
+  rows.forEach((row) => {
+    lines.push(columns.map((column) => escapeCsvField(row[column])).join(','));
+  });
+  // Leading BOM so spreadsheet apps open Urdu text as UTF-8; the inventory importer skips it.
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+export function formatMajorUnits(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/** Shop name as a lowercase file-name slug, falling back to `shop` for names with no Latin letters or digits. */
+export function toFileSlug(shopName: string): string {
+  const slug = shopName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'shop';
+}
+
+/**
+ * Opens the OS share sheet with the export attached as a file. Resolves to false when the merchant dismisses it.
+ */
+export async function shareExportFile(file: ExportFile): Promise<boolean> {
+  const base64 = Base64.stringify(Utf8.parse(file.content));
+  const result = await Share.open({
+    title: file.fileName,
+    filename: file.fileName.replace(/\.[^.]+$/, ''),
+    type: file.mimeType,
+    url: `data:${file.mimeType};base64,${base64}`,
+    failOnCancel: false,
+  });
+  return result.success !== false && !result.dismissedAction;
+}
@@ -0,0 +1,153 @@
+/**
+ * Inventory Export Service
+ *
+ * Builds a full catalogue export (CSV or JSON) from the merchant inventory endpoints and hands it to the OS share
+ * sheet. The CSV starts with the bulk importer's columns (name, sku, barcode, price, category) so an exported file
+ * can be edited and imported back, or imported into another shop; the extra columns are ignored by the importer.
+ */
+
+import { loogin } from '../../lib/loogin';
+import type { InventoryCategory, InventoryItem } from '../../types/inventory';
+import { buildCsv, ExportFile, formatMajorUnits, toFileSlug } from './exportFileService';
+import { fetchInventoryCategories, fetchInventoryItems } from './inventoryService';
+
+const log = loogin.scope('inventoryExportService');
+
+type ServiceResult<T> = { data: T | null; error: any | null };
+
+export type InventoryExportFormat = 'csv' | 'json';
+
+export interface InventoryExportFile extends ExportFile {
+  itemCount: number;
+}
+
+const CSV_COLUMNS = [
+  'name',
+  'sku',
+  'barcode',
+  'price',
+  'unit',
+  'category',
+  'categories',
+  'description',
+  'active',
+  'track_stock',
+  'stock_quantity',
+  'reorder_threshold',
+] as const;
+
+/** The largest page the items endpoint serves. */
+const EXPORT_PAGE_SIZE = 200;
+
+function buildInventoryCsv(items: InventoryItem[]): string {
+  const rows = items.map((item): Record<(typeof CSV_COLUMNS)[number], string> => {
+    const categoryNames = item.categories.map((category) => category.name);
+    return {
+      name: item.name,
+      sku: item.sku ?? '',
+      barcode: item.barcode ?? '',
+      price: formatMajorUnits(item.priceCents),
+      unit: item.unit ?? '',
+      // The importer takes a single category per row; any others are listed in `categories` for reference.
+      category: categoryNames[0] ?? '',
+      categories: categoryNames.join('; '),
+      description: item.description ?? '',
+      active: item.isActive ? 'true' : 'false',
+      track_stock: item.trackStock ? 'true' : 'false',
+      stock_quantity: item.trackStock ? String(item.stockQuantity) : '',
+      reorder_threshold: item.reorderThreshold != null ? String(item.reorderThreshold) : '',
+    };
+  });
+  return buildCsv(CSV_COLUMNS, rows);
+}
+
+function buildJson(shopId: string, items: InventoryItem[], categories: InventoryCategory[]): string {
+  return JSON.stringify(
+    {
+      version: 1,
+      shopId,
+      exportedAt: new Date().toISOString(),
+      categories: categories.map((category) => ({
+        name: category.name,
+        description: category.description ?? null,
+        isActive: category.isActive,
+      })),
+      items: items.map((item) => ({
+        name: item.name,
+        description: item.description ?? null,
+        sku: item.sku ?? null,
+        barcode: item.barcode ?? null,
+        price: formatMajorUnits(item.priceCents),
+        priceCents: item.priceCents,
+        currency: item.currency,
+        unit: item.unit ?? null,
+        quantityStep: item.quantityStep,
+        isActive: item.isActive,
+        categories: item.categories.map((category) => category.name),
+        trackStock: item.trackStock,
+        stockQuantity: item.stockQuantity,
+        reorderThreshold: item.reorderThreshold ?? null,
+        variants: item.variants.map((variant) => ({
+          optionGroup: variant.optionGroup ?? null,
+          name: variant.name,
+          sku: variant.sku ?? null,
+          barcode: variant.barcode ?? null,
+          price: formatMajorUnits(variant.priceCents),
+          priceCents: variant.priceCents,
+          isActive: variant.isActive,
+        })),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+function buildFileName(shopName: string, format: InventoryExportFormat): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `${toFileSlug(shopName)}-inventory-${date}.${format}`;
+}
+
+/** The export covers the whole shop, so follow the list cursor until the server runs out of pages. */
+async function fetchAllInventoryItems(shopId: string): Promise<ServiceResult<InventoryItem[]>> {
+  const items: InventoryItem[] = [];
+  let cursor: string | null = null;
+  do {
+    const { data, error } = await fetchInventoryItems(shopId, { cursor, limit: EXPORT_PAGE_SIZE });
+    if (error || !data) {
+      return { data: null, error };
+    }
+    items.push(...data.items);
+    cursor = data.nextCursor ?? null;
+  } while (cursor);
+  return { data: items, error: null };
+}
+
+export async function buildInventoryExport(
+  shop: { id: string; name: string },
+  format: InventoryExportFormat
+): Promise<ServiceResult<InventoryExportFile>> {
+  log.debug('buildInventoryExport', { shopId: shop.id, format });
+  const [itemsResult, categoriesResult] = await Promise.all([
+    fetchAllInventoryItems(shop.id),
+    fetchInventoryCategories(shop.id),
+  ]);
+  if (itemsResult.error || !itemsResult.data) {
+    return { data: null, error: itemsResult.error };
+  }
+  if (categoriesResult.error || !categoriesResult.data) {
+    return { data: null, error: categoriesResult.error };
+  }
+
+  const items = [...itemsResult.data].sort((a, b) => a.name.localeCompare(b.name));
+  const content = format === 'csv' ? buildInventoryCsv(items) : buildJson(shop.id, items, categoriesResult.data);
+  return {
+    data: {
+      fileName: buildFileName(shop.name, format),
+      mimeType: format === 'csv' ? 'text/csv' : 'application/json',
+      content,
+      itemCount: items.length,
+    },
+    error: null,
+  };
+}
@@ -5,11 +5,19 @@ import type {
   InventoryAuditLogEntry,
   InventoryAuditLogFilters,
   InventoryCategory,
+  InventoryImportJob,
+  InventoryImportPreview,
   InventoryListParams,
   InventoryListResponse,
   InventoryTemplateItem,
   InventoryTemplateCategory,
   InventoryItem,
+  InventoryItemVariant,
+  ItemUnit,
+  PriceChangeMode,
+  ScheduledPriceChange,
+  StockTakeLine,
+  StockTakeResult,
 } from '../../types/inventory';
 
 const log = loogin.scope('inventoryService');
@@ -59,6 +67,30 @@ function mapCategory(row: any): InventoryCategory {
   };
 }
 
+function mapVariant(row: any): InventoryItemVariant {
+  return {
+    id: row.id,
+    optionGroup: row.option_group ?? null,
+    name: row.name,
+    priceCents: row.price_cents ?? 0,
+    sku: row.sku ?? null,
+    barcode: row.barcode ?? null,
+    isActive: row.is_active ?? true,
+  };
+}
+
+function toVariantPayload(variant: InventoryItemVariant) {
+  return {
+    id: variant.id ?? null,
+    option_group: variant.optionGroup ?? null,
+    name: variant.name,
+    price_cents: variant.priceCents,
+    sku: variant.sku ?? null,
+    barcode: variant.barcode ?? null,
+    is_active: variant.isActive,
+  };
+}
+
 function mapItem(row: any): InventoryItem {
   if (row.id && row.shop_id) {
     itemShopMap.set(row.id, row.shop_id);
@@ -74,8 +106,14 @@ function mapItem(row: any): InventoryItem {
     sku: row.sku,
     priceCents: row.price_cents ?? 0,
     currency: row.currency ?? 'PKR',
+    unit: row.unit ?? null,
+    quantityStep: row.quantity_step ?? 1,
     isActive: row.is_active ?? true,
     isCustom: row.is_custom ?? false,
+    trackStock: row.track_stock ?? false,
+    stockQuantity: row.stock_quantity ?? 0,
+    reorderThreshold: row.reorder_threshold ?? null,
+    variants: (row.variants ?? []).map(mapVariant),
     categories: (row.categories ?? []).map(mapCategory),
     createdAt: row.created_at,
     updatedAt: row.updated_at,
@@ -210,22 +248,21 @@ export async function fetchInventoryItems(
 ): Promise<ServiceResult<InventoryListResponse>> {
   log.debug('fetchInventoryItems', { shopId, params });
   try {
-    const data = await apiClient.get<any[]>(`/api/v1/merchant/shops/${shopId}/items`);
-    let items = (data ?? []).map((row) => mapItem({ ...row, shop_id: row.shop_id || shopId }));
-    if (params.search?.trim()) {
-      const q = params.search.trim().toLowerCase();
-      items = items.filter((item) => item.name.toLowerCase().includes(q));
-    }
-    if (params.active !== null && params.active !== undefined) {
-      items = items.filter((item) => item.isActive === params.active);
-    }
-    if (params.categoryIds?.length) {
-      items = items.filter((item) => item.categories.some((cat) => params.categoryIds?.includes(cat.id)));
-    }
-    if (params.limit) {
-      items = items.slice(0, params.limit);
-    }
-    const nextCursor = items.length > 0 ? items[items.length - 1].updatedAt : null;
+    // Hermes / RN URLSearchParams often lacks .set(); build query string manually.
+    const pairs: string[] = [];
+    if (params.search?.trim()) pairs.push(`search=${encodeURIComponent(params.search.trim())}`);
+    params.categoryIds?.forEach((categoryId) => pairs.push(`categoryIds=${encodeURIComponent(categoryId)}`));
+    if (params.active !== null && params.active !== undefined) pairs.push(`active=${params.active}`);
+    if (params.templateFilter && params.templateFilter !== 'all') pairs.push(`templateFilter=${params.templateFilter}`);
+    if (params.lowStock) pairs.push('lowStock=true');
+    if (params.barcode?.trim()) pairs.push(`barcode=${encodeURIComponent(params.barcode.trim())}`);
+    if (params.cursor) pairs.push(`cursor=${encodeURIComponent(params.cursor)}`);
+    if (params.limit != null) pairs.push(`limit=${encodeURIComponent(String(params.limit))}`);
+    const qs = pairs.length > 0 ? pairs.join('&') : '';
+    const path = `/api/v1/merchant/shops/${shopId}/items${qs ? `?${qs}` : ''}`;
+    const data = await apiClient.get<{ items: any[]; next_cursor?: string | null }>(path);
+    const items = (data?.items ?? []).map((row) => mapItem({ ...row, shop_id: row.shop_id || shopId }));
+    const nextCursor = data?.next_cursor ?? null;
     return { data: { items, nextCursor }, error: null };
   } catch (error) {
     const apiError = toApiError(error);
@@ -234,6 +271,19 @@ export async function fetchInventoryItems(
   }
 }
 
+/** Total low-stock items for the shop; the low-stock list itself is paged. */
+export async function fetchLowStockCount(shopId: string): Promise<ServiceResult<number>> {
+  log.debug('fetchLowStockCount', { shopId });
+  try {
+    const data = await apiClient.get<{ count: number }>(`/api/v1/merchant/shops/${shopId}/items/low-stock-count`);
+    return { data: data?.count ?? 0, error: null };
+  } catch (error) {
+    const apiError = toApiError(error);
+    log.error('Failed to fetch low stock count', apiError);
+    return { data: null, error: apiError };
+  }
+}
+
 export async function createInventoryItem(payload: {
   shopId: string;
   templateId?: string | null;
@@ -243,7 +293,13 @@ export async function createInventoryItem(payload: {
   imageUrl?: string | null;
   sku?: string | null;
   priceCents: number;
+  unit?: ItemUnit | null;
+  quantityStep?: number;
   isActive: boolean;
+  trackStock?: boolean;
+  stockQuantity?: number;
+  reorderThreshold?: number | null;
+  variants?: InventoryItemVariant[];
   categoryIds: string[];
 }): Promise<ServiceResult<InventoryItem>> {
   log.debug('createInventoryItem', { shopId: payload.shopId, templateId: payload.templateId });
@@ -257,7 +313,13 @@ export async function createInventoryItem(payload: {
       image_url: localImageUri ? null : payload.imageUrl ?? null,
       sku: payload.sku ?? null,
       price_cents: payload.priceCents,
+      unit: payload.unit ?? null,
+      quantity_step: payload.quantityStep ?? 1,
       is_active: payload.isActive,
+      track_stock: payload.trackStock ?? false,
+      stock_quantity: payload.stockQuantity ?? 0,
+      reorder_threshold: payload.reorderThreshold ?? null,
+      variants: payload.variants?.map(toVariantPayload) ?? null,
       category_ids: payload.categoryIds,
     });
     let mapped = mapItem({ ...data, shop_id: payload.shopId });
@@ -276,8 +338,12 @@ export async function createInventoryItem(payload: {
 
 export async function updateInventoryItem(
   itemId: string,
-  updates: Partial<Pick<InventoryItem, 'description' | 'sku' | 'priceCents' | 'isActive' | 'imageUrl'>> & {
+  updates: Partial<Pick<InventoryItem, 'name' | 'description' | 'sku' | 'barcode' | 'priceCents' | 'unit' | 'quantityStep' | 'isActive' | 'imageUrl' | 'trackStock' | 'stockQuantity' | 'reorderThreshold' | 'variants'>> & {
     categoryIds?: string[];
+    /** Set when the update replays an audit entry's previous values; the server logs it with source `revert`. */
+    revertOfAuditLogId?: string;
+    /** Added to the current stock on the server instead of replacing it; reverts use it so later sales are kept. */
+    stockAdjustment?: number;
   }
 ): Promise<ServiceResult<InventoryItem>> {
   log.debug('updateInventoryItem', { itemId, updates });
@@ -297,12 +363,25 @@ export async function updateInventoryItem(
   try {
     const localImageUri = isLocalImageUri(updates.imageUrl) ? updates.imageUrl : null;
     const data = await apiClient.put<any>(`/api/v1/merchant/shops/${shopId}/items/${itemId}`, {
+      name: updates.name,
       description: updates.description,
       sku: updates.sku,
+      barcode: updates.barcode,
       price_cents: updates.priceCents,
+      // An empty string switches the item back to per-piece pricing; undefined leaves the unit unchanged.
+      unit: updates.unit === null ? '' : updates.unit,
+      quantity_step: updates.quantityStep,
       is_active: updates.isActive,
+      track_stock: updates.trackStock,
+      stock_quantity: updates.stockQuantity,
+      // The API treats a negative threshold as "clear"; null would mean "leave unchanged".
+      reorder_threshold: updates.reorderThreshold === null ? -1 : updates.reorderThreshold,
       image_url: localImageUri ? undefined : updates.imageUrl,
+      // Omitted leaves variants untouched; an empty array removes them all.
+      variants: updates.variants?.map(toVariantPayload),
       category_ids: updates.categoryIds,
+      revert_of_audit_log_id: updates.revertOfAuditLogId,
+      stock_adjustment: updates.stockAdjustment,
     });
     let mapped = mapItem({ ...data, shop_id: shopId });
     if (localImageUri) {
@@ -324,11 +403,15 @@ export async function toggleInventoryItemActive(itemId: string, isActive: boolea
 
 export async function fetchInventoryTemplates(params: {
   search?: string;
+  barcode?: string;
   limit?: number;
   cursor?: string | null;
 }): Promise<ServiceResult<{ items: InventoryTemplateItem[]; nextCursor?: string | null }>> {
   try {
-    const query = params.search ? `?search=${encodeURIComponent(params.search)}` : '';
+    const pairs: string[] = [];
+    if (params.search) pairs.push(`search=${encodeURIComponent(params.search)}`);
+    if (params.barcode) pairs.push(`barcode=${encodeURIComponent(params.barcode)}`);
+    const query = pairs.length > 0 ? `?${pairs.join('&')}` : '';
     const data = await apiClient.get<any[]>(`/api/v1/merchant/templates/items${query}`);
     const items = (data || []).map((row: any) => ({
       id: row.id,
@@ -375,6 +458,12 @@ export async function fetchInventoryAuditLog(
     if (filters.limit != null) pairs.push(`limit=${encodeURIComponent(String(filters.limit))}`);
     if (filters.merchantItemId) pairs.push(`merchantItemId=${encodeURIComponent(filters.merchantItemId)}`);
     if (filters.cursor) pairs.push(`cursor=${encodeURIComponent(filters.cursor)}`);
+    filters.actionTypes?.forEach((actionType) => pairs.push(`actionTypes=${encodeURIComponent(actionType)}`));
+    filters.actorIds?.forEach((actorId) => pairs.push(`actorIds=${encodeURIComponent(actorId)}`));
+    if (filters.field) pairs.push(`field=${encodeURIComponent(filters.field)}`);
+    if (filters.source) pairs.push(`source=${encodeURIComponent(filters.source)}`);
+    if (filters.dateFrom) pairs.push(`dateFrom=${encodeURIComponent(filters.dateFrom)}`);
+    if (filters.dateTo) pairs.push(`dateTo=${encodeURIComponent(filters.dateTo)}`);
     const qs = pairs.length > 0 ? pairs.join('&') : '';
     const path = `/api/v1/merchant/shops/${shopId}/items/audit-log${qs ? `?${qs}` : ''}`;
     const data = await apiClient.get<{ entries: any[]; next_cursor?: string | null }>(path);
@@ -396,6 +485,213 @@ export async function bulkAdoptTemplates(payload: {
   return { data: { jobId: 'unsupported' }, error: null };
 }
 
+export type InventoryImportFile = {
+  uri: string;
+  name: string;
+  type?: string | null;
+};
+
+function mapImportPreview(row: any): InventoryImportPreview {
+  return {
+    jobId: row.job_id,
+    fileName: row.file_name,
+    status: row.status,
+    creates: (row.creates ?? []).map((create: any) => ({
+      row: create.row,
+      name: create.name,
+      sku: create.sku ?? null,
+      barcode: create.barcode ?? null,
+      priceCents: create.price_cents ?? 0,
+      categoryId: create.category_id,
+      categoryName: create.category_name,
+    })),
+    updates: (row.updates ?? []).map((update: any) => ({
+      row: update.row,
+      itemId: update.item_id,
+      itemName: update.item_name ?? null,
+      changes: update.changes ?? [],
+    })),
+    rejects: (row.rejects ?? []).map((reject: any) => ({ row: reject.row, errors: reject.errors ?? [] })),
+    unchangedCount: row.unchanged_count ?? 0,
+    createdAt: row.created_at,
+  };
+}
+
+function mapImportJob(row: any): InventoryImportJob {
+  return {
+    id: row.id,
+    shopId: row.shop_id,
+    status: row.status,
+    fileName: row.file_name,
+    createCount: row.create_count ?? 0,
+    updateCount: row.update_count ?? 0,
+    rejectCount: row.reject_count ?? 0,
+    error: row.error ?? null,
+    createdAt: row.created_at,
+    completedAt: row.completed_at ?? null,
+  };
+}
+
+/**
+ * Uploads a CSV (columns: name, sku, barcode, price, category) and returns a dry-run preview.
+ * The returned job id is passed to `applyInventoryImport` once the merchant confirms.
+ */
+export async function previewInventoryImport(
+  shopId: string,
+  file: InventoryImportFile
+): Promise<ServiceResult<InventoryImportPreview>> {
+  log.debug('previewInventoryImport', { shopId, fileName: file.name });
+  try {
+    const formData = new FormData();
+    formData.append('file', {
+      uri: file.uri,
+      type: file.type || 'text/csv',
+      name: file.name,
+    } as any);
+    const data = await apiClient.post<any>(`/api/v1/merchant/shops/${shopId}/items/import`, formData, {
+      isFormData: true,
+    });
+    return { data: mapImportPreview(data), error: null };
+  } catch (error) {
+    const apiError = toApiError(error);
+    log.error('Failed to preview inventory import', apiError);
+    return { data: null, error: apiError };
+  }
+}
+
+export async function applyInventoryImport(shopId: string, jobId: string): Promise<ServiceResult<InventoryImportJob>> {
+  log.debug('applyInventoryImport', { shopId, jobId });
+  try {
+    const data = await apiClient.post<any>(`/api/v1/merchant/shops/${shopId}/items/import/${jobId}/apply`);
+    return { data: mapImportJob(data), error: null };
+  } catch (error) {
+    const apiError = toApiError(error);
+    log.error('Failed to apply inventory import', apiError);
+    return { data: null, error: apiError };
+  }
+}
+
+function mapPriceChange(row: any): ScheduledPriceChange {
+  return {
+    id: row.id,
+    categoryId: row.category_id,
+    categoryName: row.category_name ?? null,
+    mode: row.mode,
+    amount: Number(row.amount ?? 0),
+    effectiveAt: row.effective_at,
+    status: row.status,
+    appliedItemCount: row.applied_item_count ?? 0,
+    error: row.error ?? null,
+    createdAt: row.created_at,
+    appliedAt: row.applied_at ?? null,
+  };
+}
+
+/**
+ * Raises or lowers every item price in a category. Without `effectiveAt` (or with a past time) the change is applied
+ * immediately; otherwise the server applies it once the time passes.
+ */
+export async function scheduleCategoryPriceChange(payload: {
+  shopId: string;
+  categoryId: string;
+  mode: PriceChangeMode;
+  amount: number;
+  effectiveAt?: string | null;
+}): Promise<ServiceResult<ScheduledPriceChange>> {
+  log.debug('scheduleCategoryPriceChange', payload);
+  try {
+    const data = await apiClient.post<any>(
+      `/api/v1/merchant/shops/${payload.shopId}/categories/${payload.categoryId}/price-changes`,
+      {
+        mode: payload.mode,
+        amount: payload.amount,
+        effective_at: payload.effectiveAt ?? null,
+      }
+    );
+    return { data: mapPriceChange(data), error: null };
+  } catch (error) {
+    const apiError = toApiError(error);
+    log.error('Failed to schedule price change', apiError);
+    return { data: null, error: apiError };
+  }
+}
+
+export async function fetchScheduledPriceChanges(shopId: string): Promise<ServiceResult<ScheduledPriceChange[]>> {
+  log.debug('fetchScheduledPriceChanges', { shopId });
+  try {
+    const data = await apiClient.get<any[]>(`/api/v1/merchant/shops/${shopId}/price-changes`);
+    return { data: (data ?? []).map(mapPriceChange), error: null };
+  } catch (error) {
+    const apiError = toApiError(error);
+    log.error('Failed to fetch price changes', apiError);
+    return { data: null, error: apiError };
+  }
+}
+
+export async function cancelScheduledPriceChange(shopId: string, changeId: string): Promise<ServiceResult<{ id: string }>> {
+  log.debug('cancelScheduledPriceChange', { shopId, changeId });
+  try {
+    await apiClient.post(`/api/v1/merchant/shops/${shopId}/price-changes/${changeId}/cancel`);
+    return { data: { id: changeId }, error: null };
+  } catch (error) {
+    const apiError = toApiError(error);
+    log.error('Failed to cancel price change', apiError);
+    return { data: null, error: apiError };
+  }
+}
+
+/**
+ * Looks up a scanned barcode for stock taking: the shop's own item first, then the shared catalog. Both are null when
+ * the barcode is unknown.
+ */
+export async function lookupInventoryBarcode(
+  shopId: string,
+  barcode: string
+): Promise<ServiceResult<{ item: InventoryItem | null; template: InventoryTemplateItem | null }>> {
+  log.debug('lookupInventoryBarcode', { shopId, barcode });
+  const itemResult = await fetchInventoryItems(shopId, { barcode, limit: 1 });
+  if (itemResult.error) {
+    return { data: null, error: itemResult.error };
+  }
+  const item = itemResult.data?.items[0] ?? null;
+  if (item) {
+    return { data: { item, template: null }, error: null };
+  }
+  const templateResult = await fetchInventoryTemplates({ barcode });
+  if (templateResult.error) {
+    return { data: null, error: templateResult.error };
+  }
+  return { data: { item: null, template: templateResult.data?.items[0] ?? null }, error: null };
+}
+
+/** Commits a stock-take session in one request; the server writes every line in a single transaction. */
+export async function commitStockTake(shopId: string, lines: StockTakeLine[]): Promise<ServiceResult<StockTakeResult>> {
+  log.debug('commitStockTake', { shopId, lineCount: lines.length });
+  try {
+    const data = await apiClient.post<any>(`/api/v1/merchant/shops/${shopId}/items/stock-take`, {
+      lines: lines.map((line) => ({
+        item_id: line.itemId ?? null,
+        template_id: line.templateId ?? null,
+        stock_quantity: line.stockQuantity ?? null,
+        price_cents: line.priceCents ?? null,
+        category_id: line.categoryId ?? null,
+      })),
+    });
+    return {
+      data: {
+        updatedCount: data?.updated_count ?? 0,
+        createdCount: data?.created_count ?? 0,
+        unchangedCount: data?.unchanged_count ?? 0,
+      },
+      error: null,
+    };
+  } catch (error) {
+    const apiError = toApiError(error);
+    log.error('Failed to commit stock take', apiError);
+    return { data: null, error: apiError };
+  }
+}
+
 export async function deleteInventoryItem(itemId: string): Promise<ServiceResult<{ id: string }>> {
   const shopId = itemShopMap.get(itemId);
   if (!shopId) {
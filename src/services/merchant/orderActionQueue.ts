@@ -0,0 +1,345 @@
+/**
+ * Merchant Order Action Queue
+ *
+ * Confirm / dispatch / deliver / cancel are stored in AsyncStorage before they
+ * are sent, so a flaky connection no longer loses them. Anything that did not
+ * get a definite answer from the server stays pending and is replayed, in the
+ * order it was taken, whenever networkStateManager reports connectivity.
+ * Each action carries its own idempotency key, so a replay of a request whose
+ * response was lost is acknowledged by the backend instead of failing.
+ * A retryable miss while online is retried on a backoff timer. The queue is
+ * stored per signed-in user, so one account never replays another's actions.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { loogin } from '../../lib/loogin';
+import { addNetworkListener, isNetworkCurrentlyAvailable } from '../../utils/networkStateManager';
+import {
+  assignRunnerAndDispatch,
+  cancelOrder,
+  confirmOrder,
+  markOrderDelivered,
+  type OrderActionResult,
+} from './orderService';
+import type { CancellationReasonCode, MerchantOrderActionType, QueuedOrderAction } from '../../types/orders';
+
+const log = loogin.scope('orderActionQueue');
+
+const QUEUE_STORAGE_KEY = 'aroundyou_merchant_order_actions';
+
+// A retryable miss is tried again after 5s, doubling per attempt up to 5 minutes.
+const RETRY_BASE_DELAY_MS = 5 * 1000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+// Synced and failed entries are kept for a day so the order screen can still show what happened to them.
+const SETTLED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export type OrderActionInput = {
+  type: MerchantOrderActionType;
+  orderId: string;
+  runnerId?: string;
+  reasonCode?: CancellationReasonCode;
+  note?: string;
+};
+
+export type SubmitOrderActionResult = {
+  success: boolean;
+  message?: string;
+  /** Saved locally and waiting for the connection to come back. */
+  queued?: boolean;
+};
+
+type QueueListener = (actions: QueuedOrderAction[]) => void;
+
+let actions: QueuedOrderAction[] = [];
+let userId: string | null = null;
+let loadPromise: Promise<void> | null = null;
+let flushPromise: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let unsubscribeNetwork: (() => void) | null = null;
+const listeners: Set<QueueListener> = new Set();
+
+function storageKey(owner: string): string {
+  return `${QUEUE_STORAGE_KEY}_${owner}`;
+}
+
+function createIdempotencyKey(): string {
+  // Hermes has no crypto.randomUUID; the key only has to be unique per order, so time plus randomness is enough.
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+function isExpired(action: QueuedOrderAction, now: number): boolean {
+  if (action.status === 'pending') return false;
+  const settledAt = new Date(action.synced_at ?? action.queued_at).getTime();
+  return now - settledAt > SETTLED_RETENTION_MS;
+}
+
+// `other` needs a note, so an old cancel queued without a reason is sent with this one.
+const LEGACY_CANCEL_NOTE = 'Cancelled by the shop';
+// The server's limit on a cancellation note.
+const MAX_CANCEL_NOTE_LENGTH = 500;
+
+/** A cancel queued before reason codes becomes `other`, carrying its free-text reason (or a default) as the note. */
+function upgradeLegacyCancel(action: QueuedOrderAction): QueuedOrderAction {
+  if (action.type !== 'cancel' || action.reason_code) return action;
+  const { reason, ...rest } = action;
+  const note = reason?.trim() || LEGACY_CANCEL_NOTE;
+  return { ...rest, reason_code: 'other', note: note.slice(0, MAX_CANCEL_NOTE_LENGTH) };
+}
+
+function loadQueue(): Promise<void> {
+  if (!loadPromise) {
+    const owner = userId;
+    loadPromise = (async () => {
+      if (!owner) {
+        actions = [];
+        return;
+      }
+      try {
+        const stored = await AsyncStorage.getItem(storageKey(owner));
+        const parsed: QueuedOrderAction[] = stored ? JSON.parse(stored) : [];
+        const now = Date.now();
+        // The user may have changed while this read was in flight; their queue is loaded separately.
+        if (userId === owner) {
+          actions = parsed.filter((action) => !isExpired(action, now)).map(upgradeLegacyCancel);
+        }
+      } catch (error) {
+        log.error('Failed to load queued order actions', error);
+        actions = [];
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+function notifyListeners(): void {
+  listeners.forEach((listener) => {
+    try {
+      listener(actions);
+    } catch (error) {
+      log.error('Queue listener failed', error);
+    }
+  });
+}
+
+async function saveQueue(next: QueuedOrderAction[]): Promise<void> {
+  actions = next;
+  notifyListeners();
+  if (!userId) return;
+  try {
+    await AsyncStorage.setItem(storageKey(userId), JSON.stringify(actions));
+  } catch (error) {
+    log.error('Failed to persist queued order actions', error);
+  }
+}
+
+function clearRetryTimer(): void {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+}
+
+/** Schedules a flush after a retryable miss. An already scheduled retry is kept; it flushes every pending action. */
+function scheduleRetry(attempts: number): void {
+  if (retryTimer) return;
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOrderActionQueue();
+  }, delay);
+}
+
+async function updateAction(id: string, patch: Partial<QueuedOrderAction>): Promise<void> {
+  await saveQueue(actions.map((action) => (action.id === id ? { ...action, ...patch } : action)));
+}
+
+function sendAction(action: QueuedOrderAction): Promise<OrderActionResult> {
+  const options = { idempotencyKey: action.id };
+  switch (action.type) {
+    case 'confirm':
+      return confirmOrder(action.order_id, options);
+    case 'dispatch':
+      return assignRunnerAndDispatch(action.order_id, action.runner_id ?? '', options);
+    case 'deliver':
+      return markOrderDelivered(action.order_id, options);
+    case 'cancel':
+      return cancelOrder(action.order_id, action.reason_code ?? 'other', action.note, options);
+  }
+}
+
+/**
+ * Sends one pending action and records the outcome. Returns the server result so the
+ * caller can tell a retryable miss from a rejection.
+ */
+async function attemptAction(action: QueuedOrderAction): Promise<OrderActionResult> {
+  const result = await sendAction(action);
+  if (result.success) {
+    await updateAction(action.id, {
+      status: 'synced',
+      attempts: action.attempts + 1,
+      synced_at: new Date().toISOString(),
+      error: undefined,
+    });
+  } else if (result.retryable) {
+    await updateAction(action.id, { attempts: action.attempts + 1, error: result.message });
+    // Offline misses wait for the reconnect listener; online ones (timeouts, 5xx) need a timer or they stall.
+    if (isNetworkCurrentlyAvailable()) {
+      scheduleRetry(action.attempts + 1);
+    }
+  } else {
+    await updateAction(action.id, {
+      status: 'failed',
+      attempts: action.attempts + 1,
+      synced_at: new Date().toISOString(),
+      error: result.message,
+    });
+  }
+  return result;
+}
+
+/**
+ * Replays every pending action, oldest first. An order whose action misses again is
+ * skipped for the rest of the pass so its later actions are never sent out of order.
+ */
+export function flushOrderActionQueue(): Promise<void> {
+  if (!flushPromise) {
+    flushPromise = (async () => {
+      await loadQueue();
+      const owner = userId;
+      const blockedOrders = new Set<string>();
+      const pending = actions.filter((action) => action.status === 'pending');
+      for (const queued of pending) {
+        // Re-read: a direct submit may have settled it while this pass was running.
+        const action = actions.find((current) => current.id === queued.id);
+        if (!action || action.status !== 'pending' || blockedOrders.has(action.order_id)) continue;
+        // Stop if the merchant signed out or switched accounts mid-pass.
+        if (!isNetworkCurrentlyAvailable() || userId !== owner) break;
+        const result = await attemptAction(action);
+        if (!result.success && result.retryable) {
+          blockedOrders.add(action.order_id);
+        } else if (!result.success) {
+          log.warn('Queued order action rejected', { type: action.type, orderId: action.order_id, message: result.message });
+        }
+      }
+    })().finally(() => {
+      flushPromise = null;
+    });
+  }
+  return flushPromise;
+}
+
+/**
+ * Queue an order action and try to send it straight away.
+ * Succeeds with `queued: true` when the action is saved but could not be delivered yet;
+ * fails only when the server rejected it, in which case nothing is left in the queue.
+ */
+export async function submitOrderAction(input: OrderActionInput): Promise<SubmitOrderActionResult> {
+  await loadQueue();
+
+  const duplicate = actions.find(
+    (action) => action.status === 'pending' && action.order_id === input.orderId && action.type === input.type
+  );
+  if (duplicate) {
+    return { success: true, queued: true };
+  }
+
+  const action: QueuedOrderAction = {
+    id: createIdempotencyKey(),
+    type: input.type,
+    order_id: input.orderId,
+    runner_id: input.runnerId,
+    reason_code: input.reasonCode,
+    note: input.note,
+    status: 'pending',
+    attempts: 0,
+    queued_at: new Date().toISOString(),
+  };
+  const hasEarlierPending = actions.some(
+    (queued) => queued.status === 'pending' && queued.order_id === input.orderId
+  );
+  await saveQueue([...actions, action]);
+
+  // Wait behind earlier actions for the same order; flushing sends them in order.
+  if (hasEarlierPending || !isNetworkCurrentlyAvailable()) {
+    if (isNetworkCurrentlyAvailable()) {
+      flushOrderActionQueue();
+    }
+    return { success: true, queued: true };
+  }
+
+  const result = await attemptAction(action);
+  if (result.success) {
+    return { success: true };
+  }
+  if (result.retryable) {
+    return { success: true, queued: true };
+  }
+  // The merchant sees this rejection right away, so it does not need to linger as a failed entry.
+  await saveQueue(actions.filter((queued) => queued.id !== action.id));
+  return { success: false, message: result.message };
+}
+
+/**
+ * Remove a synced or failed entry once the merchant has seen it.
+ */
+export async function dismissOrderAction(id: string): Promise<void> {
+  await loadQueue();
+  await saveQueue(actions.filter((action) => action.id !== id || action.status === 'pending'));
+}
+
+/**
+ * Subscribe to queue changes. The listener is called with the current queue once it has loaded.
+ * Returns a cleanup function.
+ */
+export function subscribeToOrderActionQueue(listener: QueueListener): () => void {
+  listeners.add(listener);
+  loadQueue().then(() => {
+    if (listeners.has(listener)) {
+      listener(actions);
+    }
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Point the queue at the signed-in user's stored actions (null when signed out) and replay any that are pending.
+ * Call whenever the signed-in user changes.
+ */
+export function setOrderActionQueueUser(nextUserId: string | null): void {
+  if (nextUserId === userId) return;
+  userId = nextUserId;
+  clearRetryTimer();
+  actions = [];
+  loadPromise = null;
+  loadQueue().then(() => {
+    if (userId !== nextUserId) return;
+    notifyListeners();
+    if (nextUserId) {
+      flushOrderActionQueue();
+    }
+  });
+}
+
+/**
+ * Start replaying on reconnect. Call once at app startup, after the network state manager.
+ * Returns a cleanup function.
+ */
+export function initializeOrderActionQueue(): () => void {
+  if (!unsubscribeNetwork) {
+    unsubscribeNetwork = addNetworkListener((isConnected) => {
+      if (isConnected) {
+        flushOrderActionQueue();
+      }
+    });
+  }
+  flushOrderActionQueue();
+
+  return () => {
+    unsubscribeNetwork?.();
+    unsubscribeNetwork = null;
+    clearRetryTimer();
+  };
+}
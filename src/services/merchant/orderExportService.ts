@@ -0,0 +1,127 @@
+/**
+ * Order Export Service
+ *
+ * Builds a CSV of a shop's orders for a dashboard range and hands it to the OS share sheet. The range is the one
+ * the dashboard chart uses, by placed time, and money columns are in major units so the file drops straight into a
+ * spreadsheet for accounting.
+ */
+
+import { loogin } from '../../lib/loogin';
+import { OrderWithAll, formatOrderItemQuantity } from '../../types/orders';
+import { buildCsv, ExportFile, formatMajorUnits, toFileSlug } from './exportFileService';
+import { getShopOrdersPlacedInRange, TimeSeriesFilter } from './orderService';
+
+const log = loogin.scope('orderExportService');
+
+type ServiceResult<T> = { data: T | null; error: any | null };
+
+export interface OrderExportFile extends ExportFile {
+  orderCount: number;
+}
+
+const CSV_COLUMNS = [
+  'order_number',
+  'status',
+  'placed_at',
+  'confirmed_at',
+  'out_for_delivery_at',
+  'delivered_at',
+  'cancelled_at',
+  'customer',
+  'items',
+  'subtotal',
+  'delivery_fee',
+  'surcharge',
+  'total',
+  'payment_method',
+  'runner',
+  'cancellation_reason',
+  'cancellation_note',
+  'cancelled_by',
+] as const;
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/** Local time as `YYYY-MM-DD HH:mm:ss`, which spreadsheets parse as a date-time. */
+function formatTimestamp(iso?: string | null): string {
+  if (!iso) return '';
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return '';
+  return (
+    `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ` +
+    `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`
+  );
+}
+
+function formatItems(order: OrderWithAll): string {
+  return (order.order_items ?? [])
+    .map((item) => {
+      const name = item.variant_name ? `${item.item_name} (${item.variant_name})` : item.item_name;
+      return `${formatOrderItemQuantity(item)} x ${name}`;
+    })
+    .join('; ');
+}
+
+function buildOrdersCsv(orders: OrderWithAll[]): string {
+  const rows = orders.map((order): Record<(typeof CSV_COLUMNS)[number], string> => ({
+    order_number: order.order_number,
+    status: order.status,
+    placed_at: formatTimestamp(order.placed_at),
+    confirmed_at: formatTimestamp(order.confirmed_at),
+    out_for_delivery_at: formatTimestamp(order.out_for_delivery_at),
+    delivered_at: formatTimestamp(order.delivered_at),
+    cancelled_at: formatTimestamp(order.cancelled_at),
+    customer: order.customer_name ?? '',
+    items: formatItems(order),
+    subtotal: formatMajorUnits(order.subtotal_cents),
+    delivery_fee: formatMajorUnits(order.delivery_fee_cents),
+    surcharge: formatMajorUnits(order.surcharge_cents),
+    total: formatMajorUnits(order.total_cents),
+    payment_method: order.payment_method,
+    runner: order.delivery_runner?.name ?? '',
+    cancellation_reason: order.cancellation_reason_code ?? '',
+    cancellation_note: order.cancellation_reason ?? '',
+    cancelled_by: order.cancelled_by ?? '',
+  }));
+  return buildCsv(CSV_COLUMNS, rows);
+}
+
+function formatFileDate(d: Date): string {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function buildFileName(shopName: string, timeFilter: TimeSeriesFilter, customStartDate?: Date, customEndDate?: Date): string {
+  const range =
+    timeFilter === 'custom' && customStartDate && customEndDate
+      ? `${formatFileDate(customStartDate)}-to-${formatFileDate(customEndDate)}`
+      : `${timeFilter.replace('_', '-')}-${formatFileDate(new Date())}`;
+  return `${toFileSlug(shopName)}-orders-${range}.csv`;
+}
+
+export async function buildOrderExport(
+  shop: { id: string; name: string },
+  timeFilter: TimeSeriesFilter,
+  customStartDate?: Date,
+  customEndDate?: Date
+): Promise<ServiceResult<OrderExportFile>> {
+  log.debug('buildOrderExport', { shopId: shop.id, timeFilter });
+  let orders: OrderWithAll[];
+  try {
+    orders = await getShopOrdersPlacedInRange(shop.id, timeFilter, customStartDate, customEndDate);
+  } catch (error) {
+    log.error('buildOrderExport failed', error);
+    return { data: null, error };
+  }
+
+  return {
+    data: {
+      fileName: buildFileName(shop.name, timeFilter, customStartDate, customEndDate),
+      mimeType: 'text/csv',
+      content: buildOrdersCsv(orders),
+      orderCount: orders.length,
+    },
+    error: null,
+  };
+}
@@ -0,0 +1,396 @@
+/**
+ * Order Receipt Service
+ *
+ * Renders an order as a customer receipt or a packing slip, either as ESC/POS bytes for a thermal printer or as a
+ * print-ready HTML page, and hands the file to the OS share sheet. Thermal printing goes through a printer app that
+ * accepts raw ESC/POS files (e.g. RawBT); the HTML page is saved as PDF from the browser's or OS print dialog.
+ * Thermal printers neither join nor reorder Urdu script, so ESC/POS lines with Urdu in them are drawn by the app
+ * (`rasterizeText`) and sent as images.
+ */
+
+import Share from 'react-native-share';
+import Base64 from 'crypto-js/enc-base64';
+import Latin1 from 'crypto-js/enc-latin1';
+import Utf8 from 'crypto-js/enc-utf8';
+import { loogin } from '../../lib/loogin';
+import { OrderItem, OrderWithAll, formatOrderItemQuantity, formatPrice } from '../../types/orders';
+import { formatQuantity } from '../../utils/unitQuantity';
+import {
+  DOTS_PER_COLUMN,
+  EscPosAlign,
+  EscPosEncoding,
+  MonoBitmap,
+  createEscPosBuilder,
+  hasRtlScript,
+} from '../../utils/escpos';
+import { getMerchantShop } from './shopService';
+
+const log = loogin.scope('orderReceiptService');
+
+type ServiceResult<T> = { data: T | null; error: any | null };
+
+type Translate = (key: string, options?: Record<string, unknown>) => string;
+
+/** A receipt carries prices and the fee breakdown; a packing slip has tick boxes and no prices. */
+export type OrderSlipKind = 'receipt' | 'packing_slip';
+
+export type OrderSlipFormat = 'escpos' | 'html';
+
+export type SlipTextStyle = { align: EscPosAlign; bold?: boolean; large?: boolean };
+
+/**
+ * One ESC/POS line to draw as an image `width` dots wide. `start` sits at the reading start (the right when `rtl`)
+ * and wraps; `end`, for a row's value, sits at the other side.
+ */
+export type SlipTextBlock = SlipTextStyle & {
+  start: string;
+  end?: string;
+  width: number;
+  rtl: boolean;
+};
+
+export interface OrderSlipOptions {
+  kind: OrderSlipKind;
+  format: OrderSlipFormat;
+  t: Translate;
+  isRTL: boolean;
+  /** Characters per line for ESC/POS: 32 on 58mm paper (default), 48 on 80mm. */
+  columns?: number;
+  /** ESC/POS text encoding; `ascii` for printers without a Unicode font. */
+  encoding?: EscPosEncoding;
+  /** Draws an ESC/POS line that has Urdu in it; without it such lines are sent as text and print unjoined. */
+  rasterizeText?: (block: SlipTextBlock) => Promise<MonoBitmap>;
+}
+
+export interface OrderSlipFile {
+  fileName: string;
+  mimeType: string;
+  base64: string;
+}
+
+type SlipLine = {
+  text: string;
+  details: string[];
+  amount: string | null;
+};
+
+type SlipDocument = {
+  kind: OrderSlipKind;
+  isRTL: boolean;
+  title: string;
+  shopName: string;
+  shopAddress: string;
+  orderNumber: string;
+  placedAt: string;
+  customer: string[];
+  lines: SlipLine[];
+  totals: Array<{ label: string; value: string; isTotal?: boolean }>;
+  payment: string;
+  address: string[];
+  landmark: string | null;
+  instructions: string | null;
+  footer: string;
+};
+
+function describeItem(item: OrderItem, kind: OrderSlipKind, t: Translate): string[] {
+  const details: string[] = [];
+  if (item.packing_status === 'unavailable') {
+    details.push(t('merchant.orders.packing.unavailableSummary'));
+  } else if (item.packing_status === 'short' && item.packed_quantity != null) {
+    details.push(
+      t('merchant.orders.packing.shortSummary', {
+        packed: formatQuantity(item.packed_quantity, item.unit),
+        ordered: formatQuantity(item.quantity, item.unit),
+      })
+    );
+  }
+  const substitution = item.substitution;
+  // Only an accepted substitute is billed; the packer also needs to see one that is still waiting.
+  if (substitution && (substitution.status === 'accepted' || (kind === 'packing_slip' && substitution.status === 'proposed'))) {
+    details.push(
+      t('merchant.orders.packing.substituteLine', {
+        quantity: formatQuantity(substitution.quantity, substitution.unit),
+        name: substitution.item_name,
+        amount: formatPrice(substitution.subtotal_cents),
+      })
+    );
+    if (substitution.status === 'proposed') {
+      details.push(t('merchant.orders.packing.substitutionStatus.proposed'));
+    }
+  }
+  return details;
+}
+
+function buildDocument(
+  order: OrderWithAll,
+  shop: { name: string; address: string },
+  { kind, t, isRTL }: OrderSlipOptions
+): SlipDocument {
+  const address = order.delivery_address;
+  const isReceipt = kind === 'receipt';
+
+  const totals: SlipDocument['totals'] = [
+    { label: t('merchant.orders.subtotal'), value: formatPrice(order.subtotal_cents) },
+  ];
+  if (order.surcharge_cents > 0) {
+    totals.push({ label: t('merchant.orders.surcharge'), value: formatPrice(order.surcharge_cents) });
+  }
+  totals.push(
+    { label: t('merchant.orders.delivery'), value: formatPrice(order.delivery_fee_cents) },
+    { label: t('merchant.orders.total'), value: formatPrice(order.total_cents), isTotal: true }
+  );
+
+  return {
+    kind,
+    isRTL,
+    title: isReceipt ? t('merchant.orders.receipt.receiptTitle') : t('merchant.orders.receipt.packingSlipTitle'),
+    shopName: shop.name,
+    shopAddress: shop.address,
+    orderNumber: order.order_number,
+    placedAt: new Date(order.placed_at).toLocaleString(),
+    customer: [order.customer_name, order.customer_phone].filter((value): value is string => Boolean(value)),
+    lines: (order.order_items ?? []).map((item) => ({
+      text: `${formatOrderItemQuantity(item)} x ${item.item_name}${item.variant_name ? ` (${item.variant_name})` : ''}`,
+      details: describeItem(item, kind, t),
+      amount: isReceipt ? formatPrice(item.subtotal_cents) : null,
+    })),
+    totals: isReceipt ? totals : [],
+    payment: t(`merchant.orders.receipt.paymentMethods.${order.payment_method}`),
+    address: [
+      address?.street_address,
+      [address?.city, address?.region].filter(Boolean).join(', '),
+    ].filter((value): value is string => Boolean(value)),
+    landmark: address?.landmark || null,
+    instructions: order.special_instructions || null,
+    footer: isReceipt ? t('merchant.orders.receipt.thankYou') : '',
+  };
+}
+
+async function renderEscPos(doc: SlipDocument, options: OrderSlipOptions): Promise<Uint8Array> {
+  const { t, rasterizeText } = options;
+  const columns = options.columns ?? 32;
+  const printer = createEscPosBuilder({
+    columns,
+    encoding: options.encoding ?? 'utf8',
+    rtl: doc.isRTL,
+  });
+  const side = doc.isRTL ? 'right' : 'left';
+  const body: SlipTextStyle = { align: side };
+  const heading: SlipTextStyle = { align: side, bold: true };
+  const centered: SlipTextStyle = { align: 'center' };
+
+  const drawn = (text: string, style: SlipTextStyle, end?: string) =>
+    rasterizeText!({ ...style, start: text, end, width: columns * DOTS_PER_COLUMN, rtl: doc.isRTL });
+  const needsImage = (text: string) => Boolean(rasterizeText) && hasRtlScript(text);
+  const styled = (style: SlipTextStyle, print: () => void) => {
+    printer.align(style.align).bold(Boolean(style.bold)).doubleSize(Boolean(style.large));
+    print();
+    printer.doubleSize(false).bold(false);
+  };
+
+  // `prefix` (an indent or tick box) goes on the reading-start side. Sent as text, the printer lays everything out
+  // left to right, so an RTL slip puts it after the text by hand; a drawn line gets the order from its direction.
+  const line = async (text: string, style: SlipTextStyle, prefix?: string) => {
+    if (needsImage(text)) {
+      printer.image(await drawn(prefix ? `${prefix} ${text}` : text, style));
+      return;
+    }
+    const content = !prefix ? text : doc.isRTL ? `${text} ${prefix}` : `${prefix} ${text}`;
+    styled(style, () => printer.line(content));
+  };
+  const row = async (label: string, value: string, style: SlipTextStyle) => {
+    if (needsImage(`${label}${value}`)) {
+      printer.image(await drawn(label, style, value));
+      return;
+    }
+    styled(style, () => printer.row(label, value));
+  };
+
+  await line(doc.shopName, { align: 'center', bold: true, large: true });
+  if (doc.shopAddress) await line(doc.shopAddress, centered);
+  printer.feed(1);
+  await line(doc.title, { align: 'center', bold: true });
+  await line(`#${doc.orderNumber}`, centered);
+  await line(doc.placedAt, centered);
+
+  printer.align(side).divider();
+  for (const item of doc.lines) {
+    if (doc.kind === 'packing_slip') {
+      await line(item.text, body, '[ ]');
+    } else {
+      await row(item.text, item.amount ?? '', body);
+    }
+    for (const detail of item.details) {
+      await line(detail, body, ' ');
+    }
+  }
+  printer.divider();
+
+  for (const total of doc.totals) {
+    await row(total.label, total.value, { align: side, bold: total.isTotal });
+  }
+  if (doc.kind === 'receipt') {
+    await row(t('merchant.orders.payment'), doc.payment, body);
+    printer.divider();
+  }
+
+  if (doc.customer.length > 0) {
+    await line(t('merchant.orders.customer'), heading);
+    for (const value of doc.customer) await line(value, body);
+  }
+  await line(t('merchant.orders.deliveryAddress'), heading);
+  for (const value of doc.address) await line(value, body);
+  if (doc.landmark) await line(`${t('merchant.orders.landmark')}: ${doc.landmark}`, body);
+  if (doc.instructions) {
+    printer.divider();
+    await line(t('merchant.orders.specialInstructions'), heading);
+    await line(doc.instructions, body);
+  }
+  if (doc.footer) {
+    printer.divider();
+    await line(doc.footer, centered);
+  }
+
+  return printer.feed(3).cut().build();
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderHtml(doc: SlipDocument, { t }: OrderSlipOptions): string {
+  const e = escapeHtml;
+  const section = (title: string, lines: string[]) =>
+    lines.length > 0
+      ? `<section><h3>${e(title)}</h3>${lines.map((line) => `<p>${e(line)}</p>`).join('')}</section>`
+      : '';
+
+  const rows = doc.lines
+    .map(
+      (line) => `<tr>
+        <td>${doc.kind === 'packing_slip' ? '&#9744; ' : ''}${e(line.text)}${line.details
+          .map((detail) => `<div class="detail">${e(detail)}</div>`)
+          .join('')}</td>
+        <td class="amount">${line.amount ? e(line.amount) : ''}</td>
+      </tr>`
+    )
+    .join('');
+  const totals = doc.totals
+    .map(
+      (total) =>
+        `<tr class="${total.isTotal ? 'total' : ''}"><td>${e(total.label)}</td><td class="amount">${e(total.value)}</td></tr>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="${doc.isRTL ? 'ur' : 'en'}" dir="${doc.isRTL ? 'rtl' : 'ltr'}">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${e(`${doc.title} ${doc.orderNumber}`)}</title>
+<style>
+  @page { size: 80mm auto; margin: 4mm; }
+  body { font-family: 'Noto Nastaliq Urdu', 'Noto Naskh Arabic', 'Jameel Noori Nastaleeq', system-ui, sans-serif;
+    font-size: 12px; line-height: 1.6; max-width: 80mm; margin: 0 auto; color: #111; }
+  header { text-align: center; }
+  h1 { font-size: 18px; margin: 0; }
+  h2 { font-size: 14px; margin: 8px 0 0; }
+  h3 { font-size: 12px; margin: 8px 0 0; }
+  p { margin: 0; }
+  table { width: 100%; border-collapse: collapse; }
+  td { padding: 3px 0; vertical-align: top; unicode-bidi: plaintext; }
+  td.amount { text-align: end; white-space: nowrap; padding-inline-start: 8px; }
+  .items td { border-bottom: 1px dashed #999; }
+  .detail { color: #555; font-size: 11px; }
+  .total td { font-weight: bold; border-top: 1px solid #111; }
+  section, .totals { margin-top: 8px; }
+  footer { text-align: center; margin-top: 12px; }
+</style>
+</head>
+<body>
+<header>
+  <h1>${e(doc.shopName)}</h1>
+  ${doc.shopAddress ? `<p>${e(doc.shopAddress)}</p>` : ''}
+  <h2>${e(doc.title)}</h2>
+  <p><bdi>#${e(doc.orderNumber)}</bdi></p>
+  <p>${e(doc.placedAt)}</p>
+</header>
+<table class="items">${rows}</table>
+${totals ? `<table class="totals">${totals}</table>` : ''}
+${doc.kind === 'receipt' ? `<table class="totals"><tr><td>${e(t('merchant.orders.payment'))}</td><td class="amount">${e(doc.payment)}</td></tr></table>` : ''}
+${section(t('merchant.orders.customer'), doc.customer)}
+${section(t('merchant.orders.deliveryAddress'), [
+  ...doc.address,
+  ...(doc.landmark ? [`${t('merchant.orders.landmark')}: ${doc.landmark}`] : []),
+])}
+${section(t('merchant.orders.specialInstructions'), doc.instructions ? [doc.instructions] : [])}
+${doc.footer ? `<footer>${e(doc.footer)}</footer>` : ''}
+</body>
+</html>
+`;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return Base64.stringify(Latin1.parse(binary));
+}
+
+export async function buildOrderSlip(
+  order: OrderWithAll,
+  options: OrderSlipOptions
+): Promise<ServiceResult<OrderSlipFile>> {
+  log.debug('buildOrderSlip', { orderId: order.id, kind: options.kind, format: options.format });
+  try {
+    // Merchant order payloads only carry the shop id; fall back to whatever the order has if the lookup fails.
+    const { shop: merchantShop } = await getMerchantShop(order.shop_id);
+    const shop = {
+      name: merchantShop?.name ?? order.shop?.name ?? '',
+      address: merchantShop?.address ?? order.shop?.address ?? '',
+    };
+    const doc = buildDocument(order, shop, options);
+    const baseName = `${order.order_number}-${options.kind === 'receipt' ? 'receipt' : 'packing-slip'}`;
+
+    if (options.format === 'escpos') {
+      return {
+        data: {
+          fileName: `${baseName}.bin`,
+          mimeType: 'application/octet-stream',
+          base64: bytesToBase64(await renderEscPos(doc, options)),
+        },
+        error: null,
+      };
+    }
+    return {
+      data: {
+        fileName: `${baseName}.html`,
+        mimeType: 'text/html',
+        base64: Base64.stringify(Utf8.parse(renderHtml(doc, options))),
+      },
+      error: null,
+    };
+  } catch (error) {
+    log.error('Failed to build order slip', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Opens the OS share sheet with the slip attached as a file. Resolves to false when the merchant dismisses it.
+ */
+export async function shareOrderSlip(file: OrderSlipFile): Promise<boolean> {
+  const result = await Share.open({
+    title: file.fileName,
+    filename: file.fileName.replace(/\.[^.]+$/, ''),
+    type: file.mimeType,
+    url: `data:${file.mimeType};base64,${file.base64}`,
+    failOnCancel: false,
+  });
+  return result.success !== false && !result.dismissedAction;
+}
@@ -1,10 +1,15 @@
 import { apiClient, toApiError } from '../apiClient';
 import { subscribeToShopGroup } from '../orderRealtime';
+import { buildOrderListQuery } from '../orderListQuery';
 import {
+  ACTIVE_ORDER_STATUSES,
   OrderWithAll,
+  OrderPage,
   DeliveryRunnerWithStatus,
   OrderFilters,
   OrderAnalytics,
+  OrderItemPackingStatus,
+  CancellationReasonCode,
 } from '../../types/orders';
 
 type MerchantShopSummary = {
@@ -35,46 +40,102 @@ function normalizeMerchantOrder(raw: any, shop?: MerchantShopSummary): OrderWith
   } as OrderWithAll;
 }
 
-async function resolveShopIdForOrder(orderId: string): Promise<string> {
-  const shops = await apiClient.get<Array<{ id: string }>>('/api/v1/merchant/shops');
-  for (const shop of shops || []) {
-    try {
-      await apiClient.get(`/api/v1/merchant/shops/${shop.id}/orders/${orderId}`);
-      return shop.id;
-    } catch {
-      // Continue search.
-    }
-  }
-  throw new Error('Order not found in merchant shops.');
+export type OrderActionOptions = {
+  /** Sent as Idempotency-Key; the backend acknowledges a repeated key without applying the action again. */
+  idempotencyKey?: string;
+};
+
+export type OrderActionResult = {
+  success: boolean;
+  message?: string;
+  /** The request may not have reached the server (no response or 5xx); resending with the same key is safe. */
+  retryable?: boolean;
+};
+
+function toOrderActionFailure(error: unknown): OrderActionResult {
+  const apiError = toApiError(error);
+  return {
+    success: false,
+    message: apiError.message,
+    retryable: apiError.status === 0 || apiError.status >= 500,
+  };
+}
+
+function idempotencyHeaders(options: OrderActionOptions): Record<string, string> | undefined {
+  return options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : undefined;
+}
+
+/** Order-id routes; the backend finds the shop, so each action is a single request. */
+function merchantOrderPath(orderId: string): string {
+  return `/api/v1/merchant/orders/${orderId}`;
 }
 
 // ============================================================================
 // GET SHOP ORDERS
 // ============================================================================
 
+export const ORDER_PAGE_SIZE = 30;
+
+/** The largest page the orders endpoint serves; used when a whole range is needed. */
+const FULL_LIST_PAGE_SIZE = 100;
+
+const ALL_ORDERS: OrderFilters = { timeFilter: 'all' };
+
 /**
- * Get all orders for a shop
+ * Get one page of a shop's order history. Every filter is applied by the server. Errors propagate so callers
+ * can tell a failed load from an empty list.
  */
-export async function getShopOrders(shopId: string): Promise<OrderWithAll[]> {
-  try {
-    const orders = await apiClient.get<any[]>(`/api/v1/merchant/shops/${shopId}/orders`);
-    return (orders || []).map((order) => normalizeMerchantOrder(order, { id: shopId }));
-  } catch (error) {
-    console.error('Error getting shop orders:', error);
-    return [];
-  }
+export async function getShopOrders(
+  shopId: string,
+  filters: OrderFilters = ALL_ORDERS,
+  cursor: string | null = null,
+  limit: number = ORDER_PAGE_SIZE
+): Promise<OrderPage> {
+  const qs = buildOrderListQuery(filters, cursor, limit);
+  const page = await apiClient.get<{ orders: any[]; next_cursor?: string | null }>(
+    `/api/v1/merchant/shops/${shopId}/orders${qs ? `?${qs}` : ''}`
+  );
+  return {
+    orders: (page?.orders || []).map((order) => normalizeMerchantOrder(order, { id: shopId })),
+    nextCursor: page?.next_cursor ?? null,
+  };
 }
 
 /**
- * Get all orders for all shops owned by a merchant
+ * Get every order matching the filters by following the cursor, for views that need the whole set
+ * (active orders, chart ranges).
  */
-export async function getAllMerchantOrders(userId: string): Promise<OrderWithAll[]> {
+export async function getAllShopOrders(
+  shopId: string,
+  filters: OrderFilters = ALL_ORDERS
+): Promise<OrderWithAll[]> {
+  const orders: OrderWithAll[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: OrderPage = await getShopOrders(shopId, filters, cursor, FULL_LIST_PAGE_SIZE);
+    orders.push(...page.orders);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return orders;
+}
+
+/**
+ * Get a shop's pending, confirmed and out-for-delivery orders
+ */
+export async function getActiveShopOrders(shopId: string): Promise<OrderWithAll[]> {
+  return getAllShopOrders(shopId, { timeFilter: 'all', statusFilter: ACTIVE_ORDER_STATUSES });
+}
+
+/**
+ * Get active orders for all shops owned by a merchant
+ */
+export async function getMerchantActiveOrders(userId: string): Promise<OrderWithAll[]> {
   try {
     const shops = await apiClient.get<MerchantShopSummary[]>('/api/v1/merchant/shops');
     const allOrders = await Promise.all(
       (shops || []).map(async (shop) => {
-        const shopOrders = await apiClient.get<any[]>(`/api/v1/merchant/shops/${shop.id}/orders`);
-        return (shopOrders || []).map((order) => normalizeMerchantOrder(order, shop));
+        const shopOrders = await getActiveShopOrders(shop.id);
+        return shopOrders.map((order) => ({ ...order, shop: { ...order.shop, ...shop } }));
       })
     );
     return allOrders.flat();
@@ -85,21 +146,15 @@ export async function getAllMerchantOrders(userId: string): Promise<OrderWithAll
 }
 
 /**
- * Get filtered orders for a shop
+ * Get a single order by id; the backend finds its shop
  */
-export async function getFilteredShopOrders(
-  shopId: string,
-  filters: OrderFilters
-): Promise<OrderWithAll[]> {
+export async function getMerchantOrder(orderId: string, shopId?: string): Promise<OrderWithAll | null> {
   try {
-    let orders = await getShopOrders(shopId);
-    if (filters.statusFilter) {
-      orders = orders.filter((order) => order.status === filters.statusFilter);
-    }
-    return orders;
+    const order = await apiClient.get<any>(merchantOrderPath(orderId));
+    return normalizeMerchantOrder(order, shopId ? { id: shopId } : undefined);
   } catch (error) {
-    console.error('Error getting filtered shop orders:', error);
-    return [];
+    console.error('Error getting merchant order:', error);
+    return null;
   }
 }
 
@@ -112,14 +167,16 @@ export async function getFilteredShopOrders(
  * Note: Timestamps are set automatically by database triggers
  */
 export async function confirmOrder(
-  orderId: string
-): Promise<{ success: boolean; message?: string }> {
+  orderId: string,
+  options: OrderActionOptions = {}
+): Promise<OrderActionResult> {
   try {
-    const shopId = await resolveShopIdForOrder(orderId);
-    await apiClient.post(`/api/v1/merchant/shops/${shopId}/orders/${orderId}/confirm`);
+    await apiClient.post(`${merchantOrderPath(orderId)}/confirm`, undefined, {
+      headers: idempotencyHeaders(options),
+    });
     return { success: true };
   } catch (error) {
-    return { success: false, message: toApiError(error).message };
+    return toOrderActionFailure(error);
   }
 }
 
@@ -129,16 +186,18 @@ export async function confirmOrder(
  */
 export async function assignRunnerAndDispatch(
   orderId: string,
-  runnerId: string
-): Promise<{ success: boolean; message?: string }> {
+  runnerId: string,
+  options: OrderActionOptions = {}
+): Promise<OrderActionResult> {
   try {
-    const shopId = await resolveShopIdForOrder(orderId);
-    await apiClient.post(`/api/v1/merchant/shops/${shopId}/orders/${orderId}/dispatch`, {
-      runner_id: runnerId,
-    });
+    await apiClient.post(
+      `${merchantOrderPath(orderId)}/dispatch`,
+      { runner_id: runnerId },
+      { headers: idempotencyHeaders(options) }
+    );
     return { success: true };
   } catch (error) {
-    return { success: false, message: toApiError(error).message };
+    return toOrderActionFailure(error);
   }
 }
 
@@ -147,14 +206,16 @@ export async function assignRunnerAndDispatch(
  * Note: Timestamps are set automatically by database triggers
  */
 export async function markOrderDelivered(
-  orderId: string
-): Promise<{ success: boolean; message?: string }> {
+  orderId: string,
+  options: OrderActionOptions = {}
+): Promise<OrderActionResult> {
   try {
-    const shopId = await resolveShopIdForOrder(orderId);
-    await apiClient.post(`/api/v1/merchant/shops/${shopId}/orders/${orderId}/deliver`);
+    await apiClient.post(`${merchantOrderPath(orderId)}/deliver`, undefined, {
+      headers: idempotencyHeaders(options),
+    });
     return { success: true };
   } catch (error) {
-    return { success: false, message: toApiError(error).message };
+    return toOrderActionFailure(error);
   }
 }
 
@@ -163,11 +224,92 @@ export async function markOrderDelivered(
  */
 export async function cancelOrder(
   orderId: string,
-  reason: string
+  reasonCode: CancellationReasonCode,
+  note?: string,
+  options: OrderActionOptions = {}
+): Promise<OrderActionResult> {
+  try {
+    await apiClient.post(
+      `${merchantOrderPath(orderId)}/cancel`,
+      { reason_code: reasonCode, note: note?.trim() || undefined },
+      { headers: idempotencyHeaders(options) }
+    );
+    return { success: true };
+  } catch (error) {
+    return toOrderActionFailure(error);
+  }
+}
+
+/**
+ * Record the actual weighed amount of a unit-priced line before dispatch.
+ * The backend recomputes the line subtotal and the order total from it.
+ */
+export async function recordWeighedQuantity(
+  orderId: string,
+  orderItemId: string,
+  weighedQuantity: number
 ): Promise<{ success: boolean; message?: string }> {
   try {
-    const shopId = await resolveShopIdForOrder(orderId);
-    await apiClient.post(`/api/v1/merchant/shops/${shopId}/orders/${orderId}/cancel`, { reason });
+    await apiClient.put(`${merchantOrderPath(orderId)}/items/${orderItemId}/weight`, {
+      weighed_quantity: weighedQuantity,
+    });
+    return { success: true };
+  } catch (error) {
+    return { success: false, message: toApiError(error).message };
+  }
+}
+
+/**
+ * Record the packing outcome of a line on a confirmed order. `short` needs the amount found;
+ * `null` clears the check. Packing a line in full drops any substitute it was offered.
+ */
+export async function updateOrderItemPacking(
+  orderId: string,
+  orderItemId: string,
+  status: OrderItemPackingStatus | null,
+  packedQuantity?: number
+): Promise<{ success: boolean; message?: string }> {
+  try {
+    await apiClient.put(`${merchantOrderPath(orderId)}/items/${orderItemId}/packing`, {
+      status,
+      packed_quantity: packedQuantity ?? null,
+    });
+    return { success: true };
+  } catch (error) {
+    return { success: false, message: toApiError(error).message };
+  }
+}
+
+/**
+ * Offer the customer another item for a short or unavailable line.
+ * It is only charged once the customer accepts it; dispatch waits for the answer.
+ */
+export async function proposeSubstitution(
+  orderId: string,
+  orderItemId: string,
+  merchantItemId: string,
+  quantity: number
+): Promise<{ success: boolean; message?: string }> {
+  try {
+    await apiClient.put(`${merchantOrderPath(orderId)}/items/${orderItemId}/substitution`, {
+      merchant_item_id: merchantItemId,
+      quantity,
+    });
+    return { success: true };
+  } catch (error) {
+    return { success: false, message: toApiError(error).message };
+  }
+}
+
+/**
+ * Withdraw the substitute offered for a line, whatever the customer answered.
+ */
+export async function withdrawSubstitution(
+  orderId: string,
+  orderItemId: string
+): Promise<{ success: boolean; message?: string }> {
+  try {
+    await apiClient.delete(`${merchantOrderPath(orderId)}/items/${orderItemId}/substitution`);
     return { success: true };
   } catch (error) {
     return { success: false, message: toApiError(error).message };
@@ -218,8 +360,10 @@ function startOfLocalDay(d: Date): Date {
   return new Date(d.getFullYear(), d.getMonth(), d.getDate());
 }
 
+export type TimeSeriesFilter = 'today' | 'yesterday' | '7days' | '30days' | 'all_time' | 'custom';
+
 function getTimeSeriesRange(
-  timeFilter: 'today' | 'yesterday' | '7days' | '30days' | 'all_time' | 'custom',
+  timeFilter: TimeSeriesFilter,
   customStartDate?: Date,
   customEndDate?: Date
 ): { start: Date; end: Date } | null {
@@ -262,6 +406,37 @@ function getTimeSeriesRange(
   }
 }
 
+/**
+ * Every order placed in a dashboard range. Unlike the list helpers this throws when a page fails, so an export
+ * never silently comes out short.
+ */
+export async function getShopOrdersPlacedInRange(
+  shopId: string,
+  timeFilter: TimeSeriesFilter,
+  customStartDate?: Date,
+  customEndDate?: Date
+): Promise<OrderWithAll[]> {
+  let filters: OrderFilters = ALL_ORDERS;
+  if (timeFilter !== 'all_time') {
+    const range = getTimeSeriesRange(timeFilter, customStartDate, customEndDate);
+    if (!range) return [];
+    filters = {
+      timeFilter: 'custom',
+      customStartDate: range.start,
+      customEndDate: new Date(range.end.getTime() - 1),
+    };
+  }
+
+  const orders: OrderWithAll[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: OrderPage = await getShopOrders(shopId, { ...filters, sort: 'oldest' }, cursor, FULL_LIST_PAGE_SIZE);
+    orders.push(...page.orders);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return orders;
+}
+
 function inRange(iso: string, start: Date, end: Date): boolean {
   const t = new Date(iso).getTime();
   return t >= start.getTime() && t < end.getTime();
@@ -288,12 +463,13 @@ function padSeriesForChart(xLabels: string[], dataPkr: number[]): { xLabels: str
 
 function buildTodayYesterdaySeries(
   range: { start: Date; end: Date },
-  orders: OrderWithAll[]
+  placed: OrderWithAll[],
+  delivered: OrderWithAll[]
 ): { xLabels: string[]; data: number[]; orders: number; revenue: number } {
-  const placedInRange = orders.filter((o) => inRange(o.placed_at, range.start, range.end));
+  const placedInRange = placed.filter((o) => inRange(o.placed_at, range.start, range.end));
   let revenueCents = 0;
   const bucketPkr = new Array(6).fill(0);
-  for (const o of orders) {
+  for (const o of delivered) {
     const rt = deliveredRevenueTime(o);
     if (!rt) continue;
     if (!inRangeDate(rt, range.start, range.end)) continue;
@@ -313,10 +489,11 @@ function buildTodayYesterdaySeries(
 
 function buildDayBucketsSeries(
   range: { start: Date; end: Date },
-  orders: OrderWithAll[],
+  placed: OrderWithAll[],
+  delivered: OrderWithAll[],
   dayCount: number
 ): { xLabels: string[]; data: number[]; orders: number; revenue: number } {
-  const placedInRange = orders.filter((o) => inRange(o.placed_at, range.start, range.end));
+  const placedInRange = placed.filter((o) => inRange(o.placed_at, range.start, range.end));
   const bucketPkr = new Array(dayCount).fill(0);
   let revenueCents = 0;
   const xLabels: string[] = [];
@@ -327,7 +504,7 @@ function buildDayBucketsSeries(
     xLabels.push(day.toLocaleDateString('en-US', { weekday: 'short' }));
   }
 
-  for (const o of orders) {
+  for (const o of delivered) {
     const rt = deliveredRevenueTime(o);
     if (!rt) continue;
     if (!inRangeDate(rt, range.start, range.end)) continue;
@@ -344,10 +521,11 @@ function buildDayBucketsSeries(
 
 function buildMultiDayChunkSeries(
   range: { start: Date; end: Date },
-  orders: OrderWithAll[],
+  placed: OrderWithAll[],
+  delivered: OrderWithAll[],
   bucketCount: number
 ): { xLabels: string[]; data: number[]; orders: number; revenue: number } {
-  const placedInRange = orders.filter((o) => inRange(o.placed_at, range.start, range.end));
+  const placedInRange = placed.filter((o) => inRange(o.placed_at, range.start, range.end));
   const spanMs = range.end.getTime() - range.start.getTime();
   const bucketMs = spanMs / bucketCount;
   const bucketPkr = new Array(bucketCount).fill(0);
@@ -362,7 +540,7 @@ function buildMultiDayChunkSeries(
     );
   }
 
-  for (const o of orders) {
+  for (const o of delivered) {
     const rt = deliveredRevenueTime(o);
     if (!rt) continue;
     const t = rt.getTime();
@@ -421,7 +599,7 @@ function buildAllTimeSeries(orders: OrderWithAll[]): { xLabels: string[]; data:
  */
 export async function getShopOrderTimeSeries(
   shopId: string,
-  timeFilter: 'today' | 'yesterday' | '7days' | '30days' | 'all_time' | 'custom',
+  timeFilter: TimeSeriesFilter,
   customStartDate?: Date,
   customEndDate?: Date
 ): Promise<{
@@ -430,13 +608,9 @@ export async function getShopOrderTimeSeries(
   orders: number;
   revenue: number;
 }> {
-  const orders = await getShopOrders(shopId);
-  if (!orders.length) {
-    return { xLabels: [], data: [], orders: 0, revenue: 0 };
-  }
-
   if (timeFilter === 'all_time') {
-    return buildAllTimeSeries(orders);
+    const allOrders = await getAllShopOrders(shopId);
+    return allOrders.length ? buildAllTimeSeries(allOrders) : { xLabels: [], data: [], orders: 0, revenue: 0 };
   }
 
   const range = getTimeSeriesRange(timeFilter, customStartDate, customEndDate);
@@ -444,16 +618,30 @@ export async function getShopOrderTimeSeries(
     return { xLabels: [], data: [], orders: 0, revenue: 0 };
   }
 
+  // Orders are counted by when they were placed and revenue by when it was delivered, so each is fetched by its own date.
+  const rangeFilters: OrderFilters = {
+    timeFilter: 'custom',
+    customStartDate: range.start,
+    customEndDate: new Date(range.end.getTime() - 1),
+  };
+  const [placed, delivered] = await Promise.all([
+    getAllShopOrders(shopId, rangeFilters),
+    getAllShopOrders(shopId, { ...rangeFilters, statusFilter: 'delivered', dateField: 'delivered' }),
+  ]);
+  if (!placed.length && !delivered.length) {
+    return { xLabels: [], data: [], orders: 0, revenue: 0 };
+  }
+
   let raw: { xLabels: string[]; data: number[]; orders: number; revenue: number };
 
   if (timeFilter === 'today' || timeFilter === 'yesterday') {
-    raw = buildTodayYesterdaySeries(range, orders);
+    raw = buildTodayYesterdaySeries(range, placed, delivered);
   } else if (timeFilter === '7days') {
-    raw = buildDayBucketsSeries(range, orders, 7);
+    raw = buildDayBucketsSeries(range, placed, delivered, 7);
   } else if (timeFilter === '30days') {
-    raw = buildMultiDayChunkSeries(range, orders, 10);
+    raw = buildMultiDayChunkSeries(range, placed, delivered, 10);
   } else {
-    raw = buildMultiDayChunkSeries(range, orders, 8);
+    raw = buildMultiDayChunkSeries(range, placed, delivered, 8);
   }
 
   const padded = padSeriesForChart(raw.xLabels, raw.data);
@@ -470,16 +658,17 @@ export async function getShopOrderTimeSeries(
 // ============================================================================
 
 /**
- * Subscribe to shop orders
+ * Subscribe to changes to a shop's orders. The callback only signals that something changed; callers refetch
+ * whatever pages they show.
  */
 export function subscribeToShopOrders(
   shopId: string,
-  callback: (orders: OrderWithAll[]) => void
+  callback: () => void
 ) {
   let cleanup: (() => Promise<void>) | null = null;
   (async () => {
-    cleanup = await subscribeToShopGroup(shopId, async () => {
-      callback(await getShopOrders(shopId));
+    cleanup = await subscribeToShopGroup(shopId, () => {
+      callback();
     });
   })().catch((error) => console.warn('Shop order realtime subscribe failed', error));
   return () => {
@@ -267,6 +267,25 @@ export async function getMerchantShops(
   }
 }
 
+// Get a single shop owned by the signed-in merchant
+export async function getMerchantShop(
+  shopId: string
+): Promise<{ shop: MerchantShop | null; error: { message: string } | null }> {
+  try {
+    const shop = await apiClient.get<MerchantShop>(`/api/v1/merchant/shops/${shopId}`);
+    return {
+      shop: {
+        ...shop,
+        image_url: toAbsoluteBackendUrl(shop.image_url),
+        ...merchantShopKpisFromApi(shop),
+      },
+      error: null,
+    };
+  } catch (error) {
+    return { shop: null, error: { message: toApiError(error).message } };
+  }
+}
+
 // Delete a shop
 export async function deleteShop(
   shopId: string,
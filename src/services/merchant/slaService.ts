@@ -0,0 +1,42 @@
+import { loogin } from '../../lib/loogin';
+import { apiClient, toApiError } from '../apiClient';
+import type { OrderSlaTargets } from '../../utils/orderSla';
+
+const log = loogin.scope('slaService');
+
+type ServiceResult<T> = { data: T | null; error: any | null };
+
+function mapTargets(row: any): OrderSlaTargets {
+  return {
+    confirmationMinutes: row?.confirmation_minutes ?? null,
+    preparationMinutes: row?.preparation_minutes ?? null,
+    deliveryMinutes: row?.delivery_minutes ?? null,
+  };
+}
+
+export async function fetchShopSla(shopId: string): Promise<ServiceResult<OrderSlaTargets>> {
+  try {
+    const data = await apiClient.get<any>(`/api/v1/merchant/shops/${shopId}/sla`);
+    return { data: mapTargets(data), error: null };
+  } catch (error) {
+    const apiError = toApiError(error);
+    log.error('Failed to fetch SLA targets', apiError);
+    return { data: null, error: apiError };
+  }
+}
+
+export async function updateShopSla(
+  shopId: string,
+  targets: OrderSlaTargets
+): Promise<ServiceResult<OrderSlaTargets>> {
+  log.debug('updateShopSla', { shopId, ...targets });
+
+  try {
+    const data = await apiClient.put<any>(`/api/v1/merchant/shops/${shopId}/sla`, targets);
+    return { data: mapTargets(data), error: null };
+  } catch (error) {
+    const apiError = toApiError(error);
+    log.error('Failed to update SLA targets', apiError);
+    return { data: null, error: apiError };
+  }
+}
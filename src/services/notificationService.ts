@@ -21,8 +21,8 @@ function sanitizeNotificationKey(value: unknown): string {
 function buildNotificationId(data: any, prefix: string): string {
   const role = sanitizeNotificationKey(data?.notificationRole || data?.role || 'general');
   const type = sanitizeNotificationKey(data?.type || 'message');
-  const orderId = sanitizeNotificationKey(data?.orderId || Date.now());
-  return `${prefix}_${role}_${type}_${orderId}`;
+  const subjectId = sanitizeNotificationKey(data?.orderId || data?.itemId || Date.now());
+  return `${prefix}_${role}_${type}_${subjectId}`;
 }
 
 /**
@@ -107,6 +107,20 @@ export async function createNotificationChannels(): Promise<void> {
   };
 
   await notifee.createChannel(channel);
+
+  // Separate channel so SLA alerts stay loud even if the merchant quiets regular order updates.
+  await notifee.createChannel({
+    id: 'order_sla_alerts',
+    name: 'Late Order Alerts',
+    importance: AndroidImportance.HIGH,
+    description: 'Alerts when an order runs past one of the shop SLA targets',
+    sound: 'default',
+    vibration: true,
+    vibrationPattern: [300, 500, 300, 500],
+    visibility: 1, // VISIBILITY_PUBLIC
+    lights: true,
+    lightColor: '#FF0000',
+  });
   console.log('Notification channel created');
 }
 
@@ -264,6 +278,48 @@ export async function handleForegroundNotification(remoteMessage: any): Promise<
   }
 }
 
+/**
+ * Show a local alert for an order that has run past its shop's SLA target.
+ * Tapping it opens the order like an order push.
+ */
+export async function displayOrderSlaAlert(
+  title: string,
+  body: string,
+  data: { shopId: string; orderId: string; stage: string }
+): Promise<void> {
+  try {
+    await notifee.displayNotification({
+      id: buildNotificationId({ notificationRole: 'merchant', type: `sla_${data.stage}`, orderId: data.orderId }, 'order'),
+      title,
+      body,
+      data: { ...data, type: 'order_sla', role: 'merchant', notificationRole: 'merchant' },
+      android: {
+        channelId: 'order_sla_alerts',
+        importance: AndroidImportance.HIGH,
+        smallIcon: 'ic_notification',
+        pressAction: {
+          id: 'default',
+        },
+        sound: 'default',
+        showTimestamp: true,
+        autoCancel: true,
+        visibility: 1, // VISIBILITY_PUBLIC
+      },
+      ios: {
+        sound: 'default',
+        interruptionLevel: 'timeSensitive',
+        foregroundPresentationOptions: {
+          alert: true,
+          badge: true,
+          sound: true,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Error displaying SLA alert:', error);
+  }
+}
+
 /**
  * Handle notification tap/open
  */
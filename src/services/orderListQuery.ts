@@ -0,0 +1,25 @@
+import { OrderFilters, getOrderFilterRange } from '../types/orders';
+
+/**
+ * Query string for the paged order history endpoints (merchant shop orders and consumer orders), which take the
+ * same filters.
+ */
+export function buildOrderListQuery(filters: OrderFilters, cursor?: string | null, limit?: number): string {
+  // Hermes / RN URLSearchParams often lacks .set(); build query string manually.
+  const pairs: string[] = [];
+  const statuses = filters.statusFilter
+    ? Array.isArray(filters.statusFilter)
+      ? filters.statusFilter
+      : [filters.statusFilter]
+    : [];
+  statuses.forEach((status) => pairs.push(`status=${encodeURIComponent(status)}`));
+  const { from, to } = getOrderFilterRange(filters);
+  if (from) pairs.push(`from=${encodeURIComponent(from.toISOString())}`);
+  if (to) pairs.push(`to=${encodeURIComponent(to.toISOString())}`);
+  if (filters.search?.trim()) pairs.push(`search=${encodeURIComponent(filters.search.trim())}`);
+  if (filters.sort && filters.sort !== 'newest') pairs.push(`sort=${filters.sort}`);
+  if (filters.dateField && filters.dateField !== 'placed') pairs.push(`dateField=${filters.dateField}`);
+  if (cursor) pairs.push(`cursor=${encodeURIComponent(cursor)}`);
+  if (limit != null) pairs.push(`limit=${encodeURIComponent(String(limit))}`);
+  return pairs.join('&');
+}
@@ -10,6 +10,8 @@ import Config from 'react-native-config';
 import { getAccessToken } from './authTokenStorage';
 
 let hubConnection: HubConnection | null = null;
+// Subscriptions per shop group; the group is only left when the last one cleans up.
+const shopGroupRefs = new Map<string, number>();
 
 function getRealtimeUrl(): string {
   const base =
@@ -63,6 +65,25 @@ async function stopConnectionIfIdle(): Promise<void> {
   }
 }
 
+async function joinShopGroup(connection: HubConnection, shopId: string): Promise<void> {
+  shopGroupRefs.set(shopId, (shopGroupRefs.get(shopId) ?? 0) + 1);
+  await connection.invoke('JoinShopGroup', shopId);
+}
+
+async function leaveShopGroup(connection: HubConnection, shopId: string): Promise<void> {
+  const remaining = (shopGroupRefs.get(shopId) ?? 1) - 1;
+  if (remaining > 0) {
+    shopGroupRefs.set(shopId, remaining);
+    return;
+  }
+  shopGroupRefs.delete(shopId);
+  try {
+    await connection.invoke('LeaveShopGroup', shopId);
+  } catch {
+    // Ignore leave errors during shutdown.
+  }
+}
+
 export async function subscribeToOrderGroup(
   orderId: string,
   callback: (payload: any) => void
@@ -89,7 +110,7 @@ export async function subscribeToShopGroup(
   callback: (payload: any) => void
 ): Promise<() => Promise<void>> {
   const connection = await ensureConnection();
-  await connection.invoke('JoinShopGroup', shopId);
+  await joinShopGroup(connection, shopId);
 
   const orderUpdated = (payload: any) => callback(payload);
   const newOrder = (payload: any) => callback(payload);
@@ -99,11 +120,7 @@ export async function subscribeToShopGroup(
   return async () => {
     connection.off('OrderUpdated', orderUpdated);
     connection.off('NewOrder', newOrder);
-    try {
-      await connection.invoke('LeaveShopGroup', shopId);
-    } catch {
-      // Ignore leave errors during shutdown.
-    }
+    await leaveShopGroup(connection, shopId);
     await stopConnectionIfIdle();
   };
 }
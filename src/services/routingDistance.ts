@@ -0,0 +1,100 @@
+import Config from 'react-native-config';
+import { loogin } from '../lib/loogin';
+import type { LatLngLiteral } from '../types/delivery';
+import { calculateDistance, type DeliveryLogic } from './merchant/deliveryLogicService';
+
+/**
+ * Delivery distances for fee estimates. Shops in `road` distance mode are priced on driving distance, looked up
+ * through a pluggable routing provider; everything else, and any lookup that fails, uses the straight-line distance.
+ * Routes run from the shop to the centre of the address's grid cell and are cached per shop and cell, the same way as
+ * the server's `DeliveryDistanceService`, so estimates match the quote at checkout.
+ */
+
+const log = loogin.scope('routingDistance');
+
+export interface RoutingProvider {
+  /** Driving distance in meters, or null when there is no route or the provider is unavailable. */
+  getRoadDistance(from: LatLngLiteral, to: LatLngLiteral): Promise<number | null>;
+}
+
+/** About 110 m north to south; must match the server's `GridCellDegrees`. */
+export const GRID_CELL_DEGREES = 0.001;
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 3000;
+
+/** A self-hosted OSRM-compatible server at `OSRM_URL`, using its `route` service. */
+export const osrmRoutingProvider: RoutingProvider = {
+  async getRoadDistance(from, to) {
+    const baseUrl = Config.OSRM_URL;
+    if (!baseUrl) return null;
+
+    const coordinates = `${from.longitude.toFixed(6)},${from.latitude.toFixed(6)};${to.longitude.toFixed(6)},${to.latitude.toFixed(6)}`;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const response = await fetch(
+        `${baseUrl.replace(/\/+$/, '')}/route/v1/driving/${coordinates}?overview=false&alternatives=false&steps=false`,
+        { signal: controller.signal }
+      );
+      if (!response.ok) {
+        log.warn('route request returned', response.status);
+        return null;
+      }
+      const body = await response.json();
+      const distance = body?.code === 'Ok' ? body.routes?.[0]?.distance : undefined;
+      return typeof distance === 'number' ? distance : null;
+    } catch (error) {
+      log.warn('route request failed', error);
+      return null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  },
+};
+
+let provider: RoutingProvider = osrmRoutingProvider;
+const cache = new Map<string, { distance: number; expiresAt: number }>();
+
+/** Swaps the routing provider, e.g. for a hosted routing API; clears cached distances. */
+export function setRoutingProvider(next: RoutingProvider) {
+  provider = next;
+  cache.clear();
+}
+
+function snapToGrid(degrees: number): number {
+  return (Math.floor(degrees / GRID_CELL_DEGREES) + 0.5) * GRID_CELL_DEGREES;
+}
+
+/** Driving distance from the shop to the point's grid cell, or null when no route is found. */
+export async function getRoadDistance(
+  shop: { id: string; latitude: number; longitude: number },
+  point: LatLngLiteral
+): Promise<number | null> {
+  const cell = { latitude: snapToGrid(point.latitude), longitude: snapToGrid(point.longitude) };
+  const key = `${shop.id}:${cell.latitude.toFixed(4)}:${cell.longitude.toFixed(4)}`;
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.distance;
+  }
+
+  const distance = await provider.getRoadDistance({ latitude: shop.latitude, longitude: shop.longitude }, cell);
+  if (distance === null) {
+    return null;
+  }
+  cache.set(key, { distance, expiresAt: Date.now() + CACHE_TTL_MS });
+  return distance;
+}
+
+/** The distance in meters a delivery to the point is priced on. */
+export async function getDeliveryDistance(
+  shop: { id: string; latitude: number; longitude: number },
+  point: LatLngLiteral,
+  logic: Pick<DeliveryLogic, 'distanceMode'> | null | undefined
+): Promise<number> {
+  const straightLine = calculateDistance(point.latitude, point.longitude, shop.latitude, shop.longitude);
+  if (logic?.distanceMode !== 'road') {
+    return straightLine;
+  }
+  return (await getRoadDistance(shop, point)) ?? straightLine;
+}
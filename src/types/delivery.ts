@@ -3,11 +3,18 @@ export type LatLngLiteral = {
   longitude: number;
 };
 
-export type DeliveryArea = {
+/** A delivery area as the fee rules see it. Each override is null when the shop-wide setting applies. */
+export type DeliveryZone = {
   id: string;
-  shopId: string;
   label: string;
   coordinates: LatLngLiteral[];
+  deliveryFee: number | null; // in PKR, replaces the distance tiers
+  minimumOrderValue: number | null; // in PKR, replaces the least order value
+  etaMinutes: number | null;
+};
+
+export type DeliveryArea = DeliveryZone & {
+  shopId: string;
   createdAt: string;
   updatedAt: string;
 };
@@ -15,6 +22,9 @@ export type DeliveryArea = {
 export type DeliveryAreaPayload = {
   label?: string;
   coordinates: LatLngLiteral[];
+  deliveryFee?: number | null;
+  minimumOrderValue?: number | null;
+  etaMinutes?: number | null;
 };
 
 
@@ -12,9 +12,18 @@ export type InventoryActionType =
   | 'name_updated'
   | 'item_deactivated'
   | 'image_updated'
+  | 'stock_updated'
   | 'item_updated';
 
-export type InventoryChangeSource = 'manual' | 'bulk_import' | 'system_sync' | 'backfill' | 'template_update';
+export type InventoryChangeSource =
+  | 'manual'
+  | 'bulk_import'
+  | 'bulk_price_change'
+  | 'revert'
+  | 'stock_take'
+  | 'system_sync'
+  | 'backfill'
+  | 'template_update';
 
 export interface InventoryCategory {
   id: string;
@@ -48,6 +57,22 @@ export interface InventoryTemplateItem {
   updatedAt: string;
 }
 
+/** Measure an item is priced by; items without one are sold per piece. */
+export const ITEM_UNITS = ['kg', 'g', 'dozen', 'litre'] as const;
+export type ItemUnit = (typeof ITEM_UNITS)[number];
+
+export interface InventoryItemVariant {
+  /** Missing on variants that have not been saved yet. */
+  id?: string;
+  /** Groups variants in the picker, e.g. "Size", "Weight" or "Pack". */
+  optionGroup?: string | null;
+  name: string;
+  priceCents: number;
+  sku?: string | null;
+  barcode?: string | null;
+  isActive: boolean;
+}
+
 export interface InventoryItem {
   id: string;
   shopId: string;
@@ -59,8 +84,18 @@ export interface InventoryItem {
   sku?: string | null;
   priceCents: number;
   currency?: string;
+  /** When set, `priceCents` is the price per unit and customers can order fractions in `quantityStep` increments. */
+  unit?: ItemUnit | null;
+  quantityStep: number;
   isActive: boolean;
   isCustom: boolean;
+  /** When true, orders reserve units from `stockQuantity` and are refused once it runs out. */
+  trackStock: boolean;
+  stockQuantity: number;
+  /** Low-stock alert fires when `stockQuantity` drops to or below this; null disables it. */
+  reorderThreshold?: number | null;
+  /** When non-empty, customers must pick one of the active variants and pay its price instead of `priceCents`. */
+  variants: InventoryItemVariant[];
   categories: InventoryCategory[];
   createdAt: string;
   updatedAt: string;
@@ -90,6 +125,9 @@ export interface InventoryListParams {
   categoryIds?: string[];
   active?: boolean | null;
   templateFilter?: 'all' | 'template' | 'custom';
+  lowStock?: boolean;
+  /** Exact match on the item's or one of its variants' barcode. */
+  barcode?: string;
   cursor?: string | null;
   limit?: number;
 }
@@ -112,4 +150,119 @@ export interface InventoryAuditLogFilters {
   cursor?: string | null;
 }
 
+export type InventoryImportJobStatus = 'previewed' | 'completed' | 'failed';
+
+export interface InventoryImportCreateRow {
+  row: number;
+  name: string;
+  sku?: string | null;
+  barcode?: string | null;
+  priceCents: number;
+  categoryId: string;
+  categoryName: string;
+}
+
+export interface InventoryImportFieldChange {
+  field: 'name' | 'sku' | 'barcode' | 'price_cents' | 'category';
+  from: string | null;
+  to: string | null;
+}
+
+export interface InventoryImportUpdateRow {
+  row: number;
+  itemId: string;
+  itemName: string | null;
+  changes: InventoryImportFieldChange[];
+}
+
+export interface InventoryImportRejectRow {
+  row: number;
+  errors: string[];
+}
+
+/** Dry-run result of an uploaded CSV. Nothing is written until the job is applied. */
+export interface InventoryImportPreview {
+  jobId: string;
+  fileName: string;
+  status: InventoryImportJobStatus;
+  creates: InventoryImportCreateRow[];
+  updates: InventoryImportUpdateRow[];
+  rejects: InventoryImportRejectRow[];
+  unchangedCount: number;
+  createdAt: string;
+}
 
+export interface InventoryImportJob {
+  id: string;
+  shopId: string;
+  status: InventoryImportJobStatus;
+  fileName: string;
+  createCount: number;
+  updateCount: number;
+  rejectCount: number;
+  error?: string | null;
+  createdAt: string;
+  completedAt?: string | null;
+}
+
+export type PriceChangeMode = 'percent' | 'fixed';
+
+export type ScheduledPriceChangeStatus = 'scheduled' | 'applying' | 'applied' | 'cancelled' | 'failed';
+
+/** A category-wide price change. `amount` is a percentage for `percent` and a delta in cents for `fixed`. */
+export interface ScheduledPriceChange {
+  id: string;
+  categoryId: string;
+  categoryName?: string | null;
+  mode: PriceChangeMode;
+  amount: number;
+  effectiveAt: string;
+  status: ScheduledPriceChangeStatus;
+  appliedItemCount: number;
+  error?: string | null;
+  createdAt: string;
+  appliedAt?: string | null;
+}
+
+/**
+ * One counted item in a stock-take session. Existing items set `itemId`; a barcode that only matched the shared
+ * catalog sets `templateId` and is added to the shop when the session is committed.
+ */
+export interface StockTakeLine {
+  itemId?: string | null;
+  templateId?: string | null;
+  stockQuantity?: number | null;
+  priceCents?: number | null;
+  categoryId?: string | null;
+}
+
+export interface StockTakeResult {
+  updatedCount: number;
+  createdCount: number;
+  unchangedCount: number;
+}
+
+/** Maps a catalog template's free-text `defaultUnit` onto a supported unit, or null for per-piece items. */
+export function toItemUnit(value: string | null | undefined): ItemUnit | null {
+  const normalized = value?.trim().toLowerCase();
+  switch (normalized) {
+    case 'kg':
+    case 'kilogram':
+      return 'kg';
+    case 'g':
+    case 'gram':
+      return 'g';
+    case 'dozen':
+      return 'dozen';
+    case 'l':
+    case 'litre':
+    case 'liter':
+      return 'litre';
+    default:
+      return null;
+  }
+}
+
+export function isLowStock(item: Pick<InventoryItem, 'trackStock' | 'stockQuantity' | 'reorderThreshold'>): boolean {
+  return item.trackStock && item.reorderThreshold != null && item.stockQuantity <= item.reorderThreshold;
+}
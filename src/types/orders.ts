@@ -5,6 +5,8 @@
  * order statuses, payment methods, and all related entities.
  */
 
+import { formatQuantity } from '../utils/unitQuantity';
+
 // ============================================================================
 // ENUMS
 // ============================================================================
@@ -18,6 +20,37 @@ export type OrderStatus =
 
 export type PaymentMethod = 'cash' | 'card' | 'wallet';
 
+export type CancellationReasonCode =
+  | 'out_of_stock'
+  | 'shop_closing'
+  | 'no_runner'
+  | 'customer_changed_mind'
+  | 'address_unreachable'
+  | 'other';
+
+export type CancellationActor = 'customer' | 'merchant';
+
+/** The reasons each side may pick, in the order they are offered; `other` needs a note. Mirrors the backend. */
+export const MERCHANT_CANCELLATION_REASONS: CancellationReasonCode[] = [
+  'out_of_stock',
+  'shop_closing',
+  'no_runner',
+  'address_unreachable',
+  'customer_changed_mind',
+  'other',
+];
+
+export const CUSTOMER_CANCELLATION_REASONS: CancellationReasonCode[] = [
+  'customer_changed_mind',
+  'address_unreachable',
+  'other',
+];
+
+/** Outcome of checking a line while packing; unset until the merchant has checked it. */
+export type OrderItemPackingStatus = 'packed' | 'short' | 'unavailable';
+
+export type SubstitutionStatus = 'proposed' | 'accepted' | 'rejected';
+
 // ============================================================================
 // ADDRESS SNAPSHOT
 // ============================================================================
@@ -38,6 +71,20 @@ export interface DeliveryAddress {
 // ORDER ITEM
 // ============================================================================
 
+/**
+ * Replacement the merchant offered for a short or unavailable line. Only an accepted substitute is
+ * charged; it is included in the line's `subtotal_cents`.
+ */
+export interface OrderItemSubstitution {
+  merchant_item_id?: string | null;
+  item_name: string;
+  item_price_cents: number;
+  quantity: number;
+  unit?: string | null;
+  subtotal_cents: number;
+  status: SubstitutionStatus;
+}
+
 export interface OrderItem {
   id: string;
   order_id: string;
@@ -48,9 +95,20 @@ export interface OrderItem {
   item_description?: string;
   item_image_url?: string;
   item_price_cents: number;
+  /** Chosen size/weight/pack option, when the item had variants. */
+  variant_id?: string | null;
+  variant_name?: string | null;
   
   // Order specifics
+  /** Fractional for items sold by weight or measure, in `unit`s; `item_price_cents` is then the price per unit. */
   quantity: number;
+  unit?: string | null;
+  /** Actual amount the merchant weighed before dispatch; `subtotal_cents` is recomputed from it when set. */
+  weighed_quantity?: number | null;
+  packing_status?: OrderItemPackingStatus | null;
+  /** Amount found when `packing_status` is `short`; the line is charged for this instead of `quantity`. */
+  packed_quantity?: number | null;
+  substitution?: OrderItemSubstitution | null;
   subtotal_cents: number;
   
   created_at: string;
@@ -97,9 +155,13 @@ export interface Order {
   preparation_time_seconds?: number;
   delivery_time_seconds?: number;
   
-  // Cancellation
+  // Cancellation: a reason code plus the canceller's optional note (older orders only have the note)
+  cancellation_reason_code?: CancellationReasonCode | null;
   cancellation_reason?: string;
-  cancelled_by?: string;
+  cancelled_by?: CancellationActor | null;
+
+  // Auto-accept: name of the rule that confirmed the order, null when the merchant did
+  auto_accepted_rule?: string | null;
   
   // Snapshots
   delivery_address: DeliveryAddress;
@@ -166,9 +228,12 @@ export interface PlaceOrderRequest {
   items: Array<{
     merchant_item_id: string;
     quantity: number;
+    variant_id?: string | null;
   }>;
   payment_method: PaymentMethod;
   special_instructions?: string;
+  /** The quote checkout showed; the server refuses the order if the fees no longer match it. */
+  quote?: FeeQuote;
 }
 
 export interface PlaceOrderResponse {
@@ -188,6 +253,30 @@ export interface AssignRunnerRequest {
   delivery_runner_id: string;
 }
 
+export type MerchantOrderActionType = 'confirm' | 'dispatch' | 'deliver' | 'cancel';
+
+export type QueuedOrderActionStatus = 'pending' | 'synced' | 'failed';
+
+/**
+ * A merchant order action held in the offline queue. `id` doubles as the
+ * Idempotency-Key header, so replays after a lost response are harmless.
+ */
+export interface QueuedOrderAction {
+  id: string;
+  type: MerchantOrderActionType;
+  order_id: string;
+  runner_id?: string;
+  reason_code?: CancellationReasonCode;
+  note?: string;
+  /** Free-text reason from before reason codes; upgraded to `other` with this as the note when the queue loads. */
+  reason?: string;
+  status: QueuedOrderActionStatus;
+  attempts: number;
+  queued_at: string;
+  synced_at?: string;
+  error?: string;
+}
+
 // ============================================================================
 // UI HELPER TYPES
 // ============================================================================
@@ -216,11 +305,67 @@ export type OrderTimeFilter =
   | 'all' 
   | 'custom';
 
+export type OrderSort = 'newest' | 'oldest' | 'total_desc' | 'total_asc';
+
+/** Which timestamp the date range applies to. Only the merchant shop orders endpoint takes `delivered`. */
+export type OrderDateField = 'placed' | 'delivered';
+
 export interface OrderFilters {
   timeFilter: OrderTimeFilter;
-  statusFilter?: OrderStatus;
+  /** One status, or any of several (e.g. the active ones). */
+  statusFilter?: OrderStatus | OrderStatus[];
   customStartDate?: Date;
   customEndDate?: Date;
+  /** Order number, or the customer (merchant) / shop name (consumer). */
+  search?: string;
+  sort?: OrderSort;
+  /** Defaults to `placed`; `delivered` keeps only orders delivered within the range. */
+  dateField?: OrderDateField;
+}
+
+/** One page of order history; pass `nextCursor` back to get the next one. */
+export interface OrderPage {
+  orders: OrderWithAll[];
+  nextCursor: string | null;
+}
+
+export const ACTIVE_ORDER_STATUSES: OrderStatus[] = ['pending', 'confirmed', 'out_for_delivery'];
+
+/**
+ * Placed-at range for a time filter in local days, `to` exclusive. Both are undefined for `all`, and for `custom`
+ * until both dates are picked.
+ */
+export function getOrderFilterRange(filters: OrderFilters): { from?: Date; to?: Date } {
+  const now = new Date();
+  const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const daysFromToday = (days: number) => {
+    const date = new Date(todayStart);
+    date.setDate(date.getDate() + days);
+    return date;
+  };
+
+  switch (filters.timeFilter) {
+    case 'today':
+      return { from: todayStart };
+    case 'yesterday':
+      return { from: daysFromToday(-1), to: todayStart };
+    // Today plus the days before it, matching the dashboard's ranges in orderService.
+    case '7days':
+      return { from: daysFromToday(-6) };
+    case '30days':
+      return { from: daysFromToday(-29) };
+    case 'custom': {
+      if (!filters.customStartDate || !filters.customEndDate) return {};
+      const { customStartDate: start, customEndDate: end } = filters;
+      return {
+        from: new Date(start.getFullYear(), start.getMonth(), start.getDate()),
+        to: new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1),
+      };
+    }
+    case 'all':
+    default:
+      return {};
+  }
 }
 
 // ============================================================================
@@ -249,6 +394,16 @@ export interface OrderAnalytics {
   average_preparation_time_seconds?: number;
   average_delivery_time_seconds?: number;
   status_breakdown: Record<OrderStatus, number>;
+  /** Orders that ran past the shop's SLA target, per stage (confirmation | preparation | delivery). */
+  sla_breaches?: Record<string, number> | null;
+  /** Cancelled orders by reason and who cancelled, largest first. Older cancellations count as `other`. */
+  cancellation_breakdown?: CancellationBreakdown[] | null;
+}
+
+export interface CancellationBreakdown {
+  reason_code: CancellationReasonCode;
+  cancelled_by: CancellationActor | null;
+  count: number;
 }
 
 // ============================================================================
@@ -257,11 +412,14 @@ export interface OrderAnalytics {
 
 export interface CartItem {
   merchant_item_id: string;
+  variant_id?: string | null;
+  variant_name?: string | null;
   name: string;
   description?: string;
   image_url?: string;
   price_cents: number;
   quantity: number;
+  unit?: string | null;
 }
 
 export interface Cart {
@@ -269,12 +427,43 @@ export interface Cart {
   items: CartItem[];
 }
 
+/**
+ * Itemised delivery fees. `delivery_fee_cents` is the base (distance) fee less the free-delivery discount plus the
+ * peak fee; neither the surcharge nor the peak fee is discounted. `peak_label` names the shop's peak window in
+ * effect, if any. `rule_version` identifies the fee rules and shop settings the fees came from.
+ */
+export interface FeeBreakdown {
+  subtotal_cents: number;
+  base_fee_cents: number;
+  surcharge_cents: number;
+  free_delivery_discount_cents: number;
+  free_delivery_applied: boolean;
+  peak_fee_cents: number;
+  peak_label: string | null;
+  busy_mode_applied: boolean;
+  delivery_fee_cents: number;
+  total_cents: number;
+  distance_meters: number;
+  rule_version: string;
+}
+
+/** A fee breakdown signed by the server, valid for one shop until `expires_at`. */
+export interface FeeQuote extends FeeBreakdown {
+  shop_id: string;
+  expires_at: string;
+  signature: string;
+}
+
 export interface OrderCalculation {
   subtotal_cents: number;
   delivery_fee_cents: number;
   surcharge_cents: number;
   total_cents: number;
   distance_meters: number;
+  free_delivery_applied: boolean;
+  quote: FeeQuote;
+  /** Delivery time of the shop's zone for the address, when the merchant set one. */
+  eta_minutes?: number | null;
 }
 
 // ============================================================================
@@ -318,11 +507,47 @@ export function getOrderStage(status: OrderStatus): 'confirmation' | 'preparatio
 // UTILITY FUNCTIONS
 // ============================================================================
 
+/**
+ * Seconds the order has spent in its current status, as shown by the order timers.
+ * Terminal orders have no running timer and return 0.
+ */
+export function getStatusElapsedSeconds(
+  order: Pick<Order, 'status' | 'placed_at' | 'confirmed_at' | 'out_for_delivery_at'>,
+  now: number = Date.now()
+): number {
+  let startedAt: string | undefined | null;
+  switch (order.status) {
+    case 'pending':
+      startedAt = order.placed_at;
+      break;
+    case 'confirmed':
+      startedAt = order.confirmed_at;
+      break;
+    case 'out_for_delivery':
+      startedAt = order.out_for_delivery_at;
+      break;
+    default:
+      return 0;
+  }
+  if (!startedAt) return 0;
+  return Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+}
+
+/** True while a substitute offered to the customer is still unanswered; dispatch waits for the answer. */
+export function hasProposedSubstitution(order: Pick<OrderWithItems, 'order_items'>): boolean {
+  return (order.order_items ?? []).some((item) => item.substitution?.status === 'proposed');
+}
+
 export function formatPrice(cents: number, currency: string = 'PKR'): string {
   const amount = (cents / 100).toFixed(2);
   return `${currency} ${amount}`;
 }
 
+/** Quantity as billed: the weighed amount once the merchant has entered it, e.g. "1.25 kg"; plain count for pieces. */
+export function formatOrderItemQuantity(item: Pick<OrderItem, 'quantity' | 'unit' | 'weighed_quantity'>): string {
+  return formatQuantity(item.weighed_quantity ?? item.quantity, item.unit);
+}
+
 export function formatDuration(seconds: number): string {
   if (seconds < 60) {
     return `${seconds}s`;
@@ -23,6 +23,32 @@ declare module 'react-query' {
     options?: UseQueryOptions<TData>
   ): UseQueryResult<TData, TError>;
 
+  interface InfiniteData<TData> {
+    pages: TData[];
+    pageParams: unknown[];
+  }
+
+  interface QueryFunctionContext<TPageParam = unknown> {
+    queryKey: QueryKey;
+    pageParam?: TPageParam;
+  }
+
+  interface UseInfiniteQueryOptions<TData = unknown, TPageParam = unknown> extends UseQueryOptions<TData> {
+    getNextPageParam: (lastPage: TData, allPages: TData[]) => TPageParam | undefined;
+  }
+
+  interface UseInfiniteQueryResult<TData = unknown, TError = unknown> extends UseQueryResult<InfiniteData<TData>, TError> {
+    hasNextPage?: boolean;
+    isFetchingNextPage: boolean;
+    fetchNextPage: () => Promise<unknown>;
+  }
+
+  export function useInfiniteQuery<TData = unknown, TError = unknown, TPageParam = unknown>(
+    key: QueryKey,
+    queryFn: (context: QueryFunctionContext<TPageParam>) => Promise<TData>,
+    options: UseInfiniteQueryOptions<TData, TPageParam>
+  ): UseInfiniteQueryResult<TData, TError>;
+
   interface MutationOptions<TData = unknown, TVariables = void> {
     onSuccess?: (data: TData, variables: TVariables) => void;
   }
@@ -13,7 +13,8 @@ export type Shop = {
   is_open: boolean;
   created_at: string;
   shop_type?: string;
-  minimumOrderValue?: number;
+  minimumOrderValue?: number; // in PKR, the small-order surcharge applies below it; unset when the shop charges none
+  leastOrderValue?: number; // in PKR, the smallest order accepted at the consumer's address
   opening_hours?: any;
   holidays?: any;
   open_status_mode?: 'auto' | 'manual_open' | 'manual_closed' | null;
@@ -0,0 +1,209 @@
+/**
+ * Minimal ESC/POS command builder for 58mm and 80mm thermal receipt printers.
+ *
+ * Text is sent as UTF-8 after switching the printer to its UTF-8 code system (FS ( C). Printers without a
+ * Unicode font are driven in `ascii` mode, where anything outside ASCII prints as '?'.
+ *
+ * Printers draw each character in the order it is sent and do not join or reorder Arabic script, so Urdu
+ * cannot be sent as text. The app draws it instead and sends the result as a raster image (GS v 0); see
+ * `image` and `toMonoBitmap`. `rtl` mirrors the layout (rows, alignment) of the text that is sent as text.
+ */
+
+export type EscPosEncoding = 'utf8' | 'ascii';
+
+export type EscPosAlign = 'left' | 'center' | 'right';
+
+export interface EscPosOptions {
+  /** Characters per line at normal size: 32 on 58mm paper, 48 on 80mm. */
+  columns: number;
+  encoding: EscPosEncoding;
+  /** Mirrors rows so labels sit on the right and values on the left. */
+  rtl?: boolean;
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const FS = 0x1c;
+const LF = 0x0a;
+
+const ALIGN_CODES: Record<EscPosAlign, number> = { left: 0, center: 1, right: 2 };
+
+/** Font A is 12 dots wide, so a line is `columns * 12` dots: 384 on 58mm paper, 576 on 80mm. */
+export const DOTS_PER_COLUMN = 12;
+
+// Printers with a small buffer drop data from one tall image, so images are sent in bands of this many rows.
+const IMAGE_BAND_ROWS = 128;
+
+// Scripts the printer cannot shape: Hebrew, Arabic (Urdu included) and the Arabic presentation forms.
+const RTL_SCRIPT = /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufefe]/;
+
+/** A 1-bit image: one bit per dot, leftmost dot in the high bit, 1 for black, each row padded to whole bytes. */
+export interface MonoBitmap {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// Diacritics take no column of their own.
+const COMBINING_MARKS = /[\u0300-\u036f\u0610-\u061a\u064b-\u065f\u0670\u06d6-\u06ed]/g;
+
+/** True when the text contains script that has to be printed as an image. */
+export function hasRtlScript(text: string): boolean {
+  return RTL_SCRIPT.test(text);
+}
+
+/** Turns RGBA pixels into a printable bitmap; a dot is black when its brightness, over white paper, is below `threshold`. */
+export function toMonoBitmap(rgba: Uint8Array, width: number, height: number, threshold = 160): MonoBitmap {
+  const bytesPerRow = Math.ceil(width / 8);
+  const data = new Uint8Array(bytesPerRow * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const alpha = rgba[i + 3] / 255;
+      const brightness = (0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2]) * alpha + 255 * (1 - alpha);
+      if (brightness < threshold) {
+        data[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+export function textWidth(text: string): number {
+  return Array.from(text.replace(COMBINING_MARKS, '')).length;
+}
+
+function encodeUtf8(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0x3f;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return bytes;
+}
+
+function encodeAscii(text: string): number[] {
+  return Array.from(text.replace(COMBINING_MARKS, ''), (char) => {
+    const code = char.codePointAt(0) ?? 0x3f;
+    return code >= 0x20 && code < 0x7f ? code : 0x3f;
+  });
+}
+
+/** Splits text into lines of at most `width` columns, breaking on spaces where possible. */
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  text.split(/\r?\n/).forEach((paragraph) => {
+    let current = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (textWidth(candidate) <= width) {
+        current = candidate;
+        return;
+      }
+      if (current) lines.push(current);
+      let rest = word;
+      while (textWidth(rest) > width) {
+        const chars = Array.from(rest);
+        lines.push(chars.slice(0, width).join(''));
+        rest = chars.slice(width).join('');
+      }
+      current = rest;
+    });
+    lines.push(current);
+  });
+  return lines;
+}
+
+export function createEscPosBuilder({ columns, encoding, rtl = false }: EscPosOptions) {
+  const bytes: number[] = [ESC, 0x40];
+  if (encoding === 'utf8') {
+    bytes.push(FS, 0x28, 0x43, 0x02, 0x00, 0x30, 0x02);
+  }
+  let lineWidth = columns;
+
+  const encode = encoding === 'utf8' ? encodeUtf8 : encodeAscii;
+
+  const builder = {
+    align(align: EscPosAlign) {
+      bytes.push(ESC, 0x61, ALIGN_CODES[align]);
+      return builder;
+    },
+    bold(on: boolean) {
+      bytes.push(ESC, 0x45, on ? 1 : 0);
+      return builder;
+    },
+    /** Double width and height halves the characters that fit on a line. */
+    doubleSize(on: boolean) {
+      bytes.push(GS, 0x21, on ? 0x11 : 0x00);
+      lineWidth = on ? Math.floor(columns / 2) : columns;
+      return builder;
+    },
+    /** Prints text, wrapped to the current line width. */
+    line(text: string) {
+      wrapText(text, lineWidth).forEach((part) => {
+        bytes.push(...encode(part), LF);
+      });
+      return builder;
+    },
+    /** Label on one side and value on the other (label on the right when `rtl`); the label wraps if both do not fit. */
+    row(label: string, value: string) {
+      const valueWidth = textWidth(value);
+      const labelLines = wrapText(label, Math.max(lineWidth - valueWidth - 1, 1));
+      labelLines.forEach((part, index) => {
+        if (index < labelLines.length - 1) {
+          bytes.push(...encode(part), LF);
+          return;
+        }
+        const gap = ' '.repeat(Math.max(lineWidth - textWidth(part) - valueWidth, 1));
+        bytes.push(...encode(rtl ? `${value}${gap}${part}` : `${part}${gap}${value}`), LF);
+      });
+      return builder;
+    },
+    /** Prints a bitmap with GS v 0 at normal density. */
+    image(bitmap: MonoBitmap) {
+      const bytesPerRow = Math.ceil(bitmap.width / 8);
+      for (let top = 0; top < bitmap.height; top += IMAGE_BAND_ROWS) {
+        const rows = Math.min(IMAGE_BAND_ROWS, bitmap.height - top);
+        bytes.push(GS, 0x76, 0x30, 0x00, bytesPerRow & 0xff, bytesPerRow >> 8, rows & 0xff, rows >> 8);
+        // Pushed one by one: spreading a large band into push() can overflow the call stack.
+        bitmap.data.subarray(top * bytesPerRow, (top + rows) * bytesPerRow).forEach((byte) => {
+          bytes.push(byte);
+        });
+      }
+      return builder;
+    },
+    divider(char = '-') {
+      bytes.push(...encode(char.repeat(lineWidth)), LF);
+      return builder;
+    },
+    feed(lines = 1) {
+      bytes.push(ESC, 0x64, lines);
+      return builder;
+    },
+    /** Feeds past the tear bar and makes a partial cut; printers without a cutter ignore it. */
+    cut() {
+      bytes.push(GS, 0x56, 0x42, 0x03);
+      return builder;
+    },
+    build(): Uint8Array {
+      return Uint8Array.from(bytes);
+    },
+  };
+
+  return builder;
+}
+
+export type EscPosBuilder = ReturnType<typeof createEscPosBuilder>;
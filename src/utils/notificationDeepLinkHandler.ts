@@ -1,10 +1,12 @@
 import type { NavigationProp } from '@react-navigation/native';
 import type { RootStackParamList } from '../navigation/types';
+import { getMerchantShop } from '../services/merchant/shopService';
 
 export interface NotificationData {
   type: string;
-  orderId: string;
+  orderId?: string;
   shopId?: string;
+  itemId?: string;
   status?: string;
   customerName?: string;
   landmark?: string;
@@ -23,12 +25,17 @@ export function handleNotificationNavigation(
   }
 
   try {
-    if (data.type === 'order_status' || data.type === 'active_order') {
-      // Consumer order status notification (regular or persistent)
+    if (data.type === 'order_status' || data.type === 'active_order' || data.type === 'order_substitution') {
+      // Consumer order status notification (regular or persistent), or a substitute waiting for an answer
       if (data.orderId) {
         navigation.navigate('OrderStatus', { orderId: data.orderId });
       }
-    } else if (data.type === 'new_order' || data.type === 'order_cancelled') {
+    } else if (
+      data.type === 'new_order' ||
+      data.type === 'order_cancelled' ||
+      data.type === 'substitution_answered' ||
+      data.type === 'order_sla'
+    ) {
       // Merchant order notification
       if (data.orderId && data.shopId) {
         navigation.navigate('MerchantOrder', {
@@ -36,6 +43,11 @@ export function handleNotificationNavigation(
           orderId: data.orderId,
         });
       }
+    } else if (data.type === 'low_stock') {
+      // Merchant low-stock alert: the portal needs the full shop, so load it first
+      if (data.shopId) {
+        openLowStockInventory(data.shopId, navigation);
+      }
     } else {
       console.warn('Unknown notification type:', data.type);
     }
@@ -44,3 +56,18 @@ export function handleNotificationNavigation(
   }
 }
 
+async function openLowStockInventory(
+  shopId: string,
+  navigation: NavigationProp<RootStackParamList>
+): Promise<void> {
+  const { shop, error } = await getMerchantShop(shopId);
+  if (error || !shop) {
+    console.error('Error loading shop for low-stock notification:', error?.message);
+    return;
+  }
+  navigation.navigate('MerchantShopPortal', {
+    shop,
+    initialTab: 'inventory',
+    inventoryTab: 'low_stock',
+  });
+}
@@ -0,0 +1,69 @@
+/**
+ * SLA helpers for merchant orders.
+ *
+ * Each shop can set a target in minutes for every order stage. A stage is timed the same way as the order's
+ * `*_time_seconds` fields: confirmation from `placed_at`, preparation from `confirmed_at` and delivery from
+ * `out_for_delivery_at`. The backend records the breach when the order leaves the stage; these helpers flag it
+ * while the order is still sitting there.
+ */
+
+import type { Order } from '../types/orders';
+
+export type OrderSlaStage = 'confirmation' | 'preparation' | 'delivery';
+
+/** Minutes per stage; null means the stage has no target. */
+export type OrderSlaTargets = {
+  confirmationMinutes: number | null;
+  preparationMinutes: number | null;
+  deliveryMinutes: number | null;
+};
+
+export type OrderSlaBreach = {
+  stage: OrderSlaStage;
+  /** Seconds past the target. */
+  overdueSeconds: number;
+};
+
+type SlaTimedOrder = Pick<Order, 'status' | 'placed_at' | 'confirmed_at' | 'out_for_delivery_at'>;
+
+function getCurrentStage(order: SlaTimedOrder): { stage: OrderSlaStage; startedAt: string | undefined } | null {
+  switch (order.status) {
+    case 'pending':
+      return { stage: 'confirmation', startedAt: order.placed_at };
+    case 'confirmed':
+      return { stage: 'preparation', startedAt: order.confirmed_at };
+    case 'out_for_delivery':
+      return { stage: 'delivery', startedAt: order.out_for_delivery_at };
+    default:
+      return null;
+  }
+}
+
+function getTargetMinutes(targets: OrderSlaTargets, stage: OrderSlaStage): number | null {
+  switch (stage) {
+    case 'confirmation':
+      return targets.confirmationMinutes;
+    case 'preparation':
+      return targets.preparationMinutes;
+    case 'delivery':
+      return targets.deliveryMinutes;
+  }
+}
+
+/** The breach of the stage the order is in right now, or null while it is on time or the stage has no target. */
+export function getOrderSlaBreach(
+  order: SlaTimedOrder,
+  targets: OrderSlaTargets | null | undefined,
+  now: number = Date.now()
+): OrderSlaBreach | null {
+  if (!targets) return null;
+  const current = getCurrentStage(order);
+  if (!current?.startedAt) return null;
+
+  const targetMinutes = getTargetMinutes(targets, current.stage);
+  if (!targetMinutes) return null;
+
+  const elapsedSeconds = Math.floor((now - new Date(current.startedAt).getTime()) / 1000);
+  const overdueSeconds = elapsedSeconds - targetMinutes * 60;
+  return overdueSeconds > 0 ? { stage: current.stage, overdueSeconds } : null;
+}
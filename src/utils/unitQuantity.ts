@@ -0,0 +1,28 @@
+/**
+ * Quantity helpers for items sold by weight or measure.
+ *
+ * Items with a `unit` are priced per unit (kg, g, dozen, litre) and ordered in `quantity_step` increments, so cart
+ * quantities can be fractional. Items without a unit are sold per piece and always step by one.
+ */
+
+type UnitPriced = { unit?: string | null; quantity_step?: number | null };
+
+export function getQuantityStep(item: UnitPriced): number {
+  return item.unit && item.quantity_step && item.quantity_step > 0 ? item.quantity_step : 1;
+}
+
+/** Trims floating point noise from repeated step additions (0.1 + 0.2) to the API's three decimal places. */
+export function roundQuantity(quantity: number): number {
+  return Math.round(quantity * 1000) / 1000;
+}
+
+/** "1.5 kg" for unit-priced items, the plain count for per-piece items. */
+export function formatQuantity(quantity: number, unit?: string | null): string {
+  const value = String(roundQuantity(quantity));
+  return unit ? `${value} ${unit}` : value;
+}
+
+/** Line total in cents, rounded the same way the backend rounds order item subtotals. */
+export function getLineTotalCents(priceCents: number, quantity: number): number {
+  return Math.round(priceCents * quantity);
+}